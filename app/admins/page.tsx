@@ -0,0 +1,153 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Loader2, RotateCcw, ShieldCheck, ShieldOff } from "lucide-react"
+import { ApiError, getErrorMessage, listAdmins, resetAdminTwoFactor, type AdminUser } from "@/lib/api"
+import { PERMISSION_HINTS, ROLE_LABELS } from "@/lib/permissions"
+import { useSession } from "@/lib/use-session"
+import { AdminHeader } from "@/components/admin-header"
+import { PermissionDeniedBanner } from "@/components/permission-denied-banner"
+
+export default function AdminsPage() {
+  const { session, can } = useSession()
+  const [admins, setAdmins] = useState<AdminUser[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [resettingId, setResettingId] = useState<string | null>(null)
+  const [permissionError, setPermissionError] = useState<string | null>(null)
+
+  const canManageAdmins = can("admins.manage")
+
+  const fetchAdmins = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      setAdmins(await listAdmins())
+    } catch (error) {
+      console.error("Failed to fetch admins:", error)
+      if (error instanceof ApiError && error.isForbidden) {
+        setPermissionError(error.message || PERMISSION_HINTS["admins.manage"])
+      }
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (canManageAdmins) {
+      fetchAdmins()
+    }
+  }, [canManageAdmins, fetchAdmins])
+
+  const handleResetTwoFactor = async (admin: AdminUser) => {
+    if (!confirm(`Reset two-factor authentication for ${admin.name}? They will have to enroll again on their next sign-in.`)) {
+      return
+    }
+    setResettingId(admin.id)
+    try {
+      await resetAdminTwoFactor(admin.id)
+      setAdmins(prev => prev.map(a => (a.id === admin.id ? { ...a, two_factor_enabled: false } : a)))
+    } catch (error) {
+      console.error("Failed to reset 2FA:", error)
+      if (error instanceof ApiError && error.isForbidden) {
+        setPermissionError(error.message || PERMISSION_HINTS["admins.manage"])
+      } else {
+        alert(getErrorMessage(error, "Failed to reset two-factor authentication"))
+      }
+    } finally {
+      setResettingId(null)
+    }
+  }
+
+  if (!session) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="text-center">
+          <Loader2 className="h-8 w-8 animate-spin text-blue-600 mx-auto mb-4" />
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AdminHeader session={session} subtitle="Admin Accounts" />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {!canManageAdmins ? (
+          <PermissionDeniedBanner message={PERMISSION_HINTS["admins.manage"]} onDismiss={() => (window.location.href = "/")} />
+        ) : (
+          <>
+            {permissionError && (
+              <PermissionDeniedBanner message={permissionError} onDismiss={() => setPermissionError(null)} />
+            )}
+
+            <div className="bg-white rounded-lg shadow overflow-hidden">
+              {isLoading ? (
+                <div className="p-12 text-center">
+                  <Loader2 className="h-6 w-6 animate-spin text-blue-600 mx-auto" />
+                </div>
+              ) : admins.length === 0 ? (
+                <div className="p-12 text-center">
+                  <p className="text-gray-500">No admins found</p>
+                </div>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 text-left text-gray-500">
+                    <tr>
+                      <th className="px-6 py-3 font-medium">Admin</th>
+                      <th className="px-6 py-3 font-medium">Roles</th>
+                      <th className="px-6 py-3 font-medium">Two-factor</th>
+                      <th className="px-6 py-3" />
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {admins.map((admin) => (
+                      <tr key={admin.id}>
+                        <td className="px-6 py-4">
+                          <div className="font-medium text-gray-900">{admin.name}</div>
+                          <div className="text-gray-500">{admin.email}</div>
+                        </td>
+                        <td className="px-6 py-4 text-gray-600">
+                          {admin.roles.map((role) => ROLE_LABELS[role] ?? role).join(", ") || "—"}
+                        </td>
+                        <td className="px-6 py-4">
+                          {admin.two_factor_enabled ? (
+                            <span className="inline-flex items-center gap-1 px-3 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                              <ShieldCheck className="h-3 w-3" />
+                              Enabled
+                            </span>
+                          ) : (
+                            <span className="inline-flex items-center gap-1 px-3 py-1 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                              <ShieldOff className="h-3 w-3" />
+                              Not enrolled
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 text-right">
+                          {admin.two_factor_enabled && admin.id !== session.user.id && (
+                            <button
+                              onClick={() => handleResetTwoFactor(admin)}
+                              disabled={resettingId === admin.id}
+                              className="inline-flex items-center gap-2 px-3 py-1.5 border border-red-300 text-red-700 rounded-md hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed font-medium"
+                            >
+                              {resettingId === admin.id ? (
+                                <Loader2 className="h-4 w-4 animate-spin" />
+                              ) : (
+                                <RotateCcw className="h-4 w-4" />
+                              )}
+                              Reset 2FA
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server"
+import type { RecoveryCodesResponse } from "@/lib/api/types"
+import {
+  BACKEND_API_URL,
+  SESSION_COOKIE,
+  TWO_FACTOR_SETUP_COOKIE,
+  sealSession,
+  sessionCookieOptions,
+  unseal,
+  unsealSession,
+} from "@/lib/session"
+import { verifyTotp } from "@/lib/totp"
+
+interface TwoFactorSetup {
+  secret: string
+  expiresAt: number
+}
+
+/** Confirms enrollment with a first code, then hands the secret to the backend. */
+export async function POST(request: NextRequest) {
+  const session = await unsealSession(request.cookies.get(SESSION_COOKIE)?.value)
+  if (!session) {
+    return NextResponse.json({ message: "Your session has expired. Please sign in again." }, { status: 401 })
+  }
+  const setup = await unseal<TwoFactorSetup>(request.cookies.get(TWO_FACTOR_SETUP_COOKIE)?.value)
+  if (!setup) {
+    return NextResponse.json({ message: "Setup has expired. Please scan a new QR code." }, { status: 410 })
+  }
+
+  const { code } = (await request.json().catch(() => ({}))) as { code?: string }
+  if (!code || !(await verifyTotp(setup.secret, code))) {
+    return NextResponse.json(
+      { message: "That code doesn't match. Check your authenticator app's clock and try again." },
+      { status: 422 },
+    )
+  }
+
+  let upstream: Response
+  try {
+    upstream = await fetch(`${BACKEND_API_URL}/admin/2fa/enable`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json",
+        Authorization: `Bearer ${session.token}`,
+      },
+      body: JSON.stringify({ secret: setup.secret, code }),
+      cache: "no-store",
+    })
+  } catch (error) {
+    console.error("Two-factor enable proxy error:", error)
+    return NextResponse.json({ message: "Failed to connect to server" }, { status: 502 })
+  }
+
+  const data = (await upstream.json().catch(() => null)) as (RecoveryCodesResponse & { message?: string }) | null
+  if (!upstream.ok || !data) {
+    return NextResponse.json(
+      { message: data?.message || "Failed to enable two-factor authentication" },
+      { status: upstream.ok ? 502 : upstream.status },
+    )
+  }
+
+  const user = { ...session.user, two_factor_enabled: true }
+  const response = NextResponse.json({ recovery_codes: data.recovery_codes, user })
+  response.cookies.set(
+    SESSION_COOKIE,
+    await sealSession({ ...session, user }),
+    sessionCookieOptions(session.expiresAt),
+  )
+  response.cookies.delete({ name: TWO_FACTOR_SETUP_COOKIE, path: "/api/auth" })
+  return response
+}
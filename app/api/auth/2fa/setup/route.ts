@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server"
+import QRCode from "qrcode"
+import { SESSION_COOKIE, TWO_FACTOR_SETUP_COOKIE, seal, sessionCookieOptions, unsealSession } from "@/lib/session"
+import { buildOtpAuthUrl, generateSecret } from "@/lib/totp"
+
+const SETUP_TTL_MS = 10 * 60 * 1000
+const ISSUER = "VoteHubPH Admin"
+
+/** Starts enrollment: the secret stays in a sealed cookie until the admin confirms a code. */
+export async function POST(request: NextRequest) {
+  const session = await unsealSession(request.cookies.get(SESSION_COOKIE)?.value)
+  if (!session) {
+    return NextResponse.json({ message: "Your session has expired. Please sign in again." }, { status: 401 })
+  }
+  if (session.user.two_factor_enabled) {
+    return NextResponse.json({ message: "Two-factor authentication is already enabled" }, { status: 409 })
+  }
+
+  const secret = generateSecret()
+  const otpauthUrl = buildOtpAuthUrl({ secret, accountName: session.user.email, issuer: ISSUER })
+  // Rendered locally so the secret never leaves this server
+  const qrCode = await QRCode.toDataURL(otpauthUrl, { margin: 1, width: 224 })
+
+  const expiresAt = Date.now() + SETUP_TTL_MS
+  const response = NextResponse.json({ secret, otpauth_url: otpauthUrl, qr_code: qrCode })
+  response.cookies.set(
+    TWO_FACTOR_SETUP_COOKIE,
+    await seal({ secret, expiresAt }),
+    sessionCookieOptions(expiresAt, "/api/auth"),
+  )
+  return response
+}
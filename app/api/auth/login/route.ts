@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server"
+import type { BackendLoginResponse, BackendTwoFactorChallenge } from "@/lib/api/types"
+import {
+  BACKEND_API_URL,
+  TWO_FACTOR_CHALLENGE_COOKIE,
+  createSessionResponse,
+  seal,
+  sessionCookieOptions,
+} from "@/lib/session"
+
+const CHALLENGE_TTL_MS = 5 * 60 * 1000
+
+export async function POST(request: NextRequest) {
+  let upstream: Response
+  try {
+    upstream = await fetch(`${BACKEND_API_URL}/admin/login`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "application/json" },
+      body: await request.text(),
+      cache: "no-store",
+    })
+  } catch (error) {
+    console.error("Login proxy error:", error)
+    return NextResponse.json({ message: "Failed to connect to server" }, { status: 502 })
+  }
+
+  const data = (await upstream.json().catch(() => null)) as BackendLoginResponse | BackendTwoFactorChallenge | null
+  if (!upstream.ok) {
+    return NextResponse.json({ message: data?.message || "Login failed" }, { status: upstream.status })
+  }
+
+  if (data && "two_factor_required" in data && data.two_factor_required) {
+    // Password accepted; keep the challenge server-side until the TOTP step
+    const expiresAt = Date.now() + CHALLENGE_TTL_MS
+    const response = NextResponse.json({ two_factor_required: true })
+    response.cookies.set(
+      TWO_FACTOR_CHALLENGE_COOKIE,
+      await seal({ challengeToken: data.challenge_token, expiresAt }),
+      sessionCookieOptions(expiresAt, "/api/auth"),
+    )
+    return response
+  }
+
+  if (!data || !("token" in data) || !data.token || !data.user) {
+    console.error("Login response is missing a token or user")
+    return NextResponse.json({ message: "Login failed" }, { status: 502 })
+  }
+
+  return createSessionResponse(data)
+}
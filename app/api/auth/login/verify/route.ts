@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server"
+import type { BackendLoginResponse } from "@/lib/api/types"
+import { BACKEND_API_URL, TWO_FACTOR_CHALLENGE_COOKIE, createSessionResponse, unseal } from "@/lib/session"
+
+interface TwoFactorChallenge {
+  challengeToken: string
+  expiresAt: number
+}
+
+export async function POST(request: NextRequest) {
+  const challenge = await unseal<TwoFactorChallenge>(request.cookies.get(TWO_FACTOR_CHALLENGE_COOKIE)?.value)
+  if (!challenge) {
+    return NextResponse.json(
+      { message: "Your sign-in attempt has expired. Please enter your password again." },
+      { status: 401 },
+    )
+  }
+
+  const body = (await request.json().catch(() => ({}))) as { code?: string; recovery_code?: string }
+  let upstream: Response
+  try {
+    upstream = await fetch(`${BACKEND_API_URL}/admin/login/2fa`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "application/json" },
+      body: JSON.stringify({
+        challenge_token: challenge.challengeToken,
+        code: body.code,
+        recovery_code: body.recovery_code,
+      }),
+      cache: "no-store",
+    })
+  } catch (error) {
+    console.error("Two-factor login proxy error:", error)
+    return NextResponse.json({ message: "Failed to connect to server" }, { status: 502 })
+  }
+
+  const data = (await upstream.json().catch(() => null)) as BackendLoginResponse | null
+  if (!upstream.ok) {
+    // 422 means a wrong code: keep the challenge so the admin can retry
+    const response = NextResponse.json({ message: data?.message || "Invalid code" }, { status: upstream.status })
+    if (upstream.status !== 422) {
+      response.cookies.delete({ name: TWO_FACTOR_CHALLENGE_COOKIE, path: "/api/auth" })
+    }
+    return response
+  }
+  if (!data?.token || !data.user) {
+    console.error("Two-factor login response is missing a token or user")
+    return NextResponse.json({ message: "Login failed" }, { status: 502 })
+  }
+
+  const response = await createSessionResponse(data)
+  response.cookies.delete({ name: TWO_FACTOR_CHALLENGE_COOKIE, path: "/api/auth" })
+  return response
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server"
+import { BACKEND_API_URL, SESSION_COOKIE, unsealSession } from "@/lib/session"
+
+export async function POST(request: NextRequest) {
+  const session = await unsealSession(request.cookies.get(SESSION_COOKIE)?.value)
+
+  if (session) {
+    // Best effort: revoke the token on the backend, but always clear the cookie.
+    try {
+      await fetch(`${BACKEND_API_URL}/admin/logout`, {
+        method: "POST",
+        headers: { Accept: "application/json", Authorization: `Bearer ${session.token}` },
+        cache: "no-store",
+      })
+    } catch (error) {
+      console.error("Failed to revoke backend session:", error)
+    }
+  }
+
+  const response = NextResponse.json({ message: "Logged out" })
+  response.cookies.delete(SESSION_COOKIE)
+  return response
+}
@@ -0,0 +1,10 @@
+import { NextRequest, NextResponse } from "next/server"
+import { SESSION_COOKIE, unsealSession } from "@/lib/session"
+
+export async function GET(request: NextRequest) {
+  const session = await unsealSession(request.cookies.get(SESSION_COOKIE)?.value)
+  if (!session) {
+    return NextResponse.json({ message: "Your session has expired. Please sign in again." }, { status: 401 })
+  }
+  return NextResponse.json({ user: session.user, expires_at: new Date(session.expiresAt).toISOString() })
+}
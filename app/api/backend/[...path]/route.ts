@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server"
+import { BACKEND_API_URL, SESSION_COOKIE, unsealSession } from "@/lib/session"
+
+/**
+ * Forwards browser requests to the backend, swapping the httpOnly session
+ * cookie for a bearer token so the token never reaches client-side code.
+ */
+async function proxy(request: NextRequest, { params }: { params: { path: string[] } }) {
+  const session = await unsealSession(request.cookies.get(SESSION_COOKIE)?.value)
+  if (!session) {
+    return NextResponse.json({ message: "Your session has expired. Please sign in again." }, { status: 401 })
+  }
+
+  const url = `${BACKEND_API_URL}/${params.path.map(encodeURIComponent).join("/")}${request.nextUrl.search}`
+  const headers = new Headers({
+    Accept: request.headers.get("accept") ?? "application/json",
+    Authorization: `Bearer ${session.token}`,
+  })
+  const contentType = request.headers.get("content-type")
+  if (contentType) {
+    headers.set("Content-Type", contentType)
+  }
+
+  let upstream: Response
+  try {
+    upstream = await fetch(url, {
+      method: request.method,
+      headers,
+      body: request.method === "GET" || request.method === "HEAD" ? undefined : await request.text(),
+      cache: "no-store",
+      signal: request.signal,
+    })
+  } catch (error) {
+    console.error(`Backend proxy error for ${request.method} ${url}:`, error)
+    return NextResponse.json({ message: "Failed to connect to server" }, { status: 502 })
+  }
+
+  const responseType = upstream.headers.get("content-type") ?? "application/json"
+  const response = new NextResponse(upstream.body, {
+    status: upstream.status,
+    headers: { "Content-Type": responseType },
+  })
+  if (responseType.startsWith("text/event-stream")) {
+    // Keep intermediaries from buffering or caching the live post events stream
+    response.headers.set("Cache-Control", "no-cache, no-transform")
+    response.headers.set("X-Accel-Buffering", "no")
+  }
+  if (upstream.status === 401) {
+    // The backend no longer accepts this token, so the session is over.
+    response.cookies.delete(SESSION_COOKIE)
+  }
+  return response
+}
+
+export const dynamic = "force-dynamic"
+
+export { proxy as GET, proxy as POST, proxy as PUT, proxy as PATCH, proxy as DELETE }
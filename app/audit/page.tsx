@@ -0,0 +1,281 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import Link from "next/link"
+import { Loader2, X } from "lucide-react"
+import {
+  ApiError,
+  listAuditActors,
+  listAuditLog,
+  type AuditAction,
+  type AuditActor,
+  type AuditEntry,
+  type AuditLogParams,
+} from "@/lib/api"
+import { PERMISSION_HINTS } from "@/lib/permissions"
+import { useSession } from "@/lib/use-session"
+import { STATUS_LABELS } from "@/lib/post-filters"
+import { AUDIT_ACTIONS, AUDIT_ACTION_LABELS, AUDIT_ACTION_STYLES, describeActor } from "@/lib/audit"
+import { AdminHeader } from "@/components/admin-header"
+import { PermissionDeniedBanner } from "@/components/permission-denied-banner"
+
+const PAGE_SIZE = 50
+
+const selectClassName =
+  "px-3 py-2 border border-gray-300 rounded-md text-sm bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+
+interface AuditFilters {
+  actorId: string
+  action: AuditAction | ""
+  from: string
+  to: string
+}
+
+const EMPTY_FILTERS: AuditFilters = { actorId: "", action: "", from: "", to: "" }
+
+function toAuditLogParams(filters: AuditFilters): AuditLogParams {
+  return {
+    actor_id: filters.actorId || undefined,
+    action: filters.action || undefined,
+    from: filters.from || undefined,
+    to: filters.to || undefined,
+    per_page: PAGE_SIZE,
+  }
+}
+
+export default function AuditLogPage() {
+  const { session, can } = useSession()
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS)
+  const [entries, setEntries] = useState<AuditEntry[]>([])
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [actors, setActors] = useState<AuditActor[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isLoadingMore, setIsLoadingMore] = useState(false)
+  const [permissionError, setPermissionError] = useState<string | null>(null)
+  // Drops responses for filters that have since changed
+  const requestIdRef = useRef(0)
+
+  const canViewAudit = can("audit.view")
+
+  const handleError = (error: unknown) => {
+    if (error instanceof ApiError && error.isForbidden) {
+      setPermissionError(error.message || PERMISSION_HINTS["audit.view"])
+    }
+  }
+
+  const fetchEntries = useCallback(async () => {
+    const requestId = ++requestIdRef.current
+    setIsLoading(true)
+    try {
+      const page = await listAuditLog(toAuditLogParams(filters))
+      if (requestId !== requestIdRef.current) return
+      setEntries(page.data)
+      setNextCursor(page.next_cursor)
+    } catch (error) {
+      console.error("Failed to fetch audit log:", error)
+      handleError(error)
+    } finally {
+      if (requestId === requestIdRef.current) {
+        setIsLoading(false)
+      }
+    }
+  }, [filters])
+
+  const loadMore = async () => {
+    if (!nextCursor) return
+    const requestId = requestIdRef.current
+    setIsLoadingMore(true)
+    try {
+      const page = await listAuditLog({ ...toAuditLogParams(filters), cursor: nextCursor })
+      if (requestId !== requestIdRef.current) return
+      setEntries(prev => prev.concat(page.data))
+      setNextCursor(page.next_cursor)
+    } catch (error) {
+      console.error("Failed to load more audit entries:", error)
+      handleError(error)
+    } finally {
+      setIsLoadingMore(false)
+    }
+  }
+
+  useEffect(() => {
+    if (canViewAudit) {
+      fetchEntries()
+    }
+  }, [canViewAudit, fetchEntries])
+
+  useEffect(() => {
+    if (canViewAudit) {
+      listAuditActors()
+        .then(setActors)
+        .catch((error) => console.error("Failed to fetch audit actors:", error))
+    }
+  }, [canViewAudit])
+
+  const updateFilters = (changes: Partial<AuditFilters>) => setFilters(prev => ({ ...prev, ...changes }))
+  const hasFilters = filters.actorId !== "" || filters.action !== "" || filters.from !== "" || filters.to !== ""
+
+  if (!session) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="text-center">
+          <Loader2 className="h-8 w-8 animate-spin text-blue-600 mx-auto mb-4" />
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AdminHeader session={session} subtitle="Moderation Audit Log" />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {!canViewAudit ? (
+          <PermissionDeniedBanner message={PERMISSION_HINTS["audit.view"]} onDismiss={() => (window.location.href = "/")} />
+        ) : (
+          <>
+            {permissionError && (
+              <PermissionDeniedBanner message={permissionError} onDismiss={() => setPermissionError(null)} />
+            )}
+
+            <div className="bg-white rounded-lg shadow p-4 mb-6 flex flex-wrap items-center gap-3">
+              <select
+                value={filters.actorId}
+                onChange={(e) => updateFilters({ actorId: e.target.value })}
+                className={selectClassName}
+                aria-label="Admin"
+              >
+                <option value="">All admins</option>
+                {actors.map((actor) => (
+                  <option key={actor.id} value={actor.id}>{actor.name} ({actor.email})</option>
+                ))}
+              </select>
+              <select
+                value={filters.action}
+                onChange={(e) => updateFilters({ action: e.target.value as AuditAction | "" })}
+                className={selectClassName}
+                aria-label="Action"
+              >
+                <option value="">All actions</option>
+                {AUDIT_ACTIONS.map((action) => (
+                  <option key={action} value={action}>{AUDIT_ACTION_LABELS[action]}</option>
+                ))}
+              </select>
+              <div className="flex items-center gap-2 text-sm text-gray-600">
+                <span>From</span>
+                <input
+                  type="date"
+                  value={filters.from}
+                  max={filters.to || undefined}
+                  onChange={(e) => updateFilters({ from: e.target.value })}
+                  className={selectClassName}
+                  aria-label="From date"
+                />
+                <span>to</span>
+                <input
+                  type="date"
+                  value={filters.to}
+                  min={filters.from || undefined}
+                  onChange={(e) => updateFilters({ to: e.target.value })}
+                  className={selectClassName}
+                  aria-label="To date"
+                />
+              </div>
+              {hasFilters && (
+                <button
+                  onClick={() => setFilters(EMPTY_FILTERS)}
+                  className="ml-auto flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700 font-medium"
+                >
+                  <X className="h-4 w-4" />
+                  Clear filters
+                </button>
+              )}
+            </div>
+
+            <div className="bg-white rounded-lg shadow overflow-hidden">
+              {isLoading ? (
+                <div className="p-12 text-center">
+                  <Loader2 className="h-6 w-6 animate-spin text-blue-600 mx-auto" />
+                </div>
+              ) : entries.length === 0 ? (
+                <div className="p-12 text-center">
+                  <p className="text-gray-500">{hasFilters ? "No entries match your filters" : "No moderation activity yet"}</p>
+                </div>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 text-left text-gray-500">
+                    <tr>
+                      <th className="px-6 py-3 font-medium">When</th>
+                      <th className="px-6 py-3 font-medium">Admin</th>
+                      <th className="px-6 py-3 font-medium">Action</th>
+                      <th className="px-6 py-3 font-medium">Post</th>
+                      <th className="px-6 py-3 font-medium">Details</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {entries.map((entry) => (
+                      <tr key={entry.id} className="align-top">
+                        <td className="px-6 py-4 text-gray-600 whitespace-nowrap">
+                          <time dateTime={entry.created_at}>{new Date(entry.created_at).toLocaleString()}</time>
+                        </td>
+                        <td className="px-6 py-4">
+                          <div className="font-medium text-gray-900">{describeActor(entry)}</div>
+                          {entry.actor && <div className="text-gray-500">{entry.actor.email}</div>}
+                        </td>
+                        <td className="px-6 py-4">
+                          <span className={`px-2 py-0.5 rounded-full text-xs font-medium whitespace-nowrap ${AUDIT_ACTION_STYLES[entry.action] ?? "bg-gray-100 text-gray-800"}`}>
+                            {AUDIT_ACTION_LABELS[entry.action] ?? entry.action}
+                          </span>
+                        </td>
+                        <td className="px-6 py-4">
+                          {entry.post_id ? (
+                            <Link href={`/posts/${entry.post_id}`} className="text-blue-600 hover:text-blue-700 font-medium">
+                              {entry.post_name || `Post #${entry.post_id}`}
+                            </Link>
+                          ) : (
+                            <span className="text-gray-400">—</span>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 text-gray-600 max-w-md">
+                          {entry.from_status && entry.to_status && (
+                            <div>{STATUS_LABELS[entry.from_status]} → {STATUS_LABELS[entry.to_status]}</div>
+                          )}
+                          {entry.party_list_name && (
+                            <div>
+                              Party list:{" "}
+                              {entry.party_list_id ? (
+                                <Link href={`/partylists/${entry.party_list_id}`} className="text-blue-600 hover:text-blue-700">
+                                  {entry.party_list_name}
+                                </Link>
+                              ) : (
+                                entry.party_list_name
+                              )}
+                            </div>
+                          )}
+                          {entry.notes && <div className="whitespace-pre-wrap break-words">&ldquo;{entry.notes}&rdquo;</div>}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+              {!isLoading && nextCursor && (
+                <div className="border-t border-gray-100 p-4 text-center">
+                  <button
+                    onClick={loadMore}
+                    disabled={isLoadingMore}
+                    className="inline-flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    {isLoadingMore && <Loader2 className="h-4 w-4 animate-spin" />}
+                    Load more
+                  </button>
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  )
+}
@@ -1,15 +1,37 @@
 "use client"
 
-import { useState } from "react"
-import { useRouter } from "next/navigation"
-import { Shield, Mail, Lock, Loader2 } from "lucide-react"
+import { useEffect, useState } from "react"
+import { Shield, Mail, Lock, Loader2, KeyRound } from "lucide-react"
+import { ApiError, login, verifyTwoFactorLogin } from "@/lib/api"
+import { getSafeRedirect } from "@/lib/redirect"
+
+function getRedirectTarget() {
+  return getSafeRedirect(new URLSearchParams(window.location.search).get("next"), window.location.origin)
+}
+
+function getLoginError(error: unknown, fallback: string) {
+  return error instanceof ApiError && !error.isNetworkError ? error.message || fallback : "Failed to connect to server"
+}
 
 export default function AdminLoginPage() {
-  const router = useRouter()
-  const [email, setEmail] = useState("admin@votehubph")
+  const [step, setStep] = useState<"credentials" | "two_factor">("credentials")
+  const [email, setEmail] = useState("")
   const [password, setPassword] = useState("")
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState("")
+  const [notice, setNotice] = useState("")
+  const [code, setCode] = useState("")
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false)
+
+  // Explain why the admin landed here (middleware or the API client adds ?reason=)
+  useEffect(() => {
+    const reason = new URLSearchParams(window.location.search).get("reason")
+    if (reason === "expired") {
+      setNotice("Your session has expired. Please sign in again.")
+    } else if (reason === "logged_out") {
+      setNotice("You have been signed out.")
+    }
+  }, [])
 
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -17,32 +39,39 @@ export default function AdminLoginPage() {
     setError("")
 
     try {
-      const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000/api'
-      const response = await fetch(`${apiUrl}/admin/login`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        credentials: "include",
-        body: JSON.stringify({ email, password }),
-      })
-
-      const data = await response.json()
-
-      if (response.ok) {
-        // Store admin session info
-        if (typeof window !== 'undefined') {
-          localStorage.setItem('admin_authenticated', 'true')
-          localStorage.setItem('admin_user_id', data.user.id)
-        }
-        // Use hard redirect to ensure page fully reloads and authentication is checked
-        window.location.href = "/"
-      } else {
-        setError(data.message || "Login failed")
+      // The login route sets the httpOnly session cookie
+      const data = await login({ email, password })
+      if ("two_factor_required" in data) {
+        setPassword("")
+        setStep("two_factor")
+        return
       }
+      // Use hard redirect so middleware sees the new cookie
+      window.location.href = getRedirectTarget()
     } catch (error) {
       console.error("Login error:", error)
-      setError("Failed to connect to server")
+      setError(getLoginError(error, "Login failed"))
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsLoading(true)
+    setError("")
+
+    try {
+      await verifyTwoFactorLogin(useRecoveryCode ? { recovery_code: code.trim() } : { code: code.replace(/\s/g, "") })
+      window.location.href = getRedirectTarget()
+    } catch (error) {
+      console.error("Two-factor verification error:", error)
+      if (error instanceof ApiError && error.isUnauthorized) {
+        // Challenge expired: start over from the password step
+        setStep("credentials")
+        setCode("")
+      }
+      setError(getLoginError(error, "Invalid code"))
     } finally {
       setIsLoading(false)
     }
@@ -65,64 +94,141 @@ export default function AdminLoginPage() {
             VoteHubPH Admin Dashboard
           </p>
 
+          {notice && !error && (
+            <div className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded-md">
+              <p className="text-sm text-blue-700">{notice}</p>
+            </div>
+          )}
+
           {error && (
             <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md">
               <p className="text-sm text-red-600">{error}</p>
             </div>
           )}
 
-          <form onSubmit={handleLogin} className="space-y-4">
-            <div>
-              <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-1">
-                Email
-              </label>
-              <div className="relative">
-                <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
-                <input
-                  id="email"
-                  type="email"
-                  value={email}
-                  onChange={(e) => setEmail(e.target.value)}
-                  required
-                  className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                  placeholder="admin@votehubph"
-                />
+          {step === "two_factor" ? (
+            <form onSubmit={handleVerify} className="space-y-4">
+              <div>
+                <label htmlFor="code" className="block text-sm font-medium text-gray-700 mb-1">
+                  {useRecoveryCode ? "Recovery code" : "Authentication code"}
+                </label>
+                <div className="relative">
+                  <KeyRound className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
+                  <input
+                    id="code"
+                    type="text"
+                    inputMode={useRecoveryCode ? "text" : "numeric"}
+                    autoComplete="one-time-code"
+                    autoFocus
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    required
+                    maxLength={useRecoveryCode ? 32 : 7}
+                    className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 tracking-widest"
+                    placeholder={useRecoveryCode ? "xxxxx-xxxxx" : "123456"}
+                  />
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  {useRecoveryCode
+                    ? "Each recovery code can only be used once."
+                    : "Enter the 6-digit code from your authenticator app."}
+                </p>
               </div>
-            </div>
 
-            <div>
-              <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-1">
-                Password
-              </label>
-              <div className="relative">
-                <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
-                <input
-                  id="password"
-                  type="password"
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  required
-                  className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                  placeholder="Enter password"
-                />
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium flex items-center justify-center gap-2"
+              >
+                {isLoading ? (
+                  <>
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Verifying...
+                  </>
+                ) : (
+                  "Verify"
+                )}
+              </button>
+
+              <div className="flex justify-between text-sm">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setUseRecoveryCode(!useRecoveryCode)
+                    setCode("")
+                    setError("")
+                  }}
+                  className="text-blue-600 hover:text-blue-700 font-medium"
+                >
+                  {useRecoveryCode ? "Use authenticator code" : "Use a recovery code"}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setStep("credentials")
+                    setCode("")
+                    setError("")
+                  }}
+                  className="text-gray-500 hover:text-gray-700"
+                >
+                  Back
+                </button>
+              </div>
+            </form>
+          ) : (
+            <form onSubmit={handleLogin} className="space-y-4">
+              <div>
+                <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-1">
+                  Email
+                </label>
+                <div className="relative">
+                  <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
+                  <input
+                    id="email"
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    required
+                    className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    placeholder="admin@votehubph"
+                  />
+                </div>
               </div>
-            </div>
 
-            <button
-              type="submit"
-              disabled={isLoading}
-              className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium flex items-center justify-center gap-2"
-            >
-              {isLoading ? (
-                <>
-                  <Loader2 className="h-4 w-4 animate-spin" />
-                  Signing in...
-                </>
-              ) : (
-                "Sign In"
-              )}
-            </button>
-          </form>
+              <div>
+                <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-1">
+                  Password
+                </label>
+                <div className="relative">
+                  <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
+                  <input
+                    id="password"
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    required
+                    className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    placeholder="Enter password"
+                  />
+                </div>
+              </div>
+
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium flex items-center justify-center gap-2"
+              >
+                {isLoading ? (
+                  <>
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Signing in...
+                  </>
+                ) : (
+                  "Sign In"
+                )}
+              </button>
+            </form>
+          )}
         </div>
       </div>
     </div>
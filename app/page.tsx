@@ -1,87 +1,156 @@
 "use client"
 
-import { useState, useEffect, useRef, useCallback } from "react"
-import { CheckCircle, XCircle, Clock, Loader2, User, Shield, ChevronDown, ChevronUp, RefreshCw, Users, AlertCircle } from "lucide-react"
+import { Suspense, useState, useEffect, useRef, useCallback, useMemo } from "react"
+import { usePathname, useRouter, useSearchParams } from "next/navigation"
+import { ArrowUp, Loader2, RefreshCw, ListChecks } from "lucide-react"
+import {
+  ApiError,
+  approvePost,
+  flagPostImage,
+  getErrorMessage,
+  getPost,
+  getPostCounts,
+  getPostFacets,
+  listAllPostIds,
+  listPosts,
+  rejectPost,
+  removePostImage,
+  reopenPost,
+  revokeApproval,
+  type Post,
+  type PostCounts,
+  type PostFacets,
+  type PostEvent,
+  type PostImage,
+  type PostListParams,
+} from "@/lib/api"
+import { PERMISSION_HINTS, type Permission } from "@/lib/permissions"
+import { useSession } from "@/lib/use-session"
+import { useRejectionReasons } from "@/lib/use-rejection-reasons"
+import { invalidateDuplicatePools, useDuplicates } from "@/lib/use-duplicates"
+import { usePostEvents, type LiveConnection } from "@/lib/use-post-events"
+import { confirmClaimedAction, describeDecisionConflict, getDecisionConflict, getForeignClaim } from "@/lib/claims"
+import { DEFAULT_REJECTION_NOTE, EMPTY_REJECT_DRAFT, buildRejectRequest, type RejectDraft } from "@/lib/rejection-reasons"
+import {
+  hasActiveFacets,
+  mayMatchFilters,
+  parseFilters,
+  serializeFilters,
+  toPostListParams,
+  type PostFilters,
+  type StatusFilter,
+} from "@/lib/post-filters"
+import { AdminHeader } from "@/components/admin-header"
+import { PermissionDeniedBanner } from "@/components/permission-denied-banner"
+import { BulkActionBar, type BulkItemResult } from "@/components/bulk-action-bar"
+import { PostContent, PostHeader, PostModerationActions } from "@/components/post-sections"
+import { ReviewMode } from "@/components/review-mode"
+import { PostFiltersBar } from "@/components/post-filters-bar"
+import { ResubmissionDiff } from "@/components/resubmission-diff"
+import { DuplicateWarning } from "@/components/duplicate-warning"
+import { PartyListModal } from "@/components/party-list-modal"
+import type { DecisionReversal } from "@/components/reverse-decision-dialog"
+import type { ImageAction } from "@/components/image-lightbox"
+import { VirtualPostList } from "@/components/virtual-post-list"
+
+// Parallel requests during bulk approve/reject
+const BULK_CONCURRENCY = 4
+const PAGE_SIZE = 25
+// Upper bound for the silent refresh that reloads every page already scrolled through
+const MAX_REFRESH_SIZE = 100
+const COUNTS_REFRESH_DELAY_MS = 2000
+const CONNECTION_LABELS: Record<LiveConnection, string> = {
+  connecting: "Connecting...",
+  live: "Live",
+  polling: "Polling every minute",
+}
+const EMPTY_FACETS: PostFacets = { levels: [], positions: [], parties: [] }
+// Review mode walks the whole pending queue oldest first, a page at a time
+const REVIEW_QUERY: PostListParams = { status: "pending", sort: "oldest_pending", per_page: PAGE_SIZE }
+
+interface ReviewQueue {
+  /** Posts in queue order; later pages are appended so decisions don't reshuffle it mid-review. */
+  posts: Post[]
+  nextCursor: string | null
+  /** Server pending count when review started, so the counter covers pages not loaded yet. */
+  total: number
+}
 
-interface Post {
-  id: number
-  user_id: string
-  name: string
-  level: string
-  position: string
-  bio: string
-  platform: string | null
-  education: Array<{ level: string; school: string }> | null
-  achievements: string[] | null
-  images: Array<{ url: string; caption: string }> | null
-  profile_photo?: string | null
-  party?: string | null
-  party_list_managed?: boolean | null // Track if party list has been managed
-  status: "pending" | "approved" | "rejected"
-  admin_notes: string | null
-  user: {
-    id: string
-    name: string
-    email: string
-  }
-  created_at: string
-  updated_at: string
+function DashboardLoading() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50">
+      <div className="text-center">
+        <Loader2 className="h-8 w-8 animate-spin text-blue-600 mx-auto mb-4" />
+        <p className="text-gray-600">Loading dashboard...</p>
+      </div>
+    </div>
+  )
 }
 
-export default function AdminDashboard() {
-  const [isAuthenticated, setIsAuthenticated] = useState<boolean | null>(null)
+function AdminDashboard() {
+  const { session, can } = useSession()
+  const [permissionError, setPermissionError] = useState<string | null>(null)
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set())
+  const [bulkRejectNote, setBulkRejectNote] = useState("")
+  const [bulkResults, setBulkResults] = useState<Record<number, BulkItemResult>>({})
+  const [isBulkRunning, setIsBulkRunning] = useState(false)
+  const [reviewQueue, setReviewQueue] = useState<ReviewQueue | null>(null)
+  const [isStartingReview, setIsStartingReview] = useState(false)
+  const [isLoadingReviewPage, setIsLoadingReviewPage] = useState(false)
+  const [isSelectingAll, setIsSelectingAll] = useState(false)
   const [posts, setPosts] = useState<Post[]>([])
-  const [filteredPosts, setFilteredPosts] = useState<Post[]>([])
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [counts, setCounts] = useState<PostCounts | null>(null)
+  const [facets, setFacets] = useState<PostFacets>(EMPTY_FACETS)
   const [isLoading, setIsLoading] = useState(true)
   const [isRefreshing, setIsRefreshing] = useState(false)
-  const [filter, setFilter] = useState<"all" | "pending" | "approved" | "rejected">("pending")
-  const [rejectNotes, setRejectNotes] = useState<Record<number, string>>({})
+  const [isLoadingMore, setIsLoadingMore] = useState(false)
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+  // Filters live in the URL so a filtered view can be bookmarked and shared
+  const filters = useMemo(() => parseFilters(searchParams), [searchParams])
+  const filter = filters.status
+  const listParams = useMemo(
+    () => ({ ...toPostListParams(filters), status: filter === "all" ? undefined : filter }),
+    [filters, filter],
+  )
+  // The backend does the filtering and sorting, risk included; this only hides posts
+  // decided optimistically until the next refresh drops them from the page
+  const filteredPosts = useMemo(
+    () => (filter === "all" ? posts : posts.filter((p) => p.status === filter)),
+    [posts, filter],
+  )
+  const [rejectDrafts, setRejectDrafts] = useState<Record<number, RejectDraft>>({})
+  const rejectionReasons = useRejectionReasons()
+  const duplicates = useDuplicates(posts)
   const [processingIds, setProcessingIds] = useState<Set<number>>(new Set())
-  const [expandedSections, setExpandedSections] = useState<Record<string, boolean>>({})
-  const [partyListModals, setPartyListModals] = useState<Record<number, boolean>>({})
-  const [existingPartyLists, setExistingPartyLists] = useState<Record<number, any[]>>({})
-  const [searchPartyList, setSearchPartyList] = useState<Record<number, string>>({})
-  const [isSearchingPartyList, setIsSearchingPartyList] = useState<Record<number, boolean>>({})
-  const [selectedPartyListId, setSelectedPartyListId] = useState<Record<number, number | null>>({})
-  const [isProcessingPartyList, setIsProcessingPartyList] = useState<Record<number, boolean>>({})
-  const intervalRef = useRef<NodeJS.Timeout | null>(null)
+  const [partyListPostId, setPartyListPostId] = useState<number | null>(null)
+  // Posts pushed by the live stream that aren't loaded yet; shown as the "N new posts" banner
+  const [newPostIds, setNewPostIds] = useState<Set<number>>(new Set())
+  const countsTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
   const lastFetchRef = useRef<number>(0)
-  const isInitialMount = useRef(true)
-  const searchTimeoutsRef = useRef<Record<number, NodeJS.Timeout>>({})
+  // Incremented per list fetch so responses for superseded filters are dropped
+  const requestIdRef = useRef(0)
+  const loadedCountRef = useRef(0)
+
+  const isAuthenticated = session !== null
 
-  // Check authentication on mount
   useEffect(() => {
-    if (typeof window !== 'undefined') {
-      const authenticated = localStorage.getItem('admin_authenticated') === 'true'
-      setIsAuthenticated(authenticated)
-      if (!authenticated) {
-        setIsLoading(false)
-        // Redirect to login if not authenticated
-        setTimeout(() => {
-          window.location.href = '/login'
-        }, 100)
-      }
-    } else {
-      // Server-side: set to false to prevent loading state
-      setIsAuthenticated(false)
-      setIsLoading(false)
-    }
+    loadedCountRef.current = posts.length
+  }, [posts.length])
+
+  // Applies a change wherever the post is shown: the list and the review queue
+  const updatePost = useCallback((postId: number, update: (post: Post) => Post) => {
+    setPosts(prev => prev.map(p => (p.id === postId ? update(p) : p)))
+    setReviewQueue(prev => prev && { ...prev, posts: prev.posts.map(p => (p.id === postId ? update(p) : p)) })
   }, [])
 
   const fetchPosts = useCallback(async (silent = false) => {
-    // Double-check authentication before fetching
-    if (typeof window !== 'undefined') {
-      const authenticated = localStorage.getItem('admin_authenticated') === 'true'
-      if (!authenticated) {
-        setIsAuthenticated(false)
-        window.location.href = '/login'
-        return
-      }
-    }
-    
     if (!isAuthenticated) {
       return
     }
+    const requestId = ++requestIdRef.current
     
     if (!silent) {
       setIsLoading(true)
@@ -90,958 +159,765 @@ export default function AdminDashboard() {
     }
     
     try {
-      const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000/api'
-      const adminUserId = typeof window !== 'undefined' ? localStorage.getItem('admin_user_id') : null
-      
-      if (!adminUserId) {
-        console.error("Admin user ID not found")
+      // A silent refresh reloads what is already on screen so the list doesn't snap back to page one
+      const perPage = silent ? Math.min(Math.max(loadedCountRef.current, PAGE_SIZE), MAX_REFRESH_SIZE) : PAGE_SIZE
+      const [page, nextCounts] = await Promise.all([
+        listPosts({ ...listParams, per_page: perPage }),
+        getPostCounts(),
+      ])
+      if (requestId !== requestIdRef.current) {
+        return
+      }
+      setPosts(page.data)
+      setNextCursor(page.next_cursor)
+      setCounts(nextCounts)
+      setNewPostIds(new Set())
+      lastFetchRef.current = Date.now()
+    } catch (error) {
+      console.error("Failed to fetch posts:", error)
+      if (requestId === requestIdRef.current) {
+        setPosts([])
+        setNextCursor(null)
+      }
+    } finally {
+      if (requestId === requestIdRef.current) {
         setIsLoading(false)
         setIsRefreshing(false)
+      }
+    }
+  }, [isAuthenticated, listParams])
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || isLoadingMore) {
+      return
+    }
+    const requestId = requestIdRef.current
+    setIsLoadingMore(true)
+    try {
+      const page = await listPosts({ ...listParams, cursor: nextCursor, per_page: PAGE_SIZE })
+      if (requestId !== requestIdRef.current) {
         return
       }
-      
-      const response = await fetch(`${apiUrl}/admin/posts`, {
-        credentials: "include",
-        cache: 'no-store', // Prevent caching
-        headers: {
-          'X-User-Id': adminUserId,
-        },
+      // Posts can shift between pages while moderating; skip ones already shown
+      setPosts(prev => {
+        const seen = new Set(prev.map(p => p.id))
+        return prev.concat(page.data.filter(p => !seen.has(p.id)))
       })
-      if (response.ok) {
-        const data = await response.json()
-        // Ensure data is an array
-        if (Array.isArray(data)) {
-          setPosts(data)
-          lastFetchRef.current = Date.now()
-        } else {
-          console.error("Invalid response format - expected array, got:", data)
-          setPosts([])
-        }
-      } else {
-        // Try to parse error message
-        try {
-          const errorData = await response.json()
-          console.error("Failed to fetch posts:", errorData)
-        } catch (e) {
-          console.error("Failed to fetch posts: HTTP", response.status)
-        }
-        setPosts([])
-      }
+      setNextCursor(page.next_cursor)
     } catch (error) {
-      console.error("Failed to fetch posts:", error)
-      setPosts([])
+      console.error("Failed to load more posts:", error)
     } finally {
-      setIsLoading(false)
-      setIsRefreshing(false)
+      setIsLoadingMore(false)
     }
-  }, [isAuthenticated])
+  }, [isLoadingMore, listParams, nextCursor])
 
-  // Initial fetch
+  // Initial fetch, and again whenever the filters change
   useEffect(() => {
-    if (isAuthenticated === true) {
+    if (isAuthenticated) {
       fetchPosts()
-      isInitialMount.current = false
     }
   }, [isAuthenticated, fetchPosts])
 
-  // Auto-refresh every 30 seconds when tab is visible
   useEffect(() => {
-    const setupAutoRefresh = () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current)
-      }
+    if (!isAuthenticated) {
+      return
+    }
+    getPostFacets()
+      .then(setFacets)
+      .catch((error) => console.error("Failed to fetch filter options:", error))
+  }, [isAuthenticated])
 
-      intervalRef.current = setInterval(() => {
-        // Only refresh if tab is visible
-        if (document.visibilityState === 'visible') {
-          const now = Date.now()
-          // Don't refresh if we just fetched (within last 10 seconds)
-          if (now - lastFetchRef.current > 10000) {
-            fetchPosts(true) // Silent refresh
-          }
-        }
-      }, 60000) // 60 seconds (reduced frequency for better performance)
+  // Refresh the stat cards shortly after a burst of pushed events rather than once per event
+  const scheduleCountsRefresh = useCallback(() => {
+    if (countsTimerRef.current) {
+      return
     }
+    countsTimerRef.current = setTimeout(() => {
+      countsTimerRef.current = null
+      getPostCounts()
+        .then(setCounts)
+        .catch((error) => console.error("Failed to refresh counts:", error))
+    }, COUNTS_REFRESH_DELAY_MS)
+  }, [])
 
-    setupAutoRefresh()
+  useEffect(() => () => {
+    if (countsTimerRef.current) {
+      clearTimeout(countsTimerRef.current)
+    }
+  }, [])
 
-    // Handle visibility change
-    const handleVisibilityChange = () => {
-      if (document.visibilityState === 'visible') {
-        // Refresh immediately when tab becomes visible (if enough time has passed)
-        const now = Date.now()
-        if (now - lastFetchRef.current > 10000) {
-          fetchPosts(true)
-        }
-        setupAutoRefresh()
-      } else {
-        // Clear interval when tab is hidden
-        if (intervalRef.current) {
-          clearInterval(intervalRef.current)
-        }
+  // New posts only bump the banner so cards don't move under the moderator;
+  // changes to posts already on screen are applied in place
+  const handlePostEvent = useCallback((event: PostEvent) => {
+    if (event.type === "post.created") {
+      if (mayMatchFilters(event.post, filters)) {
+        setNewPostIds(prev => (prev.has(event.post.id) ? prev : new Set(prev).add(event.post.id)))
       }
+    } else {
+      updatePost(event.post.id, () => event.post)
     }
+    // Its seat may have gained a candidate or changed one's status
+    invalidateDuplicatePools(event.post)
+    scheduleCountsRefresh()
+  }, [filters, scheduleCountsRefresh, updatePost])
+
+  const connection = usePostEvents({
+    enabled: isAuthenticated,
+    onEvent: handlePostEvent,
+    onResync: () => {
+      // Events may have been missed while disconnected
+      invalidateDuplicatePools()
+      // Don't refresh if we just fetched (within last 10 seconds)
+      if (Date.now() - lastFetchRef.current > 10000) {
+        fetchPosts(true)
+      }
+    },
+  })
 
-    document.addEventListener('visibilitychange', handleVisibilityChange)
+  const newPostCount = useMemo(
+    () => Array.from(newPostIds).filter(id => !posts.some(p => p.id === id)).length,
+    [newPostIds, posts],
+  )
 
-    return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current)
-      }
-      document.removeEventListener('visibilitychange', handleVisibilityChange)
-    }
-  }, [fetchPosts])
+  const showNewPosts = () => {
+    window.scrollTo({ top: 0, behavior: "smooth" })
+    fetchPosts(true)
+  }
 
-  // Update filtered posts when filter or posts change
-  useEffect(() => {
-    if (filter === "all") {
-      setFilteredPosts(posts)
-    } else {
-      setFilteredPosts(posts.filter((p) => p.status === filter))
-    }
-  }, [filter, posts])
+  const updateFilters = useCallback((changes: Partial<PostFilters>) => {
+    const query = serializeFilters({ ...filters, ...changes }).toString()
+    router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false })
+  }, [filters, pathname, router])
 
-  // Auto-refresh when filter changes (but not on initial mount)
+  const setFilter = (status: StatusFilter) => updateFilters({ status })
+
+  // Selection is scoped to the current filters
   useEffect(() => {
-    // Skip refresh on initial mount
-    if (!isInitialMount.current && posts.length > 0) {
-      fetchPosts(true)
-    }
-  }, [filter, fetchPosts, posts.length])
+    setSelectedIds(new Set())
+  }, [filters])
 
   const handleManualRefresh = () => {
+    invalidateDuplicatePools()
     fetchPosts(false)
   }
 
+  // Surface backend 403s; returns true when the error was a permission refusal
+  const reportPermissionError = (error: unknown, permission: Permission) => {
+    if (error instanceof ApiError && error.isForbidden) {
+      setPermissionError(error.message || PERMISSION_HINTS[permission])
+      return true
+    }
+    return false
+  }
+
+  // Functional updates so concurrent single and bulk actions don't clobber each other
+  const markProcessing = (postIds: number[]) => {
+    setProcessingIds(prev => {
+      const next = new Set(prev)
+      postIds.forEach(id => next.add(id))
+      return next
+    })
+  }
+
+  const clearProcessing = (postId: number) => {
+    setProcessingIds(prev => {
+      const next = new Set(prev)
+      next.delete(postId)
+      return next
+    })
+  }
+
+  // Queued posts may be past the loaded list, so look in both
+  const findPost = (postId: number) =>
+    posts.find(p => p.id === postId) ?? reviewQueue?.posts.find(p => p.id === postId)
+
+  // A queued post outside the refreshed list is re-read on its own
+  const refreshReviewPost = async (postId: number) => {
+    if (!reviewQueue) {
+      return
+    }
+    try {
+      const fresh = await getPost(postId)
+      updatePost(postId, () => fresh)
+    } catch (error) {
+      console.error("Failed to refresh post:", error)
+    }
+  }
+
+  // Tells the moderator what the other admin decided when a decision lost a race
+  const reportDecisionConflict = (error: unknown) => {
+    const current = getDecisionConflict(error)
+    if (current) {
+      alert(describeDecisionConflict(current))
+    }
+    return current !== null
+  }
+
   const handleApprove = async (postId: number) => {
     // Prevent multiple clicks
     if (processingIds.has(postId)) {
       return
     }
+    const post = findPost(postId)
     
-    setProcessingIds(new Set(processingIds).add(postId))
+    markProcessing([postId])
     
     // Optimistic update: update UI immediately
-    setPosts(prevPosts => 
-      prevPosts.map(post => 
-        post.id === postId 
-          ? { ...post, status: 'approved' as const }
-          : post
-      )
-    )
+    updatePost(postId, post => ({ ...post, status: 'approved' as const }))
     
     try {
-      const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000/api'
-      const adminUserId = typeof window !== 'undefined' ? localStorage.getItem('admin_user_id') : null
-      
-      const response = await fetch(`${apiUrl}/admin/posts/${postId}/approve`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "Accept": "application/json",
-          ...(adminUserId ? { 'X-User-Id': adminUserId } : {}),
-        },
-        credentials: "include",
-      })
-      if (response.ok) {
-        // Sync with server (silent refresh to avoid loading state)
-        await fetchPosts(true)
-      } else {
-        // Revert on error
-        await fetchPosts(true)
-      }
+      await approvePost(postId, { expected_updated_at: post?.updated_at })
+      // Sync with server (silent refresh to avoid loading state)
+      await fetchPosts(true)
     } catch (error) {
       console.error("Failed to approve post:", error)
+      if (!reportPermissionError(error, "posts.moderate")) {
+        reportDecisionConflict(error)
+      }
       // Revert on error
-      await fetchPosts(true)
+      await Promise.all([fetchPosts(true), refreshReviewPost(postId)])
     } finally {
-      const newProcessingIds = new Set(processingIds)
-      newProcessingIds.delete(postId)
-      setProcessingIds(newProcessingIds)
+      clearProcessing(postId)
     }
   }
 
-  const handleReject = async (postId: number) => {
+  const handleReject = async (postId: number, draft?: RejectDraft) => {
     // Prevent multiple clicks
     if (processingIds.has(postId)) {
       return
     }
+    const post = findPost(postId)
     
-    setProcessingIds(new Set(processingIds).add(postId))
-    const adminNotes = rejectNotes[postId] || "Post rejected by admin"
+    markProcessing([postId])
+    const body = {
+      ...buildRejectRequest(draft ?? rejectDrafts[postId] ?? EMPTY_REJECT_DRAFT, rejectionReasons),
+      expected_updated_at: post?.updated_at,
+    }
+    const adminNotes = body.admin_notes
     
     // Optimistic update: update UI immediately
-    setPosts(prevPosts => 
-      prevPosts.map(post => 
-        post.id === postId 
-          ? { ...post, status: 'rejected' as const, admin_notes: adminNotes }
-          : post
-      )
-    )
+    updatePost(postId, post => ({ ...post, status: 'rejected' as const, admin_notes: adminNotes }))
     
-    // Clear reject notes immediately
-    setRejectNotes((prev) => {
-      const newNotes = { ...prev }
-      delete newNotes[postId]
-      return newNotes
+    // Clear the reject draft immediately
+    setRejectDrafts((prev) => {
+      const newDrafts = { ...prev }
+      delete newDrafts[postId]
+      return newDrafts
     })
     
     try {
-      const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000/api'
-      const adminUserId = typeof window !== 'undefined' ? localStorage.getItem('admin_user_id') : null
-      
-      const response = await fetch(`${apiUrl}/admin/posts/${postId}/reject`, {
-        method: "POST",
-        headers: { 
-          "Content-Type": "application/json",
-          "Accept": "application/json",
-          ...(adminUserId ? { 'X-User-Id': adminUserId } : {}),
-        },
-        body: JSON.stringify({ admin_notes: adminNotes }),
-        credentials: "include",
-      })
-      if (response.ok) {
-        // Sync with server (silent refresh to avoid loading state)
-        await fetchPosts(true)
-      } else {
-        // Revert on error
-        await fetchPosts(true)
-      }
+      await rejectPost(postId, body)
+      // Sync with server (silent refresh to avoid loading state)
+      await fetchPosts(true)
     } catch (error) {
       console.error("Failed to reject post:", error)
+      if (!reportPermissionError(error, "posts.moderate")) {
+        reportDecisionConflict(error)
+      }
       // Revert on error
+      await Promise.all([fetchPosts(true), refreshReviewPost(postId)])
+    } finally {
+      clearProcessing(postId)
+    }
+  }
+
+  const handleReverseDecision = async (postId: number, kind: DecisionReversal, reason: string) => {
+    if (processingIds.has(postId)) {
+      return
+    }
+    markProcessing([postId])
+    try {
+      if (kind === "revoke") {
+        await revokeApproval(postId, { reason })
+      } else {
+        await reopenPost(postId, { reason })
+      }
+    } catch (error) {
+      console.error(`Failed to ${kind} post:`, error)
+      if (!reportPermissionError(error, "posts.moderate")) {
+        alert(getErrorMessage(error, kind === "revoke" ? "Failed to revoke approval" : "Failed to reopen post"))
+      }
+    } finally {
       await fetchPosts(true)
+      clearProcessing(postId)
+    }
+  }
+
+  const handleImageAction = async (postId: number, action: ImageAction, image: PostImage, reason: string) => {
+    try {
+      if (action === "remove") {
+        await removePostImage(postId, { url: image.url, reason })
+      } else {
+        await flagPostImage(postId, { url: image.url, reason })
+      }
+    } catch (error) {
+      console.error(`Failed to ${action} image:`, error)
+      if (!reportPermissionError(error, "posts.moderate")) {
+        alert(getErrorMessage(error, action === "remove" ? "Failed to remove image" : "Failed to flag image"))
+      }
+      throw error
     } finally {
-      const newProcessingIds = new Set(processingIds)
-      newProcessingIds.delete(postId)
-      setProcessingIds(newProcessingIds)
+      await fetchPosts(true)
     }
   }
 
-  // Show loading only while checking authentication or fetching initial data
-  if (isAuthenticated === null || (isAuthenticated === true && isLoading && posts.length === 0)) {
-    return (
-      <div className="min-h-screen flex items-center justify-center bg-gray-50">
-        <div className="text-center">
-          <Loader2 className="h-8 w-8 animate-spin text-blue-600 mx-auto mb-4" />
-          <p className="text-gray-600">Loading dashboard...</p>
-        </div>
-      </div>
-    )
+  const toggleSelected = (postId: number) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev)
+      if (next.has(postId)) {
+        next.delete(postId)
+      } else {
+        next.add(postId)
+      }
+      return next
+    })
   }
 
-  // Redirect to login if not authenticated (handled in useEffect, but show loading briefly)
-  if (isAuthenticated === false) {
-    return (
-      <div className="min-h-screen flex items-center justify-center bg-gray-50">
-        <div className="text-center">
-          <Loader2 className="h-8 w-8 animate-spin text-blue-600 mx-auto mb-4" />
-          <p className="text-gray-600">Redirecting to login...</p>
-        </div>
-      </div>
-    )
+  const handleBulkAction = async (action: "approve" | "reject") => {
+    const ids = Array.from(selectedIds).filter(id => !processingIds.has(id))
+    if (ids.length === 0 || isBulkRunning) {
+      return
+    }
+    const adminNotes = bulkRejectNote.trim() || DEFAULT_REJECTION_NOTE
+    const loaded = new Map(posts.map(p => [p.id, p]))
+    const claimedCount = ids.filter(id => {
+      const post = loaded.get(id)
+      return post && getForeignClaim(post, session?.user.id)
+    }).length
+    const claimedWarning = claimedCount > 0
+      ? ` ${claimedCount} of them ${claimedCount === 1 ? "is" : "are"} being reviewed by another admin.`
+      : ""
+    if (!confirm(`${action === "approve" ? "Approve" : "Reject"} ${ids.length} selected post${ids.length === 1 ? "" : "s"}?${claimedWarning}`)) {
+      return
+    }
+
+    setIsBulkRunning(true)
+    setBulkResults(Object.fromEntries(ids.map(id => [id, { status: "queued" as const }])))
+    markProcessing(ids)
+
+    const queue = [...ids]
+    const failedIds: number[] = []
+    const setResult = (id: number, result: BulkItemResult) =>
+      setBulkResults(prev => ({ ...prev, [id]: result }))
+
+    const worker = async () => {
+      for (let id = queue.shift(); id !== undefined; id = queue.shift()) {
+        setResult(id, { status: "processing" })
+        try {
+          const expected_updated_at = loaded.get(id)?.updated_at
+          if (action === "approve") {
+            await approvePost(id, { expected_updated_at })
+          } else {
+            await rejectPost(id, { admin_notes: adminNotes, expected_updated_at })
+          }
+          setResult(id, { status: "succeeded" })
+          updatePost(id, post =>
+            action === "approve"
+              ? { ...post, status: 'approved' as const }
+              : { ...post, status: 'rejected' as const, admin_notes: adminNotes }
+          )
+        } catch (error) {
+          console.error(`Failed to ${action} post ${id}:`, error)
+          reportPermissionError(error, "posts.moderate")
+          failedIds.push(id)
+          const current = getDecisionConflict(error)
+          setResult(id, {
+            status: "failed",
+            error: current ? describeDecisionConflict(current) : getErrorMessage(error, `Failed to ${action}`),
+          })
+        } finally {
+          clearProcessing(id)
+        }
+      }
+    }
+
+    await Promise.all(Array.from({ length: Math.min(BULK_CONCURRENCY, ids.length) }, worker))
+
+    // Keep failures selected so they can be retried
+    setSelectedIds(new Set(failedIds))
+    if (failedIds.length === 0) {
+      setBulkRejectNote("")
+    }
+    setIsBulkRunning(false)
+    await fetchPosts(true)
   }
 
-  const stats = {
-    total: posts.length,
-    pending: posts.filter((p) => p.status === "pending").length,
-    approved: posts.filter((p) => p.status === "approved").length,
-    rejected: posts.filter((p) => p.status === "rejected").length,
+  const startReview = async () => {
+    if (isStartingReview) {
+      return
+    }
+    setIsStartingReview(true)
+    try {
+      const [page, nextCounts] = await Promise.all([listPosts(REVIEW_QUERY), getPostCounts()])
+      setCounts(nextCounts)
+      setSelectedIds(new Set())
+      setReviewQueue({
+        posts: page.data,
+        nextCursor: page.next_cursor,
+        total: Math.max(nextCounts.pending, page.data.length),
+      })
+    } catch (error) {
+      console.error("Failed to load the review queue:", error)
+      alert(getErrorMessage(error, "Failed to load the review queue"))
+    } finally {
+      setIsStartingReview(false)
+    }
   }
 
+  const loadMoreReview = async () => {
+    if (!reviewQueue?.nextCursor || isLoadingReviewPage) {
+      return
+    }
+    setIsLoadingReviewPage(true)
+    try {
+      const page = await listPosts({ ...REVIEW_QUERY, cursor: reviewQueue.nextCursor })
+      setReviewQueue(prev => {
+        if (!prev) {
+          return prev
+        }
+        const seen = new Set(prev.posts.map(p => p.id))
+        const queued = prev.posts.concat(page.data.filter(p => !seen.has(p.id)))
+        return { posts: queued, nextCursor: page.next_cursor, total: Math.max(prev.total, queued.length) }
+      })
+    } catch (error) {
+      console.error("Failed to load more of the review queue:", error)
+    } finally {
+      setIsLoadingReviewPage(false)
+    }
+  }
+
+  // Pages through every pending post matching the filters, not just the loaded ones
+  const selectAllMatching = async () => {
+    setIsSelectingAll(true)
+    try {
+      setSelectedIds(new Set(await listAllPostIds({ ...listParams, status: "pending" })))
+    } catch (error) {
+      console.error("Failed to select all matching posts:", error)
+      if (!reportPermissionError(error, "posts.moderate")) {
+        alert(getErrorMessage(error, "Failed to select all matching posts"))
+      }
+    } finally {
+      setIsSelectingAll(false)
+    }
+  }
+
+  // Show loading only while loading the session or fetching initial data
+  if (!isAuthenticated || (isLoading && counts === null)) {
+    return <DashboardLoading />
+  }
+
+  const canModerate = can("posts.moderate")
+  const canManagePartyLists = can("partylists.manage") || can("partylists.create")
+
+  // Only pending posts can be bulk approved or rejected
+  const selectablePosts = filteredPosts.filter(p => p.status === "pending")
+  const allSelected = selectablePosts.length > 0 && selectablePosts.every(p => selectedIds.has(p.id))
+
+  const partyListPost = partyListPostId === null ? undefined : findPost(partyListPostId)
+
+  const stats = counts ?? { total: 0, pending: 0, approved: 0, rejected: 0, needs_revision: 0 }
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
-      <header className="bg-white border-b border-gray-200 sticky top-0 z-50 shadow-sm">
-        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
-          <div className="flex items-center justify-between">
-            <div className="flex items-center gap-3">
-              <Shield className="h-8 w-8 text-blue-600" />
-              <div>
-                <h1 className="text-2xl font-bold text-gray-900">VoteHubPH Admin</h1>
-                <p className="text-sm text-gray-500">Post Moderation Dashboard</p>
+      <AdminHeader
+        session={session}
+        subtitle="Post Moderation Dashboard"
+        actions={
+          <>
+            {canModerate && !reviewQueue && stats.pending > 0 && (
+              <button
+                onClick={startReview}
+                disabled={isStartingReview}
+                className="flex items-center gap-2 px-4 py-2 border border-blue-600 text-blue-600 rounded-md hover:bg-blue-50 disabled:opacity-50 text-sm font-medium transition"
+                title="Review every pending post one at a time, oldest first"
+              >
+                {isStartingReview ? <Loader2 className="h-4 w-4 animate-spin" /> : <ListChecks className="h-4 w-4" />}
+                Review Mode
+              </button>
+            )}
+            <span
+              className="flex items-center gap-1.5 text-xs text-gray-500"
+              title={connection === "polling" ? "The live connection dropped; the list refreshes every minute until it is back" : undefined}
+            >
+              <span
+                className={`h-2 w-2 rounded-full ${
+                  connection === "live" ? "bg-green-500" : connection === "polling" ? "bg-amber-500" : "bg-gray-300"
+                }`}
+              />
+              {CONNECTION_LABELS[connection]}
+            </span>
+            <button
+              onClick={handleManualRefresh}
+              disabled={isRefreshing || isLoading}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium transition"
+              title="Refresh data"
+            >
+              <RefreshCw className={`h-4 w-4 ${isRefreshing ? 'animate-spin' : ''}`} />
+              {isRefreshing ? 'Refreshing...' : 'Refresh'}
+            </button>
+          </>
+        }
+      />
+
+      <main className={`max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 ${selectedIds.size > 0 || Object.keys(bulkResults).length > 0 ? "pb-48" : ""}`}>
+        {permissionError && (
+          <PermissionDeniedBanner message={permissionError} onDismiss={() => setPermissionError(null)} />
+        )}
+
+        {reviewQueue ? (
+          <ReviewMode
+            posts={reviewQueue.posts}
+            total={reviewQueue.total}
+            hasMore={reviewQueue.nextCursor !== null}
+            isLoadingMore={isLoadingReviewPage}
+            onLoadMore={loadMoreReview}
+            processingIds={processingIds}
+            onApprove={handleApprove}
+            onReject={handleReject}
+            reasons={rejectionReasons}
+            viewerId={session.user.id}
+            onExit={() => setReviewQueue(null)}
+            onManagePartyList={setPartyListPostId}
+            canManagePartyLists={canManagePartyLists}
+            shortcutsEnabled={partyListPostId === null}
+          />
+        ) : (
+          <>
+            {/* Stats Cards */}
+            <div className="grid grid-cols-5 gap-4 mb-8">
+              <div className="bg-white rounded-lg shadow p-6">
+                <div className="text-3xl font-bold text-gray-900">{stats.total}</div>
+                <p className="text-sm text-gray-500 mt-1">Total Posts</p>
+              </div>
+              <div
+                className="bg-white rounded-lg shadow p-6 cursor-pointer hover:shadow-md transition"
+                onClick={() => setFilter("pending")}
+              >
+                <div className="text-3xl font-bold text-yellow-600">{stats.pending}</div>
+                <p className="text-sm text-gray-500 mt-1">Pending Review</p>
+              </div>
+              <div
+                className="bg-white rounded-lg shadow p-6 cursor-pointer hover:shadow-md transition"
+                onClick={() => setFilter("needs_revision")}
+              >
+                <div className="text-3xl font-bold text-orange-600">{stats.needs_revision}</div>
+                <p className="text-sm text-gray-500 mt-1">Needs Revision</p>
+              </div>
+              <div
+                className="bg-white rounded-lg shadow p-6 cursor-pointer hover:shadow-md transition"
+                onClick={() => setFilter("approved")}
+              >
+                <div className="text-3xl font-bold text-green-600">{stats.approved}</div>
+                <p className="text-sm text-gray-500 mt-1">Approved</p>
+              </div>
+              <div
+                className="bg-white rounded-lg shadow p-6 cursor-pointer hover:shadow-md transition"
+                onClick={() => setFilter("rejected")}
+              >
+                <div className="text-3xl font-bold text-red-600">{stats.rejected}</div>
+                <p className="text-sm text-gray-500 mt-1">Rejected</p>
               </div>
             </div>
-            <div className="flex items-center gap-4">
+
+            {/* Filter Tabs */}
+            <div className="flex gap-2 mb-6 bg-white rounded-lg shadow p-2">
+              <button
+                onClick={() => setFilter("all")}
+                className={`px-4 py-2 rounded-md text-sm font-medium transition ${
+                  filter === "all"
+                    ? "bg-blue-600 text-white"
+                    : "text-gray-700 hover:bg-gray-100"
+                }`}
+              >
+                All Posts
+              </button>
+              <button
+                onClick={() => setFilter("pending")}
+                className={`px-4 py-2 rounded-md text-sm font-medium transition ${
+                  filter === "pending"
+                    ? "bg-yellow-600 text-white"
+                    : "text-gray-700 hover:bg-gray-100"
+                }`}
+              >
+                Pending
+              </button>
+              <button
+                onClick={() => setFilter("needs_revision")}
+                className={`px-4 py-2 rounded-md text-sm font-medium transition ${
+                  filter === "needs_revision"
+                    ? "bg-orange-600 text-white"
+                    : "text-gray-700 hover:bg-gray-100"
+                }`}
+              >
+                Needs Revision
+              </button>
               <button
-                onClick={handleManualRefresh}
-                disabled={isRefreshing || isLoading}
-                className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium transition"
-                title="Refresh data"
+                onClick={() => setFilter("approved")}
+                className={`px-4 py-2 rounded-md text-sm font-medium transition ${
+                  filter === "approved"
+                    ? "bg-green-600 text-white"
+                    : "text-gray-700 hover:bg-gray-100"
+                }`}
               >
-                <RefreshCw className={`h-4 w-4 ${isRefreshing ? 'animate-spin' : ''}`} />
-                {isRefreshing ? 'Refreshing...' : 'Refresh'}
+                Approved
               </button>
-              <a
-                href={process.env.NEXT_PUBLIC_FRONTEND_URL || 'http://localhost:3000'}
-                target="_blank"
-                rel="noopener noreferrer"
-                className="text-sm text-blue-600 hover:text-blue-700 font-medium"
+              <button
+                onClick={() => setFilter("rejected")}
+                className={`px-4 py-2 rounded-md text-sm font-medium transition ${
+                  filter === "rejected"
+                    ? "bg-red-600 text-white"
+                    : "text-gray-700 hover:bg-gray-100"
+                }`}
               >
-                View Main Site →
-              </a>
+                Rejected
+              </button>
+              {canModerate && selectablePosts.length > 0 && (
+                <label className="ml-auto flex items-center gap-2 px-3 text-sm text-gray-700 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={allSelected}
+                    onChange={() => setSelectedIds(allSelected ? new Set() : new Set(selectablePosts.map(p => p.id)))}
+                    disabled={isBulkRunning}
+                    className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  Select all {nextCursor ? "loaded " : ""}pending ({selectablePosts.length})
+                </label>
+              )}
+              {canModerate && nextCursor && (filter === "all" || filter === "pending") && (
+                <button
+                  onClick={selectAllMatching}
+                  disabled={isSelectingAll || isBulkRunning}
+                  className={`${selectablePosts.length > 0 ? "" : "ml-auto "}flex items-center gap-2 px-3 text-sm font-medium text-blue-600 hover:text-blue-700 disabled:opacity-50`}
+                >
+                  {isSelectingAll && <Loader2 className="h-4 w-4 animate-spin" />}
+                  Select every pending post matching the filters
+                </button>
+              )}
             </div>
-          </div>
-        </div>
-      </header>
-
-      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        {/* Stats Cards */}
-        <div className="grid grid-cols-4 gap-4 mb-8">
-          <div className="bg-white rounded-lg shadow p-6">
-            <div className="text-3xl font-bold text-gray-900">{stats.total}</div>
-            <p className="text-sm text-gray-500 mt-1">Total Posts</p>
-          </div>
-          <div
-            className="bg-white rounded-lg shadow p-6 cursor-pointer hover:shadow-md transition"
-            onClick={() => setFilter("pending")}
-          >
-            <div className="text-3xl font-bold text-yellow-600">{stats.pending}</div>
-            <p className="text-sm text-gray-500 mt-1">Pending Review</p>
-          </div>
-          <div
-            className="bg-white rounded-lg shadow p-6 cursor-pointer hover:shadow-md transition"
-            onClick={() => setFilter("approved")}
-          >
-            <div className="text-3xl font-bold text-green-600">{stats.approved}</div>
-            <p className="text-sm text-gray-500 mt-1">Approved</p>
-          </div>
-          <div
-            className="bg-white rounded-lg shadow p-6 cursor-pointer hover:shadow-md transition"
-            onClick={() => setFilter("rejected")}
-          >
-            <div className="text-3xl font-bold text-red-600">{stats.rejected}</div>
-            <p className="text-sm text-gray-500 mt-1">Rejected</p>
-          </div>
-        </div>
-
-        {/* Filter Tabs */}
-        <div className="flex gap-2 mb-6 bg-white rounded-lg shadow p-2">
-          <button
-            onClick={() => setFilter("all")}
-            className={`px-4 py-2 rounded-md text-sm font-medium transition ${
-              filter === "all"
-                ? "bg-blue-600 text-white"
-                : "text-gray-700 hover:bg-gray-100"
-            }`}
-          >
-            All Posts
-          </button>
-          <button
-            onClick={() => setFilter("pending")}
-            className={`px-4 py-2 rounded-md text-sm font-medium transition ${
-              filter === "pending"
-                ? "bg-yellow-600 text-white"
-                : "text-gray-700 hover:bg-gray-100"
-            }`}
-          >
-            Pending
-          </button>
-          <button
-            onClick={() => setFilter("approved")}
-            className={`px-4 py-2 rounded-md text-sm font-medium transition ${
-              filter === "approved"
-                ? "bg-green-600 text-white"
-                : "text-gray-700 hover:bg-gray-100"
-            }`}
-          >
-            Approved
-          </button>
-          <button
-            onClick={() => setFilter("rejected")}
-            className={`px-4 py-2 rounded-md text-sm font-medium transition ${
-              filter === "rejected"
-                ? "bg-red-600 text-white"
-                : "text-gray-700 hover:bg-gray-100"
-            }`}
-          >
-            Rejected
-          </button>
-        </div>
 
-        {/* Posts List */}
-        <div className="space-y-6">
-          {filteredPosts.length === 0 ? (
-            <div className="bg-white rounded-lg shadow p-12 text-center">
-              <p className="text-gray-500">No posts found</p>
-            </div>
-          ) : (
-            filteredPosts.map((post) => (
-              <div key={post.id} className="bg-white rounded-lg shadow">
-                {/* Post Header */}
-                <div className="border-b border-gray-200 p-6">
-                  <div className="flex items-start gap-4">
-                    {/* Profile Photo - Always prioritize profile_photo, never replace with campaign images */}
-                    <div className="flex-shrink-0">
-                      <img
-                        src={
-                          post.profile_photo 
-                            ? post.profile_photo 
-                            : `https://ui-avatars.com/api/?name=${encodeURIComponent(post.name)}&size=96&background=random`
-                        }
-                        alt={post.name}
-                        className="w-24 h-24 rounded-full object-cover border-2 border-gray-200"
-                      />
-                    </div>
+            <PostFiltersBar filters={filters} options={facets} onChange={updateFilters} />
+
+            {newPostCount > 0 && (
+              <div className="sticky top-4 z-20 flex justify-center mb-4">
+                <button
+                  onClick={showNewPosts}
+                  className="flex items-center gap-2 px-4 py-2 rounded-full bg-blue-600 text-white text-sm font-medium shadow-lg hover:bg-blue-700"
+                >
+                  <ArrowUp className="h-4 w-4" />
+                  {newPostCount} new {newPostCount === 1 ? "post" : "posts"}
+                </button>
+              </div>
+            )}
 
-                    <div className="flex-1">
-                      <div className="flex items-center gap-3 mb-2">
-                        <h3 className="text-xl font-bold text-gray-900">{post.name}</h3>
-                        {post.status === "pending" && (
-                          <span className="inline-flex items-center gap-1 px-3 py-1 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
-                            <Clock className="h-3 w-3" />
-                            Pending
-                          </span>
-                        )}
-                        {post.status === "approved" && (
-                          <span className="inline-flex items-center gap-1 px-3 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800">
-                            <CheckCircle className="h-3 w-3" />
-                            Approved
-                          </span>
-                        )}
-                        {post.status === "rejected" && (
-                          <span className="inline-flex items-center gap-1 px-3 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800">
-                            <XCircle className="h-3 w-3" />
-                            Rejected
-                          </span>
-                        )}
-                      </div>
-                      <div className="flex items-center gap-2 text-sm text-gray-600 mb-1">
-                        <User className="h-4 w-4" />
-                        <span>{post.user.name} ({post.user.email})</span>
-                      </div>
-                      <div className="flex gap-4 text-sm text-gray-600">
-                        <span className="font-medium">{post.position}</span>
-                        <span>•</span>
-                        <span>{post.level}</span>
-                        {post.party && (
-                          <>
-                            <span>•</span>
-                            <span className="font-medium text-blue-600">{post.party}</span>
-                          </>
-                        )}
-                      </div>
-                    </div>
-                    <div className="text-right text-sm text-gray-500 flex-shrink-0">
-                      <div>Submitted</div>
-                      <div className="font-medium">{new Date(post.created_at).toLocaleDateString()}</div>
-                      <div className="text-xs">{new Date(post.created_at).toLocaleTimeString()}</div>
-                    </div>
-                  </div>
+            {/* Posts List */}
+            <div className="space-y-6">
+              {isLoading ? (
+                <div className="bg-white rounded-lg shadow p-12 flex justify-center">
+                  <Loader2 className="h-6 w-6 animate-spin text-blue-600" />
                 </div>
+              ) : filteredPosts.length === 0 ? (
+                <div className="bg-white rounded-lg shadow p-12 text-center">
+                  <p className="text-gray-500">
+                    {hasActiveFacets(filters) ? "No posts match your filters" : "No posts found"}
+                  </p>
+                </div>
+              ) : (
+                <VirtualPostList
+                  posts={filteredPosts}
+                  hasMore={nextCursor !== null}
+                  isLoadingMore={isLoadingMore}
+                  onEndReached={loadMore}
+                  renderPost={(post) => (
+                    <div className="bg-white rounded-lg shadow">
+                      <PostHeader
+                        post={post}
+                        href={`/posts/${post.id}`}
+                        viewerId={session.user.id}
+                        leading={canModerate && post.status === "pending" && (
+                          <input
+                            type="checkbox"
+                            checked={selectedIds.has(post.id)}
+                            onChange={() => toggleSelected(post.id)}
+                            disabled={isBulkRunning}
+                            aria-label={`Select ${post.name}`}
+                            className="mt-1 h-5 w-5 rounded border-gray-300 text-blue-600 focus:ring-blue-500 flex-shrink-0"
+                          />
+                        )}
+                      />
 
-                {/* Post Content */}
-                <div className="p-6 space-y-4">
-                  {/* Bio Section with Expandable Summary */}
-                  <div>
-                    <h4 className="font-semibold text-sm text-gray-700 mb-2">Bio</h4>
-                    {(() => {
-                      const bioKey = `bio-${post.id}`
-                      const isExpanded = expandedSections[bioKey] || false
-                      const shouldTruncate = post.bio && post.bio.length > 200
-                      const displayText = shouldTruncate && !isExpanded 
-                        ? post.bio.substring(0, 200) + '...' 
-                        : post.bio
-                      
-                      return (
-                        <div>
-                          <p className="text-gray-600 whitespace-pre-wrap break-words">{displayText}</p>
-                          {shouldTruncate && (
-                            <button
-                              onClick={() => setExpandedSections(prev => ({ ...prev, [bioKey]: !isExpanded }))}
-                              className="mt-2 text-sm text-blue-600 hover:text-blue-700 font-medium flex items-center gap-1"
-                            >
-                              {isExpanded ? (
-                                <>
-                                  <ChevronUp className="h-4 w-4" />
-                                  Show Less
-                                </>
-                              ) : (
-                                <>
-                                  <ChevronDown className="h-4 w-4" />
-                                  Show More
-                                </>
-                              )}
-                            </button>
-                          )}
-                        </div>
-                      )
-                    })()}
-                  </div>
-
-                  {/* Platform & Advocacy Section with Expandable Summary */}
-                  {post.platform && (
-                    <div>
-                      <h4 className="font-semibold text-sm text-gray-700 mb-2">Platform & Advocacy</h4>
-                      {(() => {
-                        const platformKey = `platform-${post.id}`
-                        const isExpanded = expandedSections[platformKey] || false
-                        const shouldTruncate = post.platform && post.platform.length > 200
-                        const displayText = shouldTruncate && !isExpanded 
-                          ? post.platform.substring(0, 200) + '...' 
-                          : post.platform
-                        
-                        return (
-                          <div>
-                            <p className="text-gray-600 whitespace-pre-wrap break-words">{displayText}</p>
-                            {shouldTruncate && (
-                              <button
-                                onClick={() => setExpandedSections(prev => ({ ...prev, [platformKey]: !isExpanded }))}
-                                className="mt-2 text-sm text-blue-600 hover:text-blue-700 font-medium flex items-center gap-1"
-                              >
-                                {isExpanded ? (
-                                  <>
-                                    <ChevronUp className="h-4 w-4" />
-                                    Show Less
-                                  </>
-                                ) : (
-                                  <>
-                                    <ChevronDown className="h-4 w-4" />
-                                    Show More
-                                  </>
-                                )}
-                              </button>
-                            )}
-                          </div>
-                        )
-                      })()}
-                    </div>
-                  )}
-
-                  {post.education && post.education.length > 0 && (
-                    <div>
-                      <h4 className="font-semibold text-sm text-gray-700 mb-2">Education</h4>
-                      <ul className="space-y-1">
-                        {post.education.map((edu, idx) => (
-                          <li key={idx} className="text-gray-600 text-sm">
-                            • {edu.level} - {edu.school}
-                          </li>
-                        ))}
-                      </ul>
-                    </div>
-                  )}
-
-                  {post.achievements && post.achievements.length > 0 && (
-                    <div>
-                      <h4 className="font-semibold text-sm text-gray-700 mb-2">Achievements</h4>
-                      <ul className="space-y-1">
-                        {post.achievements.map((achievement, idx) => (
-                          <li key={idx} className="text-gray-600 text-sm">
-                            ✓ {achievement}
-                          </li>
-                        ))}
-                      </ul>
-                    </div>
-                  )}
+                      <DuplicateWarning post={post} matches={duplicates[post.id]} />
 
-                  {post.images && post.images.length > 0 && (
-                    <div>
-                      <h4 className="font-semibold text-sm text-gray-700 mb-3">
-                        Campaign Images ({post.images.length})
-                      </h4>
-                      <div className="grid grid-cols-2 gap-4">
-                        {post.images.map((img, idx) => {
-                          const captionKey = `caption-${post.id}-${idx}`
-                          const isExpanded = expandedSections[captionKey] || false
-                          const shouldTruncate = img.caption && img.caption.length > 100
-                          const displayCaption = shouldTruncate && !isExpanded 
-                            ? img.caption.substring(0, 100) + '...' 
-                            : img.caption
-                          
-                          return (
-                            <div key={idx} className="space-y-2">
-                              <div className="relative h-48 rounded-lg overflow-hidden bg-gray-100 border border-gray-200">
-                                <img
-                                  src={img.url}
-                                  alt={img.caption || `Image ${idx + 1}`}
-                                  className="w-full h-full object-cover"
-                                />
-                              </div>
-                              {img.caption && (
-                                <div>
-                                  <p className="text-xs text-gray-600 italic whitespace-pre-wrap break-words">
-                                    {displayCaption}
-                                  </p>
-                                  {shouldTruncate && (
-                                    <button
-                                      onClick={() => setExpandedSections(prev => ({ ...prev, [captionKey]: !isExpanded }))}
-                                      className="mt-1 text-xs text-blue-600 hover:text-blue-700 font-medium flex items-center gap-1"
-                                    >
-                                      {isExpanded ? (
-                                        <>
-                                          <ChevronUp className="h-3 w-3" />
-                                          Show Less
-                                        </>
-                                      ) : (
-                                        <>
-                                          <ChevronDown className="h-3 w-3" />
-                                          Show More
-                                        </>
-                                      )}
-                                    </button>
-                                  )}
-                                </div>
-                              )}
-                            </div>
-                          )
-                        })}
-                      </div>
-                    </div>
-                  )}
+                      <ResubmissionDiff post={post} />
 
-                  {/* Party List Notification - Only show if party list hasn't been managed yet */}
-                  {post.party && post.status === "pending" && !post.party_list_managed && (
-                    <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
-                      <div className="flex items-start gap-3">
-                        <AlertCircle className="h-5 w-5 text-yellow-600 flex-shrink-0 mt-0.5" />
-                        <div className="flex-1">
-                          <h4 className="font-semibold text-sm text-yellow-800 mb-1 flex items-center gap-2">
-                            <Users className="h-4 w-4" />
-                            Party List Detected
-                          </h4>
-                          <p className="text-sm text-yellow-700 mb-3">
-                            This candidate has specified a party list: <strong>{post.party}</strong>
-                          </p>
-                          <button
-                            onClick={() => setPartyListModals(prev => ({ ...prev, [post.id]: true }))}
-                            className="text-sm bg-yellow-600 text-white px-4 py-2 rounded-md hover:bg-yellow-700 font-medium"
-                          >
-                            Manage Party List
-                          </button>
-                        </div>
-                      </div>
-                    </div>
-                  )}
+                      <PostContent
+                        post={post}
+                        onManagePartyList={() => setPartyListPostId(post.id)}
+                        canManagePartyLists={canManagePartyLists}
+                        onImageAction={canModerate ? (action, image, reason) => handleImageAction(post.id, action, image, reason) : undefined}
+                      />
 
-                  {post.admin_notes && (
-                    <div className="bg-red-50 border border-red-200 rounded-lg p-4">
-                      <h4 className="font-semibold text-sm text-red-800 mb-1">Admin Notes</h4>
-                      <p className="text-sm text-red-700">{post.admin_notes}</p>
+                      <PostModerationActions
+                        post={post}
+                        canModerate={canModerate}
+                        isProcessing={processingIds.has(post.id)}
+                        reasons={rejectionReasons}
+                        rejectDraft={rejectDrafts[post.id] ?? EMPTY_REJECT_DRAFT}
+                        onRejectDraftChange={(draft) => setRejectDrafts((prev) => ({ ...prev, [post.id]: draft }))}
+                        onApprove={() => confirmClaimedAction(post, session.user.id) && handleApprove(post.id)}
+                        onReject={() => confirmClaimedAction(post, session.user.id) && handleReject(post.id)}
+                        onRequestRevision={() => router.push(`/posts/${post.id}?revise=1`)}
+                        onReverseDecision={(kind, reason) => handleReverseDecision(post.id, kind, reason)}
+                      />
                     </div>
                   )}
-                </div>
-
-                {/* Actions */}
-                {post.status === "pending" && (
-                  <div className="border-t border-gray-200 p-6 bg-gray-50">
-                    <div className="flex gap-4">
-                      <div className="flex-1">
-                        <textarea
-                          placeholder="Add notes for rejection (optional)..."
-                          value={rejectNotes[post.id] || ""}
-                          onChange={(e) =>
-                            setRejectNotes((prev) => ({ ...prev, [post.id]: e.target.value }))
-                          }
-                          rows={2}
-                          className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
-                        />
-                      </div>
-                      <div className="flex flex-col gap-2">
-                        <button
-                          type="button"
-                          onClick={(e) => {
-                            e.preventDefault()
-                            e.stopPropagation()
-                            handleApprove(post.id)
-                          }}
-                          disabled={processingIds.has(post.id)}
-                          className="inline-flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium text-sm"
-                        >
-                          {processingIds.has(post.id) ? (
-                            <Loader2 className="h-4 w-4 animate-spin" />
-                          ) : (
-                            <>
-                              <CheckCircle className="h-4 w-4" />
-                              Approve
-                            </>
-                          )}
-                        </button>
-                        <button
-                          type="button"
-                          onClick={(e) => {
-                            e.preventDefault()
-                            e.stopPropagation()
-                            handleReject(post.id)
-                          }}
-                          disabled={processingIds.has(post.id)}
-                          className="inline-flex items-center gap-2 px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium text-sm"
-                        >
-                          {processingIds.has(post.id) ? (
-                            <Loader2 className="h-4 w-4 animate-spin" />
-                          ) : (
-                            <>
-                              <XCircle className="h-4 w-4" />
-                              Reject
-                            </>
-                          )}
-                        </button>
-                      </div>
-                    </div>
-                  </div>
-                )}
-              </div>
-            ))
-          )}
-        </div>
+                />
+              )}
+            </div>
+          </>
+        )}
       </main>
 
-      {/* Party List Management Modal */}
-      {filteredPosts.map((post) => (
-        partyListModals[post.id] && post.party && (
-          <div key={`modal-${post.id}`} className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-            <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto">
-              <div className="p-6">
-                <div className="flex items-center justify-between mb-4">
-                  <h3 className="text-xl font-bold text-gray-900">Manage Party List</h3>
-                  <button
-                    onClick={() => setPartyListModals(prev => ({ ...prev, [post.id]: false }))}
-                    className="text-gray-400 hover:text-gray-600"
-                  >
-                    <XCircle className="h-6 w-6" />
-                  </button>
-                </div>
-                
-                <div className="space-y-4">
-                  <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
-                    <p className="text-sm text-blue-800">
-                      <strong>Candidate:</strong> {post.name}
-                    </p>
-                    <p className="text-sm text-blue-800">
-                      <strong>Party List:</strong> {post.party}
-                    </p>
-                  </div>
-
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-2">
-                      Search for existing party list
-                    </label>
-                    <div className="relative">
-                      <input
-                        type="text"
-                        placeholder="Search by name or acronym..."
-                        value={searchPartyList[post.id] || ""}
-                        onChange={(e) => {
-                          const query = e.target.value
-                          setSearchPartyList(prev => ({ ...prev, [post.id]: query }))
-                          setSelectedPartyListId(prev => ({ ...prev, [post.id]: null }))
-                          
-                          // Clear any existing timeout for this post
-                          if (searchTimeoutsRef.current[post.id]) {
-                            clearTimeout(searchTimeoutsRef.current[post.id])
-                            delete searchTimeoutsRef.current[post.id]
-                          }
-                          
-                          // Clear results if query is too short
-                          if (query.length < 1) {
-                            setExistingPartyLists(prev => ({ ...prev, [post.id]: [] }))
-                            setIsSearchingPartyList(prev => ({ ...prev, [post.id]: false }))
-                            return
-                          }
-                          
-                          // Debounce the search - wait 300ms after user stops typing
-                          setIsSearchingPartyList(prev => ({ ...prev, [post.id]: true }))
-                          
-                          // Set new timeout
-                          const timeoutId = setTimeout(async () => {
-                            try {
-                              const adminUserId = typeof window !== 'undefined' ? localStorage.getItem('admin_user_id') : null
-                              const response = await fetch(
-                                `${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000/api'}/admin/partylists/search?q=${encodeURIComponent(query)}`,
-                                {
-                                  credentials: "include",
-                                  headers: {
-                                    ...(adminUserId ? { 'X-User-Id': adminUserId } : {}),
-                                  },
-                                }
-                              )
-                              if (response.ok) {
-                                const data = await response.json()
-                                setExistingPartyLists(prev => ({ ...prev, [post.id]: data }))
-                              }
-                            } catch (error) {
-                              console.error("Failed to search party lists:", error)
-                            } finally {
-                              setIsSearchingPartyList(prev => ({ ...prev, [post.id]: false }))
-                              delete searchTimeoutsRef.current[post.id]
-                            }
-                          }, 300)
-                          
-                          // Store timeout ID
-                          searchTimeoutsRef.current[post.id] = timeoutId
-                        }}
-                        className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
-                      />
-                      {isSearchingPartyList[post.id] && (
-                        <div className="absolute right-3 top-2.5">
-                          <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
-                        </div>
-                      )}
-                    </div>
-                    
-                    {/* Search Results */}
-                    {existingPartyLists[post.id] && existingPartyLists[post.id].length > 0 && (
-                      <div className="mt-2 border border-gray-200 rounded-md max-h-48 overflow-y-auto">
-                        {existingPartyLists[post.id].map((pl: any) => (
-                          <button
-                            key={pl.id}
-                            onClick={() => setSelectedPartyListId(prev => ({ ...prev, [post.id]: pl.id }))}
-                            className={`w-full text-left px-3 py-2 hover:bg-gray-50 border-b border-gray-100 last:border-b-0 ${
-                              selectedPartyListId[post.id] === pl.id ? 'bg-blue-50 border-blue-200' : ''
-                            }`}
-                          >
-                            <div className="flex items-center justify-between">
-                              <div>
-                                <p className="font-medium text-sm text-gray-900">{pl.name}</p>
-                                {pl.acronym && (
-                                  <p className="text-xs text-gray-500">{pl.acronym}</p>
-                                )}
-                                {pl.sector && (
-                                  <p className="text-xs text-gray-400 mt-0.5">Sector: {pl.sector}</p>
-                                )}
-                              </div>
-                              <div className="text-xs text-gray-500">
-                                {pl.member_count || 0} members
-                              </div>
-                            </div>
-                          </button>
-                        ))}
-                      </div>
-                    )}
-                    {searchPartyList[post.id] && searchPartyList[post.id].length >= 2 && 
-                     existingPartyLists[post.id] && existingPartyLists[post.id].length === 0 && 
-                     !isSearchingPartyList[post.id] && (
-                      <p className="text-xs text-gray-500 mt-2">No party lists found matching "{searchPartyList[post.id]}"</p>
-                    )}
-                    <p className="text-xs text-gray-500 mt-1">
-                      Search for an existing party list to add this candidate to, or create a new one below.
-                    </p>
-                  </div>
+      {canModerate && !reviewQueue && (
+        <BulkActionBar
+          selectedCount={selectedIds.size}
+          rejectNote={bulkRejectNote}
+          onRejectNoteChange={setBulkRejectNote}
+          onApprove={() => handleBulkAction("approve")}
+          onReject={() => handleBulkAction("reject")}
+          onClear={() => setSelectedIds(new Set())}
+          results={bulkResults}
+          isRunning={isBulkRunning}
+          posts={posts}
+          onDismissResults={() => setBulkResults({})}
+        />
+      )}
 
-                  <div className="border-t pt-4">
-                    <div className="flex gap-3">
-                      <button
-                        onClick={async () => {
-                          const partyListId = selectedPartyListId[post.id]
-                          if (!partyListId) {
-                            alert("Please select a party list from the search results first")
-                            return
-                          }
-                          
-                          setIsProcessingPartyList(prev => ({ ...prev, [post.id]: true }))
-                          try {
-                            const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000/api'
-                            const adminUserId = typeof window !== 'undefined' ? localStorage.getItem('admin_user_id') : null
-                            
-                            const response = await fetch(
-                              `${apiUrl}/admin/partylists/${partyListId}/members`,
-                              {
-                                method: "POST",
-                                headers: { 
-                                  "Content-Type": "application/json",
-                                  ...(adminUserId ? { 'X-User-Id': adminUserId } : {}),
-                                },
-                                credentials: "include",
-                                body: JSON.stringify({ post_id: post.id }),
-                              }
-                            )
-                            
-                            if (response.ok) {
-                              alert(`Successfully added "${post.name}" to the party list!`)
-                              setPartyListModals(prev => ({ ...prev, [post.id]: false }))
-                              setSearchPartyList(prev => ({ ...prev, [post.id]: "" }))
-                              setSelectedPartyListId(prev => ({ ...prev, [post.id]: null }))
-                              // Mark party list as managed by updating the post
-                              setPosts(prev => prev.map(p => 
-                                p.id === post.id ? { ...p, party_list_managed: true } : p
-                              ))
-                              await fetchPosts()
-                            } else {
-                              const error = await response.json()
-                              alert(error.message || "Failed to add member to party list")
-                            }
-                          } catch (error) {
-                            console.error("Failed to add member:", error)
-                            alert("Failed to add member to party list")
-                          } finally {
-                            setIsProcessingPartyList(prev => ({ ...prev, [post.id]: false }))
-                          }
-                        }}
-                        disabled={!selectedPartyListId[post.id] || isProcessingPartyList[post.id]}
-                        className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium text-sm flex items-center justify-center gap-2"
-                      >
-                        {isProcessingPartyList[post.id] ? (
-                          <>
-                            <Loader2 className="h-4 w-4 animate-spin" />
-                            Adding...
-                          </>
-                        ) : (
-                          "Add to Existing Party List"
-                        )}
-                      </button>
-                      <button
-                        onClick={async () => {
-                          setIsProcessingPartyList(prev => ({ ...prev, [post.id]: true }))
-                          try {
-                            const apiUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000/api'
-                            const adminUserId = typeof window !== 'undefined' ? localStorage.getItem('admin_user_id') : null
-                            
-                            const response = await fetch(
-                              `${apiUrl}/admin/partylists`,
-                              {
-                                method: "POST",
-                                headers: { 
-                                  "Content-Type": "application/json",
-                                  ...(adminUserId ? { 'X-User-Id': adminUserId } : {}),
-                                },
-                                credentials: "include",
-                                body: JSON.stringify({
-                                  name: post.party,
-                                  post_id: post.id,
-                                  platform: post.platform ? (typeof post.platform === 'string' ? [post.platform] : post.platform) : [],
-                                }),
-                              }
-                            )
-                            
-                            if (response.ok) {
-                              alert(`Successfully created party list "${post.party}" and added "${post.name}" as a member!`)
-                              setPartyListModals(prev => ({ ...prev, [post.id]: false }))
-                              setSearchPartyList(prev => ({ ...prev, [post.id]: "" }))
-                              // Mark party list as managed by updating the post
-                              setPosts(prev => prev.map(p => 
-                                p.id === post.id ? { ...p, party_list_managed: true } : p
-                              ))
-                              await fetchPosts()
-                            } else {
-                              const error = await response.json()
-                              alert(error.message || "Failed to create party list")
-                            }
-                          } catch (error) {
-                            console.error("Failed to create party list:", error)
-                            alert("Failed to create party list")
-                          } finally {
-                            setIsProcessingPartyList(prev => ({ ...prev, [post.id]: false }))
-                          }
-                        }}
-                        disabled={isProcessingPartyList[post.id]}
-                        className="flex-1 px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium text-sm flex items-center justify-center gap-2"
-                      >
-                        {isProcessingPartyList[post.id] ? (
-                          <>
-                            <Loader2 className="h-4 w-4 animate-spin" />
-                            Creating...
-                          </>
-                        ) : (
-                          "Create New Party List"
-                        )}
-                      </button>
-                    </div>
-                  </div>
-                </div>
-              </div>
-            </div>
-          </div>
-        )
-      ))}
+      {/* Party List Management Modal */}
+      {partyListPost?.party && (
+        <PartyListModal
+          post={{ ...partyListPost, party: partyListPost.party }}
+          canAddMember={can("partylists.manage")}
+          canCreate={can("partylists.create")}
+          onClose={() => setPartyListPostId(null)}
+          onManaged={() => {
+            setPartyListPostId(null)
+            // Mark party list as managed by updating the post
+            updatePost(partyListPost.id, p => ({ ...p, party_list_managed: true }))
+            fetchPosts(true)
+          }}
+          onPermissionError={reportPermissionError}
+        />
+      )}
     </div>
   )
 }
+
+// useSearchParams needs a Suspense boundary for the static shell
+export default function AdminDashboardPage() {
+  return (
+    <Suspense fallback={<DashboardLoading />}>
+      <AdminDashboard />
+    </Suspense>
+  )
+}
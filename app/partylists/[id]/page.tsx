@@ -0,0 +1,367 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import { notFound, useParams } from "next/navigation"
+import { ArrowLeft, Loader2, Trash2 } from "lucide-react"
+import {
+  ApiError,
+  deactivatePartyList,
+  getErrorMessage,
+  getPartyList,
+  listPartyListMembers,
+  reactivatePartyList,
+  removePartyListMember,
+  updatePartyList,
+  type PartyList,
+  type PartyListMember,
+  type PostStatus,
+  type UpdatePartyListRequest,
+} from "@/lib/api"
+import { PERMISSION_HINTS } from "@/lib/permissions"
+import { useSession } from "@/lib/use-session"
+import { STATUS_LABELS } from "@/lib/post-filters"
+import { AdminHeader } from "@/components/admin-header"
+import { CandidateAvatar } from "@/components/candidate-avatar"
+import { PermissionDeniedBanner } from "@/components/permission-denied-banner"
+import { RegistryBadge } from "@/components/registry-badge"
+
+const STATUS_STYLES: Record<PostStatus, string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  approved: "bg-green-100 text-green-800",
+  rejected: "bg-red-100 text-red-800",
+  needs_revision: "bg-orange-100 text-orange-800",
+}
+
+const inputClassName =
+  "w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+
+interface PartyListForm {
+  name: string
+  acronym: string
+  logoUrl: string
+  /** One platform plank per line. */
+  platform: string
+}
+
+function toForm(partyList: PartyList): PartyListForm {
+  return {
+    name: partyList.name,
+    acronym: partyList.acronym ?? "",
+    logoUrl: partyList.logo_url ?? "",
+    platform: (partyList.platform ?? []).join("\n"),
+  }
+}
+
+function toUpdateRequest(form: PartyListForm): UpdatePartyListRequest {
+  return {
+    name: form.name.trim(),
+    acronym: form.acronym.trim() || null,
+    logo_url: form.logoUrl.trim() || null,
+    platform: form.platform.split("\n").map((line) => line.trim()).filter((line) => line !== ""),
+  }
+}
+
+export default function PartyListDetailPage() {
+  const params = useParams<{ id: string }>()
+  const partyListId = Number(params.id)
+  const isValidId = Number.isInteger(partyListId) && partyListId > 0
+  const { session, can } = useSession()
+  const [partyList, setPartyList] = useState<PartyList | null>(null)
+  const [members, setMembers] = useState<PartyListMember[]>([])
+  const [form, setForm] = useState<PartyListForm | null>(null)
+  const [isMissing, setIsMissing] = useState(false)
+  const [loadError, setLoadError] = useState<unknown>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [isTogglingActive, setIsTogglingActive] = useState(false)
+  const [removingId, setRemovingId] = useState<number | null>(null)
+  const [error, setError] = useState("")
+  const [permissionError, setPermissionError] = useState<string | null>(null)
+
+  const canManagePartyLists = can("partylists.manage")
+
+  const reportError = (error: unknown, fallback: string) => {
+    if (error instanceof ApiError && error.isForbidden) {
+      setPermissionError(error.message || PERMISSION_HINTS["partylists.manage"])
+    } else {
+      alert(getErrorMessage(error, fallback))
+    }
+  }
+
+  const fetchPartyList = useCallback(async () => {
+    try {
+      const [loaded, loadedMembers] = await Promise.all([
+        getPartyList(partyListId),
+        listPartyListMembers(partyListId),
+      ])
+      setPartyList(loaded)
+      setForm(toForm(loaded))
+      setMembers(loadedMembers)
+    } catch (error) {
+      console.error("Failed to fetch party list:", error)
+      if (error instanceof ApiError && error.status === 404) {
+        setIsMissing(true)
+      } else if (error instanceof ApiError && error.isForbidden) {
+        setPermissionError(error.message || PERMISSION_HINTS["partylists.manage"])
+      } else {
+        setLoadError(error)
+      }
+    }
+  }, [partyListId])
+
+  useEffect(() => {
+    if (canManagePartyLists && isValidId) {
+      fetchPartyList()
+    }
+  }, [canManagePartyLists, isValidId, fetchPartyList])
+
+  if (!isValidId || isMissing) {
+    notFound()
+  }
+  // Let app/partylists/[id]/error.tsx render the failure; its retry remounts the page
+  if (loadError) {
+    throw loadError
+  }
+
+  if (!session || (canManagePartyLists && !permissionError && (!partyList || !form))) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="text-center">
+          <Loader2 className="h-8 w-8 animate-spin text-blue-600 mx-auto mb-4" />
+          <p className="text-gray-600">Loading party list...</p>
+        </div>
+      </div>
+    )
+  }
+
+  const updateForm = (changes: Partial<PartyListForm>) => setForm(prev => prev && { ...prev, ...changes })
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!form) return
+    setIsSaving(true)
+    setError("")
+    try {
+      const updated = await updatePartyList(partyListId, toUpdateRequest(form))
+      setPartyList(updated)
+      setForm(toForm(updated))
+    } catch (error) {
+      console.error("Failed to update party list:", error)
+      if (error instanceof ApiError && error.isForbidden) {
+        setPermissionError(error.message || PERMISSION_HINTS["partylists.manage"])
+      } else {
+        setError(getErrorMessage(error, "Failed to save party list"))
+      }
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleToggleActive = async () => {
+    if (!partyList) return
+    const isActive = partyList.is_active !== false
+    if (isActive && !confirm(`Deactivate "${partyList.name}"? Its members stay linked, but moderators can't add new posts to it.`)) {
+      return
+    }
+    setIsTogglingActive(true)
+    try {
+      setPartyList(await (isActive ? deactivatePartyList(partyListId) : reactivatePartyList(partyListId)))
+    } catch (error) {
+      console.error("Failed to change party list status:", error)
+      reportError(error, isActive ? "Failed to deactivate party list" : "Failed to reactivate party list")
+    } finally {
+      setIsTogglingActive(false)
+    }
+  }
+
+  const handleRemoveMember = async (member: PartyListMember) => {
+    if (!partyList || !confirm(`Remove "${member.name}" from ${partyList.name}? Their post keeps the party they declared.`)) {
+      return
+    }
+    setRemovingId(member.post_id)
+    try {
+      await removePartyListMember(partyListId, member.post_id)
+      setMembers(prev => prev.filter(m => m.post_id !== member.post_id))
+      setPartyList(prev => prev && { ...prev, member_count: Math.max((prev.member_count ?? 1) - 1, 0) })
+    } catch (error) {
+      console.error("Failed to remove party list member:", error)
+      reportError(error, "Failed to remove member")
+    } finally {
+      setRemovingId(null)
+    }
+  }
+
+  const isActive = partyList?.is_active !== false
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AdminHeader session={session} subtitle="Party Lists" />
+
+      <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Link href="/partylists" className="inline-flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900 mb-4">
+          <ArrowLeft className="h-4 w-4" />
+          All party lists
+        </Link>
+
+        {!canManagePartyLists ? (
+          <PermissionDeniedBanner message={PERMISSION_HINTS["partylists.manage"]} onDismiss={() => (window.location.href = "/")} />
+        ) : (
+          <>
+            {permissionError && (
+              <PermissionDeniedBanner message={permissionError} onDismiss={() => setPermissionError(null)} />
+            )}
+
+            {partyList && form && (
+              <>
+                <div className="bg-white rounded-lg shadow p-6 mb-6 flex items-center gap-4">
+                  <CandidateAvatar name={partyList.acronym || partyList.name} src={partyList.logo_url} size="md" />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <h2 className="text-2xl font-bold text-gray-900">{partyList.name}</h2>
+                      {!isActive && (
+                        <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-600">Deactivated</span>
+                      )}
+                      <RegistryBadge status={partyList.registry_status} subject="Party list" />
+                    </div>
+                    <p className="text-sm text-gray-500">
+                      {[partyList.acronym, partyList.sector, `${partyList.member_count ?? members.length} member(s)`]
+                        .filter(Boolean)
+                        .join(" • ")}
+                    </p>
+                    {partyList.aliases && partyList.aliases.length > 0 && (
+                      <p className="text-sm text-gray-500 mt-1">
+                        Also known as: {partyList.aliases.join(", ")}
+                      </p>
+                    )}
+                  </div>
+                  <button
+                    onClick={handleToggleActive}
+                    disabled={isTogglingActive}
+                    className={`inline-flex items-center gap-2 px-4 py-2 rounded-md text-sm font-medium disabled:opacity-50 ${
+                      isActive
+                        ? "border border-red-300 text-red-700 hover:bg-red-50"
+                        : "bg-blue-600 text-white hover:bg-blue-700"
+                    }`}
+                  >
+                    {isTogglingActive && <Loader2 className="h-4 w-4 animate-spin" />}
+                    {isActive ? "Deactivate" : "Reactivate"}
+                  </button>
+                </div>
+
+                <form onSubmit={handleSave} className="bg-white rounded-lg shadow p-6 mb-6 space-y-4">
+                  <h3 className="font-semibold text-gray-900">Details</h3>
+                  {error && (
+                    <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+                      <p className="text-sm text-red-600">{error}</p>
+                    </div>
+                  )}
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div className="md:col-span-2">
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                      <input
+                        type="text"
+                        value={form.name}
+                        onChange={(e) => updateForm({ name: e.target.value })}
+                        required
+                        className={inputClassName}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Acronym</label>
+                      <input
+                        type="text"
+                        value={form.acronym}
+                        onChange={(e) => updateForm({ acronym: e.target.value })}
+                        placeholder="e.g. AKBAYAN"
+                        className={inputClassName}
+                      />
+                    </div>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Logo URL</label>
+                    <div className="flex items-center gap-3">
+                      <input
+                        type="url"
+                        value={form.logoUrl}
+                        onChange={(e) => updateForm({ logoUrl: e.target.value })}
+                        placeholder="https://"
+                        className={inputClassName}
+                      />
+                      <CandidateAvatar name={form.acronym || form.name || "?"} src={form.logoUrl.trim() || null} size="sm" />
+                    </div>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Platform</label>
+                    <textarea
+                      value={form.platform}
+                      onChange={(e) => updateForm({ platform: e.target.value })}
+                      rows={5}
+                      placeholder="One platform point per line"
+                      className={inputClassName}
+                    />
+                  </div>
+                  <div className="flex justify-end gap-3">
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setForm(toForm(partyList))
+                        setError("")
+                      }}
+                      className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+                    >
+                      Reset
+                    </button>
+                    <button
+                      type="submit"
+                      disabled={isSaving}
+                      className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium text-sm"
+                    >
+                      {isSaving && <Loader2 className="h-4 w-4 animate-spin" />}
+                      Save Changes
+                    </button>
+                  </div>
+                </form>
+
+                <div className="bg-white rounded-lg shadow overflow-hidden">
+                  <h3 className="px-6 py-4 border-b border-gray-100 font-semibold text-gray-900">Members</h3>
+                  {members.length === 0 ? (
+                    <div className="p-12 text-center">
+                      <p className="text-gray-500">No posts are linked to this party list</p>
+                    </div>
+                  ) : (
+                    <ul className="divide-y divide-gray-100">
+                      {members.map((member) => (
+                        <li key={member.post_id} className="px-6 py-3 flex items-center gap-4">
+                          <CandidateAvatar name={member.name} src={member.profile_photo} size="sm" />
+                          <div className="flex-1 min-w-0">
+                            <Link href={`/posts/${member.post_id}`} className="font-medium text-blue-600 hover:text-blue-700">
+                              {member.name}
+                            </Link>
+                            <p className="text-sm text-gray-500">
+                              {member.position} • {member.level} • added {new Date(member.added_at).toLocaleDateString()}
+                            </p>
+                          </div>
+                          <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[member.status]}`}>
+                            {STATUS_LABELS[member.status]}
+                          </span>
+                          <button
+                            onClick={() => handleRemoveMember(member)}
+                            disabled={removingId === member.post_id}
+                            className="p-1.5 rounded-md text-red-500 hover:bg-red-50 disabled:opacity-50"
+                            title="Remove from party list"
+                          >
+                            {removingId === member.post_id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              </>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  )
+}
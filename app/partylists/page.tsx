@@ -0,0 +1,283 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import Link from "next/link"
+import { GitMerge, Loader2, Search } from "lucide-react"
+import { ApiError, listPartyLists, type PartyList, type PartyListListParams } from "@/lib/api"
+import { PERMISSION_HINTS } from "@/lib/permissions"
+import { useSession } from "@/lib/use-session"
+import { AdminHeader } from "@/components/admin-header"
+import { CandidateAvatar } from "@/components/candidate-avatar"
+import { PartyListMergeModal } from "@/components/party-list-merge-modal"
+import { PermissionDeniedBanner } from "@/components/permission-denied-banner"
+import { RegistryBadge } from "@/components/registry-badge"
+
+const PAGE_SIZE = 50
+const SEARCH_DEBOUNCE_MS = 300
+
+type ActiveFilter = "all" | "active" | "inactive"
+
+const selectClassName =
+  "px-3 py-2 border border-gray-300 rounded-md text-sm bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+
+function toListParams(query: string, active: ActiveFilter): PartyListListParams {
+  return {
+    q: query.trim() || undefined,
+    is_active: active === "all" ? undefined : active === "active",
+    per_page: PAGE_SIZE,
+  }
+}
+
+export default function PartyListsPage() {
+  const { session, can } = useSession()
+  const [search, setSearch] = useState("")
+  const [query, setQuery] = useState("")
+  const [active, setActive] = useState<ActiveFilter>("active")
+  const [partyLists, setPartyLists] = useState<PartyList[]>([])
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isLoadingMore, setIsLoadingMore] = useState(false)
+  const [permissionError, setPermissionError] = useState<string | null>(null)
+  // Kept across searches so duplicates found under different spellings can be merged together
+  const [selectedIds, setSelectedIds] = useState<number[]>([])
+  const [mergingIds, setMergingIds] = useState<number[] | null>(null)
+  const timeoutRef = useRef<NodeJS.Timeout | null>(null)
+  // Drops responses for filters that have since changed
+  const requestIdRef = useRef(0)
+
+  const canManagePartyLists = can("partylists.manage")
+
+  const handleError = (error: unknown) => {
+    if (error instanceof ApiError && error.isForbidden) {
+      setPermissionError(error.message || PERMISSION_HINTS["partylists.manage"])
+    }
+  }
+
+  const fetchPartyLists = useCallback(async () => {
+    const requestId = ++requestIdRef.current
+    setIsLoading(true)
+    try {
+      const page = await listPartyLists(toListParams(query, active))
+      if (requestId !== requestIdRef.current) return
+      setPartyLists(page.data)
+      setNextCursor(page.next_cursor)
+    } catch (error) {
+      console.error("Failed to fetch party lists:", error)
+      handleError(error)
+    } finally {
+      if (requestId === requestIdRef.current) {
+        setIsLoading(false)
+      }
+    }
+  }, [query, active])
+
+  const loadMore = async () => {
+    if (!nextCursor) return
+    const requestId = requestIdRef.current
+    setIsLoadingMore(true)
+    try {
+      const page = await listPartyLists({ ...toListParams(query, active), cursor: nextCursor })
+      if (requestId !== requestIdRef.current) return
+      setPartyLists(prev => prev.concat(page.data))
+      setNextCursor(page.next_cursor)
+    } catch (error) {
+      console.error("Failed to load more party lists:", error)
+      handleError(error)
+    } finally {
+      setIsLoadingMore(false)
+    }
+  }
+
+  useEffect(() => {
+    if (canManagePartyLists) {
+      fetchPartyLists()
+    }
+  }, [canManagePartyLists, fetchPartyLists])
+
+  useEffect(() => () => {
+    if (timeoutRef.current) clearTimeout(timeoutRef.current)
+  }, [])
+
+  const toggleSelected = (id: number) => {
+    setSelectedIds(prev => (prev.includes(id) ? prev.filter(selectedId => selectedId !== id) : prev.concat(id)))
+  }
+
+  const handleMerged = (survivor: PartyList) => {
+    setMergingIds(null)
+    setSelectedIds([])
+    alert(`Merged into "${survivor.name}"`)
+    fetchPartyLists()
+  }
+
+  const handleSearchChange = (value: string) => {
+    setSearch(value)
+    if (timeoutRef.current) clearTimeout(timeoutRef.current)
+    timeoutRef.current = setTimeout(() => setQuery(value), SEARCH_DEBOUNCE_MS)
+  }
+
+  if (!session) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="text-center">
+          <Loader2 className="h-8 w-8 animate-spin text-blue-600 mx-auto mb-4" />
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AdminHeader session={session} subtitle="Party Lists" />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {!canManagePartyLists ? (
+          <PermissionDeniedBanner message={PERMISSION_HINTS["partylists.manage"]} onDismiss={() => (window.location.href = "/")} />
+        ) : (
+          <>
+            {permissionError && (
+              <PermissionDeniedBanner message={permissionError} onDismiss={() => setPermissionError(null)} />
+            )}
+
+            <div className="bg-white rounded-lg shadow p-4 mb-6 flex gap-3">
+              <div className="relative flex-1">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+                <input
+                  type="search"
+                  placeholder="Search name, acronym or former name..."
+                  value={search}
+                  onChange={(e) => handleSearchChange(e.target.value)}
+                  className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <select
+                value={active}
+                onChange={(e) => setActive(e.target.value as ActiveFilter)}
+                className={selectClassName}
+                aria-label="Status"
+              >
+                <option value="active">Active</option>
+                <option value="inactive">Deactivated</option>
+                <option value="all">All party lists</option>
+              </select>
+              {selectedIds.length > 0 && (
+                <div className="flex items-center gap-3">
+                  <span className="text-sm text-gray-600">{selectedIds.length} selected</span>
+                  <button
+                    onClick={() => setSelectedIds([])}
+                    className="text-sm text-gray-600 hover:text-gray-900 font-medium"
+                  >
+                    Clear
+                  </button>
+                  <button
+                    onClick={() => setMergingIds(selectedIds)}
+                    disabled={selectedIds.length < 2}
+                    title={selectedIds.length < 2 ? "Select at least two party lists to merge" : undefined}
+                    className="inline-flex items-center gap-2 px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium text-sm"
+                  >
+                    <GitMerge className="h-4 w-4" />
+                    Merge
+                  </button>
+                </div>
+              )}
+            </div>
+
+            <div className="bg-white rounded-lg shadow overflow-hidden">
+              {isLoading ? (
+                <div className="p-12 text-center">
+                  <Loader2 className="h-6 w-6 animate-spin text-blue-600 mx-auto" />
+                </div>
+              ) : partyLists.length === 0 ? (
+                <div className="p-12 text-center">
+                  <p className="text-gray-500">
+                    {query.trim() ? "No party lists match your search" : "No party lists yet. They are created from posts that declare a party."}
+                  </p>
+                </div>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 text-left text-gray-500">
+                    <tr>
+                      <th className="pl-6 py-3 w-4">
+                        <span className="sr-only">Select</span>
+                      </th>
+                      <th className="px-6 py-3 font-medium">Party list</th>
+                      <th className="px-6 py-3 font-medium">Sector</th>
+                      <th className="px-6 py-3 font-medium text-right">Members</th>
+                      <th className="px-6 py-3 font-medium">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {partyLists.map((partyList) => (
+                      <tr key={partyList.id} className={partyList.is_active === false ? "opacity-60" : ""}>
+                        <td className="pl-6 py-3">
+                          <input
+                            type="checkbox"
+                            checked={selectedIds.includes(partyList.id)}
+                            onChange={() => toggleSelected(partyList.id)}
+                            aria-label={`Select ${partyList.name}`}
+                            className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                          />
+                        </td>
+                        <td className="px-6 py-3">
+                          <Link href={`/partylists/${partyList.id}`} className="flex items-center gap-3 group">
+                            <CandidateAvatar name={partyList.acronym || partyList.name} src={partyList.logo_url} size="sm" />
+                            <div>
+                              <div className="flex items-center gap-1 font-medium text-blue-600 group-hover:text-blue-700">
+                                {partyList.name}
+                                <RegistryBadge status={partyList.registry_status} subject="Party list" compact />
+                              </div>
+                              {partyList.acronym && <div className="text-gray-500">{partyList.acronym}</div>}
+                              {partyList.aliases && partyList.aliases.length > 0 && (
+                                <div className="text-xs text-gray-400">Also: {partyList.aliases.join(", ")}</div>
+                              )}
+                            </div>
+                          </Link>
+                        </td>
+                        <td className="px-6 py-3 text-gray-600">{partyList.sector || "—"}</td>
+                        <td className="px-6 py-3 text-right text-gray-900 tabular-nums">{partyList.member_count ?? 0}</td>
+                        <td className="px-6 py-3">
+                          {partyList.is_active === false ? (
+                            <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-600">Deactivated</span>
+                          ) : (
+                            <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">Active</span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+              {!isLoading && nextCursor && (
+                <div className="border-t border-gray-100 p-4 text-center">
+                  <button
+                    onClick={loadMore}
+                    disabled={isLoadingMore}
+                    className="inline-flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    {isLoadingMore && <Loader2 className="h-4 w-4 animate-spin" />}
+                    Load more
+                  </button>
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </main>
+
+      {mergingIds && (
+        <PartyListMergeModal
+          partyListIds={mergingIds}
+          onClose={() => setMergingIds(null)}
+          onMerged={handleMerged}
+          onPermissionError={(error) => {
+            if (error instanceof ApiError && error.isForbidden) {
+              setPermissionError(error.message || PERMISSION_HINTS["partylists.manage"])
+              return true
+            }
+            return false
+          }}
+        />
+      )}
+    </div>
+  )
+}
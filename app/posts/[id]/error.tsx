@@ -0,0 +1,34 @@
+"use client"
+
+import Link from "next/link"
+import { AlertCircle, RefreshCw } from "lucide-react"
+import { getErrorMessage } from "@/lib/api"
+
+export default function PostError({ error, reset }: { error: Error; reset: () => void }) {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+      <div className="bg-white rounded-lg shadow p-8 max-w-md w-full text-center space-y-4">
+        <AlertCircle className="h-10 w-10 text-red-500 mx-auto" />
+        <div>
+          <h2 className="text-xl font-bold text-gray-900">Couldn&apos;t load this post</h2>
+          <p className="text-sm text-gray-600 mt-1">{getErrorMessage(error, "Something went wrong")}</p>
+        </div>
+        <div className="flex justify-center gap-3">
+          <Link
+            href="/"
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            Back to posts
+          </Link>
+          <button
+            onClick={reset}
+            className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm font-medium"
+          >
+            <RefreshCw className="h-4 w-4" />
+            Try again
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
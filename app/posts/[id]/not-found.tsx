@@ -0,0 +1,24 @@
+import Link from "next/link"
+import { FileQuestion } from "lucide-react"
+
+export default function PostNotFound() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+      <div className="bg-white rounded-lg shadow p-8 max-w-md w-full text-center space-y-4">
+        <FileQuestion className="h-10 w-10 text-gray-400 mx-auto" />
+        <div>
+          <h2 className="text-xl font-bold text-gray-900">Post not found</h2>
+          <p className="text-sm text-gray-600 mt-1">
+            This submission doesn&apos;t exist or has been deleted. Check the link you were sent.
+          </p>
+        </div>
+        <Link
+          href="/"
+          className="inline-flex px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm font-medium"
+        >
+          Back to posts
+        </Link>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,362 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useState } from "react"
+import Link from "next/link"
+import { notFound, useParams, useSearchParams } from "next/navigation"
+import { ArrowLeft, Check, Link2, Loader2 } from "lucide-react"
+import {
+  ApiError,
+  approvePost,
+  flagPostImage,
+  getErrorMessage,
+  getPost,
+  rejectPost,
+  removePostImage,
+  reopenPost,
+  requestRevision,
+  revokeApproval,
+  type Post,
+  type PostImage,
+} from "@/lib/api"
+import { PERMISSION_HINTS, type Permission } from "@/lib/permissions"
+import { useSession } from "@/lib/use-session"
+import { STATUS_LABELS } from "@/lib/post-filters"
+import { toCommentList, type FieldComments } from "@/lib/revisions"
+import { useRejectionReasons } from "@/lib/use-rejection-reasons"
+import { useDuplicates } from "@/lib/use-duplicates"
+import { usePostClaim } from "@/lib/use-post-claim"
+import { confirmClaimedAction, describeDecisionConflict, getDecisionConflict } from "@/lib/claims"
+import { EMPTY_REJECT_DRAFT, buildRejectRequest, type RejectDraft } from "@/lib/rejection-reasons"
+import { AdminHeader } from "@/components/admin-header"
+import { PermissionDeniedBanner } from "@/components/permission-denied-banner"
+import { PostContent, PostHeader, PostModerationActions } from "@/components/post-sections"
+import { PartyListModal } from "@/components/party-list-modal"
+import { PostTimeline } from "@/components/post-timeline"
+import type { DecisionReversal } from "@/components/reverse-decision-dialog"
+import type { ImageAction } from "@/components/image-lightbox"
+import { RevisionRequestPanel } from "@/components/revision-request-panel"
+import { ResubmissionDiff } from "@/components/resubmission-diff"
+import { DuplicateWarning } from "@/components/duplicate-warning"
+import { ClaimNotice } from "@/components/claim-notice"
+
+function formatDateTime(value: string) {
+  return new Date(value).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" })
+}
+
+export default function PostDetailPage() {
+  const params = useParams<{ id: string }>()
+  const searchParams = useSearchParams()
+  const postId = Number(params.id)
+  const isValidId = Number.isInteger(postId) && postId > 0
+  const { session, can } = useSession()
+  const [post, setPost] = useState<Post | null>(null)
+  const [isMissing, setIsMissing] = useState(false)
+  const [loadError, setLoadError] = useState<unknown>(null)
+  const [isProcessing, setIsProcessing] = useState(false)
+  const [rejectDraft, setRejectDraft] = useState<RejectDraft>(EMPTY_REJECT_DRAFT)
+  const rejectionReasons = useRejectionReasons()
+  const [isPartyListOpen, setIsPartyListOpen] = useState(false)
+  const [permissionError, setPermissionError] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
+  // Null unless the moderator is commenting on fields; the dashboard links here with ?revise=1
+  const [revisionDraft, setRevisionDraft] = useState<FieldComments | null>(() =>
+    searchParams.get("revise") === "1" ? {} : null
+  )
+  const [revisionNote, setRevisionNote] = useState("")
+  const duplicates = useDuplicates(useMemo(() => (post ? [post] : []), [post]))
+  // Opening a pending post claims it so other moderators see it is taken
+  const blockedBy = usePostClaim(can("posts.moderate") && post?.status === "pending" ? postId : null)
+
+  const isAuthenticated = session !== null
+
+  const fetchPost = useCallback(async () => {
+    try {
+      setPost(await getPost(postId))
+    } catch (error) {
+      console.error("Failed to fetch post:", error)
+      if (error instanceof ApiError && error.status === 404) {
+        setIsMissing(true)
+      } else {
+        setLoadError(error)
+      }
+    }
+  }, [postId])
+
+  useEffect(() => {
+    if (isAuthenticated && isValidId) {
+      fetchPost()
+    }
+  }, [isAuthenticated, isValidId, fetchPost])
+
+  if (!isValidId || isMissing) {
+    notFound()
+  }
+  // Let app/posts/[id]/error.tsx render the failure; its retry remounts the page
+  if (loadError) {
+    throw loadError
+  }
+
+  if (!session || !post) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="text-center">
+          <Loader2 className="h-8 w-8 animate-spin text-blue-600 mx-auto mb-4" />
+          <p className="text-gray-600">Loading post...</p>
+        </div>
+      </div>
+    )
+  }
+
+  const canModerate = can("posts.moderate")
+  const canManagePartyLists = can("partylists.manage") || can("partylists.create")
+  const isRevising = revisionDraft !== null && post.status === "pending" && canModerate
+
+  // Surface backend 403s; returns true when the error was a permission refusal
+  const reportPermissionError = (error: unknown, permission: Permission) => {
+    if (error instanceof ApiError && error.isForbidden) {
+      setPermissionError(error.message || PERMISSION_HINTS[permission])
+      return true
+    }
+    return false
+  }
+
+  const decide = async (decision: "approved" | "rejected") => {
+    if (isProcessing || !confirmClaimedAction(blockedBy ? { ...post, claim: blockedBy } : post, session?.user.id)) {
+      return
+    }
+    setIsProcessing(true)
+    const body = { ...buildRejectRequest(rejectDraft, rejectionReasons), expected_updated_at: post.updated_at }
+
+    // Optimistic update, then reload the record either way
+    setPost(prev => prev && (decision === "approved"
+      ? { ...prev, status: "approved" }
+      : { ...prev, status: "rejected", admin_notes: body.admin_notes }))
+
+    try {
+      if (decision === "approved") {
+        await approvePost(post.id, { expected_updated_at: post.updated_at })
+      } else {
+        await rejectPost(post.id, body)
+      }
+      setRejectDraft(EMPTY_REJECT_DRAFT)
+    } catch (error) {
+      console.error(`Failed to ${decision === "approved" ? "approve" : "reject"} post:`, error)
+      if (!reportPermissionError(error, "posts.moderate")) {
+        const current = getDecisionConflict(error)
+        if (current) {
+          alert(describeDecisionConflict(current))
+        }
+      }
+    } finally {
+      await fetchPost()
+      setIsProcessing(false)
+    }
+  }
+
+  const closeRevision = () => {
+    setRevisionDraft(null)
+    setRevisionNote("")
+  }
+
+  const handleRequestRevision = async () => {
+    if (!revisionDraft || isProcessing) {
+      return
+    }
+    setIsProcessing(true)
+    try {
+      await requestRevision(post.id, {
+        comments: toCommentList(revisionDraft),
+        admin_notes: revisionNote.trim() || undefined,
+      })
+      closeRevision()
+    } catch (error) {
+      console.error("Failed to request revision:", error)
+      if (!reportPermissionError(error, "posts.moderate")) {
+        alert(getErrorMessage(error, "Failed to request revision"))
+      }
+    } finally {
+      await fetchPost()
+      setIsProcessing(false)
+    }
+  }
+
+  const handleReverseDecision = async (kind: DecisionReversal, reason: string) => {
+    setIsProcessing(true)
+    try {
+      if (kind === "revoke") {
+        await revokeApproval(post.id, { reason })
+      } else {
+        await reopenPost(post.id, { reason })
+      }
+    } catch (error) {
+      console.error(`Failed to ${kind} post:`, error)
+      if (!reportPermissionError(error, "posts.moderate")) {
+        alert(getErrorMessage(error, kind === "revoke" ? "Failed to revoke approval" : "Failed to reopen post"))
+      }
+    } finally {
+      await fetchPost()
+      setIsProcessing(false)
+    }
+  }
+
+  const handleImageAction = async (action: ImageAction, image: PostImage, reason: string) => {
+    try {
+      if (action === "remove") {
+        await removePostImage(post.id, { url: image.url, reason })
+      } else {
+        await flagPostImage(post.id, { url: image.url, reason })
+      }
+    } catch (error) {
+      console.error(`Failed to ${action} image:`, error)
+      if (!reportPermissionError(error, "posts.moderate")) {
+        alert(getErrorMessage(error, action === "remove" ? "Failed to remove image" : "Failed to flag image"))
+      }
+      throw error
+    } finally {
+      await fetchPost()
+    }
+  }
+
+  const handleCopyLink = async () => {
+    try {
+      // Undefined outside a secure context, rejects when permission is denied
+      await navigator.clipboard.writeText(window.location.href)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch (error) {
+      console.error("Failed to copy link:", error)
+      // The prompt shows the link pre-selected so it can be copied by hand
+      prompt("Copy this link:", window.location.href)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AdminHeader
+        session={session}
+        subtitle={`Post #${post.id}`}
+        actions={
+          <button
+            onClick={handleCopyLink}
+            className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 text-sm font-medium transition"
+            title="Copy a link to this post"
+          >
+            {copied ? <Check className="h-4 w-4 text-green-600" /> : <Link2 className="h-4 w-4" />}
+            {copied ? "Copied" : "Copy Link"}
+          </button>
+        }
+      />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Link href="/" className="inline-flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700 font-medium mb-4">
+          <ArrowLeft className="h-4 w-4" />
+          Back to posts
+        </Link>
+
+        {permissionError && (
+          <PermissionDeniedBanner message={permissionError} onDismiss={() => setPermissionError(null)} />
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 items-start">
+          <div className="lg:col-span-2 bg-white rounded-lg shadow">
+            <PostHeader post={post} viewerId={session.user.id} />
+            {blockedBy && <ClaimNotice claim={blockedBy} />}
+            <DuplicateWarning post={post} matches={duplicates[post.id]} />
+            <ResubmissionDiff post={post} defaultOpen />
+            <PostContent
+              post={post}
+              expandAll
+              onManagePartyList={() => setIsPartyListOpen(true)}
+              canManagePartyLists={canManagePartyLists}
+              revisionDraft={isRevising ? revisionDraft : undefined}
+              onRevisionDraftChange={setRevisionDraft}
+              onImageAction={canModerate ? handleImageAction : undefined}
+            />
+            {isRevising ? (
+              <RevisionRequestPanel
+                post={post}
+                comments={revisionDraft}
+                note={revisionNote}
+                onNoteChange={setRevisionNote}
+                isProcessing={isProcessing}
+                onSubmit={handleRequestRevision}
+                onCancel={closeRevision}
+              />
+            ) : (
+              <PostModerationActions
+                post={post}
+                canModerate={canModerate}
+                isProcessing={isProcessing}
+                reasons={rejectionReasons}
+                rejectDraft={rejectDraft}
+                onRejectDraftChange={setRejectDraft}
+                onApprove={() => decide("approved")}
+                onReject={() => decide("rejected")}
+                onRequestRevision={() => setRevisionDraft({})}
+                onReverseDecision={handleReverseDecision}
+              />
+            )}
+          </div>
+
+          <aside className="space-y-6">
+            <div className="bg-white rounded-lg shadow p-6">
+              <h3 className="font-semibold text-gray-900 mb-4">Submission</h3>
+              <dl className="space-y-3 text-sm">
+                <div>
+                  <dt className="text-gray-500">Post ID</dt>
+                  <dd className="font-mono text-gray-900">{post.id}</dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500">Status</dt>
+                  <dd className="text-gray-900">{STATUS_LABELS[post.status] ?? post.status}</dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500">Submitted by</dt>
+                  <dd className="text-gray-900">{post.user.name}</dd>
+                  <dd>
+                    <a href={`mailto:${post.user.email}`} className="text-blue-600 hover:text-blue-700 break-all">
+                      {post.user.email}
+                    </a>
+                  </dd>
+                  <dd className="font-mono text-xs text-gray-500 break-all">User {post.user_id}</dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500">Submitted</dt>
+                  <dd className="text-gray-900">{formatDateTime(post.created_at)}</dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500">Last updated</dt>
+                  <dd className="text-gray-900">{formatDateTime(post.updated_at)}</dd>
+                </div>
+                {post.party && (
+                  <div>
+                    <dt className="text-gray-500">Party list</dt>
+                    <dd className="text-gray-900">
+                      {post.party} ({post.party_list_managed ? "managed" : "not yet managed"})
+                    </dd>
+                  </div>
+                )}
+              </dl>
+            </div>
+            {can("audit.view") && <PostTimeline postId={post.id} refreshKey={post.updated_at} />}
+          </aside>
+        </div>
+      </main>
+
+      {isPartyListOpen && post.party && (
+        <PartyListModal
+          post={{ ...post, party: post.party }}
+          canAddMember={can("partylists.manage")}
+          canCreate={can("partylists.create")}
+          onClose={() => setIsPartyListOpen(false)}
+          onManaged={() => {
+            setIsPartyListOpen(false)
+            setPost(prev => prev && { ...prev, party_list_managed: true })
+            fetchPost()
+          }}
+          onPermissionError={reportPermissionError}
+        />
+      )}
+    </div>
+  )
+}
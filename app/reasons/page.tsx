@@ -0,0 +1,328 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Loader2, Pencil, Plus, Trash2 } from "lucide-react"
+import {
+  ApiError,
+  createRejectionReason,
+  deleteRejectionReason,
+  getErrorMessage,
+  listRejectionReasons,
+  updateRejectionReason,
+  type RejectionReason,
+  type RejectionReasonInput,
+} from "@/lib/api"
+import { PERMISSION_HINTS } from "@/lib/permissions"
+import { useSession } from "@/lib/use-session"
+import { invalidateRejectionReasons } from "@/lib/use-rejection-reasons"
+import { groupReasonsByCategory } from "@/lib/rejection-reasons"
+import { AdminHeader } from "@/components/admin-header"
+import { PermissionDeniedBanner } from "@/components/permission-denied-banner"
+
+const EMPTY_FORM: RejectionReasonInput = { code: "", category: "", label: "", message: "", is_active: true }
+
+const inputClassName =
+  "w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+
+// `Incomplete education` -> `incomplete_education`
+function toCode(label: string) {
+  return label.trim().toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "")
+}
+
+export default function RejectionReasonsPage() {
+  const { session, can } = useSession()
+  const [reasons, setReasons] = useState<RejectionReason[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [form, setForm] = useState<RejectionReasonInput>(EMPTY_FORM)
+  const [editingId, setEditingId] = useState<number | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [deletingId, setDeletingId] = useState<number | null>(null)
+  const [error, setError] = useState("")
+  const [permissionError, setPermissionError] = useState<string | null>(null)
+
+  const canManageReasons = can("reasons.manage")
+
+  const reportError = (error: unknown, fallback: string) => {
+    if (error instanceof ApiError && error.isForbidden) {
+      setPermissionError(error.message || PERMISSION_HINTS["reasons.manage"])
+    } else {
+      setError(getErrorMessage(error, fallback))
+    }
+  }
+
+  const fetchReasons = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      setReasons(await listRejectionReasons())
+    } catch (error) {
+      console.error("Failed to fetch rejection reasons:", error)
+      if (error instanceof ApiError && error.isForbidden) {
+        setPermissionError(error.message || PERMISSION_HINTS["reasons.manage"])
+      }
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (canManageReasons) {
+      fetchReasons()
+    }
+  }, [canManageReasons, fetchReasons])
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM)
+    setEditingId(null)
+    setError("")
+  }
+
+  const handleEdit = (reason: RejectionReason) => {
+    setEditingId(reason.id)
+    setForm({
+      code: reason.code,
+      category: reason.category,
+      label: reason.label,
+      message: reason.message,
+      is_active: reason.is_active,
+    })
+    setError("")
+    window.scrollTo({ top: 0, behavior: "smooth" })
+  }
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSaving(true)
+    setError("")
+    const body = { ...form, code: toCode(form.code || form.label) }
+    try {
+      if (editingId) {
+        const updated = await updateRejectionReason(editingId, body)
+        setReasons(prev => prev.map(r => (r.id === editingId ? updated : r)))
+      } else {
+        const created = await createRejectionReason(body)
+        setReasons(prev => [...prev, created])
+      }
+      invalidateRejectionReasons()
+      resetForm()
+    } catch (error) {
+      console.error("Failed to save rejection reason:", error)
+      reportError(error, "Failed to save rejection reason")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleToggleActive = async (reason: RejectionReason) => {
+    const { id, ...input } = reason
+    try {
+      const updated = await updateRejectionReason(id, { ...input, is_active: !reason.is_active })
+      setReasons(prev => prev.map(r => (r.id === id ? updated : r)))
+      invalidateRejectionReasons()
+    } catch (error) {
+      console.error("Failed to update rejection reason:", error)
+      reportError(error, "Failed to update rejection reason")
+    }
+  }
+
+  const handleDelete = async (reason: RejectionReason) => {
+    if (!confirm(`Delete "${reason.label}"? Past rejections keep their notes, but reports will show the bare code. Deactivating keeps the label.`)) {
+      return
+    }
+    setDeletingId(reason.id)
+    try {
+      await deleteRejectionReason(reason.id)
+      setReasons(prev => prev.filter(r => r.id !== reason.id))
+      invalidateRejectionReasons()
+      if (editingId === reason.id) {
+        resetForm()
+      }
+    } catch (error) {
+      console.error("Failed to delete rejection reason:", error)
+      reportError(error, "Failed to delete rejection reason")
+    } finally {
+      setDeletingId(null)
+    }
+  }
+
+  if (!session) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="text-center">
+          <Loader2 className="h-8 w-8 animate-spin text-blue-600 mx-auto mb-4" />
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    )
+  }
+
+  const categories = Array.from(new Set(reasons.map(r => r.category)))
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AdminHeader session={session} subtitle="Rejection Reasons" />
+
+      <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {!canManageReasons ? (
+          <PermissionDeniedBanner message={PERMISSION_HINTS["reasons.manage"]} onDismiss={() => (window.location.href = "/")} />
+        ) : (
+          <>
+            {permissionError && (
+              <PermissionDeniedBanner message={permissionError} onDismiss={() => setPermissionError(null)} />
+            )}
+
+            <form onSubmit={handleSave} className="bg-white rounded-lg shadow p-6 mb-6 space-y-4">
+              <h3 className="font-semibold text-gray-900">{editingId ? "Edit reason" : "Add a reason"}</h3>
+              {error && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+                  <p className="text-sm text-red-600">{error}</p>
+                </div>
+              )}
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+                  <input
+                    type="text"
+                    list="reason-categories"
+                    value={form.category}
+                    onChange={(e) => setForm(prev => ({ ...prev, category: e.target.value }))}
+                    required
+                    placeholder="e.g. Profile"
+                    className={inputClassName}
+                  />
+                  <datalist id="reason-categories">
+                    {categories.map((category) => (
+                      <option key={category} value={category} />
+                    ))}
+                  </datalist>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Label</label>
+                  <input
+                    type="text"
+                    value={form.label}
+                    onChange={(e) => setForm(prev => ({ ...prev, label: e.target.value }))}
+                    required
+                    placeholder="e.g. Incomplete education"
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Code</label>
+                  <input
+                    type="text"
+                    value={form.code}
+                    onChange={(e) => setForm(prev => ({ ...prev, code: e.target.value.toLowerCase().replace(/[^a-z0-9_]/g, "_") }))}
+                    disabled={editingId !== null}
+                    placeholder={toCode(form.label) || "incomplete_education"}
+                    className={`${inputClassName} font-mono disabled:bg-gray-50 disabled:text-gray-500`}
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    {editingId ? "Codes can't change once used in reports." : "Generated from the label if left blank."}
+                  </p>
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Message to the candidate</label>
+                <textarea
+                  value={form.message}
+                  onChange={(e) => setForm(prev => ({ ...prev, message: e.target.value }))}
+                  required
+                  rows={2}
+                  placeholder="e.g. Please list every school you attended, including the level completed."
+                  className={inputClassName}
+                />
+              </div>
+              <div className="flex items-center justify-between">
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={form.is_active}
+                    onChange={(e) => setForm(prev => ({ ...prev, is_active: e.target.checked }))}
+                    className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  Offer to moderators
+                </label>
+                <div className="flex gap-3">
+                  {editingId && (
+                    <button
+                      type="button"
+                      onClick={resetForm}
+                      className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+                    >
+                      Cancel
+                    </button>
+                  )}
+                  <button
+                    type="submit"
+                    disabled={isSaving}
+                    className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium text-sm"
+                  >
+                    {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : editingId ? null : <Plus className="h-4 w-4" />}
+                    {editingId ? "Save Changes" : "Add Reason"}
+                  </button>
+                </div>
+              </div>
+            </form>
+
+            <div className="bg-white rounded-lg shadow overflow-hidden">
+              {isLoading ? (
+                <div className="p-12 text-center">
+                  <Loader2 className="h-6 w-6 animate-spin text-blue-600 mx-auto" />
+                </div>
+              ) : reasons.length === 0 ? (
+                <div className="p-12 text-center">
+                  <p className="text-gray-500">No rejection reasons yet. Add the explanations moderators use most.</p>
+                </div>
+              ) : (
+                groupReasonsByCategory(reasons).map(({ category, reasons: group }) => (
+                  <section key={category} className="border-b border-gray-100 last:border-b-0">
+                    <h4 className="px-6 py-3 bg-gray-50 text-xs font-semibold uppercase tracking-wide text-gray-500">{category}</h4>
+                    <ul className="divide-y divide-gray-100">
+                      {group.map((reason) => (
+                        <li key={reason.id} className={`px-6 py-4 flex items-start gap-4 ${reason.is_active ? "" : "opacity-60"}`}>
+                          <div className="flex-1 min-w-0">
+                            <div className="flex items-center gap-2">
+                              <span className="font-medium text-gray-900">{reason.label}</span>
+                              <span className="font-mono text-xs text-gray-500">{reason.code}</span>
+                              {!reason.is_active && (
+                                <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-600">Inactive</span>
+                              )}
+                            </div>
+                            <p className="text-sm text-gray-600 mt-1">{reason.message}</p>
+                          </div>
+                          <div className="flex items-center gap-2 flex-shrink-0">
+                            <button
+                              onClick={() => handleToggleActive(reason)}
+                              className="text-sm text-gray-600 hover:text-gray-900 font-medium"
+                            >
+                              {reason.is_active ? "Deactivate" : "Activate"}
+                            </button>
+                            <button
+                              onClick={() => handleEdit(reason)}
+                              className="p-1.5 rounded-md text-gray-500 hover:bg-gray-100"
+                              title="Edit"
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </button>
+                            <button
+                              onClick={() => handleDelete(reason)}
+                              disabled={deletingId === reason.id}
+                              className="p-1.5 rounded-md text-red-500 hover:bg-red-50 disabled:opacity-50"
+                              title="Delete"
+                            >
+                              {deletingId === reason.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                            </button>
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                  </section>
+                ))
+              )}
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,312 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import { FileUp, Loader2 } from "lucide-react"
+import {
+  ApiError,
+  getErrorMessage,
+  getRegistrySummary,
+  importRegistry,
+  type RegistryKind,
+  type RegistrySummary,
+} from "@/lib/api"
+import { PERMISSION_HINTS } from "@/lib/permissions"
+import { useSession } from "@/lib/use-session"
+import {
+  REGISTRY_COLUMNS,
+  REGISTRY_KIND_LABELS,
+  parseRegistryFile,
+  type RegistryParseResult,
+} from "@/lib/registry-import"
+import { AdminHeader } from "@/components/admin-header"
+import { PermissionDeniedBanner } from "@/components/permission-denied-banner"
+
+const KINDS: RegistryKind[] = ["party_lists", "candidates"]
+// Enough to spot a systematic problem; the counts cover the rest
+const PREVIEW_LIMIT = 200
+
+interface ParsedFile {
+  kind: RegistryKind
+  name: string
+  result: RegistryParseResult<RegistryKind>
+}
+
+export default function RegistryPage() {
+  const { session, can } = useSession()
+  const [summary, setSummary] = useState<RegistrySummary | null>(null)
+  const [kind, setKind] = useState<RegistryKind>("party_lists")
+  const [parsed, setParsed] = useState<ParsedFile | null>(null)
+  const [isReading, setIsReading] = useState(false)
+  const [showErrorsOnly, setShowErrorsOnly] = useState(false)
+  const [isImporting, setIsImporting] = useState(false)
+  const [permissionError, setPermissionError] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const canImport = can("registry.import")
+
+  const fetchSummary = useCallback(async () => {
+    try {
+      setSummary(await getRegistrySummary())
+    } catch (error) {
+      console.error("Failed to fetch registry summary:", error)
+      if (error instanceof ApiError && error.isForbidden) {
+        setPermissionError(error.message || PERMISSION_HINTS["registry.import"])
+      }
+    }
+  }, [])
+
+  useEffect(() => {
+    if (canImport) {
+      fetchSummary()
+    }
+  }, [canImport, fetchSummary])
+
+  const resetFile = () => {
+    setParsed(null)
+    setShowErrorsOnly(false)
+    if (fileInputRef.current) fileInputRef.current.value = ""
+  }
+
+  const handleKindChange = (next: RegistryKind) => {
+    setKind(next)
+    resetFile()
+  }
+
+  const handleFileChange = async (file: File | undefined) => {
+    if (!file) return
+    setIsReading(true)
+    try {
+      const text = await file.text()
+      setParsed({ kind, name: file.name, result: parseRegistryFile(kind, file.name, text) })
+      setShowErrorsOnly(false)
+    } catch (error) {
+      console.error("Failed to read registry file:", error)
+      alert(getErrorMessage(error, "Failed to read the file"))
+    } finally {
+      setIsReading(false)
+    }
+  }
+
+  const handleImport = async () => {
+    if (!parsed) return
+    const validRows = parsed.result.rows.filter((row) => row.errors.length === 0)
+    const skipped = parsed.result.rows.length - validRows.length
+    const label = REGISTRY_KIND_LABELS[parsed.kind].toLowerCase()
+    // Importing replaces the whole dataset, so an all-error file would wipe it
+    if (validRows.length === 0) {
+      alert(`${parsed.name} has no valid rows; the official ${label} were left unchanged.`)
+      return
+    }
+    if (
+      !confirm(
+        `Replace the official ${label} with ${validRows.length} row(s) from ${parsed.name}?` +
+          (skipped > 0 ? ` ${skipped} row(s) with errors will be skipped.` : "")
+      )
+    ) {
+      return
+    }
+    setIsImporting(true)
+    try {
+      const dataset = await importRegistry(parsed.kind, { source: parsed.name, rows: validRows.map((row) => row.values) })
+      setSummary(prev => prev && { ...prev, [parsed.kind]: dataset })
+      resetFile()
+      alert(`Imported ${dataset.count} ${label}. Posts and party lists are being checked against them.`)
+    } catch (error) {
+      console.error("Failed to import registry:", error)
+      if (error instanceof ApiError && error.isForbidden) {
+        setPermissionError(error.message || PERMISSION_HINTS["registry.import"])
+      } else {
+        alert(getErrorMessage(error, "Failed to import the registry"))
+      }
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  if (!session) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="text-center">
+          <Loader2 className="h-8 w-8 animate-spin text-blue-600 mx-auto mb-4" />
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    )
+  }
+
+  const columns = REGISTRY_COLUMNS[kind]
+  const rows = parsed?.result.rows ?? []
+  const errorCount = rows.filter((row) => row.errors.length > 0).length
+  const visibleRows = (showErrorsOnly ? rows.filter((row) => row.errors.length > 0) : rows).slice(0, PREVIEW_LIMIT)
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AdminHeader session={session} subtitle="Official Registry" />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {!canImport ? (
+          <PermissionDeniedBanner message={PERMISSION_HINTS["registry.import"]} onDismiss={() => (window.location.href = "/")} />
+        ) : (
+          <>
+            {permissionError && (
+              <PermissionDeniedBanner message={permissionError} onDismiss={() => setPermissionError(null)} />
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+              {KINDS.map((registryKind) => {
+                const dataset = summary?.[registryKind]
+                return (
+                  <div key={registryKind} className="bg-white rounded-lg shadow p-6">
+                    <h3 className="font-semibold text-gray-900">Official {REGISTRY_KIND_LABELS[registryKind].toLowerCase()}</h3>
+                    {!summary ? (
+                      <Loader2 className="h-5 w-5 animate-spin text-blue-600 mt-3" />
+                    ) : dataset ? (
+                      <div className="mt-2 text-sm text-gray-600 space-y-1">
+                        <p className="text-2xl font-bold text-gray-900">{dataset.count.toLocaleString()}</p>
+                        <p>From <span className="font-medium">{dataset.source}</span></p>
+                        <p>
+                          Imported {new Date(dataset.imported_at).toLocaleString()}
+                          {dataset.imported_by && ` by ${dataset.imported_by.name}`}
+                        </p>
+                      </div>
+                    ) : (
+                      <p className="mt-2 text-sm text-gray-500">
+                        Not imported yet, so nothing is marked as verified or not found.
+                      </p>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+
+            <div className="bg-white rounded-lg shadow p-6 mb-6 space-y-4">
+              <h3 className="font-semibold text-gray-900">Import an export</h3>
+              <div className="flex flex-wrap items-center gap-3">
+                <div className="flex rounded-md border border-gray-300 overflow-hidden">
+                  {KINDS.map((registryKind) => (
+                    <button
+                      key={registryKind}
+                      type="button"
+                      onClick={() => handleKindChange(registryKind)}
+                      className={`px-4 py-2 text-sm font-medium ${
+                        kind === registryKind ? "bg-blue-600 text-white" : "bg-white text-gray-700 hover:bg-gray-50"
+                      }`}
+                    >
+                      {REGISTRY_KIND_LABELS[registryKind]}
+                    </button>
+                  ))}
+                </div>
+                <label className="inline-flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50 cursor-pointer">
+                  {isReading ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileUp className="h-4 w-4" />}
+                  Choose CSV or JSON file
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept=".csv,.json,text/csv,application/json"
+                    onChange={(e) => handleFileChange(e.target.files?.[0])}
+                    className="sr-only"
+                  />
+                </label>
+                {parsed && <span className="text-sm text-gray-600">{parsed.name}</span>}
+              </div>
+              <p className="text-xs text-gray-500">
+                Columns: {columns.map((column) => `${column.label}${column.required ? " (required)" : ""}`).join(", ")}.
+                Common header spellings from official exports are recognized. A JSON file may be an array of rows or an
+                object with a &quot;{kind}&quot; array. Importing replaces the current official {REGISTRY_KIND_LABELS[kind].toLowerCase()}.
+              </p>
+
+              {parsed && parsed.result.fileErrors.length > 0 && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+                  {parsed.result.fileErrors.map((message) => (
+                    <p key={message} className="text-sm text-red-600">{message}</p>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {parsed && parsed.result.fileErrors.length === 0 && (
+              <div className="bg-white rounded-lg shadow overflow-hidden">
+                <div className="px-6 py-4 border-b border-gray-100 flex flex-wrap items-center gap-4">
+                  <p className="text-sm text-gray-700">
+                    <span className="font-semibold">{rows.length - errorCount}</span> valid row(s)
+                    {errorCount > 0 && (
+                      <>, <span className="font-semibold text-red-600">{errorCount}</span> with errors</>
+                    )}
+                  </p>
+                  {errorCount > 0 && (
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={showErrorsOnly}
+                        onChange={(e) => setShowErrorsOnly(e.target.checked)}
+                        className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      Only rows with errors
+                    </label>
+                  )}
+                  <div className="ml-auto flex gap-3">
+                    <button
+                      onClick={resetFile}
+                      className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={handleImport}
+                      disabled={isImporting || rows.length === errorCount}
+                      title={rows.length === errorCount ? "No valid rows to import" : undefined}
+                      className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium text-sm"
+                    >
+                      {isImporting && <Loader2 className="h-4 w-4 animate-spin" />}
+                      Import {rows.length - errorCount} Row(s)
+                    </button>
+                  </div>
+                </div>
+                {rows.length === 0 ? (
+                  <div className="p-12 text-center">
+                    <p className="text-gray-500">The file has no rows</p>
+                  </div>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead className="bg-gray-50 text-left text-gray-500">
+                        <tr>
+                          <th className="px-6 py-3 font-medium">Line</th>
+                          {REGISTRY_COLUMNS[parsed.kind].map((column) => (
+                            <th key={column.field} className="px-6 py-3 font-medium">{column.label}</th>
+                          ))}
+                          <th className="px-6 py-3 font-medium">Problems</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-100">
+                        {visibleRows.map((row) => {
+                          const values = row.values as unknown as Record<string, string | null>
+                          return (
+                            <tr key={row.line} className={row.errors.length > 0 ? "bg-red-50" : ""}>
+                              <td className="px-6 py-2 text-gray-500 tabular-nums">{row.line}</td>
+                              {REGISTRY_COLUMNS[parsed.kind].map((column) => (
+                                <td key={column.field} className="px-6 py-2 text-gray-700">
+                                  {values[column.field] || <span className="text-gray-400">—</span>}
+                                </td>
+                              ))}
+                              <td className="px-6 py-2 text-red-600">{row.errors.join("; ")}</td>
+                            </tr>
+                          )
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+                {(showErrorsOnly ? errorCount : rows.length) > PREVIEW_LIMIT && (
+                  <p className="border-t border-gray-100 px-6 py-3 text-sm text-gray-500">
+                    Showing the first {PREVIEW_LIMIT} of {showErrorsOnly ? errorCount : rows.length} rows.
+                  </p>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,382 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useState } from "react"
+import { Loader2, Pencil, Plus, Trash2 } from "lucide-react"
+import {
+  ApiError,
+  createScreeningRule,
+  deleteScreeningRule,
+  getErrorMessage,
+  listScreeningRules,
+  updateScreeningRule,
+  type ScreeningRuleConfig,
+  type ScreeningRuleInput,
+  type ScreeningSeverity,
+} from "@/lib/api"
+import { PERMISSION_HINTS } from "@/lib/permissions"
+import { useSession } from "@/lib/use-session"
+import { invalidateScreeningRules } from "@/lib/use-screening-rules"
+import { DETECTOR_LABELS, compileScreeningRules } from "@/lib/screening-rules"
+import { SEVERITY_HIGHLIGHTS, screenText } from "@/lib/screening"
+import { AdminHeader } from "@/components/admin-header"
+import { HighlightedText } from "@/components/screening-highlights"
+import { PermissionDeniedBanner } from "@/components/permission-denied-banner"
+
+const EMPTY_FORM: ScreeningRuleInput = {
+  code: "",
+  label: "",
+  severity: "medium",
+  detector: "phrases",
+  phrases: [],
+  is_active: true,
+}
+
+const SEVERITIES: ScreeningSeverity[] = ["high", "medium", "low"]
+
+const inputClassName =
+  "w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+
+// `Vote-buying phrase` -> `vote_buying_phrase`
+function toCode(label: string) {
+  return label.trim().toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "")
+}
+
+// One phrase per line; blank lines and repeats are dropped
+function toPhrases(text: string) {
+  const phrases = text.split("\n").map((line) => line.trim().toLowerCase()).filter(Boolean)
+  return phrases.filter((phrase, idx) => phrases.indexOf(phrase) === idx)
+}
+
+export default function ScreeningRulesPage() {
+  const { session, can } = useSession()
+  const [rules, setRules] = useState<ScreeningRuleConfig[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [form, setForm] = useState<ScreeningRuleInput>(EMPTY_FORM)
+  const [phrasesText, setPhrasesText] = useState("")
+  const [editingId, setEditingId] = useState<number | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [deletingId, setDeletingId] = useState<number | null>(null)
+  const [sample, setSample] = useState("")
+  const [error, setError] = useState("")
+  const [permissionError, setPermissionError] = useState<string | null>(null)
+
+  const canManageScreening = can("screening.manage")
+
+  // The sample is checked against the saved rules, as moderators will see them
+  const sampleMatches = useMemo(() => screenText(sample, "sample", compileScreeningRules(rules)), [rules, sample])
+
+  const reportError = (error: unknown, fallback: string) => {
+    if (error instanceof ApiError && error.isForbidden) {
+      setPermissionError(error.message || PERMISSION_HINTS["screening.manage"])
+    } else {
+      setError(getErrorMessage(error, fallback))
+    }
+  }
+
+  const fetchRules = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      setRules(await listScreeningRules())
+    } catch (error) {
+      console.error("Failed to fetch screening rules:", error)
+      if (error instanceof ApiError && error.isForbidden) {
+        setPermissionError(error.message || PERMISSION_HINTS["screening.manage"])
+      }
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (canManageScreening) {
+      fetchRules()
+    }
+  }, [canManageScreening, fetchRules])
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM)
+    setPhrasesText("")
+    setEditingId(null)
+    setError("")
+  }
+
+  const handleEdit = (rule: ScreeningRuleConfig) => {
+    const { id, ...input } = rule
+    setEditingId(id)
+    setForm(input)
+    setPhrasesText(rule.phrases.join("\n"))
+    setError("")
+    window.scrollTo({ top: 0, behavior: "smooth" })
+  }
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const phrases = form.detector === "phrases" ? toPhrases(phrasesText) : []
+    if (form.detector === "phrases" && phrases.length === 0) {
+      setError("Add at least one word or phrase")
+      return
+    }
+    setIsSaving(true)
+    setError("")
+    const body = { ...form, code: toCode(form.code || form.label), phrases }
+    try {
+      if (editingId) {
+        const updated = await updateScreeningRule(editingId, body)
+        setRules(prev => prev.map(r => (r.id === editingId ? updated : r)))
+      } else {
+        const created = await createScreeningRule(body)
+        setRules(prev => [...prev, created])
+      }
+      invalidateScreeningRules()
+      resetForm()
+    } catch (error) {
+      console.error("Failed to save screening rule:", error)
+      reportError(error, "Failed to save screening rule")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleToggleActive = async (rule: ScreeningRuleConfig) => {
+    const { id, ...input } = rule
+    try {
+      const updated = await updateScreeningRule(id, { ...input, is_active: !rule.is_active })
+      setRules(prev => prev.map(r => (r.id === id ? updated : r)))
+      invalidateScreeningRules()
+    } catch (error) {
+      console.error("Failed to update screening rule:", error)
+      reportError(error, "Failed to update screening rule")
+    }
+  }
+
+  const handleDelete = async (rule: ScreeningRuleConfig) => {
+    if (!confirm(`Delete "${rule.label}"? Posts stop being flagged for its words.`)) {
+      return
+    }
+    setDeletingId(rule.id)
+    try {
+      await deleteScreeningRule(rule.id)
+      setRules(prev => prev.filter(r => r.id !== rule.id))
+      invalidateScreeningRules()
+      if (editingId === rule.id) {
+        resetForm()
+      }
+    } catch (error) {
+      console.error("Failed to delete screening rule:", error)
+      reportError(error, "Failed to delete screening rule")
+    } finally {
+      setDeletingId(null)
+    }
+  }
+
+  if (!session) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="text-center">
+          <Loader2 className="h-8 w-8 animate-spin text-blue-600 mx-auto mb-4" />
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AdminHeader session={session} subtitle="Pre-screening Rules" />
+
+      <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {!canManageScreening ? (
+          <PermissionDeniedBanner message={PERMISSION_HINTS["screening.manage"]} onDismiss={() => (window.location.href = "/")} />
+        ) : (
+          <>
+            {permissionError && (
+              <PermissionDeniedBanner message={permissionError} onDismiss={() => setPermissionError(null)} />
+            )}
+
+            <form onSubmit={handleSave} className="bg-white rounded-lg shadow p-6 mb-6 space-y-4">
+              <h3 className="font-semibold text-gray-900">{editingId ? "Edit rule" : "Add a word list"}</h3>
+              {error && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+                  <p className="text-sm text-red-600">{error}</p>
+                </div>
+              )}
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Label</label>
+                  <input
+                    type="text"
+                    value={form.label}
+                    onChange={(e) => setForm(prev => ({ ...prev, label: e.target.value }))}
+                    required
+                    placeholder="e.g. Prohibited word"
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Severity</label>
+                  <select
+                    value={form.severity}
+                    onChange={(e) => setForm(prev => ({ ...prev, severity: e.target.value as ScreeningSeverity }))}
+                    className={inputClassName}
+                  >
+                    {SEVERITIES.map((severity) => (
+                      <option key={severity} value={severity}>
+                        {severity.charAt(0).toUpperCase() + severity.slice(1)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Code</label>
+                  <input
+                    type="text"
+                    value={form.code}
+                    onChange={(e) => setForm(prev => ({ ...prev, code: e.target.value.toLowerCase().replace(/[^a-z0-9_]/g, "_") }))}
+                    disabled={editingId !== null}
+                    placeholder={toCode(form.label) || "prohibited_word"}
+                    className={`${inputClassName} font-mono disabled:bg-gray-50 disabled:text-gray-500`}
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    {editingId ? "Codes can't change once used." : "Generated from the label if left blank."}
+                  </p>
+                </div>
+              </div>
+              {form.detector === "phrases" ? (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Words and phrases, one per line</label>
+                  <textarea
+                    value={phrasesText}
+                    onChange={(e) => setPhrasesText(e.target.value)}
+                    rows={6}
+                    placeholder={"kapalit ng boto\ncash for votes"}
+                    className={`${inputClassName} font-mono`}
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    Matched as whole words in any letter case. Leave out words that are also everyday Filipino, like
+                    &quot;leche&quot; in &quot;leche flan&quot;.
+                  </p>
+                </div>
+              ) : (
+                <p className="text-sm text-gray-600">
+                  Built-in detector: <span className="font-medium">{DETECTOR_LABELS[form.detector]}</span>. Its pattern
+                  can&apos;t be edited, only its label, severity and whether it runs.
+                </p>
+              )}
+              <div className="flex items-center justify-between">
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={form.is_active}
+                    onChange={(e) => setForm(prev => ({ ...prev, is_active: e.target.checked }))}
+                    className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  Flag posts with this rule
+                </label>
+                <div className="flex gap-3">
+                  {editingId && (
+                    <button
+                      type="button"
+                      onClick={resetForm}
+                      className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+                    >
+                      Cancel
+                    </button>
+                  )}
+                  <button
+                    type="submit"
+                    disabled={isSaving}
+                    className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium text-sm"
+                  >
+                    {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : editingId ? null : <Plus className="h-4 w-4" />}
+                    {editingId ? "Save Changes" : "Add Word List"}
+                  </button>
+                </div>
+              </div>
+            </form>
+
+            <div className="bg-white rounded-lg shadow overflow-hidden mb-6">
+              {isLoading ? (
+                <div className="p-12 text-center">
+                  <Loader2 className="h-6 w-6 animate-spin text-blue-600 mx-auto" />
+                </div>
+              ) : rules.length === 0 ? (
+                <div className="p-12 text-center">
+                  <p className="text-gray-500">No rules configured, so posts are screened with the built-in defaults.</p>
+                </div>
+              ) : (
+                <ul className="divide-y divide-gray-100">
+                  {rules.map((rule) => (
+                    <li key={rule.id} className={`px-6 py-4 flex items-start gap-4 ${rule.is_active ? "" : "opacity-60"}`}>
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium text-gray-900">{rule.label}</span>
+                          <span className="font-mono text-xs text-gray-500">{rule.code}</span>
+                          <span className={`px-2 py-0.5 rounded text-xs font-medium ${SEVERITY_HIGHLIGHTS[rule.severity]}`}>
+                            {rule.severity}
+                          </span>
+                          {!rule.is_active && (
+                            <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-600">Inactive</span>
+                          )}
+                        </div>
+                        <p className="text-sm text-gray-600 mt-1 truncate">
+                          {rule.detector === "phrases"
+                            ? `${rule.phrases.length} word(s): ${rule.phrases.join(", ")}`
+                            : DETECTOR_LABELS[rule.detector]}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2 flex-shrink-0">
+                        <button
+                          onClick={() => handleToggleActive(rule)}
+                          className="text-sm text-gray-600 hover:text-gray-900 font-medium"
+                        >
+                          {rule.is_active ? "Deactivate" : "Activate"}
+                        </button>
+                        <button
+                          onClick={() => handleEdit(rule)}
+                          className="p-1.5 rounded-md text-gray-500 hover:bg-gray-100"
+                          title="Edit"
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </button>
+                        {rule.detector === "phrases" && (
+                          <button
+                            onClick={() => handleDelete(rule)}
+                            disabled={deletingId === rule.id}
+                            className="p-1.5 rounded-md text-red-500 hover:bg-red-50 disabled:opacity-50"
+                            title="Delete"
+                          >
+                            {deletingId === rule.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                          </button>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <div className="bg-white rounded-lg shadow p-6 space-y-3">
+              <h3 className="font-semibold text-gray-900">Try the rules</h3>
+              <textarea
+                value={sample}
+                onChange={(e) => setSample(e.target.value)}
+                rows={3}
+                placeholder="Paste a bio or platform to see what gets flagged"
+                className={inputClassName}
+              />
+              {sample.trim() && (
+                <p className="text-sm text-gray-700 whitespace-pre-wrap">
+                  {sampleMatches.length === 0 ? (
+                    <span className="text-gray-500">Nothing flagged.</span>
+                  ) : (
+                    <HighlightedText text={sample} matches={sampleMatches} />
+                  )}
+                </p>
+              )}
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  )
+}
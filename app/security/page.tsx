@@ -0,0 +1,277 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { CheckCircle, Copy, Download, KeyRound, Loader2, ShieldCheck, Smartphone } from "lucide-react"
+import {
+  enableTwoFactor,
+  getErrorMessage,
+  regenerateRecoveryCodes,
+  startTwoFactorSetup,
+  type TwoFactorSetupResponse,
+} from "@/lib/api"
+import { useSession } from "@/lib/use-session"
+import { AdminHeader } from "@/components/admin-header"
+
+function RecoveryCodesPanel({ codes }: { codes: string[] }) {
+  const [copied, setCopied] = useState(false)
+  const [copyFailed, setCopyFailed] = useState(false)
+  const codesRef = useRef<HTMLUListElement>(null)
+  const text = codes.join("\n")
+
+  const handleCopy = async () => {
+    try {
+      // Undefined outside a secure context, rejects when permission is denied
+      await navigator.clipboard.writeText(text)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch (error) {
+      console.error("Failed to copy recovery codes:", error)
+      // Select the codes so they can be copied by hand
+      const selection = window.getSelection()
+      if (codesRef.current && selection) {
+        selection.selectAllChildren(codesRef.current)
+      }
+      setCopyFailed(true)
+    }
+  }
+
+  return (
+    <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 space-y-3">
+      <div>
+        <h4 className="font-semibold text-sm text-yellow-800">Save your recovery codes</h4>
+        <p className="text-sm text-yellow-700">
+          Each code signs you in once if you lose your authenticator. They will not be shown again.
+        </p>
+      </div>
+      <ul ref={codesRef} className="grid grid-cols-2 gap-2 font-mono text-sm text-gray-900 bg-white border border-yellow-200 rounded-md p-3">
+        {codes.map((code) => (
+          <li key={code}>{code}</li>
+        ))}
+      </ul>
+      <div className="flex gap-2">
+        <button
+          onClick={handleCopy}
+          className="inline-flex items-center gap-2 px-3 py-1.5 bg-white border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50"
+        >
+          <Copy className="h-4 w-4" />
+          {copied ? "Copied" : "Copy"}
+        </button>
+        <a
+          href={`data:text/plain;charset=utf-8,${encodeURIComponent(text)}`}
+          download="votehubph-admin-recovery-codes.txt"
+          className="inline-flex items-center gap-2 px-3 py-1.5 bg-white border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50"
+        >
+          <Download className="h-4 w-4" />
+          Download
+        </a>
+      </div>
+      {copyFailed && (
+        <p className="text-sm text-yellow-700">Couldn&apos;t copy automatically. The codes are selected; press Ctrl+C to copy them.</p>
+      )}
+    </div>
+  )
+}
+
+export default function SecurityPage() {
+  const { session } = useSession()
+  const [setup, setSetup] = useState<TwoFactorSetupResponse | null>(null)
+  const [code, setCode] = useState("")
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [isProcessing, setIsProcessing] = useState(false)
+  const [error, setError] = useState("")
+
+  if (!session) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="text-center">
+          <Loader2 className="h-8 w-8 animate-spin text-blue-600 mx-auto mb-4" />
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    )
+  }
+
+  const isEnabled = session.user.two_factor_enabled
+
+  const handleStartSetup = async () => {
+    setIsProcessing(true)
+    setError("")
+    try {
+      setSetup(await startTwoFactorSetup())
+    } catch (error) {
+      console.error("Failed to start 2FA setup:", error)
+      setError(getErrorMessage(error, "Failed to start two-factor setup"))
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  const handleEnable = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsProcessing(true)
+    setError("")
+    try {
+      const data = await enableTwoFactor(code)
+      setRecoveryCodes(data.recovery_codes)
+      setSetup(null)
+      setCode("")
+    } catch (error) {
+      console.error("Failed to enable 2FA:", error)
+      setError(getErrorMessage(error, "Failed to enable two-factor authentication"))
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  const handleRegenerate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsProcessing(true)
+    setError("")
+    try {
+      const data = await regenerateRecoveryCodes(code)
+      setRecoveryCodes(data.recovery_codes)
+      setCode("")
+    } catch (error) {
+      console.error("Failed to regenerate recovery codes:", error)
+      setError(getErrorMessage(error, "Failed to regenerate recovery codes"))
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AdminHeader session={session} subtitle="Account Security" />
+
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="bg-white rounded-lg shadow">
+          <div className="border-b border-gray-200 p-6 flex items-start gap-4">
+            <div className={`h-10 w-10 rounded-lg flex items-center justify-center ${isEnabled || recoveryCodes ? "bg-green-100" : "bg-yellow-100"}`}>
+              <ShieldCheck className={`h-6 w-6 ${isEnabled || recoveryCodes ? "text-green-600" : "text-yellow-600"}`} />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-gray-900">Two-factor authentication</h2>
+              <p className="text-sm text-gray-600">
+                {isEnabled || recoveryCodes
+                  ? "Enabled. You'll be asked for a code from your authenticator app each time you sign in."
+                  : "Required for all admins. Set it up with any authenticator app (Google Authenticator, Authy, 1Password, ...)."}
+              </p>
+            </div>
+          </div>
+
+          <div className="p-6 space-y-4">
+            {error && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+                <p className="text-sm text-red-600">{error}</p>
+              </div>
+            )}
+
+            {recoveryCodes && (
+              <>
+                <RecoveryCodesPanel codes={recoveryCodes} />
+                {!isEnabled && (
+                  // The session cookie was updated; reload so middleware lets the admin through
+                  <button
+                    onClick={() => (window.location.href = "/")}
+                    className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 font-medium text-sm"
+                  >
+                    <CheckCircle className="h-4 w-4" />
+                    I&apos;ve saved my codes, continue to dashboard
+                  </button>
+                )}
+              </>
+            )}
+
+            {!isEnabled && !recoveryCodes && !setup && (
+              <button
+                onClick={handleStartSetup}
+                disabled={isProcessing}
+                className="inline-flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium text-sm"
+              >
+                {isProcessing ? <Loader2 className="h-4 w-4 animate-spin" /> : <Smartphone className="h-4 w-4" />}
+                Set up authenticator app
+              </button>
+            )}
+
+            {!isEnabled && setup && (
+              <form onSubmit={handleEnable} className="space-y-4">
+                <div className="flex gap-6 items-start">
+                  <img
+                    src={setup.qr_code}
+                    alt="QR code for your authenticator app"
+                    className="w-56 h-56 border border-gray-200 rounded-lg"
+                  />
+                  <div className="flex-1 space-y-3 text-sm text-gray-600">
+                    <p>1. Scan this QR code with your authenticator app.</p>
+                    <div>
+                      <p>Can&apos;t scan it? Enter this key manually:</p>
+                      <p className="mt-1 font-mono text-gray-900 bg-gray-50 border border-gray-200 rounded-md px-3 py-2 break-all select-all">
+                        {setup.secret.match(/.{1,4}/g)?.join(" ")}
+                      </p>
+                      <p className="text-xs text-gray-500 mt-1">Time-based, SHA-1, 6 digits, 30 seconds.</p>
+                    </div>
+                    <p>2. Enter the 6-digit code the app shows to confirm.</p>
+                  </div>
+                </div>
+                <div className="flex gap-3">
+                  <div className="relative flex-1">
+                    <KeyRound className="absolute left-3 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
+                    <input
+                      type="text"
+                      inputMode="numeric"
+                      autoComplete="one-time-code"
+                      value={code}
+                      onChange={(e) => setCode(e.target.value)}
+                      required
+                      maxLength={7}
+                      placeholder="123456"
+                      className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 tracking-widest"
+                    />
+                  </div>
+                  <button
+                    type="submit"
+                    disabled={isProcessing}
+                    className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium text-sm"
+                  >
+                    {isProcessing ? <Loader2 className="h-4 w-4 animate-spin" /> : "Confirm & Enable"}
+                  </button>
+                </div>
+              </form>
+            )}
+
+            {isEnabled && (
+              <form onSubmit={handleRegenerate} className="border-t pt-4 space-y-3">
+                <div>
+                  <h4 className="font-semibold text-sm text-gray-700">Recovery codes</h4>
+                  <p className="text-sm text-gray-600">
+                    Generating new codes invalidates all of your old ones. Enter a current authenticator code to continue.
+                  </p>
+                </div>
+                <div className="flex gap-3">
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    required
+                    maxLength={7}
+                    placeholder="123456"
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 tracking-widest"
+                  />
+                  <button
+                    type="submit"
+                    disabled={isProcessing}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium text-sm"
+                  >
+                    {isProcessing ? <Loader2 className="h-4 w-4 animate-spin" /> : "Generate New Codes"}
+                  </button>
+                </div>
+              </form>
+            )}
+          </div>
+        </div>
+      </main>
+    </div>
+  )
+}
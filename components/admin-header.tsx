@@ -0,0 +1,112 @@
+"use client"
+
+import { useState, type ReactNode } from "react"
+import Link from "next/link"
+import { usePathname } from "next/navigation"
+import { LogOut, Shield } from "lucide-react"
+import { logout, type SessionResponse } from "@/lib/api"
+import { ROLE_LABELS, hasPermission, type Permission } from "@/lib/permissions"
+
+interface NavItem {
+  href: string
+  label: string
+  permission?: Permission
+  /** Also highlight the item on nested routes under this prefix. */
+  activePrefix?: string
+}
+
+const NAV_ITEMS: NavItem[] = [
+  { href: "/", label: "Posts", activePrefix: "/posts/" },
+  { href: "/partylists", label: "Party Lists", permission: "partylists.manage", activePrefix: "/partylists/" },
+  { href: "/registry", label: "Registry", permission: "registry.import" },
+  { href: "/audit", label: "Audit Log", permission: "audit.view" },
+  { href: "/reasons", label: "Reasons", permission: "reasons.manage" },
+  { href: "/screening", label: "Screening", permission: "screening.manage" },
+  { href: "/admins", label: "Admins", permission: "admins.manage" },
+  { href: "/security", label: "Security" },
+]
+
+interface AdminHeaderProps {
+  session: SessionResponse
+  subtitle: string
+  /** Page-specific controls rendered before the main-site link. */
+  actions?: ReactNode
+}
+
+export function AdminHeader({ session, subtitle, actions }: AdminHeaderProps) {
+  const pathname = usePathname()
+  const [isLoggingOut, setIsLoggingOut] = useState(false)
+
+  const handleLogout = async () => {
+    setIsLoggingOut(true)
+    try {
+      await logout()
+    } catch (error) {
+      console.error("Failed to log out:", error)
+    }
+    window.location.href = "/login?reason=logged_out"
+  }
+
+  return (
+    <header className="bg-white border-b border-gray-200 sticky top-0 z-50 shadow-sm">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-6">
+            <div className="flex items-center gap-3">
+              <Shield className="h-8 w-8 text-blue-600" />
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900">VoteHubPH Admin</h1>
+                <p className="text-sm text-gray-500">{subtitle}</p>
+              </div>
+            </div>
+            <nav className="flex items-center gap-1">
+              {NAV_ITEMS.filter((item) => !item.permission || hasPermission(session.user, item.permission)).map((item) => (
+                <Link
+                  key={item.href}
+                  href={item.href}
+                  className={`px-3 py-2 rounded-md text-sm font-medium transition ${
+                    pathname === item.href || (item.activePrefix && pathname.startsWith(item.activePrefix))
+                      ? "bg-blue-50 text-blue-700"
+                      : "text-gray-600 hover:bg-gray-100"
+                  }`}
+                >
+                  {item.label}
+                </Link>
+              ))}
+            </nav>
+          </div>
+          <div className="flex items-center gap-4">
+            {actions}
+            <a
+              href={process.env.NEXT_PUBLIC_FRONTEND_URL || 'http://localhost:3000'}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-sm text-blue-600 hover:text-blue-700 font-medium"
+            >
+              View Main Site →
+            </a>
+            <div className="flex items-center gap-3 pl-4 border-l border-gray-200">
+              <div className="text-right">
+                <div className="text-sm text-gray-700 font-medium">{session.user.name}</div>
+                <div className="text-xs text-gray-500">
+                  {session.user.roles.length > 0
+                    ? session.user.roles.map((role) => ROLE_LABELS[role] ?? role).join(", ")
+                    : "No role assigned"}
+                </div>
+              </div>
+              <button
+                onClick={handleLogout}
+                disabled={isLoggingOut}
+                className="flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900 font-medium disabled:opacity-50"
+                title="Sign out"
+              >
+                <LogOut className="h-4 w-4" />
+                Sign Out
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </header>
+  )
+}
@@ -0,0 +1,127 @@
+"use client"
+
+import { CheckCircle, Clock, Loader2, XCircle } from "lucide-react"
+import type { Post } from "@/lib/api"
+
+export type BulkItemStatus = "queued" | "processing" | "succeeded" | "failed"
+
+export interface BulkItemResult {
+  status: BulkItemStatus
+  error?: string
+}
+
+interface BulkActionBarProps {
+  selectedCount: number
+  rejectNote: string
+  onRejectNoteChange: (note: string) => void
+  onApprove: () => void
+  onReject: () => void
+  onClear: () => void
+  /** Per-post progress of the running (or last) bulk action, keyed by post id. */
+  results: Record<number, BulkItemResult>
+  isRunning: boolean
+  /** Used to show post names in the progress list. */
+  posts: Post[]
+  onDismissResults: () => void
+}
+
+export function BulkActionBar({
+  selectedCount,
+  rejectNote,
+  onRejectNoteChange,
+  onApprove,
+  onReject,
+  onClear,
+  results,
+  isRunning,
+  posts,
+  onDismissResults,
+}: BulkActionBarProps) {
+  const entries = Object.entries(results).map(([id, result]) => ({ id: Number(id), ...result }))
+  const done = entries.filter((e) => e.status === "succeeded" || e.status === "failed").length
+  const succeeded = entries.filter((e) => e.status === "succeeded").length
+  const failed = entries.filter((e) => e.status === "failed")
+  const hasResults = entries.length > 0
+
+  if (selectedCount === 0 && !hasResults) {
+    return null
+  }
+
+  const postName = (id: number) => posts.find((p) => p.id === id)?.name ?? `Post #${id}`
+
+  return (
+    <div className="fixed bottom-0 inset-x-0 z-40 bg-white border-t border-gray-200 shadow-[0_-4px_12px_rgba(0,0,0,0.08)]">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 space-y-3">
+        {hasResults && (
+          <div>
+            <div className="flex items-center justify-between text-sm mb-1">
+              <span className="font-medium text-gray-700">
+                {isRunning ? `Processing ${done} of ${entries.length}...` : `Finished: ${succeeded} succeeded, ${failed.length} failed`}
+              </span>
+              {!isRunning && (
+                <button onClick={onDismissResults} className="text-gray-500 hover:text-gray-700 text-xs font-medium">
+                  Dismiss
+                </button>
+              )}
+            </div>
+            <div className="h-2 bg-gray-100 rounded-full overflow-hidden flex">
+              <div className="bg-green-500 transition-all" style={{ width: `${(succeeded / entries.length) * 100}%` }} />
+              <div className="bg-red-500 transition-all" style={{ width: `${(failed.length / entries.length) * 100}%` }} />
+            </div>
+            <ul className="mt-2 max-h-24 overflow-y-auto text-xs space-y-0.5">
+              {entries.map((item) => (
+                <li key={item.id} className={`flex items-center gap-1 ${item.status === "failed" ? "text-red-700" : "text-gray-600"}`}>
+                  {item.status === "queued" && <Clock className="h-3 w-3 flex-shrink-0 text-gray-400" />}
+                  {item.status === "processing" && <Loader2 className="h-3 w-3 flex-shrink-0 animate-spin text-blue-600" />}
+                  {item.status === "succeeded" && <CheckCircle className="h-3 w-3 flex-shrink-0 text-green-600" />}
+                  {item.status === "failed" && <XCircle className="h-3 w-3 flex-shrink-0" />}
+                  <span className="font-medium">{postName(item.id)}</span>
+                  {item.error && <span>— {item.error}</span>}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {selectedCount > 0 && (
+          <div className="flex items-center gap-4">
+            <div className="text-sm font-medium text-gray-900 whitespace-nowrap">
+              {selectedCount} selected
+            </div>
+            <input
+              type="text"
+              placeholder="Shared rejection note (optional)..."
+              value={rejectNote}
+              onChange={(e) => onRejectNoteChange(e.target.value)}
+              disabled={isRunning}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button
+              onClick={onApprove}
+              disabled={isRunning}
+              className="inline-flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium text-sm"
+            >
+              {isRunning ? <Loader2 className="h-4 w-4 animate-spin" /> : <CheckCircle className="h-4 w-4" />}
+              Approve All
+            </button>
+            <button
+              onClick={onReject}
+              disabled={isRunning}
+              className="inline-flex items-center gap-2 px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium text-sm"
+            >
+              {isRunning ? <Loader2 className="h-4 w-4 animate-spin" /> : <XCircle className="h-4 w-4" />}
+              Reject All
+            </button>
+            <button
+              onClick={onClear}
+              disabled={isRunning}
+              className="text-sm text-gray-600 hover:text-gray-900 font-medium disabled:opacity-50"
+            >
+              Clear
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
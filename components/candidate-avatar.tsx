@@ -0,0 +1,96 @@
+"use client"
+
+import { useEffect, useState } from "react"
+
+// Tailwind needs the full class names spelled out to keep them in the build
+const AVATAR_COLORS = [
+  "bg-red-500",
+  "bg-orange-500",
+  "bg-amber-500",
+  "bg-lime-600",
+  "bg-green-600",
+  "bg-teal-600",
+  "bg-cyan-600",
+  "bg-sky-600",
+  "bg-blue-600",
+  "bg-indigo-600",
+  "bg-violet-600",
+  "bg-purple-600",
+  "bg-fuchsia-600",
+  "bg-pink-600",
+]
+
+const SIZE_CLASSES = {
+  sm: "w-10 h-10 text-sm",
+  md: "w-20 h-20 text-2xl",
+  lg: "w-24 h-24 text-3xl",
+}
+
+/** Up to two letters: the first and last words, e.g. "Juan P. Dela Cruz" → "JC". */
+export function getInitials(name: string) {
+  const words = name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .split(/\s+/)
+    .map((word) => word.replace(/[^A-Za-z0-9]/g, ""))
+    .filter((word) => word !== "")
+  if (words.length === 0) return "?"
+  const first = words[0][0]
+  const last = words.length > 1 ? words[words.length - 1][0] : ""
+  return (first + last).toUpperCase()
+}
+
+/** Same name, same color, on every render and every machine. */
+export function getAvatarColor(name: string) {
+  let hash = 0
+  for (let i = 0; i < name.length; i++) {
+    hash = (hash * 31 + name.charCodeAt(i)) | 0
+  }
+  return AVATAR_COLORS[Math.abs(hash) % AVATAR_COLORS.length]
+}
+
+interface CandidateAvatarProps {
+  name: string
+  src?: string | null
+  size?: keyof typeof SIZE_CLASSES
+  /** Called with false once `src` fails to load, or right away when there is none. */
+  onPhotoStatus?: (usable: boolean) => void
+}
+
+/** The candidate's photo, or their initials on a colored circle when it is missing or broken. */
+export function CandidateAvatar({ name, src, size = "lg", onPhotoStatus }: CandidateAvatarProps) {
+  // Remembering which URL failed lets a new `src` be tried again
+  const [brokenSrc, setBrokenSrc] = useState<string | null>(null)
+  const showPhoto = !!src && src !== brokenSrc
+
+  useEffect(() => {
+    if (!src) {
+      onPhotoStatus?.(false)
+    }
+  }, [src, onPhotoStatus])
+
+  if (showPhoto) {
+    return (
+      <img
+        src={src}
+        alt={name}
+        onLoad={() => onPhotoStatus?.(true)}
+        onError={() => {
+          setBrokenSrc(src)
+          onPhotoStatus?.(false)
+        }}
+        className={`${SIZE_CLASSES[size]} rounded-full object-cover border-2 border-gray-200`}
+      />
+    )
+  }
+
+  return (
+    <div
+      role="img"
+      aria-label={name}
+      className={`${SIZE_CLASSES[size]} ${getAvatarColor(name)} rounded-full border-2 border-gray-200 flex items-center justify-center font-semibold text-white select-none`}
+    >
+      {getInitials(name)}
+    </div>
+  )
+}
@@ -0,0 +1,16 @@
+import { Eye } from "lucide-react"
+import type { PostClaim } from "@/lib/api"
+
+/** Shown on an open post that another admin claimed first. */
+export function ClaimNotice({ claim }: { claim: PostClaim }) {
+  return (
+    <div className="border-b border-purple-200 bg-purple-50 px-6 py-3 text-sm text-purple-900 flex gap-2">
+      <Eye className="h-4 w-4 flex-shrink-0 mt-0.5" />
+      <p>
+        <strong>{claim.admin.name}</strong> has been reviewing this post since{" "}
+        {new Date(claim.claimed_at).toLocaleTimeString()}. Check with them before deciding; the post
+        is yours once they close it or their claim expires at {new Date(claim.expires_at).toLocaleTimeString()}.
+      </p>
+    </div>
+  )
+}
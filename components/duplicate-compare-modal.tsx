@@ -0,0 +1,118 @@
+"use client"
+
+import { useState, type ReactNode } from "react"
+import Link from "next/link"
+import { ExternalLink, XCircle } from "lucide-react"
+import type { Post } from "@/lib/api"
+import { DUPLICATE_CONFIDENCE_LABELS, type DuplicateMatch } from "@/lib/duplicates"
+import { STATUS_LABELS } from "@/lib/post-filters"
+import { CandidateAvatar } from "@/components/candidate-avatar"
+
+interface DuplicateCompareModalProps {
+  post: Post
+  matches: DuplicateMatch[]
+  onClose: () => void
+}
+
+const ROWS: Array<[string, (post: Post) => ReactNode]> = [
+  ["Name", (post) => <span className="font-semibold text-gray-900">{post.name}</span>],
+  ["Status", (post) => STATUS_LABELS[post.status]],
+  ["Position", (post) => `${post.position} • ${post.level}`],
+  ["Party", (post) => post.party || "—"],
+  ["Submitted by", (post) => (
+    <>
+      {post.user.name}
+      <span className="block text-xs text-gray-500">{post.user.email}</span>
+    </>
+  )],
+  ["Submitted", (post) => new Date(post.created_at).toLocaleString()],
+  ["Bio", (post) => <span className="whitespace-pre-wrap line-clamp-6">{post.bio}</span>],
+  ["Images", (post) => `${post.images?.length ?? 0} campaign image(s)`],
+]
+
+/** The flagged post next to one suspected duplicate at a time. */
+export function DuplicateCompareModal({ post, matches, onClose }: DuplicateCompareModalProps) {
+  const [selected, setSelected] = useState(0)
+  const match = matches[Math.min(selected, matches.length - 1)]
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-4xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-xl font-bold text-gray-900">Compare suspected duplicates</h3>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              <XCircle className="h-6 w-6" />
+            </button>
+          </div>
+
+          {matches.length > 1 && (
+            <div className="flex flex-wrap gap-2 mb-4">
+              {matches.map((candidate, idx) => (
+                <button
+                  key={candidate.post.id}
+                  type="button"
+                  onClick={() => setSelected(idx)}
+                  className={`px-3 py-1 rounded-full text-sm font-medium border ${
+                    idx === selected
+                      ? "bg-blue-600 text-white border-blue-600"
+                      : "bg-white text-gray-700 border-gray-300 hover:bg-gray-50"
+                  }`}
+                >
+                  {candidate.post.name} ({STATUS_LABELS[candidate.post.status]})
+                </button>
+              ))}
+            </div>
+          )}
+
+          {match && (
+            <>
+              <p className="text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-md px-3 py-2 mb-4">
+                {DUPLICATE_CONFIDENCE_LABELS[match.confidence]} ({Math.round(match.score * 100)}%) for the same position.{" "}
+                {match.sameSubmitter
+                  ? "Both were submitted from the same account."
+                  : "They were submitted from different accounts, so one may be impersonating the other."}
+              </p>
+
+              <table className="w-full text-sm table-fixed">
+                <thead>
+                  <tr>
+                    <th className="w-32" />
+                    {[post, match.post].map((side, idx) => (
+                      <th key={side.id} className="px-3 pb-3 text-left align-top">
+                        <div className="flex items-center gap-3">
+                          <CandidateAvatar name={side.name} src={side.profile_photo} size="md" />
+                          <div>
+                            <p className="text-xs uppercase tracking-wide text-gray-500">
+                              {idx === 0 ? "Flagged post" : "Suspected duplicate"}
+                            </p>
+                            <Link
+                              href={`/posts/${side.id}`}
+                              className="inline-flex items-center gap-1 text-blue-600 hover:text-blue-700 font-medium"
+                            >
+                              Post #{side.id}
+                              <ExternalLink className="h-3 w-3" />
+                            </Link>
+                          </div>
+                        </div>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {ROWS.map(([label, render]) => (
+                    <tr key={label} className="align-top">
+                      <th className="py-2 pr-3 text-left font-medium text-gray-500">{label}</th>
+                      <td className="px-3 py-2 text-gray-700 break-words">{render(post)}</td>
+                      <td className="px-3 py-2 text-gray-700 break-words">{render(match.post)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,64 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { Copy } from "lucide-react"
+import type { Post } from "@/lib/api"
+import { DUPLICATE_CONFIDENCE_LABELS, type DuplicateMatch } from "@/lib/duplicates"
+import { STATUS_LABELS } from "@/lib/post-filters"
+import { DuplicateCompareModal } from "@/components/duplicate-compare-modal"
+
+interface DuplicateWarningProps {
+  post: Post
+  matches: DuplicateMatch[] | undefined
+}
+
+/** Flags a pending post that looks like another candidate for the same seat. */
+export function DuplicateWarning({ post, matches }: DuplicateWarningProps) {
+  const [isComparing, setIsComparing] = useState(false)
+
+  if (!matches || matches.length === 0) {
+    return null
+  }
+
+  const impersonation = matches.some((match) => !match.sameSubmitter && match.post.status === "approved")
+
+  return (
+    <div className="border-b border-amber-200 bg-amber-50 px-6 py-3 text-sm text-amber-900">
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex gap-2">
+          <Copy className="h-4 w-4 flex-shrink-0 mt-0.5" />
+          <div>
+            <p className="font-medium">
+              {impersonation ? "Possible impersonation of an approved candidate" : "Possible duplicate submission"}
+            </p>
+            <ul className="mt-1 space-y-0.5">
+              {matches.map((match) => (
+                <li key={match.post.id}>
+                  <Link href={`/posts/${match.post.id}`} className="font-medium text-amber-900 underline hover:text-amber-700">
+                    {match.post.name}
+                  </Link>{" "}
+                  <span className="text-amber-700">
+                    · {STATUS_LABELS[match.post.status]} · {DUPLICATE_CONFIDENCE_LABELS[match.confidence]}
+                    {match.sameSubmitter ? " · same account" : ` · submitted by ${match.post.user.name}`}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+        <button
+          type="button"
+          onClick={() => setIsComparing(true)}
+          className="flex-shrink-0 px-3 py-1.5 border border-amber-300 rounded-md bg-white text-amber-900 font-medium hover:bg-amber-100"
+        >
+          Compare side by side
+        </button>
+      </div>
+
+      {isComparing && (
+        <DuplicateCompareModal post={post} matches={matches} onClose={() => setIsComparing(false)} />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,323 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { ChevronLeft, ChevronRight, ExternalLink, Flag, ImageOff, Loader2, Trash2, X, ZoomIn, ZoomOut } from "lucide-react"
+import type { PostImage } from "@/lib/api"
+
+export type ImageAction = "remove" | "flag"
+
+const ACTION_COPY: Record<ImageAction, { title: string; confirm: string; placeholder: string }> = {
+  remove: {
+    title: "Remove this image",
+    confirm: "Remove Image",
+    placeholder: "Why is this image being removed? The candidate will see this.",
+  },
+  flag: {
+    title: "Flag as inappropriate",
+    confirm: "Flag Image",
+    placeholder: "What is inappropriate about this image?",
+  },
+}
+
+const ZOOM_LEVELS = [1, 1.5, 2, 3]
+
+function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+interface ImageLightboxProps {
+  images: PostImage[]
+  initialIndex: number
+  onClose: () => void
+  /** Omit to hide the per-image actions. Reject to keep the reason form open. */
+  onAction?: (action: ImageAction, image: PostImage, reason: string) => Promise<void>
+}
+
+/** Full-screen image viewer with zoom, arrow-key navigation, metadata and per-image moderation. */
+export function ImageLightbox({ images, initialIndex, onClose, onAction }: ImageLightboxProps) {
+  const [index, setIndex] = useState(initialIndex)
+  const [zoomLevel, setZoomLevel] = useState(0)
+  const [dimensions, setDimensions] = useState<Record<string, { width: number; height: number }>>({})
+  // null when the server doesn't say (no Content-Length, or CORS hides it)
+  const [sizes, setSizes] = useState<Record<string, number | null>>({})
+  const [broken, setBroken] = useState<Record<string, boolean>>({})
+  const [pendingAction, setPendingAction] = useState<ImageAction | null>(null)
+  const [reason, setReason] = useState("")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const position = Math.min(index, images.length - 1)
+  const image = images[position]
+  const zoom = ZOOM_LEVELS[zoomLevel]
+
+  // Removing the last image leaves nothing to show
+  useEffect(() => {
+    if (images.length === 0) {
+      onClose()
+    }
+  }, [images.length, onClose])
+
+  // Each image starts unzoomed with no action form open
+  const [shownPosition, setShownPosition] = useState(position)
+  if (position !== shownPosition) {
+    setShownPosition(position)
+    setZoomLevel(0)
+    setPendingAction(null)
+    setReason("")
+  }
+
+  useEffect(() => {
+    if (!image || image.url in sizes) return
+    const controller = new AbortController()
+    fetch(image.url, { method: "HEAD", signal: controller.signal })
+      .then((response) => {
+        // Other failures (e.g. 405 for HEAD) say nothing about whether the image loads
+        if (response.status === 404 || response.status === 410) {
+          setBroken((prev) => ({ ...prev, [image.url]: true }))
+        }
+        const length = Number(response.headers.get("content-length"))
+        setSizes((prev) => ({ ...prev, [image.url]: length > 0 ? length : null }))
+      })
+      .catch(() => {
+        if (!controller.signal.aborted) {
+          setSizes((prev) => ({ ...prev, [image.url]: null }))
+        }
+      })
+    return () => controller.abort()
+  }, [image, sizes])
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Captured and stopped so review mode's shortcuts don't act on the post underneath
+      e.stopPropagation()
+      if (e.target instanceof HTMLTextAreaElement || e.target instanceof HTMLInputElement) {
+        if (e.key === "Escape") setPendingAction(null)
+        return
+      }
+      switch (e.key) {
+        case "Escape":
+          onClose()
+          break
+        case "ArrowLeft":
+          setIndex((i) => Math.max(0, Math.min(i, images.length - 1) - 1))
+          break
+        case "ArrowRight":
+          setIndex((i) => Math.min(images.length - 1, i + 1))
+          break
+        case "+":
+        case "=":
+          setZoomLevel((level) => Math.min(ZOOM_LEVELS.length - 1, level + 1))
+          break
+        case "-":
+          setZoomLevel((level) => Math.max(0, level - 1))
+          break
+        case "0":
+          setZoomLevel(0)
+          break
+        default:
+          return
+      }
+      e.preventDefault()
+    }
+    window.addEventListener("keydown", handleKeyDown, true)
+    return () => window.removeEventListener("keydown", handleKeyDown, true)
+  }, [images.length, onClose])
+
+  if (!image) {
+    return null
+  }
+
+  const size = sizes[image.url]
+  const dimension = dimensions[image.url]
+  const isBroken = broken[image.url]
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!pendingAction || !onAction || !reason.trim()) return
+    setIsSubmitting(true)
+    try {
+      await onAction(pendingAction, image, reason.trim())
+      setPendingAction(null)
+      setReason("")
+    } catch {
+      // Already reported by the caller; keep the reason so it can be retried
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-90 z-50 flex flex-col" role="dialog" aria-modal="true" aria-label="Image viewer">
+      <div className="flex items-center justify-between px-4 py-3 text-white">
+        <span className="text-sm">
+          {position + 1} / {images.length}
+        </span>
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => setZoomLevel((level) => Math.max(0, level - 1))}
+            disabled={zoomLevel === 0 || isBroken}
+            className="p-2 rounded hover:bg-white/10 disabled:opacity-40"
+            aria-label="Zoom out"
+          >
+            <ZoomOut className="h-5 w-5" />
+          </button>
+          <span className="text-sm w-12 text-center">{Math.round(zoom * 100)}%</span>
+          <button
+            type="button"
+            onClick={() => setZoomLevel((level) => Math.min(ZOOM_LEVELS.length - 1, level + 1))}
+            disabled={zoomLevel === ZOOM_LEVELS.length - 1 || isBroken}
+            className="p-2 rounded hover:bg-white/10 disabled:opacity-40"
+            aria-label="Zoom in"
+          >
+            <ZoomIn className="h-5 w-5" />
+          </button>
+          <button type="button" onClick={onClose} className="p-2 ml-2 rounded hover:bg-white/10" aria-label="Close">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+      </div>
+
+      <div className="relative flex-1 min-h-0 flex items-center">
+        <button
+          type="button"
+          onClick={() => setIndex(position - 1)}
+          disabled={position === 0}
+          className="absolute left-2 z-10 p-2 rounded-full bg-black/50 text-white hover:bg-black/70 disabled:opacity-0"
+          aria-label="Previous image"
+        >
+          <ChevronLeft className="h-6 w-6" />
+        </button>
+        <div className="flex-1 h-full overflow-auto flex">
+          {isBroken ? (
+            <div className="m-auto text-center text-gray-300">
+              <ImageOff className="h-12 w-12 mx-auto mb-2" />
+              <p className="font-medium">This image could not be loaded</p>
+              <p className="text-sm text-gray-400 break-all max-w-md">{image.url}</p>
+            </div>
+          ) : (
+            <img
+              key={image.url}
+              src={image.url}
+              alt={image.caption || `Image ${position + 1}`}
+              onLoad={(e) => {
+                const { naturalWidth: width, naturalHeight: height } = e.currentTarget
+                setDimensions((prev) => ({ ...prev, [image.url]: { width, height } }))
+              }}
+              onError={() => setBroken((prev) => ({ ...prev, [image.url]: true }))}
+              onClick={() => setZoomLevel((level) => (level === 0 ? 2 : 0))}
+              style={zoom > 1 && dimension ? { width: dimension.width * zoom, maxWidth: "none" } : undefined}
+              className={`m-auto ${zoom > 1 ? "cursor-zoom-out" : "max-h-full max-w-full object-contain cursor-zoom-in"}`}
+            />
+          )}
+        </div>
+        <button
+          type="button"
+          onClick={() => setIndex(position + 1)}
+          disabled={position === images.length - 1}
+          className="absolute right-2 z-10 p-2 rounded-full bg-black/50 text-white hover:bg-black/70 disabled:opacity-0"
+          aria-label="Next image"
+        >
+          <ChevronRight className="h-6 w-6" />
+        </button>
+      </div>
+
+      <div className="bg-white px-6 py-4 max-h-[40vh] overflow-y-auto">
+        <div className="max-w-4xl mx-auto flex flex-col md:flex-row gap-4 md:items-start md:justify-between">
+          <div className="space-y-2 text-sm min-w-0">
+            {image.flagged && (
+              <p className="inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium bg-amber-100 text-amber-800">
+                <Flag className="h-3 w-3" />
+                Flagged{image.flag_reason ? `: ${image.flag_reason}` : ""}
+              </p>
+            )}
+            {image.caption && <p className="text-gray-700 whitespace-pre-wrap break-words">{image.caption}</p>}
+            <dl className="flex flex-wrap gap-x-6 gap-y-1 text-gray-500">
+              <div>
+                <dt className="inline">Dimensions: </dt>
+                <dd className="inline text-gray-900">
+                  {isBroken ? "—" : dimension ? `${dimension.width} × ${dimension.height}px` : "Loading..."}
+                </dd>
+              </div>
+              <div>
+                <dt className="inline">File size: </dt>
+                <dd className="inline text-gray-900">
+                  {size === undefined ? "Loading..." : size === null ? "Unknown" : formatBytes(size)}
+                </dd>
+              </div>
+              <div className="min-w-0">
+                <a
+                  href={image.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center gap-1 text-blue-600 hover:text-blue-700"
+                >
+                  Open original
+                  <ExternalLink className="h-3 w-3" />
+                </a>
+              </div>
+            </dl>
+          </div>
+
+          {onAction && !pendingAction && (
+            <div className="flex gap-2 flex-shrink-0">
+              {!image.flagged && (
+                <button
+                  type="button"
+                  onClick={() => setPendingAction("flag")}
+                  className="inline-flex items-center gap-2 px-3 py-2 border border-amber-300 text-amber-800 rounded-md text-sm font-medium hover:bg-amber-50"
+                >
+                  <Flag className="h-4 w-4" />
+                  Flag as inappropriate
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => setPendingAction("remove")}
+                className="inline-flex items-center gap-2 px-3 py-2 border border-red-300 text-red-700 rounded-md text-sm font-medium hover:bg-red-50"
+              >
+                <Trash2 className="h-4 w-4" />
+                Remove this image
+              </button>
+            </div>
+          )}
+        </div>
+
+        {onAction && pendingAction && (
+          <form onSubmit={handleSubmit} className="max-w-4xl mx-auto mt-4 space-y-2">
+            <label className="block text-sm font-medium text-gray-700">{ACTION_COPY[pendingAction].title} (reason required)</label>
+            <textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              required
+              rows={2}
+              autoFocus
+              placeholder={ACTION_COPY[pendingAction].placeholder}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <div className="flex justify-end gap-3">
+              <button
+                type="button"
+                onClick={() => setPendingAction(null)}
+                className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSubmitting || !reason.trim()}
+                className={`inline-flex items-center gap-2 px-4 py-2 text-white rounded-md font-medium text-sm disabled:opacity-50 disabled:cursor-not-allowed ${
+                  pendingAction === "remove" ? "bg-red-600 hover:bg-red-700" : "bg-amber-600 hover:bg-amber-700"
+                }`}
+              >
+                {isSubmitting && <Loader2 className="h-4 w-4 animate-spin" />}
+                {ACTION_COPY[pendingAction].confirm}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  )
+}
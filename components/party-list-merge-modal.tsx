@@ -0,0 +1,303 @@
+"use client"
+
+import { useEffect, useMemo, useState, type ReactNode } from "react"
+import Link from "next/link"
+import { AlertTriangle, Loader2, XCircle } from "lucide-react"
+import {
+  getErrorMessage,
+  getPartyList,
+  listPartyListMembers,
+  mergePartyLists,
+  type MergePartyListsRequest,
+  type PartyList,
+  type PartyListMember,
+} from "@/lib/api"
+import { STATUS_LABELS } from "@/lib/post-filters"
+import { CandidateAvatar } from "@/components/candidate-avatar"
+
+type MergeField = "name" | "acronym" | "logo_url" | "platform"
+
+interface MergeSource {
+  partyList: PartyList
+  members: PartyListMember[]
+}
+
+interface PartyListMergeModalProps {
+  /** Keep the array stable; a new one reloads the lists. */
+  partyListIds: number[]
+  onClose: () => void
+  /** Called with the surviving list once the merge went through. */
+  onMerged: (survivor: PartyList) => void
+  /** Returns true when the error was a 403 the caller has already surfaced. */
+  onPermissionError: (error: unknown) => boolean
+}
+
+const FIELDS: Array<[MergeField, string, (partyList: PartyList) => ReactNode]> = [
+  ["name", "Name", (pl) => <span className="font-medium text-gray-900">{pl.name}</span>],
+  ["acronym", "Acronym", (pl) => pl.acronym || null],
+  ["logo_url", "Logo", (pl) => pl.logo_url ? <CandidateAvatar name={pl.acronym || pl.name} src={pl.logo_url} size="sm" /> : null],
+  ["platform", "Platform", (pl) => pl.platform?.length ? (
+    <ul className="list-disc pl-4 space-y-0.5">
+      {pl.platform.map((plank, idx) => <li key={idx}>{plank}</li>)}
+    </ul>
+  ) : null],
+]
+
+function hasValue(partyList: PartyList, field: MergeField) {
+  const value = partyList[field]
+  return Array.isArray(value) ? value.length > 0 : !!value
+}
+
+// The survivor's own value, unless it has none and another list does
+function defaultPicks(survivorId: number, sources: MergeSource[]) {
+  const survivor = sources.find((source) => source.partyList.id === survivorId)
+  const picks = {} as Record<MergeField, number>
+  FIELDS.forEach(([field]) => {
+    const withValue = survivor && hasValue(survivor.partyList, field)
+      ? survivor
+      : sources.find((source) => hasValue(source.partyList, field))
+    picks[field] = withValue ? withValue.partyList.id : survivorId
+  })
+  return picks
+}
+
+/** Pick the surviving list and the details it keeps, preview the result, then merge. */
+export function PartyListMergeModal({ partyListIds, onClose, onMerged, onPermissionError }: PartyListMergeModalProps) {
+  const [sources, setSources] = useState<MergeSource[] | null>(null)
+  const [survivorId, setSurvivorId] = useState<number | null>(null)
+  const [picks, setPicks] = useState<Record<MergeField, number> | null>(null)
+  const [loadError, setLoadError] = useState("")
+  const [isMerging, setIsMerging] = useState(false)
+
+  useEffect(() => {
+    let isActive = true
+    Promise.all(
+      partyListIds.map(async (id) => {
+        const [partyList, members] = await Promise.all([getPartyList(id), listPartyListMembers(id)])
+        return { partyList, members }
+      })
+    )
+      .then((loaded) => {
+        if (!isActive) return
+        // The list most posts already point at is the cheapest survivor
+        const survivor = loaded.reduce((best, source) => (source.members.length > best.members.length ? source : best))
+        setSources(loaded)
+        setSurvivorId(survivor.partyList.id)
+        setPicks(defaultPicks(survivor.partyList.id, loaded))
+      })
+      .catch((error) => {
+        console.error("Failed to load party lists to merge:", error)
+        if (isActive) setLoadError(getErrorMessage(error, "Failed to load party lists"))
+      })
+    return () => {
+      isActive = false
+    }
+  }, [partyListIds])
+
+  const preview = useMemo(() => {
+    if (!sources || survivorId === null || !picks) return null
+    const byId = (id: number) => sources.find((source) => source.partyList.id === id)!.partyList
+
+    const members: Array<PartyListMember & { from: string | null }> = []
+    const survivorFirst = [sources.find((source) => source.partyList.id === survivorId)!].concat(
+      sources.filter((source) => source.partyList.id !== survivorId)
+    )
+    survivorFirst.forEach(({ partyList, members: listMembers }) => {
+      listMembers.forEach((member) => {
+        if (!members.some((m) => m.post_id === member.post_id)) {
+          members.push({ ...member, from: partyList.id === survivorId ? null : partyList.name })
+        }
+      })
+    })
+
+    const name = byId(picks.name).name
+    const aliases: string[] = []
+    sources.forEach(({ partyList }) => {
+      const names = [partyList.name].concat(partyList.aliases ?? [])
+      names.forEach((alias) => {
+        const key = alias.trim().toLowerCase()
+        if (key !== name.trim().toLowerCase() && !aliases.some((a) => a.trim().toLowerCase() === key)) {
+          aliases.push(alias)
+        }
+      })
+    })
+
+    const request: MergePartyListsRequest = {
+      name,
+      acronym: byId(picks.acronym).acronym ?? null,
+      logo_url: byId(picks.logo_url).logo_url ?? null,
+      platform: byId(picks.platform).platform ?? [],
+      source_ids: sources.map((source) => source.partyList.id).filter((id) => id !== survivorId),
+      aliases,
+    }
+    return { members, aliases, request }
+  }, [sources, survivorId, picks])
+
+  const handleSurvivorChange = (id: number) => {
+    if (!sources) return
+    setSurvivorId(id)
+    setPicks(defaultPicks(id, sources))
+  }
+
+  const handleMerge = async () => {
+    if (survivorId === null || !preview) return
+    setIsMerging(true)
+    try {
+      onMerged(await mergePartyLists(survivorId, preview.request))
+    } catch (error) {
+      console.error("Failed to merge party lists:", error)
+      if (onPermissionError(error)) {
+        onClose()
+      } else {
+        alert(getErrorMessage(error, "Failed to merge party lists"))
+      }
+    } finally {
+      setIsMerging(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-5xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-xl font-bold text-gray-900">Merge party lists</h3>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              <XCircle className="h-6 w-6" />
+            </button>
+          </div>
+
+          {loadError ? (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+              <p className="text-sm text-red-600">{loadError}</p>
+            </div>
+          ) : !sources || survivorId === null || !picks || !preview ? (
+            <div className="py-12 text-center">
+              <Loader2 className="h-6 w-6 animate-spin text-blue-600 mx-auto" />
+            </div>
+          ) : (
+            <div className="space-y-6">
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="align-top">
+                      <th className="w-28" />
+                      {sources.map(({ partyList, members }) => (
+                        <th key={partyList.id} className="px-3 pb-3 text-left font-normal">
+                          <label className="flex items-start gap-2 cursor-pointer">
+                            <input
+                              type="radio"
+                              name="survivor"
+                              checked={survivorId === partyList.id}
+                              onChange={() => handleSurvivorChange(partyList.id)}
+                              className="mt-1 h-4 w-4 text-blue-600 focus:ring-blue-500"
+                            />
+                            <span>
+                              <span className="block text-xs uppercase tracking-wide text-gray-500">
+                                {survivorId === partyList.id ? "Survivor" : "Merged away"}
+                              </span>
+                              <span className="block font-medium text-gray-900">#{partyList.id}</span>
+                              <span className="block text-xs text-gray-500">{members.length} member(s)</span>
+                            </span>
+                          </label>
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {FIELDS.map(([field, label, render]) => (
+                      <tr key={field} className="align-top">
+                        <th className="py-2 pr-3 text-left font-medium text-gray-500">{label}</th>
+                        {sources.map(({ partyList }) => (
+                          <td key={partyList.id} className="px-3 py-2 text-gray-700">
+                            <label className="flex items-start gap-2 cursor-pointer">
+                              <input
+                                type="radio"
+                                name={`pick-${field}`}
+                                checked={picks[field] === partyList.id}
+                                onChange={() => setPicks(prev => prev && { ...prev, [field]: partyList.id })}
+                                className="mt-1 h-4 w-4 text-blue-600 focus:ring-blue-500"
+                              />
+                              <span className="min-w-0 break-words">{render(partyList) ?? <span className="text-gray-400">—</span>}</span>
+                            </label>
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div>
+                  <h4 className="font-semibold text-gray-900 mb-2">Members after the merge ({preview.members.length})</h4>
+                  {preview.members.length === 0 ? (
+                    <p className="text-sm text-gray-500">None of these lists have members.</p>
+                  ) : (
+                    <ul className="border border-gray-200 rounded-md divide-y divide-gray-100 max-h-64 overflow-y-auto">
+                      {preview.members.map((member) => (
+                        <li key={member.post_id} className="px-3 py-2 text-sm flex items-center justify-between gap-3">
+                          <div className="min-w-0">
+                            <Link href={`/posts/${member.post_id}`} target="_blank" className="font-medium text-blue-600 hover:text-blue-700">
+                              {member.name}
+                            </Link>
+                            <p className="text-xs text-gray-500">
+                              {member.position} • {STATUS_LABELS[member.status]}
+                            </p>
+                          </div>
+                          {member.from && (
+                            <span className="flex-shrink-0 text-xs text-purple-700">moves from {member.from}</span>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+                <div>
+                  <h4 className="font-semibold text-gray-900 mb-2">Kept as aliases</h4>
+                  {preview.aliases.length === 0 ? (
+                    <p className="text-sm text-gray-500">No other names.</p>
+                  ) : (
+                    <div className="flex flex-wrap gap-2">
+                      {preview.aliases.map((alias) => (
+                        <span key={alias} className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">{alias}</span>
+                      ))}
+                    </div>
+                  )}
+                  <p className="text-xs text-gray-500 mt-2">
+                    Posts that declare one of these names will be matched to the surviving list.
+                  </p>
+                </div>
+              </div>
+
+              <div className="flex gap-2 p-3 bg-amber-50 border border-amber-200 rounded-md text-sm text-amber-900">
+                <AlertTriangle className="h-4 w-4 flex-shrink-0 mt-0.5" />
+                <p>
+                  {preview.request.source_ids.length} party list(s) will be deleted and their members and posts moved to
+                  &quot;{preview.request.name}&quot;. This can&apos;t be undone.
+                </p>
+              </div>
+
+              <div className="flex justify-end gap-3">
+                <button
+                  onClick={onClose}
+                  className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleMerge}
+                  disabled={isMerging}
+                  className="inline-flex items-center gap-2 px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium text-sm"
+                >
+                  {isMerging && <Loader2 className="h-4 w-4 animate-spin" />}
+                  Merge {sources.length} Party Lists
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
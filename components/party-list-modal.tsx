@@ -0,0 +1,329 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { AlertTriangle, Loader2, Sparkles, XCircle } from "lucide-react"
+import {
+  addPartyListMember,
+  createPartyList,
+  getErrorMessage,
+  searchPartyLists,
+  type PartyList,
+  type Post,
+} from "@/lib/api"
+import { PERMISSION_HINTS, type Permission } from "@/lib/permissions"
+import {
+  CLOSE_MATCH_THRESHOLD,
+  PARTY_LIST_MATCH_REASONS,
+  rankPartyListMatches,
+  suggestionQueries,
+  type PartyListMatch,
+} from "@/lib/partylist-matching"
+import { RegistryBadge } from "@/components/registry-badge"
+
+interface PartyListModalProps {
+  post: Post & { party: string }
+  canAddMember: boolean
+  canCreate: boolean
+  onClose: () => void
+  /** Called after the candidate was added to a new or existing party list. */
+  onManaged: () => void
+  /** Returns true when the error was a 403 the caller has already surfaced. */
+  onPermissionError: (error: unknown, permission: Permission) => boolean
+}
+
+export function PartyListModal({ post, canAddMember, canCreate, onClose, onManaged, onPermissionError }: PartyListModalProps) {
+  const [search, setSearch] = useState("")
+  const [results, setResults] = useState<PartyList[] | null>(null)
+  const [isSearching, setIsSearching] = useState(false)
+  const [selectedId, setSelectedId] = useState<number | null>(null)
+  const [isProcessing, setIsProcessing] = useState(false)
+  const [suggestions, setSuggestions] = useState<PartyListMatch[] | null>(null)
+  const searchTimeoutRef = useRef<NodeJS.Timeout | null>(null)
+
+  useEffect(() => () => {
+    if (searchTimeoutRef.current) clearTimeout(searchTimeoutRef.current)
+  }, [])
+
+  // Look up lists the declared party may already be registered as, before the moderator types anything
+  useEffect(() => {
+    const controller = new AbortController()
+    setSuggestions(null)
+    Promise.all(
+      suggestionQueries(post.party).map((query) =>
+        searchPartyLists(query, controller.signal).catch((error) => {
+          if (!controller.signal.aborted) console.error("Failed to search party lists:", error)
+          return [] as PartyList[]
+        })
+      )
+    ).then((pages) => {
+      if (controller.signal.aborted) return
+      const candidates: PartyList[] = []
+      pages.forEach((page) => page.forEach((pl) => {
+        if (!candidates.some((candidate) => candidate.id === pl.id)) candidates.push(pl)
+      }))
+      setSuggestions(rankPartyListMatches(post.party, candidates))
+    })
+    return () => controller.abort()
+  }, [post.party])
+
+  const closeMatch = suggestions?.find((match) => match.score >= CLOSE_MATCH_THRESHOLD) ?? null
+
+  const handleSearchChange = (query: string) => {
+    setSearch(query)
+    setSelectedId(null)
+
+    if (searchTimeoutRef.current) {
+      clearTimeout(searchTimeoutRef.current)
+      searchTimeoutRef.current = null
+    }
+
+    // Clear results if query is too short
+    if (query.length < 1) {
+      setResults([])
+      setIsSearching(false)
+      return
+    }
+
+    // Debounce the search - wait 300ms after user stops typing
+    setIsSearching(true)
+    searchTimeoutRef.current = setTimeout(async () => {
+      try {
+        setResults(await searchPartyLists(query))
+      } catch (error) {
+        console.error("Failed to search party lists:", error)
+      } finally {
+        setIsSearching(false)
+        searchTimeoutRef.current = null
+      }
+    }, 300)
+  }
+
+  const handleAddToExisting = async () => {
+    if (!selectedId) {
+      alert("Please select a party list from the search results first")
+      return
+    }
+
+    setIsProcessing(true)
+    try {
+      await addPartyListMember(selectedId, { post_id: post.id })
+      alert(`Successfully added "${post.name}" to the party list!`)
+      onManaged()
+    } catch (error) {
+      console.error("Failed to add member:", error)
+      if (onPermissionError(error, "partylists.manage")) {
+        onClose()
+      } else {
+        alert(getErrorMessage(error, "Failed to add member to party list"))
+      }
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  const handleCreate = async () => {
+    if (closeMatch && !confirm(`"${post.party}" looks like the existing party list "${closeMatch.partyList.name}" (${Math.round(closeMatch.score * 100)}% match). Create a separate list anyway?`)) {
+      return
+    }
+    setIsProcessing(true)
+    try {
+      await createPartyList({
+        name: post.party,
+        post_id: post.id,
+        platform: post.platform ? [post.platform] : [],
+      })
+      alert(`Successfully created party list "${post.party}" and added "${post.name}" as a member!`)
+      onManaged()
+    } catch (error) {
+      console.error("Failed to create party list:", error)
+      if (onPermissionError(error, "partylists.create")) {
+        onClose()
+      } else {
+        alert(getErrorMessage(error, "Failed to create party list"))
+      }
+    } finally {
+      setIsProcessing(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-xl font-bold text-gray-900">Manage Party List</h3>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              <XCircle className="h-6 w-6" />
+            </button>
+          </div>
+
+          <div className="space-y-4">
+            <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+              <p className="text-sm text-blue-800">
+                <strong>Candidate:</strong> {post.name}
+              </p>
+              <p className="text-sm text-blue-800">
+                <strong>Party List:</strong> {post.party}
+              </p>
+            </div>
+
+            <div>
+              <p className="flex items-center gap-1 text-sm font-medium text-gray-700 mb-2">
+                <Sparkles className="h-4 w-4 text-blue-600" />
+                Suggested matches
+              </p>
+              {suggestions === null ? (
+                <p className="flex items-center gap-2 text-sm text-gray-500">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Looking for existing party lists...
+                </p>
+              ) : suggestions.length === 0 ? (
+                <p className="text-sm text-gray-500">No existing party list looks like &quot;{post.party}&quot;.</p>
+              ) : (
+                <div className="border border-gray-200 rounded-md">
+                  {suggestions.map(({ partyList: pl, score, reason, alias }) => (
+                    <button
+                      key={pl.id}
+                      onClick={() => setSelectedId(pl.id)}
+                      className={`w-full text-left px-3 py-2 hover:bg-gray-50 border-b border-gray-100 last:border-b-0 ${
+                        selectedId === pl.id ? "bg-blue-50 border-blue-200" : ""
+                      }`}
+                    >
+                      <div className="flex items-center justify-between gap-3">
+                        <div>
+                          <p className="flex items-center gap-1 font-medium text-sm text-gray-900">
+                            {pl.name}
+                            <RegistryBadge status={pl.registry_status} subject="Party list" compact />
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            {[pl.acronym, `${pl.member_count || 0} members`].filter(Boolean).join(" • ")}
+                          </p>
+                        </div>
+                        <div className="text-right flex-shrink-0">
+                          <span
+                            className={`px-2 py-0.5 rounded-full text-xs font-medium ${
+                              score >= CLOSE_MATCH_THRESHOLD ? "bg-green-100 text-green-800" : "bg-gray-100 text-gray-700"
+                            }`}
+                          >
+                            {Math.round(score * 100)}% match
+                          </span>
+                          <p className="text-xs text-gray-500 mt-0.5">
+                            {PARTY_LIST_MATCH_REASONS[reason]}
+                            {alias && <> as &quot;{alias}&quot;</>}
+                          </p>
+                        </div>
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Search for existing party list
+              </label>
+              <div className="relative">
+                <input
+                  type="text"
+                  placeholder="Search by name or acronym..."
+                  value={search}
+                  onChange={(e) => handleSearchChange(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                {isSearching && (
+                  <div className="absolute right-3 top-2.5">
+                    <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+                  </div>
+                )}
+              </div>
+
+              {/* Search Results */}
+              {results && results.length > 0 && (
+                <div className="mt-2 border border-gray-200 rounded-md max-h-48 overflow-y-auto">
+                  {results.map((pl) => (
+                    <button
+                      key={pl.id}
+                      onClick={() => setSelectedId(pl.id)}
+                      className={`w-full text-left px-3 py-2 hover:bg-gray-50 border-b border-gray-100 last:border-b-0 ${
+                        selectedId === pl.id ? "bg-blue-50 border-blue-200" : ""
+                      }`}
+                    >
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <p className="flex items-center gap-1 font-medium text-sm text-gray-900">
+                            {pl.name}
+                            <RegistryBadge status={pl.registry_status} subject="Party list" compact />
+                          </p>
+                          {pl.acronym && (
+                            <p className="text-xs text-gray-500">{pl.acronym}</p>
+                          )}
+                          {pl.sector && (
+                            <p className="text-xs text-gray-400 mt-0.5">Sector: {pl.sector}</p>
+                          )}
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          {pl.member_count || 0} members
+                        </div>
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              )}
+              {search.length >= 2 && results && results.length === 0 && !isSearching && (
+                <p className="text-xs text-gray-500 mt-2">No party lists found matching &quot;{search}&quot;</p>
+              )}
+              <p className="text-xs text-gray-500 mt-1">
+                Search for an existing party list to add this candidate to, or create a new one below.
+              </p>
+            </div>
+
+            <div className="border-t pt-4">
+              {closeMatch && (
+                <div className="flex gap-2 mb-3 p-3 bg-amber-50 border border-amber-200 rounded-md text-sm text-amber-900">
+                  <AlertTriangle className="h-4 w-4 flex-shrink-0 mt-0.5" />
+                  <p>
+                    &quot;{post.party}&quot; closely matches <strong>{closeMatch.partyList.name}</strong>. Add the candidate
+                    to it rather than creating a new list, unless you are sure they are different parties.
+                  </p>
+                </div>
+              )}
+              <div className="flex gap-3">
+                <button
+                  onClick={handleAddToExisting}
+                  disabled={!selectedId || isProcessing || !canAddMember}
+                  title={canAddMember ? undefined : PERMISSION_HINTS["partylists.manage"]}
+                  className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium text-sm flex items-center justify-center gap-2"
+                >
+                  {isProcessing ? (
+                    <>
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                      Adding...
+                    </>
+                  ) : (
+                    "Add to Existing Party List"
+                  )}
+                </button>
+                <button
+                  onClick={handleCreate}
+                  disabled={isProcessing || !canCreate}
+                  title={canCreate ? undefined : PERMISSION_HINTS["partylists.create"]}
+                  className="flex-1 px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium text-sm flex items-center justify-center gap-2"
+                >
+                  {isProcessing ? (
+                    <>
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                      Creating...
+                    </>
+                  ) : (
+                    "Create New Party List"
+                  )}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
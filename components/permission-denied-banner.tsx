@@ -0,0 +1,22 @@
+import { ShieldAlert, XCircle } from "lucide-react"
+
+interface PermissionDeniedBannerProps {
+  message: string
+  onDismiss: () => void
+}
+
+/** Shown when the backend refuses an action with 403. */
+export function PermissionDeniedBanner({ message, onDismiss }: PermissionDeniedBannerProps) {
+  return (
+    <div className="mb-6 bg-orange-50 border border-orange-200 rounded-lg p-4 flex items-start gap-3" role="alert">
+      <ShieldAlert className="h-5 w-5 text-orange-600 flex-shrink-0 mt-0.5" />
+      <div className="flex-1">
+        <h4 className="font-semibold text-sm text-orange-800">Insufficient permission</h4>
+        <p className="text-sm text-orange-700">{message}</p>
+      </div>
+      <button onClick={onDismiss} className="text-orange-400 hover:text-orange-600" title="Dismiss">
+        <XCircle className="h-5 w-5" />
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,178 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Search, X } from "lucide-react"
+import {
+  DEFAULT_FILTERS,
+  SORT_LABELS,
+  hasActiveFacets,
+  type PartyListManagedFilter,
+  type PostFilters,
+  type PostSort,
+} from "@/lib/post-filters"
+import type { PostFacets } from "@/lib/api"
+import { groupLevelValues, groupPositionValues, isPositionAtLevel, type FacetGroup } from "@/lib/taxonomy"
+
+interface PostFiltersBarProps {
+  filters: PostFilters
+  options: PostFacets
+  onChange: (changes: Partial<PostFilters>) => void
+}
+
+const SEARCH_DEBOUNCE_MS = 300
+
+const selectClassName =
+  "px-3 py-2 border border-gray-300 rounded-md text-sm bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+
+export function PostFiltersBar({ filters, options, onChange }: PostFiltersBarProps) {
+  // Local copy so typing stays responsive; the URL is updated after a pause
+  const [search, setSearch] = useState(filters.q)
+  const [syncedQ, setSyncedQ] = useState(filters.q)
+  const timeoutRef = useRef<NodeJS.Timeout | null>(null)
+  // The pending search is applied to whatever the filters are when it fires,
+  // so it must not undo a level or date picked while it was waiting
+  const onChangeRef = useRef(onChange)
+
+  useEffect(() => {
+    onChangeRef.current = onChange
+  }, [onChange])
+
+  // Follow external changes (back/forward navigation, "Clear filters"). The URL
+  // holds the trimmed value, so a trailing space still being typed isn't one.
+  if (filters.q !== syncedQ) {
+    setSyncedQ(filters.q)
+    if (search.trim() !== filters.q.trim()) setSearch(filters.q)
+  }
+
+  const cancelPendingSearch = () => {
+    if (timeoutRef.current) {
+      clearTimeout(timeoutRef.current)
+      timeoutRef.current = null
+    }
+  }
+
+  useEffect(() => cancelPendingSearch, [])
+
+  const handleSearchChange = (value: string) => {
+    setSearch(value)
+    cancelPendingSearch()
+    timeoutRef.current = setTimeout(() => {
+      timeoutRef.current = null
+      onChangeRef.current({ q: value })
+    }, SEARCH_DEBOUNCE_MS)
+  }
+
+  // A search still waiting to apply would bring the cleared text back
+  const handleClear = () => {
+    cancelPendingSearch()
+    onChange({ ...DEFAULT_FILTERS, status: filters.status, sort: filters.sort })
+  }
+
+  // Picking a level drops a position that level doesn't elect
+  const handleFacetChange = (key: "level" | "position" | "party", value: string) => {
+    if (key === "level" && filters.position && !isPositionAtLevel(filters.position, value)) {
+      onChange({ level: value, position: "" })
+    } else {
+      onChange({ [key]: value })
+    }
+  }
+
+  // Groups without a label render as plain options
+  const facetSelect = (key: "level" | "position" | "party", label: string, groups: FacetGroup[]) => {
+    // Keep a value from a shared link selectable even if the facet list no longer has it
+    const current = filters[key] && !groups.some((group) => group.values.includes(filters[key])) ? filters[key] : null
+    const renderOptions = (values: string[]) =>
+      values.map((value) => (
+        <option key={value} value={value}>{value}</option>
+      ))
+    return (
+      <select
+        value={filters[key]}
+        onChange={(e) => handleFacetChange(key, e.target.value)}
+        className={selectClassName}
+        aria-label={label}
+      >
+        <option value="">All {label.toLowerCase()}s</option>
+        {current && renderOptions([current])}
+        {groups.map((group) =>
+          group.label ? (
+            <optgroup key={group.label} label={group.label}>{renderOptions(group.values)}</optgroup>
+          ) : (
+            renderOptions(group.values)
+          )
+        )}
+      </select>
+    )
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4 mb-6 space-y-3">
+      <div className="flex gap-3">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <input
+            type="search"
+            placeholder="Search name, bio, platform or submitter email..."
+            value={search}
+            onChange={(e) => handleSearchChange(e.target.value)}
+            className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <select
+          value={filters.sort}
+          onChange={(e) => onChange({ sort: e.target.value as PostSort })}
+          className={selectClassName}
+          aria-label="Sort"
+        >
+          {(Object.keys(SORT_LABELS) as PostSort[]).map((sort) => (
+            <option key={sort} value={sort}>{SORT_LABELS[sort]}</option>
+          ))}
+        </select>
+      </div>
+      <div className="flex flex-wrap items-center gap-3">
+        {facetSelect("level", "Level", groupLevelValues(options.levels))}
+        {facetSelect("position", "Position", groupPositionValues(options.positions, filters.level))}
+        {facetSelect("party", "Party", [{ label: "", values: options.parties }])}
+        <select
+          value={filters.partyListManaged}
+          onChange={(e) => onChange({ partyListManaged: e.target.value as PartyListManagedFilter })}
+          className={selectClassName}
+          aria-label="Party list state"
+        >
+          <option value="any">Any party-list state</option>
+          <option value="unmanaged">Party list not yet managed</option>
+          <option value="managed">Party list managed</option>
+        </select>
+        <div className="flex items-center gap-2 text-sm text-gray-600">
+          <span>Submitted</span>
+          <input
+            type="date"
+            value={filters.from}
+            max={filters.to || undefined}
+            onChange={(e) => onChange({ from: e.target.value })}
+            className={selectClassName}
+            aria-label="Submitted from"
+          />
+          <span>to</span>
+          <input
+            type="date"
+            value={filters.to}
+            min={filters.from || undefined}
+            onChange={(e) => onChange({ to: e.target.value })}
+            className={selectClassName}
+            aria-label="Submitted to"
+          />
+        </div>
+        {hasActiveFacets(filters) && (
+          <button
+            onClick={handleClear}
+            className="ml-auto flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700 font-medium"
+          >
+            <X className="h-4 w-4" />
+            Clear filters
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,646 @@
+"use client"
+
+import { useCallback, useState, type ReactNode } from "react"
+import Link from "next/link"
+import { CheckCircle, XCircle, Clock, User, ChevronDown, ChevronUp, Users, AlertCircle, AlertTriangle, Loader2, Lock, RotateCcw, Undo2, MessageSquare, MessageSquarePlus, PenLine, GitCompare, Flag, ImageOff, Eye, X } from "lucide-react"
+import type { Post, PostImage, RejectionReason } from "@/lib/api"
+import { PERMISSION_HINTS } from "@/lib/permissions"
+import type { RejectDraft } from "@/lib/rejection-reasons"
+import { toFieldComments, type FieldComments } from "@/lib/revisions"
+import { screenPost } from "@/lib/screening"
+import { useScreeningRules } from "@/lib/use-screening-rules"
+import { useBarangays } from "@/lib/use-barangays"
+import { getForeignClaim } from "@/lib/claims"
+import { formatLocality, validatePostTaxonomy } from "@/lib/taxonomy"
+import { RejectionReasonPicker } from "@/components/rejection-reason-picker"
+import { ReverseDecisionDialog, type DecisionReversal } from "@/components/reverse-decision-dialog"
+import { CandidateAvatar } from "@/components/candidate-avatar"
+import { ImageLightbox, type ImageAction } from "@/components/image-lightbox"
+import { HighlightedText, RiskBadge, ScreeningSummary } from "@/components/screening-highlights"
+import { RegistryBadge } from "@/components/registry-badge"
+
+interface PostHeaderProps {
+  post: Post
+  /** Rendered before the profile photo, e.g. a selection checkbox. */
+  leading?: ReactNode
+  /** Turns the candidate name into a link, e.g. to the post detail page. */
+  href?: string
+  /** The signed-in admin; claims held by anyone else show as "Being reviewed by". */
+  viewerId?: string
+}
+
+export function PostHeader({ post, leading, href, viewerId }: PostHeaderProps) {
+  const [hasUsablePhoto, setHasUsablePhoto] = useState(true)
+  const foreignClaim = getForeignClaim(post, viewerId)
+  const locality = formatLocality(post.locality)
+  const barangays = useBarangays(post.locality)
+  const taxonomyWarnings = validatePostTaxonomy(post, barangays)
+
+  return (
+    <div className="border-b border-gray-200 p-6">
+      <div className="flex items-start gap-4">
+        {leading}
+        {/* Profile Photo - Always prioritize profile_photo, never replace with campaign images */}
+        <div className="flex-shrink-0">
+          <CandidateAvatar name={post.name} src={post.profile_photo} onPhotoStatus={setHasUsablePhoto} />
+        </div>
+
+        <div className="flex-1">
+          <div className="flex items-center gap-3 mb-2">
+            <h3 className="text-xl font-bold text-gray-900">
+              {href ? (
+                <Link href={href} className="hover:text-blue-600 hover:underline">{post.name}</Link>
+              ) : (
+                post.name
+              )}
+            </h3>
+            {post.status === "pending" && (
+              <span className="inline-flex items-center gap-1 px-3 py-1 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                <Clock className="h-3 w-3" />
+                Pending
+              </span>
+            )}
+            {post.status === "approved" && (
+              <span className="inline-flex items-center gap-1 px-3 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                <CheckCircle className="h-3 w-3" />
+                Approved
+              </span>
+            )}
+            {post.status === "rejected" && (
+              <span className="inline-flex items-center gap-1 px-3 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                <XCircle className="h-3 w-3" />
+                Rejected
+              </span>
+            )}
+            {post.status === "needs_revision" && (
+              <span className="inline-flex items-center gap-1 px-3 py-1 rounded-full text-xs font-medium bg-orange-100 text-orange-800">
+                <PenLine className="h-3 w-3" />
+                Needs Revision
+              </span>
+            )}
+            {foreignClaim && (
+              <span
+                title={`Claimed ${new Date(foreignClaim.claimed_at).toLocaleTimeString()}`}
+                className="inline-flex items-center gap-1 px-3 py-1 rounded-full text-xs font-medium bg-purple-100 text-purple-800"
+              >
+                <Eye className="h-3 w-3" />
+                Being reviewed by {foreignClaim.admin.name}
+              </span>
+            )}
+            <RiskBadge post={post} />
+            <RegistryBadge status={post.registry_check?.candidate} subject="Candidate" />
+            {!hasUsablePhoto && (
+              <span
+                title={post.profile_photo ? "The profile photo URL could not be loaded" : "No profile photo was uploaded"}
+                className="inline-flex items-center gap-1 px-3 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-700"
+              >
+                <ImageOff className="h-3 w-3" />
+                No usable photo
+              </span>
+            )}
+            {!!post.resubmission_count && (
+              <span className="inline-flex items-center gap-1 px-3 py-1 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800">
+                <GitCompare className="h-3 w-3" />
+                Resubmitted
+              </span>
+            )}
+          </div>
+          <div className="flex items-center gap-2 text-sm text-gray-600 mb-1">
+            <User className="h-4 w-4" />
+            <span>{post.user.name} ({post.user.email})</span>
+          </div>
+          <div className="flex gap-4 text-sm text-gray-600">
+            <span className="font-medium">{post.position}</span>
+            <span>•</span>
+            <span>{post.level}</span>
+            {locality && (
+              <>
+                <span>•</span>
+                <span>{locality}</span>
+              </>
+            )}
+            {post.party && (
+              <>
+                <span>•</span>
+                <span className="inline-flex items-center gap-1 font-medium text-blue-600">
+                  {post.party}
+                  <RegistryBadge status={post.registry_check?.party} subject="Party" compact />
+                </span>
+              </>
+            )}
+          </div>
+          {taxonomyWarnings.length > 0 && (
+            <ul className="mt-2 space-y-0.5 text-sm text-amber-800">
+              {taxonomyWarnings.map((warning) => (
+                <li key={warning} className="flex items-start gap-1.5">
+                  <AlertTriangle className="h-4 w-4 flex-shrink-0 mt-0.5" />
+                  {warning}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+        <div className="text-right text-sm text-gray-500 flex-shrink-0">
+          <div>Submitted</div>
+          <div className="font-medium">{new Date(post.created_at).toLocaleDateString()}</div>
+          <div className="text-xs">{new Date(post.created_at).toLocaleTimeString()}</div>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+interface FieldCommentProps {
+  field: string
+  /** Comment from the last revision request, shown read-only. */
+  saved?: string
+  draft?: FieldComments
+  onDraftChange?: (draft: FieldComments) => void
+}
+
+function FieldComment({ field, saved, draft, onDraftChange }: FieldCommentProps) {
+  if (draft && onDraftChange) {
+    if (!(field in draft)) {
+      return (
+        <button
+          type="button"
+          onClick={() => onDraftChange({ ...draft, [field]: saved ?? "" })}
+          className="mt-1 inline-flex items-center gap-1 text-xs text-orange-600 hover:text-orange-700 font-medium"
+        >
+          <MessageSquarePlus className="h-3 w-3" />
+          Comment
+        </button>
+      )
+    }
+    return (
+      <div className="mt-2 flex items-start gap-2">
+        <textarea
+          value={draft[field]}
+          onChange={(e) => onDraftChange({ ...draft, [field]: e.target.value })}
+          rows={2}
+          autoFocus
+          placeholder="What should the candidate fix here?"
+          className="flex-1 px-3 py-2 border border-orange-300 rounded-md text-sm bg-orange-50 focus:outline-none focus:ring-2 focus:ring-orange-500"
+        />
+        <button
+          type="button"
+          onClick={() => {
+            const next = { ...draft }
+            delete next[field]
+            onDraftChange(next)
+          }}
+          className="p-1 text-gray-400 hover:text-gray-600"
+          aria-label="Remove comment"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+    )
+  }
+
+  if (!saved) {
+    return null
+  }
+  return (
+    <div className="mt-2 flex items-start gap-2 bg-orange-50 border border-orange-200 rounded-md px-3 py-2 text-sm text-orange-800">
+      <MessageSquare className="h-4 w-4 flex-shrink-0 mt-0.5" />
+      <span className="whitespace-pre-wrap break-words">{saved}</span>
+    </div>
+  )
+}
+
+interface ImageThumbnailProps {
+  image: PostImage
+  index: number
+  onOpen: () => void
+}
+
+function ImageThumbnail({ image, index, onOpen }: ImageThumbnailProps) {
+  const [isBroken, setIsBroken] = useState(false)
+
+  return (
+    <button
+      type="button"
+      onClick={onOpen}
+      className="relative block w-full h-48 rounded-lg overflow-hidden bg-gray-100 border border-gray-200 cursor-zoom-in focus:outline-none focus:ring-2 focus:ring-blue-500"
+    >
+      {isBroken ? (
+        <span className="h-full flex flex-col items-center justify-center gap-1 text-sm text-gray-500">
+          <ImageOff className="h-6 w-6" />
+          Broken image
+        </span>
+      ) : (
+        <img
+          src={image.url}
+          alt={image.caption || `Image ${index + 1}`}
+          loading="lazy"
+          onError={() => setIsBroken(true)}
+          className="w-full h-full object-cover"
+        />
+      )}
+      {image.flagged && (
+        <span className="absolute top-2 left-2 inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium bg-amber-100 text-amber-800">
+          <Flag className="h-3 w-3" />
+          Flagged
+        </span>
+      )}
+    </button>
+  )
+}
+
+interface PostContentProps {
+  post: Post
+  /** Show every section in full without "Show More" toggles. */
+  expandAll?: boolean
+  /** Omit to hide the "Party List Detected" prompt. */
+  onManagePartyList?: () => void
+  canManagePartyLists?: boolean
+  /** Comments being written for a revision request; shows a comment control under every field. */
+  revisionDraft?: FieldComments
+  onRevisionDraftChange?: (draft: FieldComments) => void
+  /** Enables "remove" and "flag" on each image in the lightbox; reject to keep the reason form open. */
+  onImageAction?: (action: ImageAction, image: PostImage, reason: string) => Promise<void>
+}
+
+export function PostContent({
+  post,
+  expandAll = false,
+  onManagePartyList,
+  canManagePartyLists = false,
+  revisionDraft,
+  onRevisionDraftChange,
+  onImageAction,
+}: PostContentProps) {
+  const [expandedSections, setExpandedSections] = useState<Record<string, boolean>>({})
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null)
+  const closeLightbox = useCallback(() => setLightboxIndex(null), [])
+  const savedComments = toFieldComments(post.revision_comments)
+  const screeningRules = useScreeningRules()
+  const { matches } = screenPost(post, screeningRules)
+  const screeningMatches = (field: string) => matches.filter((match) => match.field === field)
+
+  const fieldComment = (field: string) => (
+    <FieldComment
+      field={field}
+      saved={savedComments[field]}
+      draft={revisionDraft}
+      onDraftChange={onRevisionDraftChange}
+    />
+  )
+
+  return (
+    <div className="p-6 space-y-4">
+      <ScreeningSummary post={post} />
+
+      {/* Bio Section with Expandable Summary */}
+      <div>
+        <h4 className="font-semibold text-sm text-gray-700 mb-2">Bio</h4>
+        {(() => {
+          const bioKey = `bio-${post.id}`
+          const isExpanded = expandAll || expandedSections[bioKey] || false
+          const shouldTruncate = post.bio && post.bio.length > 200
+          
+          return (
+            <div>
+              <p className="text-gray-600 whitespace-pre-wrap break-words">
+                <HighlightedText text={post.bio} matches={screeningMatches("bio")} limit={shouldTruncate && !isExpanded ? 200 : undefined} />
+              </p>
+              {shouldTruncate && !expandAll && (
+                <button
+                  onClick={() => setExpandedSections(prev => ({ ...prev, [bioKey]: !isExpanded }))}
+                  className="mt-2 text-sm text-blue-600 hover:text-blue-700 font-medium flex items-center gap-1"
+                >
+                  {isExpanded ? (
+                    <>
+                      <ChevronUp className="h-4 w-4" />
+                      Show Less
+                    </>
+                  ) : (
+                    <>
+                      <ChevronDown className="h-4 w-4" />
+                      Show More
+                    </>
+                  )}
+                </button>
+              )}
+            </div>
+          )
+        })()}
+        {fieldComment("bio")}
+      </div>
+
+      {/* Platform & Advocacy Section with Expandable Summary */}
+      {post.platform && (
+        <div>
+          <h4 className="font-semibold text-sm text-gray-700 mb-2">Platform & Advocacy</h4>
+          {(() => {
+            const platformKey = `platform-${post.id}`
+            const isExpanded = expandAll || expandedSections[platformKey] || false
+            const shouldTruncate = post.platform && post.platform.length > 200
+            
+            return (
+              <div>
+                <p className="text-gray-600 whitespace-pre-wrap break-words">
+                  <HighlightedText text={post.platform} matches={screeningMatches("platform")} limit={shouldTruncate && !isExpanded ? 200 : undefined} />
+                </p>
+                {shouldTruncate && !expandAll && (
+                  <button
+                    onClick={() => setExpandedSections(prev => ({ ...prev, [platformKey]: !isExpanded }))}
+                    className="mt-2 text-sm text-blue-600 hover:text-blue-700 font-medium flex items-center gap-1"
+                  >
+                    {isExpanded ? (
+                      <>
+                        <ChevronUp className="h-4 w-4" />
+                        Show Less
+                      </>
+                    ) : (
+                      <>
+                        <ChevronDown className="h-4 w-4" />
+                        Show More
+                      </>
+                    )}
+                  </button>
+                )}
+              </div>
+            )
+          })()}
+          {fieldComment("platform")}
+        </div>
+      )}
+
+      {post.education && post.education.length > 0 && (
+        <div>
+          <h4 className="font-semibold text-sm text-gray-700 mb-2">Education</h4>
+          <ul className="space-y-1">
+            {post.education.map((edu, idx) => (
+              <li key={idx} className="text-gray-600 text-sm">
+                • {edu.level} - {edu.school}
+                {fieldComment(`education.${idx}`)}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {post.achievements && post.achievements.length > 0 && (
+        <div>
+          <h4 className="font-semibold text-sm text-gray-700 mb-2">Achievements</h4>
+          <ul className="space-y-1">
+            {post.achievements.map((achievement, idx) => (
+              <li key={idx} className="text-gray-600 text-sm">
+                ✓ {achievement}
+                {fieldComment(`achievements.${idx}`)}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {post.images && post.images.length > 0 && (
+        <div>
+          <h4 className="font-semibold text-sm text-gray-700 mb-3">
+            Campaign Images ({post.images.length})
+          </h4>
+          <div className="grid grid-cols-2 gap-4">
+            {post.images.map((img, idx) => {
+              const captionKey = `caption-${post.id}-${idx}`
+              const isExpanded = expandAll || expandedSections[captionKey] || false
+              const shouldTruncate = img.caption && img.caption.length > 100
+              
+              return (
+                <div key={idx} className="space-y-2">
+                  <ImageThumbnail image={img} index={idx} onOpen={() => setLightboxIndex(idx)} />
+                  {img.caption && (
+                    <div>
+                      <p className="text-xs text-gray-600 italic whitespace-pre-wrap break-words">
+                        <HighlightedText text={img.caption} matches={screeningMatches(`images.${idx}`)} limit={shouldTruncate && !isExpanded ? 100 : undefined} />
+                      </p>
+                      {shouldTruncate && !expandAll && (
+                        <button
+                          onClick={() => setExpandedSections(prev => ({ ...prev, [captionKey]: !isExpanded }))}
+                          className="mt-1 text-xs text-blue-600 hover:text-blue-700 font-medium flex items-center gap-1"
+                        >
+                          {isExpanded ? (
+                            <>
+                              <ChevronUp className="h-3 w-3" />
+                              Show Less
+                            </>
+                          ) : (
+                            <>
+                              <ChevronDown className="h-3 w-3" />
+                              Show More
+                            </>
+                          )}
+                        </button>
+                      )}
+                    </div>
+                  )}
+                  {fieldComment(`images.${idx}`)}
+                </div>
+              )
+            })}
+          </div>
+          {lightboxIndex !== null && (
+            <ImageLightbox
+              images={post.images}
+              initialIndex={lightboxIndex}
+              onClose={closeLightbox}
+              onAction={onImageAction}
+            />
+          )}
+        </div>
+      )}
+
+      {/* Party List Notification - Only show if party list hasn't been managed yet */}
+      {post.party && post.status === "pending" && !post.party_list_managed && onManagePartyList && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+          <div className="flex items-start gap-3">
+            <AlertCircle className="h-5 w-5 text-yellow-600 flex-shrink-0 mt-0.5" />
+            <div className="flex-1">
+              <h4 className="font-semibold text-sm text-yellow-800 mb-1 flex items-center gap-2">
+                <Users className="h-4 w-4" />
+                Party List Detected
+              </h4>
+              <p className="text-sm text-yellow-700 mb-3">
+                This candidate has specified a party list: <strong>{post.party}</strong>
+              </p>
+              <button
+                onClick={onManagePartyList}
+                disabled={!canManagePartyLists}
+                title={canManagePartyLists ? undefined : PERMISSION_HINTS["partylists.manage"]}
+                className="text-sm bg-yellow-600 text-white px-4 py-2 rounded-md hover:bg-yellow-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium"
+              >
+                Manage Party List
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {post.admin_notes && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <h4 className="font-semibold text-sm text-red-800 mb-1">Admin Notes</h4>
+          <p className="text-sm text-red-700">{post.admin_notes}</p>
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface PostModerationActionsProps {
+  post: Post
+  canModerate: boolean
+  isProcessing: boolean
+  /** Active canned reasons offered above the free-text note. */
+  reasons: RejectionReason[]
+  rejectDraft: RejectDraft
+  onRejectDraftChange: (draft: RejectDraft) => void
+  onApprove: () => void
+  onReject: () => void
+  /** Omit to hide "Request Revision", e.g. where fields can't be commented on. */
+  onRequestRevision?: () => void
+  /** Omit to hide "Revoke approval" / "Reopen for review" on decided posts. */
+  onReverseDecision?: (kind: DecisionReversal, reason: string) => Promise<void>
+}
+
+/**
+ * Rejection reasons, note and approve/reject buttons under a pending post, or
+ * the actions that undo a decision once it has been made.
+ */
+export function PostModerationActions({
+  post,
+  canModerate,
+  isProcessing,
+  reasons,
+  rejectDraft,
+  onRejectDraftChange,
+  onApprove,
+  onReject,
+  onRequestRevision,
+  onReverseDecision,
+}: PostModerationActionsProps) {
+  const [reversal, setReversal] = useState<DecisionReversal | null>(null)
+
+  if (post.status !== "pending") {
+    if (!canModerate || !onReverseDecision) {
+      return null
+    }
+    return (
+      <div className="border-t border-gray-200 px-6 py-4 bg-gray-50 flex items-center justify-end gap-2">
+        {post.status === "approved" && (
+          <button
+            type="button"
+            onClick={() => setReversal("revoke")}
+            disabled={isProcessing}
+            className="inline-flex items-center gap-2 px-3 py-1.5 border border-red-300 text-red-700 rounded-md hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed font-medium text-sm"
+          >
+            <Undo2 className="h-4 w-4" />
+            Revoke approval
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={() => setReversal("reopen")}
+          disabled={isProcessing}
+          className="inline-flex items-center gap-2 px-3 py-1.5 border border-gray-300 text-gray-700 rounded-md hover:bg-white disabled:opacity-50 disabled:cursor-not-allowed font-medium text-sm"
+        >
+          {isProcessing ? <Loader2 className="h-4 w-4 animate-spin" /> : <RotateCcw className="h-4 w-4" />}
+          Reopen for review
+        </button>
+        {reversal && (
+          <ReverseDecisionDialog
+            post={post}
+            kind={reversal}
+            onCancel={() => setReversal(null)}
+            onConfirm={async (reason) => {
+              await onReverseDecision(reversal, reason)
+              setReversal(null)
+            }}
+          />
+        )}
+      </div>
+    )
+  }
+
+  if (!canModerate) {
+    return (
+      <div className="border-t border-gray-200 px-6 py-4 bg-gray-50 flex items-center gap-2 text-sm text-gray-500">
+        <Lock className="h-4 w-4" />
+        {PERMISSION_HINTS["posts.moderate"]}
+      </div>
+    )
+  }
+
+  return (
+    <div className="border-t border-gray-200 p-6 bg-gray-50">
+      <div className="flex gap-4">
+        <div className="flex-1 space-y-2">
+          <RejectionReasonPicker
+            reasons={reasons}
+            selectedCodes={rejectDraft.reasonCodes}
+            onChange={(reasonCodes) => onRejectDraftChange({ ...rejectDraft, reasonCodes })}
+            disabled={isProcessing}
+          />
+          <textarea
+            placeholder="Add notes for rejection (optional)..."
+            value={rejectDraft.note}
+            onChange={(e) => onRejectDraftChange({ ...rejectDraft, note: e.target.value })}
+            rows={2}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <div className="flex flex-col gap-2">
+          <button
+            type="button"
+            onClick={(e) => {
+              e.preventDefault()
+              e.stopPropagation()
+              onApprove()
+            }}
+            disabled={isProcessing}
+            className="inline-flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium text-sm"
+          >
+            {isProcessing ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <>
+                <CheckCircle className="h-4 w-4" />
+                Approve
+              </>
+            )}
+          </button>
+          <button
+            type="button"
+            onClick={(e) => {
+              e.preventDefault()
+              e.stopPropagation()
+              onReject()
+            }}
+            disabled={isProcessing}
+            className="inline-flex items-center gap-2 px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium text-sm"
+          >
+            {isProcessing ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <>
+                <XCircle className="h-4 w-4" />
+                Reject
+              </>
+            )}
+          </button>
+          {onRequestRevision && (
+            <button
+              type="button"
+              onClick={onRequestRevision}
+              disabled={isProcessing}
+              className="inline-flex items-center gap-2 px-4 py-2 border border-orange-300 text-orange-700 rounded-md hover:bg-orange-50 disabled:opacity-50 disabled:cursor-not-allowed font-medium text-sm"
+            >
+              <PenLine className="h-4 w-4" />
+              Request Revision
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,76 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { History, Loader2 } from "lucide-react"
+import { getErrorMessage, getPostAuditTrail, type AuditEntry } from "@/lib/api"
+import { STATUS_LABELS } from "@/lib/post-filters"
+import { AUDIT_ACTION_LABELS, AUDIT_ACTION_STYLES, describeActor } from "@/lib/audit"
+
+interface PostTimelineProps {
+  postId: number
+  /** Reload when this changes, e.g. the post's `updated_at` after a decision. */
+  refreshKey?: string
+}
+
+/** Every recorded decision and party-list change for one post, oldest first. */
+export function PostTimeline({ postId, refreshKey }: PostTimelineProps) {
+  const [entries, setEntries] = useState<AuditEntry[] | null>(null)
+  const [error, setError] = useState("")
+
+  useEffect(() => {
+    const controller = new AbortController()
+    getPostAuditTrail(postId, controller.signal)
+      .then((trail) => {
+        setEntries(trail)
+        setError("")
+      })
+      .catch((error) => {
+        if (controller.signal.aborted) return
+        console.error("Failed to fetch post timeline:", error)
+        setError(getErrorMessage(error, "Failed to load the timeline"))
+      })
+    return () => controller.abort()
+  }, [postId, refreshKey])
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <h3 className="font-semibold text-gray-900 mb-4 flex items-center gap-2">
+        <History className="h-4 w-4 text-gray-500" />
+        Timeline
+      </h3>
+      {error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : !entries ? (
+        <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+      ) : entries.length === 0 ? (
+        <p className="text-sm text-gray-500">No moderation activity yet.</p>
+      ) : (
+        <ol className="relative border-l border-gray-200 ml-1 space-y-4">
+          {entries.map((entry) => (
+            <li key={entry.id} className="ml-4">
+              <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border-2 border-white bg-gray-300" />
+              <div className="flex items-center gap-2 flex-wrap">
+                <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${AUDIT_ACTION_STYLES[entry.action] ?? "bg-gray-100 text-gray-800"}`}>
+                  {AUDIT_ACTION_LABELS[entry.action] ?? entry.action}
+                </span>
+                <span className="text-sm font-medium text-gray-900">{describeActor(entry)}</span>
+              </div>
+              <time className="block text-xs text-gray-500 mt-0.5" dateTime={entry.created_at}>
+                {new Date(entry.created_at).toLocaleString()}
+              </time>
+              {entry.from_status && entry.to_status && entry.from_status !== entry.to_status && (
+                <p className="text-sm text-gray-600 mt-1">{STATUS_LABELS[entry.from_status]} → {STATUS_LABELS[entry.to_status]}</p>
+              )}
+              {entry.party_list_name && (
+                <p className="text-sm text-gray-600 mt-1">Party list: {entry.party_list_name}</p>
+              )}
+              {entry.notes && (
+                <p className="text-sm text-gray-600 mt-1 whitespace-pre-wrap break-words">&ldquo;{entry.notes}&rdquo;</p>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,40 @@
+import { BadgeCheck, BadgeX } from "lucide-react"
+import type { RegistryStatus } from "@/lib/api"
+
+interface RegistryBadgeProps {
+  /** Renders nothing while no registry has been imported. */
+  status: RegistryStatus | null | undefined
+  /** What was looked up, e.g. "Candidate" or "Party". */
+  subject: string
+  /** Icon only, for inline use next to a name. */
+  compact?: boolean
+}
+
+/** Whether a candidate or party list appears in the imported official registry. */
+export function RegistryBadge({ status, subject, compact = false }: RegistryBadgeProps) {
+  if (!status) return null
+  const isVerified = status === "verified"
+  const Icon = isVerified ? BadgeCheck : BadgeX
+  const title = isVerified ? `${subject} verified on the official list` : `${subject} not found on the official list`
+
+  if (compact) {
+    return (
+      <span title={title} className={`inline-flex ${isVerified ? "text-green-600" : "text-red-500"}`}>
+        <Icon className="h-4 w-4" />
+        <span className="sr-only">{title}</span>
+      </span>
+    )
+  }
+
+  return (
+    <span
+      title={title}
+      className={`inline-flex items-center gap-1 px-3 py-1 rounded-full text-xs font-medium ${
+        isVerified ? "bg-green-100 text-green-800" : "bg-red-100 text-red-800"
+      }`}
+    >
+      <Icon className="h-3 w-3" />
+      {isVerified ? "Verified on official list" : "Not on official list"}
+    </span>
+  )
+}
@@ -0,0 +1,66 @@
+"use client"
+
+import { X } from "lucide-react"
+import type { RejectionReason } from "@/lib/api"
+import { groupReasonsByCategory } from "@/lib/rejection-reasons"
+
+interface RejectionReasonPickerProps {
+  reasons: RejectionReason[]
+  selectedCodes: string[]
+  onChange: (codes: string[]) => void
+  disabled?: boolean
+}
+
+/** Dropdown of canned reasons grouped by category, with the picked ones shown as removable chips. */
+export function RejectionReasonPicker({ reasons, selectedCodes, onChange, disabled = false }: RejectionReasonPickerProps) {
+  if (reasons.length === 0) {
+    return null
+  }
+
+  const available = reasons.filter((reason) => !selectedCodes.includes(reason.code))
+  const labelFor = (code: string) => reasons.find((reason) => reason.code === code)?.label ?? code
+
+  return (
+    <div className="space-y-2">
+      {selectedCodes.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {selectedCodes.map((code) => (
+            <span
+              key={code}
+              className="inline-flex items-center gap-1 pl-2.5 pr-1 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800"
+            >
+              {labelFor(code)}
+              <button
+                type="button"
+                onClick={() => onChange(selectedCodes.filter((c) => c !== code))}
+                disabled={disabled}
+                className="p-0.5 rounded-full hover:bg-red-200"
+                aria-label={`Remove ${labelFor(code)}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+      {available.length > 0 && (
+        <select
+          value=""
+          onChange={(e) => e.target.value && onChange([...selectedCodes, e.target.value])}
+          disabled={disabled}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm bg-white text-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          aria-label="Add a rejection reason"
+        >
+          <option value="">Add a rejection reason...</option>
+          {groupReasonsByCategory(available).map(({ category, reasons: group }) => (
+            <optgroup key={category} label={category}>
+              {group.map((reason) => (
+                <option key={reason.code} value={reason.code}>{reason.label}</option>
+              ))}
+            </optgroup>
+          ))}
+        </select>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,246 @@
+"use client"
+
+import { useEffect, useState, type ReactNode } from "react"
+import { ChevronDown, ChevronUp, GitCompare, Loader2, MessageSquare } from "lucide-react"
+import { ApiError, getErrorMessage, getPreviousPostVersion, type Post, type PostVersion } from "@/lib/api"
+import { diffList, diffWords, type DiffOp, type ListDiffEntry } from "@/lib/diff"
+import { STATUS_LABELS } from "@/lib/post-filters"
+import { describeField } from "@/lib/revisions"
+
+const LIST_MARKERS: Record<DiffOp, { symbol: string; className: string }> = {
+  equal: { symbol: " ", className: "text-gray-600" },
+  added: { symbol: "+", className: "bg-green-50 text-green-800" },
+  removed: { symbol: "−", className: "bg-red-50 text-red-800 line-through" },
+}
+
+function DiffSection({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <div>
+      <h4 className="font-semibold text-sm text-gray-700 mb-2">{title}</h4>
+      {children}
+    </div>
+  )
+}
+
+function Unchanged() {
+  return <p className="text-sm text-gray-400 italic">No changes</p>
+}
+
+/** Before and after columns; removed words are struck out on the left, added words highlighted on the right. */
+function TextDiff({ before, after }: { before: string; after: string }) {
+  if (before === after) {
+    return <Unchanged />
+  }
+  const parts = diffWords(before, after)
+  return (
+    <div className="grid grid-cols-2 gap-4 text-sm">
+      <p className="p-3 rounded-md border border-gray-200 bg-gray-50 text-gray-600 whitespace-pre-wrap break-words">
+        {parts.filter((part) => part.op !== "added").map((part, idx) =>
+          part.op === "removed" ? (
+            <del key={idx} className="bg-red-100 text-red-800">{part.text}</del>
+          ) : (
+            <span key={idx}>{part.text}</span>
+          )
+        )}
+      </p>
+      <p className="p-3 rounded-md border border-gray-200 text-gray-700 whitespace-pre-wrap break-words">
+        {parts.filter((part) => part.op !== "removed").map((part, idx) =>
+          part.op === "added" ? (
+            <ins key={idx} className="bg-green-100 text-green-800 no-underline">{part.text}</ins>
+          ) : (
+            <span key={idx}>{part.text}</span>
+          )
+        )}
+      </p>
+    </div>
+  )
+}
+
+function ListDiff<T>({ entries, render }: { entries: ListDiffEntry<T>[]; render: (item: T) => ReactNode }) {
+  if (entries.every((entry) => entry.op === "equal")) {
+    return <Unchanged />
+  }
+  return (
+    <ul className="text-sm space-y-0.5">
+      {entries.map((entry, idx) => (
+        <li key={idx} className={`flex gap-2 px-2 py-0.5 rounded ${LIST_MARKERS[entry.op].className}`}>
+          <span className="font-mono w-3 flex-shrink-0 no-underline">{LIST_MARKERS[entry.op].symbol}</span>
+          <span>{render(entry.item)}</span>
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+function VersionDiff({ post, previous }: { post: Post; previous: PostVersion }) {
+  const details = (["name", "position", "level", "party"] as const).filter(
+    (field) => (previous[field] ?? "") !== (post[field] ?? "")
+  )
+  const images = diffList(previous.images ?? [], post.images ?? [], (img) => img.url)
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div className="lg:col-span-2 space-y-4">
+        {details.length > 0 && (
+          <DiffSection title="Details">
+            <ul className="text-sm space-y-0.5">
+              {details.map((field) => (
+                <li key={field} className="text-gray-600">
+                  <span className="capitalize">{field}</span>:{" "}
+                  <del className="bg-red-100 text-red-800">{previous[field] || "—"}</del> →{" "}
+                  <ins className="bg-green-100 text-green-800 no-underline">{post[field] || "—"}</ins>
+                </li>
+              ))}
+            </ul>
+          </DiffSection>
+        )}
+        <DiffSection title="Bio">
+          <TextDiff before={previous.bio ?? ""} after={post.bio ?? ""} />
+        </DiffSection>
+        {(previous.platform || post.platform) && (
+          <DiffSection title="Platform & Advocacy">
+            <TextDiff before={previous.platform ?? ""} after={post.platform ?? ""} />
+          </DiffSection>
+        )}
+        {(previous.education?.length || post.education?.length) ? (
+          <DiffSection title="Education">
+            <ListDiff
+              entries={diffList(previous.education ?? [], post.education ?? [], (edu) => `${edu.level}|${edu.school}`)}
+              render={(edu) => `${edu.level} - ${edu.school}`}
+            />
+          </DiffSection>
+        ) : null}
+        {(previous.achievements?.length || post.achievements?.length) ? (
+          <DiffSection title="Achievements">
+            <ListDiff
+              entries={diffList(previous.achievements ?? [], post.achievements ?? [], (achievement) => achievement)}
+              render={(achievement) => achievement}
+            />
+          </DiffSection>
+        ) : null}
+        {images.length > 0 && (
+          <DiffSection title="Campaign Images">
+            {images.every((entry) => entry.op === "equal") ? (
+              <Unchanged />
+            ) : (
+              <div className="grid grid-cols-4 gap-3">
+                {images.map(({ op, item }) => (
+                  <figure key={`${op}-${item.url}`} className={op === "removed" ? "opacity-60" : ""}>
+                    <img
+                      src={item.url}
+                      alt={item.caption || "Campaign image"}
+                      loading="lazy"
+                      className={`h-24 w-full object-cover rounded-md border-2 ${
+                        op === "added" ? "border-green-500" : op === "removed" ? "border-red-500" : "border-gray-200"
+                      }`}
+                    />
+                    <figcaption className={`text-xs mt-1 ${op === "added" ? "text-green-700" : op === "removed" ? "text-red-700" : "text-gray-500"}`}>
+                      {op === "added" ? "Added" : op === "removed" ? "Removed" : "Unchanged"}
+                    </figcaption>
+                  </figure>
+                ))}
+              </div>
+            )}
+          </DiffSection>
+        )}
+      </div>
+
+      <aside className="bg-red-50 border border-red-200 rounded-lg p-4 space-y-3 self-start">
+        <div>
+          <h4 className="font-semibold text-sm text-red-800">Previous feedback</h4>
+          <p className="text-xs text-red-700">
+            {STATUS_LABELS[previous.status]}
+            {previous.reviewed_at && ` on ${new Date(previous.reviewed_at).toLocaleDateString()}`}
+          </p>
+        </div>
+        {previous.admin_notes ? (
+          <p className="text-sm text-red-800 whitespace-pre-wrap break-words">{previous.admin_notes}</p>
+        ) : (
+          <p className="text-sm text-red-700 italic">No notes were left.</p>
+        )}
+        {previous.revision_comments && previous.revision_comments.length > 0 && (
+          <ul className="space-y-2">
+            {previous.revision_comments.map(({ field, comment }) => (
+              <li key={field} className="text-sm text-red-800 flex gap-2">
+                <MessageSquare className="h-4 w-4 flex-shrink-0 mt-0.5" />
+                <span>
+                  <strong>{describeField(previous, field)}:</strong> {comment}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </aside>
+    </div>
+  )
+}
+
+interface ResubmissionDiffProps {
+  post: Post
+  /** Load and show the diff right away instead of behind a toggle. */
+  defaultOpen?: boolean
+}
+
+/** Banner for resubmitted posts that expands into a diff against the last reviewed version. */
+export function ResubmissionDiff({ post, defaultOpen = false }: ResubmissionDiffProps) {
+  const [isOpen, setIsOpen] = useState(defaultOpen)
+  const [previous, setPrevious] = useState<PostVersion | null>(null)
+  const [error, setError] = useState("")
+
+  useEffect(() => {
+    if (!isOpen || previous) return
+    const controller = new AbortController()
+    getPreviousPostVersion(post.id, controller.signal)
+      .then((version) => {
+        setPrevious(version)
+        setError("")
+      })
+      .catch((error) => {
+        if (controller.signal.aborted) return
+        console.error("Failed to fetch previous version:", error)
+        setError(
+          error instanceof ApiError && error.status === 404
+            ? "No earlier reviewed version was found."
+            : getErrorMessage(error, "Failed to load the previous version")
+        )
+      })
+    return () => controller.abort()
+  }, [isOpen, post.id, previous])
+
+  if (!post.resubmission_count) {
+    return null
+  }
+
+  return (
+    <div className="border-b border-gray-200">
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        className="w-full px-6 py-3 flex items-center justify-between bg-indigo-50 text-indigo-800 text-sm hover:bg-indigo-100"
+      >
+        <span className="flex items-center gap-2 font-medium">
+          <GitCompare className="h-4 w-4" />
+          Resubmitted{post.resubmission_count > 1 ? ` ${post.resubmission_count} times` : ""}
+          {post.resubmitted_at && (
+            <span className="font-normal text-indigo-600">· {new Date(post.resubmitted_at).toLocaleString()}</span>
+          )}
+        </span>
+        <span className="flex items-center gap-1">
+          {isOpen ? "Hide changes" : "Show changes"}
+          {isOpen ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+        </span>
+      </button>
+      {isOpen && (
+        <div className="p-6">
+          {error ? (
+            <p className="text-sm text-gray-500">{error}</p>
+          ) : !previous ? (
+            <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+          ) : (
+            <VersionDiff post={post} previous={previous} />
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,98 @@
+"use client"
+
+import { useState } from "react"
+import { AlertTriangle, Loader2, XCircle } from "lucide-react"
+import type { Post } from "@/lib/api"
+import { STATUS_LABELS } from "@/lib/post-filters"
+
+export type DecisionReversal = "revoke" | "reopen"
+
+const COPY: Record<DecisionReversal, { title: string; description: string; confirm: string }> = {
+  revoke: {
+    title: "Revoke approval",
+    description: "The post is taken down and marked rejected. The candidate sees your reason as the rejection note.",
+    confirm: "Revoke Approval",
+  },
+  reopen: {
+    title: "Reopen for review",
+    description: "The post goes back to the pending queue and is hidden until someone decides it again.",
+    confirm: "Reopen Post",
+  },
+}
+
+interface ReverseDecisionDialogProps {
+  post: Post
+  kind: DecisionReversal
+  onConfirm: (reason: string) => Promise<void>
+  onCancel: () => void
+}
+
+/** Asks for a mandatory reason before a decided post's status is changed. */
+export function ReverseDecisionDialog({ post, kind, onConfirm, onCancel }: ReverseDecisionDialogProps) {
+  const [reason, setReason] = useState("")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const copy = COPY[kind]
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!reason.trim()) return
+    setIsSubmitting(true)
+    try {
+      await onConfirm(reason.trim())
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-xl max-w-lg w-full mx-4 p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-xl font-bold text-gray-900">{copy.title}</h3>
+          <button type="button" onClick={onCancel} className="text-gray-400 hover:text-gray-600">
+            <XCircle className="h-6 w-6" />
+          </button>
+        </div>
+        <div className="bg-orange-50 border border-orange-200 rounded-lg p-4 flex gap-3">
+          <AlertTriangle className="h-5 w-5 text-orange-600 flex-shrink-0 mt-0.5" />
+          <div className="text-sm text-orange-800">
+            <p>
+              <strong>{post.name}</strong> is currently <strong>{STATUS_LABELS[post.status].toLowerCase()}</strong>.
+            </p>
+            <p className="mt-1">{copy.description}</p>
+          </div>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Reason (required)</label>
+          <textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            required
+            rows={3}
+            autoFocus
+            placeholder="Why is this decision being changed?"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <p className="text-xs text-gray-500 mt-1">Recorded in the audit log and visible to the candidate.</p>
+        </div>
+        <div className="flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={isSubmitting || !reason.trim()}
+            className="inline-flex items-center gap-2 px-4 py-2 bg-orange-600 text-white rounded-md hover:bg-orange-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium text-sm"
+          >
+            {isSubmitting && <Loader2 className="h-4 w-4 animate-spin" />}
+            {copy.confirm}
+          </button>
+        </div>
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1,302 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import { CheckCircle, ChevronLeft, ChevronRight, Keyboard, Loader2, SkipForward, X, XCircle } from "lucide-react"
+import type { Post, RejectionReason } from "@/lib/api"
+import { STATUS_LABELS } from "@/lib/post-filters"
+import { EMPTY_REJECT_DRAFT, type RejectDraft } from "@/lib/rejection-reasons"
+import { confirmClaimedAction } from "@/lib/claims"
+import { usePostClaim } from "@/lib/use-post-claim"
+import { PostContent, PostHeader } from "@/components/post-sections"
+import { RejectionReasonPicker } from "@/components/rejection-reason-picker"
+import { ResubmissionDiff } from "@/components/resubmission-diff"
+import { ClaimNotice } from "@/components/claim-notice"
+
+type Decision = "approved" | "rejected" | "skipped"
+
+interface ReviewModeProps {
+  /** The loaded part of the queue in review order, kept current by refreshes and reverted errors. */
+  posts: Post[]
+  /** Pending posts in the whole queue, including pages not loaded yet. */
+  total: number
+  hasMore: boolean
+  isLoadingMore: boolean
+  onLoadMore: () => void
+  processingIds: Set<number>
+  onApprove: (postId: number) => void
+  onReject: (postId: number, draft: RejectDraft) => void
+  /** Active canned rejection reasons. */
+  reasons: RejectionReason[]
+  /** The signed-in admin, to tell their own review claims from other admins'. */
+  viewerId: string
+  onExit: () => void
+  onManagePartyList: (postId: number) => void
+  canManagePartyLists: boolean
+  /** False while a dialog is open so keystrokes don't decide the post underneath. */
+  shortcutsEnabled?: boolean
+}
+
+// Posts left in the loaded part of the queue when the next page is requested
+const PREFETCH_THRESHOLD = 3
+
+const SHORTCUTS: Array<[string, string]> = [
+  ["A", "Approve"],
+  ["R", "Reject with note"],
+  ["S", "Skip"],
+  ["J", "Next"],
+  ["K", "Previous"],
+  ["Esc", "Exit"],
+]
+
+function isTypingTarget(target: EventTarget | null) {
+  return target instanceof HTMLElement && (target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.tagName === "SELECT" || target.isContentEditable)
+}
+
+export function ReviewMode({
+  posts,
+  total,
+  hasMore,
+  isLoadingMore,
+  onLoadMore,
+  processingIds,
+  onApprove,
+  onReject,
+  reasons,
+  viewerId,
+  onExit,
+  onManagePartyList,
+  canManagePartyLists,
+  shortcutsEnabled = true,
+}: ReviewModeProps) {
+  const [index, setIndex] = useState(0)
+  const [decisions, setDecisions] = useState<Record<number, Decision>>({})
+  const [drafts, setDrafts] = useState<Record<number, RejectDraft>>({})
+  const notesRef = useRef<HTMLTextAreaElement>(null)
+
+  const post = posts[index]
+  const draft = (post && drafts[post.id]) ?? EMPTY_REJECT_DRAFT
+  const reviewedCount = Object.values(decisions).filter((d) => d !== "skipped").length
+  const isComplete = index >= posts.length && !hasMore
+  const queueTotal = Math.max(total, posts.length)
+  // Claim the post on screen so other moderators see it is taken
+  const blockedBy = usePostClaim(post && post.status === "pending" ? post.id : null)
+
+  // Fetches the next page before the reviewer runs out of loaded posts. Only
+  // moving retries a failed request, so it isn't retried in a loop.
+  const goTo = useCallback((next: number) => {
+    const target = Math.max(0, Math.min(next, posts.length))
+    setIndex(target)
+    notesRef.current?.blur()
+    if (hasMore && !isLoadingMore && target >= posts.length - PREFETCH_THRESHOLD) {
+      onLoadMore()
+    }
+  }, [hasMore, isLoadingMore, onLoadMore, posts.length])
+
+  // Move to the next post that hasn't been approved or rejected yet
+  const advance = useCallback((latest: Record<number, Decision>) => {
+    let next = index + 1
+    while (next < posts.length && (latest[posts[next].id] === "approved" || latest[posts[next].id] === "rejected")) {
+      next++
+    }
+    goTo(next)
+  }, [goTo, index, posts])
+
+  const decide = useCallback((decision: Decision) => {
+    if (!post) return
+    if (decision !== "skipped") {
+      if (post.status !== "pending" || processingIds.has(post.id)) return
+      if (!confirmClaimedAction(blockedBy ? { ...post, claim: blockedBy } : post, viewerId)) return
+      if (decision === "approved") {
+        onApprove(post.id)
+      } else {
+        onReject(post.id, drafts[post.id] ?? EMPTY_REJECT_DRAFT)
+      }
+    }
+    const latest = { ...decisions, [post.id]: decision }
+    setDecisions(latest)
+    advance(latest)
+  }, [advance, blockedBy, decisions, drafts, onApprove, onReject, post, processingIds, viewerId])
+
+  useEffect(() => {
+    if (!shortcutsEnabled) return
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.metaKey || e.ctrlKey || e.altKey) return
+
+      if (isTypingTarget(e.target)) {
+        if (e.key === "Escape") {
+          (e.target as HTMLElement).blur()
+        } else if (e.key === "Enter" && !e.shiftKey && e.target === notesRef.current) {
+          e.preventDefault()
+          decide("rejected")
+        }
+        return
+      }
+
+      switch (e.key.toLowerCase()) {
+        case "a":
+          decide("approved")
+          break
+        case "r":
+          e.preventDefault()
+          notesRef.current?.focus()
+          break
+        case "s":
+          decide("skipped")
+          break
+        case "j":
+          goTo(index + 1)
+          break
+        case "k":
+          goTo(index - 1)
+          break
+        case "escape":
+          onExit()
+          break
+        default:
+          return
+      }
+    }
+
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [decide, goTo, index, onExit, shortcutsEnabled])
+
+  return (
+    <div className="space-y-4">
+      {/* Review toolbar */}
+      <div className="bg-white rounded-lg shadow p-4 flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <button
+            onClick={() => goTo(index - 1)}
+            disabled={index === 0}
+            className="p-2 rounded-md text-gray-600 hover:bg-gray-100 disabled:opacity-40"
+            title="Previous (K)"
+          >
+            <ChevronLeft className="h-5 w-5" />
+          </button>
+          <div>
+            <div className="text-lg font-semibold text-gray-900">
+              {isComplete ? "Queue complete" : `${Math.min(index + 1, queueTotal)} of ${queueTotal} pending`}
+            </div>
+            <div className="text-xs text-gray-500">{reviewedCount} reviewed this session</div>
+          </div>
+          <button
+            onClick={() => goTo(index + 1)}
+            disabled={index >= posts.length}
+            className="p-2 rounded-md text-gray-600 hover:bg-gray-100 disabled:opacity-40"
+            title="Next (J)"
+          >
+            <ChevronRight className="h-5 w-5" />
+          </button>
+        </div>
+        <div className="hidden lg:flex items-center gap-3 text-xs text-gray-500">
+          <Keyboard className="h-4 w-4" />
+          {SHORTCUTS.map(([key, label]) => (
+            <span key={key}>
+              <kbd className="px-1.5 py-0.5 border border-gray-300 rounded bg-gray-50 font-mono text-gray-700">{key}</kbd> {label}
+            </span>
+          ))}
+        </div>
+        <button
+          onClick={onExit}
+          className="flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900 font-medium"
+        >
+          <X className="h-4 w-4" />
+          Exit Review
+        </button>
+      </div>
+      <div className="h-1 bg-gray-200 rounded-full overflow-hidden">
+        <div className="h-full bg-blue-600 transition-all" style={{ width: `${(Math.min(index, queueTotal) / Math.max(queueTotal, 1)) * 100}%` }} />
+      </div>
+
+      {isComplete ? (
+        <div className="bg-white rounded-lg shadow p-12 text-center space-y-4">
+          <CheckCircle className="h-10 w-10 text-green-600 mx-auto" />
+          <p className="text-gray-700">You&apos;ve reached the end of the queue. {reviewedCount} posts reviewed.</p>
+          <div className="flex justify-center gap-3">
+            <button onClick={() => goTo(0)} className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50">
+              Back to start
+            </button>
+            <button onClick={onExit} className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700">
+              Exit Review
+            </button>
+          </div>
+        </div>
+      ) : !post ? (
+        <div className="bg-white rounded-lg shadow p-12 flex justify-center">
+          {isLoadingMore ? (
+            <Loader2 className="h-6 w-6 animate-spin text-blue-600" />
+          ) : (
+            <button onClick={onLoadMore} className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50">
+              Couldn&apos;t load more posts. Retry
+            </button>
+          )}
+        </div>
+      ) : (
+        <div key={post.id} className="bg-white rounded-lg shadow">
+          <PostHeader post={post} viewerId={viewerId} />
+          {blockedBy && <ClaimNotice claim={blockedBy} />}
+          <ResubmissionDiff post={post} defaultOpen />
+          <PostContent
+            post={post}
+            expandAll
+            onManagePartyList={() => onManagePartyList(post.id)}
+            canManagePartyLists={canManagePartyLists}
+          />
+          <div className="border-t border-gray-200 p-6 bg-gray-50">
+            {post.status !== "pending" ? (
+              <p className="text-sm text-gray-500">
+                This post is already {STATUS_LABELS[post.status].toLowerCase()}. Press <kbd className="font-mono">J</kbd> to continue.
+              </p>
+            ) : (
+              <div className="flex gap-4">
+                <div className="flex-1 space-y-2">
+                  <RejectionReasonPicker
+                    reasons={reasons}
+                    selectedCodes={draft.reasonCodes}
+                    onChange={(reasonCodes) => setDrafts((prev) => ({ ...prev, [post.id]: { ...draft, reasonCodes } }))}
+                    disabled={processingIds.has(post.id)}
+                  />
+                  <textarea
+                    ref={notesRef}
+                    placeholder="Rejection note (press R to focus, Enter to reject)..."
+                    value={draft.note}
+                    onChange={(e) => setDrafts((prev) => ({ ...prev, [post.id]: { ...draft, note: e.target.value } }))}
+                    rows={3}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div className="flex flex-col gap-2">
+                  <button
+                    onClick={() => decide("approved")}
+                    disabled={processingIds.has(post.id)}
+                    className="inline-flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium text-sm"
+                  >
+                    {processingIds.has(post.id) ? <Loader2 className="h-4 w-4 animate-spin" /> : <CheckCircle className="h-4 w-4" />}
+                    Approve (A)
+                  </button>
+                  <button
+                    onClick={() => decide("rejected")}
+                    disabled={processingIds.has(post.id)}
+                    className="inline-flex items-center gap-2 px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium text-sm"
+                  >
+                    {processingIds.has(post.id) ? <Loader2 className="h-4 w-4 animate-spin" /> : <XCircle className="h-4 w-4" />}
+                    Reject (R)
+                  </button>
+                  <button
+                    onClick={() => decide("skipped")}
+                    className="inline-flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-white font-medium text-sm"
+                  >
+                    <SkipForward className="h-4 w-4" />
+                    Skip (S)
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,68 @@
+"use client"
+
+import { Loader2, PenLine } from "lucide-react"
+import type { Post } from "@/lib/api"
+import { describeField, toCommentList, type FieldComments } from "@/lib/revisions"
+
+interface RevisionRequestPanelProps {
+  post: Post
+  comments: FieldComments
+  note: string
+  onNoteChange: (note: string) => void
+  isProcessing: boolean
+  onSubmit: () => void
+  onCancel: () => void
+}
+
+/** Replaces the approve/reject actions while a moderator comments on individual fields. */
+export function RevisionRequestPanel({ post, comments, note, onNoteChange, isProcessing, onSubmit, onCancel }: RevisionRequestPanelProps) {
+  const filled = toCommentList(comments)
+
+  return (
+    <div className="border-t border-orange-200 p-6 bg-orange-50 space-y-3">
+      <div>
+        <h4 className="font-semibold text-sm text-orange-800 flex items-center gap-2">
+          <PenLine className="h-4 w-4" />
+          Request revision
+        </h4>
+        <p className="text-sm text-orange-700">
+          Use &ldquo;Comment&rdquo; under any field above to tell the candidate exactly what to fix.
+        </p>
+      </div>
+      {filled.length > 0 && (
+        <ul className="text-sm text-orange-800 space-y-0.5">
+          {filled.map(({ field }) => (
+            <li key={field}>• {describeField(post, field)}</li>
+          ))}
+        </ul>
+      )}
+      <textarea
+        placeholder="Overall note to the candidate (optional)..."
+        value={note}
+        onChange={(e) => onNoteChange(e.target.value)}
+        rows={2}
+        className="w-full px-3 py-2 border border-orange-300 rounded-md text-sm bg-white focus:outline-none focus:ring-2 focus:ring-orange-500"
+      />
+      <div className="flex justify-end gap-3">
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={isProcessing}
+          className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={onSubmit}
+          disabled={isProcessing || filled.length === 0}
+          title={filled.length === 0 ? "Comment on at least one field first" : undefined}
+          className="inline-flex items-center gap-2 px-4 py-2 bg-orange-600 text-white rounded-md hover:bg-orange-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium text-sm"
+        >
+          {isProcessing && <Loader2 className="h-4 w-4 animate-spin" />}
+          Send Revision Request ({filled.length})
+        </button>
+      </div>
+    </div>
+  )
+}
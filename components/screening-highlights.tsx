@@ -0,0 +1,86 @@
+"use client"
+
+import { ShieldAlert } from "lucide-react"
+import type { Post } from "@/lib/api"
+import {
+  RISK_LABELS,
+  RISK_STYLES,
+  SEVERITY_HIGHLIGHTS,
+  screenPost,
+  summarizeMatches,
+  type ScreeningMatch,
+} from "@/lib/screening"
+import { useScreeningRules } from "@/lib/use-screening-rules"
+
+interface HighlightedTextProps {
+  text: string
+  matches: ScreeningMatch[]
+  /** Cut the text after this many characters and append "...". */
+  limit?: number
+}
+
+/** Renders text with each screening match wrapped in a `<mark>` labelled with its rule. */
+export function HighlightedText({ text, matches, limit }: HighlightedTextProps) {
+  const end = limit !== undefined && text.length > limit ? limit : text.length
+  const nodes: React.ReactNode[] = []
+  let cursor = 0
+  matches.forEach((match, idx) => {
+    if (match.start >= end) return
+    if (match.start > cursor) {
+      nodes.push(text.slice(cursor, match.start))
+    }
+    nodes.push(
+      <mark key={idx} title={match.rule.label} className={`rounded px-0.5 ${SEVERITY_HIGHLIGHTS[match.rule.severity]}`}>
+        {text.slice(match.start, Math.min(match.end, end))}
+      </mark>
+    )
+    cursor = Math.min(match.end, end)
+  })
+  if (cursor < end) {
+    nodes.push(text.slice(cursor, end))
+  }
+  if (end < text.length) {
+    nodes.push("...")
+  }
+  return <>{nodes}</>
+}
+
+/** Pre-screening risk of a post; renders nothing when no rule matched. */
+export function RiskBadge({ post }: { post: Post }) {
+  const rules = useScreeningRules()
+  const { level, matches } = screenPost(post, rules)
+  if (level === "none") {
+    return null
+  }
+  return (
+    <span
+      title={summarizeMatches(matches).map(({ label, count }) => `${label} ×${count}`).join(", ")}
+      className={`inline-flex items-center gap-1 px-3 py-1 rounded-full text-xs font-medium ${RISK_STYLES[level]}`}
+    >
+      <ShieldAlert className="h-3 w-3" />
+      {RISK_LABELS[level]}
+    </span>
+  )
+}
+
+/** Counts of every rule that matched, shown above the post content. */
+export function ScreeningSummary({ post }: { post: Post }) {
+  const rules = useScreeningRules()
+  const { level, matches } = screenPost(post, rules)
+  if (level === "none") {
+    return null
+  }
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <span className="flex items-center gap-1 font-medium text-gray-700">
+        <ShieldAlert className="h-4 w-4 text-gray-500" />
+        Pre-screening:
+      </span>
+      {summarizeMatches(matches).map(({ label, severity, count }) => (
+        <span key={label} className={`px-2 py-0.5 rounded text-xs font-medium ${SEVERITY_HIGHLIGHTS[severity]}`}>
+          {label}{count > 1 ? ` ×${count}` : ""}
+        </span>
+      ))}
+    </div>
+  )
+}
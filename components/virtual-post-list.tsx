@@ -0,0 +1,91 @@
+"use client"
+
+import { useEffect, useLayoutEffect, useRef, useState, type ReactNode } from "react"
+import { useWindowVirtualizer } from "@tanstack/react-virtual"
+import { Loader2 } from "lucide-react"
+import type { Post } from "@/lib/api"
+
+interface VirtualPostListProps {
+  posts: Post[]
+  renderPost: (post: Post) => ReactNode
+  /** Called when the last rendered card comes near the viewport. */
+  onEndReached: () => void
+  hasMore: boolean
+  isLoadingMore: boolean
+}
+
+// Rough card height before measurement; cards with galleries grow once measured
+const ESTIMATED_CARD_HEIGHT = 480
+const CARD_GAP = 24
+// Start loading the next page this many cards before the end of the list
+const END_THRESHOLD = 5
+
+/**
+ * Window-scrolled list that only mounts the cards near the viewport, so the
+ * DOM stays small however many pages have been loaded.
+ */
+export function VirtualPostList({ posts, renderPost, onEndReached, hasMore, isLoadingMore }: VirtualPostListProps) {
+  const listRef = useRef<HTMLDivElement>(null)
+  const [scrollMargin, setScrollMargin] = useState(0)
+
+  // The stats, tabs and filters above the list push it down the page. They
+  // live in the same container, so re-measure whenever it resizes; the
+  // observer also reports once on mount, before the first paint.
+  useLayoutEffect(() => {
+    const list = listRef.current
+    if (!list) return
+    const observer = new ResizeObserver(() => {
+      setScrollMargin(list.getBoundingClientRect().top + window.scrollY)
+    })
+    observer.observe(list.offsetParent ?? document.body)
+    return () => observer.disconnect()
+  }, [])
+
+  const virtualizer = useWindowVirtualizer({
+    count: posts.length,
+    estimateSize: () => ESTIMATED_CARD_HEIGHT,
+    overscan: 3,
+    scrollMargin,
+    getItemKey: (index) => posts[index].id,
+  })
+
+  const items = virtualizer.getVirtualItems()
+  const lastIndex = items.length > 0 ? items[items.length - 1].index : -1
+
+  useEffect(() => {
+    if (hasMore && !isLoadingMore && lastIndex >= posts.length - END_THRESHOLD) {
+      onEndReached()
+    }
+  }, [hasMore, isLoadingMore, lastIndex, onEndReached, posts.length])
+
+  return (
+    <div ref={listRef}>
+      <div className="relative w-full" style={{ height: virtualizer.getTotalSize() }}>
+        <div
+          className="absolute top-0 left-0 w-full"
+          style={{ transform: `translateY(${(items[0]?.start ?? 0) - scrollMargin}px)` }}
+        >
+          {items.map((item) => (
+            <div
+              key={item.key}
+              data-index={item.index}
+              ref={virtualizer.measureElement}
+              style={{ paddingBottom: item.index < posts.length - 1 ? CARD_GAP : 0 }}
+            >
+              {renderPost(posts[item.index])}
+            </div>
+          ))}
+        </div>
+      </div>
+      {isLoadingMore && (
+        <div className="flex items-center justify-center gap-2 py-6 text-sm text-gray-500">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading more posts...
+        </div>
+      )}
+      {!hasMore && posts.length > 0 && (
+        <p className="py-6 text-center text-xs text-gray-400">End of list</p>
+      )}
+    </div>
+  )
+}
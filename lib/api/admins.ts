@@ -0,0 +1,11 @@
+import { request } from "./client"
+import type { AdminUser, MessageResponse } from "./types"
+
+export function listAdmins() {
+  return request<AdminUser[]>("/admin/admins")
+}
+
+/** Clears another admin's TOTP secret and recovery codes; they re-enroll on next sign-in. */
+export function resetAdminTwoFactor(adminId: string) {
+  return request<MessageResponse>(`/admin/admins/${adminId}/two-factor`, { method: "DELETE" })
+}
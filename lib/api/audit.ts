@@ -0,0 +1,17 @@
+import { request } from "./client"
+import type { AuditActor, AuditEntry, AuditLogParams, CursorPage } from "./types"
+
+/** Newest first. */
+export function listAuditLog(params: AuditLogParams = {}, signal?: AbortSignal) {
+  return request<CursorPage<AuditEntry>>("/admin/audit", { query: { ...params }, signal })
+}
+
+/** Admins that appear in the log, for the filter dropdown. */
+export function listAuditActors() {
+  return request<AuditActor[]>("/admin/audit/actors")
+}
+
+/** Every recorded event for one post, oldest first. */
+export function getPostAuditTrail(postId: number, signal?: AbortSignal) {
+  return request<AuditEntry[]>(`/admin/posts/${postId}/audit`, { signal })
+}
@@ -0,0 +1,56 @@
+import { request } from "./client"
+import type {
+  AdminUser,
+  LoginRequest,
+  LoginResponse,
+  MessageResponse,
+  RecoveryCodesResponse,
+  SessionResponse,
+  TwoFactorLoginRequest,
+  TwoFactorSetupResponse,
+} from "./types"
+
+const AUTH_URL = "/api/auth"
+
+export function login(body: LoginRequest) {
+  return request<LoginResponse>("/login", {
+    method: "POST",
+    body,
+    baseUrl: AUTH_URL,
+    ignoreUnauthorized: true,
+  })
+}
+
+export function verifyTwoFactorLogin(body: TwoFactorLoginRequest) {
+  return request<SessionResponse>("/login/verify", {
+    method: "POST",
+    body,
+    baseUrl: AUTH_URL,
+    ignoreUnauthorized: true,
+  })
+}
+
+export function logout() {
+  return request<MessageResponse>("/logout", { method: "POST", baseUrl: AUTH_URL, ignoreUnauthorized: true })
+}
+
+export function getSession() {
+  return request<SessionResponse>("/session", { baseUrl: AUTH_URL })
+}
+
+export function startTwoFactorSetup() {
+  return request<TwoFactorSetupResponse>("/2fa/setup", { method: "POST", baseUrl: AUTH_URL })
+}
+
+export function enableTwoFactor(code: string) {
+  return request<RecoveryCodesResponse & { user: AdminUser }>("/2fa/enable", {
+    method: "POST",
+    body: { code },
+    baseUrl: AUTH_URL,
+  })
+}
+
+/** Replaces all recovery codes; the backend requires a current authenticator code. */
+export function regenerateRecoveryCodes(code: string) {
+  return request<RecoveryCodesResponse>("/admin/2fa/recovery-codes", { method: "POST", body: { code } })
+}
@@ -0,0 +1,185 @@
+/** Same-origin proxy that attaches the session token; see app/api/backend. */
+export const API_URL = "/api/backend"
+
+const DEFAULT_TIMEOUT_MS = 15000
+const DEFAULT_GET_RETRIES = 2
+const RETRY_BASE_DELAY_MS = 500
+
+type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE"
+
+export interface RequestOptions {
+  method?: HttpMethod
+  body?: unknown
+  query?: Record<string, string | number | boolean | null | undefined>
+  /** Abort the request after this many milliseconds. */
+  timeout?: number
+  /** Retry attempts on network errors, timeouts and 5xx. Only honoured for GET. */
+  retries?: number
+  signal?: AbortSignal
+  /** Skip the global 401 handler, e.g. for the login call itself. */
+  ignoreUnauthorized?: boolean
+  /** Defaults to the backend proxy; auth calls go to the Next.js auth routes. */
+  baseUrl?: string
+}
+
+/**
+ * Error thrown for every failed API call. `status` is the HTTP status code, or 0
+ * when the request never got a response (network failure or timeout).
+ */
+export class ApiError extends Error {
+  readonly status: number
+  readonly data: unknown
+
+  constructor(status: number, message: string, data: unknown = null) {
+    super(message)
+    this.name = "ApiError"
+    this.status = status
+    this.data = data
+  }
+
+  get isUnauthorized() {
+    return this.status === 401
+  }
+
+  get isForbidden() {
+    return this.status === 403
+  }
+
+  get isNetworkError() {
+    return this.status === 0
+  }
+}
+
+/** Returns the backend message for an ApiError, otherwise `fallback`. */
+export function getErrorMessage(error: unknown, fallback: string) {
+  return error instanceof ApiError && error.message ? error.message : fallback
+}
+
+type UnauthorizedHandler = (error: ApiError) => void
+
+/** Sends the browser to the login page, remembering where the admin was. */
+export function redirectToLogin(reason?: "expired" | "logged_out") {
+  if (typeof window === "undefined") return
+  const params = new URLSearchParams({ next: `${window.location.pathname}${window.location.search}` })
+  if (reason) {
+    params.set("reason", reason)
+  }
+  window.location.href = `/login?${params}`
+}
+
+const defaultUnauthorizedHandler: UnauthorizedHandler = () => redirectToLogin("expired")
+
+let unauthorizedHandler: UnauthorizedHandler = defaultUnauthorizedHandler
+
+/**
+ * Replaces the handler invoked whenever the backend answers 401. Returns a
+ * function that restores the previous handler.
+ */
+export function setUnauthorizedHandler(handler: UnauthorizedHandler) {
+  const previous = unauthorizedHandler
+  unauthorizedHandler = handler
+  return () => {
+    unauthorizedHandler = previous
+  }
+}
+
+function buildUrl(baseUrl: string, path: string, query?: RequestOptions["query"]) {
+  const params = new URLSearchParams()
+  if (query) {
+    for (const [key, value] of Object.entries(query)) {
+      if (value !== undefined && value !== null && value !== "") {
+        params.set(key, String(value))
+      }
+    }
+  }
+  const search = params.toString()
+  return search ? `${baseUrl}${path}?${search}` : `${baseUrl}${path}`
+}
+
+function buildHeaders(hasBody: boolean) {
+  const headers: Record<string, string> = { Accept: "application/json" }
+  if (hasBody) {
+    headers["Content-Type"] = "application/json"
+  }
+  return headers
+}
+
+async function parseBody(response: Response) {
+  const text = await response.text()
+  if (!text) return null
+  try {
+    return JSON.parse(text)
+  } catch {
+    return text
+  }
+}
+
+function extractMessage(data: unknown, status: number) {
+  if (data && typeof data === "object" && "message" in data && typeof data.message === "string") {
+    return data.message
+  }
+  return `Request failed with status ${status}`
+}
+
+function isRetryable(error: unknown) {
+  return error instanceof ApiError && (error.status === 0 || error.status >= 500 || error.status === 429)
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+async function send<T>(path: string, options: RequestOptions): Promise<T> {
+  const { method = "GET", body, query, timeout = DEFAULT_TIMEOUT_MS, signal, baseUrl = API_URL } = options
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), timeout)
+  const abortFromCaller = () => controller.abort()
+  signal?.addEventListener("abort", abortFromCaller)
+
+  let response: Response
+  try {
+    response = await fetch(buildUrl(baseUrl, path, query), {
+      method,
+      headers: buildHeaders(body !== undefined),
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+      credentials: "same-origin",
+      cache: "no-store",
+      signal: controller.signal,
+    })
+  } catch (error) {
+    if (signal?.aborted) throw error
+    const message = controller.signal.aborted ? "Request timed out" : "Failed to connect to server"
+    throw new ApiError(0, message, error)
+  } finally {
+    clearTimeout(timeoutId)
+    signal?.removeEventListener("abort", abortFromCaller)
+  }
+
+  const data = await parseBody(response)
+  if (!response.ok) {
+    const error = new ApiError(response.status, extractMessage(data, response.status), data)
+    if (error.isUnauthorized && !options.ignoreUnauthorized) {
+      unauthorizedHandler(error)
+    }
+    throw error
+  }
+  return data as T
+}
+
+/**
+ * Performs a request against the admin API. GET requests are retried with
+ * exponential backoff on transient failures; other methods are sent once.
+ */
+export async function request<T>(path: string, options: RequestOptions = {}): Promise<T> {
+  const method = options.method ?? "GET"
+  const retries = method === "GET" ? options.retries ?? DEFAULT_GET_RETRIES : 0
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await send<T>(path, options)
+    } catch (error) {
+      if (attempt >= retries || !isRetryable(error) || options.signal?.aborted) {
+        throw error
+      }
+      await sleep(RETRY_BASE_DELAY_MS * 2 ** attempt)
+    }
+  }
+}
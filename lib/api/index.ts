@@ -0,0 +1,10 @@
+export * from "./client"
+export * from "./types"
+export * from "./auth"
+export * from "./admins"
+export * from "./posts"
+export * from "./partylists"
+export * from "./rejection-reasons"
+export * from "./screening"
+export * from "./audit"
+export * from "./registry"
@@ -0,0 +1,64 @@
+import { request } from "./client"
+import type {
+  AddPartyListMemberRequest,
+  CreatePartyListRequest,
+  CursorPage,
+  MergePartyListsRequest,
+  MessageResponse,
+  PartyList,
+  PartyListListParams,
+  PartyListMember,
+  UpdatePartyListRequest,
+} from "./types"
+
+/** Alphabetical by name. */
+export function listPartyLists(params: PartyListListParams = {}, signal?: AbortSignal) {
+  return request<CursorPage<PartyList>>("/admin/partylists", { query: { ...params }, signal })
+}
+
+export function getPartyList(partyListId: number, signal?: AbortSignal) {
+  return request<PartyList>(`/admin/partylists/${partyListId}`, { signal })
+}
+
+export function listPartyListMembers(partyListId: number, signal?: AbortSignal) {
+  return request<PartyListMember[]>(`/admin/partylists/${partyListId}/members`, { signal })
+}
+
+/** Matches names, acronyms and aliases. */
+export function searchPartyLists(query: string, signal?: AbortSignal) {
+  return request<PartyList[]>("/admin/partylists/search", { query: { q: query }, signal })
+}
+
+export function updatePartyList(partyListId: number, body: UpdatePartyListRequest) {
+  return request<PartyList>(`/admin/partylists/${partyListId}`, { method: "PUT", body })
+}
+
+export function addPartyListMember(partyListId: number, body: AddPartyListMemberRequest) {
+  return request<MessageResponse>(`/admin/partylists/${partyListId}/members`, { method: "POST", body })
+}
+
+/** The post keeps its declared `party`; it is only unlinked from the managed list. */
+export function removePartyListMember(partyListId: number, postId: number) {
+  return request<MessageResponse>(`/admin/partylists/${partyListId}/members/${postId}`, { method: "DELETE" })
+}
+
+export function createPartyList(body: CreatePartyListRequest) {
+  return request<MessageResponse>("/admin/partylists", { method: "POST", body })
+}
+
+/**
+ * Moves every member and linked post of the source lists to `survivorId`,
+ * replaces the survivor's aliases with `aliases` and deletes the sources.
+ * Returns the survivor.
+ */
+export function mergePartyLists(survivorId: number, body: MergePartyListsRequest) {
+  return request<PartyList>(`/admin/partylists/${survivorId}/merge`, { method: "POST", body })
+}
+
+export function deactivatePartyList(partyListId: number) {
+  return request<PartyList>(`/admin/partylists/${partyListId}/deactivate`, { method: "POST" })
+}
+
+export function reactivatePartyList(partyListId: number) {
+  return request<PartyList>(`/admin/partylists/${partyListId}/reactivate`, { method: "POST" })
+}
@@ -0,0 +1,104 @@
+import { API_URL, request } from "./client"
+import type {
+  CursorPage,
+  DecisionPrecondition,
+  ImageModerationRequest,
+  MessageResponse,
+  Post,
+  PostClaim,
+  PostCounts,
+  PostFacets,
+  PostListParams,
+  PostVersion,
+  RejectPostRequest,
+  RequestRevisionRequest,
+  ReverseDecisionRequest,
+} from "./types"
+
+export function listPosts(params: PostListParams = {}, signal?: AbortSignal) {
+  return request<CursorPage<Post>>("/admin/posts", { query: { ...params }, signal })
+}
+
+// Largest page `GET /admin/posts` serves
+const MAX_PAGE_SIZE = 100
+
+/** Pages through `GET /admin/posts` to the end; for lookups that must cover more than what is loaded. */
+export async function listAllPosts(params: PostListParams = {}) {
+  const posts: Post[] = []
+  let cursor: string | undefined
+  do {
+    const page = await listPosts({ ...params, cursor, per_page: MAX_PAGE_SIZE })
+    posts.push(...page.data)
+    cursor = page.next_cursor ?? undefined
+  } while (cursor)
+  return posts
+}
+
+/** Ids of every post matching `params`; for selections that must cover more than what is loaded. */
+export async function listAllPostIds(params: PostListParams = {}) {
+  return (await listAllPosts(params)).map((post) => post.id)
+}
+
+export function getPost(postId: number, signal?: AbortSignal) {
+  return request<Post>(`/admin/posts/${postId}`, { signal })
+}
+
+/** 404s when the post has never been resubmitted. */
+export function getPreviousPostVersion(postId: number, signal?: AbortSignal) {
+  return request<PostVersion>(`/admin/posts/${postId}/previous-version`, { signal })
+}
+
+/** EventSource can't go through `request`, so this opens the proxied stream directly; see `PostEvent`. */
+export function openPostEventStream() {
+  return new EventSource(`${API_URL}/admin/posts/events`)
+}
+
+export function getPostCounts() {
+  return request<PostCounts>("/admin/posts/counts")
+}
+
+export function getPostFacets() {
+  return request<PostFacets>("/admin/posts/facets")
+}
+
+export function approvePost(postId: number, body: DecisionPrecondition = {}) {
+  return request<MessageResponse>(`/admin/posts/${postId}/approve`, { method: "POST", body })
+}
+
+export function rejectPost(postId: number, body: RejectPostRequest) {
+  return request<MessageResponse>(`/admin/posts/${postId}/reject`, { method: "POST", body })
+}
+
+/** Sends the post back to the candidate with comments on the fields to fix. */
+export function requestRevision(postId: number, body: RequestRevisionRequest) {
+  return request<MessageResponse>(`/admin/posts/${postId}/request-revision`, { method: "POST", body })
+}
+
+/** Takes an approved post down: it becomes rejected with the reason as its notes. */
+export function revokeApproval(postId: number, body: ReverseDecisionRequest) {
+  return request<MessageResponse>(`/admin/posts/${postId}/revoke`, { method: "POST", body })
+}
+
+/** Sends an approved or rejected post back to the pending queue. */
+export function reopenPost(postId: number, body: ReverseDecisionRequest) {
+  return request<MessageResponse>(`/admin/posts/${postId}/reopen`, { method: "POST", body })
+}
+
+/** Deletes one campaign image while the rest of the post stays under review. */
+export function removePostImage(postId: number, body: ImageModerationRequest) {
+  return request<MessageResponse>(`/admin/posts/${postId}/images/remove`, { method: "POST", body })
+}
+
+/** Marks one campaign image as inappropriate so it is hidden from the public profile. */
+export function flagPostImage(postId: number, body: ImageModerationRequest) {
+  return request<MessageResponse>(`/admin/posts/${postId}/images/flag`, { method: "POST", body })
+}
+
+/** Takes or renews this admin's review claim; 409s with a `ClaimConflict` while someone else holds it. */
+export function claimPost(postId: number) {
+  return request<PostClaim>(`/admin/posts/${postId}/claim`, { method: "POST" })
+}
+
+export function releasePostClaim(postId: number) {
+  return request<MessageResponse>(`/admin/posts/${postId}/claim`, { method: "DELETE" })
+}
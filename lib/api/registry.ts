@@ -0,0 +1,11 @@
+import { request } from "./client"
+import type { RegistryDataset, RegistryImportRequest, RegistryKind, RegistrySummary } from "./types"
+
+export function getRegistrySummary() {
+  return request<RegistrySummary>("/admin/registry")
+}
+
+/** Replaces the stored reference set; posts and party lists are re-checked against it. */
+export function importRegistry<K extends RegistryKind>(kind: K, body: RegistryImportRequest<K>) {
+  return request<RegistryDataset>(`/admin/registry/${kind}`, { method: "PUT", body })
+}
@@ -0,0 +1,19 @@
+import { request } from "./client"
+import type { MessageResponse, RejectionReason, RejectionReasonInput } from "./types"
+
+/** Includes inactive reasons; filter on `is_active` when offering them to moderators. */
+export function listRejectionReasons() {
+  return request<RejectionReason[]>("/admin/rejection-reasons")
+}
+
+export function createRejectionReason(body: RejectionReasonInput) {
+  return request<RejectionReason>("/admin/rejection-reasons", { method: "POST", body })
+}
+
+export function updateRejectionReason(reasonId: number, body: RejectionReasonInput) {
+  return request<RejectionReason>(`/admin/rejection-reasons/${reasonId}`, { method: "PUT", body })
+}
+
+export function deleteRejectionReason(reasonId: number) {
+  return request<MessageResponse>(`/admin/rejection-reasons/${reasonId}`, { method: "DELETE" })
+}
@@ -0,0 +1,21 @@
+import { request } from "./client"
+import type { MessageResponse, ScreeningRuleConfig, ScreeningRuleInput } from "./types"
+
+/** Includes inactive rules; compile with `compileScreeningRules` before screening posts. */
+export function listScreeningRules() {
+  return request<ScreeningRuleConfig[]>("/admin/screening-rules")
+}
+
+/** Only `phrases` rules can be added; the built-in detectors always exist. */
+export function createScreeningRule(body: ScreeningRuleInput) {
+  return request<ScreeningRuleConfig>("/admin/screening-rules", { method: "POST", body })
+}
+
+export function updateScreeningRule(ruleId: number, body: ScreeningRuleInput) {
+  return request<ScreeningRuleConfig>(`/admin/screening-rules/${ruleId}`, { method: "PUT", body })
+}
+
+/** 409s for built-in detectors; deactivate those instead. */
+export function deleteScreeningRule(ruleId: number) {
+  return request<MessageResponse>(`/admin/screening-rules/${ruleId}`, { method: "DELETE" })
+}
@@ -0,0 +1,467 @@
+export type PostStatus = "pending" | "approved" | "rejected" | "needs_revision"
+
+export interface PostUser {
+  id: string
+  name: string
+  email: string
+}
+
+export interface PostEducation {
+  level: string
+  school: string
+}
+
+export interface PostImage {
+  url: string
+  caption: string
+  /** Hidden from the public profile until a moderator clears it. */
+  flagged?: boolean
+  flag_reason?: string | null
+}
+
+/**
+ * Moderator feedback pinned to one part of a submission. `field` is `bio`,
+ * `platform`, or a list entry such as `education.0`, `achievements.2` or `images.1`.
+ */
+export interface PostFieldComment {
+  field: string
+  comment: string
+}
+
+/** Where a local candidate runs, as the candidate typed it; only the parts the level needs are set. */
+export interface PostLocality {
+  region?: string | null
+  province?: string | null
+  city_municipality?: string | null
+  barangay?: string | null
+}
+
+export interface Post {
+  id: number
+  user_id: string
+  name: string
+  level: string
+  position: string
+  /** Unset for national and party-list posts. */
+  locality?: PostLocality | null
+  bio: string
+  platform: string | null
+  education: PostEducation[] | null
+  achievements: string[] | null
+  images: PostImage[] | null
+  profile_photo?: string | null
+  party?: string | null
+  party_list_managed?: boolean | null // Track if party list has been managed
+  status: PostStatus
+  admin_notes: string | null
+  /** Set while the post is `needs_revision`. */
+  revision_comments?: PostFieldComment[] | null
+  /** How many times the candidate edited the post after a rejection or revision request. */
+  resubmission_count?: number
+  resubmitted_at?: string | null
+  /** Who is reviewing the post right now, if anyone. Changes arrive as `post.updated` events. */
+  claim?: PostClaim | null
+  /** The admin behind the current status, once decided. */
+  reviewed_by?: PostUser | null
+  reviewed_at?: string | null
+  /** How the candidate and their party compare with the official registry; null until one is imported. */
+  registry_check?: RegistryCheck | null
+  user: PostUser
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * A moderator's hold on a post while they review it. The backend lets it
+ * lapse at `expires_at` unless the holder renews it.
+ */
+export interface PostClaim {
+  admin: PostUser
+  claimed_at: string
+  expires_at: string
+}
+
+/** `data` of the 409 returned when claiming a post someone else holds. */
+export interface ClaimConflict {
+  message?: string
+  claim: PostClaim
+}
+
+/**
+ * Sent with approve and reject. The backend answers 409 with a
+ * `DecisionConflict` when the post changed after this timestamp.
+ */
+export interface DecisionPrecondition {
+  expected_updated_at?: string
+}
+
+/** `data` of a 409 from approve or reject: the post as another admin left it. */
+export interface DecisionConflict {
+  message?: string
+  post: Post
+}
+
+/** The post as it was when last reviewed, before the candidate resubmitted. */
+export interface PostVersion {
+  version: number
+  name: string
+  level: string
+  position: string
+  bio: string
+  platform: string | null
+  education: PostEducation[] | null
+  achievements: string[] | null
+  images: PostImage[] | null
+  party?: string | null
+  /** The decision the candidate was responding to. */
+  status: PostStatus
+  admin_notes: string | null
+  revision_comments?: PostFieldComment[] | null
+  reviewed_at: string | null
+}
+
+/** Query accepted by `GET /admin/posts`; mirrors the dashboard filters. */
+export interface PostListParams {
+  status?: PostStatus
+  q?: string
+  level?: string
+  position?: string
+  party?: string
+  party_list_managed?: "managed" | "unmanaged"
+  /** Exact matches on the post's locality parts. */
+  region?: string
+  province?: string
+  city_municipality?: string
+  barangay?: string
+  /** Inclusive `YYYY-MM-DD` bounds on `created_at`. */
+  from?: string
+  to?: string
+  /** `risk` ranks by the pre-screening score, which the backend computes with the configured rules. */
+  sort?: "newest" | "oldest" | "oldest_pending" | "name" | "risk"
+  cursor?: string
+  per_page?: number
+}
+
+export interface CursorPage<T> {
+  data: T[]
+  /** Opaque cursor for the next page, null on the last page. */
+  next_cursor: string | null
+}
+
+export type PostEventType = "post.created" | "post.updated" | "post.decided"
+
+/**
+ * Pushed on the `GET /admin/posts/events` Server-Sent Events stream. The SSE
+ * event name is `type`; the data is `{ "post": Post }` with the post as it is now.
+ */
+export interface PostEvent {
+  type: PostEventType
+  post: Post
+}
+
+export interface PostCounts {
+  total: number
+  pending: number
+  approved: number
+  rejected: number
+  needs_revision: number
+}
+
+/** Distinct values available for the facet dropdowns. */
+export interface PostFacets {
+  levels: string[]
+  positions: string[]
+  parties: string[]
+}
+
+export interface PartyList {
+  id: number
+  name: string
+  acronym?: string | null
+  sector?: string | null
+  logo_url?: string | null
+  platform?: string[] | null
+  /** Names of party lists merged into this one; search and matching treat them like the name. */
+  aliases?: string[]
+  member_count?: number
+  /** Null until the official party-list registry is imported. */
+  registry_status?: RegistryStatus | null
+  /** Inactive lists keep their members but can't be picked for new posts. */
+  is_active?: boolean
+}
+
+/** A post that belongs to a party list, as listed on the party list's page. */
+export interface PartyListMember {
+  post_id: number
+  name: string
+  position: string
+  level: string
+  status: PostStatus
+  profile_photo?: string | null
+  added_at: string
+}
+
+/** Query accepted by `GET /admin/partylists`. */
+export interface PartyListListParams {
+  q?: string
+  /** Omit for both. */
+  is_active?: boolean
+  cursor?: string
+  per_page?: number
+}
+
+export type AdminRole = "viewer" | "moderator" | "partylist_manager" | "super_admin"
+
+export interface AdminUser {
+  id: string
+  name: string
+  email: string
+  roles: AdminRole[]
+  two_factor_enabled: boolean
+}
+
+export interface LoginRequest {
+  email: string
+  password: string
+}
+
+/** Raw `/admin/login` payload; only the Next.js login route sees the token. */
+export interface BackendLoginResponse {
+  message?: string
+  user: AdminUser
+  token: string
+  /** Token lifetime in seconds. */
+  expires_in?: number
+}
+
+/** `/admin/login` answer for admins with 2FA: the password was right, a code is still needed. */
+export interface BackendTwoFactorChallenge {
+  two_factor_required: true
+  challenge_token: string
+  message?: string
+}
+
+export interface SessionResponse {
+  user: AdminUser
+  expires_at: string
+}
+
+export interface TwoFactorRequiredResponse {
+  two_factor_required: true
+}
+
+export type LoginResponse = SessionResponse | TwoFactorRequiredResponse
+
+/** Second login step; send either the authenticator code or a recovery code. */
+export type TwoFactorLoginRequest = { code: string } | { recovery_code: string }
+
+export interface TwoFactorSetupResponse {
+  secret: string
+  otpauth_url: string
+  /** PNG data URL of the otpauth URI, rendered on the server. */
+  qr_code: string
+}
+
+export interface RecoveryCodesResponse {
+  recovery_codes: string[]
+}
+
+export type AuditAction =
+  | "post.approved"
+  | "post.rejected"
+  | "post.notes_updated"
+  | "post.reopened"
+  | "post.approval_revoked"
+  | "post.revision_requested"
+  | "post.image_removed"
+  | "post.image_flagged"
+  | "partylist.member_added"
+  | "partylist.created"
+  | "partylist.updated"
+  | "partylist.member_removed"
+  | "partylist.deactivated"
+  | "partylist.reactivated"
+  | "partylist.merged"
+  | "registry.imported"
+
+export interface AuditActor {
+  id: string
+  name: string
+  email: string
+}
+
+/** One moderation event, written by the backend as the action happens. */
+export interface AuditEntry {
+  id: number
+  action: AuditAction
+  /** Null for changes made by the system rather than an admin. */
+  actor: AuditActor | null
+  post_id: number | null
+  post_name?: string | null
+  party_list_id?: number | null
+  party_list_name?: string | null
+  /** Rejection reason or the new admin notes, when the action carried any. */
+  notes: string | null
+  from_status?: PostStatus | null
+  to_status?: PostStatus | null
+  created_at: string
+}
+
+/** Query accepted by `GET /admin/audit`. */
+export interface AuditLogParams {
+  actor_id?: string
+  action?: AuditAction
+  post_id?: number
+  /** Inclusive `YYYY-MM-DD` bounds on `created_at`. */
+  from?: string
+  to?: string
+  cursor?: string
+  per_page?: number
+}
+
+export interface RejectPostRequest extends DecisionPrecondition {
+  admin_notes: string
+  /** Codes of the canned reasons the moderator picked, for reporting. */
+  reason_codes?: string[]
+}
+
+/** Entry in the admin-managed library of canned rejection reasons. */
+export interface RejectionReason {
+  id: number
+  /** Stable identifier sent with rejections, e.g. `incomplete_education`. */
+  code: string
+  category: string
+  label: string
+  /** Candidate-facing explanation copied into `admin_notes`. */
+  message: string
+  /** Inactive reasons stay on old rejections but can't be picked anymore. */
+  is_active: boolean
+}
+
+export interface RejectionReasonInput {
+  code: string
+  category: string
+  label: string
+  message: string
+  is_active: boolean
+}
+
+export type ScreeningSeverity = "low" | "medium" | "high"
+
+/** `phrases` matches the rule's own word list; the others are built-in detectors. */
+export type ScreeningDetector = "phrases" | "vote_buying_amount" | "email" | "link" | "phone" | "all_caps"
+
+/** A pre-screening rule as stored by the backend, which also scores posts with it for the risk sort. */
+export interface ScreeningRuleConfig {
+  id: number
+  /** Stable identifier, e.g. `profanity`. */
+  code: string
+  label: string
+  severity: ScreeningSeverity
+  detector: ScreeningDetector
+  /** Words and phrases matched as whole words; empty for built-in detectors. */
+  phrases: string[]
+  is_active: boolean
+}
+
+export type ScreeningRuleInput = Omit<ScreeningRuleConfig, "id">
+
+export interface RequestRevisionRequest {
+  comments: PostFieldComment[]
+  /** Optional overall note shown above the field comments. */
+  admin_notes?: string
+}
+
+/** Body for removing or flagging one campaign image; images are identified by URL. */
+export interface ImageModerationRequest {
+  url: string
+  /** Required; recorded in the audit log and shown to the candidate. */
+  reason: string
+}
+
+/** Body for revoking an approval or reopening a decided post. */
+export interface ReverseDecisionRequest {
+  /** Required; recorded in the audit log and shown to the candidate as `admin_notes`. */
+  reason: string
+}
+
+export interface AddPartyListMemberRequest {
+  post_id: number
+}
+
+export interface CreatePartyListRequest {
+  name: string
+  post_id: number
+  platform: string[]
+}
+
+export interface UpdatePartyListRequest {
+  name: string
+  acronym: string | null
+  logo_url: string | null
+  platform: string[]
+}
+
+/** Merges `source_ids` into the surviving list, which takes the given details. */
+export interface MergePartyListsRequest extends UpdatePartyListRequest {
+  source_ids: number[]
+  /** The survivor's full alias list afterwards, as previewed: every old name but the kept one. */
+  aliases: string[]
+}
+
+/** The official election lists, imported from COMELEC exports as a reference set. */
+export type RegistryKind = "party_lists" | "candidates"
+
+/** Matched by the backend against the last import, ignoring case, spacing and punctuation. */
+export type RegistryStatus = "verified" | "not_found"
+
+export interface RegistryCheck {
+  candidate: RegistryStatus
+  /** Null when the post declares no party. */
+  party?: RegistryStatus | null
+}
+
+export interface RegistryPartyListRow {
+  name: string
+  acronym?: string | null
+  sector?: string | null
+}
+
+export interface RegistryCandidateRow {
+  name: string
+  position: string
+  level: string
+  party?: string | null
+  /** Region, province, city or barangay the candidate runs in; empty for national posts. */
+  locality?: string | null
+}
+
+export interface RegistryRows {
+  party_lists: RegistryPartyListRow
+  candidates: RegistryCandidateRow
+}
+
+/** Replaces the whole reference set of that kind. */
+export interface RegistryImportRequest<K extends RegistryKind> {
+  /** File name the rows came from, shown as the data source. */
+  source: string
+  rows: Array<RegistryRows[K]>
+}
+
+export interface RegistryDataset {
+  count: number
+  source: string
+  imported_at: string
+  imported_by: PostUser | null
+}
+
+/** Null for a kind that was never imported. */
+export interface RegistrySummary {
+  party_lists: RegistryDataset | null
+  candidates: RegistryDataset | null
+}
+
+/** Generic `{ message }` envelope returned by mutation endpoints. */
+export interface MessageResponse {
+  message?: string
+}
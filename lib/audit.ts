@@ -0,0 +1,46 @@
+import type { AuditAction, AuditEntry } from "@/lib/api/types"
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  "post.approved": "Approved",
+  "post.rejected": "Rejected",
+  "post.notes_updated": "Updated notes",
+  "post.reopened": "Reopened",
+  "post.approval_revoked": "Revoked approval",
+  "post.revision_requested": "Requested revision",
+  "post.image_removed": "Removed image",
+  "post.image_flagged": "Flagged image",
+  "partylist.member_added": "Added to party list",
+  "partylist.created": "Created party list",
+  "partylist.updated": "Edited party list",
+  "partylist.member_removed": "Removed from party list",
+  "partylist.deactivated": "Deactivated party list",
+  "partylist.reactivated": "Reactivated party list",
+  "partylist.merged": "Merged party lists",
+  "registry.imported": "Imported official registry",
+}
+
+export const AUDIT_ACTIONS = Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]
+
+/** Tailwind classes for the action badge. */
+export const AUDIT_ACTION_STYLES: Record<AuditAction, string> = {
+  "post.approved": "bg-green-100 text-green-800",
+  "post.rejected": "bg-red-100 text-red-800",
+  "post.notes_updated": "bg-gray-100 text-gray-800",
+  "post.reopened": "bg-yellow-100 text-yellow-800",
+  "post.approval_revoked": "bg-orange-100 text-orange-800",
+  "post.revision_requested": "bg-orange-100 text-orange-800",
+  "post.image_removed": "bg-red-100 text-red-800",
+  "post.image_flagged": "bg-amber-100 text-amber-800",
+  "partylist.member_added": "bg-blue-100 text-blue-800",
+  "partylist.created": "bg-blue-100 text-blue-800",
+  "partylist.updated": "bg-gray-100 text-gray-800",
+  "partylist.member_removed": "bg-red-100 text-red-800",
+  "partylist.deactivated": "bg-gray-100 text-gray-800",
+  "partylist.reactivated": "bg-blue-100 text-blue-800",
+  "partylist.merged": "bg-purple-100 text-purple-800",
+  "registry.imported": "bg-teal-100 text-teal-800",
+}
+
+export function describeActor(entry: AuditEntry) {
+  return entry.actor ? entry.actor.name : "System"
+}
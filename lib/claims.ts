@@ -0,0 +1,43 @@
+import { ApiError, type ClaimConflict, type DecisionConflict, type Post, type PostClaim } from "@/lib/api"
+import { STATUS_LABELS } from "@/lib/post-filters"
+
+/** The claim on `post` when another admin holds it and it hasn't lapsed. */
+export function getForeignClaim(post: Post, viewerId: string | undefined): PostClaim | null {
+  const claim = post.claim
+  if (!claim || claim.admin.id === viewerId || new Date(claim.expires_at).getTime() <= Date.now()) {
+    return null
+  }
+  return claim
+}
+
+/** Asks before deciding a post someone else is reviewing; true when it is fine to go ahead. */
+export function confirmClaimedAction(post: Post, viewerId: string | undefined) {
+  const claim = getForeignClaim(post, viewerId)
+  return !claim || confirm(`${claim.admin.name} is reviewing "${post.name}" right now. Decide it anyway?`)
+}
+
+/** The claim that blocked `claimPost`, if that is why it failed. */
+export function getClaimConflict(error: unknown): PostClaim | null {
+  if (error instanceof ApiError && error.status === 409) {
+    return (error.data as ClaimConflict | null)?.claim ?? null
+  }
+  return null
+}
+
+/** The post as another admin left it, when a decision failed because it had changed. */
+export function getDecisionConflict(error: unknown): Post | null {
+  if (error instanceof ApiError && error.status === 409) {
+    return (error.data as DecisionConflict | null)?.post ?? null
+  }
+  return null
+}
+
+/** e.g. "Ana Reyes already rejected this post at 3:04 PM: "Blurry photo"". */
+export function describeDecisionConflict(post: Post) {
+  const who = post.reviewed_by?.name ?? "Another admin"
+  const when = post.reviewed_at ? ` at ${new Date(post.reviewed_at).toLocaleString()}` : ""
+  const notes = post.status !== "approved" && post.admin_notes ? `: "${post.admin_notes}"` : ""
+  return post.status === "pending"
+    ? `${who} changed this post${when} and it is pending again. Review it before deciding.`
+    : `${who} already marked this post ${STATUS_LABELS[post.status].toLowerCase()}${when}${notes}`
+}
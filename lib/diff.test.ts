@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest"
+import { diffList, diffWords } from "@/lib/diff"
+
+describe("diffWords", () => {
+  it("marks changed words and keeps the rest equal", () => {
+    expect(diffWords("Free tuition for all", "Free tuition and meals for all")).toEqual([
+      { op: "equal", text: "Free tuition " },
+      { op: "added", text: "and meals " },
+      { op: "equal", text: "for all" },
+    ])
+    expect(diffWords("Build roads", "Build bridges")).toEqual([
+      { op: "equal", text: "Build " },
+      { op: "removed", text: "roads" },
+      { op: "added", text: "bridges" },
+    ])
+  })
+
+  it("handles empty and unchanged text", () => {
+    expect(diffWords("", "")).toEqual([])
+    expect(diffWords("", "New bio")).toEqual([{ op: "added", text: "New bio" }])
+    expect(diffWords("Old bio", "")).toEqual([{ op: "removed", text: "Old bio" }])
+    expect(diffWords("Same\ntext", "Same\ntext")).toEqual([{ op: "equal", text: "Same\ntext" }])
+  })
+
+  it("replaces the whole text when the inputs are too long to compare word by word", () => {
+    const before = "a ".repeat(1500)
+    const after = "b ".repeat(1500)
+    expect(diffWords(before, after)).toEqual([
+      { op: "removed", text: before },
+      { op: "added", text: after },
+    ])
+  })
+})
+
+describe("diffList", () => {
+  it("matches items by key regardless of order and lists removed ones last", () => {
+    const before = [{ school: "UP" }, { school: "ADMU" }]
+    const after = [{ school: "ADMU" }, { school: "DLSU" }]
+    expect(diffList(before, after, (item) => item.school)).toEqual([
+      { op: "equal", item: { school: "ADMU" } },
+      { op: "added", item: { school: "DLSU" } },
+      { op: "removed", item: { school: "UP" } },
+    ])
+  })
+})
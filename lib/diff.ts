@@ -0,0 +1,81 @@
+export type DiffOp = "equal" | "added" | "removed"
+
+export interface DiffPart {
+  op: DiffOp
+  text: string
+}
+
+// Beyond this many cells the LCS table gets too slow; fall back to a whole-text replace
+const MAX_DIFF_CELLS = 4_000_000
+
+function tokenize(text: string) {
+  return text.split(/(\s+)/).filter((token) => token !== "")
+}
+
+function pushPart(parts: DiffPart[], op: DiffOp, text: string) {
+  const last = parts[parts.length - 1]
+  if (last && last.op === op) {
+    last.text += text
+  } else {
+    parts.push({ op, text })
+  }
+}
+
+/** Word-level diff (longest common subsequence) with whitespace kept as its own tokens. */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = tokenize(before)
+  const b = tokenize(after)
+  const parts: DiffPart[] = []
+
+  if ((a.length + 1) * (b.length + 1) > MAX_DIFF_CELLS) {
+    if (before) parts.push({ op: "removed", text: before })
+    if (after) parts.push({ op: "added", text: after })
+    return parts
+  }
+
+  // lengths[i * width + j] = LCS length of a[i..] and b[j..]
+  const width = b.length + 1
+  const lengths = new Uint32Array((a.length + 1) * width)
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = a[i] === b[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1])
+    }
+  }
+
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pushPart(parts, "equal", a[i])
+      i++
+      j++
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      pushPart(parts, "removed", a[i++])
+    } else {
+      pushPart(parts, "added", b[j++])
+    }
+  }
+  while (i < a.length) pushPart(parts, "removed", a[i++])
+  while (j < b.length) pushPart(parts, "added", b[j++])
+  return parts
+}
+
+export interface ListDiffEntry<T> {
+  op: DiffOp
+  item: T
+}
+
+/**
+ * Entries of `after` marked equal or added, followed by the ones that only
+ * existed in `before`. Items are matched by `key`, so reordering isn't a change.
+ */
+export function diffList<T>(before: T[], after: T[], key: (item: T) => string): ListDiffEntry<T>[] {
+  const beforeKeys = new Set(before.map(key))
+  const afterKeys = new Set(after.map(key))
+  return [
+    ...after.map((item) => ({ op: (beforeKeys.has(key(item)) ? "equal" : "added") as DiffOp, item })),
+    ...before.filter((item) => !afterKeys.has(key(item))).map((item) => ({ op: "removed" as DiffOp, item })),
+  ]
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest"
+import type { Post, PostStatus } from "@/lib/api"
+import { compareNames, editDistance, findDuplicates, normalizeNameTokens, phoneticKey } from "@/lib/duplicates"
+
+function makePost(id: number, name: string, overrides: Partial<Post> = {}): Post {
+  return {
+    id,
+    user_id: `u${id}`,
+    name,
+    level: "Municipal",
+    position: "Mayor",
+    bio: "",
+    platform: null,
+    education: null,
+    achievements: null,
+    images: null,
+    status: "pending",
+    admin_notes: null,
+    user: { id: `u${id}`, name, email: `u${id}@example.com` },
+    created_at: "2025-01-01T00:00:00Z",
+    updated_at: "2025-01-01T00:00:00Z",
+    ...overrides,
+  }
+}
+
+describe("normalizeNameTokens", () => {
+  it("drops titles, accents and middle initials and glues surname particles", () => {
+    expect(normalizeNameTokens("Atty. Juan P. Dela Cruz Jr.")).toEqual(["juan", "delacruz"])
+    expect(normalizeNameTokens("José de los Santos")).toEqual(["jose", "delossantos"])
+    expect(normalizeNameTokens("Ma. Cristina Santos-Reyes")).toEqual(["maria", "cristina", "santos", "reyes"])
+  })
+})
+
+describe("phoneticKey", () => {
+  const cases: Array<[string, string]> = [
+    ["cristina", "kristina"],
+    ["jhon", "jon"],
+    ["vilma", "bilma"],
+    ["rosie", "rosy"],
+    ["philip", "filip"],
+  ]
+
+  it.each(cases)("treats %s and %s alike", (a, b) => {
+    expect(phoneticKey(a)).toBe(phoneticKey(b))
+  })
+})
+
+describe("editDistance", () => {
+  it("counts a swap of neighbouring letters as one edit", () => {
+    expect(editDistance("shiela", "sheila")).toBe(1)
+    expect(editDistance("kitten", "sitting")).toBe(3)
+    expect(editDistance("", "abc")).toBe(3)
+  })
+})
+
+describe("compareNames", () => {
+  const cases: Array<[string, string, string | null]> = [
+    ["Juan Dela Cruz", "Dela Cruz, Juan", "exact"],
+    ["Atty. Juan Dela Cruz Jr.", "juan delacruz", "exact"],
+    ["Cristina Reyes", "Kristina Reyes", "exact"],
+    ["Sheila Mae Santos", "Shiela Mae Santos", "likely"],
+    ["Juan Cruz", "Juan Miguel Dela Cruz", "possible"],
+    ["Juan Dela Cruz", "Maria Santos", null],
+    ["Ana Reyes", "Ina Reyes", null],
+  ]
+
+  it.each(cases)("rates %s against %s as %s", (a, b, confidence) => {
+    expect(compareNames(a, b)?.confidence ?? null).toBe(confidence)
+  })
+})
+
+describe("findDuplicates", () => {
+  it("only compares the same race, skips rejected posts and lists approved ones first", () => {
+    const post = makePost(1, "Juan Dela Cruz")
+    const pool = [
+      post,
+      makePost(2, "Juan dela Cruz"),
+      makePost(3, "Juan Dela Cruz", { status: "approved" as PostStatus }),
+      makePost(4, "Juan Dela Cruz", { status: "rejected" as PostStatus }),
+      makePost(5, "Juan Dela Cruz", { position: "Vice Mayor" }),
+      makePost(6, "Juan Dela Cruz", { user_id: "u1" }),
+    ]
+    const matches = findDuplicates(post, pool)
+    expect(matches.map((match) => match.post.id)).toEqual([3, 2, 6])
+    expect(matches.map((match) => match.sameSubmitter)).toEqual([false, false, true])
+  })
+})
@@ -0,0 +1,187 @@
+import type { Post } from "@/lib/api"
+
+export type DuplicateConfidence = "exact" | "likely" | "possible"
+
+export interface DuplicateMatch {
+  post: Post
+  confidence: DuplicateConfidence
+  /** 0–1 name similarity. */
+  score: number
+  /** Both posts came from the same account, i.e. an accidental double submission rather than impersonation. */
+  sameSubmitter: boolean
+}
+
+export const DUPLICATE_CONFIDENCE_LABELS: Record<DuplicateConfidence, string> = {
+  exact: "Same name",
+  likely: "Very similar name",
+  possible: "Partial name match",
+}
+
+// Dropped before comparing: "Atty. Juan Dela Cruz Jr." and "Juan dela Cruz" are the same person
+const TITLES = new Set([
+  "atty", "dr", "dra", "engr", "arch", "prof", "hon", "gov", "vgov", "mayor", "vmayor", "vice",
+  "kap", "kapitan", "kgd", "kagawad", "konsehal", "coun", "sen", "rep", "cong", "gen", "col", "ret",
+  "mr", "mrs", "ms", "jr", "sr", "ii", "iii", "iv",
+])
+
+// Surname particles are glued to the next word so "De la Cruz", "Dela Cruz" and "Delacruz" agree
+const PARTICLES = new Set(["de", "del", "dela", "della", "delos", "delas", "la", "las", "los", "san", "santa", "santo", "di", "y"])
+
+const ABBREVIATIONS: Record<string, string> = {
+  ma: "maria",
+  sta: "santa",
+  sto: "santo",
+}
+
+/** Lowercase words with accents, punctuation, titles and middle initials removed. */
+export function normalizeNameTokens(name: string) {
+  const words = name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z\s-]/g, " ")
+    .split(/[\s-]+/)
+    .filter((word) => word !== "")
+    .map((word) => ABBREVIATIONS[word] ?? word)
+    .filter((word) => !TITLES.has(word))
+
+  const tokens: string[] = []
+  let prefix = ""
+  words.forEach((word, idx) => {
+    if (PARTICLES.has(word) && idx < words.length - 1) {
+      prefix += word
+      return
+    }
+    const token = prefix + word
+    prefix = ""
+    // Middle initials are too ambiguous to compare
+    if (token.length > 1) {
+      tokens.push(token)
+    }
+  })
+  return tokens
+}
+
+/** Collapses spelling variants common in Filipino names: Cristina/Kristina, Jhon/Jon, Vilma/Bilma, Rosy/Rosie. */
+export function phoneticKey(token: string) {
+  return token
+    .replace(/ph/g, "f")
+    .replace(/qu/g, "k")
+    .replace(/c(?=[eiy])/g, "s")
+    .replace(/c/g, "k")
+    .replace(/v/g, "b")
+    .replace(/z/g, "s")
+    .replace(/(?!^)h/g, "")
+    .replace(/y/g, "i")
+    .replace(/ie$/, "i")
+    .replace(/(.)\1+/g, "$1")
+}
+
+// Edit distance counting a swap of neighbouring letters as one edit ("Shiela"/"Sheila")
+export function editDistance(a: string, b: string) {
+  let beforePrevious: number[] = []
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      )
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1)
+      }
+    }
+    beforePrevious = previous
+    previous = current
+  }
+  return previous[b.length]
+}
+
+function tokenSimilarity(a: string, b: string) {
+  if (a === b) return 1
+  // Short tokens differ by a letter too easily ("ana"/"ina") to count as a typo
+  if (Math.min(a.length, b.length) < 4) return 0
+  // A surname written with and without its particle: "Cruz" vs "Delacruz"
+  if (a.endsWith(b) || b.endsWith(a)) return 0.9
+  return 1 - editDistance(a, b) / Math.max(a.length, b.length)
+}
+
+const TOKEN_MATCH_THRESHOLD = 0.75
+const LIKELY_THRESHOLD = 0.85
+
+/**
+ * Compares two candidate names regardless of word order ("Dela Cruz, Juan"),
+ * accents, titles, middle initials and common spelling variants.
+ */
+export function compareNames(a: string, b: string): { confidence: DuplicateConfidence; score: number } | null {
+  const left = normalizeNameTokens(a).map(phoneticKey)
+  const right = normalizeNameTokens(b).map(phoneticKey)
+  if (left.length === 0 || right.length === 0) return null
+
+  if (left.slice().sort().join(" ") === right.slice().sort().join(" ")) {
+    return { confidence: "exact", score: 1 }
+  }
+
+  // Greedily pair each token with its most similar unused counterpart
+  const unused = right.slice()
+  let matched = 0
+  let total = 0
+  left.forEach((token) => {
+    let best = -1
+    let bestScore = 0
+    unused.forEach((candidate, idx) => {
+      const similarity = tokenSimilarity(token, candidate)
+      if (similarity > bestScore) {
+        best = idx
+        bestScore = similarity
+      }
+    })
+    if (best >= 0 && bestScore >= TOKEN_MATCH_THRESHOLD) {
+      matched++
+      total += bestScore
+      unused.splice(best, 1)
+    }
+  })
+
+  const score = (2 * total) / (left.length + right.length)
+  if (score >= LIKELY_THRESHOLD) {
+    return { confidence: "likely", score }
+  }
+  // "Juan Cruz" vs "Juan Miguel Dela Cruz": every word of the shorter name is in the longer one
+  if (matched >= 2 && matched === Math.min(left.length, right.length)) {
+    return { confidence: "possible", score }
+  }
+  return null
+}
+
+function normalizeLabel(value: string | null | undefined) {
+  return (value ?? "").trim().toLowerCase()
+}
+
+/**
+ * Other posts running for the same position and level under a matching name.
+ * Rejected posts are ignored; approved ones sort first since they are the
+ * established candidates a newcomer would be impersonating.
+ */
+export function findDuplicates(post: Post, pool: Post[]): DuplicateMatch[] {
+  const matches: DuplicateMatch[] = []
+  pool.forEach((other) => {
+    if (
+      other.id === post.id ||
+      other.status === "rejected" ||
+      normalizeLabel(other.level) !== normalizeLabel(post.level) ||
+      normalizeLabel(other.position) !== normalizeLabel(post.position)
+    ) {
+      return
+    }
+    const result = compareNames(post.name, other.name)
+    if (result) {
+      matches.push({ post: other, ...result, sameSubmitter: other.user_id === post.user_id })
+    }
+  })
+  return matches.sort(
+    (a, b) => Number(b.post.status === "approved") - Number(a.post.status === "approved") || b.score - a.score
+  )
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest"
+import type { PartyList } from "@/lib/api"
+import {
+  partyListCoreTokens,
+  rankPartyListMatches,
+  scorePartyListMatch,
+  suggestionQueries,
+} from "@/lib/partylist-matching"
+
+function makePartyList(id: number, name: string, overrides: Partial<PartyList> = {}): PartyList {
+  return { id, name, ...overrides }
+}
+
+describe("partyListCoreTokens", () => {
+  it("drops decoration and connectors but keeps a name made only of them", () => {
+    expect(partyListCoreTokens("AKBAYAN Citizens' Action Party")).toEqual(["akbayan", "citizens", "action"])
+    expect(partyListCoreTokens("Kabataan Partylist")).toEqual(["kabataan"])
+    expect(partyListCoreTokens("The Party")).toEqual(["the"])
+  })
+})
+
+describe("scorePartyListMatch", () => {
+  const actCis = makePartyList(1, "Anti-Crime and Terrorism Community Involvement and Support", { acronym: "ACT-CIS" })
+  const kabataan = makePartyList(2, "Kabataan")
+  const cases: Array<[string, PartyList, string, number]> = [
+    ["KABATAAN Party-list", kabataan, "name", 1],
+    ["ACT CIS", actCis, "acronym", 0.95],
+    ["Kabataan Youth Sector", kabataan, "contains", 0.85],
+    ["Kabatan", kabataan, "spelling", 1 - 1 / 8],
+  ]
+
+  it.each(cases)("matches %s by %s", (declared, partyList, reason, score) => {
+    const match = scorePartyListMatch(declared, partyList)
+    expect(match.reason).toBe(reason)
+    expect(match.score).toBeCloseTo(score)
+  })
+
+  it("reports the alias that matched better than the name", () => {
+    const merged = makePartyList(3, "Bayan Muna", { aliases: ["Bayan Muna Partylist Coalition", "BAYAN"] })
+    expect(scorePartyListMatch("Bayan", merged)).toMatchObject({ score: 1, reason: "name", alias: "BAYAN" })
+  })
+})
+
+describe("rankPartyListMatches", () => {
+  it("keeps active matches above the threshold, strongest and then largest first", () => {
+    const candidates = [
+      makePartyList(1, "Gabriela", { member_count: 2 }),
+      makePartyList(2, "GABRIELA Party", { member_count: 10 }),
+      makePartyList(3, "Gabriela Women's Party", { member_count: 50 }),
+      makePartyList(4, "Gabriela", { is_active: false }),
+      makePartyList(5, "Akbayan"),
+    ]
+    expect(rankPartyListMatches("Gabriela", candidates).map((match) => match.partyList.id)).toEqual([2, 1, 3])
+  })
+})
+
+describe("suggestionQueries", () => {
+  it("searches the party as typed plus its distinctive words", () => {
+    expect(suggestionQueries(" Ako Bicol Party-list ")).toEqual(["Ako Bicol Party-list", "ako", "bicol"])
+    expect(suggestionQueries("")).toEqual([])
+  })
+})
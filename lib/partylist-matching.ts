@@ -0,0 +1,136 @@
+import type { PartyList } from "@/lib/api"
+import { editDistance } from "@/lib/duplicates"
+
+/** Why a party list was suggested, strongest first. */
+export type PartyListMatchReason = "name" | "acronym" | "contains" | "spelling"
+
+export interface PartyListMatch {
+  partyList: PartyList
+  /** 0–1; see `scorePartyListMatch`. */
+  score: number
+  reason: PartyListMatchReason
+  /** The merged-away name that matched, when it scored better than the current name. */
+  alias?: string
+}
+
+export const PARTY_LIST_MATCH_REASONS: Record<PartyListMatchReason, string> = {
+  name: "Same name",
+  acronym: "Acronym match",
+  contains: "One name contains the other",
+  spelling: "Similar spelling",
+}
+
+/** Creating a new list next to a match this close almost always splits one party in two. */
+export const CLOSE_MATCH_THRESHOLD = 0.8
+const SUGGESTION_THRESHOLD = 0.7
+const MAX_SUGGESTIONS = 5
+
+// Decoration candidates add to the registered name: "AKBAYAN Party", "Kabataan Partylist"
+const GENERIC_WORDS = new Set(["party", "partylist", "partido", "list", "coalition", "movement", "inc", "incorporated"])
+// Skipped when spelling out an acronym: "Anti-Crime and Terrorism..." -> ACT
+const CONNECTORS = new Set(["and", "of", "for", "the", "in", "through", "ng", "sa", "mga", "at", "para"])
+
+function toTokens(value: string) {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/['’]/g, "")
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token !== "")
+}
+
+/** The words that identify the party: no decoration, no connectors. */
+export function partyListCoreTokens(value: string) {
+  const tokens = toTokens(value).filter((token) => !GENERIC_WORDS.has(token))
+  const core = tokens.filter((token) => !CONNECTORS.has(token))
+  // "Party of the Philippines" without its decoration is still a name
+  return core.length > 0 ? core : tokens
+}
+
+function initials(tokens: string[]) {
+  return tokens.map((token) => token[0]).join("")
+}
+
+function acronymKeys(name: string) {
+  const tokens = toTokens(name).filter((token) => !GENERIC_WORDS.has(token))
+  return [initials(tokens), initials(tokens.filter((token) => !CONNECTORS.has(token)))].filter((key) => key.length >= 2)
+}
+
+function matchesAcronym(declared: string, name: string, acronym: string) {
+  const declaredKey = partyListCoreTokens(declared).join("")
+  if (acronym && (declaredKey === acronym || partyListCoreTokens(declared)[0] === acronym)) {
+    return true
+  }
+  // The candidate spelled out a list registered by its acronym, or the other way round
+  return (
+    (acronym !== "" && acronymKeys(declared).includes(acronym)) ||
+    acronymKeys(name).includes(declaredKey)
+  )
+}
+
+function spellingSimilarity(a: string, b: string) {
+  if (a === "" || b === "") return 0
+  return 1 - editDistance(a, b) / Math.max(a.length, b.length)
+}
+
+function scoreName(declared: string, name: string, acronymText?: string | null): Omit<PartyListMatch, "partyList"> {
+  const declaredTokens = partyListCoreTokens(declared)
+  const nameTokens = partyListCoreTokens(name)
+  const declaredKey = declaredTokens.join("")
+  const nameKey = nameTokens.join("")
+  const acronym = acronymText ? toTokens(acronymText).join("") : ""
+
+  if (declaredKey !== "" && declaredKey === nameKey) {
+    return { score: 1, reason: "name" }
+  }
+  if (matchesAcronym(declared, name, acronym)) {
+    return { score: 0.95, reason: "acronym" }
+  }
+
+  const [shorter, longer] = declaredTokens.length <= nameTokens.length ? [declaredTokens, nameTokens] : [nameTokens, declaredTokens]
+  if (shorter.length > 0 && shorter.every((token) => longer.includes(token))) {
+    return { score: shorter[0] === longer[0] ? 0.85 : 0.75, reason: "contains" }
+  }
+
+  const score = Math.max(spellingSimilarity(declaredKey, nameKey), spellingSimilarity(declaredKey, acronym))
+  return { score, reason: "spelling" }
+}
+
+/**
+ * How likely the free-text `declared` party names `partyList`, ignoring case,
+ * punctuation, accents and decoration such as "Party" or "Partylist". Same
+ * name scores 1, an acronym match 0.95, a name that contains the other from
+ * its first word 0.85 (otherwise 0.75), and anything else the spelling
+ * similarity to the name or acronym. Aliases count as names.
+ */
+export function scorePartyListMatch(declared: string, partyList: PartyList): PartyListMatch {
+  let best: PartyListMatch = { partyList, ...scoreName(declared, partyList.name, partyList.acronym) }
+  for (const alias of partyList.aliases ?? []) {
+    const match = scoreName(declared, alias)
+    if (match.score > best.score) {
+      best = { partyList, ...match, alias }
+    }
+  }
+  return best
+}
+
+/** The best active matches for `declared`, strongest first. */
+export function rankPartyListMatches(declared: string, candidates: PartyList[]) {
+  return candidates
+    .filter((partyList) => partyList.is_active !== false)
+    .map((partyList) => scorePartyListMatch(declared, partyList))
+    .filter((match) => match.score >= SUGGESTION_THRESHOLD)
+    .sort((a, b) => b.score - a.score || (b.partyList.member_count ?? 0) - (a.partyList.member_count ?? 0))
+    .slice(0, MAX_SUGGESTIONS)
+}
+
+/**
+ * Searches to run so the backend's substring search returns every list the
+ * declared party could mean: the party as typed plus its distinctive words.
+ */
+export function suggestionQueries(declared: string) {
+  const words = partyListCoreTokens(declared).filter((token) => token.length >= 3)
+  const queries = [declared.trim()].concat(words.slice(0, 3))
+  return queries.filter((query, idx) => query !== "" && queries.indexOf(query) === idx)
+}
@@ -0,0 +1,54 @@
+import type { AdminRole, AdminUser } from "@/lib/api/types"
+
+export type Permission =
+  | "posts.view"
+  | "posts.moderate"
+  | "partylists.manage"
+  | "partylists.create"
+  | "admins.manage"
+  | "audit.view"
+  | "reasons.manage"
+  | "screening.manage"
+  | "registry.import"
+
+export const ROLE_LABELS: Record<AdminRole, string> = {
+  viewer: "Viewer",
+  moderator: "Moderator",
+  partylist_manager: "Party-List Manager",
+  super_admin: "Super Admin",
+}
+
+const ROLE_PERMISSIONS: Record<AdminRole, Permission[]> = {
+  viewer: ["posts.view"],
+  moderator: ["posts.view", "posts.moderate", "audit.view"],
+  partylist_manager: ["posts.view", "partylists.manage", "partylists.create", "audit.view", "registry.import"],
+  super_admin: [
+    "posts.view",
+    "posts.moderate",
+    "partylists.manage",
+    "partylists.create",
+    "admins.manage",
+    "audit.view",
+    "reasons.manage",
+    "screening.manage",
+    "registry.import",
+  ],
+}
+
+/** Shown on disabled controls so the admin knows why an action is unavailable. */
+export const PERMISSION_HINTS: Record<Permission, string> = {
+  "posts.view": "You don't have permission to view posts",
+  "posts.moderate": "Only moderators can approve or reject posts",
+  "partylists.manage": "Only party-list managers can change party-list membership",
+  "partylists.create": "Only party-list managers can create party lists",
+  "admins.manage": "Only super admins can manage other admins",
+  "audit.view": "Viewers can't see the moderation audit log",
+  "reasons.manage": "Only super admins can edit the rejection reason library",
+  "screening.manage": "Only super admins can edit the pre-screening rules",
+  "registry.import": "Only party-list managers can import the official registry",
+}
+
+export function hasPermission(user: AdminUser | null | undefined, permission: Permission) {
+  if (!user) return false
+  return user.roles.some((role) => ROLE_PERMISSIONS[role]?.includes(permission))
+}
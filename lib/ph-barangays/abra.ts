@@ -0,0 +1,104 @@
+// Barangays of each town in Abra, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Bangued: [
+    "Agtangao", "Angad", "Bangbangar", "Bañacao", "Cabuloan", "Calaba", "Cosili East", "Cosili West", "Dangdangla",
+    "Lingtan", "Lipcan", "Lubong", "Macarcarmay", "Macray", "Malita", "Maoay", "Palao", "Patucannay", "Sagap",
+    "San Antonio", "Santa Rosa", "Sao-atan", "Sappaac", "Tablac", "Zone 1 Pob.", "Zone 2 Pob.", "Zone 3 Pob.",
+    "Zone 4 Pob.", "Zone 5 Pob.", "Zone 6 Pob.", "Zone 7 Pob.",
+  ],
+  Boliney: [
+    "Amti", "Bao-yan", "Danac East", "Danac West", "Dao-angan", "Dumagas", "Kilong-Olao", "Poblacion",
+  ],
+  Bucay: [
+    "Abang", "Bangbangcag", "Bangcagan", "Banglolao", "Bugbog", "Calao", "Dugong", "Labon", "Layugan", "Madalipay",
+    "North Poblacion", "Pagala", "Pakiling", "Palaquio", "Patoc", "Quimloong", "Salnec", "San Miguel", "Siblong",
+    "South Poblacion", "Tabiog",
+  ],
+  Bucloc: [
+    "Ducligan", "Labaan", "Lamao", "Lingey",
+  ],
+  Daguioman: [
+    "Ableg", "Cabaruyan", "Pikek", "Tui",
+  ],
+  Danglas: [
+    "Abaquid", "Cabaruan", "Caupasan", "Danglas", "Nagaparan", "Padangitan", "Pangal",
+  ],
+  Dolores: [
+    "Bayaan", "Cabaroan", "Calumbaya", "Cardona", "Isit", "Kimmalaba", "Libtec", "Lub-lubba", "Mudiit", "Namit-ingan",
+    "Pacac", "Poblacion", "Salucag", "Talogtog", "Taping",
+  ],
+  "La Paz": [
+    "Benben", "Bulbulala", "Buli", "Canan", "Liguis", "Malabbaga", "Mudeng", "Pidipid", "Poblacion", "San Gregorio",
+    "Toon", "Udangan",
+  ],
+  Lacub: [
+    "Bacag", "Buneg", "Guinguinabang", "Lan-ag", "Pacoc", "Poblacion",
+  ],
+  Lagangilang: [
+    "Aguet", "Bacooc", "Balais", "Cayapa", "Dalaguisen", "Laang", "Lagben", "Laguiben", "Nagtipulan", "Nagtupacan",
+    "Paganao", "Pawa", "Poblacion", "Presentar", "San Isidro", "Tagodtod", "Taping",
+  ],
+  Lagayan: [
+    "Ba-i", "Collago", "Pang-ot", "Poblacion", "Pulot",
+  ],
+  Langiden: [
+    "Baac", "Dalayap", "Mabungtot", "Malapaao", "Poblacion", "Quillat",
+  ],
+  "Licuan-Baay": [
+    "Bonglo", "Bulbulala", "Cawayan", "Domenglay", "Lenneng", "Mapisla", "Mogao", "Nalbuan", "Poblacion", "Subagan",
+    "Tumalip",
+  ],
+  Luba: [
+    "Ampalioc", "Barit", "Gayaman", "Lul-luno", "Luzong", "Nagbukel-Tuquipa", "Poblacion", "Sabnangan",
+  ],
+  Malibcong: [
+    "Bayabas", "Binasaran", "Buanao", "Dulao", "Duldulao", "Gacab", "Lat-ey", "Malibcong", "Mataragan", "Pacgued",
+    "Taripan", "Umnap",
+  ],
+  Manabo: [
+    "Ayyeng", "Catacdegan Nuevo", "Catacdegan Viejo", "Luzong", "San Jose Norte", "San Jose Sur", "San Juan Norte",
+    "San Juan Sur", "San Ramon East", "San Ramon West", "Santo Tomas",
+  ],
+  "Peñarrubia": [
+    "Dumayco", "Lusuac", "Malamsit", "Namarabar", "Patiao", "Poblacion", "Riang", "Santa Rosa", "Tattawa",
+  ],
+  Pidigan: [
+    "Alinaya", "Arab", "Garreta", "Immuli", "Laskig", "Monggoc", "Naguirayan", "Pamutic", "Pangtud", "Poblacion East",
+    "Poblacion West", "San Diego", "Sulbec", "Suyo", "Yuyeng",
+  ],
+  Pilar: [
+    "Bolbolo", "Brookside", "Dalit", "Dintan", "Gapang", "Kinabiti", "Maliplipit", "Nagcanasan", "Nanangduan",
+    "Narnara", "Ocup", "Pang-ot", "Patad", "Poblacion", "San Juan East", "San Juan West", "South Balioag", "Tikitik",
+    "Villavieja",
+  ],
+  Sallapadan: [
+    "Bazar", "Bilabila", "Gangal", "Maguyepyep", "Naguilian", "Saccaang", "Sallapadan", "Subusob", "Ud-udiao",
+  ],
+  "San Isidro": [
+    "Cabayogan", "Dalimag", "Langbaban", "Manayday", "Pantoc", "Poblacion", "Sabtan-olo", "San Marcial", "Tangbao",
+  ],
+  "San Juan": [
+    "Abualan", "Ba-ug", "Badas", "Cabcaborao", "Colabaoan", "Culiong", "Daoidao", "Guimba", "Lam-ag", "Lumobang",
+    "Nangobongan", "Pattaoig", "Poblacion North", "Poblacion South", "Quidaoen", "Sabangan", "Silet", "Supi-il",
+    "Tagaytay",
+  ],
+  "San Quintin": [
+    "Labaan", "Palang", "Pantoc", "Poblacion", "Tangadan", "Villa Mercedes",
+  ],
+  Tayum: [
+    "Bagalay", "Basbasa", "Budac", "Bumagcat", "Cabaroan", "Deet", "Gaddani", "Patucannay", "Pias", "Poblacion",
+    "Velasco",
+  ],
+  Tineg: [
+    "Alaoa", "Anayan", "Apao", "Belaat", "Caganayan", "Cogon", "Lanec", "Lapat-Balantay", "Naglibacan", "Poblacion",
+  ],
+  Tubo: [
+    "Alangtin", "Amtuagan", "Dilong", "Kili", "Poblacion", "Supo", "Tabacda", "Tiempo", "Tubtuba", "Wayangan",
+  ],
+  Villaviciosa: [
+    "Ap-apaya", "Bol-lilising", "Cal-lao", "Lap-lapog", "Lumaba", "Poblacion", "Tamac", "Tuquib",
+  ],
+}
@@ -0,0 +1,52 @@
+// Barangays of each town in Agusan del Norte, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Buenavista: [
+    "Abilan", "Agong-ong", "Alubijid", "Guinabsan", "Lower Olave", "Macalang", "Malapong", "Malpoc", "Manapa",
+    "Matabao", "Poblacion 1", "Poblacion 2", "Poblacion 3", "Poblacion 4", "Poblacion 5", "Poblacion 6", "Poblacion 7",
+    "Poblacion 8", "Poblacion 9", "Poblacion 10", "Rizal", "Sacol", "Sangay", "Simbalan", "Talo-ao",
+  ],
+  Cabadbaran: [
+    "Antonio Luna", "Bay-ang", "Bayabas", "Caasinan", "Cabinet", "Calamba", "Calibunan", "Comagascas", "Concepcion",
+    "Del Pilar", "Katugasan", "Kauswagan", "La Union", "Mabini", "Mahaba", "Poblacion 1", "Poblacion 2", "Poblacion 3",
+    "Poblacion 4", "Poblacion 5", "Poblacion 6", "Poblacion 7", "Poblacion 8", "Poblacion 9", "Poblacion 10",
+    "Poblacion 11", "Poblacion 12", "Puting Bato", "Sanghan", "Soriano", "Tolosa",
+  ],
+  Carmen: [
+    "Cahayagan", "Gosoon", "Manoligao", "Poblacion", "Rojales", "San Agustin", "Tagcatong", "Vinapor",
+  ],
+  Jabonga: [
+    "A. Beltran", "Baleguian", "Bangonay", "Bunga", "Colorado", "Cuyago", "Libas", "Magdagooc", "Magsaysay",
+    "Maraiging", "Poblacion", "San Jose", "San Pablo", "San Vicente", "Santo Niño",
+  ],
+  Kitcharao: [
+    "Bangayan", "Canaway", "Crossing", "Hinimbangan", "Jaliobong", "Mahayahay", "Poblacion", "San Isidro", "San Roque",
+    "Sangay", "Songkoy",
+  ],
+  "Las Nieves": [
+    "Ambacon", "Balungagan", "Bonifacio", "Casiklan", "Consorcia", "Durian", "Eduardo G. Montilla", "Ibuan",
+    "Katipunan", "Lingayao", "Malicato", "Maningalao", "Marcos Calo", "Mat-i", "Pinana-an", "Poblacion", "Rosario",
+    "San Isidro", "San Roque", "Tinucoran",
+  ],
+  Magallanes: [
+    "Buhang", "Caloc-an", "Guiasan", "Marcos", "Poblacion", "Santo Niño", "Santo Rosario", "Taod-oy",
+  ],
+  Nasipit: [
+    "Aclan", "Amontay", "Ata-atahon", "Barangay 1", "Barangay 2", "Barangay 3", "Barangay 4", "Barangay 5",
+    "Barangay 6", "Barangay 7", "Camagong", "Cubi-cubi", "Culit", "Jaguimitan", "Kinabjangan", "Punta", "Santa Ana",
+    "Talisay", "Triangulo",
+  ],
+  "Remedios T. Romualdez": [
+    "Balangbalang", "Basilisa", "Humilog", "Panaytayon", "Poblacion I", "Poblacion II", "San Antonio", "Tagbongabong",
+  ],
+  Santiago: [
+    "Curva", "Estanislao Morgado", "Jagupit", "La Paz", "Pangaylan-IP", "Poblacion I", "Poblacion II", "San Isidro",
+    "Tagbuyacan",
+  ],
+  Tubay: [
+    "Binuangan", "Cabayawa", "Doña Rosario", "Doña Telesfora", "La Fraternidad", "Lawigan", "Poblacion 1",
+    "Poblacion 2", "Santa Ana", "Tagmamarkay", "Tagpangahoy", "Tinigbasan", "Victory",
+  ],
+}
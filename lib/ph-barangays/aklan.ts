@@ -0,0 +1,80 @@
+// Barangays of each town in Aklan, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Altavas: [
+    "Cabangila", "Cabugao", "Catmon", "Dalipdip", "Ginictan", "Linayasan", "Lumaynay", "Lupo", "Man-up", "Odiong",
+    "Poblacion", "Quinasay-an", "Talon", "Tibiao",
+  ],
+  Balete: [
+    "Aranas", "Arcangel", "Calizo", "Cortes", "Feliciano", "Fulgencio", "Guanko", "Morales", "Oquendo", "Poblacion",
+  ],
+  Banga: [
+    "Agbanawan", "Bacan", "Badiangan", "Cerrudo", "Cupang", "Daguitan", "Daja Norte", "Daja Sur", "Dingle", "Jumarap",
+    "Lapnag", "Libas", "Linabuan Sur", "Mambog", "Mangan", "Muguing", "Pagsanghan", "Palale", "Poblacion", "Polo",
+    "Polocate", "San Isidro", "Sibalew", "Sigcay", "Taba-ao", "Tabayon", "Tinapuay", "Torralba", "Ugsod", "Venturanza",
+  ],
+  Batan: [
+    "Ambolong", "Angas", "Bay-ang", "Cabugao", "Caiyang", "Camaligan", "Camanci", "Ipil", "Lalab", "Lupit",
+    "Magpag-ong", "Magubahay", "Mambuquiao", "Man-up", "Mandong", "Napti", "Palay", "Poblacion", "Songcolan", "Tabon",
+  ],
+  Buruanga: [
+    "Alegria", "Bagongbayan", "Balusbos", "Bel-is", "Cabugan", "El Progreso", "Habana", "Katipunan", "Mayapay",
+    "Nazareth", "Panilongan", "Poblacion", "Santander", "Tag-osip", "Tigum",
+  ],
+  Ibajay: [
+    "Agbago", "Agdugayan", "Antipolo", "Aparicio", "Aquino", "Aslum", "Bagacay", "Batuan", "Buenavista", "Bugtongbato",
+    "Cabugao", "Capilijan", "Colongcolong", "Laguinbanwa", "Mabusao", "Malindog", "Maloco", "Mina-a", "Monlaque",
+    "Naile", "Naisud", "Naligusan", "Ondoy", "Poblacion", "Polo", "Regador", "Rivera", "Rizal", "San Isidro",
+    "San Jose", "Sta. Cruz", "Tagbaya", "Tul-ang", "Unat", "Yawan",
+  ],
+  Kalibo: [
+    "Andagaw", "Bachaw Norte", "Bachaw Sur", "Briones", "Buswang New", "Buswang Old", "Caano", "Estancia",
+    "Linabuan Norte", "Mabilo", "Mobo", "Nalook", "Poblacion", "Pook", "Tigayon", "Tinigaw",
+  ],
+  Lezo: [
+    "Agcawilan", "Bagto", "Bugasongan", "Carugdog", "Cogon", "Ibao", "Mina", "Poblacion", "Silakat Nonok", "Sta. Cruz",
+    "Sta. Cruz Biga-a", "Tayhawan",
+  ],
+  Libacao: [
+    "Agmailig", "Alfonso XII", "Batobato", "Bonza", "Calacabian", "Calamcan", "Can-awan", "Casit-an", "Dalagsaan",
+    "Guadalupe", "Janlud", "Julita", "Luctoga", "Magugba", "Manika", "Ogsip", "Ortega", "Oyang", "Pampango", "Pinonoy",
+    "Poblacion", "Rivera", "Rosal", "Sibalew",
+  ],
+  Madalag: [
+    "Alaminos", "Alas-as", "Bacyang", "Balactasan", "Cabangahan", "Cabilawan", "Catabana", "Dit-Ana", "Galicia",
+    "Guinatu-an", "Logohon", "Mamba", "Maria Cristina", "Medina", "Mercedes", "Napnot", "Pang-Itan", "Paningayan",
+    "Panipiason", "Poblacion", "San Jose", "Singay", "Talangban", "Talimagao", "Tigbawan",
+  ],
+  Makato: [
+    "Agbalogo", "Aglucay", "Alibagon", "Bagong Barrio", "Baybay", "Cabatanga", "Cajilo", "Calangcang", "Calimbajan",
+    "Castillo", "Cayangwan", "Dumga", "Libang", "Mantiguib", "Poblacion", "Tibiawan", "Tina", "Tugas",
+  ],
+  Malay: [
+    "Argao", "Balabag", "Balusbus", "Cabulihan", "Caticlan", "Cogon", "Cubay Norte", "Cubay Sur", "Dumlog",
+    "Manoc-Manoc", "Motag", "Naasug", "Nabaoy", "Napaan", "Poblacion", "San Viray", "Yapak",
+  ],
+  Malinao: [
+    "Banaybanay", "Biga-a", "Bulabud", "Cabayugan", "Capataga", "Cogon", "Dangcalan", "Kinalangay Nuevo",
+    "Kinalangay Viejo", "Lilo-an", "Malandayon", "Manhanip", "Navitas", "Osman", "Poblacion", "Rosario", "San Dimas",
+    "San Ramon", "San Roque", "Sipac", "Sugnod", "Tambuan", "Tigpalas",
+  ],
+  Nabas: [
+    "Alimbo Baybay", "Buenafortuna", "Buenasuerte", "Buenavista", "Gibon", "Habana", "Laserna", "Libertad",
+    "Magallanes", "Matabana", "Nagustan", "Pawa", "Pinatuad", "Poblacion", "Rizal", "Solido", "Tagororoc", "Toledo",
+    "Unidos", "Union",
+  ],
+  "New Washington": [
+    "Candelaria", "Cawayan", "Dumaguit", "Fatima", "Guinbaliwan", "Jalas", "Jugas", "Lawa-an", "Mabilo", "Mataphao",
+    "Ochando", "Pinamuk-an", "Poblacion", "Polo", "Puis", "Tambak",
+  ],
+  Numancia: [
+    "Albasan", "Aliputos", "Badio", "Bubog", "Bulwang", "Camanci Norte", "Camanci Sur", "Dongon East", "Dongon West",
+    "Joyao-joyao", "Laguinbanua East", "Laguinbanua West", "Marianos", "Navitas", "Poblacion", "Pusiw", "Tabangka",
+  ],
+  Tangalan: [
+    "Afga", "Baybay", "Dapdap", "Dumatad", "Jawili", "Lanipga", "Napatag", "Panayakan", "Poblacion", "Pudiot", "Tagas",
+    "Tamalagon", "Tamokoe", "Tondog", "Vivo",
+  ],
+}
@@ -0,0 +1,139 @@
+// Barangays of each town in Albay, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Bacacay: [
+    "Baclayon", "Banao", "Barangay 1", "Barangay 2", "Barangay 3", "Barangay 4", "Barangay 5", "Barangay 6",
+    "Barangay 7", "Barangay 8", "Barangay 9", "Barangay 10", "Barangay 11", "Barangay 12", "Barangay 13", "Barangay 14",
+    "Bariw", "Basud", "Bayandong", "Bonga", "Buang", "Busdac", "Cabasan", "Cagbulacao", "Cagraray", "Cajogutan",
+    "Cawayan", "Damacan", "Gubat Ilawod", "Gubat Iraya", "Hindi", "Igang", "Langaton", "Manaet", "Mapulang Daga",
+    "Mataas", "Misibis", "Nahapunan", "Namanday", "Namantao", "Napao", "Panarayon", "Pigcobohan", "Pili Ilawod",
+    "Pili Iraya", "Pongco", "San Pablo", "San Pedro", "Sogod", "Sula", "Tambilagao", "Tambongon", "Tanagan", "Uson",
+    "Vinisitahan-Basud", "Vinisitahan-Napao",
+  ],
+  Camalig: [
+    "Anoling", "Baligang", "Bantonan", "Barangay 1", "Barangay 2", "Barangay 3", "Barangay 4", "Barangay 5",
+    "Barangay 6", "Barangay 7", "Bariw", "Binanderahan", "Binitayan", "Bongabong", "Cabagñan", "Cabraran Pequeño",
+    "Caguiba", "Calabidongan", "Comun", "Cotmon", "Del Rosario", "Gapo", "Gotob", "Ilawod", "Iluluan", "Libod",
+    "Ligban", "Mabunga", "Magogon", "Manawan", "Maninila", "Mina", "Miti", "Palanog", "Panoypoy", "Pariaan",
+    "Quinartilan", "Quirangay", "Quitinday", "Salugan", "Solong", "Sua", "Sumlang", "Tagaytay", "Tagoytoy", "Taladong",
+    "Taloto", "Taplacon", "Tinago", "Tumpa",
+  ],
+  Daraga: [
+    "Alcala", "Alobo", "Anislag", "Bagumbayan", "Balinad", "Bascaran", "Bañadero", "Bañag", "Bigao", "Binitayan",
+    "Bongalon", "Budiao", "Burgos", "Busay", "Canarom", "Cullat", "Dela Paz", "Dinoronan", "Gabawan", "Gapo", "Ibaugan",
+    "Ilawod Area Pob.", "Inarado", "Kidaco", "Kilicao", "Kimantong", "Kinawitan", "Kiwalo", "Lacag", "Mabini",
+    "Malabog", "Malobago", "Maopi", "Market Area Pob.", "Maroroy", "Matnog", "Mayon", "Mi-isi", "Nabasan", "Namantao",
+    "Pandan", "Peñafrancia", "Sagpon", "Salvacion", "San Rafael", "San Ramon", "San Roque", "San Vicente Grande",
+    "San Vicente Pequeño", "Sipi", "Tabon-tabon", "Tagas", "Talahib", "Villahermosa",
+  ],
+  Guinobatan: [
+    "Agpay", "Balite", "Banao", "Batbat", "Binogsacan Lower", "Binogsacan Upper", "Bololo", "Bubulusan", "Calzada",
+    "Catomag", "Doña Mercedes", "Doña Tomasa", "Ilawod", "Inamnan Grande", "Inamnan Pequeño", "Inascan", "Iraya",
+    "Lomacao", "Maguiron", "Maipon", "Malabnig", "Malipo", "Malobago", "Maninila", "Mapaco", "Marcial O. Rañola",
+    "Masarawag", "Mauraro", "Minto", "Morera", "Muladbucad Grande", "Muladbucad Pequeño", "Ongo", "Palanas",
+    "Poblacion", "Pood", "Quibongbongan", "Quitago", "San Francisco", "San Jose", "San Rafael", "Sinungtan",
+    "Tandarora", "Travesia",
+  ],
+  Jovellar: [
+    "Aurora Pob.", "Bagacay", "Bautista", "Cabraran", "Calzada Pob.", "Del Rosario", "Estrella", "Florista",
+    "Mabini Pob.", "Magsaysay Pob", "Mamlad", "Maogog", "Mercado Pob.", "Plaza Pob.", "Quitinday Pob.", "Rizal Pob.",
+    "Salvacion", "San Isidro", "San Roque", "San Vicente", "Sinagaran", "Villa Paz", "White Deer Pob.",
+  ],
+  Legazpi: [
+    "Bgy. 1 - Em's Barrio", "Bgy. 2 - Em's Barrio South", "Bgy. 3 - Em's Barrio East", "Bgy. 4 - Sagpon Pob.",
+    "Bgy. 5 - Sagmin Pob.", "Bgy. 6 - Bañadero Pob.", "Bgy. 7 - Baño", "Bgy. 8 - Bagumbayan", "Bgy. 9 - Pinaric",
+    "Bgy. 10 - Cabugao", "Bgy. 11 - Maoyod Pob.", "Bgy. 12 - Tula-tula", "Bgy. 13 - Ilawod West Pob.",
+    "Bgy. 14 - Ilawod Pob.", "Bgy. 15 - Ilawod East Pob.", "Bgy. 16 - Kawit-East Washington Drive",
+    "Bgy. 17 - Rizal Street., Ilawod", "Bgy. 18 - Cabagñan West", "Bgy. 19 - Cabagñan", "Bgy. 20 - Cabagñan East",
+    "Bgy. 21 - Binanuahan West", "Bgy. 22 - Binanuahan East", "Bgy. 23 - Imperial Court Subd.",
+    "Bgy. 24 - Rizal Street", "Bgy. 25 - Lapu-lapu", "Bgy. 26 - Dinagaan", "Bgy. 27 - Victory Village South",
+    "Bgy. 28 - Victory Village North", "Bgy. 29 - Sabang", "Bgy. 30 - Pigcale", "Bgy. 31 - Centro-Baybay",
+    "Bgy. 32 - San Roque", "Bgy. 33 - PNR-Peñaranda St.-Iraya", "Bgy. 34 - Oro Site-Magallanes St.", "Bgy. 35 - Tinago",
+    "Bgy. 36 - Kapantawan", "Bgy. 37 - Bitano", "Bgy. 38 - Gogon", "Bgy. 39 - Bonot", "Bgy. 40 - Cruzada",
+    "Bgy. 41 - Bogtong", "Bgy. 42 - Rawis", "Bgy. 43 - Tamaoyan", "Bgy. 44 - Pawa", "Bgy. 45 - Dita",
+    "Bgy. 46 - San Joaquin", "Bgy. 47 - Arimbay", "Bgy. 48 - Bagong Abre", "Bgy. 49 - Bigaa", "Bgy. 50 - Padang",
+    "Bgy. 51 - Buyuan", "Bgy. 52 - Matanag", "Bgy. 53 - Bonga", "Bgy. 54 - Mabinit", "Bgy. 55 - Estanza",
+    "Bgy. 56 - Taysan", "Bgy. 57 - Dap-dap", "Bgy. 58 - Buragwis", "Bgy. 59 - Puro", "Bgy. 60 - Lamba",
+    "Bgy. 61 - Maslog", "Bgy. 62 - Homapon", "Bgy. 63 - Mariawa", "Bgy. 64 - Bagacay", "Bgy. 65 - Imalnod",
+    "Bgy. 66 - Banquerohan", "Bgy. 67 - Bariis", "Bgy. 68 - San Francisco", "Bgy. 69 - Buenavista",
+    "Bgy. 70 - Cagbacong",
+  ],
+  Libon: [
+    "Alongong", "Apud", "Bacolod", "Bariw", "Bonbon", "Buga", "Bulusan", "Burabod", "Caguscos", "East Carisac",
+    "Harigue", "Libtong", "Linao", "Mabayawas", "Macabugos", "Magallang", "Malabiga", "Marayag", "Matara", "Molosbolos",
+    "Natasan", "Niño Jesus", "Nogpo", "Pantao", "Rawis", "Sagrada Familia", "Salvacion", "Sampongan", "San Agustin",
+    "San Antonio", "San Isidro", "San Jose", "San Pascual", "San Ramon", "San Vicente", "Santa Cruz", "Talin-talin",
+    "Tambo", "Villa Petrona", "West Carisac", "Zone I", "Zone II", "Zone III", "Zone IV", "Zone V", "Zone VI",
+    "Zone VII",
+  ],
+  Ligao: [
+    "Abella", "Allang", "Amtic", "Bacong", "Bagumbayan", "Balanac", "Baligang", "Barayong", "Basag", "Batang", "Bay",
+    "Binanowan", "Binatagan", "Bobonsuran", "Bonga", "Busac", "Busay", "Cabarian", "Calzada", "Catburawan", "Cavasi",
+    "Culliat", "Dunao", "Francia", "Guilid", "Herrera", "Layon", "Macalidong", "Mahaba", "Malama", "Maonon", "Nabonton",
+    "Nasisi", "Oma-oma", "Palapas", "Pandan", "Paulba", "Paulog", "Pinamaniquian", "Pinit", "Ranao-ranao",
+    "San Vicente", "Santa Cruz", "Tagpo", "Tambo", "Tandarura", "Tastas", "Tinago", "Tinampo", "Tiongson", "Tomolin",
+    "Tuburan", "Tula-tula Grande", "Tula-tula Pequeño", "Tupas",
+  ],
+  Malilipot: [
+    "Barangay I", "Barangay II", "Barangay III", "Barangay IV", "Barangay V", "Binitayan", "Calbayog", "Canaway",
+    "Salvacion", "San Antonio Santicon", "San Antonio Sulong", "San Francisco", "San Isidro Ilawod", "San Isidro Iraya",
+    "San Jose", "San Roque", "Santa Cruz", "Santa Teresa",
+  ],
+  Malinao: [
+    "Awang", "Bagatangki", "Bagumbayan", "Balading", "Balza", "Bariw", "Baybay", "Bulang", "Burabod", "Cabunturan",
+    "Comun", "Diaro", "Estancia", "Jonop", "Labnig", "Libod", "Malolos", "Matalipni", "Ogob", "Pawa", "Payahan",
+    "Poblacion", "Quinarabasahan", "Santa Elena", "Soa", "Sugcad", "Tagoytoy", "Tanawan", "Tuliw",
+  ],
+  Manito: [
+    "Balabagon", "Balasbas", "Bamban", "Buyo", "Cabacongan", "Cabit", "Cawayan", "Cawit", "Holugan", "It-Ba",
+    "Malobago", "Manumbalay", "Nagotgot", "Pawa", "Tinapian",
+  ],
+  Oas: [
+    "Badbad", "Badian", "Bagsa", "Bagumbayan", "Balogo", "Banao", "Bangiawon", "Bogtong", "Bongoran", "Busac",
+    "Cadawag", "Cagmanaba", "Calaguimit", "Calpi", "Calzada", "Camagong", "Casinagan", "Centro Poblacion", "Coliat",
+    "Del Rosario", "Gumabao", "Ilaor Norte", "Ilaor Sur", "Iraya Norte", "Iraya Sur", "Manga", "Maporong", "Maramba",
+    "Matambo", "Mayag", "Mayao", "Moroponros", "Nagas", "Obaliw-Rinas", "Pistola", "Ramay", "Rizal", "Saban",
+    "San Agustin", "San Antonio", "San Isidro", "San Jose", "San Juan", "San Miguel", "San Pascual", "San Ramon",
+    "San Vicente", "Tablon", "Talisay", "Talongog", "Tapel", "Tobgon", "Tobog",
+  ],
+  "Pio Duran": [
+    "Agol", "Alabangpuro", "Banawan", "Barangay I", "Barangay II", "Barangay III", "Barangay IV", "Barangay V",
+    "Basicao Coastal", "Basicao Interior", "Binodegahan", "Buenavista", "Buyo", "Caratagan", "Cuyaoyao", "Flores",
+    "La Medalla", "Lawinon", "Macasitas", "Malapay", "Malidong", "Mamlad", "Marigondon", "Matanglad", "Nablangbulod",
+    "Oringon", "Palapas", "Panganiran", "Rawis", "Salvacion", "Santo Cristo", "Sukip", "Tibabo",
+  ],
+  Polangui: [
+    "Agos", "Alnay", "Alomon", "Amoguis", "Anopol", "Apad", "Balaba", "Balangibang", "Balinad", "Basud", "Binagbangan",
+    "Buyo", "Centro Occidental", "Centro Oriental", "Cepres", "Cotmon", "Cotnogan", "Danao", "Gabon", "Gamot", "Itaran",
+    "Kinale", "Kinuartilan", "La Medalla", "La Purisima", "Lanigay", "Lidong", "Lourdes", "Magpanambo", "Magurang",
+    "Matacon", "Maynaga", "Maysua", "Mendez", "Napo", "Pinagdapugan", "Ponso", "Salvacion", "San Roque", "Santa Cruz",
+    "Santa Teresita", "Santicon", "Sugcad", "Ubaliw",
+  ],
+  "Rapu-Rapu": [
+    "Bagaobawan", "Batan", "Bilbao", "Binosawan", "Bogtong", "Buenavista", "Buhatan", "Calanaga", "Caracaran",
+    "Carogcog", "Dap-dap", "Gaba", "Galicia", "Guadalupe", "Hamorawon", "Lagundi", "Liguan", "Linao", "Malobago",
+    "Mananao", "Mancao", "Manila", "Masaga", "Morocborocan", "Nagcalsot", "Pagcolbon", "Poblacion", "Sagrada",
+    "San Ramon", "Santa Barbara", "Tinocawan", "Tinopan", "Viga", "Villahermosa",
+  ],
+  "Santo Domingo": [
+    "Alimsog", "Bagong San Roque", "Buhatan", "Calayucay", "Del Rosario Pob.", "Fidel Surtida", "Lidong",
+    "Market Site Pob.", "Nagsiya Pob.", "Pandayan Pob.", "Salvacion", "San Andres", "San Fernando",
+    "San Francisco Pob.", "San Isidro", "San Juan Pob.", "San Pedro Pob.", "San Rafael Pob.", "San Roque",
+    "San Vicente Pob.", "Santa Misericordia", "Santo Domingo Pob.", "Santo Niño",
+  ],
+  Tabaco: [
+    "Agnas", "Bacolod", "Bangkilingan", "Bantayan", "Baranghawon", "Basagan", "Basud", "Bogñabong", "Bombon", "Bonot",
+    "Buang", "Buhian", "Cabagñan", "Cobo", "Comon", "Cormidal", "Divino Rostro", "Fatima", "Guinobat", "Hacienda",
+    "Magapo", "Mariroc", "Matagbac", "Oras", "Oson", "Panal", "Pawa", "Pinagbobong", "Quinale Cabasan",
+    "Quinastillojan", "Rawis", "Sagurong", "Salvacion", "San Antonio", "San Carlos", "San Isidro", "San Juan",
+    "San Lorenzo", "San Ramon", "San Roque", "San Vicente", "Santo Cristo", "Sua-Igot", "Tabiguian", "Tagas", "Tayhi",
+    "Visita",
+  ],
+  Tiwi: [
+    "Bagumbayan", "Bariis", "Baybay", "Belen", "Biyong", "Bolo", "Cale", "Cararayan", "Coro-coro", "Dap-dap", "Gajo",
+    "Joroan", "Libjo", "Libtong", "Matalibong", "Maynonong", "Mayong", "Misibis", "Naga", "Nagas", "Oyama", "Putsan",
+    "San Bernardo", "Sogod", "Tigbi",
+  ],
+}
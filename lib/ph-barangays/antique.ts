@@ -0,0 +1,118 @@
+// Barangays of each town in Antique, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  "Anini-Y": [
+    "Bayo Grande", "Bayo Pequeño", "Butuan", "Casay", "Casay Viejo", "Iba", "Igbarabatuan", "Igpalge", "Igtumarom",
+    "Lisub A", "Lisub B", "Mabuyong", "Magdalena", "Nasuli C", "Nato", "Poblacion", "Sagua", "Salvacion",
+    "San Francisco", "San Ramon", "San Roque", "Tagaytay", "Talisayan",
+  ],
+  Barbaza: [
+    "Baghari", "Bahuyan", "Beri", "Biga-a", "Binangbang", "Binangbang Centro", "Binanu-an", "Cadiao", "Calapadan",
+    "Capoyuan", "Cubay", "Embrangga-an", "Esparar", "Gua", "Idao", "Igpalge", "Igtunarum", "Integasan", "Ipil",
+    "Jinalinan", "Lanas", "Langcaon", "Lisub", "Lumboyan", "Mablad", "Magtulis", "Marigne", "Mayabay", "Mayos",
+    "Nalusdan", "Narirong", "Palma", "Poblacion", "San Antonio", "San Ramon", "Soligao", "Tabongtabong", "Tig-Alaran",
+    "Yapo",
+  ],
+  Belison: [
+    "Borocboroc", "Buenavista", "Concepcion", "Delima", "Ipil", "Maradiona", "Mojon", "Poblacion", "Rombang",
+    "Salvacion", "Sinaja",
+  ],
+  Bugasong: [
+    "Anilawan", "Arangote", "Bagtason", "Camangahan", "Centro Ilauod", "Centro Ilaya", "Centro Pojo", "Cubay North",
+    "Cubay South", "Guija", "Igbalangao", "Igsoro", "Ilaures", "Jinalinan", "Lacayon", "Maray", "Paliwan",
+    "Pangalcagan", "Sabang East", "Sabang West", "Tagudtud North", "Tagudtud South", "Talisay", "Tica", "Tono-an",
+    "Yapu", "Zaragoza",
+  ],
+  Caluya: [
+    "Alegria", "Bacong", "Banago", "Bonbon", "Dawis", "Dionela", "Harigue", "Hininga-an", "Imba", "Masanag",
+    "Poblacion", "Sabang", "Salamento", "Semirara", "Sibato", "Sibay", "Sibolo", "Tinogboc",
+  ],
+  Culasi: [
+    "Alojipan", "Bagacay", "Balac-balac", "Batbatan Island", "Batonan Norte", "Batonan Sur", "Bita", "Bitadton Norte",
+    "Bitadton Sur", "Buenavista", "Buhi", "Camancijan", "Caridad", "Carit-an", "Centro Norte", "Centro Poblacion",
+    "Centro Sur", "Condes", "Esperanza", "Fe", "Flores", "Jalandoni", "Janlagasi", "Lamputong", "Lipata", "Magsaysay",
+    "Malacañang", "Malalison Island", "Maniguin", "Naba", "Osorio", "Paningayan", "Salde", "San Antonio",
+    "San Gregorio", "San Juan", "San Luis", "San Pascual", "San Vicente", "Simbola", "Tigbobolo", "Tinabusan", "Tomao",
+    "Valderama",
+  ],
+  Hamtic: [
+    "Apdo", "Asluman", "Banawon", "Bia-an", "Bongbongan I-II", "Bongbongan III", "Botbot", "Budbudan", "Buhang",
+    "Calacja I", "Calacja II", "Calala", "Cantulan", "Caridad", "Caromangay", "Casalngan", "Dangcalan", "Del Pilar",
+    "Fabrica", "Funda", "General Fullon", "Gov. Evelio B. Javier", "Guintas", "Igbical", "Igbucagay", "Inabasan",
+    "Ingwan-Batangan", "La Paz", "Linaban", "Malandog", "Mapatag", "Masanag", "Nalihawan", "Pamandayan", "Pasu-Jungao",
+    "Piapi I", "Piapi II", "Piapi III", "Pili 1, 2, 3", "Poblacion 1", "Poblacion 2", "Poblacion 3", "Poblacion 4",
+    "Poblacion 5", "Pu-ao", "Suloc", "Villavert-Jimenez",
+  ],
+  "Laua-An": [
+    "Bagongbayan", "Banban", "Bongbongan", "Cabariwan", "Cadajug", "Canituan", "Capnayan", "Casit-an", "Guiamon",
+    "Guinbanga-an", "Guisijan", "Igtadiao", "Intao", "Jaguikican", "Jinalinan", "Lactudan", "Latazon", "Laua-an",
+    "Leon", "Liberato", "Lindero", "Liya-liya", "Lugta", "Lupa-an", "Magyapo", "Maria", "Mauno", "Maybunga", "Necesito",
+    "Oloc", "Omlot", "Pandanan", "Paningayan", "Pascuala", "Poblacion", "San Ramon", "Santiago", "Tibacan", "Tigunhao",
+    "Virginia",
+  ],
+  Libertad: [
+    "Barusbus", "Bulanao", "Centro Este", "Centro Weste", "Codiong", "Cubay", "Igcagay", "Inyawan", "Lindero",
+    "Maramig", "Pajo", "Panangkilon", "Paz", "Pucio", "San Roque", "Taboc", "Tinigbas", "Tinindugan", "Union",
+  ],
+  Pandan: [
+    "Aracay", "Badiangan", "Bagumbayan", "Baybay", "Botbot", "Buang", "Cabugao", "Candari", "Carmen", "Centro Norte",
+    "Centro Sur", "Dionela", "Dumrog", "Duyong", "Fragante", "Guia", "Idiacacan", "Jinalinan", "Luhod-Bayang",
+    "Maadios", "Mag-aba", "Napuid", "Nauring", "Patria", "Perfecta", "San Andres", "San Joaquin", "Santa Ana",
+    "Santa Cruz", "Santa Fe", "Santo Rosario", "Talisay", "Tingib", "Zaldivar",
+  ],
+  Patnongon: [
+    "Alvañiz", "Amparo", "Apgahan", "Aureliana", "Badiangan", "Bernaldo A. Julagting", "Carit-an", "Cuyapiao", "Gella",
+    "Igbarawan", "Igbobon", "Igburi", "La Rioja", "Mabasa", "Macarina", "Magarang", "Magsaysay", "Padang", "Pandanan",
+    "Patlabawon", "Poblacion", "Quezon", "Salaguiawan", "Samalague", "San Rafael", "Tamayoc", "Tigbalogo",
+    "Tobias Fornier", "Villa Crespo", "Villa Cruz", "Villa Elio", "Villa Flores", "Villa Laua-an", "Villa Sal",
+    "Villa Salomon", "Vista Alegre",
+  ],
+  "San Jose": [
+    "Atabay", "Badiang", "Barangay 1", "Barangay 2", "Barangay 3", "Barangay 4", "Barangay 5", "Barangay 6",
+    "Barangay 7", "Barangay 8", "Bariri", "Bugarot", "Cansadan", "Durog", "Funda-Dalipe", "Igbonglo", "Inabasan",
+    "Madrangca", "Magcalon", "Malaiba", "Maybato Norte", "Maybato Sur", "Mojon", "Pantao", "San Angel", "San Fernando",
+    "San Pedro", "Supa",
+  ],
+  "San Remigio": [
+    "Agricula", "Alegria", "Aningalan", "Atabay", "Bagumbayan", "Baladjay", "Banbanan", "Barangbang", "Bawang", "Bugo",
+    "Bulan-bulan", "Cabiawan", "Cabunga-an", "Cadolonan", "Carawisan I", "Carawisan II", "Carmelo I", "Carmelo II",
+    "General Fullon", "General Luna", "Iguirindon", "Insubuan", "La Union", "Lapak", "Lumpatan", "Magdalena",
+    "Maragubdub", "Nagbangi I", "Nagbangi II", "Nasuli", "Orquia", "Osorio I", "Osorio II", "Panpanan I", "Panpanan II",
+    "Poblacion", "Ramon Magsaysay", "Rizal", "San Rafael", "Sinundolan", "Sumaray", "Trinidad", "Tubudan", "Vilvar",
+    "Walker",
+  ],
+  Sebaste: [
+    "Abiera", "Aguila", "Alegre", "Aras-Asan", "Bacalan", "Callan", "Idio", "Nauhon", "P. Javier", "Poblacion",
+  ],
+  Sibalom: [
+    "Alangan", "Bari", "Biga-a", "Bongbongan I", "Bongbongan II", "Bongsod", "Bontol", "Bugnay", "Bululacao",
+    "Cabanbanan", "Cabariuan", "Cabladan", "Cadoldolan", "Calo-oy", "Calog", "Catmon", "Catungan I", "Catungan II",
+    "Catungan III", "Catungan IV", "Cubay-Napultan", "Cubay-Sermon", "District I", "District II", "District III",
+    "District IV", "Egaña", "Esperanza I", "Esperanza II", "Esperanza III", "Igcococ", "Igdagmay", "Igdalaquit",
+    "Iglanot", "Igpanolong", "Igparas", "Igsuming", "Ilabas", "Imparayan", "Inabasan", "Indag-an", "Initan",
+    "Insarayan", "Lacaron", "Lagdo", "Lambayagan", "Luna", "Luyang", "Maasin", "Mabini", "Millamena", "Mojon",
+    "Nagdayao", "Nazareth", "Odiong", "Olaga", "Pangpang", "Panlagangan", "Pantao", "Pasong", "Pis-anan", "Rombang",
+    "Salvacion", "San Juan", "Sido", "Solong", "Tabongtabong", "Tig-ohot", "Tigbalua I", "Tigbalua II", "Tordesillas",
+    "Tulatula", "Valentin Grasparil", "Villafont", "Villahermosa", "Villar",
+  ],
+  Tibiao: [
+    "Alegre", "Amar", "Bandoja", "Castillo", "Esparagoza", "Importante", "La Paz", "Malabor", "Martinez", "Natividad",
+    "Pitac", "Poblacion", "Salazar", "San Francisco Norte", "San Francisco Sur", "San Isidro", "Sta. Ana", "Sta. Justa",
+    "Sto. Rosario", "Tigbaboy", "Tuno",
+  ],
+  "Tobias Fornier": [
+    "Abaca", "Aras-Asan", "Arobo", "Atabay", "Atiotes", "Bagumbayan", "Ballescas", "Balud", "Barasanan A",
+    "Barasanan B", "Barasanan C", "Bariri", "Camandagan", "Cato-ogan", "Danawan", "Diclum", "Fatima", "Gamad",
+    "Igbalogo", "Igbangcal-A", "Igbangcal-B", "Igbangcal-C", "Igcabuad", "Igcadac", "Igcado", "Igcalawagan",
+    "Igcapuyas", "Igcasicad", "Igdalaguit", "Igdanlog", "Igdurarog", "Igtugas", "Lawigan", "Lindero", "Manaling",
+    "Masayo", "Nagsubuan", "Nasuli-A", "Opsan", "Paciencia", "Poblacion Norte", "Poblacion Sur", "Portillo", "Quezon",
+    "Samalague", "Sto. Tomas", "Tacbuyan", "Tene", "Villaflor", "Ysulat",
+  ],
+  Valderrama: [
+    "Alon", "Bakiang", "Binanogan", "Borocboroc", "Bugnay", "Buluangan I", "Buluangan II", "Bunsod", "Busog",
+    "Cananghan", "Canipayan", "Cansilayan", "Culyat", "Iglinab", "Igmasandig", "Lublub", "Manlacbo", "Pandanan",
+    "San Agustin", "Takas", "Tigmamale", "Ubos",
+  ],
+}
@@ -0,0 +1,39 @@
+// Barangays of each town in Apayao, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Calanasan: [
+    "Butao", "Cadaclan", "Don Roque Ablan Sr.", "Eleazar", "Eva Puzon", "Kabugawan", "Langnao", "Lubong", "Macalino",
+    "Naguilian", "Namaltugan", "Poblacion", "Sabangan", "Santa Elena", "Santa Filomena", "Tanglagan", "Tubang",
+    "Tubongan",
+  ],
+  Conner: [
+    "Allangigan", "Banban", "Buluan", "Caglayan", "Calafug", "Cupis", "Daga", "Guinaang", "Guinamgaman", "Ili",
+    "Karikitan", "Katablangan", "Malama", "Manag", "Mawigue", "Nabuangan", "Paddaoan", "Puguin", "Ripang", "Sacpil",
+    "Talifugo",
+  ],
+  Flora: [
+    "Allig", "Anninipan", "Atok", "Bagutong", "Balasi", "Balluyan", "Malayugan", "Mallig", "Malubibit Norte",
+    "Malubibit Sur", "Poblacion East", "Poblacion West", "San Jose", "Santa Maria", "Tamalunog", "Upper Atok",
+  ],
+  Kabugao: [
+    "Badduat", "Baliwanan", "Bulu", "Cabetayan", "Dagara", "Dibagat", "Karagawan", "Kumao", "Laco", "Lenneng", "Lucab",
+    "Luttuacan", "Madatag", "Madduang", "Magabta", "Maragat", "Musimut", "Nagbabalayan", "Poblacion", "Tuyangan",
+    "Waga",
+  ],
+  Luna: [
+    "Bacsay", "Cagandungan", "Calabigan", "Cangisitan", "Capagaypayan", "Dagupan", "Lappa", "Luyon", "Marag",
+    "Poblacion", "Quirino", "Salvacion", "San Francisco", "San Gregorio", "San Isidro Norte", "San Isidro Sur",
+    "San Sebastian", "Santa Lina", "Shalom", "Tumog", "Turod", "Zumigui",
+  ],
+  Pudtol: [
+    "Aga", "Alem", "Amado", "Aurora", "Cabatacan", "Cacalaggan", "Capannikian", "Doña Loreta", "Emilia", "Imelda",
+    "Lower Maton", "Lt. Balag", "Lydia", "Malibang", "Mataguisi", "Poblacion", "San Antonio", "San Jose", "San Luis",
+    "San Mariano", "Swan", "Upper Maton",
+  ],
+  "Santa Marcela": [
+    "Barocboc", "Consuelo", "Emiliana", "Imelda", "Malekkeg", "Marcela", "Nueva", "Panay", "San Antonio", "San Carlos",
+    "San Juan", "San Mariano", "Sipa Proper",
+  ],
+}
@@ -0,0 +1,42 @@
+// Barangays of each town in Aurora, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Baler: [
+    "Barangay I", "Barangay II", "Barangay III", "Barangay IV", "Barangay V", "Buhangin", "Calabuanan", "Obligacion",
+    "Pingit", "Reserva", "Sabang", "Suclayin", "Zabali",
+  ],
+  Casiguran: [
+    "Barangay 1", "Barangay 2", "Barangay 3", "Barangay 4", "Barangay 5", "Barangay 6", "Barangay 7", "Barangay 8",
+    "Bianoan", "Calabgan", "Calangcuasan", "Calantas", "Cozo", "Culat", "Dibacong", "Dibet", "Ditinagyan", "Esperanza",
+    "Esteves", "Lual", "Marikit", "San Ildefonso", "Tabas", "Tinib",
+  ],
+  Dilasag: [
+    "Diagyan", "Dicabasan", "Dilaguidi", "Dimaseset", "Diniog", "Esperanza", "Lawang", "Maligaya", "Manggitahan",
+    "Masagana", "Ura",
+  ],
+  Dinalungan: [
+    "Abuleg", "Dibaraybay", "Ditawini", "Mapalad", "Nipoo", "Paleg", "Simbahan", "Zone I", "Zone II",
+  ],
+  Dingalan: [
+    "Aplaya", "Butas Na Bato", "Cabog", "Caragsacan", "Davildavilan", "Dikapanikian", "Ibona", "Paltic", "Poblacion",
+    "Tanawan", "Umiray",
+  ],
+  Dipaculao: [
+    "Bayabas", "Borlongan", "Buenavista", "Calaocan", "Diamanen", "Dianed", "Diarabasin", "Dibutunan", "Dimabuno",
+    "Dinadiawan", "Ditale", "Gupa", "Ipil", "Laboy", "Lipit", "Lobbot", "Maligaya", "Mijares", "Mucdol",
+    "North Poblacion", "Puangi", "Salay", "Sapangkawayan", "South Poblacion", "Toytoyan",
+  ],
+  "Maria Aurora": [
+    "Alcala", "Bagtu", "Bangco", "Bannawag", "Barangay I", "Barangay II", "Barangay III", "Barangay IV", "Baubo",
+    "Bayanihan", "Bazal", "Cabituculan East", "Cabituculan West", "Cadayacan", "Debucao", "Decoliat", "Detailen",
+    "Diaat", "Dialatman", "Diaman", "Dianawan", "Dikildit", "Dimanpudso", "Diome", "Estonilo", "Florida", "Galintuja",
+    "Malasin", "Ponglo", "Quirino", "Ramada", "San Joaquin", "San Jose", "San Juan", "San Leonardo", "Santa Lucia",
+    "Santo Tomas", "Suguit", "Villa Aurora", "Wenceslao",
+  ],
+  "San Luis": [
+    "Bacong", "Barangay I", "Barangay II", "Barangay III", "Barangay IV", "Dibalo", "Dibayabay", "Dibut", "Dikapinisan",
+    "Dimanayat", "Diteki", "Ditumabo", "L. Pimentel", "Nonong Senior", "Real", "San Isidro", "San Jose", "Zarah",
+  ],
+}
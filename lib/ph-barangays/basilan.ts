@@ -0,0 +1,70 @@
+// Barangays of each town in Basilan, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Akbar: [
+    "Caddayan", "Linongan", "Lower Bato-bato", "Mangalut", "Manguso", "Paguengan", "Semut", "Upper Bato-bato",
+    "Upper Sinangkapan",
+  ],
+  "Al-Barka": [
+    "Apil-apil", "Bato-bato", "Bohe-Piang", "Bucalao", "Cambug", "Danapah", "Guinanta", "Kailih", "Kinukutan", "Kuhon",
+    "Kuhon Lennuh", "Linuan", "Lookbisaya", "Macalang", "Magcawa", "Sangkahan",
+  ],
+  "Hadji Mohammad Ajul": [
+    "Basakan", "Buton", "Candiis", "Langil", "Langong", "Languyan", "Pintasan", "Seronggon", "Sibago",
+    "Sulutan Matangal", "Tuburan Proper",
+  ],
+  "Hadji Muhtamad": [
+    "Baluk-baluk", "Dasalan", "Lubukan", "Luukbongsod", "Mananggal", "Palahangan", "Panducan", "Sangbay Big",
+    "Sangbay Small", "Tausan",
+  ],
+  Isabela: [
+    "Aguada", "Balatanay", "Baluno", "Begang", "Binuangan", "Busay", "Cabunbata", "Calvario", "Carbon", "Diki",
+    "Dona Ramona T. Alano", "Isabela Eastside", "Isabela Proper", "Kapatagan Grande", "Kapayawan", "Kaumpurnah Zone I",
+    "Kaumpurnah Zone II", "Kaumpurnah Zone III", "Kumalarang", "La Piedad", "Lampinigan", "Lanote", "Lukbuton",
+    "Lumbang", "Makiri", "Maligue", "Marang-marang", "Marketsite", "Masula", "Menzi", "Panigayan", "Panunsulan",
+    "Port Area", "Riverside", "San Rafael", "Santa Barbara", "Santa Cruz", "Seaside", "Small Kapatagan", "Sumagdang",
+    "Sunrise Village", "Tabiawan", "Tabuk", "Tampalan", "Timpul",
+  ],
+  Lamitan: [
+    "Arco", "Ba-as", "Baimbing", "Balagtasan", "Balas", "Balobo", "Bato", "Baungos", "Bohebessey", "Boheibu",
+    "Bohenange", "Bohesapa", "Boheyakan", "Boheyawas", "Buahan", "Bulanting", "Bulingan", "Cabobo", "Calugusan",
+    "Campo Uno", "Colonia", "Danit-Puntocan", "Kulay Bato", "Lebbuh", "Limo-ok", "Lo-ok", "Luksumbang", "Lumuton",
+    "Maganda", "Malakas", "Maligaya", "Malinis", "Malo-ong Canal", "Malo-ong San Jose", "Matatag", "Matibay",
+    "Parangbasak", "Sabong", "Santa Clara", "Sengal", "Simbangon", "Tandong Ahas", "Tumakid", "Ubit", "Ulame",
+  ],
+  Lantawan: [
+    "Atong-atong", "Bagbagon", "Baungis", "Bulan-bulan", "Bulanza", "Calayan", "Calugusan", "Canibungan", "Landugan",
+    "Lantawan Proper", "Lawi-lawi", "Lawila", "Lower Bañas", "Lower Manggas", "Luuk-Maluha", "Matarling", "Matikang",
+    "Pamucalin", "Paniongan", "Parian-Baunoh", "Suba-an", "Switch Yakal", "Tairan", "Upper Bañas", "Upper Manggas",
+  ],
+  Maluso: [
+    "Abong-Abong", "Batungal", "Calang Canas", "Fuente Maluso", "Guanan North", "Guanan South", "Limbubong",
+    "Mahayahay Lower", "Mahayahay Upper", "Muslim Area", "Port Holland Zone I Pob.", "Port Holland Zone II Pob.",
+    "Port Holland Zone III Pob.", "Port Holland Zone IV", "Port Holland Zone V", "Taberlongan", "Tamuk", "Townsite",
+    "Tubigan", "Upper Garlayan",
+  ],
+  Sumisip: [
+    "Bacung", "Baiwas", "Basak", "Benembengan Lower", "Benembengan Upper", "Bohe-languyan", "Buli-buli", "Cabcaban",
+    "Cabengbeng Lower", "Cabengbeng Upper", "Ettub-ettub", "Guiong", "Kaum-Air", "Kaumpamatsakem", "Libug",
+    "Limbocandis", "Lukketon", "Luuk-Bait", "Mahatalang", "Manaul", "Mangal", "Marang", "Mebak", "Sahaya Bohe Bato",
+    "Sapah Bulak", "Sumisip Central", "Tikus", "Tongsengal", "Tumahubong",
+  ],
+  "Tabuan-Lasa": [
+    "Babag", "Balanting", "Boloh-boloh", "Bukut-Umus", "Kaumpurnah", "Lanawan", "Pisak-pisak", "Saluping", "Suligan",
+    "Sulloh", "Tambulig Buton", "Tong-Umus",
+  ],
+  "Tipo-Tipo": [
+    "Badja", "Baguindan", "Banah", "Bangcuang", "Bohe-Tambak", "Bohebaca", "Bohelebung", "Lagayas", "Limbo-Upas",
+    "Silangkum", "Tipo-tipo Proper",
+  ],
+  Tuburan: [
+    "Bohetambis", "Calut", "Duga-a", "Katipunan", "Lahi-lahi", "Lower Sinangkapan", "Lower Tablas", "Mahawid",
+    "Sinulatan", "Tablas Usew",
+  ],
+  "Ungkaya Pukan": [
+    "Amaloy", "Bohe-Pahuh", "Bohe-Suyak", "Cabangalan", "Danit", "Kamamburingan", "Matata", "Materling", "Pipil",
+    "Sungkayut", "Tongbato", "Ulitan",
+  ],
+}
@@ -0,0 +1,24 @@
+// Barangays of each town in Batanes, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Basco: [
+    "Chanarian", "Ihubok I", "Ihubok II", "Kayhuvokan", "San Antonio", "San Joaquin",
+  ],
+  Itbayat: [
+    "Raele", "San Rafael", "Santa Lucia", "Santa Maria", "Santa Rosa",
+  ],
+  Ivana: [
+    "Radiwan", "Salagao", "San Vicente", "Tuhel",
+  ],
+  Mahatao: [
+    "Hañib", "Kaumbakan", "Panatayan", "Uvoy",
+  ],
+  Sabtang: [
+    "Chavayan", "Malakdang", "Nakanmuan", "Savidug", "Sinakan", "Sumnanga",
+  ],
+  Uyugan: [
+    "Imnajbu", "Itbud", "Kayuganan", "Kayvaluganan",
+  ],
+}
@@ -0,0 +1,220 @@
+// Barangays of each town in Batangas, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Agoncillo: [
+    "Adia", "Bagong Sikat", "Balangon", "Bangin", "Banyaga", "Barigon", "Bilibinwang", "Coral Na Munti", "Guitna",
+    "Mabini", "Pamiga", "Panhulan", "Pansipit", "Poblacion", "Pook", "San Jacinto", "San Teodoro", "Santa Cruz",
+    "Santo Tomas", "Subic Ibaba", "Subic Ilaya",
+  ],
+  Alitagtag: [
+    "Balagbag", "Concepcion", "Concordia", "Dalipit East", "Dalipit West", "Dominador East", "Dominador West",
+    "Munlawin Norte", "Munlawin Sur", "Muzon Primero", "Muzon Segundo", "Pinagkurusan", "Ping-As", "Poblacion East",
+    "Poblacion West", "San Jose", "San Juan", "Santa Cruz", "Tadlac",
+  ],
+  Balayan: [
+    "Baclaran", "Barangay 1", "Barangay 2", "Barangay 3", "Barangay 4", "Barangay 5", "Barangay 6", "Barangay 7",
+    "Barangay 8", "Barangay 9", "Barangay 10", "Barangay 11", "Barangay 12", "Calan", "Caloocan", "Calzada", "Canda",
+    "Carenahan", "Caybunga", "Cayponce", "Dalig", "Dao", "Dilao", "Duhatan", "Durungao", "Gimalas", "Gumamela",
+    "Lagnas", "Lanatan", "Langgangan", "Lucban Pook", "Lucban Putol", "Magabe", "Malalay", "Munting Tubig", "Navotas",
+    "Palikpikan", "Patugo", "Pooc", "Sambat", "Sampaga", "San Juan", "San Piro", "Santol", "Sukol", "Tactac",
+    "Taludtud", "Tanggoy",
+  ],
+  Balete: [
+    "Alangilan", "Calawit", "Looc", "Magapi", "Makina", "Malabanan", "Paligawan", "Palsara", "Poblacion", "Sala",
+    "Sampalocan", "San Sebastian", "Solis",
+  ],
+  Batangas: [
+    "Alangilan", "Balagtas", "Balete", "Banaba Center", "Banaba Ibaba", "Banaba Kanluran", "Banaba Silangan",
+    "Barangay 1", "Barangay 2", "Barangay 3", "Barangay 4", "Barangay 5", "Barangay 6", "Barangay 7", "Barangay 8",
+    "Barangay 9", "Barangay 10", "Barangay 11", "Barangay 12", "Barangay 13", "Barangay 14", "Barangay 15",
+    "Barangay 16", "Barangay 17", "Barangay 18", "Barangay 19", "Barangay 20", "Barangay 21", "Barangay 22",
+    "Barangay 23", "Barangay 24", "Bilogo", "Bolbok", "Bukal", "Calicanto", "Catandala", "Concepcion", "Conde Itaas",
+    "Conde Labak", "Cuta", "Dalig", "Dela Paz", "Dela Paz Pulot Aplaya", "Dela Paz Pulot Itaas", "Domoclay", "Dumantay",
+    "Gulod Itaas", "Gulod Labak", "Haligue Kanluran", "Haligue Silangan", "Ilihan", "Kumba", "Kumintang Ibaba",
+    "Kumintang Ilaya", "Libjo", "Liponpon, Isla Verde", "Maapas", "Mabacong", "Mahabang Dahilig", "Mahabang Parang",
+    "Mahacot Kanluran", "Mahacot Silangan", "Malalim", "Malibayo", "Malitam", "Maruclap", "Pagkilatan",
+    "Paharang Kanluran", "Paharang Silangan", "Pallocan Kanluran", "Pallocan Silangan", "Pinamucan", "Pinamucan Ibaba",
+    "Pinamucan Silangan", "Sampaga", "San Agapito, Isla Verde", "San Agustin Kanluran, Isla Verde",
+    "San Agustin Silangan, Isla Verde", "San Andres, Isla Verde", "San Antonio, Isla Verde", "San Isidro",
+    "San Jose Sico", "San Miguel", "San Pedro", "Santa Clara", "Santa Rita Aplaya", "Santa Rita Karsada",
+    "Santo Domingo", "Santo Niño", "Simlong", "Sirang Lupa", "Sorosoro Ibaba", "Sorosoro Ilaya", "Sorosoro Karsada",
+    "Tabangao Ambulong", "Tabangao Aplaya", "Tabangao Dao", "Talahib Pandayan", "Talahib Payapa", "Talumpok Kanluran",
+    "Talumpok Silangan", "Tinga Itaas", "Tinga Labak", "Tulo", "Wawa",
+  ],
+  Bauan: [
+    "Alagao", "Aplaya", "As-Is", "Bagong Silang", "Baguilawa", "Balayong", "Barangay I", "Barangay II", "Barangay III",
+    "Barangay IV", "Bolo", "Colvo", "Cupang", "Durungao", "Gulibay", "Inicbulan", "Locloc", "Magalang-Galang",
+    "Malindig", "Manalupong", "Manghinao Proper", "Manghinao Uno", "New Danglayan", "Orense", "Pitugo", "Rizal",
+    "Sampaguita", "San Agustin", "San Andres Proper", "San Andres Uno", "San Diego", "San Miguel", "San Pablo",
+    "San Pedro", "San Roque", "San Teodoro", "San Vicente", "Santa Maria", "Santo Domingo", "Sinala",
+  ],
+  Calaca: [
+    "Baclas", "Bagong Tubig", "Balimbing", "Bambang", "Barangay 1", "Barangay 2", "Barangay 3", "Barangay 4",
+    "Barangay 5", "Barangay 6", "Bisaya", "Cahil", "Calantas", "Caluangan", "Camastilisan", "Coral Ni Bacal",
+    "Coral Ni Lopez", "Dacanlao", "Dila", "Loma", "Lumbang Calzada", "Lumbang Na Bata", "Lumbang Na Matanda",
+    "Madalunot", "Makina", "Matipok", "Munting Coral", "Niyugan", "Pantay", "Puting Bato East", "Puting Bato West",
+    "Puting Kahoy", "Quisumbing", "Salong", "San Rafael", "Sinisian", "Taklang Anak", "Talisay", "Tamayo", "Timbain",
+  ],
+  Calatagan: [
+    "Bagong Silang", "Baha", "Balibago", "Balitoc", "Barangay 1", "Barangay 2", "Barangay 3", "Barangay 4", "Biga",
+    "Bucal", "Carlosa", "Carretunan", "Encarnacion", "Gulod", "Hukay", "Lucsuhin", "Luya", "Paraiso", "Quilitisan",
+    "Real", "Sambungan", "Santa Ana", "Talibayog", "Talisay", "Tanagan",
+  ],
+  Cuenca: [
+    "Balagbag", "Barangay 1", "Barangay 2", "Barangay 3", "Barangay 4", "Barangay 5", "Barangay 6", "Barangay 7",
+    "Barangay 8", "Bungahan", "Calumayin", "Dalipit East", "Dalipit West", "Dita", "Don Juan", "Emmanuel", "Ibabao",
+    "Labac", "Pinagkaisahan", "San Felipe", "San Isidro",
+  ],
+  Ibaan: [
+    "Bago", "Balanga", "Bungahan", "Calamias", "Catandala", "Coliat", "Dayapan", "Lapu-lapu", "Lucsuhin", "Mabalor",
+    "Malainin", "Matala", "Munting-Tubig", "Palindan", "Pangao", "Panghayaan", "Poblacion", "Quilo", "Sabang",
+    "Salaban I", "Salaban II", "San Agustin", "Sandalan", "Santo Niño", "Talaibon", "Tulay Na Patpat",
+  ],
+  Laurel: [
+    "As-Is", "Balakilong", "Barangay 1", "Barangay 2", "Barangay 3", "Barangay 4", "Barangay 5", "Berinayan",
+    "Bugaan East", "Bugaan West", "Buso-buso", "Dayap Itaas", "Gulod", "J. Leviste", "Molinete", "Niyugan", "Paliparan",
+    "San Gabriel", "San Gregorio", "Santa Maria", "Ticub",
+  ],
+  Lemery: [
+    "Anak-Dagat", "Arumahan", "Ayao-iyao", "Bagong Pook", "Bagong Sikat", "Balanga", "Bukal", "Cahilan I", "Cahilan II",
+    "Dayapan", "District I", "District II", "District III", "District IV", "Dita", "Gulod", "Lucky", "Maguihan",
+    "Mahabang Dahilig", "Mahayahay", "Maigsing Dahilig", "Maligaya", "Malinis", "Masalisi", "Mataas Na Bayan",
+    "Matingain I", "Matingain II", "Mayasang", "Niugan", "Nonong Casto", "Palanas", "Payapa Ibaba", "Payapa Ilaya",
+    "Rizal", "Sambal Ibaba", "Sambal Ilaya", "San Isidro Ibaba", "San Isidro Itaas", "Sangalang", "Sinisian East",
+    "Sinisian West", "Talaga", "Tubigan", "Tubuan", "Wawa Ibaba", "Wawa Ilaya",
+  ],
+  Lian: [
+    "Bagong Pook", "Balibago", "Barangay 1", "Barangay 2", "Barangay 3", "Barangay 4", "Barangay 5", "Binubusan",
+    "Bungahan", "Cumba", "Humayingan", "Kapito", "Lumaniag", "Luyahan", "Malaruhatan", "Matabungkay", "Prenza",
+    "Puting-Kahoy", "San Diego",
+  ],
+  Lipa: [
+    "Adya", "Anilao", "Anilao-Labac", "Antipolo Del Norte", "Antipolo Del Sur", "Bagong Pook", "Balintawak",
+    "Banaybanay", "Barangay 12", "Bolbok", "Bugtong na Pulo", "Bulacnin", "Bulaklakan", "Calamias", "Cumba", "Dagatan",
+    "Duhatan", "Halang", "Inosloban", "Kayumanggi", "Latag", "Lodlod", "Lumbang", "Mabini", "Malagonlong", "Malitlit",
+    "Marauoy", "Mataas Na Lupa", "Munting Pulo", "Pagolingin Bata", "Pagolingin East", "Pagolingin West", "Pangao",
+    "Pinagkawitan", "Pinagtongulan", "Plaridel", "Poblacion Barangay 1", "Poblacion Barangay 2", "Poblacion Barangay 3",
+    "Poblacion Barangay 4", "Poblacion Barangay 5", "Poblacion Barangay 6", "Poblacion Barangay 7",
+    "Poblacion Barangay 8", "Poblacion Barangay 9", "Poblacion Barangay 9-A", "Poblacion Barangay 10",
+    "Poblacion Barangay 11", "Pusil", "Quezon", "Rizal", "Sabang", "Sampaguita", "San Benito", "San Carlos",
+    "San Celestino", "San Francisco", "San Guillermo", "San Jose", "San Lucas", "San Salvador", "San Sebastian",
+    "Santo Niño", "Santo Toribio", "Sapac", "Sico", "Talisay", "Tambo", "Tangob", "Tanguay", "Tibig", "Tipacan",
+  ],
+  Lobo: [
+    "Apar", "Balatbat", "Balibago", "Banalo", "Biga", "Bignay", "Calo", "Calumpit", "Fabrica", "Jaybanga", "Lagadlarin",
+    "Mabilog Na Bundok", "Malabrigo", "Malalim Na Sanog", "Malapad Na Parang", "Masaguitsit", "Nagtalongtong",
+    "Nagtoctoc", "Olo-olo", "Pinaghawanan", "Poblacion", "San Miguel", "San Nicolas", "Sawang", "Soloc", "Tayuman",
+  ],
+  Mabini: [
+    "Anilao East", "Anilao Proper", "Bagalangit", "Bulacan", "Calamias", "Estrella", "Gasang", "Laurel", "Ligaya",
+    "Mainaga", "Mainit", "Majuben", "Malimatoc I", "Malimatoc II", "Nag-Iba", "Pilahan", "Poblacion", "Pulang Lupa",
+    "Pulong Anahao", "Pulong Balibaguhan", "Pulong Niogan", "Saguing", "Sampaguita", "San Francisco", "San Jose",
+    "San Juan", "San Teodoro", "Santa Ana", "Santa Mesa", "Santo Niño", "Santo Tomas", "Solo", "Talaga East",
+    "Talaga Proper",
+  ],
+  Malvar: [
+    "Bagong Pook", "Bilucao", "Bulihan", "Luta Del Norte", "Luta Del Sur", "Poblacion", "San Andres", "San Fernando",
+    "San Gregorio", "San Isidro East", "San Juan", "San Pedro I", "San Pedro II", "San Pioquinto", "Santiago",
+  ],
+  Mataasnakahoy: [
+    "Barangay II-A", "Bayorbor", "Bubuyan", "Calingatan", "District I", "District II", "District III", "District IV",
+    "Kinalaglagan", "Loob", "Lumang Lipa", "Manggahan", "Nangkaan", "San Sebastian", "Santol", "Upa",
+  ],
+  Nasugbu: [
+    "Aga", "Balaytigui", "Banilad", "Barangay 1", "Barangay 2", "Barangay 3", "Barangay 4", "Barangay 5", "Barangay 6",
+    "Barangay 7", "Barangay 8", "Barangay 9", "Barangay 10", "Barangay 11", "Barangay 12", "Bilaran", "Bucana",
+    "Bulihan", "Bunducan", "Butucan", "Calayo", "Catandaan", "Cogunan", "Dayap", "Kaylaway", "Kayrilaw", "Latag",
+    "Looc", "Lumbangan", "Malapad Na Bato", "Mataas Na Pulo", "Maugat", "Munting Indan", "Natipuan", "Pantalan",
+    "Papaya", "Putat", "Reparo", "Talangan", "Tumalim", "Utod", "Wawa",
+  ],
+  "Padre Garcia": [
+    "Banaba", "Banaybanay", "Bawi", "Bukal", "Castillo", "Cawongan", "Manggas", "Maugat East", "Maugat West", "Pansol",
+    "Payapa", "Poblacion", "Quilo-quilo North", "Quilo-quilo South", "San Felipe", "San Miguel", "Tamak", "Tangob",
+  ],
+  Rosario: [
+    "Alupay", "Antipolo", "Bagong Pook", "Balibago", "Barangay A", "Barangay B", "Barangay C", "Barangay D",
+    "Barangay E", "Bayawang", "Baybayin", "Bulihan", "Cahigam", "Calantas", "Colongan", "Itlugan", "Leviste",
+    "Lumbangan", "Maalas-As", "Mabato", "Mabunga", "Macalamcam A", "Macalamcam B", "Malaya", "Maligaya", "Marilag",
+    "Masaya", "Matamis", "Mavalor", "Mayuro", "Namuco", "Namunga", "Nasi", "Natu", "Palakpak", "Pinagsibaan",
+    "Putingkahoy", "Quilib", "Salao", "San Carlos", "San Ignacio", "San Isidro", "San Jose", "San Roque", "Santa Cruz",
+    "Timbugan", "Tiquiwan", "Tulos",
+  ],
+  "San Jose": [
+    "Aguila", "Anus", "Aya", "Bagong Pook", "Balagtasin", "Balagtasin I", "Banaybanay I", "Banaybanay II", "Bigain I",
+    "Bigain II", "Bigain South", "Calansayan", "Dagatan", "Don Luis", "Galamay-Amo", "Lalayat", "Lapolapo I",
+    "Lapolapo II", "Lepute", "Lumil", "Mojon-Tampoy", "Natunuan", "Palanca", "Pinagtung-Ulan", "Poblacion Barangay I",
+    "Poblacion Barangay II", "Poblacion Barangay III", "Poblacion Barangay IV", "Sabang", "Salaban", "Santo Cristo",
+    "Taysan", "Tugtug",
+  ],
+  "San Juan": [
+    "Abung", "Balagbag", "Barualte", "Bataan", "Buhay Na Sapa", "Bulsa", "Calicanto", "Calitcalit", "Calubcub I",
+    "Calubcub II", "Catmon", "Coloconto", "Escribano", "Hugom", "Imelda", "Janaojanao", "Laiya-Aplaya", "Laiya-Ibabao",
+    "Libato", "Lipahan", "Mabalanoy", "Maraykit", "Muzon", "Nagsaulay", "Palahanan I", "Palahanan II", "Palingowak",
+    "Pinagbayanan", "Poblacion", "Poctol", "Pulangbato", "Putingbuhangin", "Quipot", "Sampiro", "Sapangan", "Sico I",
+    "Sico II", "Subukin", "Talahiban I", "Talahiban II", "Ticalan", "Tipaz",
+  ],
+  "San Luis": [
+    "Abiacao", "Bagong Tubig", "Balagtasin", "Balite", "Banoyo", "Boboy", "Bonliw", "Calumpang East", "Calumpang West",
+    "Dulangan", "Durungao", "Locloc", "Luya", "Mahabang Parang", "Manggahan", "Muzon", "Poblacion", "San Antonio",
+    "San Isidro", "San Jose", "San Martin", "Santa Monica", "Taliba", "Talon", "Tejero", "Tungal",
+  ],
+  "San Nicolas": [
+    "Abelo", "Alas-as", "Balete", "Baluk-baluk", "Bancoro", "Bangin", "Calangay", "Hipit", "Maabud North",
+    "Maabud South", "Munlawin", "Pansipit", "Poblacion", "Pulang-Bato", "Santo Niño", "Sinturisan", "Tagudtod",
+    "Talang",
+  ],
+  "San Pascual": [
+    "Alalum", "Antipolo", "Balimbing", "Banaba", "Bayanan", "Danglayan", "Del Pilar", "Gelerang Kawayan", "Ilat North",
+    "Ilat South", "Kaingin", "Laurel", "Malaking Pook", "Mataas Na Lupa", "Natunuan North", "Natunuan South",
+    "Padre Castillo", "Palsahingin", "Pila", "Poblacion", "Pook Ni Banal", "Pook Ni Kapitan", "Resplandor", "Sambat",
+    "San Antonio", "San Mariano", "San Mateo", "Santa Elena", "Santo Niño",
+  ],
+  "Santa Teresita": [
+    "Antipolo", "Bihis", "Burol", "Calayaan", "Calumala", "Cuta East", "Cutang Cawayan", "Irukan", "Pacifico",
+    "Poblacion I", "Poblacion II", "Poblacion III", "Saimsim", "Sampa", "Sinipian", "Tambo Ibaba", "Tambo Ilaya",
+  ],
+  "Sto. Tomas": [
+    "Barangay I", "Barangay II", "Barangay III", "Barangay IV", "San Agustin", "San Antonio", "San Bartolome",
+    "San Felix", "San Fernando", "San Francisco", "San Isidro Norte", "San Isidro Sur", "San Joaquin", "San Jose",
+    "San Juan", "San Luis", "San Miguel", "San Pablo", "San Pedro", "San Rafael", "San Roque", "San Vicente",
+    "Santa Ana", "Santa Anastacia", "Santa Clara", "Santa Cruz", "Santa Elena", "Santa Maria", "Santa Teresita",
+    "Santiago",
+  ],
+  Taal: [
+    "Apacay", "Balisong", "Bihis", "Bolbok", "Buli", "Butong", "Carasuche", "Cawit", "Caysasay", "Cubamba", "Cultihan",
+    "Gahol", "Halang", "Iba", "Ilog", "Imamawo", "Ipil", "Laguile", "Latag", "Luntal", "Mahabang Lodlod", "Niogan",
+    "Pansol", "Poblacion 1", "Poblacion 2", "Poblacion 3", "Poblacion 4", "Poblacion 5", "Poblacion 6", "Poblacion 7",
+    "Poblacion 8", "Poblacion 9", "Poblacion 10", "Poblacion 11", "Poblacion 12", "Poblacion 13", "Poblacion 14",
+    "Pook", "Seiran", "Tatlong Maria", "Tierra Alta", "Tulo",
+  ],
+  Talisay: [
+    "Aya", "Balas", "Banga", "Buco", "Caloocan", "Leynes", "Miranda", "Poblacion Barangay 1", "Poblacion Barangay 2",
+    "Poblacion Barangay 3", "Poblacion Barangay 4", "Poblacion Barangay 5", "Poblacion Barangay 6",
+    "Poblacion Barangay 7", "Poblacion Barangay 8", "Quiling", "Sampaloc", "San Guillermo", "Santa Maria", "Tranca",
+    "Tumaway",
+  ],
+  Tanauan: [
+    "Altura Bata", "Altura Matanda", "Altura-South", "Ambulong", "Bagbag", "Bagumbayan", "Balele", "Banadero",
+    "Banjo East", "Banjo Laurel", "Bilog-bilog", "Boot", "Cale", "Darasa", "Gonzales", "Hidalgo", "Janopol",
+    "Janopol Oriental", "Laurel", "Luyos", "Mabini", "Malaking Pulo", "Maria Paz", "Maugat", "Montaña", "Natatas",
+    "Pagaspas", "Pantay Bata", "Pantay Matanda", "Poblacion Barangay 1", "Poblacion Barangay 2", "Poblacion Barangay 3",
+    "Poblacion Barangay 4", "Poblacion Barangay 5", "Poblacion Barangay 6", "Poblacion Barangay 7", "Sala", "Sambat",
+    "San Jose", "Santol", "Santor", "Sulpoc", "Suplang", "Talaga", "Tinurik", "Trapiche", "Ulango", "Wawa",
+  ],
+  Taysan: [
+    "Bacao", "Bilogo", "Bukal", "Dagatan", "Guinhawa", "Laurel", "Mabayabas", "Mahanadiong", "Mapulo", "Mataas Na Lupa",
+    "Pag-Asa", "Panghayaan", "Pinagbayanan", "Piña", "Poblacion East", "Poblacion West", "San Isidro", "San Marcelino",
+    "Santo Niño", "Tilambo",
+  ],
+  Tingloy: [
+    "Barangay 13", "Barangay 14", "Barangay 15", "Corona", "Gamao", "Makawayan", "Marikaban", "Papaya", "Pisa",
+    "San Isidro", "San Jose", "San Juan", "San Pedro", "Santo Tomas", "Talahib",
+  ],
+  Tuy: [
+    "Acle", "Bayudbud", "Bolboc", "Burgos", "Dalima", "Dao", "Guinhawa", "Lumbangan", "Luna", "Luntal", "Magahis",
+    "Malibu", "Mataywanac", "Palincaro", "Putol", "Rillo", "Rizal", "Sabang", "San Jose", "Talon", "Toong",
+    "Tuyon-tuyon",
+  ],
+}
@@ -0,0 +1,51 @@
+// Barangays of each town in Benguet, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Atok: [
+    "Abiang", "Caliking", "Cattubo", "Naguey", "Paoay", "Pasdong", "Poblacion", "Topdac",
+  ],
+  Bakun: [
+    "Ampusongan", "Bagu", "Dalipey", "Gambang", "Kayapa", "Poblacion", "Sinacbat",
+  ],
+  Bokod: [
+    "Ambuclao", "Bila", "Bobok-Bisal", "Daclan", "Ekip", "Karao", "Nawal", "Pito", "Poblacion", "Tikey",
+  ],
+  Buguias: [
+    "Abatan", "Amgaleyguey", "Amlimay", "Baculongan Norte", "Baculongan Sur", "Bangao", "Buyacaoan", "Calamagan",
+    "Catlubong", "Lengaoan", "Loo", "Natubleng", "Poblacion", "Sebang",
+  ],
+  Itogon: [
+    "Ampucao", "Dalupirip", "Gumatdang", "Loacan", "Poblacion", "Tinongdan", "Tuding", "Ucab", "Virac",
+  ],
+  Kabayan: [
+    "Adaoay", "Anchukey", "Ballay", "Bashoy", "Batan", "Duacan", "Eddet", "Gusaran", "Kabayan Barrio", "Lusod", "Pacso",
+    "Poblacion", "Tawangan",
+  ],
+  Kapangan: [
+    "Balakbak", "Beleng-Belis", "Boklaoan", "Cayapes", "Cuba", "Datakan", "Gadang", "Gaswiling", "Labueg", "Paykek",
+    "Poblacion Central", "Pongayan", "Pudong", "Sagubo", "Taba-ao",
+  ],
+  Kibungan: [
+    "Badeo", "Lubo", "Madaymen", "Palina", "Poblacion", "Sagpat", "Tacadang",
+  ],
+  "La Trinidad": [
+    "Alapang", "Alno", "Ambiong", "Bahong", "Balili", "Beckel", "Betag", "Bineng", "Cruz", "Lubas", "Pico", "Poblacion",
+    "Puguis", "Shilan", "Tawang", "Wangal",
+  ],
+  Mankayan: [
+    "Balili", "Bedbed", "Bulalacao", "Cabiten", "Colalo", "Guinaoang", "Paco", "Palasaan", "Poblacion", "Sapid",
+    "Tabio", "Taneg",
+  ],
+  Sablan: [
+    "Bagong", "Balluay", "Banangan", "Banengbeng", "Bayabas", "Kamog", "Pappa", "Poblacion",
+  ],
+  Tuba: [
+    "Ansagan", "Camp 3", "Camp 4", "Camp One", "Nangalisan", "Poblacion", "San Pascual", "Tabaan Norte", "Tabaan Sur",
+    "Tadiangan", "Taloy Norte", "Taloy Sur", "Twin Peaks",
+  ],
+  Tublay: [
+    "Ambassador", "Ambongdolan", "Ba-ayan", "Basil", "Caponga", "Daclan", "Tublay Central", "Tuel",
+  ],
+}
@@ -0,0 +1,41 @@
+// Barangays of each town in Biliran, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Almeria: [
+    "Caucab", "Iyosan", "Jamorawon", "Lo-ok", "Matanga", "Pili", "Poblacion", "Pulang Bato", "Salangi", "Sampao",
+    "Tabunan", "Talahid", "Tamarindo",
+  ],
+  Biliran: [
+    "Bato", "Burabod", "Busali", "Canila", "Hugpa", "Julita", "Pinangumhan", "San Isidro", "San Roque", "Sanggalang",
+    "Villa Enage",
+  ],
+  Cabucgayan: [
+    "Balaquid", "Baso", "Bunga", "Caanibongan", "Casiawan", "Esperanza", "Langgao", "Libertad", "Looc", "Magbangon",
+    "Pawikan", "Salawad", "Talibong",
+  ],
+  Caibiran: [
+    "Alegria", "Asug", "Bari-is", "Binohangan", "Cabibihan", "Caulangohan", "Kawayanon", "Looc", "Manlabang", "Maurang",
+    "Palanay", "Palengke", "Tomalistis", "Union", "Uson", "Victory", "Villa Vicenta",
+  ],
+  Culaba: [
+    "Acaban", "Bacolod", "Binongtoan", "Bool Central", "Bool East", "Bool West", "Calipayan", "Culaba Central",
+    "Guindapunan", "Habuhab", "Looc", "Marvel", "Patag", "Pinamihagan", "Salvacion", "San Roque", "Virginia",
+  ],
+  Kawayan: [
+    "Baganito", "Balacson", "Balite", "Bilwang", "Bulalacao", "Burabod", "Buyo", "Inasuyan", "Kansanok", "Mada-o",
+    "Mapuyo", "Masagaosao", "Masagongsong", "Poblacion", "San Lorenzo", "Tabunan North", "Tubig Guinoo", "Tucdao",
+    "Ungale", "Villa Cornejo",
+  ],
+  Maripipi: [
+    "Agutay", "Banlas", "Bato", "Binalayan East", "Binalayan West", "Binongto-an", "Burabod", "Calbani", "Canduhao",
+    "Casibang", "Danao", "Ermita", "Ol-og", "Trabugan", "Viga",
+  ],
+  Naval: [
+    "Agpangi", "Anislagan", "Atipolo", "Borac", "Cabungaan", "Calumpang", "Capiñahan", "Caraycaray", "Catmon",
+    "Haguikhikan", "Imelda", "Larrazabal", "Libertad", "Libtong", "Lico", "Lucsoon", "Mabini", "Padre Inocentes Garcia",
+    "Padre Sergio Eamiguel", "Sabang", "San Pablo", "Santissimo Rosario Pob.", "Santo Niño", "Talustusan",
+    "Villa Caneja", "Villa Consuelo",
+  ],
+}
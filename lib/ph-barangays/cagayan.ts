@@ -0,0 +1,171 @@
+// Barangays of each town in Cagayan, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Abulug: [
+    "Alinunu", "Bagu", "Banguian", "Calog Norte", "Calog Sur", "Canayun", "Centro", "Dana-Ili", "Guiddam", "Libertad",
+    "Lucban", "Pinili", "San Agustin", "San Julian", "Santa Filomena", "Santa Rosa", "Santo Tomas", "Siguiran",
+    "Simayung", "Sirit",
+  ],
+  Alcala: [
+    "Abbeg", "Afusing Bato", "Afusing Daga", "Agani", "Baculod", "Baybayog", "Cabuluan", "Calantac", "Carallangan",
+    "Centro Norte", "Centro Sur", "Dalaoig", "Damurog", "Jurisdiccion", "Malalatan", "Maraburab", "Masin",
+    "Pagbangkeruan", "Pared", "Piggatan", "Pinopoc", "Pussian", "San Esteban", "Tamban", "Tupang",
+  ],
+  Allacapan: [
+    "Bessang", "Binobongan", "Bulo", "Burot", "Capagaran", "Capalutan", "Capanickian Norte", "Capanickian Sur",
+    "Cataratan", "Centro East", "Centro West", "Daan-Ili", "Dagupan", "Dalayap", "Gagaddangan", "Iringan", "Labben",
+    "Maluyo", "Mapurao", "Matucay", "Nagattatan", "Pacac", "San Juan", "Silagan", "Tamboli", "Tubel", "Utan",
+  ],
+  Amulung: [
+    "Abolo", "Agguirit", "Alituntung", "Annabuculan", "Annafatan", "Anquiray", "Babayuan", "Baccuit", "Bacring",
+    "Baculud", "Balauini", "Bauan", "Bayabat", "Calamagui", "Calintaan", "Caratacat", "Casingsingan Norte",
+    "Casingsingan Sur", "Catarauan", "Centro", "Concepcion", "Cordova", "Dadda", "Dafunganay", "Dugayung", "Estefania",
+    "Gabut", "Gangauan", "Goran", "Jurisdiccion", "La Suerte", "Logung", "Magogod", "Manalo", "Marobbob", "Masical",
+    "Monte Alegre", "Nabbialan", "Nagsabaran", "Nangalasauan", "Nanuccauan", "Pacac-Grande", "Pacac-Pequeño", "Palacu",
+    "Palayag", "Tana", "Unag",
+  ],
+  Aparri: [
+    "Backiling", "Bangag", "Binalan", "Bisagu", "Bukig", "Bulala Norte", "Bulala Sur", "Caagaman", "Centro 1",
+    "Centro 2", "Centro 3", "Centro 4", "Centro 5", "Centro 6", "Centro 7", "Centro 8", "Centro 9", "Centro 10",
+    "Centro 11", "Centro 12", "Centro 13", "Centro 14", "Centro 15", "Dodan", "Fuga Island", "Gaddang", "Linao",
+    "Mabanguc", "Macanaya", "Maura", "Minanga", "Navagan", "Paddaya", "Paruddun Norte", "Paruddun Sur", "Plaza",
+    "Punta", "San Antonio", "Sanja", "Tallungan", "Toran", "Zinarag",
+  ],
+  Baggao: [
+    "Adaoag", "Agaman", "Agaman Norte", "Agaman Sur", "Alba", "Annayatan", "Asassi", "Asinga-Via", "Awallan", "Bacagan",
+    "Bagunot", "Barsat East", "Barsat West", "Bitag Grande", "Bitag Pequeño", "Bunugan", "C. Verzosa", "Canagatan",
+    "Carupian", "Catugay", "Dabbac Grande", "Dalin", "Dalla", "Hacienda Intal", "Ibulo", "Imurung", "J. Pallagao",
+    "Lasilat", "Mabini", "Masical", "Mocag", "Nangalinan", "Poblacion", "Remus", "San Antonio", "San Francisco",
+    "San Isidro", "San Jose", "San Miguel", "San Vicente", "Santa Margarita", "Santor", "Taguing", "Taguntungan",
+    "Tallang", "Taytay", "Temblique", "Tungel",
+  ],
+  Ballesteros: [
+    "Ammubuan", "Baran", "Cabaritan East", "Cabaritan West", "Cabayu", "Cabuluan East", "Cabuluan West", "Centro East",
+    "Centro West", "Fugu", "Mabuttal East", "Mabuttal West", "Nararagan", "Palloc", "Payagan East", "Payagan West",
+    "San Juan", "Santa Cruz", "Zitanga",
+  ],
+  Buguey: [
+    "Ballang", "Balza", "Cabaritan", "Calamegatan", "Centro", "Centro West", "Dalaya", "Fula", "Leron", "M. Antiporda",
+    "Maddalero", "Mala Este", "Mala Weste", "Minanga Este", "Minanga Weste", "Paddaya Este", "Paddaya Weste", "Pattao",
+    "Quinawegan", "Remebella", "San Isidro", "San Juan", "San Lorenzo", "San Vicente", "Santa Isabel", "Santa Maria",
+    "Tabbac", "Villa Cielo", "Villa Gracia", "Villa Leonora",
+  ],
+  Calayan: [
+    "Babuyan Claro", "Balatubat", "Cabudadan", "Centro II", "Dadao", "Dalupiri", "Dibay", "Dilam", "Magsidel",
+    "Minabel", "Naguilian", "Poblacion",
+  ],
+  Camalaniugan: [
+    "Abagao", "Afunan Cabayu", "Agusi", "Alilinu", "Baggao", "Bantay", "Bulala", "Casili Norte", "Casili Sur",
+    "Catotoran Norte", "Catotoran Sur", "Centro Norte", "Centro Sur", "Cullit", "Dacalla-Fugu", "Dammang Norte",
+    "Dammang Sur", "Dugo", "Fusina", "Gang-ngo", "Jurisdiccion", "Luec", "Minanga", "Paragat", "Sapping", "Tagum",
+    "Tulutuging", "Ziminila",
+  ],
+  Claveria: [
+    "Alimoan", "Bacsay Cataraoan Norte", "Bacsay Cataraoan Sur", "Bacsay Mapulapula", "Bilibigao", "Buenavista",
+    "Cadcadir East", "Cadcadir West", "Camalaggoan/D Leaño", "Capannikian", "Centro I", "Centro II", "Centro III",
+    "Centro IV", "Centro V", "Centro VI", "Centro VII", "Centro VIII", "Culao", "Dibalio", "Kilkiling", "Lablabig",
+    "Luzon", "Mabnang", "Magdalena", "Malilitao", "Nagsabaran", "Pata East", "Pata West", "Pinas", "San Antonio",
+    "San Isidro", "San Vicente", "Santiago", "Sta. Maria", "Sto. Niño", "Sto. Tomas", "Tabbugan", "Taggat Norte",
+    "Taggat Sur", "Union",
+  ],
+  Enrile: [
+    "Alibago", "Barangay I", "Barangay II", "Barangay III", "Barangay III-A", "Barangay IV", "Batu", "Divisoria",
+    "Inga", "Lanna", "Lemu Norte", "Lemu Sur", "Liwan Norte", "Liwan Sur", "Maddarulug Norte", "Maddarulug Sur",
+    "Magalalag East", "Magalalag West", "Marracuru", "Roma Norte", "Roma Sur", "San Antonio",
+  ],
+  Gattaran: [
+    "Abra", "Aguiguican", "Bangatan Ngagan", "Baracaoit", "Baraoidan", "Barbarit", "Basao", "Bolos Point", "Cabayu",
+    "Calaoagan Bassit", "Calaoagan Dackel", "Capiddigan", "Capissayan Norte", "Capissayan Sur", "Casicallan Norte",
+    "Casicallan Sur", "Centro Norte", "Centro Sur", "Cullit", "Cumao", "Cunig", "Dummun", "Fugu", "Ganzano", "Guising",
+    "L. Adviento", "Langgan", "Lapogan", "Mabuno", "Nabaccayan", "Naddungan", "Nagatutuan", "Nassiping", "Newagac",
+    "Palagao Norte", "Palagao Sur", "Piña Este", "Piña Weste", "San Carlos", "San Vicente", "Santa Maria", "Sidem",
+    "Sta. Ana", "T. Elizaga", "Tagumay", "Takiki", "Taligan", "Tanglagan", "Tubungan Este", "Tubungan Weste",
+  ],
+  Gonzaga: [
+    "Amunitan", "Batangan", "Baua", "Cabanbanan Norte", "Cabanbanan Sur", "Cabiraoan", "Calayan", "Callao", "Caroan",
+    "Casitan", "Flourishing", "Ipil", "Isca", "Magrafil", "Minanga", "Paradise", "Pateng", "Progressive", "Rebecca",
+    "San Jose", "Santa Clara", "Santa Cruz", "Santa Maria", "Smart", "Tapel",
+  ],
+  Iguig: [
+    "Ajat", "Atulu", "Baculud", "Bayo", "Campo", "Dumpao", "Gammad", "Garab", "Malabbac", "Manaoag", "Minanga Norte",
+    "Minanga Sur", "Nattanzan", "Redondo", "Salamague", "San Esteban", "San Isidro", "San Lorenzo", "San Vicente",
+    "Santa Barbara", "Santa Rosa", "Santa Teresa", "Santiago",
+  ],
+  "Lal-Lo": [
+    "Abagao", "Alaguia", "Bagumbayan", "Bangag", "Bical", "Bicud", "Binag", "Cabayabasan", "Cagoran", "Cambong",
+    "Catayauan", "Catugan", "Centro", "Cullit", "Dagupan", "Dalaya", "Fabrica", "Fusina", "Jurisdiction", "Lalafugan",
+    "Logac", "Magallungon (Sta. Teresa)", "Magapit", "Malanao", "Maxingal", "Naguilian", "Paranum", "Rosario",
+    "San Antonio", "San Jose", "San Juan", "San Lorenzo", "San Mariano", "Sta. Maria", "Tucalana",
+  ],
+  Lasam: [
+    "Aggunetan", "Alannay", "Battalan", "Cabatacan East", "Cabatacan West", "Calapangan Norte", "Calapangan Sur",
+    "Callao Norte", "Callao Sur", "Cataliganan", "Centro I", "Centro II", "Centro III", "Finugo Norte", "Gabun",
+    "Ignacio Jurado", "Magsaysay", "Malinta", "Minanga Norte", "Minanga Sur", "Nabannagan East", "Nabannagan West",
+    "New Orlins", "Nicolas Agatep", "Peru", "San Pedro", "Sicalao", "Tagao", "Tucalan Passing", "Viga",
+  ],
+  Pamplona: [
+    "Abanqueruan", "Allasitan", "Bagu", "Balingit", "Bidduang", "Cabaggan", "Capalalian", "Casitan", "Centro", "Curva",
+    "Gattu", "Masi", "Nagattatan", "Nagtupacan", "San Juan", "Santa Cruz", "Tabba", "Tupanna",
+  ],
+  "Peñablanca": [
+    "Aggugaddan", "Alimannao", "Baliuag", "Bical", "Bugatay", "Buyun", "Cabasan", "Cabbo", "Callao", "Camasi", "Centro",
+    "Dodan", "Lapi", "Malibabag", "Manga", "Minanga", "Nabbabalayan", "Nanguilattan", "Nannarian", "Parabba",
+    "Patagueleg", "Quibal", "San Roque", "Sisim",
+  ],
+  Piat: [
+    "Apayao", "Aquib", "Baung", "Calaoagan", "Catarauan", "Dugayung", "Gumarueng", "Macapil", "Maguilling", "Minanga",
+    "Poblacion I", "Poblacion II", "Santa Barbara", "Santo Domingo", "Sicatna", "Villa Rey", "Villa Reyno", "Warat",
+  ],
+  Rizal: [
+    "Anagguan", "Anungu", "Anurturu", "Baluncanag", "Battut", "Batu", "Bural", "Cambabangan", "Capaccuan", "Dungan",
+    "Duyun", "Gaddangao", "Gaggabutan East", "Gaggabutan West", "Illuru Norte", "Illuru Sur", "Lattut", "Linno-C",
+    "Liuan", "Mabbang", "Masi", "Mauanan", "Minanga", "Nanauatan", "Nanungaran", "Pasingan", "Poblacion", "San Juan",
+    "Sinicking",
+  ],
+  "Sanchez-Mira": [
+    "Bangan", "Callungan", "Centro I", "Centro II", "Dacal", "Dagueray", "Dammang", "Kittag", "Langagan", "Magacan",
+    "Marzan", "Masisit", "Nagrangtayan", "Namuac", "San Andres", "Santiago", "Santor", "Tokitok",
+  ],
+  "Santa Ana": [
+    "Batu-Parada", "Casagan", "Casambalangan", "Centro", "Diora-Zinungan", "Dungeg", "Kapanikian", "Marede", "Palawig",
+    "Patunungan", "Rapuli", "San Vicente", "Santa Clara", "Santa Cruz", "Tangatan", "Visitacion",
+  ],
+  "Santa Praxedes": [
+    "Cadongdongan", "Capacuan", "Centro I", "Centro II", "Macatel", "Portabaga", "Salungsong", "San Juan", "San Miguel",
+    "Sicul",
+  ],
+  "Santa Teresita": [
+    "Alucao", "Aridowen", "Buyun", "Caniugan", "Centro East", "Centro West", "Dungeg", "Luga", "Masi", "Mission",
+    "Simbaluca", "Simpatuyo", "Villa",
+  ],
+  "Santo Niño": [
+    "Abariongan Ruar", "Abariongan Uneg", "Balagan", "Balanni", "Cabayo", "Calapangan", "Calassitan", "Campo",
+    "Centro Norte", "Centro Sur", "Dungao", "Lattac", "Lipatan", "Lubo", "Mabitbitnong", "Mapitac", "Masical",
+    "Matalao", "Nag-uma", "Namuccayan", "Niug Norte", "Niug Sur", "Palusao", "San Manuel", "San Roque",
+    "Santa Felicitas", "Santa Maria", "Sidiran", "Tabang", "Tamucco", "Virginia",
+  ],
+  Solana: [
+    "Andarayan North", "Andarayan South", "Bangag", "Bantay", "Basi East", "Basi West", "Bauan East", "Bauan West",
+    "Cadaanan", "Calamagui", "Calillauan", "Carilucud", "Cattaran", "Centro Northeast", "Centro Northwest",
+    "Centro Southeast", "Centro Southwest", "Dassun", "Furagui", "Gadu", "Gen. Eulogio Balao", "Iraga", "Lanna",
+    "Lannig", "Lingu", "Maddarulug", "Maguirig", "Malalam-Malacabibi", "Nabbotuan", "Nangalisan", "Natappian East",
+    "Natappian West", "Padul", "Palao", "Parug-parug", "Pataya", "Sampaguita", "Ubong",
+  ],
+  Tuao: [
+    "Accusilian", "Alabiao", "Alabug", "Angang", "Bagumbayan", "Barancuag", "Battung", "Bicok", "Bugnay", "Bulagao",
+    "Cagumitan", "Cato", "Culung", "Dagupan", "Fugu", "Lakambini", "Lallayug", "Malalinta", "Malummin", "Mambacag",
+    "Mungo", "Naruangan", "Palca", "Pata", "Poblacion I", "Poblacion II", "San Juan", "San Luis", "San Vicente",
+    "Sto. Tomas", "Taribubu", "Villalaida",
+  ],
+  Tuguegarao: [
+    "Annafunan East", "Annafunan West", "Atulayan Norte", "Atulayan Sur", "Bagay", "Buntun", "Caggay", "Capatan",
+    "Carig", "Caritan Centro", "Caritan Norte", "Caritan Sur", "Cataggaman Nuevo", "Cataggaman Pardo",
+    "Cataggaman Viejo", "Centro 1", "Centro 2", "Centro 3", "Centro 4", "Centro 5", "Centro 6", "Centro 7", "Centro 8",
+    "Centro 9", "Centro 10", "Centro 11", "Centro 12", "Dadda", "Gosi Norte", "Gosi Sur", "Larion Alto", "Larion Bajo",
+    "Leonarda", "Libag Norte", "Libag Sur", "Linao East", "Linao Norte", "Linao West", "Namabbalan Norte",
+    "Namabbalan Sur", "Pallua Norte", "Pallua Sur", "Pengue", "Reyes", "San Gabriel", "Tagga", "Tanza", "Ugac Norte",
+    "Ugac Sur",
+  ],
+}
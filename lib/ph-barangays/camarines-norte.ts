@@ -0,0 +1,70 @@
+// Barangays of each town in Camarines Norte, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Basud: [
+    "Angas", "Bactas", "Binatagan", "Caayunan", "Guinatungan", "Hinampacan", "Langa", "Laniton", "Lidong", "Mampili",
+    "Mandazo", "Mangcamagong", "Manmuntay", "Mantugawe", "Matnog", "Mocong", "Oliva", "Pagsangahan", "Pinagwarasan",
+    "Plaridel", "Poblacion 1", "Poblacion 2", "San Felipe", "San Jose", "San Pascual", "Taba-taba", "Tacad", "Taisan",
+    "Tuaca",
+  ],
+  Capalonga: [
+    "Alayao", "Binawangan", "Calabaca", "Camagsaan", "Catabaguangan", "Catioan", "Del Pilar", "Itok", "Lucbanan",
+    "Mabini", "Mactang", "Magsaysay", "Mataque", "Old Camp", "Poblacion", "San Antonio", "San Isidro", "San Roque",
+    "Tanawan", "Ubang", "Villa Aurora", "Villa Belen",
+  ],
+  Daet: [
+    "Alawihao", "Awitan", "Bagasbas", "Barangay I", "Barangay II", "Barangay III", "Barangay IV", "Barangay V",
+    "Barangay VI", "Barangay VII", "Barangay VIII", "Bibirao", "Borabod", "Calasgasan", "Camambugan", "Cobangbang",
+    "Dogongan", "Gahonon", "Gubat", "Lag-On", "Magang", "Mambalite", "Mancruz", "Pamorangon", "San Isidro",
+  ],
+  "Jose Panganiban": [
+    "Bagong Bayan", "Calero", "Dahican", "Dayhagan", "Larap", "Luklukan Norte", "Luklukan Sur", "Motherlode",
+    "Nakalaya", "North Poblacion", "Osmeña", "Pag-Asa", "Parang", "Plaridel", "Salvacion", "San Isidro", "San Jose",
+    "San Martin", "San Pedro", "San Rafael", "Santa Cruz", "Santa Elena", "Santa Milagrosa", "Santa Rosa Norte",
+    "Santa Rosa Sur", "South Poblacion", "Tamisan",
+  ],
+  Labo: [
+    "Anahaw", "Anameam", "Awitan", "Baay", "Bagacay", "Bagong Silang I", "Bagong Silang II", "Bagong Silang III",
+    "Bakiad", "Bautista", "Bayabas", "Bayan-bayan", "Benit", "Bulhao", "Cabatuhan", "Cabusay", "Calabasa", "Canapawan",
+    "Daguit", "Dalas", "Dumagmang", "Exciban", "Fundado", "Guinacutan", "Guisican", "Gumamela", "Iberica",
+    "Kalamunding", "Lugui", "Mabilo I", "Mabilo II", "Macogon", "Mahawan-hawan", "Malangcao-Basud", "Malasugui",
+    "Malatap", "Malaya", "Malibago", "Maot", "Masalong", "Matanlang", "Napaod", "Pag-Asa", "Pangpang", "Pinya",
+    "San Antonio", "San Francisco", "Santa Cruz", "Submakin", "Talobatib", "Tigbinan", "Tulay Na Lupa",
+  ],
+  Mercedes: [
+    "Apuao", "Barangay I", "Barangay II", "Barangay III", "Barangay IV", "Barangay V", "Barangay VI", "Barangay VII",
+    "Caringo", "Catandunganon", "Cayucyucan", "Colasi", "Del Rosario", "Gaboc", "Hamoraon", "Hinipaan", "Lalawigan",
+    "Lanot", "Mambungalon", "Manguisoc", "Masalongsalong", "Matoogtoog", "Pambuhan", "Quinapaguian", "San Roque",
+    "Tarum",
+  ],
+  Paracale: [
+    "Awitan", "Bagumbayan", "Bakal", "Batobalani", "Calaburnay", "Capacuan", "Casalugan", "Dagang", "Dalnac",
+    "Dancalan", "Gumaus", "Labnig", "Macolabo Island", "Malacbang", "Malaguit", "Mampungo", "Mangkasay", "Maybato",
+    "Palanas", "Pinagbirayan Malaki", "Pinagbirayan Munti", "Poblacion Norte", "Poblacion Sur", "Tabas", "Talusan",
+    "Tawig", "Tugos",
+  ],
+  "San Lorenzo Ruiz": [
+    "Daculang Bolo", "Dagotdotan", "Langga", "Laniton", "Maisog", "Mampurog", "Manlimonsito", "Matacong", "Salvacion",
+    "San Antonio", "San Isidro", "San Ramon",
+  ],
+  "San Vicente": [
+    "Asdum", "Cabanbanan", "Calabagas", "Fabrica", "Iraya Sur", "Man-Ogob", "Poblacion District I",
+    "Poblacion District II", "San Jose",
+  ],
+  "Santa Elena": [
+    "Basiad", "Bulala", "Don Tomas", "Guitol", "Kabuluan", "Kagtalaba", "Maulawin", "Patag Ibaba", "Patag Iraya",
+    "Plaridel", "Polungguitguit", "Rizal", "Salvacion", "San Lorenzo", "San Pedro", "San Vicente", "Santa Elena",
+    "Tabugon", "Villa San Isidro",
+  ],
+  Talisay: [
+    "Binanuaan", "Caawigan", "Cahabaan", "Calintaan", "Del Carmen", "Gabon", "Itomang", "Poblacion", "San Francisco",
+    "San Isidro", "San Jose", "San Nicolas", "Santa Cruz", "Santa Elena", "Santo Niño",
+  ],
+  Vinzons: [
+    "Aguit-It", "Banocboc", "Barangay I", "Barangay II", "Barangay III", "Cagbalogo", "Calangcawan Norte",
+    "Calangcawan Sur", "Guinacutan", "Mangcawayan", "Mangcayo", "Manlucugan", "Matango", "Napilihan", "Pinagtigasan",
+    "Sabang", "Santo Domingo", "Singi", "Sula",
+  ],
+}
@@ -0,0 +1,224 @@
+// Barangays of each town in Camarines Sur, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Baao: [
+    "Agdangan Pob.", "Antipolo", "Bagumbayan", "Buluang", "Caranday", "Cristo Rey", "Del Pilar", "Del Rosario",
+    "Iyagan", "La Medalla", "Lourdes", "Nababarera", "Pugay", "Sagrada", "Salvacion", "San Francisco", "San Isidro",
+    "San Jose", "San Juan", "San Nicolas", "San Rafael", "San Ramon", "San Roque", "San Vicente", "Santa Cruz",
+    "Santa Eulalia", "Santa Isabel", "Santa Teresa", "Santa Teresita", "Tapol",
+  ],
+  Balatan: [
+    "Cabanbanan", "Cabungan", "Camangahan", "Cayogcog", "Coguit", "Duran", "Laganac", "Luluasan", "Montenegro",
+    "Pararao", "Pulang Daga", "Sagrada Nacacale", "San Francisco", "Santiago Nacacale", "Siramag", "Tapayas",
+    "Tomatarayo",
+  ],
+  Bato: [
+    "Agos", "Bacolod", "Buluang", "Caricot", "Cawacagan", "Cotmon", "Cristo Rey", "Del Rosario", "Divina Pastora",
+    "Goyudan", "Lobong", "Lubigan", "Mainit", "Manga", "Masoli", "Neighborhood", "Niño Jesus", "Pagatpatan", "Palo",
+    "Payak", "Sagrada", "Salvacion", "San Isidro", "San Juan", "San Miguel", "San Rafael", "San Roque", "San Vicente",
+    "Santa Cruz", "Santiago", "Sooc", "Tagpolo", "Tres Reyes",
+  ],
+  Bombon: [
+    "Pagao", "San Antonio", "San Francisco", "San Isidro", "San Jose", "San Roque", "Santo Domingo", "Siembre",
+  ],
+  Buhi: [
+    "Amlongan", "Antipolo", "Burocbusoc", "Cabatuan", "Cagmaslog", "De La Fe", "Delos Angeles", "Divino Rostro",
+    "Gabas", "Ibayugan", "Igbac", "Ipil", "Iraya", "Labawon", "Lourdes", "Macaangay", "Monte Calvario", "Namurabod",
+    "Sagrada Familia", "Salvacion", "San Antonio", "San Buenaventura", "San Francisco", "San Isidro",
+    "San Jose Baybayon", "San Jose Salay", "San Pascual", "San Pedro", "San Rafael", "San Ramon", "San Roque",
+    "San Vicente", "Santa Clara", "Santa Cruz", "Santa Elena", "Santa Isabel", "Santa Justina", "Tambo",
+  ],
+  Bula: [
+    "Bagoladio", "Bagumbayan", "Balaogan", "Caorasan", "Casugad", "Causip", "Fabrica", "Inoyonan", "Itangon",
+    "Kinalabasahan", "La Purisima", "La Victoria", "Lanipga", "Lubgan", "Ombao Heights", "Ombao Polpog", "Palsong",
+    "Panoypoyan", "Pawili", "Sagrada", "Salvacion", "San Agustin", "San Francisco", "San Isidro", "San Jose",
+    "San Miguel", "San Ramon", "San Roque", "San Roque Heights", "Santa Elena", "Santo Domingo", "Santo Niño", "Taisan",
+  ],
+  Cabusao: [
+    "Barcelonita", "Biong", "Camagong", "Castillo", "New Poblacion", "Pandan", "San Pedro", "Santa Cruz",
+    "Santa Lutgarda",
+  ],
+  Calabanga: [
+    "Balatasan", "Balombon", "Balongay", "Belen", "Bigaas", "Binaliw", "Binanuaanan Grande", "Binanuaanan Pequeño",
+    "Bonot-Santa Rosa", "Burabod", "Cabanbanan", "Cagsao", "Camuning", "Comaguingking", "Del Carmen", "Dominorog",
+    "Fabrica", "Harobay", "La Purisima", "Lugsad", "Manguiring", "Pagatpat", "Paolbo", "Pinada", "Punta Tarawal",
+    "Quinale", "Sabang", "Salvacion-Baybay", "San Antonio", "San Antonio Poblacion", "San Bernardino", "San Francisco",
+    "San Isidro", "San Lucas", "San Miguel", "San Pablo", "San Roque", "San Vicente", "Santa Cruz Poblacion",
+    "Santa Cruz Ratay", "Santa Isabel", "Santa Salud", "Santo Domingo", "Santo Niño", "Siba-o", "Sibobo", "Sogod",
+    "Tomagodtod",
+  ],
+  Camaligan: [
+    "Dugcal", "Marupit", "San Francisco", "San Jose-San Pablo", "San Juan-San Ramon", "San Lucas", "San Marcos",
+    "San Mateo", "San Roque", "Santo Domingo", "Santo Tomas", "Sua", "Tarosanan",
+  ],
+  Canaman: [
+    "Baras", "Del Rosario", "Dinaga", "Fundado", "Haring", "Iquin", "Linaga", "Mangayawan", "Palo", "Pangpang", "Poro",
+    "San Agustin", "San Francisco", "San Jose East", "San Jose West", "San Juan", "San Nicolas", "San Roque",
+    "San Vicente", "Santa Cruz", "Santa Teresita", "Sua", "Talidtid", "Tibgao",
+  ],
+  Caramoan: [
+    "Agaas", "Antolon", "Bacgong", "Bahay", "Bikal", "Binanuahan", "Cabacongan", "Cadong", "Canatuan", "Caputatan",
+    "Colongcogong", "Daraga", "Gata", "Gibgos", "Gogon", "Guijalo", "Hanopol", "Hanoy", "Haponan", "Ilawod",
+    "Ili-Centro", "Lidong", "Lubas", "Malabog", "Maligaya", "Mampirao", "Mandiclum", "Maqueda", "Minalaba", "Oring",
+    "Oroc-Osoc", "Pagolinan", "Pandanan", "Paniman", "Patag-Belen", "Pili-Centro", "Pili-Tabiguian", "Poloan",
+    "Salvacion", "San Roque", "San Vicente", "Santa Cruz", "Solnopan", "Tabgon", "Tabiguian", "Tabog", "Tawog",
+    "Terogo", "Toboan",
+  ],
+  "Del Gallego": [
+    "Bagong Silang", "Bucal", "Cabasag", "Comadaycaday", "Comadogcadog", "Domagondong", "Kinalangan", "Mabini",
+    "Magais I", "Magais II", "Mansalaya", "Nagkalit", "Palaspas", "Pamplona", "Pasay", "Pinagdapian", "Pinugusan",
+    "Poblacion Zone III", "Sabang", "Salvacion", "San Juan", "San Pablo", "Santa Rita I", "Santa Rita II",
+    "Sinagawsawan", "Sinuknipan I", "Sinuknipan II", "Sugsugin", "Tabion", "Tomagoktok", "Zone I Fatima",
+    "Zone II San Antonio",
+  ],
+  Gainza: [
+    "Cagbunga", "Dahilig", "District I", "District II", "Loob", "Malbong", "Namuat", "Sampaloc",
+  ],
+  Garchitorena: [
+    "Ason", "Bahi", "Barangay I", "Barangay II", "Barangay III", "Barangay IV", "Binagasbasan", "Burabod", "Cagamutan",
+    "Cagnipa", "Canlong", "Dangla", "Del Pilar", "Denrica", "Harrison", "Mansangat", "Pambuhan", "Sagrada", "Salvacion",
+    "San Vicente", "Sumaoy", "Tamiawon", "Toytoy",
+  ],
+  Goa: [
+    "Abucayan", "Bagumbayan Grande", "Bagumbayan Pequeño", "Balaynan", "Belen", "Buyo", "Cagaycay", "Catagbacan",
+    "Digdigon", "Gimaga", "Halawig-Gogon", "Hiwacloy", "La Purisima", "Lamon", "Matacla", "Maymatan", "Maysalay",
+    "Napawon", "Panday", "Payatan", "Pinaglabanan", "Salog", "San Benito", "San Isidro", "San Isidro West", "San Jose",
+    "San Juan Bautista", "San Juan Evangelista", "San Pedro", "Scout Fuentebella", "Tabgon", "Tagongtong", "Tamban",
+    "Taytay",
+  ],
+  Iriga: [
+    "Antipolo", "Cristo Rey", "Del Rosario", "Francia", "La Anunciacion", "La Medalla", "La Purisima", "La Trinidad",
+    "Niño Jesus", "Perpetual Help", "Sagrada", "Salvacion", "San Agustin", "San Andres", "San Antonio", "San Francisco",
+    "San Isidro", "San Jose", "San Juan", "San Miguel", "San Nicolas", "San Pedro", "San Rafael", "San Ramon",
+    "San Roque", "San Vicente Norte", "San Vicente Sur", "Santa Cruz Norte", "Santa Cruz Sur", "Santa Elena",
+    "Santa Isabel", "Santa Maria", "Santa Teresita", "Santiago", "Santo Domingo", "Santo Niño",
+  ],
+  Lagonoy: [
+    "Agosais", "Agpo-Camagong-Tabog", "Amoguis", "Balaton", "Binanuahan", "Bocogan", "Burabod", "Cabotonan", "Dahat",
+    "Del Carmen", "Gimagtocon", "Ginorangan", "Gubat", "Guibahoy", "Himanag", "Kinahologan", "Loho", "Manamoc",
+    "Mangogon", "Mapid", "Olas", "Omalo", "Panagan", "Panicuan", "Pinamihagan", "San Francisco", "San Isidro",
+    "San Isidro Norte", "San Isidro Sur", "San Rafael", "San Ramon", "San Roque", "San Sebastian", "San Vicente",
+    "Santa Cruz", "Santa Maria", "Saripongpong", "Sipaco",
+  ],
+  Libmanan: [
+    "Aslong", "Awayan", "Bagacay", "Bagadion", "Bagamelon", "Bagumbayan", "Bahao", "Bahay", "Begajo Norte",
+    "Begajo Sur", "Beguito Nuevo", "Beguito Viejo", "Bikal", "Busak", "Caima", "Calabnigan", "Camambugan", "Cambalidio",
+    "Candami", "Candato", "Cawayan", "Concepcion", "Cuyapi", "Danawan", "Duang Niog", "Handong", "Ibid", "Inalahan",
+    "Labao", "Libod I", "Libod II", "Loba-loba", "Mabini", "Malansad Nuevo", "Malansad Viejo", "Malbogon", "Malinao",
+    "Mambalite", "Mambayawas", "Mambulo Nuevo", "Mambulo Viejo", "Mancawayan", "Mandacanan", "Mantalisay", "Padlos",
+    "Pag-Oring Nuevo", "Pag-Oring Viejo", "Palangon", "Palong", "Patag", "Planza", "Poblacion", "Potot", "Puro-Batia",
+    "Rongos", "Salvacion", "San Isidro", "San Juan", "San Pablo", "San Vicente", "Sibujo", "Sigamot",
+    "Station-Church Site", "Taban-Fundado", "Tampuhan", "Tanag", "Tarum", "Tinalmud Nuevo", "Tinalmud Viejo",
+    "Tinangkihan", "Udoc", "Umalo", "Uson", "Villadima", "Villasocorro",
+  ],
+  Lupi: [
+    "Alleomar", "Bagangan Sr.", "Bagong Sikat", "Bangon", "Barrera Jr.", "Barrera Sr.", "Bel-Cruz", "Belwang",
+    "Buenasuerte", "Bulawan Jr.", "Bulawan Sr.", "Cabutagan", "Casay", "Colacling", "Cristo Rey", "Del Carmen",
+    "Haguimit", "Haluban", "Kaibigan", "La Purisima", "Lourdes", "Mangcawayan", "Napolidan", "Poblacion", "Polantuna",
+    "Sagrada", "Salvacion", "San Isidro", "San Jose", "San Pedro", "San Rafael Norte", "San Rafael Sur", "San Ramon",
+    "San Vicente", "Sooc", "Tanawan", "Tapi", "Tible",
+  ],
+  Magarao: [
+    "Barobaybay", "Bell", "Carangcang", "Carigsa", "Casuray", "Monserrat", "Ponong", "San Francisco", "San Isidro",
+    "San Juan", "San Miguel", "San Pantaleon", "Santa Lucia", "Santa Rosa", "Santo Tomas",
+  ],
+  Milaor: [
+    "Alimbuyog", "Amparado", "Balagbag", "Borongborongan", "Cabugao", "Capucnasan", "Dalipay", "Del Rosario",
+    "Flordeliz", "Lipot", "Mayaopayawan", "Maycatmon", "Maydaso", "San Antonio", "San Jose", "San Miguel", "San Roque",
+    "San Vicente", "Santo Domingo", "Tarusanan",
+  ],
+  Minalabac: [
+    "Antipolo", "Bagolatao", "Bagongbong", "Baliuag Nuevo", "Baliuag Viejo", "Catanusan", "Del Carmen-Del Rosario",
+    "Del Socorro", "Hamoraon", "Hobo", "Irayang Solong", "Magadap", "Malitbog", "Manapao", "Mataoroc", "Sagrada",
+    "Salingogon", "San Antonio", "San Felipe-Santiago", "San Francisco", "San Jose", "San Juan-San Lorenzo", "Taban",
+    "Tariric", "Timbang",
+  ],
+  Nabua: [
+    "Angustia", "Antipolo Old", "Antipolo Young", "Aro-aldao", "Bustrac", "Dolorosa", "Duran", "Inapatan", "La Opinion",
+    "La Purisima", "Lourdes Old", "Lourdes Young", "Malawag", "Paloyon Oriental", "Paloyon Proper",
+    "Salvacion Que Gatos", "San Antonio", "San Antonio Ogbon", "San Esteban", "San Francisco", "San Isidro",
+    "San Isidro Inapatan", "San Jose", "San Juan", "San Luis", "San Miguel", "San Nicolas", "San Roque",
+    "San Roque Madawon", "San Roque Sagumay", "San Vicente Gorong-Gorong", "San Vicente Ogbon", "Santa Barbara",
+    "Santa Cruz", "Santa Elena Baras", "Santa Lucia Baras", "Santiago Old", "Santiago Young", "Santo Domingo",
+    "Tandaay", "Topas Proper", "Topas Sogod",
+  ],
+  Naga: [
+    "Abella", "Bagumbayan Norte", "Bagumbayan Sur", "Balatas", "Calauag", "Cararayan", "Carolina", "Concepcion Grande",
+    "Concepcion Pequeña", "Dayangdang", "Del Rosario", "Dinaga", "Igualdad Interior", "Lerma", "Liboton", "Mabolo",
+    "Pacol", "Panicuason", "Peñafrancia", "Sabang", "San Felipe", "San Francisco", "San Isidro", "Santa Cruz", "Tabuco",
+    "Tinago", "Triangulo",
+  ],
+  Ocampo: [
+    "Ayugan", "Cabariwan", "Cagmanaba", "Del Rosario", "Gatbo", "Guinaban", "Hanawan", "Hibago", "La Purisima Nuevo",
+    "May-Ogob", "New Moriones", "Old Moriones", "Pinit", "Poblacion Central", "Poblacion East", "Poblacion West",
+    "Salvacion", "San Antonio", "San Francisco", "San Jose Oras", "San Roque Commonal", "San Vicente", "Santa Cruz",
+    "Santo Niño", "Villaflorida",
+  ],
+  Pamplona: [
+    "Batang", "Burabod", "Cagbibi", "Cagbunga", "Calawat", "Del Rosario", "Patong", "Poblacion", "Salvacion",
+    "San Gabriel", "San Isidro", "San Rafael", "San Ramon", "San Vicente", "Tambo", "Tampadong", "Veneracion",
+  ],
+  Pasacao: [
+    "Antipolo", "Bagong Silang", "Bahay", "Balogo", "Caranan", "Cuco", "Dalupaon", "Hubo", "Itulan", "Macad", "Odicon",
+    "Quitang", "Salvacion", "San Antonio", "San Cirilo", "Santa Rosa Del Norte", "Santa Rosa Del Sur", "Tilnac",
+    "Tinalmud",
+  ],
+  Pili: [
+    "Anayan", "Bagong Sirang", "Binanwaanan", "Binobong", "Cadlan", "Caroyroyan", "Curry", "Del Rosario", "Himaao",
+    "La Purisima", "New San Roque", "Old San Roque", "Palestina", "Pawili", "Sagrada", "Sagurong", "San Agustin",
+    "San Antonio", "San Isidro", "San Jose", "San Juan", "San Vicente", "Santiago", "Santo Niño", "Tagbong", "Tinangis",
+  ],
+  Presentacion: [
+    "Ayugao", "Bagong Sirang", "Baliguian", "Bantugan", "Bicalen", "Bitaogan", "Buenavista", "Bulalacao", "Cagnipa",
+    "Lagha", "Lidong", "Liwacsa", "Maangas", "Pagsangaan", "Patrocinio", "Pili", "Sta. Maria", "Tanawan",
+  ],
+  Ragay: [
+    "Agao-ao", "Agrupacion", "Amomokpok", "Apad", "Apale", "Banga Caves", "Baya", "Binahan Proper", "Binahan Upper",
+    "Buenasuerte", "Cabadisan", "Cabinitan", "Cabugao", "Caditaan", "Cale", "Catabangan Proper", "F. Simeon",
+    "Godofredo Reyes Sr.", "Inandawa", "Laguio", "Lanipga-Cawayan", "Liboro", "Lohong", "Lower Omon",
+    "Lower Santa Cruz", "Panaytayan", "Panaytayan Nuevo", "Patalunan", "Poblacion Ilaod", "Poblacion Iraya",
+    "Port Junction Norte", "Port Junction Sur", "Salvacion", "Samay", "San Rafael", "Tagbac", "Upper Omon",
+    "Upper Santa Cruz",
+  ],
+  "Sagñay": [
+    "Aniog", "Atulayan", "Bongalon", "Buracan", "Catalotoan", "Del Carmen", "Kilantaao", "Kilomaon", "Mabca",
+    "Minadongjol", "Nato", "Patitinan", "San Antonio", "San Isidro", "San Roque", "Santo Niño", "Sibaguan",
+    "Tinorongan", "Turague",
+  ],
+  "San Fernando": [
+    "Alianza", "Beberon", "Bical", "Bocal", "Bonifacio", "Buenavista", "Calascagas", "Cotmo", "Daculang Tubig",
+    "Del Pilar", "Grijalvo", "Gñaran", "Lupi", "Maragñi", "Pamukid", "Pinamasagan", "Pipian", "Planza", "Rizal",
+    "San Joaquin", "Santa Cruz", "Tagpocol",
+  ],
+  "San Jose": [
+    "Adiangao", "Bagacay", "Bahay", "Boclod", "Calalahan", "Calawit", "Camagong", "Catalotoan", "Danlog", "Del Carmen",
+    "Dolo", "Kinalansan", "Mampirao", "Manzana", "Minoro", "Palale", "Ponglon", "Pugay", "Sabang", "Salogon",
+    "San Antonio", "San Juan", "San Vicente", "Santa Cruz", "Soledad", "Tagas", "Tambangan", "Telegrafo", "Tominawog",
+  ],
+  Sipocot: [
+    "Aldezar", "Alteza", "Anib", "Awayan", "Azucena", "Bagong Sirang", "Binahian", "Bolo Norte", "Bolo Sur", "Bulan",
+    "Bulawan", "Cabuyao", "Caima", "Calagbangan", "Calampinay", "Carayrayan", "Cotmo", "Gabi", "Gaongan", "Impig",
+    "Lipilip", "Lubigan Jr.", "Lubigan Sr.", "Malaguico", "Malubago", "Manangle", "Mangapo", "Mangga", "Manlubang",
+    "Mantila", "North Centro", "North Villazar", "Sagrada Familia", "Salanda", "Salvacion", "San Isidro", "San Vicente",
+    "Serranzana", "South Centro", "South Villazar", "Taisan", "Tara", "Tible", "Tula-tula", "Vigaan", "Yabo",
+  ],
+  Siruma: [
+    "Bagong Sirang", "Bahao", "Boboan", "Butawanan", "Cabugao", "Fundado", "Homestead", "La Purisima", "Mabuhay",
+    "Malaconini", "Matandang Siruma", "Nalayahan", "Pamintan-Bantilan", "Pinitan", "Poblacion", "Salvacion",
+    "San Andres", "San Ramon", "Sulpa", "Tandoc", "Tongo-Bantigue", "Vito",
+  ],
+  Tigaon: [
+    "Abo", "Cabalinadan", "Caraycayon", "Casuna", "Consocep", "Coyaoyao", "Gaao", "Gingaroy", "Gubat", "Huyonhuyon",
+    "Libod", "Mabalodbalod", "May-Anao", "Panagan", "Poblacion", "Salvacion", "San Antonio", "San Francisco",
+    "San Miguel", "San Rafael", "Talojongon", "Tinawagan", "Vinagre",
+  ],
+  Tinambac: [
+    "Agay-Ayan", "Antipolo", "Bagacay", "Banga", "Bani", "Bataan", "Binalay", "Bolaobalite", "Buenavista", "Buyo",
+    "Cagliliog", "Caloco", "Camagong", "Canayonan", "Cawaynan", "Daligan", "Filarca", "La Medalla", "La Purisima",
+    "Lupi", "Magsaysay", "Magtang", "Mananao", "New Caaluan", "Olag Grande", "Olag Pequeño", "Old Caaluan", "Pag-Asa",
+    "Pantat", "Sagrada", "Salvacion", "Salvacion Poblacion", "San Antonio", "San Isidro", "San Jose", "San Pascual",
+    "San Ramon", "San Roque", "San Vicente", "Santa Cruz", "Sogod", "Tambang", "Tierra Nevada", "Union",
+  ],
+}
@@ -0,0 +1,24 @@
+// Barangays of each town in Camiguin, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Catarman: [
+    "Alga", "Bonbon", "Bura", "Catibac", "Compol", "Lawigan", "Liloan", "Looc", "Mainit", "Manduao", "Panghiawan",
+    "Poblacion", "Santo Niño", "Tangaro",
+  ],
+  Guinsiliban: [
+    "Butay", "Cabuan", "Cantaan", "Liong", "Maac", "North Poblacion", "South Poblacion",
+  ],
+  Mahinog: [
+    "Benoni", "Binatubo", "Catohugan", "Hubangon", "Owakan", "Poblacion", "Puntod", "San Isidro", "San Jose",
+    "San Miguel", "San Roque", "Tubod", "Tupsan Pequeño",
+  ],
+  Mambajao: [
+    "Agoho", "Anito", "Balbagon", "Baylao", "Benhaan", "Bug-ong", "Kuguita", "Magting", "Naasag", "Pandan", "Poblacion",
+    "Soro-soro", "Tagdo", "Tupsan", "Yumbing",
+  ],
+  Sagay: [
+    "Alangilan", "Bacnit", "Balite", "Bonbon", "Bugang", "Cuna", "Manuyog", "Mayana", "Poblacion",
+  ],
+}
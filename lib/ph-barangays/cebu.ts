@@ -0,0 +1,241 @@
+// Barangays of each town in Cebu, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Alcantara: [
+    "Cabadiangan", "Cabil-isan", "Candabong", "Lawaan", "Manga", "Palanas", "Poblacion", "Polo", "Salagmaya",
+  ],
+  Alcoy: [
+    "Atabay", "Daan-Lungsod", "Guiwang", "Nug-as", "Pasol", "Poblacion", "Pugalo", "San Agustin",
+  ],
+  Alegria: [
+    "Compostela", "Guadalupe", "Legaspi", "Lepanto", "Madridejos", "Montpeller", "Poblacion", "Santa Filomena",
+    "Valencia",
+  ],
+  Aloguinsan: [
+    "Angilan", "Bojo", "Bonbon", "Esperanza", "Kandingan", "Kantabogon", "Kawasan", "Olango", "Poblacion", "Punay",
+    "Rosario", "Saksak", "Tampa-an", "Toyokon", "Zaragosa",
+  ],
+  Argao: [
+    "Alambijud", "Anajao", "Apo", "Balaas", "Balisong", "Binlod", "Bogo", "Bug-ot", "Bulasa", "Butong", "Calagasan",
+    "Canbantug", "Canbanua", "Cansuje", "Capio-an", "Casay", "Catang", "Colawin", "Conalum", "Guiwanon", "Gutlang",
+    "Jampang", "Jomgao", "Lamacan", "Langtad", "Langub", "Lapay", "Lengigon", "Linut-od", "Mabasa", "Mandilikit",
+    "Mompeller", "Panadtaran", "Poblacion", "Sua", "Sumaguan", "Tabayag", "Talaga", "Talaytay", "Talo-ot", "Tiguib",
+    "Tulang", "Tulic", "Ubaub", "Usmad",
+  ],
+  Asturias: [
+    "Agbanga", "Agtugop", "Bago", "Bairan", "Banban", "Baye", "Bog-o", "Kaluangan", "Lanao", "Langub", "Looc Norte",
+    "Lunas", "Magcalape", "Manguiao", "New Bago", "Owak", "Poblacion", "Saksak", "San Isidro", "San Roque",
+    "Santa Lucia", "Santa Rita", "Tag-amakan", "Tagbubonga", "Tubigagmanok", "Tubod", "Ubogon",
+  ],
+  Badian: [
+    "Alawijao", "Balhaan", "Banhigan", "Basak", "Basiao", "Bato", "Bugas", "Calangcang", "Candiis", "Dagatan", "Dobdob",
+    "Ginablan", "Lambug", "Malabago", "Malhiao", "Manduyong", "Matutinao", "Patong", "Poblacion", "Sanlagan",
+    "Santicon", "Sohoton", "Sulsugan", "Talayong", "Taytay", "Tigbao", "Tiguib", "Tubod", "Zaragosa",
+  ],
+  Balamban: [
+    "Abucayan", "Aliwanay", "Arpili", "Baliwagan", "Bayong", "Biasong", "Buanoy", "Cabagdalan", "Cabasiangan",
+    "Cambuhawe", "Cansomoroy", "Cantibas", "Cantuod", "Duangan", "Gaas", "Ginatilan", "Hingatmonan", "Lamesa", "Liki",
+    "Luca", "Matun-og", "Nangka", "Pondol", "Prenza", "Santa Cruz-Santo Niño", "Singsing", "Sunog", "Vito",
+  ],
+  Bantayan: [
+    "Atop-atop", "Baigad", "Bantigue", "Baod", "Binaobao", "Botigues", "Doong", "Guiwanon", "Hilotongan", "Kabac",
+    "Kabangbang", "Kampingganon", "Kangkaibe", "Lipayran", "Luyongbaybay", "Mojon", "Obo-ob", "Patao", "Putian",
+    "Sillon", "Suba", "Sulangan", "Sungko", "Tamiao", "Ticad",
+  ],
+  Barili: [
+    "Azucena", "Bagakay", "Balao", "Bolocboloc", "Budbud", "Bugtong Kawayan", "Cabcaban", "Cagay", "Campangga",
+    "Candugay", "Dakit", "Giloctog", "Giwanon", "Guibuangan", "Gunting", "Hilasgasan", "Japitan", "Kalubihan",
+    "Kangdampas", "Luhod", "Lupo", "Luyo", "Maghanoy", "Maigang", "Malolos", "Mantalongon", "Mantayupan", "Mayana",
+    "Minolos", "Nabunturan", "Nasipit", "Pancil", "Pangpang", "Paril", "Patupat", "Poblacion", "San Rafael",
+    "Santa Ana", "Sayaw", "Tal-ot", "Tubod", "Vito",
+  ],
+  Bogo: [
+    "Anonang Norte", "Anonang Sur", "Banban", "Binabag", "Bungtod", "Carbon", "Cayang", "Cogon", "Dakit",
+    "Don Pedro Rodriguez", "Gairan", "Guadalupe", "La Paz", "La Purisima Concepcion", "Libertad", "Lourdes", "Malingin",
+    "Marangog", "Nailon", "Odlot", "Pandan", "Polambato", "Sambag", "San Vicente", "Santo Niño", "Santo Rosario",
+    "Siocon", "Sudlonon", "Taytayan",
+  ],
+  Boljoon: [
+    "Arbor", "Baclayan", "El Pardo", "Granada", "Lower Becerril", "Lunop", "Nangka", "Poblacion", "San Antonio",
+    "South Granada", "Upper Becerril",
+  ],
+  Borbon: [
+    "Bagacay", "Bili", "Bingay", "Bongdo", "Bongdo Gua", "Bongoyan", "Cadaruhan", "Cajel", "Campusong", "Clavera",
+    "Don Gregorio Antigua", "Laaw", "Lugo", "Managase", "Poblacion", "Sagay", "San Jose", "Tabunan", "Tagnucan",
+  ],
+  Carcar: [
+    "Bolinawan", "Buenavista", "Calidngan", "Can-asujan", "Guadalupe", "Liburon", "Napo", "Ocana", "Perrelos",
+    "Poblacion I", "Poblacion II", "Poblacion III", "Tuyom", "Valencia", "Valladolid",
+  ],
+  Carmen: [
+    "Baring", "Cantipay", "Cantukong", "Cantumog", "Caurasan", "Cogon East", "Cogon West", "Corte", "Dawis Norte",
+    "Dawis Sur", "Hagnaya", "Ipil", "Lanipga", "Liboron", "Lower Natimao-an", "Luyang", "Poblacion", "Puente", "Sac-on",
+    "Triumfo", "Upper Natimao-an",
+  ],
+  Catmon: [
+    "Agsuwao", "Amancion", "Anapog", "Bactas", "Basak", "Binongkalan", "Bongyas", "Cabungaan", "Cambangkaya",
+    "Can-ibuang", "Catmondaan", "Corazon", "Duyan", "Flores", "Ginabucan", "Macaas", "Panalipan", "San Jose Pob.",
+    "Tabili", "Tinabyonan",
+  ],
+  Compostela: [
+    "Bagalnga", "Basak", "Buluang", "Cabadiangan", "Cambayog", "Canamucan", "Cogon", "Dapdap", "Estaca", "Lupa",
+    "Magay", "Mulao", "Panangban", "Poblacion", "Tag-ube", "Tamiao", "Tubigan",
+  ],
+  Consolacion: [
+    "Cabangahan", "Cansaga", "Casili", "Danglag", "Garing", "Jugan", "Lamac", "Lanipga", "Nangka", "Panas", "Panoypoy",
+    "Pitogo", "Poblacion Occidental", "Poblacion Oriental", "Polog", "Pulpogan", "Sacsac", "Tayud", "Tilhaong",
+    "Tolotolo", "Tugbongan",
+  ],
+  Cordova: [
+    "Alegria", "Bangbang", "Buagsong", "Catarman", "Cogon", "Dapitan", "Day-as", "Gabi", "Gilutongan", "Ibabao",
+    "Pilipog", "Poblacion", "San Miguel",
+  ],
+  Daanbantayan: [
+    "Aguho", "Bagay", "Bakhawan", "Bateria", "Bitoon", "Calape", "Carnaza", "Dalingding", "Lanao", "Logon", "Malbago",
+    "Malingin", "Maya", "Pajo", "Paypay", "Poblacion", "Talisay", "Tapilon", "Tinubdan", "Tominjao",
+  ],
+  Dalaguete: [
+    "Ablayan", "Babayongan", "Balud", "Banhigan", "Bulak", "Caleriohan", "Caliongan", "Casay", "Catolohan", "Cawayan",
+    "Consolacion", "Coro", "Dugyan", "Dumalan", "Jolomaynon", "Lanao", "Langkas", "Lumbang", "Malones", "Maloray",
+    "Mananggal", "Manlapay", "Mantalongon", "Nalhub", "Obo", "Obong", "Panas", "Poblacion", "Sacsac", "Salug", "Tabon",
+    "Tapun", "Tuba",
+  ],
+  Danao: [
+    "Baliang", "Bayabas", "Binaliw", "Cabungahan", "Cagat-Lamac", "Cahumayan", "Cambanay", "Cambubho", "Cogon-Cruz",
+    "Danasan", "Dungga", "Dunggoan", "Guinacot", "Guinsay", "Ibo", "Langosig", "Lawaan", "Licos", "Looc", "Magtagobtob",
+    "Malapoc", "Manlayag", "Mantija", "Masaba", "Maslog", "Nangka", "Oguis", "Pili", "Poblacion", "Quisol", "Sabang",
+    "Sacsac", "Sandayong Norte", "Sandayong Sur", "Santa Rosa", "Santican", "Sibacan", "Suba", "Taboc", "Taytay",
+    "Togonon", "Tuburan Sur",
+  ],
+  Dumanjug: [
+    "Balaygtiki", "Bitoon", "Bulak", "Bullogan", "Calaboon", "Camboang", "Candabong", "Cogon", "Cotcoton", "Doldol",
+    "Ilaya", "Kabalaasnan", "Kabatbatan", "Kambanog", "Kang-actol", "Kanghalo", "Kanghumaod", "Kanguha", "Kantangkas",
+    "Kanyuko", "Kolabtingon", "Lamak", "Lawaan", "Liong", "Manlapay", "Masa", "Matalao", "Paculob", "Panlaan", "Pawa",
+    "Poblacion Central", "Poblacion Looc", "Poblacion Sima", "Tangil", "Tapon", "Tubod-Bitoon", "Tubod-Dugoan",
+  ],
+  Ginatilan: [
+    "Anao", "Cagsing", "Calabawan", "Cambagte", "Campisong", "Canorong", "Guiwanon", "Looc", "Malatbo", "Mangaco",
+    "Palanas", "Poblacion", "Salamanca", "San Roque",
+  ],
+  Liloan: [
+    "Cabadiangan", "Calero", "Catarman", "Cotcot", "Jubay", "Lataban", "Mulao", "Poblacion", "San Roque", "San Vicente",
+    "Santa Cruz", "Tabla", "Tayud", "Yati",
+  ],
+  Madridejos: [
+    "Bunakan", "Kangwayan", "Kaongkod", "Kodia", "Maalat", "Malbago", "Mancilang", "Pili", "Poblacion", "San Agustin",
+    "Tabagak", "Talangnan", "Tarong", "Tugas",
+  ],
+  Malabuyoc: [
+    "Armeña", "Barangay I", "Barangay II", "Cerdeña", "Labrador", "Lombo", "Looc", "Mahanlud", "Mindanao", "Montañeza",
+    "Salmeron", "Santo Niño", "Sorsogon", "Tolosa",
+  ],
+  Medellin: [
+    "Antipolo", "Canhabagat", "Caputatan Norte", "Caputatan Sur", "Curva", "Daanlungsod", "Dalingding Sur", "Dayhagon",
+    "Don Virgilio Gonzales", "Gibitngil", "Kawit", "Lamintak Norte", "Lamintak Sur", "Luy-a", "Maharuhay", "Mahawak",
+    "Panugnawan", "Poblacion", "Tindog",
+  ],
+  Minglanilla: [
+    "Cadulawan", "Calajo-an", "Camp 7", "Camp 8", "Cuanos", "Guindaruhan", "Linao", "Manduang", "Pakigne",
+    "Poblacion Ward I", "Poblacion Ward II", "Poblacion Ward III", "Poblacion Ward IV", "Tubod", "Tulay", "Tunghaan",
+    "Tungkil", "Tungkop", "Vito",
+  ],
+  Moalboal: [
+    "Agbalanga", "Bala", "Balabagon", "Basdiot", "Batadbatad", "Bugho", "Buguil", "Busay", "Lanao", "Poblacion East",
+    "Poblacion West", "Saavedra", "Tomonoy", "Tuble", "Tunga",
+  ],
+  Naga: [
+    "Alfaco", "Bairan", "Balirong", "Cabungahan", "Cantao-an", "Central Poblacion", "Cogon", "Colon", "East Poblacion",
+    "Inayagan", "Inoburan", "Jaguimit", "Lanas", "Langtad", "Lutac", "Mainit", "Mayana", "Naalad", "North Poblacion",
+    "Pangdan", "Patag", "South Poblacion", "Tagjaguimit", "Tangke", "Tinaan", "Tuyan", "Uling", "West Poblacion",
+  ],
+  Oslob: [
+    "Alo", "Bangcogon", "Bonbon", "Calumpang", "Can-ukban", "Canangca-an", "Cansalo-ay", "Cañang", "Daanlungsod",
+    "Gawi", "Hagdan", "Lagunde", "Looc", "Luka", "Mainit", "Manlum", "Nueva Caceres", "Poblacion", "Pungtod",
+    "Tan-awan", "Tumalog",
+  ],
+  Pilar: [
+    "Biasong", "Cawit", "Dapdap", "Esperanza", "Imelda", "Lanao", "Lower Poblacion", "Moabog", "Montserrat",
+    "San Isidro", "San Juan", "Upper Poblacion", "Villahermosa",
+  ],
+  Pinamungajan: [
+    "Anislag", "Anopog", "Binabag", "Buhingtubig", "Busay", "Butong", "Cabiangon", "Camugao", "Duangan", "Guimbawian",
+    "Lamac", "Lut-od", "Mangoto", "Opao", "Pandacan", "Poblacion", "Punod", "Rizal", "Sacsac", "Sambagon", "Sibago",
+    "Tajao", "Tangub", "Tanibag", "Tupas", "Tutay",
+  ],
+  Poro: [
+    "Adela", "Altavista", "Cagcagan", "Cansabusab", "Daan Paz", "Eastern Poblacion", "Esperanza", "Libertad", "Mabini",
+    "Mercedes", "Pagsa", "Paz", "Rizal", "San Jose", "Santa Rita", "Teguis", "Western Poblacion",
+  ],
+  Ronda: [
+    "Butong", "Can-abuhon", "Canduling", "Cansalonoy", "Cansayahon", "Ilaya", "Langin", "Libo-o", "Malalay", "Palanas",
+    "Poblacion", "Santa Cruz", "Tupas", "Vive",
+  ],
+  Samboan: [
+    "Basak", "Bonbon", "Bulangsuran", "Calatagan", "Cambigong", "Camburoy", "Canorong", "Colase", "Dalahikan",
+    "Jumangpas", "Monteverde", "Poblacion", "San Sebastian", "Suba", "Tangbo",
+  ],
+  "San Fernando": [
+    "Balud", "Balungag", "Basak", "Bugho", "Cabatbatan", "Greenhills", "Ilaya", "Lantawan", "Liburon", "Magsico",
+    "Panadtaran", "Pitalo", "Poblacion North", "Poblacion South", "San Isidro", "Sangat", "Tabionan", "Tananas",
+    "Tinubdan", "Tonggo", "Tubod",
+  ],
+  "San Francisco": [
+    "Cabunga-an", "Campo", "Consuelo", "Esperanza", "Himensulan", "Montealegre", "Northern Poblacion", "San Isidro",
+    "Santa Cruz", "Santiago", "Sonog", "Southern Poblacion", "Unidos", "Union", "Western Poblacion",
+  ],
+  "San Remigio": [
+    "Anapog", "Argawanon", "Bagtic", "Bancasan", "Batad", "Busogon", "Calambua", "Canagahan", "Dapdap", "Gawaygaway",
+    "Hagnaya", "Kayam", "Kinawahan", "Lambusan", "Lawis", "Libaong", "Looc", "Luyang", "Maño", "Poblacion", "Punta",
+    "Sab-a", "San Miguel", "Tacup", "Tambongon", "To-ong", "Victoria",
+  ],
+  "Santa Fe": [
+    "Balidbid", "Hagdan", "Hilantagaan", "Kinatarkan", "Langub", "Maricaban", "Okoy", "Poblacion", "Pooc", "Talisay",
+  ],
+  Santander: [
+    "Bunlan", "Cabutongan", "Candamiang", "Canlumacad", "Liloan", "Lip-tong", "Looc", "Pasil", "Poblacion", "Talisay",
+  ],
+  Sibonga: [
+    "Abugon", "Bae", "Bagacay", "Bahay", "Banlot", "Basak", "Bato", "Cagay", "Can-aga", "Candaguit", "Cantolaroy",
+    "Dugoan", "Guimbangco-an", "Lamacan", "Libo", "Lindogon", "Magcagong", "Manatad", "Mangyan", "Papan", "Poblacion",
+    "Sabang", "Sayao", "Simala", "Tubod",
+  ],
+  Sogod: [
+    "Ampongol", "Bagakay", "Bagatayam", "Bawo", "Cabalawan", "Cabangahan", "Calumboyan", "Dakit", "Damolog", "Ibabao",
+    "Liki", "Lubo", "Mohon", "Nahus-an", "Pansoy", "Poblacion", "Tabunok", "Takay",
+  ],
+  Tabogon: [
+    "Alang-alang", "Caduawan", "Camoboan", "Canaocanao", "Combado", "Daantabogon", "Ilihan", "Kal-anan", "Labangon",
+    "Libjo", "Loong", "Mabuli", "Managase", "Manlagtang", "Maslog", "Muabog", "Pio", "Poblacion", "Salag", "Sambag",
+    "San Isidro", "San Vicente", "Somosa", "Taba-ao", "Tapul",
+  ],
+  Tabuelan: [
+    "Bongon", "Dalid", "Kanlim-ao", "Kanluhangon", "Kantubaon", "Mabunao", "Maravilla", "Olivo", "Poblacion", "Tabunok",
+    "Tigbawan", "Villahermosa",
+  ],
+  Talisay: [
+    "Biasong", "Bulacao", "Cadulawan", "Camp IV", "Cansojong", "Dumlog", "Jaclupan", "Lagtang", "Lawaan I", "Lawaan II",
+    "Lawaan III", "Linao", "Maghaway", "Manipis", "Mohon", "Poblacion", "Pooc", "San Isidro", "San Roque", "Tabunoc",
+    "Tangke", "Tapul",
+  ],
+  Toledo: [
+    "Awihao", "Bagakay", "Bato", "Biga", "Bulongan", "Bunga", "Cabitoonan", "Calongcalong", "Cambang-ug", "Camp 8",
+    "Canlumampao", "Cantabaco", "Capitan Claudio", "Carmen", "Daanglungsod", "Don Andres Soriano", "Dumlog",
+    "Gen. Climaco", "Ibo", "Ilihan", "Juan Climaco, Sr.", "Landahan", "Loay", "Luray II", "Matab-ang", "Media Once",
+    "Pangamihan", "Poblacion", "Poog", "Putingbato", "Sagay", "Sam-ang", "Sangi", "Santo Niño", "Subayon", "Talavera",
+    "Tubod", "Tungkay",
+  ],
+  Tuburan: [
+    "Alegria", "Amatugan", "Antipolo", "Apalan", "Bagasawe", "Bakyawan", "Bangkito", "Barangay I", "Barangay II",
+    "Barangay III", "Barangay IV", "Barangay V", "Barangay VI", "Barangay VII", "Barangay VIII", "Bulwang", "Caridad",
+    "Carmelo", "Cogon", "Colonia", "Daan Lungsod", "Fortaliza", "Ga-ang", "Gimama-a", "Jagbuaya", "Kabangkalan",
+    "Kabkaban", "Kagba-o", "Kalangahan", "Kamansi", "Kampoot", "Kan-an", "Kanlunsing", "Kansi", "Kaorasan", "Libo",
+    "Lusong", "Macupa", "Mag-alwa", "Mag-antoy", "Mag-atubang", "Maghan-ay", "Mangga", "Marmol", "Molobolo",
+    "Montealegre", "Putat", "San Juan", "Sandayong", "Santo Niño", "Siotes", "Sumon", "Tominjao", "Tomugpa",
+  ],
+  Tudela: [
+    "Buenavista", "Calmante", "Daan Secante", "General", "McArthur", "Northern Poblacion", "Puertobello", "Santander",
+    "Secante Bag-o", "Southern Poblacion", "Villahermosa",
+  ],
+}
@@ -0,0 +1,105 @@
+// Barangays of each town in Cotabato, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Alamada: [
+    "Bao", "Barangiran", "Camansi", "Dado", "Guiling", "Kitacubong", "Lower Dado", "Macabasa", "Malitubog", "Mapurok",
+    "Mirasol", "Pacao", "Paruayan", "Pigcawaran", "Polayagan", "Rangayen", "Raradangan",
+  ],
+  Aleosan: [
+    "Bagolibas", "Cawilihan", "Dualing", "Katalicanan", "Lawili", "Lower Mingading", "Luanan", "Malapang", "New Leon",
+    "New Panay", "Pagangan", "Palacat", "Pentil", "San Mateo", "Santa Cruz", "Tomado", "Upper Mingading",
+  ],
+  Antipas: [
+    "B. Cadungon", "Camutan", "Canaan", "Datu Agod", "Dolores", "Kiyaab", "Luhong", "Magsaysay", "Malangag", "Malatad",
+    "Malire", "New Pontevedra", "Poblacion",
+  ],
+  Arakan: [
+    "Allab", "Anapolon", "Badiangon", "Binoongan", "Dallag", "Datu Ladayon", "Datu Matangkil", "Doroluman", "Gambodes",
+    "Ganatan", "Greenfield", "Kabalantian", "Katipunan", "Kinawayan", "Kulaman Valley", "Lanao Kuran", "Libertad",
+    "Makalangot", "Malibatuan", "Maria Caridad", "Meocan", "Naje", "Napalico", "Salasang", "San Miguel", "Santo Niño",
+    "Sumalili", "Tumanding",
+  ],
+  Banisilan: [
+    "Banisilan Poblacion", "Busaon", "Capayangan", "Carugmanan", "Gastay", "Kalawaig", "Kiaring", "Malagap", "Malinao",
+    "Miguel Macasarte", "Pantar", "Paradise", "Pinamulaan", "Poblacion II", "Puting-bato", "Solama", "Thailand",
+    "Tinimbacan", "Tumbao-Camalig", "Wadya",
+  ],
+  Carmen: [
+    "Aroman", "Bentangan", "Cadiis", "General Luna", "Katanayanan", "Kibenes", "Kibugtongan", "Kilala", "Kimadzil",
+    "Lanoon", "Liliongan", "Macabenban", "Malapag", "Manili", "Palanggalan", "Poblacion", "Ranzo", "Tacupan", "Tambad",
+    "Tonganon", "Ugalingan",
+  ],
+  Kabacan: [
+    "Aringay", "Bangilan", "Bannawag", "Cuyapon", "Dagupan", "Katidtuan", "Kayaga", "Kilagasan", "Magatos", "Malamote",
+    "Malanduague", "Osias", "Paatan Lower", "Paatan Upper", "Pisan", "Poblacion", "Salapungan",
+  ],
+  Kidapawan: [
+    "Amas", "Amazion", "Balabag", "Balindog", "Benoligan", "Berada", "Gayola", "Ginatilan", "Ilomavis", "Indangan",
+    "Junction", "Kalaisan", "Kalasuyan", "Katipunan", "Lanao", "Linangcob", "Luvimin", "Macabolig", "Magsaysay",
+    "Malinan", "Manongol", "Marbel", "Mateo", "Meochao", "Mua-an", "New Bohol", "Nuangan", "Onica", "Paco", "Patadon",
+    "Perez", "Poblacion", "San Isidro", "San Roque", "Santo Niño", "Sibawan", "Sikitan", "Singao", "Sudapin", "Sumbao",
+  ],
+  Libungan: [
+    "Abaga", "Baguer", "Barongis", "Batiocan", "Cabaruyan", "Cabpangi", "Demapaco", "Grebona", "Gumaga", "Kapayawi",
+    "Kiloyao", "Kitubod", "Malengen", "Montay", "Nica-an", "Palao", "Poblacion", "Sinapangan", "Sinawingan", "Ulamian",
+  ],
+  "M'Lang": [
+    "Bagontapay", "Bialong", "Buayan", "Calunasan", "Dagong", "Dalipe", "Dungo-an", "Gaunan", "Inas", "Katipunan",
+    "La Fortuna", "La Suerte", "Langkong", "Lepaga", "Liboo", "Lika", "Luz Village", "Magallon", "Malayan",
+    "New Antique", "New Barbaza", "New Consolacion", "New Esperanza", "New Janiuay", "New Kalibo", "New Lawa-an",
+    "New Rizal", "Nueva Vida", "Pag-asa", "Palma-Perez", "Poblacion", "Poblacion B", "Pulang-lupa", "Sangat",
+    "Tawantawan", "Tibao", "Ugpay",
+  ],
+  Magpet: [
+    "Alibayon", "Amabel", "Bagumbayan", "Balete", "Bangkal", "Bantac", "Basak", "Binay", "Bongolanon", "Datu Celo",
+    "Del Pilar", "Doles", "Don Panaca", "Gubatan", "Ilian", "Imamaling", "Inac", "Kamada", "Kauswagan", "Kinarum",
+    "Kisandal", "Magcaalam", "Mahongcog", "Manobisa", "Manobo", "Noa", "Owas", "Pangao-an", "Poblacion", "Sallab",
+    "Tagbac", "Temporan",
+  ],
+  Makilala: [
+    "Batasan", "Bato", "Biangan", "Buena Vida", "Buhay", "Bulakanon", "Cabilao", "Concepcion", "Dagupan", "Garsika",
+    "Guangan", "Indangan", "Jose Rizal", "Katipunan II", "Kawayanon", "Kisante", "Leboce", "Libertad", "Luayon",
+    "Luna Norte", "Luna Sur", "Malabuan", "Malasila", "Malungon", "New Baguio", "New Bulatukan", "New Cebu",
+    "New Israel", "Old Bulatukan", "Poblacion", "Rodero", "Saguing", "San Vicente", "Santa Felomina", "Santo Niño",
+    "Sinkatulan", "Taluntalunan", "Villaflores",
+  ],
+  Matalam: [
+    "Arakan", "Bangbang", "Bato", "Central Malamote", "Dalapitan", "Estado", "Ilian", "Kabulacan", "Kibia", "Kibudoc",
+    "Kidama", "Kilada", "Lampayan", "Latagan", "Linao", "Lower Malamote", "Manubuan", "Manupal", "Marbel", "Minamaing",
+    "Natutungan", "New Abra", "New Alimodian", "New Bugasong", "New Pandan", "Patadon West", "Pinamaton", "Poblacion",
+    "Salvacion", "Santa Maria", "Sarayan", "Taculen", "Taguranao", "Tamped",
+  ],
+  Midsayap: [
+    "Agriculture", "Anonang", "Arizona", "Bagumba", "Baliki", "Barangay Poblacion 1", "Barangay Poblacion 2",
+    "Barangay Poblacion 3", "Barangay Poblacion 4", "Barangay Poblacion 5", "Barangay Poblacion 6",
+    "Barangay Poblacion 7", "Barangay Poblacion 8", "Bitoka", "Bual Norte", "Bual Sur", "Bulanan Upper",
+    "Central Bulanan", "Central Glad", "Central Katingawan", "Ilbocean", "Kimagango", "Kiwanan", "Lagumbingan",
+    "Lomopog", "Lower Glad", "Lower Katingawan", "Macasendeg", "Malamote", "Milaya", "Nalin", "Nes", "Palongoguen",
+    "Patindeguen", "Rangaban", "Sadaan", "Salunayan", "San Isidro", "San Pedro", "Santa Cruz", "Upper Glad I",
+    "Upper Glad II", "Upper Labas", "Villarica",
+  ],
+  Pigkawayan: [
+    "Anick", "Balogo", "Banucagon", "Buluan", "Bulucaon", "Cabpangi", "Capayuran", "Central Panatan", "Kimarayang",
+    "Malagakit", "Maluao", "Midpapan I", "Midpapan II", "Mulok", "New Culasi", "New Igbaras", "New Panay",
+    "North Manuangan", "Payong-payong", "Poblacion I", "Poblacion II", "Poblacion III", "Presbitero", "Renibon",
+    "South Manuangan", "Tigbawan", "Tubon", "Upper Baguer",
+  ],
+  Pikit: [
+    "Balabak", "Balatican", "Bulod", "Calawag", "Dalingaoen", "Damalasak", "Ginatilan", "Inug-ug", "Kalacacan",
+    "Katilacan", "Kolambog", "Ladtingan", "Langayen", "Paidu Pulangi", "Poblacion", "Punol", "Silik", "Takipan",
+    "Talitay", "Tinutulan",
+  ],
+  "President Roxas": [
+    "Alegria", "Bato-bato", "Cabangbangan", "Camasi", "Datu Indang", "Datu Sandongan", "Del Carmen", "F. Cajelo",
+    "Greenhill", "Idaoman", "Ilustre", "Kamarahan", "Kimaruhing", "Kisupaan", "La Esperanza", "Labu-o", "Lamalama",
+    "Lomonay", "Mabuhay", "New Cebu", "Poblacion", "Sagcungan", "Salat", "Sarayan", "Tuael",
+  ],
+  Tulunan: [
+    "Bacong", "Bagumbayan", "Banayal", "Batang", "Bituan", "Bual", "Bunawan", "Daig", "Damawato", "Dungos", "F. Cajelo",
+    "Galidan", "Genoveva Baynosa", "Kanibong", "La Esperanza", "Lampagang", "Magbok", "Maybula", "Minapan",
+    "Nabundasan", "New Caridad", "New Culasi", "New Panay", "Paraiso", "Poblacion", "Popoyon", "Sibsib", "Tambac",
+    "Tuburan",
+  ],
+}
@@ -0,0 +1,59 @@
+// Barangays of each town in Davao de Oro, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Compostela: [
+    "Aurora", "Bagongon", "Gabi", "Lagab", "Mangayon", "Mapaca", "Maparat", "New Alegria", "Ngan", "Osmeña",
+    "Panansalan", "Poblacion", "San Jose", "San Miguel", "Siocon", "Tamia",
+  ],
+  Laak: [
+    "Aguinaldo", "Amor Cruz", "Ampawid", "Andap", "Anitap", "Bagong Silang", "Banbanon", "Belmonte", "Binasbas",
+    "Bullucan", "Cebulida", "Concepcion", "Datu Ampunan", "Datu Davao", "Doña Josefa", "El Katipunan", "Il Papa",
+    "Imelda", "Inacayan", "Kaligutan", "Kapatagan", "Kidawa", "Kilagding", "Kiokmay", "Laac", "Langtud", "Longanapan",
+    "Mabuhay", "Macopa", "Malinao", "Mangloy", "Melale", "Naga", "New Bethlehem", "Panamoren", "Sabud", "San Antonio",
+    "Santa Emilia", "Santo Niño", "Sisimon",
+  ],
+  Mabini: [
+    "Anitapan", "Cabuyuan", "Cadunan", "Cuambog", "Del Pilar", "Golden Valley", "Libodon", "Pangibiran", "Pindasan",
+    "San Antonio", "Tagnanan",
+  ],
+  Maco: [
+    "Anibongan", "Anislagan", "Binuangan", "Bucana", "Calabcab", "Concepcion", "Dumlan", "Elizalde", "Gubatan", "Hijo",
+    "Kinuban", "Langgam", "Lapu-lapu", "Libay-libay", "Limbo", "Lumatab", "Magangit", "Mainit", "Malamodao",
+    "Manipongol", "Mapaang", "Masara", "New Asturias", "New Barili", "New Leyte", "New Visayas", "Panangan", "Pangi",
+    "Panibasan", "Panoraon", "Poblacion", "San Juan", "San Roque", "Sangab", "Tagbaros", "Taglawig", "Teresa",
+  ],
+  Maragusan: [
+    "Bagong Silang", "Bahi", "Cambagang", "Coronobe", "Katipunan", "Lahi", "Langgawisan", "Mabugnao", "Magcagong",
+    "Mahayahay", "Mapawa", "Maragusan", "Mauswagon", "New Albay", "New Katipunan", "New Manay", "New Panay", "Paloc",
+    "Pamintaran", "Parasanon", "Talian", "Tandik", "Tigbao", "Tupas",
+  ],
+  Mawab: [
+    "Andili", "Bawani", "Concepcion", "Malinawon", "Nueva Visayas", "Nuevo Iloco", "Poblacion", "Salvacion", "Saosao",
+    "Sawangan", "Tuboran",
+  ],
+  Monkayo: [
+    "Awao", "Babag", "Banlag", "Baylo", "Casoon", "Haguimitan", "Inambatan", "Macopa", "Mamunga", "Mount Diwata",
+    "Naboc", "Olaycon", "Pasian", "Poblacion", "Rizal", "Salvacion", "San Isidro", "San Jose", "Tubo-tubo", "Union",
+    "Upper Ulip",
+  ],
+  Montevista: [
+    "Banagbanag", "Banglasan", "Bankerohan Norte", "Bankerohan Sur", "Camansi", "Camantangan", "Canidkid", "Concepcion",
+    "Dauman", "Lebanon", "Linoan", "Mayaon", "New Calape", "New Cebulan", "New Dalaguete", "New Visayas", "Prosperidad",
+    "San Jose", "San Vicente", "Tapia",
+  ],
+  Nabunturan: [
+    "Anislagan", "Antequera", "Basak", "Bayabas", "Bukal", "Cabacungan", "Cabidianan", "Katipunan", "Libasan", "Linda",
+    "Magading", "Magsaysay", "Mainit", "Manat", "Matilo", "Mipangi", "New Dauis", "New Sibonga", "Ogao", "Pangutosan",
+    "Poblacion", "San Isidro", "San Roque", "San Vicente", "Santa Maria", "Santo Niño", "Sasa", "Tagnocon",
+  ],
+  "New Bataan": [
+    "Andap", "Bantacan", "Batinao", "Cabinuangan", "Camanlangan", "Cogonon", "Fatima", "Kahayag", "Katipunan",
+    "Magangit", "Magsaysay", "Manurigao", "Pagsabangan", "Panag", "San Roque", "Tandawan",
+  ],
+  Pantukan: [
+    "Araibo", "Bongabong", "Bongbong", "Kingking", "Las Arenas", "Magnaga", "Matiao", "Napnapan", "P. Fuentes",
+    "Tag-Ugpo", "Tagdangua", "Tambongon", "Tibagon",
+  ],
+}
@@ -0,0 +1,58 @@
+// Barangays of each town in Davao del Norte, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Asuncion: [
+    "Binancian", "Buan", "Buclad", "Cabaywa", "Camansa", "Cambanogoy", "Camoning", "Canatan", "Concepcion",
+    "Doña Andrea", "Magatos", "Napungas", "New Bantayan", "New Loon", "New Santiago", "Pamacaun", "Sagayen",
+    "San Vicente", "Santa Filomena", "Sonlon",
+  ],
+  "Braulio E. Dujali": [
+    "Cabayangan", "Dujali", "Magupising", "New Casay", "Tanglaw",
+  ],
+  Carmen: [
+    "Alejal", "Anibongan", "Asuncion", "Cebulano", "Guadalupe", "Ising", "La Paz", "Mabaus", "Mabuhay", "Magsaysay",
+    "Mangalcal", "Minda", "New Camiling", "Salvacion", "San Isidro", "Sto. Niño", "Taba", "Tibulao", "Tubod", "Tuganay",
+  ],
+  "Island Garden City of Samal": [
+    "Adecor", "Anonang", "Aumbay", "Aundanao", "Balet", "Bandera", "Caliclic", "Camudmud", "Catagman", "Cawag", "Cogon",
+    "Cogon (Talicod)", "Dadatan", "Del Monte", "Guilon", "Kanaan", "Kinawitnon", "Libertad", "Libuak", "Licup", "Limao",
+    "Linosutan", "Mambago-A", "Mambago-B", "Miranda", "Moncado", "Pangubatan", "Peñaplata", "Poblacion", "San Agustin",
+    "San Antonio", "San Isidro (Babak)", "San Isidro (Kaputian)", "San Jose", "San Miguel", "San Remigio", "Santa Cruz",
+    "Santo Niño", "Sion", "Tagbaobo", "Tagbay", "Tagbitan-ag", "Tagdaliao", "Tagpopongan", "Tambo", "Toril",
+  ],
+  Kapalong: [
+    "Capungagan", "Florida", "Gabuyan", "Gupitan", "Katipunan", "Luna", "Mabantao", "Mamacao", "Maniki", "Pag-asa",
+    "Sampao", "Semong", "Sua-on", "Tiburcia",
+  ],
+  "New Corella": [
+    "Cabidianan", "Carcor", "Del Monte", "Del Pilar", "El Salvador", "Limba-an", "Macgum", "Mambing", "Mesaoy",
+    "New Bohol", "New Cortez", "New Sambog", "Patrocenio", "Poblacion", "San Jose", "San Roque", "Sta. Cruz", "Sta. Fe",
+    "Sto. Niño", "Suawon",
+  ],
+  Panabo: [
+    "A. O. Floirendo", "Buenavista", "Cacao", "Cagangohan", "Consolacion", "Dapco", "Datu Abdul Dadia", "Gredu",
+    "J.P. Laurel", "Kasilak", "Katipunan", "Katualan", "Kauswagan", "Kiotoy", "Little Panay", "Lower Panaga", "Mabunao",
+    "Maduao", "Malativas", "Manay", "Nanyo", "New Malaga", "New Malitbog", "New Pandan", "New Visayas", "Quezon",
+    "Salvacion", "San Francisco", "San Nicolas", "San Pedro", "San Roque", "San Vicente", "Santa Cruz", "Santo Niño",
+    "Sindaton", "Southern Davao", "Tagpore", "Tibungol", "Upper Licanan", "Waterfall",
+  ],
+  "San Isidro": [
+    "Dacudao", "Datu Balong", "Igangon", "Kipalili", "Libuton", "Linao", "Mamangan", "Monte Dujali", "Pinamuno",
+    "Sabangan", "San Miguel", "Santo Niño", "Sawata",
+  ],
+  "Santo Tomas": [
+    "Balagunan", "Bobongon", "Casig-Ang", "Esperanza", "Kimamon", "Kinamayan", "La Libertad", "Lungaog", "Magwawa",
+    "New Katipunan", "New Visayas", "Pantaron", "Salvacion", "San Jose", "San Miguel", "San Vicente", "Talomo",
+    "Tibal-og", "Tulalian",
+  ],
+  Tagum: [
+    "Apokon", "Bincungan", "Busaon", "Canocotan", "Cuambogan", "La Filipina", "Liboganon", "Madaum", "Magdum",
+    "Magugpo East", "Magugpo North", "Magugpo Poblacion", "Magugpo South", "Magugpo West", "Mankilam", "New Balamban",
+    "Nueva Fuerza", "Pagsabangan", "Pandapan", "San Agustin", "San Isidro", "San Miguel", "Visayan Village",
+  ],
+  Talaingod: [
+    "Dagohoy", "Palma Gil", "Santo Niño",
+  ],
+}
@@ -0,0 +1,56 @@
+// Barangays of each town in Davao del Sur, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Bansalan: [
+    "Alegre", "Alta Vista", "Anonang", "Bitaug", "Bonifacio", "Buenavista", "Darapuay", "Dolo", "Eman", "Kinuskusan",
+    "Libertad", "Linawan", "Mabuhay", "Mabunga", "Managa", "Marber", "New Clarin", "Poblacion", "Poblacion Dos",
+    "Rizal", "Santo Niño", "Sibayan", "Tinongtongan", "Tubod", "Union",
+  ],
+  Digos: [
+    "Aplaya", "Balabag", "Binaton", "Cogon", "Colorado", "Dawis", "Dulangan", "Goma", "Igpit", "Kapatagan", "Kiagot",
+    "Lungag", "Mahayahay", "Matti", "Ruparan", "San Agustin", "San Jose", "San Miguel", "San Roque", "Sinawilan",
+    "Soong", "Tiguman", "Tres De Mayo", "Zone 1", "Zone 2", "Zone 3",
+  ],
+  Hagonoy: [
+    "Balutakay", "Clib", "Guihing", "Guihing Aplaya", "Hagonoy Crossing", "Kibuaya", "La Union", "Lanuro", "Lapulabao",
+    "Leling", "Mahayahay", "Malabang Damsite", "Maliit Digos", "New Quezon", "Paligue", "Poblacion", "Sacub",
+    "San Guillermo", "San Isidro", "Sinayawan", "Tologan",
+  ],
+  Kiblawan: [
+    "Abnate", "Bagong Negros", "Bagong Silang", "Bagumbayan", "Balasiao", "Bonifacio", "Bulol-Salo", "Bunot",
+    "Cogon-Bacaca", "Dapok", "Ihan", "Kibongbong", "Kimlawis", "Kisulan", "Lati-an", "Manual", "Maraga-a", "Molopolo",
+    "New Sibonga", "Panaglib", "Pasig", "Poblacion", "Pocaleel", "San Isidro", "San Jose", "San Pedro", "Santo Niño",
+    "Tacub", "Tacul", "Waterfall",
+  ],
+  Magsaysay: [
+    "Bacungan", "Balnate", "Barayong", "Blocon", "Dalawinon", "Dalumay", "Glamang", "Kanapulo", "Kasuga", "Lower Bala",
+    "Mabini", "Maibo", "Malawanit", "Malongon", "New Ilocos", "New Opon", "Poblacion", "San Isidro", "San Miguel",
+    "Tacul", "Tagaytay", "Upper Bala",
+  ],
+  Malalag: [
+    "Bagumbayan", "Baybay", "Bolton", "Bulacan", "Caputian", "Ibo", "Kiblagon", "Lapu-Lapu", "Mabini", "New Baclayon",
+    "Pitu", "Poblacion", "Rizal", "San Isidro", "Tagansule",
+  ],
+  Matanao: [
+    "Asbang", "Asinan", "Bagumbayan", "Bangkal", "Buas", "Buri", "Cabligan", "Camanchiles", "Ceboza", "Colonsabak",
+    "Dongan-Pekong", "Kabasagan", "Kapok", "Kauswagan", "Kibao", "La Suerte", "Langa-an", "Lower Marber", "Manga",
+    "New Katipunan", "New Murcia", "New Visayas", "Poblacion", "Saboy", "San Jose", "San Miguel", "San Vicente", "Saub",
+    "Sinaragan", "Sinawilan", "Tamlangon", "Tibongbong", "Towak",
+  ],
+  Padada: [
+    "Almendras", "Don Sergio Osmeña, Sr.", "Harada Butai", "Lower Katipunan", "Lower Limonzo", "Lower Malinao",
+    "N C Ordaneza District", "Northern Paligue", "Palili", "Piape", "Punta Piape", "Quirino District", "San Isidro",
+    "Southern Paligue", "Tulogan", "Upper Limonzo", "Upper Malinao",
+  ],
+  "Santa Cruz": [
+    "Astorga", "Bato", "Coronon", "Darong", "Inawayan", "Jose Rizal", "Matutungan", "Melilia", "Saliducon", "Sibulan",
+    "Sinoron", "Tagabuli", "Tibolo", "Tuban", "Zone I", "Zone II", "Zone III", "Zone IV",
+  ],
+  Sulop: [
+    "Balasinon", "Buguis", "Carre", "Clib", "Harada Butai", "Katipunan", "Kiblagon", "Labon", "Laperas", "Lapla",
+    "Litos", "Luparan", "Mckinley", "New Cebu", "Osmeña", "Palili", "Parame", "Poblacion", "Roxas", "Solongvale",
+    "Tagolilong", "Tala-o", "Talas", "Tanwalang", "Waterfall",
+  ],
+}
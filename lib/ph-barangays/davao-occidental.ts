@@ -0,0 +1,30 @@
+// Barangays of each town in Davao Occidental, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  "Don Marcelino": [
+    "Baluntaya", "Calian", "Dalupan", "Kinanga", "Kiobog", "Lanao", "Lapuan", "Lawa", "Linadasan", "Mabuhay",
+    "North Lamidan", "Nueva Villa", "South Lamidan", "Talagutong", "West Lamidan",
+  ],
+  "Jose Abad Santos": [
+    "Balangonan", "Buguis", "Bukid", "Butuan", "Butulan", "Caburan Big", "Caburan Small", "Camalian", "Carahayan",
+    "Cayaponga", "Culaman", "Kalbay", "Kitayo", "Magulibas", "Malalan", "Mangile", "Marabutuan", "Meybio", "Molmol",
+    "Nuing", "Patulang", "Quiapo", "San Isidro", "Sugal", "Tabayon", "Tanuman",
+  ],
+  Malita: [
+    "Bito", "Bolila", "Buhangin", "Culaman", "Datu Danwata", "Demoloc", "Felis", "Fishing Village", "Kibalatong",
+    "Kidalapong", "Kilalag", "Kinangan", "Lacaron", "Lagumit", "Lais", "Little Baguio", "Macol", "Mana",
+    "Manuel Peralta", "New Argao", "Pangaleon", "Pangian", "Pinalpalan", "Poblacion", "Sangay", "Talogoy", "Tical",
+    "Ticulon", "Tingolo", "Tubalan",
+  ],
+  "Santa Maria": [
+    "Basiawan", "Buca", "Cadaatan", "Datu Daligasao", "Datu Intan", "Kidadan", "Kinilidan", "Kisulad", "Malalag Tubig",
+    "Mamacao", "Ogpao", "Poblacion", "Pongpong", "San Agustin", "San Antonio", "San Isidro", "San Juan", "San Pedro",
+    "San Roque", "Santo Niño", "Santo Rosario", "Tanglad",
+  ],
+  Sarangani: [
+    "Batuganding", "Camahual", "Camalig", "Gomtago", "Konel", "Laker", "Lipol", "Mabila", "Patuco", "Tagen", "Tinina",
+    "Tucal",
+  ],
+}
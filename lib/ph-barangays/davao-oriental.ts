@@ -0,0 +1,51 @@
+// Barangays of each town in Davao Oriental, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Baganga: [
+    "Baculin", "Banao", "Batawan", "Batiano", "Binondo", "Bobonao", "Campawan", "Central", "Dapnan", "Kinablangan",
+    "Lambajon", "Lucod", "Mahanub", "Mikit", "Salingcomot", "San Isidro", "San Victor", "Saoquegue",
+  ],
+  Banaybanay: [
+    "Cabangcalan", "Caganganan", "Calubihan", "Causwagan", "Mahayag", "Maputi", "Mogbongcogon", "Panikian",
+    "Pintatagan", "Piso Proper", "Poblacion", "Punta Linao", "Rang-ay", "San Vicente",
+  ],
+  Boston: [
+    "Caatihan", "Cabasagan", "Carmen", "Cawayanan", "Poblacion", "San Jose", "Sibajay", "Simulao",
+  ],
+  Caraga: [
+    "Alvar", "Caningag", "Don Leon Balante", "Lamiawan", "Manorigao", "Mercedes", "Palma Gil", "Pichon", "Poblacion",
+    "San Antonio", "San Jose", "San Luis", "San Miguel", "San Pedro", "Santa Fe", "Santiago", "Sobrecarey",
+  ],
+  Cateel: [
+    "Abijod", "Alegria", "Aliwagwag", "Aragon", "Baybay", "Maglahus", "Mainit", "Malibago", "Poblacion", "San Alfonso",
+    "San Antonio", "San Miguel", "San Rafael", "San Vicente", "Santa Filomena", "Taytayan",
+  ],
+  "Governor Generoso": [
+    "Anitap", "Crispin Dela Cruz", "Don Aurelio Chicote", "Lavigan", "Luzon", "Magdug", "Manuel Roxas", "Monserrat",
+    "Nangan", "Oregon", "Poblacion", "Pundaguitan", "Sergio Osmeña", "Surop", "Tagabebe", "Tamban", "Tandang Sora",
+    "Tibanban", "Tiblawan", "Upper Tibanban",
+  ],
+  Lupon: [
+    "Bagumbayan", "Cabadiangan", "Calapagan", "Cocornon", "Corporacion", "Don Mariano Marcos", "Ilangay", "Langka",
+    "Lantawan", "Limbahan", "Macangao", "Magsaysay", "Mahayahay", "Maragatas", "Marayag", "New Visayas", "Poblacion",
+    "San Isidro", "San Jose", "Tagboa", "Tagugpo",
+  ],
+  Manay: [
+    "Capasnan", "Cayawan", "Central", "Concepcion", "Del Pilar", "Guza", "Holy Cross", "Lambog", "Mabini", "Manreza",
+    "New Taokanga", "Old Macopa", "Rizal", "San Fermin", "San Ignacio", "San Isidro", "Zaragosa",
+  ],
+  Mati: [
+    "Badas", "Bobon", "Buso", "Cabuaya", "Central", "Culian", "Dahican", "Danao", "Dawan", "Don Enrique Lopez",
+    "Don Martin Marundan", "Don Salvador Lopez, Sr.", "Langka", "Lawigan", "Libudon", "Luban", "Macambol", "Mamali",
+    "Matiao", "Mayo", "Sainz", "Sanghay", "Tagabakid", "Tagbinonga", "Taguibo", "Tamisan",
+  ],
+  "San Isidro": [
+    "Baon", "Batobato", "Bitaogan", "Cambaleon", "Dugmanon", "Iba", "La Union", "Lapu-lapu", "Maag", "Manikling",
+    "Maputi", "San Miguel", "San Roque", "Santo Rosario", "Sudlon", "Talisay",
+  ],
+  Tarragona: [
+    "Cabagayan", "Central", "Dadong", "Jovellar", "Limot", "Lucatan", "Maganda", "Ompao", "Tomoaong", "Tubaon",
+  ],
+}
@@ -0,0 +1,34 @@
+// Barangays of each town in Dinagat Islands, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Basilisa: [
+    "Benglen", "Catadman", "Columbus", "Coring", "Cortes", "Diegas", "Doña Helene", "Edera", "Ferdinand", "Geotina",
+    "Imee", "Melgar", "Montag", "Navarro", "New Nazareth", "Poblacion", "Puerto Princesa", "Rita Glenda", "Roma",
+    "Roxas", "Santa Monica", "Santo Niño", "Sering", "Sombrado", "Tag-abaca", "Villa Ecleo", "Villa Pantinople",
+  ],
+  Cagdianao: [
+    "Boa", "Cabunga-an", "Del Pilar", "Laguna", "Legaspi", "Ma-atas", "Mabini", "Nueva Estrella", "Poblacion",
+    "R. Ecleo, Sr.", "San Jose", "Santa Rita", "Tigbao", "Valencia",
+  ],
+  Dinagat: [
+    "Bagumbayan", "Cab-ilan", "Cabayawan", "Cayetano", "Escolta", "Gomez", "Justiniana Edera", "Magsaysay", "Mauswagon",
+    "New Mabuhay", "Wadas", "White Beach",
+  ],
+  Libjo: [
+    "Albor", "Arellano", "Bayanihan", "Doña Helen", "Garcia", "General Aguinaldo", "Kanihaan", "Llamera", "Magsaysay",
+    "Osmeña", "Plaridel", "Quezon", "Rosita", "San Antonio", "San Jose", "Santo Niño",
+  ],
+  Loreto: [
+    "Carmen", "Esperanza", "Ferdinand", "Helene", "Liberty", "Magsaysay", "Panamaon", "San Juan", "Santa Cruz",
+    "Santiago",
+  ],
+  "San Jose": [
+    "Aurelio", "Cuarinta", "Don Ruben Ecleo", "Jacquez", "Justiniana Edera", "Luna", "Mahayahay", "Matingbe",
+    "San Jose", "San Juan", "Santa Cruz", "Wilson",
+  ],
+  Tubajon: [
+    "Diaz", "Imelda", "Mabini", "Malinao", "Navarro", "Roxas", "San Roque", "San Vicente", "Santa Cruz",
+  ],
+}
@@ -0,0 +1,141 @@
+// Barangays of each town in Eastern Samar, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Arteche: [
+    "Aguinaldo", "Balud", "Bato", "Beri", "Bigo", "Buenavista", "Cagsalay", "Campacion", "Carapdapan", "Casidman",
+    "Catumsan", "Central", "Concepcion", "Garden", "Inayawan", "Macarthur", "Rawis", "Tangbo", "Tawagan", "Tebalawon",
+  ],
+  Balangiga: [
+    "Bacjao", "Barangay Poblacion I", "Barangay Poblacion II", "Barangay Poblacion III", "Barangay Poblacion IV",
+    "Barangay Poblacion V", "Barangay Poblacion VI", "Cag-olango", "Cansumangcay", "Guinmaayohan", "Maybunga",
+    "San Miguel", "Santa Rosa",
+  ],
+  Balangkayan: [
+    "Balogo", "Bangon", "Cabay", "Caisawan", "Cantubi", "General Malvar", "Guinpoliran", "Julag", "Magsaysay",
+    "Maramag", "Poblacion I", "Poblacion II", "Poblacion III", "Poblacion IV", "Poblacion V",
+  ],
+  Borongan: [
+    "Alang-alang", "Amantacop", "Ando", "Balacdas", "Balud", "Banuyo", "Baras", "Bato", "Bayobay", "Benowangan",
+    "Bugas", "Cabalagnan", "Cabong", "Cagbonga", "Calico-an", "Calingatngan", "Camada", "Campesao", "Can-abong",
+    "Can-aga", "Canjaway", "Canlaray", "Canyopay", "Divinubo", "Hebacong", "Hindang", "Lalawigan", "Libuton",
+    "Locso-on", "Maybacong", "Maypangdan", "Pepelitan", "Pinanag-an", "Punta Maria", "Purok A", "Purok B", "Purok C",
+    "Purok D1", "Purok D2", "Purok E", "Purok F", "Purok G", "Purok H", "Sabang North", "Sabang South", "San Andres",
+    "San Gabriel", "San Gregorio", "San Jose", "San Mateo", "San Pablo", "San Saturnino", "Santa Fe", "Siha", "Sohutan",
+    "Songco", "Suribao", "Surok", "Taboc", "Tabunan", "Tamoso",
+  ],
+  "Can-Avid": [
+    "Balagon", "Barangay 1 Poblacion", "Barangay 2 Poblacion", "Barangay 3 Poblacion", "Barangay 4 Poblacion",
+    "Barangay 5 Poblacion", "Barangay 6 Poblacion", "Barangay 7 Poblacion", "Barangay 8 Poblacion",
+    "Barangay 9 Poblacion", "Barangay 10 Poblacion", "Baruk", "Boco", "Caghalong", "Camantang", "Can-ilay",
+    "Cansangaya", "Canteros", "Carolina", "Guibuangan", "Jepaco", "Mabuhay", "Malogo", "Obong", "Pandol", "Rawis",
+    "Salvacion", "Solong",
+  ],
+  Dolores: [
+    "Aroganga", "Barangay 1", "Barangay 2", "Barangay 3", "Barangay 4", "Barangay 5", "Barangay 6", "Barangay 7",
+    "Barangay 8", "Barangay 9", "Barangay 10", "Barangay 11", "Barangay 12", "Barangay 13", "Barangay 14",
+    "Barangay 15", "Bonghon", "Buenavista", "Cabago-an", "Caglao-an", "Cagtabon", "Dampigan", "Dapdap", "Del Pilar",
+    "Denigpian", "Gap-ang", "Hilabaan", "Hinolaso", "Japitan", "Jicontol", "Libertad", "Magongbong", "Magsaysay",
+    "Malaintos", "Malobago", "Osmeña", "Rizal", "San Isidro", "San Pascual", "San Roque", "San Vicente", "Santa Cruz",
+    "Santo Niño", "Tanauan", "Tikling", "Villahermosa",
+  ],
+  "General Macarthur": [
+    "Aguinaldo", "Alang-alang", "Binalay", "Calutan", "Camcuevas", "Domrog", "Laurel", "Limbujan", "Macapagal",
+    "Magsaysay", "Osmeña", "Pingan", "Poblacion Barangay 1", "Poblacion Barangay 2", "Poblacion Barangay 3",
+    "Poblacion Barangay 4", "Poblacion Barangay 5", "Poblacion Barangay 6", "Poblacion Barangay 7",
+    "Poblacion Barangay 8", "Quezon", "Quirino", "Roxas", "San Isidro", "San Roque", "Santa Cruz", "Santa Fe",
+    "Tandang Sora", "Tugop", "Vigan",
+  ],
+  Giporlos: [
+    "Barangay 1", "Barangay 2", "Barangay 3", "Barangay 4", "Barangay 5", "Barangay 6", "Barangay 7", "Barangay 8",
+    "Biga", "Coticot", "Gigoso", "Huknan", "Parina", "Paya", "President Roxas", "San Isidro", "San Miguel",
+    "Santa Cruz",
+  ],
+  Guiuan: [
+    "Alingarog", "Bagua", "Banaag", "Banahao", "Baras", "Barbo", "Bitaugan", "Bucao", "Buenavista", "Bungtod",
+    "Cagdara-o", "Cagusu-an", "Camparang", "Campoyong", "Canawayon", "Cantahay", "Casuguran", "Cogon", "Culasi",
+    "Dalaragan", "Gahoy", "Habag", "Hagna", "Hamorawon", "Hollywood", "Inapulangan", "Lupok", "Mayana", "Ngolos",
+    "Pagbabangnan", "Pagnamitan", "Poblacion Ward 1", "Poblacion Ward 2", "Poblacion Ward 3", "Poblacion Ward 4",
+    "Poblacion Ward 4-A", "Poblacion Ward 5", "Poblacion Ward 6", "Poblacion Ward 7", "Poblacion Ward 8",
+    "Poblacion Ward 9", "Poblacion Ward 9-A", "Poblacion Ward 10", "Poblacion Ward 11", "Poblacion Ward 12", "Salug",
+    "San Antonio", "San Jose", "San Juan", "San Pedro", "Santo Niño", "Sapao", "Sulangan", "Suluan", "Surok", "Tagporo",
+    "Taytay", "Timala", "Trinidad", "Victory Island",
+  ],
+  Hernani: [
+    "Barangay 1", "Barangay 2", "Barangay 3", "Barangay 4", "Batang", "Cacatmonan", "Canciledes", "Carmen", "Garawon",
+    "Nagaja", "Padang", "San Isidro", "San Miguel",
+  ],
+  Jipapad: [
+    "Agsaman", "Barangay 1", "Barangay 2", "Barangay 3", "Barangay 4", "Cagmanaba", "Dorillo", "Jewaran", "Mabuhay",
+    "Magsaysay", "Recare", "Roxas", "San Roque",
+  ],
+  Lawaan: [
+    "Barangay Poblacion 1", "Barangay Poblacion 2", "Barangay Poblacion 3", "Barangay Poblacion 4",
+    "Barangay Poblacion 5", "Barangay Poblacion 6", "Barangay Poblacion 7", "Barangay Poblacion 8",
+    "Barangay Poblacion 9", "Barangay Poblacion 10", "Betaog", "Bolusao", "Guinob-an", "Maslog", "San Isidro",
+    "Taguite",
+  ],
+  Llorente: [
+    "Antipolo", "Babanikhon", "Bacayawan", "Barangay 1", "Barangay 2", "Barangay 3", "Barangay 4", "Barangay 5",
+    "Barangay 6", "Barangay 7", "Barangay 8", "Barangay 9", "Barangay 10", "Barangay 11", "Barangay 12", "Barobo",
+    "Burak", "Can-ato", "Candoros", "Canliwag", "Cantomco", "Hugpa", "Maca-anga", "Magtino", "Mina-anod", "Naubay",
+    "Piliw", "San Jose", "San Miguel", "San Roque", "So-ong", "Tabok", "Waso",
+  ],
+  Maslog: [
+    "Barangay 1", "Barangay 2", "Bulawan", "Carayacay", "Libertad", "Malobago", "Maputi", "San Miguel", "San Roque",
+    "Tangbo", "Taytay", "Tugas",
+  ],
+  Maydolong: [
+    "Barangay Poblacion 1", "Barangay Poblacion 2", "Barangay Poblacion 3", "Barangay Poblacion 4",
+    "Barangay Poblacion 5", "Barangay Poblacion 6", "Barangay Poblacion 7", "Camada", "Campakerit", "Canloterio",
+    "Del Pilar", "Guindalitan", "Lapgap", "Malobago", "Maybocog", "Maytigbao", "Omawas", "Patag", "San Gabriel",
+    "Tagaslian",
+  ],
+  Mercedes: [
+    "Anuron", "Banuyo", "Barangay 1 Poblacion", "Barangay 2 Poblacion", "Barangay 3 Poblacion", "Barangay 4 Poblacion",
+    "Bobon", "Busay", "Buyayawon", "Cabunga-an", "Cambante", "Palamrag", "Port Kennedy", "San Jose", "San Roque",
+    "Sung-an",
+  ],
+  Oras: [
+    "Agsam", "Alang-alang", "Bagacay", "Balingasag", "Balocawe", "Bantayan", "Batang", "Bato", "Binalayan", "Buntay",
+    "Burak", "Butnga", "Cadian", "Cagdine", "Cagpile", "Cagtoog", "Camanga", "Dalid", "Dao", "Factoria", "Gamot",
+    "Iwayan", "Japay", "Kalaw", "Mabuhay", "Malingon", "Minap-os", "Nadacpan", "Naga", "Pangudtan", "Paypayon",
+    "Riverside", "Rizal", "Sabang", "San Eduardo", "San Roque", "Santa Monica", "Saugan", "Saurong", "Tawagan",
+    "Tiguib", "Trinidad",
+  ],
+  Quinapondan: [
+    "Alang-alang", "Anislag", "Bagte", "Barangay No. 1", "Barangay No. 2", "Barangay No. 3", "Barangay No. 4",
+    "Barangay No. 5", "Barangay No. 6", "Barangay No. 7", "Buenavista", "Caculangan", "Cagdaja", "Cambilla", "Cantenio",
+    "Naga", "Paco", "Palactad", "Rizal", "San Isidro", "San Pedro", "San Vicente", "Santa Cruz", "Santa Margarita",
+    "Santo Niño",
+  ],
+  Salcedo: [
+    "Abejao", "Alog", "Asgad", "Bagtong", "Balud", "Barangay 1", "Barangay 2", "Barangay 3", "Barangay 4", "Barangay 5",
+    "Barangay 6", "Barangay 7", "Barangay 8", "Barangay 9", "Barangay 10", "Barangay 11", "Barangay 12", "Barangay 13",
+    "Buabua", "Burak", "Butig", "Cagaut", "Camanga", "Cantomoja", "Carapdapan", "Caridad", "Casili-on", "Iberan",
+    "Jagnaya", "Lusod", "Malbog", "Maliwaliw", "Matarinao", "Naparaan", "Palanas", "San Roque", "Santa Cruz",
+    "Seguinon", "Tacla-on", "Tagbacan", "Talangdawan",
+  ],
+  "San Julian": [
+    "Barangay No. 1 Poblacion", "Barangay No. 2 Poblacion", "Barangay No. 3 Poblacion", "Barangay No. 4 Poblacion",
+    "Barangay No. 5 Poblacion", "Barangay No. 6 Poblacion", "Bunacan", "Campidhan", "Casoroy", "Libas", "Lunang",
+    "Nena", "Pagbabangnan", "Putong", "San Isidro", "San Miguel",
+  ],
+  "San Policarpo": [
+    "Alugan", "Bahay", "Bangon", "Barangay No. 1", "Barangay No. 2", "Barangay No. 3", "Barangay No. 4",
+    "Barangay No. 5", "Baras", "Binogawan", "Cajagwayan", "Japunan", "Natividad", "Pangpang", "Santa Cruz", "Tabo",
+    "Tan-awan",
+  ],
+  Sulat: [
+    "A-et", "Abucay", "Baybay", "Del Remedio", "Kandalakit", "Loyola Heights", "Mabini", "Maglipay", "Maramara",
+    "Riverside", "San Francisco", "San Isidro", "San Juan", "San Mateo", "San Vicente", "Santo Niño", "Santo Tomas",
+    "Tabi",
+  ],
+  Taft: [
+    "Batiawan", "Beto", "Binaloan", "Bongdo", "Dacul", "Danao", "Del Remedios", "Gayam", "Lomatud", "Mabuhay",
+    "Malinao", "Mantang", "Nato", "Pangabutan", "Poblacion Barangay 1", "Poblacion Barangay 2", "Poblacion Barangay 3",
+    "Poblacion Barangay 4", "Poblacion Barangay 5", "Poblacion Barangay 6", "Polangi", "San Luis", "San Pablo",
+    "San Rafael",
+  ],
+}
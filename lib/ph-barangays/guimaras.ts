@@ -0,0 +1,29 @@
+// Barangays of each town in Guimaras, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Buenavista: [
+    "Agsanayan", "Avila", "Bacjao", "Banban", "Cansilayan", "Dagsa-an", "Daragan", "East Valencia", "Getulio", "Mabini",
+    "Magsaysay", "Mclain", "Montpiller", "Navalas", "Nazaret", "New Poblacion", "Old Poblacion", "Piña", "Rizal",
+    "Salvacion", "San Fernando", "San Isidro", "San Miguel", "San Nicolas", "San Pedro", "San Roque", "Santo Rosario",
+    "Sawang", "Supang", "Tacay", "Taminla", "Tanag", "Tastasan", "Tinadtaran", "Umilig", "Zaldivar",
+  ],
+  Jordan: [
+    "Alaguisoc", "Balcon Maravilla", "Balcon Melliza", "Bugnay", "Buluangan", "Espinosa", "Hoskyn", "Lawi", "Morobuan",
+    "Poblacion", "Rizal", "San Miguel", "Santa Teresa", "Sinapsapan",
+  ],
+  "Nueva Valencia": [
+    "Cabalagnan", "Calaya", "Canhawan", "Concordia Sur", "Dolores", "Guiwanon", "Igang", "Igdarapdap", "La Paz",
+    "Lanipe", "Lucmayan", "Magamay", "Napandong", "Oracon Sur", "Pandaraonan", "Panobolon", "Poblacion", "Salvacion",
+    "San Antonio", "San Roque", "Santo Domingo", "Tando",
+  ],
+  "San Lorenzo": [
+    "Aguilar", "Cabano", "Cabungahan", "Constancia", "Gaban", "Igcawayan", "M. Chavez", "San Enrique", "Sapal",
+    "Sebario", "Suclaran", "Tamborong",
+  ],
+  Sibunag: [
+    "Alegria", "Ayangan", "Bubog", "Concordia Norte", "Dasal", "Inampologan", "Maabay", "Millan", "Oracon Norte",
+    "Ravina", "Sabang", "San Isidro", "Sebaste", "Tanglad",
+  ],
+}
@@ -0,0 +1,51 @@
+// Barangays of each town in Ifugao, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Aguinaldo: [
+    "Awayan", "Bunhian", "Butac", "Buwag", "Chalalo", "Damag", "Galonogon", "Halag", "Itab", "Jacmal", "Majlong",
+    "Mongayang", "Posnaan", "Ta-ang", "Talite", "Ubao",
+  ],
+  "Alfonso Lista": [
+    "Bangar", "Busilac", "Calimag", "Calupaan", "Caragasan", "Dolowog", "Kiling", "Laya", "Little Tadian",
+    "Namillangan", "Namnama", "Ngileb", "Pinto", "Poblacion", "San Jose", "San Juan", "San Marcos", "San Quintin",
+    "Santa Maria", "Santo Domingo",
+  ],
+  Asipulo: [
+    "Amduntog", "Antipolo", "Camandag", "Cawayan", "Hallap", "Liwon", "Namal", "Nungawa", "Panubtuban", "Pula",
+  ],
+  Banaue: [
+    "Amganad", "Anaba", "Balawis", "Banao", "Bangaan", "Batad", "Bocos", "Cambulo", "Ducligan", "Gohang", "Kinakin",
+    "Ohaj", "Poblacion", "Poitan", "Pula", "San Fernando", "Tam-an", "View Point",
+  ],
+  Hingyon: [
+    "Anao", "Bangtinon", "Bitu", "Cababuyan", "Mompolia", "Namulditan", "Northern Cababuyan", "O-ong", "Piwong",
+    "Poblacion", "Ubuag", "Umalbong",
+  ],
+  Hungduan: [
+    "Abatan", "Ba-ang", "Bangbang", "Bokiawan", "Hapao", "Lubo-ong", "Maggok", "Nungulunan", "Poblacion",
+  ],
+  Kiangan: [
+    "Ambabag", "Baguinge", "Bokiawan", "Bolog", "Dalligan", "Duit", "Hucab", "Julongan", "Lingay", "Mungayang",
+    "Nagacadan", "Pindongan", "Poblacion", "Tuplac",
+  ],
+  Lagawe: [
+    "Abinuan", "Banga", "Boliwong", "Burnay", "Buyabuyan", "Caba", "Cudog", "Dulao", "Jucbong", "Luta", "Montabiong",
+    "Olilicon", "Poblacion East", "Poblacion North", "Poblacion South", "Poblacion West", "Ponghal", "Pullaan",
+    "Tungngod", "Tupaya",
+  ],
+  Lamut: [
+    "Ambasa", "Bimpal", "Hapid", "Holowon", "Lawig", "Lucban", "Mabatobato", "Magulon", "Nayon", "Panopdopan",
+    "Payawan", "Pieza", "Poblacion East", "Poblacion West", "Pugol", "Salamague", "Sanafe", "Umilag",
+  ],
+  Mayoyao: [
+    "Aduyongan", "Alimit", "Ayangan", "Balangbang", "Banao", "Banhal", "Bato-Alatbang", "Bongan", "Buninan", "Chaya",
+    "Chumang", "Epeng", "Guinihon", "Inwaloy", "Langayan", "Liwo", "Maga", "Magulon", "Mapawoy", "Mayoyao Proper",
+    "Mongol", "Nalbu", "Nattum", "Palaad", "Poblacion", "Talboc", "Tulaed",
+  ],
+  Tinoc: [
+    "Ahin", "Ap-apid", "Binablayan", "Danggo", "Eheb", "Gumhang", "Impugong", "Luhong", "Tinoc", "Tukucan", "Tulludan",
+    "Wangwang",
+  ],
+}
@@ -0,0 +1,140 @@
+// Barangays of each town in Ilocos Norte, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Adams: [
+    "Adams",
+  ],
+  Bacarra: [
+    "Bani", "Buyon", "Cabaruan", "Cabulalaan", "Cabusligan", "Cadaratan", "Calioet-Libong", "Casilian", "Corocor",
+    "Duripes", "Ganagan", "Libtong", "Macupit", "Nambaran", "Natba", "Paninaan", "Pasiocan", "Pasngal", "Pipias",
+    "Pulangi", "Pungto", "San Agustin I", "San Agustin II", "San Andres I", "San Andres II", "San Gabriel I",
+    "San Gabriel II", "San Pedro I", "San Pedro II", "San Roque I", "San Roque II", "San Simon I", "San Simon II",
+    "San Vicente", "Sangil", "Santa Filomena I", "Santa Filomena II", "Santa Rita", "Santo Cristo I", "Santo Cristo II",
+    "Tambidao", "Teppang", "Tubburan",
+  ],
+  Badoc: [
+    "Alay-Nangbabaan", "Alogoog", "Ar-arusip", "Aring", "Balbaldez", "Bato", "Camanga", "Canaan", "Caraitan",
+    "Gabut Norte", "Gabut Sur", "Garreta", "La Virgen Milagrosa", "Labut", "Lacuben", "Lubigan", "Mabusag Norte",
+    "Mabusag Sur", "Madupayas", "Morong", "Nagrebcan", "Napu", "Pagsanahan Norte", "Pagsanahan Sur", "Paltit", "Parang",
+    "Pasuc", "Santa Cruz Norte", "Santa Cruz Sur", "Saud", "Turod",
+  ],
+  Bangui: [
+    "Abaca", "Bacsil", "Banban", "Baruyen", "Dadaor", "Lanao", "Malasin", "Manayon", "Masikil", "Nagbalagan", "Payac",
+    "San Lorenzo", "Taguiporo", "Utol",
+  ],
+  Banna: [
+    "Balioeg", "Bangsar", "Barbarangay", "Binacag", "Bomitog", "Bugasi", "Caestebanan", "Caribquib", "Catagtaguen",
+    "Crispina", "Hilario", "Imelda", "Lorenzo", "Macayepyep", "Marcos", "Nagpatayan", "Sinamar", "Tabtabagan", "Valdez",
+    "Valenciano",
+  ],
+  Batac: [
+    "Ablan Pob.", "Acosta Pob.", "Aglipay", "Baay", "Baligat", "Baoa East", "Baoa West", "Barani", "Ben-agan",
+    "Bil-loca", "Biningan", "Bungon", "Callaguip", "Camandingan", "Camguidan", "Cangrunaan", "Capacuan", "Caunayan",
+    "Colo", "Dariwdiw", "Lacub", "Mabaleng", "Magnuang", "Maipalig", "Nagbacalan", "Naguirangan", "Palongpong",
+    "Palpalicong", "Parangopong", "Payao", "Pimentel", "Quiling Norte", "Quiling Sur", "Quiom", "Rayuray",
+    "Ricarte Pob.", "San Julian", "San Mateo", "San Pedro", "Suabit", "Sumader", "Tabug", "Valdez Pob.",
+  ],
+  Burgos: [
+    "Ablan Sarat", "Agaga", "Bayog", "Bobon", "Buduan", "Nagsurot", "Paayas", "Pagali", "Poblacion", "Saoit", "Tanap",
+  ],
+  Carasi: [
+    "Angset", "Barbaqueso", "Virbira",
+  ],
+  Currimao: [
+    "Anggapang Norte", "Anggapang Sur", "Bimmanga", "Cabuusan", "Comcomloong", "Gaang", "Lang-ayan-Baramban", "Lioes",
+    "Maglaoi Centro", "Maglaoi Norte", "Maglaoi Sur", "Paguludan-Salindeg", "Pangil", "Pias Norte", "Pias Sur",
+    "Poblacion I", "Poblacion II", "Salugan", "San Simeon", "Santa Cruz", "Tapao-Tigue", "Torre", "Victoria",
+  ],
+  Dingras: [
+    "Albano", "Bacsil", "Bagut", "Baresbes", "Barong", "Bungcag", "Cali", "Capasan", "Dancel", "Elizabeth", "Espiritu",
+    "Foz", "Guerrero", "Lanas", "Lumbad", "Madamba", "Mandaloque", "Medina", "Parado", "Peralta", "Puruganan", "Root",
+    "Sagpatan", "Saludares", "San Esteban", "San Francisco", "San Marcelino", "San Marcos", "Sulquiano", "Suyo", "Ver",
+  ],
+  Dumalneg: [
+    "Cabaritan", "Kalaw", "Quibel", "San Isidro",
+  ],
+  Laoag: [
+    "Bgy. No. 1, San Lorenzo", "Bgy. No. 2, Santa Joaquina", "Bgy. No. 3, Nstra. Sra. Del Rosario",
+    "Bgy. No. 4, San Guillermo", "Bgy. No. 5, San Pedro", "Bgy. No. 6, San Agustin",
+    "Bgy. No. 7-A, Nstra. Sra. De Natividad", "Bgy. No. 7-B, Nstra. Sra. De Natividad", "Bgy. No. 8, San Vicente",
+    "Bgy. No. 9, Santa Angela", "Bgy. No. 10, San Jose", "Bgy. No. 11, Santa Balbina", "Bgy. No. 12, San Isidro",
+    "Bgy. No. 13, Nstra. Sra. De Visitacion", "Bgy. No. 14, Santo Tomas", "Bgy. No. 15, San Guillermo",
+    "Bgy. No. 16, San Jacinto", "Bgy. No. 17, San Francisco", "Bgy. No. 19, Santa Marcela", "Bgy. No. 20, San Miguel",
+    "Bgy. No. 21, San Pedro", "Bgy. No. 22, San Andres", "Bgy. No. 23, San Matias",
+    "Bgy. No. 24, Nstra. Sra. De Consolacion", "Bgy. No. 25, Santa Cayetana", "Bgy. No. 26, San Marcelino",
+    "Bgy. No. 27, Nstra. Sra. De Soledad", "Bgy. No. 28, San Bernardo", "Bgy. No. 29, Santo Tomas",
+    "Bgy. No. 30-A, Suyo", "Bgy. No. 30-B, Santa Maria", "Bgy. No. 31, Talingaan", "Bgy. No. 32-A, La Paz East",
+    "Bgy. No. 32-B, La Paz West", "Bgy. No. 32-C La Paz East", "Bgy. No. 33-A, La Paz Proper",
+    "Bgy. No. 33-B, La Paz Proper", "Bgy. No. 34-A, Gabu Norte West", "Bgy. No. 34-B, Gabu Norte East",
+    "Bgy. No. 35, Gabu Sur", "Bgy. No. 36, Araniw", "Bgy. No. 37, Calayab", "Bgy. No. 38-A, Mangato East",
+    "Bgy. No. 38-B, Mangato West", "Bgy. No. 39, Santa Rosa", "Bgy. No. 40, Balatong", "Bgy. No. 41, Balacad",
+    "Bgy. No. 42, Apaya", "Bgy. No. 43, Cavit", "Bgy. No. 44, Zamboanga", "Bgy. No. 45, Tangid", "Bgy. No. 46, Nalbo",
+    "Bgy. No. 47, Bengcag", "Bgy. No. 48-B, Cabungaan South", "Bgy. No. 49-A, Darayday", "Bgy. No. 49-B, Raraburan",
+    "Bgy. No. 50, Buttong", "Bgy. No. 51-A, Nangalisan East", "Bgy. No. 51-B, Nangalisan West",
+    "Bgy. No. 52-A, San Mateo", "Bgy. No. 52-B, Lataag", "Bgy. No. 53, Rioeng", "Bgy. No. 54-A, Lagui-Sail",
+    "Bgy. No. 54-B, Camangaan", "Bgy. No. 55-A, Barit-Pandan", "Bgy. No. 55-B, Salet-Bulangon", "Bgy. No. 55-C, Vira",
+    "Bgy. No. 56-A, Bacsil North", "Bgy. No. 56-B, Bacsil South", "Bgy. No. 57, Pila", "Bgy. No. 58, Casili",
+    "Bgy. No. 59-A, Dibua South", "Bgy. No. 59-B, Dibua North", "Bgy. No. 60-A, Caaoacan", "Bgy. No. 60-B, Madiladig",
+    "Bgy. No. 61, Cataban", "Bgy. No. 62-A, Navotas North", "Bgy. No. 62-B, Navotas South", "Bry. No. 18, San Quirino",
+    "Bry. No. 48-A, Cabungaan North",
+  ],
+  Marcos: [
+    "Cacafean", "Daquioag", "Elizabeth", "Escoda", "Ferdinand", "Fortuna", "Imelda", "Lydia", "Mabuti", "Pacifico",
+    "Santiago", "Tabucbuc", "Valdez",
+  ],
+  "Nueva Era": [
+    "Acnam", "Barangobong", "Barikir", "Bugayong", "Cabittauran", "Caray", "Garnaden", "Naguillan", "Poblacion",
+    "Santo Niño", "Uguis",
+  ],
+  Pagudpud: [
+    "Aggasi", "Baduang", "Balaoi", "Burayoc", "Caparispisan", "Caunayan", "Dampig", "Ligaya", "Pancian", "Pasaleng",
+    "Poblacion 1", "Poblacion 2", "Saguigui", "Saud", "Subec", "Tarrag",
+  ],
+  Paoay: [
+    "Bacsil", "Cabagoan", "Cabangaran", "Callaguip", "Cayubog", "Dolores", "Laoa", "Masintoc", "Monte", "Mumulaan",
+    "Nagbacalan", "Nalasin", "Nanguyudan", "Oaig-Upay-Abulao", "Pambaran", "Pannaratan", "Paratong", "Pasil", "Salbang",
+    "San Agustin", "San Blas", "San Juan", "San Pedro", "San Roque", "Sangladan Pob.", "Santa Rita", "Sideg", "Suba",
+    "Sungadan", "Surgui", "Veronica",
+  ],
+  Pasuquin: [
+    "Batuli", "Binsang", "Caruan", "Carusikis", "Carusipan", "Dadaeman", "Darupidip", "Davila", "Dilanis", "Dilavo",
+    "Estancia", "Naglicuan", "Nagsanga", "Nalvo", "Ngabangab", "Pangil", "Poblacion 1", "Poblacion 2", "Poblacion 3",
+    "Poblacion 4", "Pragata", "Puyupuyan", "Salpad", "San Juan", "Santa Catalina", "Santa Matilde", "Sapat", "Sulbec",
+    "Sulongan", "Surong", "Susugaen", "Tabungao", "Tadao",
+  ],
+  Piddig: [
+    "Ab-abut", "Abucay", "Anao", "Arua-ay", "Bimmanga", "Boyboy", "Cabaroan", "Calambeg", "Callusa", "Dupitac",
+    "Estancia", "Gayamat", "Lagandit", "Libnaoan", "Loing", "Maab-abaca", "Mangitayag", "Maruaya", "San Antonio",
+    "Santa Maria", "Sucsuquen", "Tangaoan", "Tonoton",
+  ],
+  Pinili: [
+    "Aglipay", "Apatut-Lubong", "Badio", "Barbar", "Buanga", "Bulbulala", "Bungro", "Cabaroan", "Capangdanan",
+    "Dalayap", "Darat", "Gulpeng", "Liliputen", "Lumbaan-Bicbica", "Nagtrigoan", "Pagdilao", "Pugaoan", "Puritac",
+    "Puzol", "Sacritan", "Salanap", "Santo Tomas", "Tartarabang", "Upon", "Valbuena",
+  ],
+  "San Nicolas": [
+    "San Agustin", "San Baltazar", "San Bartolome", "San Cayetano", "San Eugenio", "San Fernando", "San Francisco",
+    "San Gregorio", "San Guillermo", "San Ildefonso", "San Jose", "San Juan Bautista", "San Lorenzo", "San Lucas",
+    "San Marcos", "San Miguel", "San Pablo", "San Paulo", "San Pedro", "San Rufino", "San Silvestre", "Santa Asuncion",
+    "Santa Cecilia", "Santa Monica",
+  ],
+  Sarrat: [
+    "San Agustin", "San Andres", "San Antonio", "San Bernabe", "San Cristobal", "San Felipe", "San Francisco",
+    "San Isidro", "San Joaquin", "San Jose", "San Juan", "San Leandro", "San Lorenzo", "San Manuel", "San Marcos",
+    "San Nicolas", "San Pedro", "San Roque", "San Vicente", "Santa Barbara", "Santa Magdalena", "Santa Rosa",
+    "Santo Santiago", "Santo Tomas",
+  ],
+  Solsona: [
+    "Aguitap", "Bagbag", "Bagbago", "Barcelona", "Bubuos", "Capurictan", "Catangraran", "Darasdas", "Juan", "Laureta",
+    "Lipay", "Maananteng", "Manalpac", "Mariquet", "Nagpatpatan", "Nalasin", "Puttao", "San Juan", "San Julian",
+    "Santa Ana", "Santiago", "Talugtog",
+  ],
+  Vintar: [
+    "Abkir", "Alejo Malasig", "Alsem", "Bago", "Bulbulala", "Cabangaran", "Cabayo", "Cabisocolan", "Canaam", "Columbia",
+    "Dagupan", "Dipilat", "Esperanza", "Ester", "Isic Isic", "Lubnac", "Mabanbanag", "Malampa", "Manarang", "Margaay",
+    "Namoroc", "Parparoroc", "Parut", "Pedro F. Alviar", "Salsalamagui", "San Jose", "San Nicolas", "San Pedro",
+    "San Ramon", "San Roque", "Santa Maria", "Tamdagan", "Visaya",
+  ],
+}
@@ -0,0 +1,175 @@
+// Barangays of each town in Ilocos Sur, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Alilem: [
+    "Alilem Daya", "Amilongan", "Anaao", "Apang", "Apaya", "Batbato", "Daddaay", "Dalawa", "Kiat",
+  ],
+  Banayoyo: [
+    "Bagbagotot", "Banbanaal", "Bisangol", "Cadanglaan", "Casilagan Norte", "Casilagan Sur", "Elefante", "Guardia",
+    "Lintic", "Lopez", "Montero", "Naguimba", "Pila", "Poblacion",
+  ],
+  Bantay: [
+    "Aggay", "An-annam", "Balaleng", "Banaoang", "Barangay 1", "Barangay 2", "Barangay 3", "Barangay 4", "Barangay 5",
+    "Barangay 6", "Bulag", "Buquig", "Cabalanggan", "Cabaroan", "Cabusligan", "Capangdanan", "Guimod", "Lingsat",
+    "Malingeb", "Mira", "Naguiddayan", "Ora", "Paing", "Puspus", "Quimmarayan", "Sagneb", "Sagpat", "San Isidro",
+    "San Julian", "San Mariano", "Sinabaan", "Taguiporo", "Taleb", "Tay-ac",
+  ],
+  Burgos: [
+    "Ambugat", "Balugang", "Bangbangar", "Bessang", "Cabcaburao", "Cadacad", "Callitong", "Dayanki", "Dirdirig",
+    "Lesseb", "Lubing", "Lucaban", "Luna", "Macaoayan", "Mambug", "Manaboc", "Mapanit", "Nagpanaoan", "Paduros",
+    "Patac", "Poblacion Norte", "Poblacion Sur", "Sabangan Pinggan", "Subadi Norte", "Subadi Sur", "Taliao",
+  ],
+  Cabugao: [
+    "Alinaay", "Aragan", "Arnap", "Baclig", "Bato", "Bonifacio", "Bungro", "Cacadiran", "Caellayan", "Carusipan",
+    "Catucdaan", "Cuancabal", "Cuantacla", "Daclapan", "Dardarat", "Lipit", "Maradodon", "Margaay", "Nagsantaan",
+    "Nagsincaoan", "Namruangan", "Pila", "Pug-os", "Quezon", "Reppaac", "Rizal", "Sabang", "Sagayaden", "Salapasap",
+    "Salomague", "Sisim", "Turod", "Turod-Patac",
+  ],
+  Candon: [
+    "Allangigan Primero", "Allangigan Segundo", "Amguid", "Ayudante", "Bagani Camposanto", "Bagani Gabor",
+    "Bagani Tocgo", "Bagani Ubbog", "Bagar", "Balingaoan", "Bugnay", "Calaoaan", "Calongbuyan", "Caterman",
+    "Cubcubbuot", "Darapidap", "Langlangca Primero", "Langlangca Segundo", "Oaig-Daya", "Palacapac", "Paras",
+    "Parioc Primero", "Parioc Segundo", "Patpata Primero", "Patpata Segundo", "Paypayad", "Salvador Primero",
+    "Salvador Segundo", "San Agustin", "San Andres", "San Antonio", "San Isidro", "San Jose", "San Juan", "San Nicolas",
+    "San Pedro", "Santo Tomas", "Tablac", "Talogtog", "Tamurong Primero", "Tamurong Segundo", "Villarica",
+  ],
+  Caoayan: [
+    "Anonang Mayor", "Anonang Menor", "Baggoc", "Callaguip", "Caparacadan", "Don Alejandro Quirolgico",
+    "Don Dimas Querubin", "Don Lorenzo Querubin", "Fuerte", "Manangat", "Naguilian", "Nansuagao", "Pandan",
+    "Pantay Tamurong", "Pantay-Quitiquit", "Puro", "Villamar",
+  ],
+  Cervantes: [
+    "Aluling", "Comillas North", "Comillas South", "Concepcion", "Dinwede East", "Dinwede West", "Libang", "Malaya",
+    "Pilipil", "Remedios", "Rosario", "San Juan", "San Luis",
+  ],
+  Galimuyod: [
+    "Abaya", "Baracbac", "Bidbiday", "Bitong", "Borobor", "Calimugtong", "Calongbuyan", "Calumbaya", "Daldagan",
+    "Kilang", "Legaspi", "Mabayag", "Matanubong", "Mckinley", "Nagsingcaoan", "Oaig-Daya", "Pagangpang", "Patac",
+    "Poblacion", "Rubio", "Sabangan-Bato", "Sacaang", "San Vicente", "Sapang",
+  ],
+  "Gregorio del Pilar": [
+    "Alfonso", "Bussot", "Concepcion", "Dapdappig", "Matue-Butarag", "Poblacion Norte", "Poblacion Sur",
+  ],
+  Lidlidda: [
+    "Banucal", "Bequi-Walin", "Bugui", "Calungbuyan", "Carcarabasa", "Labut", "Poblacion Norte", "Poblacion Sur",
+    "San Vicente", "Suysuyan", "Tay-ac",
+  ],
+  Magsingal: [
+    "Alangan", "Bacar", "Barbarit", "Bungro", "Cabaroan", "Cadanglaan", "Caraisan", "Dacutan", "Labut", "Maas-asin",
+    "Macatcatud", "Manzante", "Maratudo", "Miramar", "Namalpalan", "Napo", "Pagsanaan Norte", "Pagsanaan Sur",
+    "Panay Norte", "Panay Sur", "Patong", "Puro", "San Basilio", "San Clemente", "San Julian", "San Lucas", "San Ramon",
+    "San Vicente", "Santa Monica", "Sarsaracat",
+  ],
+  Nagbukel: [
+    "Balaweg", "Bandril", "Bantugo", "Cadacad", "Casilagan", "Cosocos", "Lapting", "Mapisi", "Mission",
+    "Poblacion East", "Poblacion West", "Taleb",
+  ],
+  Narvacan: [
+    "Abuor", "Ambulogan", "Aquib", "Banglayan", "Bantay Abot", "Bulanos", "Cadacad", "Cagayungan", "Camarao",
+    "Casilagan", "Codoog", "Dasay", "Dinalaoan", "Estancia", "Lanipao", "Lungog", "Margaay", "Marozo", "Naguneg",
+    "Orence", "Pantoc", "Paratong", "Parparia", "Quinarayan", "Rivadavia", "San Antonio", "San Jose", "San Pablo",
+    "San Pedro", "Santa Lucia", "Sarmingan", "Sucoc", "Sulvec", "Turod",
+  ],
+  Quirino: [
+    "Banoen", "Cayus", "Lamag", "Legleg", "Malideg", "Namitpit", "Patiacan", "Patungcaleo", "Suagayan",
+  ],
+  Salcedo: [
+    "Atabay", "Balidbid", "Baluarte", "Baybayading", "Boguibog", "Bulala-Leguey", "Calangcuasan", "Culiong",
+    "Dinaratan", "Kaliwakiw", "Kinmarin", "Lucbuban", "Madarang", "Maligcong", "Pias", "Poblacion Norte",
+    "Poblacion Sur", "San Gaspar", "San Tiburcio", "Sorioan", "Ubbog",
+  ],
+  "San Emilio": [
+    "Cabaroan", "Kalumsing", "Lancuas", "Matibuey", "Paltoc", "San Miliano", "Sibsibbu", "Tiagan",
+  ],
+  "San Esteban": [
+    "Ansad", "Apatot", "Bateria", "Cabaroan", "Cappa-cappa", "Poblacion", "San Nicolas", "San Pablo", "San Rafael",
+    "Villa Quirino",
+  ],
+  "San Ildefonso": [
+    "Arnap", "Bahet", "Belen", "Bungro", "Busiing Norte", "Busiing Sur", "Dongalo", "Gongogong", "Iboy",
+    "Kinamantirisan", "Otol-Patac", "Poblacion East", "Poblacion West", "Sagneb", "Sagsagat",
+  ],
+  "San Juan": [
+    "Asilang", "Bacsil", "Baliw", "Bannuar", "Barbar", "Cabanglotan", "Cacandongan", "Camanggaan", "Camindoroan",
+    "Caronoan", "Darao", "Dardarat", "Guimod Norte", "Guimod Sur", "Immayos Norte", "Immayos Sur", "Labnig", "Lapting",
+    "Lira", "Malamin", "Muraya", "Nagsabaran", "Nagsupotan", "Pandayan", "Refaro", "Resurreccion", "Sabangan",
+    "San Isidro", "Saoang", "Solotsolot", "Sunggiam", "Surngit",
+  ],
+  "San Vicente": [
+    "Bantaoay", "Bayubay Norte", "Bayubay Sur", "Lubong", "Poblacion", "Pudoc", "San Sebastian",
+  ],
+  Santa: [
+    "Ampandula", "Banaoang", "Basug", "Bucalag", "Cabangaran", "Calungboyan", "Casiber", "Dammay", "Labut Norte",
+    "Labut Sur", "Mabilbila Norte", "Mabilbila Sur", "Magsaysay District", "Manueva", "Marcos", "Nagpanaoan",
+    "Namalangan", "Oribi", "Pasungol", "Quezon", "Quirino", "Rancho", "Rizal", "Sacuyya Norte", "Sacuyya Sur",
+    "Tabucolan",
+  ],
+  "Santa Catalina": [
+    "Cabaroan", "Cabittaogan", "Cabuloan", "Pangada", "Paratong", "Poblacion", "Sinabaan", "Subec", "Tamorong",
+  ],
+  "Santa Cruz": [
+    "Amarao", "Babayoan", "Bacsayan", "Banay", "Bayugao Este", "Bayugao Oeste", "Besalan", "Bugbuga", "Calaoaan",
+    "Camanggaan", "Candalican", "Capariaan", "Casilagan", "Coscosnong", "Daligan", "Dili", "Gabor Norte", "Gabor Sur",
+    "Lalong", "Lantag", "Las-ud", "Mambog", "Mantanas", "Nagtengnga", "Padaoil", "Paratong", "Pattiqui", "Pidpid",
+    "Pilar", "Pinipin", "Poblacion Este", "Poblacion Norte", "Poblacion Sur", "Poblacion Weste", "Quinfermin",
+    "Quinsoriano", "Sagat", "San Antonio", "San Jose", "San Pedro", "Saoat", "Sevilla", "Sidaoen", "Suyo", "Tampugo",
+    "Turod", "Villa Garcia", "Villa Hermosa", "Villa Laurencia",
+  ],
+  "Santa Lucia": [
+    "Alincaoeg", "Angkileng", "Arangin", "Ayusan", "Banbanaba", "Bani", "Bao-as", "Barangobong", "Buliclic", "Burgos",
+    "Cabaritan", "Catayagan", "Conconig East", "Conconig West", "Damacuag", "Luba", "Lubong", "Nagrebcan", "Nagtablaan",
+    "Namatican", "Nangalisan", "Palali Norte", "Palali Sur", "Paoc Norte", "Paoc Sur", "Paratong", "Pila East",
+    "Pila West", "Quinabalayangan", "Ronda", "Sabuanan", "San Juan", "San Pedro", "Sapang", "Suagayan", "Vical",
+  ],
+  "Santa Maria": [
+    "Ag-agrao", "Ampuagan", "Baballasioan", "Baliw Daya", "Baliw Laud", "Bia-o", "Butir", "Cabaroan", "Danuman East",
+    "Danuman West", "Dunglayan", "Gusing", "Langaoan", "Laslasong Norte", "Laslasong Sur", "Laslasong West", "Lesseb",
+    "Lingsat", "Lubong", "Maynganay Norte", "Maynganay Sur", "Nagsayaoan", "Nagtupacan", "Nalvo", "Pacang", "Penned",
+    "Poblacion Norte", "Poblacion Sur", "Silag", "Sumagui", "Suso", "Tangaoan", "Tinaan",
+  ],
+  Santiago: [
+    "Al-aludig", "Ambucao", "Baybayabas", "Bigbiga", "Bulbulala", "Busel-busel", "Butol", "Caburao", "Dan-ar", "Gabao",
+    "Guinabang", "Imus", "Lang-ayan", "Mambug", "Nalasin", "Olo-olo Norte", "Olo-olo Sur", "Poblacion Norte",
+    "Poblacion Sur", "Sabangan", "Salincub", "San Jose", "San Roque", "Ubbog",
+  ],
+  "Santo Domingo": [
+    "Binalayangan", "Binongan", "Borobor", "Cabaritan", "Cabigbigaan", "Calautit", "Calay-ab", "Camestizoan", "Casili",
+    "Flora", "Lagatit", "Laoingen", "Lussoc", "Nagbettedan", "Naglaoa-an", "Nalasin", "Nambaran", "Nanerman", "Napo",
+    "Padu Chico", "Padu Grande", "Paguraper", "Panay", "Pangpangdan", "Parada", "Paras", "Poblacion", "Puerta Real",
+    "Pussuac", "Quimmarayan", "San Pablo", "Santa Cruz", "Santo Tomas", "Sived", "Suksukit", "Vacunero",
+  ],
+  Sigay: [
+    "Abaccan", "Mabileg", "Matallucod", "Poblacion", "San Elias", "San Ramon", "Santo Rosario",
+  ],
+  Sinait: [
+    "Aguing", "Baliw", "Ballaigui", "Baracbac", "Barikir", "Battog", "Binacud", "Cabangtalan", "Cabarambanan",
+    "Cabulalaan", "Cadanglaan", "Calanutian", "Calingayan", "Curtin", "Dadalaquiten Norte", "Dadalaquiten Sur",
+    "Dean Leopoldo Yabes", "Duyayyat", "Jordan", "Katipunan", "Macabiag", "Magsaysay", "Marnay", "Masadag",
+    "Nagbalioartian", "Nagcullooban", "Nagongburan", "Namnama", "Pacis", "Paratong", "Purag", "Quibit-quibit",
+    "Quimmallogong", "Rang-ay", "Ricudo", "Sabañgan", "Sallacapo", "Santa Cruz", "Sapriana", "Tapao", "Teppeng",
+    "Tubigay", "Ubbog", "Zapat",
+  ],
+  Sugpon: [
+    "Balbalayang", "Banga", "Caoayan", "Danac", "Licungan", "Pangotan",
+  ],
+  Suyo: [
+    "Baringcucurong", "Cabugao", "Man-atong", "Patoc-ao", "Poblacion", "Suyo Proper", "Urzadan", "Uso",
+  ],
+  Tagudin: [
+    "Ag-aguman", "Ambalayat", "Baracbac", "Bario-an", "Baritao", "Becques", "Bimmanga", "Bio", "Bitalag", "Borono",
+    "Bucao East", "Bucao West", "Cabaroan", "Cabugbugan", "Cabulanglangan", "Dacutan", "Dardarat", "Del Pilar",
+    "Farola", "Gabur", "Garitan", "Jardin", "Lacong", "Lantag", "Las-ud", "Libtong", "Lubnac", "Magsaysay",
+    "Malacañang", "Pacac", "Pallogan", "Pudoc East", "Pudoc West", "Pula", "Quirino", "Ranget", "Rizal", "Salvacion",
+    "San Miguel", "Sawat", "Tallaoen", "Tampugo", "Tarangotong",
+  ],
+  Vigan: [
+    "Ayusan Norte", "Ayusan Sur", "Barangay I", "Barangay II", "Barangay III", "Barangay IV", "Barangay IX",
+    "Barangay V", "Barangay VI", "Barangay VII", "Barangay VIII", "Barraca", "Beddeng Daya", "Beddeng Laud",
+    "Bongtolan", "Bulala", "Cabalangegan", "Cabaroan Daya", "Cabaroan Laud", "Camangaan", "Capangpangan", "Mindoro",
+    "Nagsangalan", "Pantay Daya", "Pantay Fatima", "Pantay Laud", "Paoa", "Paratong", "Pong-ol", "Purok-a-bassit",
+    "Purok-a-dackel", "Raois", "Rugsuanan", "Salindeg", "San Jose", "San Julian Norte", "San Julian Sur", "San Pedro",
+    "Tamag",
+  ],
+}
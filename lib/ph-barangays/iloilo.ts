@@ -0,0 +1,311 @@
+// Barangays of each town in Iloilo, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Ajuy: [
+    "Adcadarao", "Agbobolo", "Badiangan", "Barrido", "Bato Biasong", "Bay-ang", "Bucana Bunglas", "Central", "Culasi",
+    "Lanjagan", "Luca", "Malayu-an", "Mangorocoro", "Nasidman", "Pantalan Nabaye", "Pantalan Navarro", "Pedada", "Pili",
+    "Pinantan Diel", "Pinantan Elizalde", "Pinay Espinosa", "Poblacion", "Progreso", "Puente Bunglas", "Punta Buri",
+    "Rojas", "San Antonio", "Santo Rosario", "Silagon", "Tagubanhan", "Taguhangin", "Tanduyan", "Tipacla", "Tubogan",
+  ],
+  Alimodian: [
+    "Abang-abang", "Agsing", "Atabay", "Ba-ong", "Bagsakan", "Baguingin-Lanot", "Bagumbayan-Ilajas", "Balabago",
+    "Ban-ag", "Bancal", "Binalud", "Bugang", "Buhay", "Bulod", "Cabacanan Proper", "Cabacanan Rizal", "Cagay", "Coline",
+    "Coline-Dalag", "Cunsad", "Cuyad", "Dalid", "Dao", "Gines", "Ginomoy", "Ingwan", "Laylayan", "Lico", "Luan-luan",
+    "Malamboy-Bondolan", "Malamhay", "Mambawi", "Manasa", "Manduyog", "Pajo", "Pianda-an Norte", "Pianda-an Sur",
+    "Poblacion", "Punong", "Quinaspan", "Sinamay", "Sulong", "Taban-Manguining", "Tabug", "Tarug", "Tugaslon", "Ubodan",
+    "Ugbo", "Ulay-Bugang", "Ulay-Hinablan", "Umingan",
+  ],
+  Anilao: [
+    "Agbatuan", "Badiang", "Balabag", "Balunos", "Cag-an", "Camiros", "Dangula-an", "Guipis", "Manganese", "Medina",
+    "Mostro", "Palaypay", "Pantalan", "Poblacion", "Sambag Culob", "San Carlos", "San Juan Crisostomo", "Santa Rita",
+    "Santo Rosario", "Serallo", "Vista Alegre",
+  ],
+  Badiangan: [
+    "Agusipan", "Astorga", "Bingauan", "Bita-oyan", "Botong", "Budiaue", "Cabanga-an", "Cabayogan", "Calansanan",
+    "Catubig", "Guinawahan", "Ilongbukid", "Indorohan", "Iniligan", "Latawan", "Linayuan", "Mainguit", "Malublub",
+    "Manaolan", "Mapili Grande", "Mapili Sanjo", "Odiongan", "Poblacion", "San Julian", "Sariri", "Sianon", "Sinuagan",
+    "Talaba", "Tamocol", "Teneclan", "Tina",
+  ],
+  Balasan: [
+    "Aranjuez", "Bacolod", "Balanti-an", "Batuan", "Cabalic", "Camambugan", "Dolores", "Gimamanay", "Ipil",
+    "Kinalkalan", "Lawis", "Malapoc", "Mamhut Norte", "Mamhut Sur", "Maya", "Pani-an", "Poblacion Norte",
+    "Poblacion Sur", "Quiasan", "Salong", "Salvacion", "Tingui-an", "Zaragosa",
+  ],
+  Banate: [
+    "Alacaygan", "Bariga", "Belen", "Bobon", "Bularan", "Carmelo", "De La Paz", "Dugwakan", "Fuentes*", "Juanico",
+    "Libertad", "Magdalo", "Managopaya", "Merced", "Poblacion", "San Salvador", "Talokgangan", "Zona Sur",
+  ],
+  "Barotac Nuevo": [
+    "Acuit", "Agcuyawan Calsada", "Agcuyawan Pulo", "Bagongbong", "Baras", "Bungca", "Cabilauan", "Cruz", "Guintas",
+    "Igbong", "Ilaud Poblacion", "Ilaya Poblacion", "Jalaud", "Lagubang", "Lanas", "Lico-an", "Linao", "Monpon",
+    "Palaciawan", "Patag", "Salihid", "So-ol", "Sohoton", "Tabuc-Suba", "Tabucan", "Talisay", "Tinorian", "Tiwi",
+    "Tubungan",
+  ],
+  "Barotac Viejo": [
+    "Bugnay", "California", "De la Peña", "Del Pilar", "General Luna", "La Fortuna", "Lipata", "Natividad",
+    "Nueva Invencion", "Nueva Sevilla", "Poblacion", "Puerto Princesa", "Rizal", "San Antonio", "San Fernando",
+    "San Francisco", "San Geronimo", "San Juan", "San Lucas", "San Miguel", "San Roque", "Santiago", "Santo Domingo",
+    "Santo Tomas", "Ugasan", "Vista Alegre",
+  ],
+  Batad: [
+    "Alapasco", "Alinsolong", "Banban", "Batad Viejo", "Binon-an", "Bolhog", "Bulak Norte", "Bulak Sur", "Cabagohan",
+    "Calangag", "Caw-i", "Drancalan", "Embarcadero", "Hamod", "Malico", "Nangka", "Pasayan", "Poblacion",
+    "Quiazan Florete", "Quiazan Lopez", "Salong", "Santa Ana", "Tanao", "Tapi-an",
+  ],
+  Bingawan: [
+    "Agba-o", "Alabidhan", "Bulabog", "Cairohan", "Guinhulacan", "Inamyungan", "Malitbog Ilawod", "Malitbog Ilaya",
+    "Ngingi-an", "Poblacion", "Quinangyana", "Quinar-Upan", "Tapacon", "Tubod",
+  ],
+  Cabatuan: [
+    "Acao", "Amerang", "Amurao", "Anuang", "Ayaman", "Ayong", "Bacan", "Balabag", "Baluyan", "Banguit", "Bulay",
+    "Cadoldolan", "Cagban", "Calawagan", "Calayo", "Duyanduyan", "Gaub", "Gines Interior", "Gines Patag",
+    "Guibuangan Tigbauan", "Inabasan", "Inaca", "Inaladan", "Ingas", "Ito Norte", "Ito Sur", "Janipaan Central",
+    "Janipaan Este", "Janipaan Oeste", "Janipaan Olo", "Jelicuon Lusaya", "Jelicuon Montinola", "Lag-an", "Leong",
+    "Lutac", "Manguna", "Maraguit", "Morubuan", "Pacatin", "Pagotpot", "Pamul-Ogan", "Pamuringao Garrido",
+    "Pamuringao Proper", "Pungtod", "Puyas", "Salacay", "Sulanga", "Tabucan", "Tacdangan", "Talanghauan",
+    "Tigbauan Road", "Tinio-an", "Tiring", "Tupol Central", "Tupol Este", "Tupol Oeste", "Tuy-an", "Zone I Pob.",
+    "Zone II Pob.", "Zone III Pob.", "Zone IV Pob.", "Zone IX Pob.", "Zone V Pob.", "Zone VI Pob.", "Zone VII Pob.",
+    "Zone VIII Pob.", "Zone X Pob.", "Zone XI Pob.",
+  ],
+  Calinog: [
+    "Agcalaga", "Aglibacao", "Aglonok", "Alibunan", "Badlan Grande", "Badlan Pequeño", "Badu", "Baje San Julian",
+    "Balaticon", "Banban Grande", "Banban Pequeño", "Barrio Calinog", "Binolosan Grande", "Binolosan Pequeño",
+    "Cabagiao", "Cabugao", "Cahigon", "Camalongo", "Canabajan", "Caratagan", "Carvasana", "Dalid", "Datagan",
+    "Gama Grande", "Gama Pequeño", "Garangan", "Guinbonyugan", "Guiso", "Hilwan", "Impalidan", "Ipil", "Jamin-ay",
+    "Lampaya", "Libot", "Lonoy", "Malag-it", "Malaguinabot", "Malapawe", "Malitbog Centro", "Mambiranan", "Manaripay",
+    "Marandig", "Masaroy", "Maspasan", "Nalbugan", "Owak", "Poblacion Centro", "Poblacion Delgado", "Poblacion Ilaya",
+    "Poblacion Rizal Ilaud", "San Nicolas", "Simsiman", "Supanga", "Tabucan", "Tahing", "Tibiao", "Tigbayog",
+    "Toyungan", "Ulayan",
+  ],
+  Carles: [
+    "Abong", "Alipata", "Asluman", "Bancal", "Barangcalan", "Barosbos", "Binuluangan", "Bito-on", "Bolo", "Buaya",
+    "Buenavista", "Cabilao Grande", "Cabilao Pequeño", "Cabuguana", "Cawayan", "Dayhagan", "Gabi", "Granada",
+    "Guinticgan", "Isla De Cana", "Lantangan", "Manlot", "Nalumsan", "Pantalan", "Poblacion", "Punta", "Punta Batuanan",
+    "San Fernando", "Tabugon", "Talingting", "Tarong", "Tinigban", "Tupaz",
+  ],
+  Concepcion: [
+    "Aglosong", "Agnaga", "Bacjawan Norte", "Bacjawan Sur", "Bagongon", "Batiti", "Botlog", "Calamigan", "Dungon",
+    "Igbon", "Jamul-Awon", "Lo-ong", "Macalbang", "Macatunao", "Malangabang", "Maliogliog", "Nipa", "Niño", "Plandico",
+    "Poblacion", "Polopina", "Salvacion", "Talotu-an", "Tambaliza", "Tamis-ac",
+  ],
+  Dingle: [
+    "Abangay", "Agsalanan", "Agtatacay", "Alegria", "Bongloy", "Buenavista", "Caguyuman", "Calicuang", "Camambugan",
+    "Dawis", "Ginalinan Nuevo", "Ginalinan Viejo", "Gutao", "Ilajas", "Libo-o", "Licu-an", "Lincud", "Matangharon",
+    "Moroboro", "Namatay", "Nazuni", "Pandan", "Poblacion", "Potolan", "San Jose", "San Matias", "Siniba-an", "Tabugon",
+    "Tambunac", "Tanghawan", "Tiguib", "Tinocuan", "Tulatula-an",
+  ],
+  "Dueñas": [
+    "Agutayan", "Angare", "Anjawan", "Baac", "Bagongbong", "Balangigan", "Balingasag", "Banugan", "Batuan", "Bita",
+    "Buenavista", "Bugtongan", "Cabudian", "Calaca-an", "Calang", "Calawinan", "Capaycapay", "Capuling", "Catig",
+    "Dila-an", "Fundacion", "Inadlawan", "Jagdong", "Jaguimit", "Lacadon", "Luag", "Malusgod", "Maribuyong", "Minanga",
+    "Monpon", "Navalas", "Pader", "Pandan", "Poblacion A", "Poblacion B", "Poblacion C", "Poblacion D", "Ponong Grande",
+    "Ponong Pequeño", "Purog", "Romblon", "San Isidro", "Santo Niño", "Sawe", "Taminla", "Tinocuan", "Tipolo",
+  ],
+  Dumangas: [
+    "Aurora-del Pilar", "Bacay", "Bacong", "Balabag", "Balud", "Bantud", "Bantud Fabrica", "Baras", "Barasan",
+    "Basa-Mabini Bonifacio", "Bolilao", "Buenaflor Embarkadero", "Burgos-Regidor", "Calao", "Cali", "Cansilayan",
+    "Capaliz", "Cayos", "Compayan", "Dacutan", "Ermita", "Ilaya 1st", "Ilaya 2nd", "Ilaya 3rd", "Jardin", "Lacturan",
+    "Lopez Jaena - Rizal", "Managuit", "Maquina", "Nanding Lopez", "Pagdugue", "Paloc Bigque", "Paloc Sool", "Patlad",
+    "Pd Monfort North", "Pd Monfort South", "Pulao", "Rosario", "Sapao", "Sulangan", "Tabucan", "Talusan", "Tambobo",
+    "Tamboilan", "Victorias",
+  ],
+  Estancia: [
+    "Bayas", "Bayuyan", "Botongon", "Bulaqueña", "Calapdan", "Cano-an", "Daan Banua", "Daculan", "Gogo", "Jolog",
+    "Loguingot", "Lonoy", "Lumbia", "Malbog", "Manipulon", "Pa-on", "Poblacion Zone 1", "Poblacion Zone II",
+    "Poblacion Zone III", "San Roque", "Santa Ana", "Tabu-an", "Tacbuyan", "Tanza", "Villa Pani-an",
+  ],
+  Guimbal: [
+    "Anono-o", "Bacong", "Bagumbayan Pob.", "Balantad-Carlos Fruto", "Baras", "Binanua-an", "Bongol San Miguel",
+    "Bongol San Vicente", "Bulad", "Buluangan", "Burgos-Gengos", "Cabasi", "Cabubugan", "Calampitao", "Camangahan",
+    "Generosa-Cristobal Colon", "Gerona-Gimeno", "Girado-Magsaysay", "Gotera", "Igcocolo", "Iyasan", "Libo-on Gonzales",
+    "Lubacan", "Nahapay", "Nalundan", "Nanga", "Nito-an Lupsag", "Particion", "Pescadores", "Rizal-Tuguisan",
+    "Santa Rosa-Laguna", "Sipitan-Badiang", "Torreblanca-Blumentritt",
+  ],
+  Igbaras: [
+    "Alameda", "Amorogtong", "Anilawan", "Bagacay", "Bagacayan", "Bagay", "Balibagan", "Barangay 1 Poblacion",
+    "Barangay 2 Poblacion", "Barangay 3 Poblacion", "Barangay 4 Poblacion", "Barangay 5 Poblacion",
+    "Barangay 6 Poblacion", "Barasan", "Binanua-an", "Boclod", "Buenavista", "Buga", "Bugnay", "Calampitao", "Cale",
+    "Catiringan", "Corucuan", "Igcabugao", "Igpigus", "Igtalongon", "Indaluyon", "Jovellar", "Kinagdan", "Lab-on",
+    "Lacay Dol-Dol", "Lumangan", "Lutungan", "Mantangon", "Mulangan", "Pasong", "Passi", "Pinaopawan", "Riro-an",
+    "San Ambrosio", "Santa Barbara", "Signe", "Tabiac", "Talayatay", "Taytay", "Tigbanaba",
+  ],
+  Janiuay: [
+    "Abangay", "Agcarope", "Aglobong", "Aguingay", "Anhawan", "Aquino Nobleza East", "Aquino Nobleza West", "Atimonan",
+    "Balanac", "Barasalon", "Bongol", "Cabantog", "Calmay", "Canawili", "Canawillian", "Capt. A. Tirador", "Caranas",
+    "Caraudan", "Carigangan", "Concepcion Pob.", "Crispin Salazar North", "Crispin Salazar South", "Cunsad", "Dabong",
+    "Damires", "Damo-ong", "Danao", "Don T. Lutero Center", "Don T. Lutero East", "Don T. Lutero West Pob.", "Gines",
+    "Golgota", "Guadalupe", "Jibolo", "Kuyot", "Locsin", "Madong", "Manacabac", "Mangil", "Matag-ub", "Monte-Magapa",
+    "Pangilihan", "Panuran", "Pararinga", "Patong-patong", "Quipot", "R. Armada", "S. M. Villa", "San Julian",
+    "San Pedro", "Santa Rita", "Santo Tomas", "Sarawag", "Tambal", "Tamu-an", "Tiringanan", "Tolarucan", "Tuburan",
+    "Ubian", "Yabon",
+  ],
+  Lambunao: [
+    "Agsirab", "Agtuman", "Alugmawa", "Badiangan", "Bagongbong", "Balagiao", "Banban", "Bansag", "Bayuco",
+    "Binaba-an Armada", "Binaba-an Labayno", "Binaba-an Limoso", "Binaba-an Portigo", "Binaba-an Tirador", "Bonbon",
+    "Bontoc", "Buri", "Burirao", "Buwang", "Cabatangan", "Cabugao", "Cabunlawan", "Caguisanan", "Caloy-Ahan",
+    "Caninguan", "Capangyan", "Cayan Este", "Cayan Oeste", "Corot-on", "Coto", "Cubay", "Cunarum", "Daanbanwa", "Gines",
+    "Hipgos", "Jayubo", "Jorog", "Lanot Grande", "Lanot Pequeño", "Legayada", "Lumanay", "Madarag", "Magbato",
+    "Maite Grande", "Maite Pequeño", "Malag-it", "Manaulan", "Maribong", "Marong", "Misi", "Natividad", "Pajo",
+    "Pandan", "Panuran", "Pasig", "Patag", "Poblacion Ilawod", "Poblacion Ilaya", "Poong", "Pughanan", "Pungsod",
+    "Quiling", "Sagcup", "San Gregorio", "Sibacungan", "Sibaguan", "Simsiman", "Supoc", "Tampucao", "Tranghawan",
+    "Tubungan", "Tuburan", "Walang",
+  ],
+  Leganes: [
+    "Bigke", "Buntatala", "Cagamutan Norte", "Cagamutan Sur", "Calaboa", "Camangay", "Cari Mayor", "Cari Minor",
+    "Gua-an", "Guihaman", "Guinobatan", "Guintas", "Lapayon", "M.V. Hechanova", "Nabitasan", "Napnud", "Poblacion",
+    "San Vicente",
+  ],
+  Lemery: [
+    "Agpipili", "Alcantara", "Almeñana", "Anabo", "Bankal", "Buenavista", "Cabantohan", "Capiñahan", "Dalipe",
+    "Dapdapan", "Gerongan", "Imbaulan", "Layogbato", "Marapal", "Milan", "Nagsulang", "Nasapahan", "Omio", "Pacuan",
+    "Poblacion NW Zone", "Poblacion SE Zone", "Pontoc", "San Antonio", "San Diego", "San Jose Moto", "Sepanton",
+    "Sincua", "Tabunan", "Tugas", "Velasco", "Yawyawan",
+  ],
+  Leon: [
+    "Agboy Norte", "Agboy Sur", "Agta", "Ambulong", "Anonang", "Apian", "Avanzada", "Awis", "Ayabang", "Ayubo",
+    "Bacolod", "Baje", "Banagan", "Barangbang", "Barasan", "Bayag Norte", "Bayag Sur", "Binolbog", "Biri Norte",
+    "Biri Sur", "Bobon", "Bucari", "Buenavista", "Buga", "Bulad", "Bulwang", "Cabolo-an", "Cabunga-an", "Cabutongan",
+    "Cagay", "Camandag", "Camando", "Cananaman", "Capt. Fernando", "Carara-an", "Carolina", "Cawilihan",
+    "Coyugan Norte", "Coyugan Sur", "Danao", "Dorog", "Dusacan", "Gines", "Gumboc", "Igcadios", "Ingay", "Isian Norte",
+    "Isian Victoria", "Jamog Gines", "Lampaya", "Lanag", "Lang-og", "Ligtos", "Lonoc", "Magcapay", "Maliao", "Malublub",
+    "Manampunay", "Marirong", "Mina", "Mocol", "Nagbangi", "Nalbang", "Odong-odong", "Oluangan", "Omambong", "Paga",
+    "Pandan", "Panginman", "Paoy", "Pepe", "Poblacion", "Salngan", "Samlague", "Siol Norte", "Siol Sur",
+    "Tacuyong Norte", "Tacuyong Sur", "Tagsing", "Talacuan", "Ticuan", "Tina-an Norte", "Tina-an Sur", "Tu-og",
+    "Tunguan",
+  ],
+  Maasin: [
+    "Abay", "Abilay", "AGROCEL Pob.", "Amerang", "Bagacay East", "Bagacay West", "Bolo", "Bug-ot", "Bulay", "Buntalan",
+    "Burak", "Cabangcalan", "Cabatac", "Caigon", "Cananghan", "Canawili", "Dagami", "Daja", "Dalusan", "DELCAR Pob.",
+    "Inabasan", "Layog", "Linab", "Liñagan Calsada", "Liñagan Tacas", "Magsaysay", "Mandog", "MARI Pob.", "Miapa",
+    "Nagba", "Nasaka", "Naslo-Bucao", "Nasuli", "Panalian", "Piandaan East", "Piandaan West", "Pispis", "Punong",
+    "Santa Rita", "Sinubsuban", "Siwalo", "Subog", "THTP Pob.", "Tigbauan", "Trangka", "Tubang", "Tulahong",
+    "Tuy-an East", "Tuy-an West", "Ubian",
+  ],
+  Miagao: [
+    "Agdum", "Aguiauan", "Alimodias", "Awang", "Bacauan", "Bacolod", "Bagumbayan", "Banbanan", "Banga", "Bangladan",
+    "Banuyao", "Baraclayan", "Bariri", "Baybay Norte", "Baybay Sur", "Belen", "Bolho", "Bolocaue", "Buenavista Norte",
+    "Buenavista Sur", "Bugtong Lumangan", "Bugtong Naulid", "Cabalaunan", "Cabangcalan", "Cabunotan", "Cadoldolan",
+    "Cagbang", "Caitib", "Calagtangan", "Calampitao", "Cavite", "Cawayanan", "Cubay", "Cubay Ubos", "Dalije",
+    "Damilisan", "Dawog", "Diday", "Dingle", "Durog", "Frantilla", "Fundacion", "Gines", "Guibongan", "Igbita",
+    "Igbugo", "Igcabidio", "Igcabito-on", "Igcatambor", "Igdalaquit", "Igdulaca", "Igpajo", "Igpandan", "Igpuro",
+    "Igpuro-Bariri", "Igsoligue", "Igtuba", "Ilog-ilog", "Indag-an", "Kirayan Norte", "Kirayan Sur", "Kirayan Tacas",
+    "La Consolacion", "Lacadon", "Lanutan", "Lumangan", "Mabayan", "Maduyo", "Malagyan", "Mambatad", "Maninila",
+    "Maricolcol", "Maringyan", "Mat-y", "Matalngon", "Naclub", "Nam-o Norte", "Nam-o Sur", "Narat-an", "Narorogan",
+    "Naulid", "Olango", "Ongyod", "Onop", "Oya-oy", "Oyungan", "Palaca", "Paro-on", "Potrido", "Pudpud",
+    "Pungtod Monteclaro", "Pungtod Naulid", "Sag-on", "San Fernando", "San Jose", "San Rafael", "Sapa", "Saring",
+    "Sibucao", "Taal", "Tabunacan", "Tacas", "Tambong", "Tan-agan", "Tatoy", "Ticdalan", "Tig-amaga", "Tig-Apog-Apog",
+    "Tigbagacay", "Tiglawa", "Tigmalapad", "Tigmarabo", "To-og", "Tugura-ao", "Tumagboc", "Ubos Ilawod", "Ubos Ilaya",
+    "Valencia", "Wayang",
+  ],
+  Mina: [
+    "Abat", "Agmanaphao", "Amiroy", "Badiangan", "Bangac", "Cabalabaguan", "Capul-an", "Dala", "Guibuangan",
+    "Janipa-an East", "Janipa-an West", "Mina East", "Mina West", "Nasirum", "Naumuan", "Singay", "Talibong Grande",
+    "Talibong Pequeño", "Tipolo", "Tolarucan", "Tumay", "Yugot",
+  ],
+  "New Lucena": [
+    "Baclayan", "Badiang", "Balabag", "Bilidan", "Bita-og Gaja", "Bololacao", "Burot", "Cabilauan", "Cabugao", "Cagban",
+    "Calumbuyan", "Damires", "Dawis", "General Delgado", "Guinobatan", "Janipa-an Oeste", "Jelicuon Este",
+    "Jelicuon Oeste", "Pasil", "Poblacion", "Wari-wari",
+  ],
+  Oton: [
+    "Abilay Norte", "Abilay Sur", "Alegre", "Batuan Ilaud", "Batuan Ilaya", "Bita Norte", "Bita Sur", "Botong", "Buray",
+    "Cabanbanan", "Caboloan Norte", "Caboloan Sur", "Cadinglian", "Cagbang", "Calam-isan", "Galang", "Lambuyao",
+    "Mambog", "Pakiad", "Poblacion East", "Poblacion North", "Poblacion South", "Poblacion West", "Polo Maestra Bita",
+    "Rizal", "Salngan", "Sambaludan", "San Antonio", "San Nicolas", "Santa Clara", "Santa Monica", "Santa Rita",
+    "Tagbac Norte", "Tagbac Sur", "Trapiche", "Tuburan", "Turog-Turog",
+  ],
+  Passi: [
+    "Agdahon", "Agdayao", "Aglalana", "Agtabo", "Agtambo", "Alimono", "Arac", "Ayuyan", "Bacuranan", "Bagacay", "Batu",
+    "Bayan", "Bitaogan", "Buenavista", "Buyo", "Cabunga", "Cadilang", "Cairohan", "Dalicanan", "Gegachac", "Gemat-y",
+    "Gemumua-agahon", "Gines Viejo", "Imbang Grande", "Jaguimitan", "Libo-o", "Maasin", "Magdungao", "Malag-it Grande",
+    "Malag-it Pequeño", "Mambiranan Grande", "Mambiranan Pequeño", "Man-it", "Mantulang", "Mulapula", "Nueva Union",
+    "Pagaypay", "Pangi", "Poblacion Ilawod", "Poblacion Ilaya", "Punong", "Quinagaringan Grande",
+    "Quinagaringan Pequeño", "Sablogon", "Salngan", "Santo Tomas", "Sarapan", "Tagubong", "Talongonan", "Tubod",
+    "Tuburan",
+  ],
+  Pavia: [
+    "Aganan", "Amparo", "Anilao", "Balabag", "Cabugao Norte", "Cabugao Sur", "Jibao-an", "Mali-ao", "Pagsanga-an",
+    "Pal-agon", "Pandac", "Purok I", "Purok II", "Purok III", "Purok IV", "Tigum", "Ungka I", "Ungka II",
+  ],
+  Pototan: [
+    "Abangay", "Amamaros", "Bagacay", "Barasan", "Batuan", "Bongco", "Cahaguichican", "Callan", "Cansilayan",
+    "Casalsagan", "Cato-ogan", "Cau-ayan", "Culob", "Danao", "Dapitan", "Dawis", "Dongsol", "Fernando Parcon Ward",
+    "Fundacion", "Guibuangan", "Guinacas", "Igang", "Intaluan", "Iwa Ilaud", "Iwa Ilaya", "Jamabalud", "Jebioc",
+    "Lay-Ahan", "Lopez Jaena Ward", "Lumbo", "Macatol", "Malusgod", "Nabitasan", "Naga", "Nanga", "Naslo", "Pajo",
+    "Palanguia", "Pitogo", "Polot-an", "Primitivo Ledesma Ward", "Purog", "Rumbang", "San Jose Ward", "Sinuagan",
+    "Tuburan", "Tumcon Ilaud", "Tumcon Ilaya", "Ubang", "Zarrague",
+  ],
+  "San Dionisio": [
+    "Agdaliran", "Amayong", "Bagacay", "Batuan", "Bondulan", "Boroñgon", "Canas", "Capinang", "Cubay", "Cudionan",
+    "Dugman", "Hacienda Conchita", "Madanlog", "Mandu-awak", "Moto", "Naborot", "Nipa", "Odiongan", "Pangi", "Pase",
+    "Poblacion", "San Nicolas", "Santol", "Siempreviva", "Sua", "Talo-ato", "Tamangi", "Tiabas", "Tuble",
+  ],
+  "San Enrique": [
+    "Abaca", "Asisig", "Bantayan", "Braulan", "Cabugao Nuevo", "Cabugao Viejo", "Camiri", "Catan-Agan", "Compo",
+    "Cubay", "Dacal", "Dumiles", "Garita", "Gines Nuevo", "Imbang Pequeño", "Imbesad-an", "Iprog", "Lip-ac", "Madarag",
+    "Mapili", "Paga", "Palje", "Poblacion Ilawod", "Poblacion Ilaya", "Quinolpan", "Rumagayray", "San Antonio",
+    "Tambunac",
+  ],
+  "San Joaquin": [
+    "Amboyu-an", "Andres Bonifacio", "Antalon", "Bad-as", "Bagumbayan", "Balabago", "Baybay", "Bayunan", "Bolbogan",
+    "Bonga", "Bucaya", "Bulho", "Cadluman", "Cadoldolan", "Camaba-an", "Camia", "Cata-an", "Crossing Dapuyan", "Cubay",
+    "Cumarascas", "Dacdacanan", "Danawan", "Doldol", "Dongoc", "Escalantera", "Ginot-an", "Guibongan Bayunan", "Huna",
+    "Igbaje", "Igbangcal", "Igbinangon", "Igburi", "Igcabutong", "Igcadlum", "Igcaphang", "Igcaratong", "Igcondao",
+    "Igcores", "Igdagmay", "Igdomingding", "Iglilico", "Igpayong", "Jawod", "Langca", "Languanan", "Lawigan", "Lomboy",
+    "Lomboyan", "Lopez Vito", "Mabini Norte", "Mabini Sur", "Manhara", "Maninila", "Masagud", "Matambog", "Mayunoc",
+    "Montinola", "Nadsadan", "Nagquirisan", "Nagsipit", "New Gumawan", "Panatan", "Pitogo", "Purok 1", "Purok 2",
+    "Purok 3", "Purok 4", "Purok 5", "Qui-anan", "Roma", "San Luis", "San Mateo Norte", "San Mateo Sur", "Santa Rita",
+    "Santiago", "Sinogbuhan", "Siwaragan", "Talagutac", "Tapikan", "Taslan", "Tiglawa", "Tiolas", "To-og", "Torocadan",
+    "Ulay",
+  ],
+  "San Miguel": [
+    "Bgy. 1 Pob.", "Bgy. 2 Pob.", "Bgy. 3 Pob.", "Bgy. 4 Pob.", "Bgy. 5 Pob.", "Bgy. 6 Pob.", "Bgy. 7 Pob.",
+    "Bgy. 8 Pob.", "Bgy. 9 Pob.", "Bgy. 10", "Bgy. 11 Pob.", "Bgy. 12 Pob.", "Bgy. 13 Pob.", "Bgy. 14 Pob.",
+    "Bgy. 15 Pob.", "Bgy. 16 Pob.", "Consolacion", "Igtambo", "San Antonio", "San Jose", "Santa Cruz", "Santa Teresa",
+    "Santo Angel", "Santo Niño",
+  ],
+  "San Rafael": [
+    "Aripdip", "Bagacay", "Calaigang", "Ilongbukid", "Poblacion", "Poscolon", "San Andres", "San Dionisio",
+    "San Florentino",
+  ],
+  "Santa Barbara": [
+    "Agusipan", "Agutayan", "Bagumbayan", "Balabag", "Balibagan Este", "Balibagan Oeste", "Ban-ag", "Bantay",
+    "Barangay Zone I", "Barangay Zone II", "Barangay Zone III", "Barangay Zone IV", "Barangay Zone V",
+    "Barangay Zone VI", "Barasan Este", "Barasan Oeste", "Binangkilan", "Bitaog-Taytay", "Bolong Este", "Bolong Oeste",
+    "Buayahon", "Buyo", "Cabugao Norte", "Cabugao Sur", "Cadagmayan Norte", "Cadagmayan Sur", "Cafe", "Calaboa Este",
+    "Calaboa Oeste", "Camambugan", "Canipayan", "Conaynay", "Daga", "Dalid", "Duyanduyan", "Gen. Martin T. Delgado",
+    "Guno", "Inangayan", "Jibao-an", "Lacadon", "Lanag", "Lupa", "Magancina", "Malawog", "Mambuyo", "Manhayang",
+    "Miraga-Guibuangan", "Nasugban", "Omambog", "Pal-Agon", "Pungsod", "San Sebastian", "Sangcate", "Tagsing",
+    "Talanghauan", "Talongadian", "Tigtig", "Tuburan", "Tugas", "Tungay",
+  ],
+  Sara: [
+    "Aguirre", "Aldeguer", "Alibayog", "Anoring", "Apelo", "Apologista", "Aposaga", "Arante", "Ardemil", "Aspera",
+    "Aswe-Pabriaga", "Bagaygay", "Bakabak", "Batitao", "Bato", "Castor", "Crespo", "Del Castillo", "Devera", "Domingo",
+    "Ferraris", "Gildore", "Improgo", "Juaneza", "Labigan", "Lanciola", "Latawan", "Malapaya", "Muyco", "Padios",
+    "Pasig", "Poblacion Ilawod", "Poblacion Ilaya", "Poblacion Market", "Posadas", "Preciosa", "Salcedo", "San Luis",
+    "Tady", "Tentay", "Villahermosa", "Zerrudo",
+  ],
+  Tigbauan: [
+    "Alupidian", "Atabayan", "Bagacay", "Baguingin", "Bagumbayan", "Bangkal", "Bantud", "Barangay 1", "Barangay 2",
+    "Barangay 3", "Barangay 4", "Barangay 5", "Barangay 6", "Barangay 7", "Barangay 8", "Barangay 9", "Barosong",
+    "Barroc", "Bayuco", "Binaliuan Mayor", "Binaliuan Menor", "Bitas", "Buenavista", "Bugasongan", "Buyu-an",
+    "Canabuan", "Cansilayan", "Cordova Norte", "Cordova Sur", "Danao", "Dapdap", "Dorong-an", "Guisian", "Isauan",
+    "Isian", "Jamog", "Lanag", "Linobayan", "Lubog", "Nagba", "Namocon", "Napnapan Norte", "Napnapan Sur", "Olo Barroc",
+    "Parara Norte", "Parara Sur", "San Rafael", "Sermon", "Sipitan", "Supa", "Tan Pael", "Taro",
+  ],
+  Tubungan: [
+    "Adgao", "Ago", "Ambarihon", "Ayubo", "Bacan", "Badiang", "Bagunanay", "Balicua", "Bantayanan", "Batga", "Bato",
+    "Bikil", "Boloc", "Bondoc", "Borong", "Buenavista", "Cadabdab", "Daga-ay", "Desposorio", "Igdampog Norte",
+    "Igdampog Sur", "Igpaho", "Igtuble", "Ingay", "Isauan", "Jolason", "Jona", "La-ag", "Lanag Norte", "Lanag Sur",
+    "Male", "Mayang", "Molina", "Morcillas", "Nagba", "Navillan", "Pinamacalan", "San Jose", "Sibucauan", "Singon",
+    "Tabat", "Tagpu-an", "Talento", "Teniente Benito", "Victoria", "Zone I", "Zone II", "Zone III",
+  ],
+  Zarraga: [
+    "Balud I", "Balud II", "Balud Lilo-an", "Dawis Centro", "Dawis Norte", "Dawis Sur", "Gines", "Ilawod Poblacion",
+    "Ilaya Poblacion", "Inagdangan Centro", "Inagdangan Norte", "Inagdangan Sur", "Jalaud Norte", "Jalaud Sur",
+    "Libongcogon", "Malunang", "Pajo", "Sambag", "Sigangao", "Talauguis", "Talibong", "Tubigan", "Tuburan",
+    "Tuburan Sulbod",
+  ],
+}
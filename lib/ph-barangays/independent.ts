@@ -0,0 +1,561 @@
+// Barangays of the cities and municipalities outside any province, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Angeles: [
+    "Agapito del Rosario", "Amsic", "Anunas", "Balibago", "Capaya", "Claro M. Recto", "Cuayan", "Cutcut", "Cutud",
+    "Lourdes North West", "Lourdes Sur", "Lourdes Sur East", "Malabañas", "Margot", "Mining", "Ninoy Aquino", "Pampang",
+    "Pandan", "Pulung Cacutud", "Pulung Maragul", "Pulungbulu", "Salapungan", "San Jose", "San Nicolas", "Sapalibutad",
+    "Sapangbato", "Sta. Teresita", "Sta. Trinidad", "Sto. Cristo", "Sto. Domingo", "Sto. Rosario", "Tabun",
+    "Virgen Delos Remedios",
+  ],
+  Bacolod: [
+    "Alangilan", "Alijis", "Banago", "Barangay 1", "Barangay 2", "Barangay 3", "Barangay 4", "Barangay 5", "Barangay 6",
+    "Barangay 7", "Barangay 8", "Barangay 9", "Barangay 10", "Barangay 11", "Barangay 12", "Barangay 13", "Barangay 14",
+    "Barangay 15", "Barangay 16", "Barangay 17", "Barangay 18", "Barangay 19", "Barangay 20", "Barangay 21",
+    "Barangay 22", "Barangay 23", "Barangay 24", "Barangay 25", "Barangay 26", "Barangay 27", "Barangay 28",
+    "Barangay 29", "Barangay 30", "Barangay 31", "Barangay 32", "Barangay 33", "Barangay 34", "Barangay 35",
+    "Barangay 36", "Barangay 37", "Barangay 38", "Barangay 39", "Barangay 40", "Barangay 41", "Bata", "Cabug",
+    "Estefania", "Felisa", "Granada", "Handumanan", "Mandalagan", "Mansilingan", "Montevista", "Pahanocoy",
+    "Punta Taytay", "Singcang-Airport", "Sum-ag", "Taculing", "Tangub", "Villamonte", "Vista Alegre",
+  ],
+  Baguio: [
+    "A. Bonifacio-Caguioa-Rimando", "Abanao-Zandueta-Kayong-Chugum-Otek", "Alfonso Tabora", "Ambiong",
+    "Andres Bonifacio", "Apugan-Loakan", "Asin Road", "Atok Trail", "Aurora Hill Proper", "Aurora Hill, North Central",
+    "Aurora Hill, South Central", "Bagong Lipunan", "Bakakeng Central", "Bakakeng North", "Bal-Marcoville", "Balsigan",
+    "Bayan Park East", "Bayan Park Village", "Bayan Park West", "BGH Compound", "Brookside", "Brookspoint",
+    "Cabinet Hill-Teacher's Camp", "Camdas Subdivision", "Camp 7", "Camp 8", "Camp Allen", "Campo Filipino",
+    "City Camp Central", "City Camp Proper", "Country Club Village", "Cresencia Village", "Dagsian, Lower",
+    "Dagsian, Upper", "Dizon Subdivision", "Dominican Hill-Mirador", "Dontogan", "DPS Area", "Engineers' Hill",
+    "Fairview Village", "Ferdinand", "Fort del Pilar", "Gabriela Silang", "General Emilio F. Aguinaldo",
+    "General Luna, Lower", "General Luna, Upper", "Gibraltar", "Greenwater Village", "Guisad Central", "Guisad Sorong",
+    "Happy Hollow", "Happy Homes", "Harrison-Claudio Carantes", "Hillside", "Holy Ghost Extension", "Holy Ghost Proper",
+    "Honeymoon", "Imelda R. Marcos", "Imelda Village", "Irisan", "Kabayanihan", "Kagitingan", "Kayang Extension",
+    "Kayang-Hilltop", "Kias", "Legarda-Burnham-Kisad", "Liwanag-Loakan", "Loakan Proper", "Lopez Jaena",
+    "Lourdes Subdivision Extension", "Lourdes Subdivision, Lower", "Lourdes Subdivision, Proper", "Lualhati", "Lucnab",
+    "Magsaysay Private Road", "Magsaysay, Lower", "Magsaysay, Upper", "Malcolm Square-Perfecto", "Manuel A. Roxas",
+    "Market Subdivision, Upper", "Middle Quezon Hill Subdivision", "Military Cut-off", "Mines View Park",
+    "Modern Site, East", "Modern Site, West", "MRR-Queen Of Peace", "New Lucban", "Outlook Drive", "Pacdal",
+    "Padre Burgos", "Padre Zamora", "Palma-Urbano", "Phil-Am", "Pinget", "Pinsao Pilot Project", "Pinsao Proper",
+    "Poliwes", "Pucsusan", "Quezon Hill Proper", "Quezon Hill, Upper", "Quirino Hill, East", "Quirino Hill, Lower",
+    "Quirino Hill, Middle", "Quirino Hill, West", "Quirino-Magsaysay, Upper", "Rizal Monument Area",
+    "Rock Quarry, Lower", "Rock Quarry, Middle", "Rock Quarry, Upper", "Saint Joseph Village", "Salud Mitra",
+    "San Antonio Village", "San Luis Village", "San Roque Village", "San Vicente", "Sanitary Camp, North",
+    "Sanitary Camp, South", "Santa Escolastica", "Santo Rosario", "Santo Tomas Proper", "Santo Tomas School Area",
+    "Scout Barrio", "Session Road Area", "Slaughter House Area", "SLU-SVP Housing Village", "South Drive",
+    "Teodora Alonzo", "Trancoville", "Victoria Village",
+  ],
+  Butuan: [
+    "Agao Pob.", "Agusan Pequeño", "Ambago", "Amparo", "Ampayon", "Anticala", "Antongalon", "Aupagan", "Baan KM 3",
+    "Baan Riverside Pob.", "Babag", "Bading Pob.", "Bancasi", "Banza", "Baobaoan", "Basag", "Bayanihan Pob.", "Bilay",
+    "Bit-os", "Bitan-agan", "Bobon", "Bonbon", "Bugabus", "Bugsukan", "Buhangin Pob.", "Cabcabon", "Camayahan",
+    "Dagohoy Pob.", "Dankias", "De Oro", "Diego Silang Pob.", "Don Francisco", "Doongan", "Dulag", "Dumalagan",
+    "Florida", "Golden Ribbon Pob.", "Holy Redeemer Pob.", "Humabon Pob.", "Imadejas Pob.", "Jose Rizal Pob.",
+    "Kinamlutan", "Lapu-lapu Pob.", "Lemon", "Leon Kilat Pob.", "Libertad", "Limaha Pob.", "Los Angeles", "Lumbocan",
+    "Maguinda", "Mahay", "Mahogany Pob.", "Maibu", "Mandamo", "Manila de Bugabus", "Maon Pob.", "Masao", "Maug",
+    "New Society Village Pob.", "Nong-nong", "Obrero Pob.", "Ong Yiu Pob.", "Pagatpatan", "Pangabugan", "Pianing",
+    "Pigdaulan", "Pinamanculan", "Port Poyohon Pob.", "Rajah Soliman Pob.", "Salvacion", "San Ignacio Pob.",
+    "San Mateo", "San Vicente", "Santo Niño", "Sikatuna Pob.", "Silongan Pob.", "Sumile", "Sumilihon", "Tagabaca",
+    "Taguibo", "Taligaman", "Tandang Sora Pob.", "Tiniwisan", "Tungao", "Urduja Pob.", "Villa Kananga",
+  ],
+  "Cagayan de Oro": [
+    "Agusan", "Baikingon", "Balubal", "Balulang", "Barangay 1", "Barangay 2", "Barangay 3", "Barangay 4", "Barangay 5",
+    "Barangay 6", "Barangay 7", "Barangay 8", "Barangay 9", "Barangay 10", "Barangay 11", "Barangay 12", "Barangay 13",
+    "Barangay 14", "Barangay 15", "Barangay 16", "Barangay 17", "Barangay 18", "Barangay 19", "Barangay 20",
+    "Barangay 21", "Barangay 22", "Barangay 23", "Barangay 24", "Barangay 25", "Barangay 26", "Barangay 27",
+    "Barangay 28", "Barangay 29", "Barangay 30", "Barangay 31", "Barangay 32", "Barangay 33", "Barangay 34",
+    "Barangay 35", "Barangay 36", "Barangay 37", "Barangay 38", "Barangay 39", "Barangay 40", "Bayabas", "Bayanga",
+    "Besigan", "Bonbon", "Bugo", "Bulua", "Camaman-an", "Canito-an", "Carmen", "Consolacion", "Cugman", "Dansolihon",
+    "F. S. Catanico", "Gusa", "Indahag", "Iponan", "Kauswagan", "Lapasan", "Lumbia", "Macabalan", "Macasandig",
+    "Mambuaya", "Nazareth", "Pagalungan", "Pagatpat", "Patag", "Pigsag-an", "Puerto", "Puntod", "San Simon", "Tablon",
+    "Taglimao", "Tagpangi", "Tignapoloan", "Tuburan", "Tumpagon",
+  ],
+  Caloocan: [
+    "Barangay 1", "Barangay 2", "Barangay 3", "Barangay 4", "Barangay 5", "Barangay 6", "Barangay 7", "Barangay 8",
+    "Barangay 9", "Barangay 10", "Barangay 11", "Barangay 12", "Barangay 13", "Barangay 14", "Barangay 15",
+    "Barangay 16", "Barangay 17", "Barangay 18", "Barangay 19", "Barangay 20", "Barangay 21", "Barangay 22",
+    "Barangay 23", "Barangay 24", "Barangay 25", "Barangay 26", "Barangay 27", "Barangay 28", "Barangay 29",
+    "Barangay 30", "Barangay 31", "Barangay 32", "Barangay 33", "Barangay 34", "Barangay 35", "Barangay 36",
+    "Barangay 37", "Barangay 38", "Barangay 39", "Barangay 40", "Barangay 41", "Barangay 42", "Barangay 43",
+    "Barangay 44", "Barangay 45", "Barangay 46", "Barangay 47", "Barangay 48", "Barangay 49", "Barangay 50",
+    "Barangay 51", "Barangay 52", "Barangay 53", "Barangay 54", "Barangay 55", "Barangay 56", "Barangay 57",
+    "Barangay 58", "Barangay 59", "Barangay 60", "Barangay 61", "Barangay 62", "Barangay 63", "Barangay 64",
+    "Barangay 65", "Barangay 66", "Barangay 67", "Barangay 68", "Barangay 69", "Barangay 70", "Barangay 71",
+    "Barangay 72", "Barangay 73", "Barangay 74", "Barangay 75", "Barangay 76", "Barangay 77", "Barangay 78",
+    "Barangay 79", "Barangay 80", "Barangay 81", "Barangay 82", "Barangay 83", "Barangay 84", "Barangay 85",
+    "Barangay 86", "Barangay 87", "Barangay 88", "Barangay 89", "Barangay 90", "Barangay 91", "Barangay 92",
+    "Barangay 93", "Barangay 94", "Barangay 95", "Barangay 96", "Barangay 97", "Barangay 98", "Barangay 99",
+    "Barangay 100", "Barangay 101", "Barangay 102", "Barangay 103", "Barangay 104", "Barangay 105", "Barangay 106",
+    "Barangay 107", "Barangay 108", "Barangay 109", "Barangay 110", "Barangay 111", "Barangay 112", "Barangay 113",
+    "Barangay 114", "Barangay 115", "Barangay 116", "Barangay 117", "Barangay 118", "Barangay 119", "Barangay 120",
+    "Barangay 121", "Barangay 122", "Barangay 123", "Barangay 124", "Barangay 125", "Barangay 126", "Barangay 127",
+    "Barangay 128", "Barangay 129", "Barangay 130", "Barangay 131", "Barangay 132", "Barangay 133", "Barangay 134",
+    "Barangay 135", "Barangay 136", "Barangay 137", "Barangay 138", "Barangay 139", "Barangay 140", "Barangay 141",
+    "Barangay 142", "Barangay 143", "Barangay 144", "Barangay 145", "Barangay 146", "Barangay 147", "Barangay 148",
+    "Barangay 149", "Barangay 150", "Barangay 151", "Barangay 152", "Barangay 153", "Barangay 154", "Barangay 155",
+    "Barangay 156", "Barangay 157", "Barangay 158", "Barangay 159", "Barangay 160", "Barangay 161", "Barangay 162",
+    "Barangay 163", "Barangay 164", "Barangay 165", "Barangay 166", "Barangay 167", "Barangay 168", "Barangay 169",
+    "Barangay 170", "Barangay 171", "Barangay 172", "Barangay 173", "Barangay 174", "Barangay 175", "Barangay 176-A",
+    "Barangay 176-B", "Barangay 176-C", "Barangay 176-D", "Barangay 176-E", "Barangay 176-F", "Barangay 177",
+    "Barangay 178", "Barangay 179", "Barangay 180", "Barangay 181", "Barangay 182", "Barangay 183", "Barangay 184",
+    "Barangay 185", "Barangay 186", "Barangay 187", "Barangay 188",
+  ],
+  "Cebu City": [
+    "Adlaon", "Agsungot", "Apas", "Babag", "Bacayan", "Banilad", "Basak Pardo", "Basak San Nicolas", "Binaliw",
+    "Bonbon", "Budla-an", "Buhisan", "Bulacao", "Buot-Taup Pardo", "Busay", "Calamba", "Cambinocot", "Camputhaw",
+    "Capitol Site", "Carreta", "Central", "Cogon Pardo", "Cogon Ramos", "Day-as", "Duljo", "Ermita", "Guadalupe",
+    "Guba", "Hippodromo", "Inayawan", "Kalubihan", "Kalunasan", "Kamagayan", "Kasambagan", "Kinasang-an Pardo",
+    "Labangon", "Lahug", "Lorega", "Lusaran", "Luz", "Mabini", "Mabolo", "Malubog", "Mambaling", "Pahina Central",
+    "Pahina San Nicolas", "Pamutan", "Pardo", "Pari-an", "Paril", "Pasil", "Pit-os", "Pulangbato", "Pung-ol-Sibugay",
+    "Punta Princesa", "Quiot Pardo", "Sambag I", "Sambag II", "San Antonio", "San Jose", "San Nicolas Central",
+    "San Roque", "Santa Cruz", "Sapangdaku", "Sawang Calero", "Sinsin", "Sirao", "Suba Pob.", "Sudlon I", "Sudlon II",
+    "T. Padilla", "Tabunan", "Tagbao", "Talamban", "Taptap", "Tejero", "Tinago", "Tisa", "To-ong Pardo", "Zapatera",
+  ],
+  "Cotabato City": [
+    "Bagua", "Bagua I", "Bagua II", "Bagua III", "Kalanganan", "Kalanganan I", "Kalanganan II", "Poblacion",
+    "Poblacion I", "Poblacion II", "Poblacion III", "Poblacion IV", "Poblacion IX", "Poblacion V", "Poblacion VI",
+    "Poblacion VII", "Poblacion VIII", "Rosary Heights", "Rosary Heights I", "Rosary Heights II", "Rosary Heights III",
+    "Rosary Heights IV", "Rosary Heights IX", "Rosary Heights V", "Rosary Heights VI", "Rosary Heights VII",
+    "Rosary Heights VIII", "Rosary Heights X", "Rosary Heights XI", "Rosary Heights XII", "Rosary Heights XIII",
+    "Tamontaka", "Tamontaka I", "Tamontaka II", "Tamontaka III", "Tamontaka IV", "Tamontaka V",
+  ],
+  Dagupan: [
+    "Bacayao Norte", "Bacayao Sur", "Barangay I", "Barangay II", "Barangay IV", "Bolosan", "Bonuan Binloc",
+    "Bonuan Boquig", "Bonuan Gueset", "Calmay", "Carael", "Caranglaan", "Herrero", "Lasip Chico", "Lasip Grande",
+    "Lomboy", "Lucao", "Malued", "Mamalingling", "Mangin", "Mayombo", "Pantal", "Poblacion Oeste", "Pogo Chico",
+    "Pogo Grande", "Pugaro Suit", "Salapingao", "Salisay", "Tambac", "Tapuac", "Tebeng",
+  ],
+  "Davao City": [
+    "Acacia", "Agdao", "Alambre", "Alejandra Navarro", "Alfonso Angliongto Sr.", "Angalan", "Atan-Awe", "Baganihan",
+    "Bago Aplaya", "Bago Gallera", "Bago Oshiro", "Baguio", "Balengaeng", "Baliok", "Bangkas Heights", "Bantol",
+    "Baracatan", "Barangay 1-A", "Barangay 2-A", "Barangay 3-A", "Barangay 4-A", "Barangay 5-A", "Barangay 6-A",
+    "Barangay 7-A", "Barangay 8-A", "Barangay 9-A", "Barangay 10-A", "Barangay 11-B", "Barangay 12-B", "Barangay 13-B",
+    "Barangay 14-B", "Barangay 15-B", "Barangay 16-B", "Barangay 17-B", "Barangay 18-B", "Barangay 19-B",
+    "Barangay 20-B", "Barangay 21-C", "Barangay 22-C", "Barangay 23-C", "Barangay 24-C", "Barangay 25-C",
+    "Barangay 26-C", "Barangay 27-C", "Barangay 28-C", "Barangay 29-C", "Barangay 30-C", "Barangay 31-D",
+    "Barangay 32-D", "Barangay 33-D", "Barangay 34-D", "Barangay 35-D", "Barangay 36-D", "Barangay 37-D",
+    "Barangay 38-D", "Barangay 39-D", "Barangay 40-D", "Bato", "Bayabas", "Biao Escuela", "Biao Guianga",
+    "Biao Joaquin", "Binugao", "Bucana", "Buda", "Buhangin", "Bunawan", "Cabantian", "Cadalian", "Calinan", "Callawa",
+    "Camansi", "Carmen", "Catalunan Grande", "Catalunan Pequeño", "Catigan", "Cawayan", "Centro", "Colosas", "Communal",
+    "Crossing Bayabas", "Dacudao", "Dalag", "Dalagdag", "Daliao", "Daliaon Plantation", "Datu Salumay", "Dominga",
+    "Dumoy", "Eden", "Fatima", "Gatungan", "Gov. Paciano Bangoy", "Gov. Vicente Duterte", "Gumalang", "Gumitan",
+    "Ilang", "Inayangan", "Indangan", "Kap. Tomas Monteverde, Sr.", "Kilate", "Lacson", "Lamanan", "Lampianao",
+    "Langub", "Lapu-lapu", "Leon Garcia, Sr.", "Lizada", "Los Amigos", "Lubogan", "Lumiad", "Ma-a", "Mabuhay",
+    "Magsaysay", "Magtuod", "Mahayag", "Malabog", "Malagos", "Malamba", "Manambulan", "Mandug", "Manuel Guianga",
+    "Mapula", "Marapangi", "Marilog", "Matina Aplaya", "Matina Biao", "Matina Crossing", "Matina Pangi", "Megkawayan",
+    "Mintal", "Mudiang", "Mulig", "New Carmen", "New Valencia", "Pampanga", "Panacan", "Panalum", "Pandaitan",
+    "Pangyan", "Paquibato", "Paradise Embak", "Rafael Castillo", "Riverside", "Salapawan", "Salaysay", "Saloy",
+    "San Antonio", "San Isidro", "Santo Niño", "Sasa", "Sibulan", "Sirawan", "Sirib", "Suawan", "Subasta", "Sumimao",
+    "Tacunan", "Tagakpan", "Tagluno", "Tagurano", "Talandang", "Talomo", "Talomo River", "Tamayong", "Tambobong",
+    "Tamugan", "Tapak", "Tawan-tawan", "Tibuloy", "Tibungco", "Tigatto", "Toril", "Tugbok", "Tungakalan", "Ubalde",
+    "Ula", "Vicente Hizon Sr.", "Waan", "Wangan", "Wilfredo Aquino", "Wines",
+  ],
+  "General Santos": [
+    "Apopong", "Baluan", "Batomelong", "Buayan", "Bula", "Calumpang", "City Heights", "Conel", "Dadiangas East",
+    "Dadiangas North", "Dadiangas South", "Dadiangas West", "Fatima", "Katangawan", "Labangal", "Lagao", "Ligaya",
+    "Mabuhay", "Olympog", "San Isidro", "San Jose", "Siguel", "Sinawal", "Tambler", "Tinagacan", "Upper Labay",
+  ],
+  Iligan: [
+    "Abuno", "Acmac-Mariano Badelles Sr.", "Bagong Silang", "Bonbonon", "Bunawan", "Buru-un", "Dalipuga", "Del Carmen",
+    "Digkilaan", "Ditucalan", "Dulag", "Hinaplanon", "Hindang", "Kabacsanan", "Kalilangan", "Kiwalan", "Lanipao",
+    "Luinab", "Mahayahay", "Mainit", "Mandulog", "Maria Cristina", "Palao", "Panoroganan", "Poblacion", "Puga-an",
+    "Rogongon", "San Miguel", "San Roque", "Santa Elena", "Santa Filomena", "Santiago", "Santo Rosario", "Saray",
+    "Suarez", "Tambacan", "Tibanga", "Tipanoy", "Tomas L. Cabili", "Tubod", "Ubaldo Laya", "Upper Hinaplanon",
+    "Upper Tominobo", "Villa Verde",
+  ],
+  "Iloilo City": [
+    "Abeto Mirasol Taft South", "Aguinaldo", "Airport", "Alalasan Lapuz", "Arguelles", "Arsenal Aduana", "Bakhaw",
+    "Balabago", "Balantang", "Baldoza", "Bantud", "Banuyao", "Baybay Tanza", "Benedicto", "Bito-on", "Bolilao",
+    "Bonifacio", "Bonifacio Tanza", "Buhang", "Buhang Taft North", "Buntatala", "Burgos-Mabini-Plaza", "Caingin",
+    "Calahunan", "Calaparan", "Calubihan", "Calumpang", "Camalig", "Cochero", "Compania", "Concepcion-Montes",
+    "Cuartero", "Cubay", "Danao", "Delgado-Jalandoni-Bagumbayan", "Democracia", "Desamparados", "Divinagracia",
+    "Don Esteban-Lapuz", "Dulonan", "Dungon", "Dungon A", "Dungon B", "East Baluarte", "East Timawa", "Edganzon",
+    "El 98 Castilla", "Fajardo", "Flores", "General Hughes-Montes", "Gloria", "Gustilo", "Guzman-Jesena",
+    "Habog-habog Salvacion", "Hibao-an Norte", "Hibao-an Sur", "Hinactacan", "Hipodromo", "Inday", "Infante", "Ingore",
+    "Jalandoni Estate-Lapuz", "Jalandoni-Wilson", "Javellana", "Jereos", "Kahirupan", "Kasingkasing", "Katilingban",
+    "Kauswagan", "Laguda", "Lanit", "Lapuz Norte", "Lapuz Sur", "Legaspi dela Rama", "Liberation",
+    "Libertad, Santa Isabel", "Libertad-Lapuz", "Loboc-Lapuz", "Lopez Jaena", "Lopez Jaena Norte", "Lopez Jaena Sur",
+    "Luna (Jaro)", "Luna (La Paz)", "M. V. Hechanova", "Mabolo-Delgado", "Macarthur", "Magdalo", "Magsaysay",
+    "Magsaysay Village", "Malipayon-Delgado", "Mansaya-Lapuz", "Marcelo H. del Pilar", "Maria Clara", "Maria Cristina",
+    "Mohon", "Molo Boulevard", "Monica Blumentritt", "Montinola", "Muelle Loney-Montes", "Nabitasan", "Navais", "Nonoy",
+    "North Avanceña", "North Baluarte", "North Fundidor", "North San Jose", "Obrero-Lapuz", "Ortiz", "Osmeña",
+    "Our Lady Of Fatima", "Our Lady Of Lourdes", "Oñate de Leon", "Pale Benedicto Rizal", "PHHC Block 17",
+    "PHHC Block 22 NHA", "Poblacion Molo", "President Roxas", "Progreso-Lapuz", "Punong-Lapuz", "Quezon",
+    "Quintin Salas", "Railway", "Rima-Rizal", "Rizal", "Rizal Estanzuela", "Rizal Ibarra", "Rizal Palapala I",
+    "Rizal Palapala II", "Roxas Village", "Sambag", "Sampaguita", "San Agustin", "San Antonio", "San Felix",
+    "San Isidro (Jaro)", "San Isidro (La Paz)", "San Jose (Arevalo)", "San Jose (City Proper)", "San Jose (Jaro)",
+    "San Juan", "San Nicolas", "San Pedro (Jaro)", "San Pedro (Molo)", "San Rafael", "San Roque", "San Vicente",
+    "Santa Cruz", "Santa Filomena", "Santa Rosa", "Santo Domingo", "Santo Niño Norte", "Santo Niño Sur",
+    "Santo Rosario-Duran", "Seminario", "Simon Ledesma", "Sinikway", "So-oc", "South Baluarte", "South Fundidor",
+    "South San Jose", "Taal", "Tabuc Suba (Jaro)", "Tabuc Suba (La Paz)", "Tabucan", "Tacas", "Tagbac",
+    "Tanza-Esperanza", "Tap-oc", "Taytay Zone II", "Ticud", "Timawa Tanza I", "Timawa Tanza II", "Ungka",
+    "Veterans Village", "Villa Anita", "West Habog-habog", "West Timawa", "Yulo Drive", "Yulo-Arroyo", "Zamora-Melliza",
+  ],
+  Kadayangan: [
+    "Central Labas", "Kapinpilan", "Malingao", "Mudseng", "Sambulawan", "Tugal", "Tumbras",
+  ],
+  Kapalawan: [
+    "Kib-Ayao", "Kitulaan", "Langogan", "Manarapan", "Nasapian", "Pebpoloan", "Tupig",
+  ],
+  "Lapu-Lapu": [
+    "Agus", "Babag", "Bankal", "Baring", "Basak", "Buaya", "Calawisan", "Canjulao", "Caubian", "Caw-oy", "Cawhagan",
+    "Gun-ob", "Ibo", "Looc", "Mactan", "Maribago", "Marigondon", "Pajac", "Pajo", "Pangan-an", "Poblacion",
+    "Punta Engaño", "Pusok", "Sabang", "San Vicente", "Santa Rosa", "Subabasbas", "Talima", "Tingo", "Tungasan",
+  ],
+  "Las Piñas": [
+    "Almanza Dos", "Almanza Uno", "B. F. International Village", "Daniel Fajardo", "Elias Aldana", "Ilaya",
+    "Manuyo Dos", "Manuyo Uno", "Pamplona Dos", "Pamplona Tres", "Pamplona Uno", "Pilar", "Pulang Lupa Dos",
+    "Pulang Lupa Uno", "Talon Dos", "Talon Kuatro", "Talon Singko", "Talon Tres", "Talon Uno", "Zapote",
+  ],
+  Ligawasan: [
+    "Bagoaingud", "Barungis", "Buliok", "Bulol", "Gligli", "Kabasalan", "Rajah Muda",
+  ],
+  Lucena: [
+    "Barangay 1", "Barangay 2", "Barangay 3", "Barangay 4", "Barangay 5", "Barangay 6", "Barangay 7", "Barangay 8",
+    "Barangay 9", "Barangay 10", "Barangay 11", "Barra", "Bocohan", "Cotta", "Dalahican", "Domoit", "Gulang-gulang",
+    "Ibabang Dupay", "Ibabang Iyam", "Ibabang Talim", "Ilayang Dupay", "Ilayang Iyam", "Ilayang Talim", "Isabang",
+    "Market View", "Mayao Castillo", "Mayao Crossing", "Mayao Kanluran", "Mayao Parada", "Mayao Silangan", "Ransohan",
+    "Salinas", "Talao-talao",
+  ],
+  Makati: [
+    "Bangkal", "Bel-Air", "Carmona", "Dasmariñas", "Forbes Park", "Guadalupe Nuevo", "Guadalupe Viejo", "Kasilawan",
+    "La Paz", "Magallanes", "Olympia", "Palanan", "Pinagkaisahan", "Pio Del Pilar", "Poblacion", "San Antonio",
+    "San Isidro", "San Lorenzo", "Santa Cruz", "Singkamas", "Tejeros", "Urdaneta", "Valenzuela",
+  ],
+  Malabon: [
+    "Acacia", "Baritan", "Bayan-bayanan", "Catmon", "Concepcion", "Dampalit", "Flores", "Hulong Duhat", "Ibaba",
+    "Longos", "Maysilo", "Muzon", "Niugan", "Panghulo", "Potrero", "San Agustin", "Santolan", "Tañong", "Tinajeros",
+    "Tonsuya", "Tugatog",
+  ],
+  Malidegao: [
+    "Balungis", "Batulawan", "Fort Pikit", "Gokoton", "Nabundas", "Nalapaan", "Nunguan",
+  ],
+  Mandaluyong: [
+    "Addition Hills", "Bagong Silang", "Barangka Drive", "Barangka Ibaba", "Barangka Ilaya", "Barangka Itaas",
+    "Buayang Bato", "Burol", "Daang Bakal", "Hagdang Bato Itaas", "Hagdang Bato Libis", "Harapin Ang Bukas",
+    "Highway Hills", "Hulo", "Mabini-J. Rizal", "Malamig", "Mauway", "Namayan", "New Zañiga", "Old Zañiga", "Pag-asa",
+    "Plainview", "Pleasant Hills", "Poblacion", "San Jose", "Vergara", "Wack-wack Greenhills",
+  ],
+  Mandaue: [
+    "Alang-alang", "Bakilid", "Banilad", "Basak", "Cabancalan", "Cambaro", "Canduman", "Casili", "Casuntingan",
+    "Centro", "Cubacub", "Guizo", "Ibabao-Estancia", "Jagobiao", "Labogon", "Looc", "Maguikay", "Mantuyong", "Opao",
+    "Pagsabungan", "Pakna-an", "Subangdaku", "Tabok", "Tawason", "Tingub", "Tipolo", "Umapad",
+  ],
+  Manila: [
+    "Barangay 1", "Barangay 2", "Barangay 3", "Barangay 4", "Barangay 5", "Barangay 6", "Barangay 7", "Barangay 8",
+    "Barangay 9", "Barangay 10", "Barangay 11", "Barangay 12", "Barangay 13", "Barangay 14", "Barangay 15",
+    "Barangay 16", "Barangay 17", "Barangay 18", "Barangay 19", "Barangay 20", "Barangay 25", "Barangay 26",
+    "Barangay 28", "Barangay 29", "Barangay 30", "Barangay 31", "Barangay 32", "Barangay 33", "Barangay 34",
+    "Barangay 35", "Barangay 36", "Barangay 37", "Barangay 38", "Barangay 39", "Barangay 41", "Barangay 42",
+    "Barangay 43", "Barangay 44", "Barangay 45", "Barangay 46", "Barangay 47", "Barangay 48", "Barangay 49",
+    "Barangay 50", "Barangay 51", "Barangay 52", "Barangay 53", "Barangay 54", "Barangay 55", "Barangay 56",
+    "Barangay 57", "Barangay 58", "Barangay 59", "Barangay 60", "Barangay 61", "Barangay 62", "Barangay 63",
+    "Barangay 64", "Barangay 65", "Barangay 66", "Barangay 67", "Barangay 68", "Barangay 69", "Barangay 70",
+    "Barangay 71", "Barangay 72", "Barangay 73", "Barangay 74", "Barangay 75", "Barangay 76", "Barangay 77",
+    "Barangay 78", "Barangay 79", "Barangay 80", "Barangay 81", "Barangay 82", "Barangay 83", "Barangay 84",
+    "Barangay 85", "Barangay 86", "Barangay 87", "Barangay 88", "Barangay 89", "Barangay 90", "Barangay 91",
+    "Barangay 92", "Barangay 93", "Barangay 94", "Barangay 95", "Barangay 96", "Barangay 97", "Barangay 98",
+    "Barangay 99", "Barangay 100", "Barangay 101", "Barangay 102", "Barangay 103", "Barangay 104", "Barangay 105",
+    "Barangay 106", "Barangay 107", "Barangay 108", "Barangay 109", "Barangay 110", "Barangay 111", "Barangay 112",
+    "Barangay 116", "Barangay 117", "Barangay 118", "Barangay 119", "Barangay 120", "Barangay 121", "Barangay 122",
+    "Barangay 123", "Barangay 124", "Barangay 125", "Barangay 126", "Barangay 127", "Barangay 128", "Barangay 129",
+    "Barangay 130", "Barangay 131", "Barangay 132", "Barangay 133", "Barangay 134", "Barangay 135", "Barangay 136",
+    "Barangay 137", "Barangay 138", "Barangay 139", "Barangay 140", "Barangay 141", "Barangay 142", "Barangay 143",
+    "Barangay 144", "Barangay 145", "Barangay 146", "Barangay 147", "Barangay 148", "Barangay 149", "Barangay 150",
+    "Barangay 151", "Barangay 152", "Barangay 153", "Barangay 154", "Barangay 155", "Barangay 156", "Barangay 157",
+    "Barangay 158", "Barangay 159", "Barangay 160", "Barangay 161", "Barangay 162", "Barangay 163", "Barangay 164",
+    "Barangay 165", "Barangay 166", "Barangay 167", "Barangay 168", "Barangay 169", "Barangay 170", "Barangay 171",
+    "Barangay 172", "Barangay 173", "Barangay 174", "Barangay 175", "Barangay 176", "Barangay 177", "Barangay 178",
+    "Barangay 179", "Barangay 180", "Barangay 181", "Barangay 182", "Barangay 183", "Barangay 184", "Barangay 185",
+    "Barangay 186", "Barangay 187", "Barangay 188", "Barangay 189", "Barangay 190", "Barangay 191", "Barangay 192",
+    "Barangay 193", "Barangay 194", "Barangay 195", "Barangay 196", "Barangay 197", "Barangay 198", "Barangay 199",
+    "Barangay 200", "Barangay 201", "Barangay 202", "Barangay 202-A", "Barangay 203", "Barangay 204", "Barangay 205",
+    "Barangay 206", "Barangay 207", "Barangay 208", "Barangay 209", "Barangay 210", "Barangay 211", "Barangay 212",
+    "Barangay 213", "Barangay 214", "Barangay 215", "Barangay 216", "Barangay 217", "Barangay 218", "Barangay 219",
+    "Barangay 220", "Barangay 221", "Barangay 222", "Barangay 223", "Barangay 224", "Barangay 225", "Barangay 226",
+    "Barangay 227", "Barangay 228", "Barangay 229", "Barangay 230", "Barangay 231", "Barangay 232", "Barangay 233",
+    "Barangay 234", "Barangay 235", "Barangay 236", "Barangay 237", "Barangay 238", "Barangay 239", "Barangay 240",
+    "Barangay 241", "Barangay 242", "Barangay 243", "Barangay 244", "Barangay 245", "Barangay 246", "Barangay 247",
+    "Barangay 248", "Barangay 249", "Barangay 250", "Barangay 251", "Barangay 252", "Barangay 253", "Barangay 254",
+    "Barangay 255", "Barangay 256", "Barangay 257", "Barangay 258", "Barangay 259", "Barangay 260", "Barangay 261",
+    "Barangay 262", "Barangay 263", "Barangay 264", "Barangay 265", "Barangay 266", "Barangay 267", "Barangay 268",
+    "Barangay 269", "Barangay 270", "Barangay 271", "Barangay 272", "Barangay 273", "Barangay 274", "Barangay 275",
+    "Barangay 276", "Barangay 281", "Barangay 282", "Barangay 283", "Barangay 284", "Barangay 285", "Barangay 286",
+    "Barangay 287", "Barangay 288", "Barangay 289", "Barangay 290", "Barangay 291", "Barangay 292", "Barangay 293",
+    "Barangay 294", "Barangay 295", "Barangay 296", "Barangay 297", "Barangay 298", "Barangay 299", "Barangay 300",
+    "Barangay 301", "Barangay 302", "Barangay 303", "Barangay 304", "Barangay 305", "Barangay 306", "Barangay 307",
+    "Barangay 308", "Barangay 309", "Barangay 310", "Barangay 311", "Barangay 312", "Barangay 313", "Barangay 314",
+    "Barangay 315", "Barangay 316", "Barangay 317", "Barangay 318", "Barangay 319", "Barangay 320", "Barangay 321",
+    "Barangay 322", "Barangay 323", "Barangay 324", "Barangay 325", "Barangay 326", "Barangay 327", "Barangay 328",
+    "Barangay 329", "Barangay 330", "Barangay 331", "Barangay 332", "Barangay 333", "Barangay 334", "Barangay 335",
+    "Barangay 336", "Barangay 337", "Barangay 338", "Barangay 339", "Barangay 340", "Barangay 341", "Barangay 342",
+    "Barangay 343", "Barangay 344", "Barangay 345", "Barangay 346", "Barangay 347", "Barangay 348", "Barangay 349",
+    "Barangay 350", "Barangay 351", "Barangay 352", "Barangay 353", "Barangay 354", "Barangay 355", "Barangay 356",
+    "Barangay 357", "Barangay 358", "Barangay 359", "Barangay 360", "Barangay 361", "Barangay 362", "Barangay 363",
+    "Barangay 364", "Barangay 365", "Barangay 366", "Barangay 367", "Barangay 368", "Barangay 369", "Barangay 370",
+    "Barangay 371", "Barangay 372", "Barangay 373", "Barangay 374", "Barangay 375", "Barangay 376", "Barangay 377",
+    "Barangay 378", "Barangay 379", "Barangay 380", "Barangay 381", "Barangay 382", "Barangay 383", "Barangay 384",
+    "Barangay 385", "Barangay 386", "Barangay 387", "Barangay 388", "Barangay 389", "Barangay 390", "Barangay 391",
+    "Barangay 392", "Barangay 393", "Barangay 394", "Barangay 395", "Barangay 396", "Barangay 397", "Barangay 398",
+    "Barangay 399", "Barangay 400", "Barangay 401", "Barangay 402", "Barangay 403", "Barangay 404", "Barangay 405",
+    "Barangay 406", "Barangay 407", "Barangay 408", "Barangay 409", "Barangay 410", "Barangay 411", "Barangay 412",
+    "Barangay 413", "Barangay 414", "Barangay 415", "Barangay 416", "Barangay 417", "Barangay 418", "Barangay 419",
+    "Barangay 420", "Barangay 421", "Barangay 422", "Barangay 423", "Barangay 424", "Barangay 425", "Barangay 426",
+    "Barangay 427", "Barangay 428", "Barangay 429", "Barangay 430", "Barangay 431", "Barangay 432", "Barangay 433",
+    "Barangay 434", "Barangay 435", "Barangay 436", "Barangay 437", "Barangay 438", "Barangay 439", "Barangay 440",
+    "Barangay 441", "Barangay 442", "Barangay 443", "Barangay 444", "Barangay 445", "Barangay 446", "Barangay 447",
+    "Barangay 448", "Barangay 449", "Barangay 450", "Barangay 451", "Barangay 452", "Barangay 453", "Barangay 454",
+    "Barangay 455", "Barangay 456", "Barangay 457", "Barangay 458", "Barangay 459", "Barangay 460", "Barangay 461",
+    "Barangay 462", "Barangay 463", "Barangay 464", "Barangay 465", "Barangay 466", "Barangay 467", "Barangay 468",
+    "Barangay 469", "Barangay 470", "Barangay 471", "Barangay 472", "Barangay 473", "Barangay 474", "Barangay 475",
+    "Barangay 476", "Barangay 477", "Barangay 478", "Barangay 479", "Barangay 480", "Barangay 481", "Barangay 482",
+    "Barangay 483", "Barangay 484", "Barangay 485", "Barangay 486", "Barangay 487", "Barangay 488", "Barangay 489",
+    "Barangay 490", "Barangay 491", "Barangay 492", "Barangay 493", "Barangay 494", "Barangay 495", "Barangay 496",
+    "Barangay 497", "Barangay 498", "Barangay 499", "Barangay 500", "Barangay 501", "Barangay 502", "Barangay 503",
+    "Barangay 504", "Barangay 505", "Barangay 506", "Barangay 507", "Barangay 508", "Barangay 509", "Barangay 510",
+    "Barangay 511", "Barangay 512", "Barangay 513", "Barangay 514", "Barangay 515", "Barangay 516", "Barangay 517",
+    "Barangay 518", "Barangay 519", "Barangay 520", "Barangay 521", "Barangay 522", "Barangay 523", "Barangay 524",
+    "Barangay 525", "Barangay 526", "Barangay 527", "Barangay 528", "Barangay 529", "Barangay 530", "Barangay 531",
+    "Barangay 532", "Barangay 533", "Barangay 534", "Barangay 535", "Barangay 536", "Barangay 537", "Barangay 538",
+    "Barangay 539", "Barangay 540", "Barangay 541", "Barangay 542", "Barangay 543", "Barangay 544", "Barangay 545",
+    "Barangay 546", "Barangay 547", "Barangay 548", "Barangay 549", "Barangay 550", "Barangay 551", "Barangay 552",
+    "Barangay 553", "Barangay 554", "Barangay 555", "Barangay 556", "Barangay 557", "Barangay 558", "Barangay 559",
+    "Barangay 560", "Barangay 561", "Barangay 562", "Barangay 563", "Barangay 564", "Barangay 565", "Barangay 566",
+    "Barangay 567", "Barangay 568", "Barangay 569", "Barangay 570", "Barangay 571", "Barangay 572", "Barangay 573",
+    "Barangay 574", "Barangay 575", "Barangay 576", "Barangay 577", "Barangay 578", "Barangay 579", "Barangay 580",
+    "Barangay 581", "Barangay 582", "Barangay 583", "Barangay 584", "Barangay 585", "Barangay 586", "Barangay 587",
+    "Barangay 587-A", "Barangay 588", "Barangay 589", "Barangay 590", "Barangay 591", "Barangay 592", "Barangay 593",
+    "Barangay 594", "Barangay 595", "Barangay 596", "Barangay 597", "Barangay 598", "Barangay 599", "Barangay 600",
+    "Barangay 601", "Barangay 602", "Barangay 603", "Barangay 604", "Barangay 605", "Barangay 606", "Barangay 607",
+    "Barangay 608", "Barangay 609", "Barangay 610", "Barangay 611", "Barangay 612", "Barangay 613", "Barangay 614",
+    "Barangay 615", "Barangay 616", "Barangay 617", "Barangay 618", "Barangay 619", "Barangay 620", "Barangay 621",
+    "Barangay 622", "Barangay 623", "Barangay 624", "Barangay 625", "Barangay 626", "Barangay 627", "Barangay 628",
+    "Barangay 629", "Barangay 630", "Barangay 631", "Barangay 632", "Barangay 633", "Barangay 634", "Barangay 635",
+    "Barangay 636", "Barangay 637", "Barangay 638", "Barangay 639", "Barangay 640", "Barangay 641", "Barangay 642",
+    "Barangay 643", "Barangay 644", "Barangay 645", "Barangay 646", "Barangay 647", "Barangay 648", "Barangay 649",
+    "Barangay 650", "Barangay 651", "Barangay 652", "Barangay 653", "Barangay 654", "Barangay 655", "Barangay 656",
+    "Barangay 657", "Barangay 658", "Barangay 659", "Barangay 659-A", "Barangay 660", "Barangay 660-A", "Barangay 661",
+    "Barangay 662", "Barangay 663", "Barangay 663-A", "Barangay 664", "Barangay 664-A", "Barangay 666", "Barangay 667",
+    "Barangay 668", "Barangay 669", "Barangay 670", "Barangay 671", "Barangay 672", "Barangay 673", "Barangay 674",
+    "Barangay 675", "Barangay 676", "Barangay 677", "Barangay 678", "Barangay 679", "Barangay 680", "Barangay 681",
+    "Barangay 682", "Barangay 683", "Barangay 684", "Barangay 685", "Barangay 686", "Barangay 687", "Barangay 688",
+    "Barangay 689", "Barangay 690", "Barangay 691", "Barangay 692", "Barangay 693", "Barangay 694", "Barangay 695",
+    "Barangay 696", "Barangay 697", "Barangay 698", "Barangay 699", "Barangay 700", "Barangay 701", "Barangay 702",
+    "Barangay 703", "Barangay 704", "Barangay 705", "Barangay 706", "Barangay 707", "Barangay 708", "Barangay 709",
+    "Barangay 710", "Barangay 711", "Barangay 712", "Barangay 713", "Barangay 714", "Barangay 715", "Barangay 716",
+    "Barangay 717", "Barangay 718", "Barangay 719", "Barangay 720", "Barangay 721", "Barangay 722", "Barangay 723",
+    "Barangay 724", "Barangay 725", "Barangay 726", "Barangay 727", "Barangay 728", "Barangay 729", "Barangay 730",
+    "Barangay 731", "Barangay 732", "Barangay 733", "Barangay 734", "Barangay 735", "Barangay 736", "Barangay 737",
+    "Barangay 738", "Barangay 739", "Barangay 740", "Barangay 741", "Barangay 742", "Barangay 743", "Barangay 744",
+    "Barangay 745", "Barangay 746", "Barangay 747", "Barangay 748", "Barangay 749", "Barangay 750", "Barangay 751",
+    "Barangay 752", "Barangay 753", "Barangay 754", "Barangay 755", "Barangay 756", "Barangay 757", "Barangay 758",
+    "Barangay 759", "Barangay 760", "Barangay 761", "Barangay 762", "Barangay 763", "Barangay 764", "Barangay 765",
+    "Barangay 766", "Barangay 767", "Barangay 768", "Barangay 769", "Barangay 770", "Barangay 771", "Barangay 772",
+    "Barangay 773", "Barangay 774", "Barangay 775", "Barangay 776", "Barangay 777", "Barangay 778", "Barangay 779",
+    "Barangay 780", "Barangay 781", "Barangay 782", "Barangay 783", "Barangay 784", "Barangay 785", "Barangay 786",
+    "Barangay 787", "Barangay 788", "Barangay 789", "Barangay 790", "Barangay 791", "Barangay 792", "Barangay 793",
+    "Barangay 794", "Barangay 795", "Barangay 796", "Barangay 797", "Barangay 798", "Barangay 799", "Barangay 800",
+    "Barangay 801", "Barangay 802", "Barangay 803", "Barangay 804", "Barangay 805", "Barangay 806", "Barangay 807",
+    "Barangay 808", "Barangay 809", "Barangay 810", "Barangay 811", "Barangay 812", "Barangay 813", "Barangay 814",
+    "Barangay 815", "Barangay 816", "Barangay 817", "Barangay 818", "Barangay 818-A", "Barangay 819", "Barangay 820",
+    "Barangay 821", "Barangay 822", "Barangay 823", "Barangay 824", "Barangay 825", "Barangay 826", "Barangay 827",
+    "Barangay 828", "Barangay 829", "Barangay 830", "Barangay 831", "Barangay 832", "Barangay 833", "Barangay 834",
+    "Barangay 835", "Barangay 836", "Barangay 837", "Barangay 838", "Barangay 839", "Barangay 840", "Barangay 841",
+    "Barangay 842", "Barangay 843", "Barangay 844", "Barangay 845", "Barangay 846", "Barangay 847", "Barangay 848",
+    "Barangay 849", "Barangay 850", "Barangay 851", "Barangay 852", "Barangay 853", "Barangay 855", "Barangay 856",
+    "Barangay 857", "Barangay 858", "Barangay 859", "Barangay 860", "Barangay 861", "Barangay 862", "Barangay 863",
+    "Barangay 864", "Barangay 865", "Barangay 866", "Barangay 867", "Barangay 868", "Barangay 869", "Barangay 870",
+    "Barangay 871", "Barangay 872", "Barangay 873", "Barangay 874", "Barangay 875", "Barangay 876", "Barangay 877",
+    "Barangay 878", "Barangay 879", "Barangay 880", "Barangay 881", "Barangay 882", "Barangay 883", "Barangay 884",
+    "Barangay 885", "Barangay 886", "Barangay 887", "Barangay 888", "Barangay 889", "Barangay 890", "Barangay 891",
+    "Barangay 892", "Barangay 893", "Barangay 894", "Barangay 895", "Barangay 896", "Barangay 897", "Barangay 898",
+    "Barangay 899", "Barangay 900", "Barangay 901", "Barangay 902", "Barangay 903", "Barangay 904", "Barangay 905",
+  ],
+  Marikina: [
+    "Barangka", "Calumpang", "Concepcion Dos", "Concepcion Uno", "Fortune", "Industrial Valley", "Jesus De La Peña",
+    "Malanday", "Marikina Heights", "Nangka", "Parang", "San Roque", "Santa Elena", "Santo Niño", "Tañong", "Tumana",
+  ],
+  Muntinlupa: [
+    "Alabang", "Bayanan", "Buli", "Cupang", "New Alabang Village", "Poblacion", "Putatan", "Sucat", "Tunasan",
+  ],
+  Nabalawag: [
+    "Damatulan", "Dunguan", "Kadigasan", "Kadingilan", "Kudarangan", "Nabalawag", "Olandang",
+  ],
+  Naga: [
+    "Abella", "Bagumbayan Norte", "Bagumbayan Sur", "Balatas", "Calauag", "Cararayan", "Carolina", "Concepcion Grande",
+    "Concepcion Pequeña", "Dayangdang", "Del Rosario", "Dinaga", "Igualdad Interior", "Lerma", "Liboton", "Mabolo",
+    "Pacol", "Panicuason", "Peñafrancia", "Sabang", "San Felipe", "San Francisco", "San Isidro", "Santa Cruz", "Tabuco",
+    "Tinago", "Triangulo",
+  ],
+  Navotas: [
+    "Bagumbayan North", "Bagumbayan South", "Bangculasi", "Daanghari", "Navotas East", "Navotas West",
+    "NBBS Dagat-dagatan", "NBBS Kaunlaran", "NBBS Proper", "North Bay Boulevard North", "San Jose",
+    "San Rafael Village", "San Roque", "Sipac-Almacen", "Tangos North", "Tangos South", "Tanza 1", "Tanza 2",
+  ],
+  "Old Kaabakan": [
+    "Buluan", "Nanga-an", "Pedtad", "Sanggadong", "Simbuhay", "Simone", "Tamped",
+  ],
+  Olongapo: [
+    "Asinan", "Banicain", "Barretto", "East Bajac-bajac", "East Tapinac", "Gordon Heights", "Kalaklan", "Mabayuan",
+    "New Cabalan", "New Ilalim", "New Kababae", "New Kalalake", "Old Cabalan", "Pag-asa", "Santa Rita",
+    "West Bajac-bajac", "West Tapinac",
+  ],
+  Ormoc: [
+    "Airport", "Alegria", "Alta Vista", "Bagong", "Bagong Buhay", "Bantigue", "Barangay East", "Barangay North",
+    "Barangay South", "Barangay West", "Batuan", "Bayog", "Biliboy", "Borok", "Cabaon-an", "Cabintan", "Cabulihan",
+    "Cagbuhangin", "Camp Downes", "Can-adieng", "Can-untog", "Catmon", "Cogon Combado", "Concepcion", "Curva", "Danao",
+    "Danhug", "Dayhagan", "Dolores", "Domonar", "Don Felipe Larrazabal", "Don Potenciano Larrazabal", "Donghol",
+    "Doña Feliza Z. Mejia", "Esperanza", "Gaas", "Green Valley", "Guintigui-an", "Hibunawon", "Hugpa", "Ipil", "Juaton",
+    "Kadaohan", "Labrador", "Lao", "Leondoni", "Libertad", "Liberty", "Licuma", "Liloan", "Linao", "Luna", "Mabato",
+    "Mabini", "Macabug", "Magaswi", "Mahayag", "Mahayahay", "Manlilinao", "Margen", "Mas-in", "Matica-a", "Milagro",
+    "Monterico", "Nasunogan", "Naungan", "Nueva Sociedad", "Nueva Vista", "Patag", "Punta", "Quezon, Jr.",
+    "Rufina M. Tan", "Sabang Bao", "Salvacion", "San Antonio", "San Isidro", "San Jose", "San Juan", "San Pablo",
+    "San Vicente", "Santo Niño", "Sumangga", "Tambulilid", "Tongonan", "Valencia",
+  ],
+  Pahamuddin: [
+    "Balacayon", "Buricain", "Datu Binasing", "Datu Mantil", "Kadingilan", "Libungan Torreta", "Lower Baguer",
+    "Lower Pangangkalan", "Matilac", "Patot", "Simsiman", "Upper Pangangkalan",
+  ],
+  "Parañaque": [
+    "B. F. Homes", "Baclaran", "Don Bosco", "Don Galo", "La Huerta", "Marcelo Green Village", "Merville", "Moonwalk",
+    "San Antonio", "San Dionisio", "San Isidro", "San Martin De Porres", "Santo Niño", "Sun Valley", "Tambo", "Vitalez",
+  ],
+  Pasay: [
+    "Barangay 1", "Barangay 2", "Barangay 3", "Barangay 4", "Barangay 5", "Barangay 6", "Barangay 7", "Barangay 8",
+    "Barangay 9", "Barangay 10", "Barangay 11", "Barangay 12", "Barangay 13", "Barangay 14", "Barangay 15",
+    "Barangay 16", "Barangay 17", "Barangay 18", "Barangay 19", "Barangay 20", "Barangay 21", "Barangay 22",
+    "Barangay 23", "Barangay 24", "Barangay 25", "Barangay 26", "Barangay 27", "Barangay 28", "Barangay 29",
+    "Barangay 30", "Barangay 31", "Barangay 32", "Barangay 33", "Barangay 34", "Barangay 35", "Barangay 36",
+    "Barangay 37", "Barangay 38", "Barangay 39", "Barangay 40", "Barangay 41", "Barangay 42", "Barangay 43",
+    "Barangay 44", "Barangay 45", "Barangay 46", "Barangay 47", "Barangay 48", "Barangay 49", "Barangay 50",
+    "Barangay 51", "Barangay 52", "Barangay 53", "Barangay 54", "Barangay 55", "Barangay 56", "Barangay 57",
+    "Barangay 58", "Barangay 59", "Barangay 60", "Barangay 61", "Barangay 62", "Barangay 63", "Barangay 64",
+    "Barangay 65", "Barangay 66", "Barangay 67", "Barangay 68", "Barangay 69", "Barangay 70", "Barangay 71",
+    "Barangay 72", "Barangay 73", "Barangay 74", "Barangay 75", "Barangay 76", "Barangay 77", "Barangay 78",
+    "Barangay 79", "Barangay 80", "Barangay 81", "Barangay 82", "Barangay 83", "Barangay 84", "Barangay 85",
+    "Barangay 86", "Barangay 87", "Barangay 88", "Barangay 89", "Barangay 90", "Barangay 91", "Barangay 92",
+    "Barangay 93", "Barangay 94", "Barangay 95", "Barangay 96", "Barangay 97", "Barangay 98", "Barangay 99",
+    "Barangay 100", "Barangay 101", "Barangay 102", "Barangay 103", "Barangay 104", "Barangay 105", "Barangay 106",
+    "Barangay 107", "Barangay 108", "Barangay 109", "Barangay 110", "Barangay 111", "Barangay 112", "Barangay 113",
+    "Barangay 114", "Barangay 115", "Barangay 116", "Barangay 117", "Barangay 118", "Barangay 119", "Barangay 120",
+    "Barangay 121", "Barangay 122", "Barangay 123", "Barangay 124", "Barangay 125", "Barangay 126", "Barangay 127",
+    "Barangay 128", "Barangay 129", "Barangay 130", "Barangay 131", "Barangay 132", "Barangay 133", "Barangay 134",
+    "Barangay 135", "Barangay 136", "Barangay 137", "Barangay 138", "Barangay 139", "Barangay 140", "Barangay 141",
+    "Barangay 142", "Barangay 143", "Barangay 144", "Barangay 145", "Barangay 146", "Barangay 147", "Barangay 148",
+    "Barangay 149", "Barangay 150", "Barangay 151", "Barangay 152", "Barangay 153", "Barangay 154", "Barangay 155",
+    "Barangay 156", "Barangay 157", "Barangay 158", "Barangay 159", "Barangay 160", "Barangay 161", "Barangay 162",
+    "Barangay 163", "Barangay 164", "Barangay 165", "Barangay 166", "Barangay 167", "Barangay 168", "Barangay 169",
+    "Barangay 170", "Barangay 171", "Barangay 172", "Barangay 173", "Barangay 174", "Barangay 175", "Barangay 176",
+    "Barangay 177", "Barangay 178", "Barangay 179", "Barangay 180", "Barangay 181", "Barangay 182", "Barangay 183",
+    "Barangay 184", "Barangay 185", "Barangay 186", "Barangay 187", "Barangay 188", "Barangay 189", "Barangay 190",
+    "Barangay 191", "Barangay 192", "Barangay 193", "Barangay 194", "Barangay 195", "Barangay 196", "Barangay 197",
+    "Barangay 198", "Barangay 199", "Barangay 200", "Barangay 201",
+  ],
+  Pasig: [
+    "Bagong Ilog", "Bagong Katipunan", "Bambang", "Buting", "Caniogan", "Dela Paz", "Kalawaan", "Kapasigan",
+    "Kapitolyo", "Malinao", "Manggahan", "Maybunga", "Oranbo", "Palatiw", "Pinagbuhatan", "Pineda", "Rosario", "Sagad",
+    "San Antonio", "San Joaquin", "San Jose", "San Miguel", "San Nicolas", "Santa Cruz", "Santa Lucia", "Santa Rosa",
+    "Santo Tomas", "Santolan", "Sumilang", "Ugong",
+  ],
+  Pateros: [
+    "Aguho", "Magtanggol", "Martires Del 96", "Poblacion", "San Pedro", "San Roque", "Santa Ana",
+    "Santo Rosario-Kanluran", "Santo Rosario-Silangan", "Tabacalera",
+  ],
+  "Puerto Princesa": [
+    "Babuyan", "Bacungan", "Bagong Bayan", "Bagong Pag-Asa", "Bagong Sikat", "Bagong Silang", "Bahile", "Bancao-bancao",
+    "Binduyan", "Buenavista", "Cabayugan", "Concepcion", "Inagawan", "Inagawan Sub-Colony", "Irawan", "Iwahig",
+    "Kalipay", "Kamuning", "Langogan", "Liwanag", "Lucbuan", "Luzviminda", "Mabuhay", "Macarascas", "Magkakaibigan",
+    "Maligaya", "Manalo", "Mandaragat", "Manggahan", "Mangingisda", "Maningning", "Maoyon", "Marufinas", "Maruyogon",
+    "Masigla", "Masikap", "Masipag", "Matahimik", "Matiyaga", "Maunlad", "Milagrosa", "Model", "Montible", "Napsan",
+    "New Panggangan", "Pagkakaisa", "Princesa", "Salvacion", "San Jose", "San Manuel", "San Miguel", "San Pedro",
+    "San Rafael", "Santa Cruz", "Santa Lourdes", "Santa Lucia", "Santa Monica", "Seaside", "Sicsican", "Simpocan",
+    "Tagabinit", "Tagburos", "Tagumpay", "Tanabag", "Tanglaw", "Tiniguiban",
+  ],
+  "Quezon City": [
+    "Alicia", "Amihan", "Apolonio Samson", "Aurora", "Baesa", "Bagbag", "Bagong Lipunan Ng Crame", "Bagong Pag-asa",
+    "Bagong Silangan", "Bagumbayan", "Bagumbuhay", "Bahay Toro", "Balingasa", "Balong Bato", "Batasan Hills",
+    "Bayanihan", "Blue Ridge A", "Blue Ridge B", "Botocan", "Bungad", "Camp Aguinaldo", "Capri", "Central", "Claro",
+    "Commonwealth", "Culiat", "Damar", "Damayan", "Damayang Lagi", "Del Monte", "Dioquino Zobel", "Don Manuel",
+    "Doña Imelda", "Doña Josefa", "Duyan-duyan", "E. Rodriguez", "East Kamias", "Escopa I", "Escopa II", "Escopa III",
+    "Escopa IV", "Fairview", "Greater Lagro", "Gulod", "Holy Spirit", "Horseshoe", "Immaculate Concepcion",
+    "Kaligayahan", "Kalusugan", "Kamuning", "Katipunan", "Kaunlaran", "Kristong Hari", "Krus Na Ligas", "Laging Handa",
+    "Libis", "Lourdes", "Loyola Heights", "Maharlika", "Malaya", "Mangga", "Manresa", "Mariana", "Mariblo", "Marilag",
+    "Masagana", "Masambong", "Matandang Balara", "Milagrosa", "N.S. Amoranto", "Nagkaisang Nayon", "Nayong Kanluran",
+    "New Era", "North Fairview", "Novaliches Proper", "Obrero", "Old Capitol Site", "Paang Bundok", "Pag-ibig Sa Nayon",
+    "Paligsahan", "Paltok", "Pansol", "Paraiso", "Pasong Putik Proper", "Pasong Tamo", "Payatas", "Phil-Am",
+    "Pinagkaisahan", "Pinyahan", "Project 6", "Quirino 2-A", "Quirino 2-B", "Quirino 2-C", "Quirino 3-A",
+    "Ramon Magsaysay", "Roxas", "Sacred Heart", "Saint Ignatius", "Saint Peter", "Salvacion", "San Agustin",
+    "San Antonio", "San Bartolome", "San Isidro", "San Isidro Labrador", "San Jose", "San Martin De Porres",
+    "San Roque", "San Vicente", "Sangandaan", "Santa Cruz", "Santa Lucia", "Santa Monica", "Santa Teresita",
+    "Santo Cristo", "Santo Domingo", "Santo Niño", "Santol", "Sauyo", "Sienna", "Sikatuna Village", "Silangan",
+    "Socorro", "South Triangle", "Tagumpay", "Talayan", "Talipapa", "Tandang Sora", "Tatalon", "Teachers Village East",
+    "Teachers Village West", "U.P. Campus", "U.P. Village", "Ugong Norte", "Unang Sigaw", "Valencia", "Vasra",
+    "Veterans Village", "Villa Maria Clara", "West Kamias", "West Triangle", "White Plains",
+  ],
+  "San Juan": [
+    "Addition Hills", "Balong-Bato", "Batis", "Corazon De Jesus", "Ermitaño", "Greenhills", "Halo-halo", "Isabelita",
+    "Kabayanan", "Little Baguio", "Maytunas", "Onse", "Pasadeña", "Pedro Cruz", "Progreso", "Rivera", "Salapan",
+    "San Perfecto", "Santa Lucia", "Tibagan", "West Crame",
+  ],
+  Santiago: [
+    "Abra", "Ambalatungan", "Balintocatoc", "Baluarte", "Bannawag Norte", "Batal", "Buenavista", "Cabulay",
+    "Calao East", "Calao West", "Calaocan", "Centro East", "Centro West", "Divisoria", "Dubinan East", "Dubinan West",
+    "Luna", "Mabini", "Malvar", "Nabbuan", "Naggasican", "Patul", "Plaridel", "Rizal", "Rosario", "Sagana", "Salvador",
+    "San Andres", "San Isidro", "San Jose", "Santa Rosa", "Sinili", "Sinsayon", "Victory Norte", "Victory Sur",
+    "Villa Gonzaga", "Villasis",
+  ],
+  Tacloban: [
+    "Barangay 2", "Barangay 5", "Barangay 5-A", "Barangay 6", "Barangay 6-A", "Barangay 7", "Barangay 8",
+    "Barangay 8-A", "Barangay 12", "Barangay 13", "Barangay 14", "Barangay 15", "Barangay 16", "Barangay 17",
+    "Barangay 18", "Barangay 19", "Barangay 20", "Barangay 21", "Barangay 21-A", "Barangay 22", "Barangay 23",
+    "Barangay 23-A", "Barangay 24", "Barangay 25", "Barangay 26", "Barangay 27", "Barangay 28", "Barangay 29",
+    "Barangay 30", "Barangay 31", "Barangay 32", "Barangay 33", "Barangay 34", "Barangay 35", "Barangay 35-A",
+    "Barangay 36", "Barangay 36-A", "Barangay 37", "Barangay 37-A", "Barangay 38", "Barangay 39", "Barangay 40",
+    "Barangay 41", "Barangay 42", "Barangay 42-A", "Barangay 43", "Barangay 43-A", "Barangay 43-B", "Barangay 44",
+    "Barangay 44-A", "Barangay 45", "Barangay 46", "Barangay 47", "Barangay 48", "Barangay 48-A", "Barangay 48-B",
+    "Barangay 49", "Barangay 50", "Barangay 50-A", "Barangay 50-B", "Barangay 51", "Barangay 51-A", "Barangay 52",
+    "Barangay 53", "Barangay 54", "Barangay 54-A", "Barangay 56", "Barangay 56-A", "Barangay 57", "Barangay 58",
+    "Barangay 59", "Barangay 59-A", "Barangay 59-B", "Barangay 60", "Barangay 60-A", "Barangay 61", "Barangay 62",
+    "Barangay 62-A", "Barangay 62-B", "Barangay 63", "Barangay 64", "Barangay 65", "Barangay 66", "Barangay 66-A",
+    "Barangay 67", "Barangay 68", "Barangay 69", "Barangay 70", "Barangay 71", "Barangay 72", "Barangay 73",
+    "Barangay 74", "Barangay 75", "Barangay 76", "Barangay 77", "Barangay 78", "Barangay 79", "Barangay 80",
+    "Barangay 81", "Barangay 82", "Barangay 83", "Barangay 83-A", "Barangay 83-B", "Barangay 83-C", "Barangay 84",
+    "Barangay 85", "Barangay 86", "Barangay 87", "Barangay 88", "Barangay 89", "Barangay 90", "Barangay 91",
+    "Barangay 92", "Barangay 93", "Barangay 94", "Barangay 94-A", "Barangay 95", "Barangay 95-A", "Barangay 96",
+    "Barangay 97", "Barangay 98", "Barangay 99", "Barangay 100", "Barangay 101", "Barangay 102", "Barangay 103",
+    "Barangay 103-A", "Barangay 104", "Barangay 105", "Barangay 106", "Barangay 107", "Barangay 108", "Barangay 109",
+    "Barangay 109-A", "Barangay 110", "El Reposo", "Libertad", "Nula-tula",
+  ],
+  Taguig: [
+    "Bagumbayan", "Bambang", "Calzada", "Cembo", "Central Bicutan", "Central Signal Village", "Comembo", "East Rembo",
+    "Fort Bonifacio", "Hagonoy", "Ibayo-Tipas", "Katuparan", "Ligid-Tipas", "Lower Bicutan", "Maharlika Village",
+    "Napindan", "New Lower Bicutan", "North Daang Hari", "North Signal Village", "Palingon", "Pembo", "Pinagsama",
+    "Pitogo", "Post Proper Northside", "Post Proper Southside", "Rizal", "San Miguel", "Santa Ana", "South Cembo",
+    "South Daang Hari", "South Signal Village", "Tanyag", "Tuktukan", "Upper Bicutan", "Ususan", "Wawa", "West Rembo",
+    "Western Bicutan",
+  ],
+  Tugunan: [
+    "Balong", "Bualan", "Lagunde", "Macabual", "Macasendeg", "Manaulanan", "Pamalian", "Panicupan", "Tapodoc",
+  ],
+  Valenzuela: [
+    "Arkong Bato", "Bagbaguin", "Balangkas", "Bignay", "Bisig", "Canumay East", "Canumay West", "Coloong", "Dalandanan",
+    "Gen. T. De Leon", "Isla", "Karuhatan", "Lawang Bato", "Lingunan", "Mabolo", "Malanday", "Malinta", "Mapulang Lupa",
+    "Marulas", "Maysan", "Palasan", "Parada", "Pariancillo Villa", "Paso De Blas", "Pasolo", "Poblacion", "Pulo",
+    "Punturin", "Rincon", "Tagalag", "Ugong", "Viente Reales", "Wawang Pulo",
+  ],
+  "Zamboanga City": [
+    "Arena Blanco", "Ayala", "Baliwasan", "Baluno", "Barangay Zone I", "Barangay Zone II", "Barangay Zone III",
+    "Barangay Zone IV", "Boalan", "Bolong", "Buenavista", "Bunguiao", "Busay", "Cabaluay", "Cabatangan", "Cacao",
+    "Calabasa", "Calarian", "Camino Nuevo", "Campo Islam", "Canelar", "Capisan", "Cawit", "Culianan", "Curuan", "Dita",
+    "Divisoria", "Dulian (Upper Bunguiao)", "Dulian (Upper Pasonanca)", "Guisao", "Guiwan", "Kasanyangan", "La Paz",
+    "Labuan", "Lamisahan", "Landang Gua", "Landang Laum", "Lanzones", "Lapakan", "Latuan", "Licomo", "Limaong",
+    "Limpapa", "Lubigan", "Lumayang", "Lumbangan", "Lunzuran", "Maasin", "Malagutay", "Mampang", "Manalipa", "Mangusu",
+    "Manicahan", "Mariki", "Mercedes", "Muti", "Pamucutan", "Pangapuyan", "Panubigan", "Pasilmanta", "Pasobolong",
+    "Pasonanca", "Patalon", "Putik", "Quiniput", "Recodo", "Rio Hondo", "Salaan", "San Jose Cawa-cawa", "San Jose Gusu",
+    "San Roque", "Sangali", "Santa Barbara", "Santa Catalina", "Santa Maria", "Santo Niño", "Sibulao", "Sinubung",
+    "Sinunoc", "Tagasilay", "Taguiti", "Talabaan", "Talisayan", "Talon-talon", "Taluksangay", "Tetuan", "Tictapul",
+    "Tigbalabag", "Tigtabon", "Tolosa", "Tugbungan", "Tulungatung", "Tumaga", "Tumalutab", "Tumitus", "Victoria",
+    "Vitali", "Zambowood",
+  ],
+}
@@ -0,0 +1,100 @@
+/**
+ * Barangays of every city and municipality, generated from the Philippine
+ * Standard Geographic Code (PSA, 2nd quarter 2025). There are over 42,000,
+ * so each province is its own chunk, loaded when a post names a town in it;
+ * cities and municipalities outside any province share one chunk.
+ * Independent cities inside a province, like Santiago in Isabela, are in both.
+ */
+
+/** Barangay names by town, keyed by the name `PROVINCE_LOCALITIES` uses. */
+export type TownBarangays = Record<string, string[]>
+
+type BarangayChunk = () => Promise<{ BARANGAYS: TownBarangays }>
+
+export const PROVINCE_BARANGAYS: Record<string, BarangayChunk> = {
+  Abra: () => import("./abra"),
+  "Agusan del Norte": () => import("./agusan-del-norte"),
+  "Agusan del Sur": () => import("./agusan-del-sur"),
+  Aklan: () => import("./aklan"),
+  Albay: () => import("./albay"),
+  Antique: () => import("./antique"),
+  Apayao: () => import("./apayao"),
+  Aurora: () => import("./aurora"),
+  Basilan: () => import("./basilan"),
+  Bataan: () => import("./bataan"),
+  Batanes: () => import("./batanes"),
+  Batangas: () => import("./batangas"),
+  Benguet: () => import("./benguet"),
+  Biliran: () => import("./biliran"),
+  Bohol: () => import("./bohol"),
+  Bukidnon: () => import("./bukidnon"),
+  Bulacan: () => import("./bulacan"),
+  Cagayan: () => import("./cagayan"),
+  "Camarines Norte": () => import("./camarines-norte"),
+  "Camarines Sur": () => import("./camarines-sur"),
+  Camiguin: () => import("./camiguin"),
+  Capiz: () => import("./capiz"),
+  Catanduanes: () => import("./catanduanes"),
+  Cavite: () => import("./cavite"),
+  Cebu: () => import("./cebu"),
+  Cotabato: () => import("./cotabato"),
+  "Davao Occidental": () => import("./davao-occidental"),
+  "Davao Oriental": () => import("./davao-oriental"),
+  "Davao de Oro": () => import("./davao-de-oro"),
+  "Davao del Norte": () => import("./davao-del-norte"),
+  "Davao del Sur": () => import("./davao-del-sur"),
+  "Dinagat Islands": () => import("./dinagat-islands"),
+  "Eastern Samar": () => import("./eastern-samar"),
+  Guimaras: () => import("./guimaras"),
+  Ifugao: () => import("./ifugao"),
+  "Ilocos Norte": () => import("./ilocos-norte"),
+  "Ilocos Sur": () => import("./ilocos-sur"),
+  Iloilo: () => import("./iloilo"),
+  Isabela: () => import("./isabela"),
+  Kalinga: () => import("./kalinga"),
+  "La Union": () => import("./la-union"),
+  Laguna: () => import("./laguna"),
+  "Lanao del Norte": () => import("./lanao-del-norte"),
+  "Lanao del Sur": () => import("./lanao-del-sur"),
+  Leyte: () => import("./leyte"),
+  "Maguindanao del Norte": () => import("./maguindanao-del-norte"),
+  "Maguindanao del Sur": () => import("./maguindanao-del-sur"),
+  Marinduque: () => import("./marinduque"),
+  Masbate: () => import("./masbate"),
+  "Misamis Occidental": () => import("./misamis-occidental"),
+  "Misamis Oriental": () => import("./misamis-oriental"),
+  "Mountain Province": () => import("./mountain-province"),
+  "Negros Occidental": () => import("./negros-occidental"),
+  "Negros Oriental": () => import("./negros-oriental"),
+  "Northern Samar": () => import("./northern-samar"),
+  "Nueva Ecija": () => import("./nueva-ecija"),
+  "Nueva Vizcaya": () => import("./nueva-vizcaya"),
+  "Occidental Mindoro": () => import("./occidental-mindoro"),
+  "Oriental Mindoro": () => import("./oriental-mindoro"),
+  Palawan: () => import("./palawan"),
+  Pampanga: () => import("./pampanga"),
+  Pangasinan: () => import("./pangasinan"),
+  Quezon: () => import("./quezon"),
+  Quirino: () => import("./quirino"),
+  Rizal: () => import("./rizal"),
+  Romblon: () => import("./romblon"),
+  Samar: () => import("./samar"),
+  Sarangani: () => import("./sarangani"),
+  Siquijor: () => import("./siquijor"),
+  Sorsogon: () => import("./sorsogon"),
+  "South Cotabato": () => import("./south-cotabato"),
+  "Southern Leyte": () => import("./southern-leyte"),
+  "Sultan Kudarat": () => import("./sultan-kudarat"),
+  Sulu: () => import("./sulu"),
+  "Surigao del Norte": () => import("./surigao-del-norte"),
+  "Surigao del Sur": () => import("./surigao-del-sur"),
+  Tarlac: () => import("./tarlac"),
+  "Tawi-Tawi": () => import("./tawi-tawi"),
+  Zambales: () => import("./zambales"),
+  "Zamboanga Sibugay": () => import("./zamboanga-sibugay"),
+  "Zamboanga del Norte": () => import("./zamboanga-del-norte"),
+  "Zamboanga del Sur": () => import("./zamboanga-del-sur"),
+}
+
+/** Keyed by the name `INDEPENDENT_CITIES` uses. */
+export const INDEPENDENT_BARANGAYS: BarangayChunk = () => import("./independent")
@@ -0,0 +1,221 @@
+// Barangays of each town in Isabela, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Alicia: [
+    "Amistad", "Antonino", "Apanay", "Aurora", "Bagnos", "Bagong Sikat", "Bantug-Petines", "Bonifacio", "Burgos",
+    "Calaocan", "Callao", "Dagupan", "Inanama", "Linglingay", "M.H. del Pilar", "Mabini", "Magsaysay",
+    "Mataas na Kahoy", "Paddad", "Rizal", "Rizaluna", "Salvacion", "San Antonio", "San Fernando", "San Francisco",
+    "San Juan", "San Pablo", "San Pedro", "Santa Cruz", "Santa Maria", "Santo Domingo", "Santo Tomas", "Victoria",
+    "Zamora",
+  ],
+  Angadanan: [
+    "Allangigan", "Aniog", "Baniket", "Bannawag", "Bantug", "Barangcuag", "Baui", "Bonifacio", "Buenavista", "Bunnay",
+    "Calabayan-Minanga", "Calaccab", "Calaocan", "Campanario", "Canangan", "Centro I", "Centro II", "Centro III",
+    "Consular", "Cumu", "Dalakip", "Dalenat", "Dipaluda", "Duroc", "Esperanza", "Fugaru", "Ingud Norte", "Ingud Sur",
+    "Kalusutan", "La Suerte", "Liwliwa", "Lomboy", "Loria", "Lourdes", "Mabuhay", "Macalauat", "Macaniao", "Malannao",
+    "Malasin", "Mangandingay", "Minanga Proper", "Pappat", "Pissay", "Ramona", "Rancho Bassit", "Rang-ayan", "Salay",
+    "San Ambrocio", "San Guillermo", "San Isidro", "San Marcelo", "San Roque", "San Vicente", "Santo Niño", "Saranay",
+    "Sinabbaran", "Victory", "Viga", "Villa Domingo",
+  ],
+  Aurora: [
+    "Apiat", "Bagnos", "Bagong Tanza", "Ballesteros", "Bannagao", "Bannawag", "Bolinao", "Caipilan", "Camarunggayan",
+    "Dalig Kalinga", "Diamantina", "Divisoria", "Esperanza East", "Esperanza West", "Kalabaza", "Macatal", "Malasin",
+    "Nampicuan", "Panecien", "Rizalina", "San Andres", "San Jose", "San Juan", "San Pedro-San Pablo", "San Rafael",
+    "San Ramon", "Santa Rita", "Santa Rosa", "Saranay", "Sili", "Victoria", "Villa Fugu", "Villa Nuesa",
+  ],
+  "Benito Soliven": [
+    "Andabuen", "Ara", "Balliao", "Binogtungan", "Capuseran", "Dagupan", "Danipa", "District I", "District II", "Gomez",
+    "Guilingan", "La Salette", "Lucban", "Makindol", "Maluno Norte", "Maluno Sur", "Nacalma", "New Magsaysay", "Placer",
+    "Punit", "San Carlos", "San Francisco", "Santa Cruz", "Santiago", "Sevillana", "Sinipit", "Villaluz", "Yeban Norte",
+    "Yeban Sur",
+  ],
+  Burgos: [
+    "Bacnor East", "Bacnor West", "Caliguian", "Catabban", "Cullalabo Del Norte", "Cullalabo Del Sur",
+    "Cullalabo San Antonio", "Dalig", "Malasin", "Masigun", "Raniag", "San Bonifacio", "San Miguel", "San Roque",
+  ],
+  Cabagan: [
+    "Aggub", "Anao", "Angancasilian", "Balasig", "Cansan", "Casibarag Norte", "Casibarag Sur", "Catabayungan", "Centro",
+    "Cubag", "Garita", "Luquilu", "Mabangug", "Magassi", "Masipi East", "Masipi West", "Ngarag", "Pilig Abajo",
+    "Pilig Alto", "San Antonio", "San Bernardo", "San Juan", "Saui", "Tallag", "Ugad", "Union",
+  ],
+  Cabatuan: [
+    "Calaocan", "Canan", "Centro", "Culing Centro", "Culing East", "Culing West", "Del Corpuz", "Del Pilar",
+    "Diamantina", "La Paz", "Luzon", "Macalaoat", "Magdalena", "Magsaysay", "Namnama", "Nueva Era", "Paraiso",
+    "Rang-ay", "Sampaloc", "San Andres", "Saranay", "Tandul",
+  ],
+  Cauayan: [
+    "Alicaocao", "Alinam", "Amobocan", "Andarayan", "Baculod", "Baringin Norte", "Baringin Sur", "Buena Suerte",
+    "Bugallon", "Buyon", "Cabaruan", "Cabugao", "Carabatan Bacareno", "Carabatan Chica", "Carabatan Grande",
+    "Carabatan Punta", "Casalatan", "Cassap Fuera", "Catalina", "Culalabat", "Dabburab", "De Vera", "Dianao",
+    "Disimuray", "District I", "District II", "District III", "Duminit", "Faustino", "Gagabutan", "Gappal", "Guayabal",
+    "Labinab", "Linglingay", "Mabantad", "Maligaya", "Manaoag", "Marabulig I", "Marabulig II", "Minante I",
+    "Minante II", "Naganacan", "Nagcampegan", "Nagrumbuan", "Nungnungan I", "Nungnungan II", "Pinoma", "Rizal", "Rogus",
+    "San Antonio", "San Fermin", "San Francisco", "San Isidro", "San Luis", "San Pablo", "Santa Luciana", "Santa Maria",
+    "Sillawit", "Sinippil", "Tagaran", "Turayong", "Union", "Villa Concepcion", "Villa Luna", "Villaflor",
+  ],
+  Cordon: [
+    "Aguinaldo", "Anonang", "Calimaturod", "Camarao", "Capirpiriwan", "Caquilingan", "Dallao", "Gayong", "Laurel",
+    "Magsaysay", "Malapat", "Osmena", "Quezon", "Quirino", "Rizaluna", "Roxas Pob.", "Sagat", "San Juan", "Taliktik",
+    "Tanggal", "Tarinsing", "Turod Norte", "Turod Sur", "Villamarzo", "Villamiemban", "Wigan",
+  ],
+  "Delfin Albano": [
+    "Aga", "Andarayan", "Aneg", "Bayabo", "Calaocan", "Calinaoan Sur", "Capitol", "Carmencita", "Concepcion", "Maui",
+    "Quibal", "Ragan Almacen", "Ragan Norte", "Ragan Sur", "Rizal", "San Andres", "San Antonio", "San Isidro",
+    "San Jose", "San Juan", "San Macario", "San Nicolas", "San Patricio", "San Roque", "Santor", "Sto. Rosario",
+    "Villa Luz", "Villa Pereda", "Visitacion",
+  ],
+  Dinapigue: [
+    "Ayod", "Bucal Norte", "Bucal Sur", "Dibulo", "Digumased", "Dimaluade",
+  ],
+  Divilacan: [
+    "Bicobian", "Dibulos", "Dicambangan", "Dicaroyan", "Dicatian", "Dilakit", "Dimapnat", "Dimapula", "Dimasalansan",
+    "Dipudo", "Ditarum", "Sapinit",
+  ],
+  Echague: [
+    "Angoluan", "Annafunan", "Arabiat", "Aromin", "Babaran", "Bacradal", "Benguet", "Buneg", "Busilelao", "Cabugao",
+    "Caniguing", "Carulay", "Castillo", "Dammang East", "Dammang West", "Diasan", "Dicaraoyan", "Dugayong", "Fugu",
+    "Garit Norte", "Garit Sur", "Gucab", "Gumbauan", "Ipil", "Libertad", "Mabbayad", "Mabuhay", "Madadamian",
+    "Magleticia", "Malibago", "Maligaya", "Malitao", "Narra", "Nilumisu", "Pag-asa", "Pangal Norte", "Pangal Sur",
+    "Rumang-ay", "Salay", "Salvacion", "San Antonio Minit", "San Antonio Ugad", "San Carlos", "San Fabian",
+    "San Felipe", "San Juan", "San Manuel", "San Miguel", "San Salvador", "Santa Ana", "Santa Cruz", "Santa Maria",
+    "Santa Monica", "Santo Domingo", "Silauan Norte", "Silauan Sur", "Sinabbaran", "Soyung", "Taggappan", "Tuguegarao",
+    "Villa Campo", "Villa Fermin", "Villa Rey", "Villa Victoria",
+  ],
+  Gamu: [
+    "Barcolan", "Buenavista", "Dammao", "District I", "District II", "District III", "Furao", "Guibang", "Lenzon",
+    "Linglingay", "Mabini", "Pintor", "Rizal", "Songsong", "Union", "Upi",
+  ],
+  Ilagan: [
+    "Aggasian", "Alibagu", "Allinguigan 1st", "Allinguigan 2nd", "Allinguigan 3rd", "Arusip", "Baculod",
+    "Bagong Silang", "Bagumbayan", "Baligatan", "Ballacong", "Bangag", "Batong-Labang", "Bigao", "Cabannungan 1st",
+    "Cabannungan 2nd", "Cabeseria 2", "Cabeseria 3", "Cabeseria 4", "Cabeseria 5", "Cabeseria 6 & 24", "Cabeseria 7",
+    "Cabeseria 9 and 11", "Cabeseria 10", "Cabeseria 14 and 16", "Cabeseria 17 and 21", "Cabeseria 19", "Cabeseria 22",
+    "Cabeseria 23", "Cabeseria 25", "Cabeseria 27", "Cadu", "Calamagui 1st", "Calamagui 2nd", "Camunatan", "Capellan",
+    "Capo", "Carikkikan Norte", "Carikkikan Sur", "Centro - San Antonio", "Centro Poblacion", "Fugu", "Fuyo",
+    "Gayong-Gayong Norte", "Gayong-Gayong Sur", "Guinatan", "Imelda Bliss Village", "Lullutan", "Malalam", "Malasin",
+    "Manaring", "Mangcuram", "Marana I", "Marana II", "Marana III", "Minabang", "Morado", "Naguilian Norte",
+    "Naguilian Sur", "Namnama", "Nanaguan", "Osmeña", "Paliueg", "Pasa", "Pilar", "Quimalabasa", "Rang-ayan", "Rugao",
+    "Salindingan", "San Andres", "San Felipe", "San Ignacio", "San Isidro", "San Juan", "San Lorenzo", "San Pablo",
+    "San Rodrigo", "San Vicente", "Santa Barbara", "Santa Catalina", "Santa Isabel Norte", "Santa Isabel Sur",
+    "Santa Maria", "Santa Victoria", "Santo Tomas", "Siffu", "Sindon Bayabo", "Sindon Maride", "Sipay", "Tangcul",
+    "Villa Imelda",
+  ],
+  Jones: [
+    "Abulan", "Addalam", "Arubub", "Bannawag", "Bantay", "Barangay I", "Barangay II", "Barangcuag", "Dalibubon",
+    "Daligan", "Diarao", "Dibuluan", "Dicamay I", "Dicamay II", "Dipangit", "Disimpit", "Divinan", "Dumawing", "Fugu",
+    "Lacab", "Linamanan", "Linomot", "Malannit", "Minuri", "Namnama", "Napaliong", "Palagao", "Papan Este",
+    "Papan Weste", "Payac", "Pungpongan", "San Antonio", "San Isidro", "San Jose", "San Roque", "San Sebastian",
+    "San Vicente", "Santa Isabel", "Santo Domingo", "Tupax", "Usol", "Villa Bello",
+  ],
+  Luna: [
+    "Bustamante", "Centro 1", "Centro 2", "Centro 3", "Concepcion", "Dadap", "Harana", "Lalog 1", "Lalog 2", "Luyao",
+    "Macañao", "Macugay", "Mambabanga", "Pulay", "Puroc", "San Isidro", "San Miguel", "Santo Domingo", "Union Kalinga",
+  ],
+  Maconacon: [
+    "Aplaya", "Canadam", "Diana", "Eleanor", "Fely", "Lita", "Malasin", "Minanga", "Reina Mercedes", "Santa Marina",
+  ],
+  Mallig: [
+    "Binmonton", "Casili", "Centro I", "Centro II", "Holy Friday", "Maligaya", "Manano", "Olango", "Rang-ayan",
+    "San Jose Norte I", "San Jose Norte II", "San Jose Sur", "San Pedro", "San Ramon", "Siempre Viva Norte",
+    "Siempre Viva Sur", "Trinidad", "Victoria",
+  ],
+  Naguilian: [
+    "Aguinaldo", "Bagong Sikat", "Burgos", "Cabaruan", "Flores", "La Union", "Magsaysay", "Manaring", "Mansibang",
+    "Minallo", "Minanga", "Palattao", "Quezon", "Quinalabasa", "Quirino", "Rangayan", "Rizal", "Roxas", "San Manuel",
+    "Santa Victoria", "Santo Tomas", "Sunlife", "Surcoc", "Tomines", "Villa Paz",
+  ],
+  Palanan: [
+    "Alomanay", "Bisag", "Culasi", "Dialaoyao", "Dicabisagan East", "Dicabisagan West", "Dicadyuan", "Didaddungan",
+    "Didiyan", "Dimalicu-licu", "Dimasari", "Dimatican", "Maligaya", "Marikit", "San Isidro", "Santa Jacinta",
+    "Villa Robles",
+  ],
+  Quezon: [
+    "Abut", "Alunan", "Arellano", "Aurora", "Barucboc Norte", "Calangigan", "Dunmon", "Estrada", "Lepanto", "Mangga",
+    "Minagbag", "Samonte", "San Juan", "Santos", "Turod",
+  ],
+  Quirino: [
+    "Binarzang", "Cabaruan", "Camaal", "Dolores", "Luna", "Manaoag", "Rizal", "San Isidro", "San Jose", "San Juan",
+    "San Mateo", "San Vicente", "Santa Lucia", "Santiago", "Sinait", "Sta. Catalina", "Sto. Domingo", "Suerte",
+    "Villa Bulusan", "Villa Miguel", "Vintar",
+  ],
+  Ramon: [
+    "Ambatali", "Bantug", "Bugallon Norte", "Bugallon Proper", "Burgos", "General Aguinaldo", "Nagbacalan", "Oscariz",
+    "Pabil", "Pagrang-ayan", "Planas", "Purok ni Bulan", "Raniag", "San Antonio", "San Miguel", "San Sebastian",
+    "Villa Beltran", "Villa Carmen", "Villa Marcos",
+  ],
+  "Reina Mercedes": [
+    "Banquero", "Binarsang", "Cutog Grande", "Cutog Pequeño", "Dangan", "District I", "District II", "Labinab Grande",
+    "Labinab Pequeño", "Mallalatang Grande", "Mallalatang Tunggui", "Nappaccu Grande", "Nappaccu Pequeño", "Sallucong",
+    "Santiago", "Santor", "Sinippil", "Tallungan", "Turod", "Villador",
+  ],
+  Roxas: [
+    "Anao", "Bantug", "Doña Concha", "Imbiao", "Lanting", "Lucban", "Luna", "Marcos", "Masigun", "Matusalem",
+    "Muñoz East", "Muñoz West", "Quiling", "Rang-ayan", "Rizal", "San Antonio", "San Jose", "San Luis", "San Pedro",
+    "San Placido", "San Rafael", "Simimbaan", "Sinamar", "Sotero Nuesa", "Villa Concepcion", "Vira",
+  ],
+  "San Agustin": [
+    "Bautista", "Calaocan", "Dabubu Grande", "Dabubu Pequeño", "Dappig", "Laoag", "Mapalad", "Masaya Centro",
+    "Masaya Norte", "Masaya Sur", "Nemmatan", "Palacian", "Panang", "Quimalabasa Norte", "Quimalabasa Sur", "Rang-ay",
+    "Salay", "San Antonio", "Santo Niño", "Santos", "Sinaoangan Norte", "Sinaoangan Sur", "Virgoneza",
+  ],
+  "San Guillermo": [
+    "Anonang", "Aringay", "Burgos", "Calaoagan", "Centro 1", "Centro 2", "Colorado", "Dietban", "Dingading", "Dipacamo",
+    "Estrella", "Guam", "Nakar", "Palawan", "Progreso", "Rizal", "San Francisco Norte", "San Francisco Sur",
+    "San Mariano Norte", "San Mariano Sur", "San Rafael", "Sinalugan", "Villa Remedios", "Villa Rose", "Villa Sanchez",
+    "Villa Teresita",
+  ],
+  "San Isidro": [
+    "Camarag", "Cebu", "Gomez", "Gud", "Nagbukel", "Patanad", "Quezon", "Ramos East", "Ramos West", "Rizal East",
+    "Rizal West", "Victoria", "Villaflor",
+  ],
+  "San Manuel": [
+    "Agliam", "Babanuang", "Cabaritan", "Caraniogan", "District 1", "District 2", "District 3", "District 4", "Eden",
+    "Malalinta", "Mararigue", "Nueva Era", "Pisang", "San Francisco", "Sandiat Centro", "Sandiat East", "Sandiat West",
+    "Sta. Cruz", "Villanueva",
+  ],
+  "San Mariano": [
+    "Alibadabad", "Balagan", "Binatug", "Bitabian", "Buyasan", "Cadsalan", "Casala", "Cataguing", "Daragutan East",
+    "Daragutan West", "Del Pilar", "Dibuluan", "Dicamay", "Dipusu", "Disulap", "Disusuan", "Gangalan", "Ibujan",
+    "Libertad", "Macayucayu", "Mallabo", "Marannao", "Minanga", "Old San Mariano", "Palutan", "Panninan", "San Jose",
+    "San Pablo", "San Pedro", "Sta. Filomena", "Tappa", "Ueg", "Zamora", "Zone I", "Zone II", "Zone III",
+  ],
+  "San Mateo": [
+    "Bacarreña", "Bagong Sikat", "Barangay I", "Barangay II", "Barangay III", "Barangay IV", "Bella Luz", "Dagupan",
+    "Daramuangan Norte", "Daramuangan Sur", "Estrella", "Gaddanan", "Malasin", "Mapuroc", "Marasat Grande",
+    "Marasat Pequeño", "Old Centro I", "Old Centro II", "Salinungan East", "Salinungan West", "San Andres",
+    "San Antonio", "San Ignacio", "San Manuel", "San Marcos", "San Roque", "Sinamar Norte", "Sinamar Sur", "Victoria",
+    "Villa Cruz", "Villa Gamiao", "Villa Magat", "Villafuerte",
+  ],
+  "San Pablo": [
+    "Annanuman", "Auitan", "Ballacayu", "Binguang", "Bungad", "Caddangan/Limbauan", "Calamagui", "Caralucud", "Dalena",
+    "Guminga", "Minanga Norte", "Minanga Sur", "Poblacion", "San Jose", "Simanu Norte", "Simanu Sur", "Tupa",
+  ],
+  "Santa Maria": [
+    "Bangad", "Buenavista", "Calamagui East", "Calamagui North", "Calamagui West", "Divisoria", "Lingaling",
+    "Mozzozzin North", "Mozzozzin Sur", "Naganacan", "Poblacion 1", "Poblacion 2", "Poblacion 3", "Quinagabian",
+    "San Antonio", "San Isidro East", "San Isidro West", "San Rafael East", "San Rafael West", "Villabuena",
+  ],
+  Santiago: [
+    "Abra", "Ambalatungan", "Balintocatoc", "Baluarte", "Bannawag Norte", "Batal", "Buenavista", "Cabulay",
+    "Calao East", "Calao West", "Calaocan", "Centro East", "Centro West", "Divisoria", "Dubinan East", "Dubinan West",
+    "Luna", "Mabini", "Malvar", "Nabbuan", "Naggasican", "Patul", "Plaridel", "Rizal", "Rosario", "Sagana", "Salvador",
+    "San Andres", "San Isidro", "San Jose", "Santa Rosa", "Sinili", "Sinsayon", "Victory Norte", "Victory Sur",
+    "Villa Gonzaga", "Villasis",
+  ],
+  "Santo Tomas": [
+    "Ammugauan", "Antagan", "Bagabag", "Bagutari", "Balelleng", "Barumbong", "Biga Occidental", "Biga Oriental",
+    "Bolinao-Culalabo", "Bubug", "Calanigan Norte", "Calanigan Sur", "Calinaoan Centro", "Calinaoan Malasin",
+    "Calinaoan Norte", "Cañogan Abajo Norte", "Cañogan Abajo Sur", "Cañogan Alto", "Centro", "Colunguan", "Malapagay",
+    "San Rafael Abajo", "San Rafael Alto", "San Roque", "San Vicente", "Uauang Galicia", "Uauang Tuliao",
+  ],
+  Tumauini: [
+    "Annafunan", "Antagan I", "Antagan II", "Arcon", "Balug", "Banig", "Bantug", "Barangay District 1",
+    "Barangay District 2", "Barangay District 3", "Barangay District 4", "Bayabo East", "Caligayan", "Camasi",
+    "Carpentero", "Compania", "Cumabao", "Fermeldy", "Fugu Abajo", "Fugu Norte", "Fugu Sur", "Lalauanan", "Lanna",
+    "Lapogan", "Lingaling", "Liwanag", "Malamag East", "Malamag West", "Maligaya", "Minanga", "Moldero", "Namnama",
+    "Paragu", "Pilitan", "San Mateo", "San Pedro", "San Vicente", "Santa", "Sinippil", "Sisim Abajo", "Sisim Alto",
+    "Sta. Catalina", "Sta. Visitacion", "Sto. Niño", "Tunggui", "Ugad",
+  ],
+}
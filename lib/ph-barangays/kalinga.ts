@@ -0,0 +1,43 @@
+// Barangays of each town in Kalinga, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Balbalan: [
+    "Ababa-an", "Balantoy", "Balbalan Proper", "Balbalasang", "Buaya", "Dao-angan", "Gawa-an", "Mabaca", "Maling",
+    "Pantikian", "Poblacion", "Poswoy", "Talalang", "Tawang",
+  ],
+  Lubuagan: [
+    "Antonio Canao", "Dangoy", "Lower Uma", "Mabilong", "Mabongtot", "Poblacion", "Tanglag", "Uma del Norte",
+    "Upper Uma",
+  ],
+  Pasil: [
+    "Ableg", "Bagtayan", "Balatoc", "Balenciagao Sur", "Balinciagao Norte", "Cagaluan", "Colayo", "Dalupa", "Dangtalan",
+    "Galdang", "Guina-ang", "Magsilay", "Malucsad", "Pugong",
+  ],
+  Pinukpuk: [
+    "Aciga", "Allaguia", "Ammacian", "Apatan", "Asibanglan", "Ba-ay", "Ballayangon", "Bayao", "Camalog", "Cawagayan",
+    "Dugpa", "Katabbogan", "Limos", "Magaogao", "Malagnat", "Mapaco", "Pakawit", "Pinococ", "Pinukpuk Junction",
+    "Socbot", "Taga", "Taggay", "Wagud",
+  ],
+  Rizal: [
+    "Babalag East", "Babalag West", "Bulbol", "Calaocan", "Kinama", "Liwan East", "Liwan West", "Macutay", "Romualdez",
+    "San Francisco", "San Pascual", "San Pedro", "San Quintin", "Santor",
+  ],
+  Tabuk: [
+    "Agbannawag", "Amlao", "Appas", "Bado Dangwa", "Bagumbayan", "Balawag", "Balong", "Bantay", "Bulanao",
+    "Bulanao Norte", "Bulo", "Cabaritan", "Cabaruan", "Calaccad", "Calanan", "Casigayan", "Cudal", "Dagupan Centro",
+    "Dagupan Weste", "Dilag", "Dupag", "Gobgob", "Guilayon", "Ipil", "Lacnog", "Lacnog West", "Lanna", "Laya East",
+    "Laya West", "Lucog", "Magnao", "Magsaysay", "Malalao", "Malin-awa", "Masablang", "Nambaran", "Nambucayan",
+    "Naneng", "New Tanglag", "San Juan", "San Julian", "Suyang", "Tuga",
+  ],
+  Tanudan: [
+    "Anggacan", "Anggacan Sur", "Babbanoy", "Dacalan", "Dupligan", "Gaang", "Lay-asan", "Lower Lubo", "Lower Mangali",
+    "Lower Taloctoc", "Mabaca", "Mangali Centro", "Pangol", "Poblacion", "Upper Lubo", "Upper Taloctoc",
+  ],
+  Tinglayan: [
+    "Ambato Legleg", "Bangad Centro", "Basao", "Belong Manubal", "Bugnay", "Buscalan", "Butbut", "Dananao", "Loccong",
+    "Lower Bangad", "Luplupa", "Mallango", "Ngibat", "Old Tinglayan", "Poblacion", "Sumadel 1", "Sumadel 2",
+    "Tulgao East", "Tulgao West", "Upper Bangad",
+  ],
+}
@@ -0,0 +1,124 @@
+// Barangays of each town in La Union, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Agoo: [
+    "Ambitacay", "Balawarte", "Capas", "Consolacion", "Macalva Central", "Macalva Norte", "Macalva Sur", "Nazareno",
+    "Purok", "San Agustin East", "San Agustin Norte", "San Agustin Sur", "San Antonino", "San Antonio", "San Francisco",
+    "San Isidro", "San Joaquin Norte", "San Joaquin Sur", "San Jose Norte", "San Jose Sur", "San Juan",
+    "San Julian Central", "San Julian East", "San Julian Norte", "San Julian West", "San Manuel Norte",
+    "San Manuel Sur", "San Marcos", "San Miguel", "San Nicolas Central", "San Nicolas East", "San Nicolas Norte",
+    "San Nicolas Sur", "San Nicolas West", "San Pedro", "San Roque East", "San Roque West", "San Vicente Norte",
+    "San Vicente Sur", "Santa Ana", "Santa Barbara", "Santa Fe", "Santa Maria", "Santa Monica", "Santa Rita",
+    "Santa Rita East", "Santa Rita Norte", "Santa Rita Sur", "Santa Rita West",
+  ],
+  Aringay: [
+    "Alaska", "Basca", "Dulao", "Gallano", "Macabato", "Manga", "Pangao-aoan East", "Pangao-aoan West", "Poblacion",
+    "Samara", "San Antonio", "San Benito Norte", "San Benito Sur", "San Eugenio", "San Juan East", "San Juan West",
+    "San Simon East", "San Simon West", "Santa Cecilia", "Santa Lucia", "Santa Rita East", "Santa Rita West",
+    "Santo Rosario East", "Santo Rosario West",
+  ],
+  Bacnotan: [
+    "Agtipal", "Arosip", "Bacqui", "Bacsil", "Bagutot", "Ballogo", "Baroro", "Bitalag", "Bulala", "Burayoc", "Bussaoit",
+    "Cabaroan", "Cabarsican", "Cabugao", "Calautit", "Carcarmay", "Casiaman", "Galongen", "Guinabang", "Legleg",
+    "Lisqueb", "Mabanengbeng 1st", "Mabanengbeng 2nd", "Maragayap", "Nagatiran", "Nagsaraboan", "Nagsimbaanan",
+    "Nangalisan", "Narra", "Ortega", "Oya-oy", "Paagan", "Pandan", "Pang-pang", "Poblacion", "Quirino", "Raois",
+    "Salincob", "San Martin", "Santa Cruz", "Santa Rita", "Sapilang", "Sayoan", "Sipulo", "Tammocalao", "Ubbog",
+    "Zaragosa",
+  ],
+  Bagulin: [
+    "Alibangsay", "Baay", "Cambaly", "Cardiz", "Dagup", "Libbo", "Suyo", "Tagudtud", "Tio-angan", "Wallayan",
+  ],
+  Balaoan: [
+    "Almeida", "Antonino", "Apatut", "Ar-arampang", "Baracbac Este", "Baracbac Oeste", "Bet-ang", "Bulbulala", "Bungol",
+    "Butubut Este", "Butubut Norte", "Butubut Oeste", "Butubut Sur", "Cabuaan Oeste", "Calliat", "Calungbuyan",
+    "Camiling", "Dr. Camilo Osias Pob.", "Guinaburan", "Masupe", "Nagsabaran Norte", "Nagsabaran Sur", "Nalasin",
+    "Napaset", "Pa-o", "Pagbennecan", "Pagleddegan", "Pantar Norte", "Pantar Sur", "Paraoir", "Patpata", "Sablut",
+    "San Pablo", "Sinapangan Norte", "Sinapangan Sur", "Tallipugo",
+  ],
+  Bangar: [
+    "Agdeppa", "Alzate", "Bangaoilan East", "Bangaoilan West", "Barraca", "Cadapli", "Caggao", "Central East No. 1",
+    "Central East No. 2", "Central West No. 1", "Central West No. 2", "Central West No. 3", "Consuegra",
+    "General Prim East", "General Prim West", "General Terrero", "Luzong Norte", "Luzong Sur", "Maria Cristina East",
+    "Maria Cristina West", "Mindoro", "Nagsabaran", "Paratong No. 3", "Paratong No. 4", "Paratong Norte", "Quintarong",
+    "Reyna Regente", "Rissing", "San Blas", "San Cristobal", "Sinapangan Norte", "Sinapangan Sur", "Ubbog",
+  ],
+  Bauang: [
+    "Acao", "Baccuit Norte", "Baccuit Sur", "Bagbag", "Ballay", "Bawanta", "Boy-utan", "Bucayab", "Cabalayangan",
+    "Cabisilan", "Calumbaya", "Carmay", "Casilagan", "Central East", "Central West", "Dili", "Disso-or", "Guerrero",
+    "Lower San Agustin", "Nagrebcan", "Pagdalagan Sur", "Palintucang", "Palugsi-Limmansangan", "Parian Este",
+    "Parian Oeste", "Paringao", "Payocpoc Norte Este", "Payocpoc Norte Oeste", "Payocpoc Sur", "Pilar", "Pottot",
+    "Pudoc", "Pugo", "Quinavite", "Santa Monica", "Santiago", "Taberna", "Upper San Agustin", "Urayong",
+  ],
+  Burgos: [
+    "Agpay", "Bilis", "Caoayan", "Dalacdac", "Delles", "Imelda", "Libtong", "Linuan", "Lower Tumapoc", "New Poblacion",
+    "Old Poblacion", "Upper Tumapoc",
+  ],
+  Caba: [
+    "Bautista", "Gana", "Juan Cartas", "Las-ud", "Liquicia", "Poblacion Norte", "Poblacion Sur", "San Carlos",
+    "San Cornelio", "San Fermin", "San Gregorio", "San Jose", "Santiago Norte", "Santiago Sur", "Sobredillo", "Urayong",
+    "Wenceslao",
+  ],
+  Luna: [
+    "Alcala", "Ayaoan", "Barangobong", "Barrientos", "Bungro", "Buselbusel", "Cabalitocan", "Cantoria No. 1",
+    "Cantoria No. 2", "Cantoria No. 3", "Cantoria No. 4", "Carisquis", "Darigayos", "Magallanes", "Magsiping", "Mamay",
+    "Nagrebcan", "Nalvo Norte", "Nalvo Sur", "Napaset", "Oaqui No. 1", "Oaqui No. 2", "Oaqui No. 3", "Oaqui No. 4",
+    "Pila", "Pitpitac", "Rimos No. 1", "Rimos No. 2", "Rimos No. 3", "Rimos No. 4", "Rimos No. 5", "Rissing", "Salcedo",
+    "Santo Domingo Norte", "Santo Domingo Sur", "Sucoc Norte", "Sucoc Sur", "Suyo", "Tallaoen", "Victoria",
+  ],
+  Naguilian: [
+    "Aguioas", "Al-alinao Norte", "Al-alinao Sur", "Ambaracao Norte", "Ambaracao Sur", "Angin", "Balecbec", "Bancagan",
+    "Baraoas Norte", "Baraoas Sur", "Bariquir", "Bato", "Bimmotobot", "Cabaritan Norte", "Cabaritan Sur", "Casilagan",
+    "Dal-lipaoen", "Daramuangan", "Guesset", "Gusing Norte", "Gusing Sur", "Imelda", "Lioac Norte", "Lioac Sur",
+    "Magungunay", "Mamat-ing Norte", "Mamat-ing Sur", "Nagsidorisan", "Natividad", "Ortiz", "Ribsuan", "San Antonio",
+    "San Isidro", "Sili", "Suguidan Norte", "Suguidan Sur", "Tuddingan",
+  ],
+  Pugo: [
+    "Ambalite", "Ambangonan", "Cares", "Cuenca", "Duplas", "Maoasoas Norte", "Maoasoas Sur", "Palina", "Poblacion East",
+    "Poblacion West", "San Luis", "Saytan", "Tavora East", "Tavora Proper",
+  ],
+  Rosario: [
+    "Alipang", "Ambangonan", "Amlang", "Bacani", "Bangar", "Bani", "Benteng-Sapilang", "Cadumanian", "Camp One",
+    "Carunuan East", "Carunuan West", "Casilagan", "Cataguingtingan", "Concepcion", "Damortis", "Gumot-Nagcolaran",
+    "Inabaan Norte", "Inabaan Sur", "Marcos", "Nagtagaan", "Nangcamotian", "Parasapas", "Poblacion East",
+    "Poblacion West", "Puzon", "Rabon", "San Jose", "Subusub", "Tabtabungao", "Tanglag", "Tay-ac", "Udiao", "Vila",
+  ],
+  "San Fernando": [
+    "Abut", "Apaleng", "Bacsil", "Bangbangolan", "Bangcusay", "Barangay I", "Barangay II", "Barangay III",
+    "Barangay IV", "Baraoas", "Bato", "Biday", "Birunget", "Bungro", "Cabaroan", "Cabarsican", "Cadaclan", "Calabugao",
+    "Camansi", "Canaoay", "Carlatan", "Catbangen", "Dallangayan Este", "Dallangayan Oeste", "Dalumpinas Este",
+    "Dalumpinas Oeste", "Ilocanos Norte", "Ilocanos Sur", "Langcuas", "Lingsat", "Madayegdeg", "Mameltac", "Masicong",
+    "Nagyubuyuban", "Namtutan", "Narra Este", "Narra Oeste", "Pacpaco", "Pagdalagan", "Pagdaraoan", "Pagudpud",
+    "Pao Norte", "Pao Sur", "Parian", "Pias", "Poro", "Puspus", "Sacyud", "Sagayad", "San Agustin", "San Francisco",
+    "San Vicente", "Santiago Norte", "Santiago Sur", "Saoay", "Sevilla", "Siboan-Otong", "Tanqui", "Tanquigan",
+  ],
+  "San Gabriel": [
+    "Amontoc", "Apayao", "Balbalayang", "Bayabas", "Bucao", "Bumbuneg", "Daking", "Lacong", "Lipay Este", "Lipay Norte",
+    "Lipay Proper", "Lipay Sur", "Lon-oy", "Poblacion", "Polipol",
+  ],
+  "San Juan": [
+    "Allangigan", "Aludaid", "Bacsayan", "Balballosa", "Bambanay", "Bugbugcao", "Caarusipan", "Cabaroan", "Cabugnayan",
+    "Cacapian", "Caculangan", "Calincamasan", "Casilagan", "Catdongan", "Dangdangla", "Dasay", "Dinanum", "Duplas",
+    "Guinguinabang", "Ili Norte", "Ili Sur", "Legleg", "Lubing", "Nadsaag", "Nagsabaran", "Naguirangan", "Naguituban",
+    "Nagyubuyuban", "Oaquing", "Pacpacac", "Pagdildilan", "Panicsican", "Quidem", "San Felipe", "Santa Rosa",
+    "Santo Rosario", "Saracat", "Sinapangan", "Taboc", "Talogtog", "Urbiztondo",
+  ],
+  "Santo Tomas": [
+    "Ambitacay", "Bail", "Balaoc", "Balsaan", "Baybay", "Cabaruan", "Casantaan", "Casilagan", "Cupang", "Damortis",
+    "Fernando", "Linong", "Lomboy", "Malabago", "Namboongan", "Namonitan", "Narvacan", "Patac", "Poblacion", "Pongpong",
+    "Raois", "Tococ", "Tubod", "Ubagan",
+  ],
+  Santol: [
+    "Corrooy", "Lettac Norte", "Lettac Sur", "Mangaan", "Paagan", "Poblacion", "Puguil", "Ramot", "Sapdaan", "Sasaba",
+    "Tubaday",
+  ],
+  Sudipen: [
+    "Bigbiga", "Bulalaan", "Castro", "Duplas", "Ilocano", "Ipet", "Maliclico", "Namaltugan", "Old Central", "Poblacion",
+    "Porporiket", "San Francisco Norte", "San Francisco Sur", "San Jose", "Sengngat", "Turod", "Up-uplas",
+  ],
+  Tubao: [
+    "Amallapay", "Anduyan", "Caoigue", "Francia Sur", "Francia West", "Garcia", "Gonzales", "Halog East", "Halog West",
+    "Leones East", "Leones West", "Linapew", "Lloren", "Magsaysay", "Pideg", "Poblacion", "Rizal", "Santa Teresa",
+  ],
+}
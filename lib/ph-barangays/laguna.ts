@@ -0,0 +1,158 @@
+// Barangays of each town in Laguna, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Alaminos: [
+    "Barangay I", "Barangay II", "Barangay III", "Barangay IV", "Del Carmen", "Palma", "San Agustin", "San Andres",
+    "San Benito", "San Gregorio", "San Ildefonso", "San Juan", "San Miguel", "San Roque", "Santa Rosa",
+  ],
+  Bay: [
+    "Bitin", "Calo", "Dila", "Maitim", "Masaya", "Paciano Rizal", "Puypuy", "San Agustin", "San Antonio", "San Isidro",
+    "San Nicolas", "Santa Cruz", "Santo Domingo", "Tagumpay", "Tranca",
+  ],
+  "Biñan": [
+    "Biñan", "Bungahan", "Canlalay", "Casile", "De La Paz", "Ganado", "Langkiwa", "Loma", "Malaban", "Malamig",
+    "Mampalasan", "Platero", "Poblacion", "San Antonio", "San Francisco", "San Jose", "San Vicente", "Santo Domingo",
+    "Santo Niño", "Santo Tomas", "Soro-soro", "Timbao", "Tubigan", "Zapote",
+  ],
+  Cabuyao: [
+    "Baclaran", "Banaybanay", "Banlic", "Barangay Dos", "Barangay Tres", "Barangay Uno", "Bigaa", "Butong", "Casile",
+    "Diezmo", "Gulod", "Mamatid", "Marinig", "Niugan", "Pittland", "Pulo", "Sala", "San Isidro",
+  ],
+  Calamba: [
+    "Bagong Kalsada", "Banadero", "Banlic", "Barandal", "Barangay 1", "Barangay 2", "Barangay 3", "Barangay 4",
+    "Barangay 5", "Barangay 6", "Barangay 7", "Batino", "Bubuyan", "Bucal", "Bunggo", "Burol", "Camaligan", "Canlubang",
+    "Halang", "Hornalan", "Kay-Anlog", "La Mesa", "Laguerta", "Lawa", "Lecheria", "Lingga", "Looc", "Mabato",
+    "Majada Labas", "Makiling", "Mapagong", "Masili", "Maunong", "Mayapa", "Milagrosa", "Paciano Rizal", "Palingon",
+    "Palo-Alto", "Pansol", "Parian", "Prinza", "Punta", "Puting Lupa", "Real", "Saimsim", "Sampiruhan", "San Cristobal",
+    "San Jose", "San Juan", "Sirang Lupa", "Sucol", "Turbina", "Ulango", "Uwisan",
+  ],
+  Calauan: [
+    "Balayhangin", "Bangyas", "Dayap", "Hanggan", "Imok", "Kanluran", "Lamot 1", "Lamot 2", "Limao", "Mabacan",
+    "Masiit", "Paliparan", "Perez", "Prinza", "San Isidro", "Santo Tomas", "Silangan",
+  ],
+  Cavinti: [
+    "Anglas", "Bangco", "Bukal", "Bulajo", "Cansuso", "Duhat", "Inao-Awan", "Kanluran Talaongan", "Labayo", "Layasin",
+    "Layug", "Mahipon", "Paowin", "Poblacion", "Silangan Talaongan", "Sisilmin", "Sumucab", "Tibatib", "Udia",
+  ],
+  Famy: [
+    "Asana", "Bacong-Sigsigan", "Bagong Pag-Asa", "Balitoc", "Banaba", "Batuhan", "Bulihan", "Caballero", "Calumpang",
+    "Cuebang Bato", "Damayan", "Kapatalan", "Kataypuanan", "Liyang", "Maate", "Magdalo", "Mayatba", "Minayutan",
+    "Salangbato", "Tunhac",
+  ],
+  Kalayaan: [
+    "Longos", "San Antonio", "San Juan",
+  ],
+  Liliw: [
+    "Bagong Anyo", "Bayate", "Bongkol", "Bubukal", "Cabuyew", "Calumpang", "Culoy", "Dagatan", "Daniw", "Dita",
+    "Ibabang Palina", "Ibabang San Roque", "Ibabang Sungi", "Ibabang Taykin", "Ilayang Palina", "Ilayang San Roque",
+    "Ilayang Sungi", "Ilayang Taykin", "Kanlurang Bukal", "Laguan", "Luquin", "Malabo-Kalantukan", "Masikap", "Maslun",
+    "Mojon", "Novaliches", "Oples", "Pag-Asa", "Palayan", "Rizal", "San Isidro", "Silangang Bukal", "Tuy-Baanan",
+  ],
+  "Los Baños": [
+    "Anos", "Bagong Silang", "Bambang", "Batong Malake", "Baybayin", "Bayog", "Lalakay", "Maahas", "Malinta",
+    "Mayondon", "Putho Tuntungin", "San Antonio", "Tadlak", "Timugan",
+  ],
+  Luisiana: [
+    "Barangay Zone I", "Barangay Zone II", "Barangay Zone III", "Barangay Zone IV", "Barangay Zone V",
+    "Barangay Zone VI", "Barangay Zone VII", "Barangay Zone VIII", "De La Paz", "San Antonio", "San Buenaventura",
+    "San Diego", "San Isidro", "San Jose", "San Juan", "San Luis", "San Pablo", "San Pedro", "San Rafael", "San Roque",
+    "San Salvador", "Santo Domingo", "Santo Tomas",
+  ],
+  Lumban: [
+    "Bagong Silang", "Balimbingan", "Balubad", "Caliraya", "Concepcion", "Lewin", "Maracta", "Maytalang I",
+    "Maytalang II", "Primera Parang", "Primera Pulo", "Salac", "Santo Niño", "Segunda Parang", "Segunda Pulo", "Wawa",
+  ],
+  Mabitac: [
+    "Amuyong", "Bayanihan", "Lambac", "Libis ng Nayon", "Lucong", "Maligaya", "Masikap", "Matalatala", "Nanguma",
+    "Numero", "Paagahan", "Pag-Asa", "San Antonio", "San Miguel", "Sinagtala",
+  ],
+  Magdalena: [
+    "Alipit", "Baanan", "Balanac", "Bucal", "Buenavista", "Bungkol", "Buo", "Burlungan", "Cigaras", "Halayhayin",
+    "Ibabang Atingay", "Ibabang Butnong", "Ilayang Atingay", "Ilayang Butnong", "Ilog", "Malaking Ambling", "Malinao",
+    "Maravilla", "Munting Ambling", "Poblacion", "Sabang", "Salasad", "Tanawan", "Tipunan",
+  ],
+  Majayjay: [
+    "Amonoy", "Bakia", "Balanac", "Balayong", "Banilad", "Banti", "Bitaoy", "Botocan", "Bukal", "Burgos", "Burol",
+    "Coralao", "Gagalot", "Ibabang Banga", "Ibabang Bayucain", "Ilayang Banga", "Ilayang Bayucain", "Isabang",
+    "Malinao", "May-It", "Munting Kawayan", "Olla", "Oobi", "Origuel", "Panalaban", "Pangil", "Panglan", "Piit", "Pook",
+    "Rizal", "San Francisco", "San Isidro", "San Miguel", "San Roque", "Santa Catalina", "Suba", "Talortor", "Tanawan",
+    "Taytay", "Villa Nogales",
+  ],
+  Nagcarlan: [
+    "Abo", "Alibungbungan", "Alumbrado", "Balayong", "Balimbing", "Balinacon", "Bambang", "Banago", "Banca-banca",
+    "Bangcuro", "Banilad", "Bayaquitos", "Buboy", "Buenavista", "Buhanginan", "Bukal", "Bunga", "Cabuyew", "Calumpang",
+    "Kanluran Kabubuhayan", "Kanluran Lazaan", "Labangan", "Lagulo", "Lawaguin", "Maiit", "Malaya", "Malinao", "Manaol",
+    "Maravilla", "Nagcalbang", "Oples", "Palayan", "Palina", "Poblacion I", "Poblacion II", "Poblacion III", "Sabang",
+    "San Francisco", "Santa Lucia", "Sibulan", "Silangan Ilaya", "Silangan Kabubuhayan", "Silangan Lazaan",
+    "Silangan Napapatid", "Sinipian", "Sulsuguin", "Talahib", "Talangan", "Taytay", "Tipacan", "Wakat", "Yukos",
+  ],
+  Paete: [
+    "Bagumbayan", "Bangkusay", "Ermita", "Ibaba del Norte", "Ibaba del Sur", "Ilaya del Norte", "Ilaya del Sur",
+    "Maytoong", "Quinale",
+  ],
+  Pagsanjan: [
+    "Anibong", "Barangay I", "Barangay II", "Biñan", "Buboy", "Cabanbanan", "Calusiche", "Dingin", "Lambac", "Layugan",
+    "Magdapio", "Maulawin", "Pinagsanjan", "Sabang", "Sampaloc", "San Isidro",
+  ],
+  Pakil: [
+    "Banilan", "Baño", "Burgos", "Casa Real", "Casinsin", "Dorado", "Gonzales", "Kabulusan", "Matikiw", "Rizal",
+    "Saray", "Taft", "Tavera",
+  ],
+  Pangil: [
+    "Balian", "Dambo", "Galalan", "Isla", "Mabato-Azufre", "Natividad", "San Jose", "Sulib",
+  ],
+  Pila: [
+    "Aplaya", "Bagong Pook", "Bukal", "Bulilan Norte", "Bulilan Sur", "Concepcion", "Labuin", "Linga", "Masico",
+    "Mojon", "Pansol", "Pinagbayanan", "San Antonio", "San Miguel", "Santa Clara Norte", "Santa Clara Sur", "Tubuan",
+  ],
+  Rizal: [
+    "Antipolo", "East Poblacion", "Entablado", "Laguan", "Paule 1", "Paule 2", "Pook", "Tala", "Talaga", "Tuy",
+    "West Poblacion",
+  ],
+  "San Pablo": [
+    "Atisan", "Bagong Bayan II-A", "Bagong Pook VI-C", "Barangay I-A", "Barangay I-B", "Barangay II-A", "Barangay II-B",
+    "Barangay II-C", "Barangay II-D", "Barangay II-E", "Barangay II-F", "Barangay III-A", "Barangay III-B",
+    "Barangay III-C", "Barangay III-D", "Barangay III-E", "Barangay III-F", "Barangay IV-A", "Barangay IV-B",
+    "Barangay IV-C", "Barangay V-A", "Barangay V-B", "Barangay V-C", "Barangay V-D", "Barangay VI-A", "Barangay VI-B",
+    "Barangay VI-D", "Barangay VI-E", "Barangay VII-A", "Barangay VII-B", "Barangay VII-C", "Barangay VII-D",
+    "Barangay VII-E", "Bautista", "Concepcion", "Del Remedio", "Dolores", "San Antonio 1", "San Antonio 2",
+    "San Bartolome", "San Buenaventura", "San Crispin", "San Cristobal", "San Diego", "San Francisco", "San Gabriel",
+    "San Gregorio", "San Ignacio", "San Isidro", "San Joaquin", "San Jose", "San Juan", "San Lorenzo", "San Lucas 1",
+    "San Lucas 2", "San Marcos", "San Mateo", "San Miguel", "San Nicolas", "San Pedro", "San Rafael", "San Roque",
+    "San Vicente", "Santa Ana", "Santa Catalina", "Santa Cruz", "Santa Elena", "Santa Felomina", "Santa Isabel",
+    "Santa Maria", "Santa Maria Magdalena", "Santa Monica", "Santa Veronica", "Santiago I", "Santiago II",
+    "Santisimo Rosario", "Santo Angel", "Santo Cristo", "Santo Niño", "Soledad",
+  ],
+  "San Pedro": [
+    "Bagong Silang", "Calendola", "Chrysanthemum", "Cuyab", "Estrella", "Fatima", "G.S.I.S.", "Landayan", "Langgam",
+    "Laram", "Magsaysay", "Maharlika", "Narra", "Nueva", "Pacita 1", "Pacita 2", "Poblacion", "Riverside", "Rosario",
+    "Sampaguita Village", "San Antonio", "San Lorenzo Ruiz", "San Roque", "San Vicente", "Santo Niño",
+    "United Bayanihan", "United Better Living",
+  ],
+  "Santa Cruz": [
+    "Alipit", "Bagumbayan", "Barangay I", "Barangay II", "Barangay III", "Barangay IV", "Barangay V", "Bubukal",
+    "Calios", "Duhat", "Gatid", "Jasaan", "Labuin", "Malinao", "Oogong", "Pagsawitan", "Palasan", "Patimbao",
+    "San Jose", "San Juan", "San Pablo Norte", "San Pablo Sur", "Santisima Cruz", "Santo Angel Central",
+    "Santo Angel Norte", "Santo Angel Sur",
+  ],
+  "Santa Maria": [
+    "Adia", "Bagong Pook", "Bagumbayan", "Barangay I", "Barangay II", "Barangay III", "Barangay IV", "Bubukal",
+    "Cabooan", "Calangay", "Cambuja", "Coralan", "Cueva", "Inayapan", "Jose Laurel, Sr.", "Jose Rizal", "Kayhakat",
+    "Macasipac", "Masinao", "Mataling-Ting", "Pao-o", "Parang Ng Buho", "Santiago", "Talangka", "Tungkod",
+  ],
+  "Santa Rosa": [
+    "Aplaya", "Balibago", "Caingin", "Dila", "Dita", "Don Jose", "Ibaba", "Kanluran", "Labas", "Macabling", "Malitlit",
+    "Malusak", "Market Area", "Pooc", "Pulong Santa Cruz", "Santo Domingo", "Sinalhan", "Tagapo",
+  ],
+  Siniloan: [
+    "Acevida", "Bagong Pag-Asa", "Bagumbarangay", "Buhay", "G. Redor", "Gen. Luna", "Halayhayin", "J. Rizal",
+    "Kapatalan", "Laguio", "Liyang", "Llavac", "Macatad", "Magsaysay", "Mayatba", "Mendiola", "P. Burgos", "Pandeno",
+    "Salubungan", "Wawa",
+  ],
+  Victoria: [
+    "Banca-banca", "Daniw", "Masapang", "Nanhaya", "Pagalangan", "San Benito", "San Felix", "San Francisco",
+    "San Roque",
+  ],
+}
@@ -0,0 +1,110 @@
+// Barangays of each town in Lanao del Norte, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Bacolod: [
+    "Alegria", "Babalaya", "Babalayan Townsite", "Binuni", "Delabayan West", "Demologan", "Dimarao", "Esperanza",
+    "Kahayag", "Liangan East", "Mati", "Minaulon", "Pagayawan", "Poblacion Bacolod", "Punod", "Rupagan",
+  ],
+  Baloi: [
+    "Abaga", "Adapun-Ali", "Angandog", "Angayen", "Bangko", "Batolacongan", "Buenavista", "Cadayonan", "Landa",
+    "Lumbac", "Mamaanun", "Maria-Cristina", "Matampay", "Nangka", "Pacalundo", "Poblacion East", "Poblacion West",
+    "Sandor", "Sangcad", "Sarip-Alawi", "Sigayan",
+  ],
+  Baroy: [
+    "Andil", "Bagong Dawis", "Baroy Daku", "Bato", "Cabasagan", "Dalama", "Libertad", "Limwag", "Lindongan",
+    "Maliwanag", "Manan-ao", "Pange", "Pindolonan", "Poblacion", "Princesa", "Rawan Point", "Riverside", "Sagadan",
+    "Sagadan Upper", "Salong", "San Juan", "Tinubdan", "Village",
+  ],
+  Kapatagan: [
+    "Bagong Badian", "Bagong Silang", "Balili", "Bansarvil", "Belis", "Buenavista", "Butadon", "Cathedral Falls",
+    "Concepcion", "Curvada", "De Asis", "Donggoan", "Durano", "Kahayagan", "Kidalos", "La Libertad", "Lapinig",
+    "Mahayahay", "Malinas", "Maranding", "Margos", "Poblacion", "Pulang Yuta", "San Isidro", "San Vicente",
+    "Santa Cruz", "Santo Tomas", "Suso", "Taguitic", "Tiacongan", "Tipolo", "Tulatulahan", "Waterfalls",
+  ],
+  Kauswagan: [
+    "Bagumbayan", "Bara-ason", "Cayontor", "Delabayan", "Inudaran", "Kawit Occidental", "Kawit Oriental", "Libertad",
+    "Paiton", "Poblacion", "Tacub", "Tingintingin", "Tugar",
+  ],
+  Kolambugan: [
+    "Austin Heights", "Baybay", "Bubong", "Caromatan", "Inudaran", "Kulasihan", "Libertad", "Lumbac", "Manga",
+    "Matampay", "Mukas", "Muntay", "Pagalungan", "Palao", "Pantaon", "Pantar", "Poblacion", "Rebucon", "Riverside",
+    "San Roque", "Santo Niño", "Simbuco", "Small Banisilan", "Sucodan", "Tabigue", "Titunod",
+  ],
+  Lala: [
+    "Abaga", "Andil", "Cabasagan", "Camalan", "Darumawang Bucana", "Darumawang Ilaya", "El Salvador", "Gumagamot",
+    "Lala Proper", "Lanipao", "Magpatao", "Maranding", "Matampay Bucana", "Matampay Ilaya", "Pacita", "Pendolonan",
+    "Pinoyak", "Raw-an", "Rebe", "San Isidro Lower", "San Isidro Upper", "San Manuel", "Santa Cruz Lower",
+    "Santa Cruz Upper", "Simpak", "Tenazas", "Tuna-an",
+  ],
+  Linamon: [
+    "Busque", "Larapan", "Magoong", "Napo", "Poblacion", "Purakan", "Robocon", "Samburon",
+  ],
+  Magsaysay: [
+    "Babasalon", "Baguiguicon", "Daan Campo", "Durianon", "Ilihan", "Lamigadato", "Lemoncret", "Lower Caningag", "Lubo",
+    "Lumbac", "Malabaogan", "Mapantao", "Olango", "Pangao", "Pelingkingan", "Poblacion", "Rarab", "Somiorang",
+    "Talambo", "Tambacon", "Tawinian", "Tipaan", "Tombador", "Upper Caningag",
+  ],
+  Maigo: [
+    "Balagatasa", "Camp 1", "Claro M. Recto", "Inoma", "Kulasihan", "Labuay", "Liangan West", "Mahayahay", "Maliwanag",
+    "Mentring", "Poblacion", "Santa Cruz", "Segapod",
+  ],
+  Matungao: [
+    "Bangco", "Batal", "Batangan", "Bubong Radapan", "Cadayonan", "Matampay", "Pangi", "Pasayanon", "Poblacion",
+    "Puntod", "Santa Cruz", "Somiorang",
+  ],
+  Munai: [
+    "Bacayawan", "Balabacun", "Balintad", "Dalama", "Kadayonan", "Lindongan", "Lingco-an", "Lininding", "Lumba-Bayabao",
+    "Madaya", "Maganding", "Matampay", "North Cadulawan", "Old Poblacion", "Panggao", "Pantao", "Pantao-A-Munai",
+    "Pantaon", "Pindolonan", "Punong", "Ramain", "Sandigamunai", "Tagoranao", "Tambo", "Tamparan", "Taporog",
+  ],
+  Nunungan: [
+    "Abaga", "Bangco", "Cabasaran", "Canibongan", "Dimayon", "Inayawan", "Kaludan", "Karcum", "Katubuan", "Liangan",
+    "Lupitan", "Malaig", "Mangan", "Masibay", "Notongan", "Panganapan", "Pantar", "Paridi", "Petadun", "Poblacion",
+    "Rarab", "Raraban", "Rebucon", "Songgod", "Taraka",
+  ],
+  "Pantao Ragat": [
+    "Aloon", "Banday", "Bobonga Pantao Ragat", "Bobonga Radapan", "Cabasagan", "Calawe", "Culubun", "Dilimbayan",
+    "Dimayon", "Lomidong", "Madaya", "Maliwanag", "Matampay", "Natangcopan", "Pansor", "Pantao Marug", "Poblacion East",
+    "Poblacion West", "Tangcal", "Tongcopan",
+  ],
+  Pantar: [
+    "Bangcal", "Bowi", "Bubong Madaya", "Cabasaran", "Cadayonan", "Campong", "Dibarosan", "Kalanganan East",
+    "Kalanganan Lower", "Kalilangan", "Lumba-Punod", "Pantao-Marug", "Pantao-Ranao", "Pantar East", "Pitubo",
+    "Poblacion", "Poona-Punod", "Punod", "Sundiga-Punod", "Tawanan", "West Pantar",
+  ],
+  "Poona Piagapo": [
+    "Alowin", "Bubong-Dinaig", "Cabasaran", "Cadayonan", "Caromatan", "Daramba", "Dinaig", "Kablangan", "Linindingan",
+    "Lumbatan", "Lupitan", "Madamba", "Madaya", "Maliwanag", "Nunang", "Nunungan", "Pantao Raya", "Pantaon",
+    "Pendolonan", "Pened", "Piangamangaan", "Poblacion", "Sulo", "Tagoranao", "Tangclao", "Timbangalan",
+  ],
+  Salvador: [
+    "Barandia", "Bulacon", "Buntong", "Calimodan", "Camp III", "Curva-Miagao", "Daligdigan", "Inasagan", "Kilala",
+    "Mabatao", "Madaya", "Mamaanon", "Mapantao", "Mindalano", "Padianan", "Pagalongan", "Pagayawan", "Panaliwad-on",
+    "Pangantapan", "Pansor", "Patidon", "Pawak", "Poblacion", "Saumay", "Sudlon",
+  ],
+  Sapad: [
+    "Baning", "Buriasan", "Dansalan", "Gamal", "Inudaran I", "Inudaran II", "Karkum", "Katipunan", "Mabugnao",
+    "Maito Salug", "Mala Salug", "Mama-anon", "Mapurog", "Pancilan", "Panoloon", "Pili", "Sapad",
+  ],
+  "Sultan Naga Dimaporo": [
+    "Bangaan", "Bangco", "Bansarvil II", "Bauyan", "Cabongbongan", "Calibao", "Calipapa", "Calube", "Campo Islam",
+    "Capocao", "Dabliston", "Dalama", "Dangulaan", "Ditago", "Ilian", "Kauswagan", "Kirapan", "Koreo", "Lantawan",
+    "Mabuhay", "Maguindanao", "Mahayahay", "Mamagum", "Mina", "Pandanan", "Payong", "Pikalawag", "Pikinit", "Piraka",
+    "Poblacion", "Ramain", "Rebucon", "Sigayan", "Sugod", "Tagulo", "Tantaon", "Topocon",
+  ],
+  Tagoloan: [
+    "Dalamas", "Darimbang", "Dimayon", "Inagongan", "Kiazar", "Malimbato", "Panalawan",
+  ],
+  Tangcal: [
+    "Bayabao", "Berwar", "Big Banisilon", "Big Meladoc", "Bubong", "Lamaosa", "Linao", "Lindongan", "Lingco-an",
+    "Papan", "Pelingkingan", "Poblacion", "Poona Kapatagan", "Punod", "Small Banisilon", "Small Meladoc", "Somiorang",
+    "Tangcal Proper",
+  ],
+  Tubod: [
+    "Barakanas", "Baris", "Bualan", "Bulod", "Camp V", "Candis", "Caniogan", "Dalama", "Kakai Renabor", "Kalilangan",
+    "Licapao", "Malingao", "Palao", "Patudan", "Pigcarangan", "Pinpin", "Poblacion", "Pualas", "San Antonio",
+    "Santo Niño", "Taden", "Taguranao", "Tangueguiron", "Tubaran",
+  ],
+}
@@ -0,0 +1,244 @@
+// Barangays of each town in Lanao del Sur, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  "Amai Manabilang": [
+    "Bagumbayan", "Bandara-Ingud", "Comara", "Frankfort", "Lambanogan", "Lico", "Mansilano", "Natangcopan",
+    "Pagalamatan", "Pagonayan", "Piagma", "Poblacion", "Punud", "Ranao-Baning", "Sagua-an", "Salam", "Sumugot",
+  ],
+  "Bacolod-Kalawi": [
+    "Ampao", "Bagoaingud", "Balut", "Barua", "Buadiawani", "Bubong", "Daramoyod", "Dilabayan", "Dipatuan", "Gandamato",
+    "Gurain", "Ilian", "Lama", "Liawao", "Lumbaca-Ingud", "Madanding", "Orong", "Pindolonan", "Poblacion I",
+    "Poblacion II", "Raya", "Rorowan", "Sugod", "Tambo", "Tuka I", "Tuka II",
+  ],
+  Balabagan: [
+    "Bagoaingud", "Banago", "Barorao", "Batuan", "Budas", "Buenavista", "Buisan", "Calilangan", "Igabay", "Ilian",
+    "Lalabuan", "Lorenzo", "Lower Itil", "Lumbac", "Macao", "Magulalung Occidental", "Magulalung Oriental", "Matampay",
+    "Matanog", "Molimoc", "Narra", "Pindolonan", "Plasan", "Poblacion", "Purakan", "Tataya", "Upper Itil",
+  ],
+  Balindong: [
+    "Abaga", "Bantoga Wato", "Barit", "Bolinsong", "Borakis", "Bualan", "Bubong", "Bubong Cadapaan", "Cadapaan",
+    "Cadayonan", "Dadayag", "Dado", "Dibarusan", "Dilausan", "Dimarao", "Ingud", "Kaluntay", "Lalabuan", "Lati",
+    "Lilod", "Limbo", "Lumbac Lalan", "Lumbac Wato", "Lumbayao", "Magarang", "Malaig", "Nusa Lumba Ranao", "Padila",
+    "Pagayawan", "Paigoay", "Pantaragoo", "Poblacion", "Raya", "Salipongan", "Talub", "Tantua Raya", "Tomarompong",
+    "Tuka Bubong",
+  ],
+  Bayang: [
+    "Bagoaingud", "Bairan", "Bandingun", "Biabi", "Bialaan", "Bubong Lilod", "Bubong Raya", "Cadayonan",
+    "Cadingilan Occidental", "Cadingilan Oriental", "Condaraan Pob.", "Cormatan", "Gandamato", "Ilian",
+    "Lalapung Central", "Lalapung Proper", "Lalapung Upper", "Linao", "Linuk", "Liong", "Lumbac", "Lumbac Cadayonan",
+    "Maliwanag", "Mapantao", "Mimbalawag", "Palao", "Pama-an", "Pamacotan", "Pantar", "Parao", "Patong", "Poblacion",
+    "Porotan", "Rantian", "Raya Cadayonan", "Rinabor", "Samporna", "Sapa", "Silid", "Sugod", "Sultan Pandapatan",
+    "Sumbag", "Tagoranao", "Tangcal", "Tangcal Proper", "Tomarompong", "Tomongcal Ligi", "Torogan", "Tuca",
+  ],
+  Binidayan: [
+    "Badak", "Baguiangun", "Balut Maito", "Basak", "Bubong", "Bubonga-Ranao", "Dansalan Dacsula", "Ingud", "Kialilidan",
+    "Lumbac", "Macaguiling", "Madaya", "Magonaya", "Maindig", "Masolun", "Olama", "Pagalamatan", "Pantar",
+    "Picalilangan", "Picotaan", "Pindolonan", "Poblacion", "Soldaroro", "Tambac", "Timbangan", "Tuca",
+  ],
+  "Buadiposo-Buntong": [
+    "Bacolod", "Bangon", "Bangon Proper", "Boto Ragondingan", "Buadiposo Lilod", "Buadiposo Proper", "Buadiposo Raya",
+    "Bubong", "Buntong Proper", "Cadayonan", "Dansalan", "Datu Tambara", "Dirisan", "Gata", "Kalakala", "Katogonan",
+    "Lumbac", "Lumbatan Manacab", "Lumbatan Pataingud", "Lunduban", "Manacab", "Minanga", "Paling", "Pindolonan",
+    "Pualas", "Ragondingan East", "Ragondingan Proper", "Ragondingan West", "Raya Buntong", "Sapot", "Tangcal", "Tarik",
+    "Tuka",
+  ],
+  Bubong: [
+    "Bacolod", "Bagoaingud", "Bansayan", "Basingan", "Batangan", "Bualan", "Bubonga Didagun", "Carigongan", "Dalaon",
+    "Dibarosan", "Dilabayan", "Dimapatoy", "Dimayon", "Dimayon Proper", "Diolangan", "Guiguikun", "Madanding",
+    "Malungun", "Masorot", "Matampay Dimarao", "Miabalawag", "Montiaan", "Pagayawan", "Palao", "Panalawan", "Pantar",
+    "Pendogoan", "Pindolonan", "Poblacion", "Polayagan", "Punud", "Ramain Bubong", "Rogero", "Salipongan", "Sunggod",
+    "Taboro",
+  ],
+  Butig: [
+    "Bayabao Poblacion", "Butig Proper", "Cabasaran", "Coloyan Tambo", "Dilimbayan", "Dolangan", "Malungun",
+    "Pindolonan", "Poktan", "Ragayan", "Raya", "Samer", "Sandab Madaya", "Sundig", "Timbab", "Tiowi",
+  ],
+  Calanogas: [
+    "Bubonga Ranao", "Calalaoan", "Gas", "Inoma", "Inudaran", "Luguna", "Mimbalawag", "Ngingir", "Pagalongan",
+    "Panggawalupa", "Pantaon", "Piksan", "Pindolonan", "Punud", "Tagoranao", "Taliboboka", "Tambac",
+  ],
+  "Ditsaan-Ramain": [
+    "Baclayan Lilod", "Baclayan Raya", "Bagoaingud", "Barimbingan", "Bayabao", "Buadi Alao", "Buadi Babai",
+    "Buadi Oloc", "Buayaan Lilod", "Buayaan Madanding", "Buayaan Raya", "Bubong Dangiprampiai", "Dado",
+    "Dangimprampiai", "Darimbang", "Dilausan", "Ditsaan", "Gadongan", "Linamon", "Lumbatan Ramain", "Maindig Ditsaan",
+    "Mandara", "Maranao Timber", "Pagalongan Buadiadingan", "Pagalongan Ginaopan", "Pagalongan Masioon",
+    "Pagalongan Proper", "Polo", "Ramain Poblacion", "Ramain Proper", "Rantian", "Sultan Pangadapun", "Sundiga Bayabao",
+    "Talub", "Upper Pugaan",
+  ],
+  Ganassi: [
+    "Bagoaingud", "Balintad", "Balintad A", "Barit", "Barorao", "Bato Batoray", "Baya", "Campong a Raya",
+    "Campong Sabela", "Dapaan", "Gadongan", "Gui", "Linuk", "Lumbac", "Lumbacaingud", "Macabao", "Macaguiling",
+    "Masolun", "Pagalongan", "Pamalian", "Pangadapun", "Panggawalupa", "Pantaon", "Pantaon A", "Para-aba", "Pindolonan",
+    "Poblacion", "Sekun Matampay", "Sogod Madaya", "Tabuan", "Taganonok", "Taliogon",
+  ],
+  Kapai: [
+    "Babayog", "Cormatan", "Dilabayan", "Dilimbayan", "Dimagaling", "Dimunda", "Doronan", "Gadongan", "Kasayanan",
+    "Kasayanan West", "Kibolos", "Kining", "Lidasan", "Macadar", "Malna Proper", "Pagalongan", "Pantaon", "Parao",
+    "Pindolonan", "Poblacion",
+  ],
+  Kapatagan: [
+    "Bakikis", "Barao", "Bongabong", "Daguan", "Inudaran", "Kabaniakawan", "Kapatagan", "Lusain", "Matimos", "Minimao",
+    "Pinantao", "Salaman", "Sigayan", "Tabuan", "Upper Igabay",
+  ],
+  "Lumba-Bayabao": [
+    "Bacolod I", "Bacolod II", "Bantayao", "Barit", "Baugan", "Buad Lumbac", "Cabasaran", "Calilangan",
+    "Carandangan-Mipaga", "Cormatan Langban", "Dialongana", "Dilindongan-Cadayonan", "Gadongan", "Galawan", "Gambai",
+    "Kasola", "Lalangitun", "Lama", "Lindongan Dialongana", "Lobo Basara", "Lumbac Bacayawan", "Macaguiling",
+    "Mapantao", "Mapoling", "Maribo", "Minaring Diladigan", "Pagayawan", "Posudaragat", "Rumayas", "Sabala Bantayao",
+    "Salaman", "Salolodun Berwar", "Sarigidan Madiar", "Sunggod", "Taluan", "Tamlang", "Tongcopan", "Turogan",
+  ],
+  "Lumbaca-Unayan": [
+    "Bangon", "Beta", "Calalon", "Calipapa", "Dilausan", "Dimapaok", "Lumbac Dilausan", "Oriental Beta", "Tringun",
+  ],
+  Lumbatan: [
+    "Alog", "Basayungun", "Buad", "Bubong Macadar", "Budi", "Dago-ok", "Dalama", "Dalipuga", "Lalapung", "Ligue",
+    "Lumbac", "Lumbac Bacayawan", "Lunay", "Macadar", "Madaya", "Minanga", "Pantar", "Penaring", "Picotaan",
+    "Poblacion", "Tambac",
+  ],
+  Lumbayanague: [
+    "Bagoaingud", "Balaigay", "Bualan", "Cabuntungan", "Cadayonan", "Cadingilan", "Cadingilan A", "Casalayan", "Dala",
+    "Dilimbayan", "Diromoyod", "Kabasaran", "Lamin", "Mapantao-Balangas", "Miniros", "Nanagun", "Pantaon", "Pindolonan",
+    "Pitatanglan", "Poctan", "Singcara", "Wago",
+  ],
+  Madalum: [
+    "Abaga", "Bacayawan", "Bagoaingud", "Basak", "Bato", "Bubong", "Cabasaran", "Cadayonan", "Dandamun", "Delausan",
+    "Diampaca", "Dibarosan", "Gadongan", "Gurain", "Kormatan", "Liangan", "Liangan I", "Lilitun", "Linao", "Linuk",
+    "Lumbac", "Madaya", "Padian Torogan I", "Pagayawan", "Paridi-Kalimodan", "Poblacion", "Punud", "Racotan", "Raya",
+    "Riray", "Sabanding", "Salongabanding", "Sogod Kaloy", "Sugod", "Tamporong", "Tongantongan", "Udangun",
+  ],
+  Madamba: [
+    "Balagunun", "Balintad", "Bawang", "Biabe", "Bubong Uyaan", "Cabasaran", "Dibarusan", "Ilian", "Lakitan", "Liangan",
+    "Linuk", "Lumbaca Ingud", "Madamba", "Pagayonan", "Palao", "Pangadapan", "Pantaon", "Pantar", "Punud", "Tambo",
+    "Tubaran", "Tuca", "Tulay", "Uyaan Proper",
+  ],
+  Maguing: [
+    "Agagan", "Balagunun", "Balawag", "Balintao", "Bato-bato", "Bolao", "Borocot", "Borrowa", "Botud", "Buadiangkay",
+    "Bubong", "Bubong Bayabao", "Camalig", "Cambong", "Dilausan", "Dilimbayan", "Ilalag", "Kianodan", "Lilod Borocot",
+    "Lilod Maguing", "Lumbac", "Lumbac-Dimarao", "Madanding", "Madaya", "Maguing Proper", "Malungun",
+    "Malungun Borocot", "Malungun Pagalongan", "Pagalongan", "Panayangan", "Pilimoknan", "Pindolonan", "Ragayan",
+    "Sabala Dilausan",
+  ],
+  Malabang: [
+    "Bacayawan", "Badak Lumao", "Bagoaingud", "Banday", "Betayan", "Boniga", "BPS Village", "Bunk House", "Cabasaran",
+    "Calibagat", "Calumbog", "Campo Muslim", "China Town", "Corahab", "Diamaro", "Inandayan", "Jose Abad Santos",
+    "Lamin", "Mable", "Macuranding", "Madaya", "Mananayo", "Manggahan", "Masao", "Matalin", "Matampay", "Matling",
+    "Montay", "Pasir", "Pialot", "Rebocun", "Sarang", "Sumbagarogong", "Tacub", "Tambara", "Tiongcop", "Tuboc",
+  ],
+  Marantao: [
+    "Bacayawan", "Bacong", "Banga-Pantar", "Batal-Punud", "Bubong Madanding", "Camalig", "Camalig Bandara Ingud",
+    "Camalig Bubong", "Cawayan", "Cawayan Bacolod", "Cawayan Kalaw", "Cawayan Linuk", "Daanaingud", "Ilian",
+    "Inudaran Campong", "Inudaran Loway", "Inudaran Lumbac", "Kialdan", "Lubo", "Lumbac Kialdan", "Mantapoli",
+    "Matampay", "Maul", "Maul Ilian", "Maul Lumbaca Ingud", "Nataron", "Pagalongan Bacayawan", "Palao", "Pataimas",
+    "Poblacion", "Poona Marantao", "Punud Proper", "Tacub", "Tuca Kialdan",
+  ],
+  Marawi: [
+    "Ambolong", "Amito Marantao", "Angoyao", "Bacolod Chico Proper", "Banga", "Bangco", "Banggolo Poblacion", "Bangon",
+    "Basak Malutlut", "Beyaba-Damag", "Bito Buadi Itowa", "Bito Buadi Parba", "Boganga", "Boganga II", "Boto Ambolong",
+    "Buadi Sacayo", "Bubong Lumbac", "Bubonga Cadayonan", "Bubonga Lilod Madaya", "Bubonga Marawi",
+    "Bubonga Pagalamatan", "Bubonga Punod", "Cabasaran", "Cabingan", "Cadayonan", "Cadayonan I", "Calocan East",
+    "Calocan West", "Daguduban", "Dansalan", "Datu Dalidigan", "Datu Naga", "Datu Sa Dansalan", "Dayawan", "Dimaluna",
+    "Dulay", "Dulay West", "East Basak", "Emie Punud", "Fort", "Gadongan", "Gadongan Mapantao", "Guimba", "Kapantaran",
+    "Kilala", "Kormatan Matampay", "Lilod Madaya", "Lilod Saduc", "Lomidong", "Lumbac Marinaut", "Lumbaca Madaya",
+    "Lumbaca Toros", "Malimono", "Marawi Poblacion", "Marinaut East", "Marinaut West", "Matampay", "Mipaga Proper",
+    "Moncado Colony", "Moncado Kadingilan", "Moriatao Loksadato", "Navarro", "Norhaya Village", "Olawa Ambolong",
+    "Pagalamatan Gambai", "Pagayawan", "Panggao Saduc", "Pantaon", "Papandayan", "Papandayan Caniogan", "Paridi",
+    "Patani", "Pindolonan", "Poona Marantao", "Pugaan", "Rapasun MSU", "Raya Madaya I", "Raya Madaya II", "Raya Saduc",
+    "Rorogagus East", "Rorogagus Proper", "Sabala Manao", "Sabala Manao Proper", "Saduc Proper", "Sagonsongan",
+    "Sangcay Dansalan", "Somiorang", "South Madaya Proper", "Sugod Proper", "Sultan Corobong", "Sultan Panoroganan",
+    "Tampilong", "Timbangalan", "Tolali", "Tongantongan-Tuca Timbangalan", "Toros", "Tuca", "Tuca Ambolong",
+    "Tuca Marinaut", "Wawalayan Calocan", "Wawalayan Marinaut",
+  ],
+  Marogong: [
+    "Bagumbayan", "Balut", "Bitayan", "Bolawan", "Bonga", "Cabasaran", "Cadayonan", "Cahera", "Cairantang", "Calumbog",
+    "Canibongan", "Diragun", "Mantailoco", "Mapantao", "Marogong East", "Marogong Proper", "Mayaman", "Pabrica",
+    "Paigoay Coda", "Pasayanan", "Piangologan", "Puracan", "Romagondong", "Sarang",
+  ],
+  Masiu: [
+    "Abdullah Buisan", "Alip Lalabuan", "Alumpang Paino Mimbalay", "Buadi Amloy", "Caramian Alim Raya", "Dalog Balut",
+    "Gindolongan Alabat", "Gondarangin Asa Adigao", "Kalilangan", "Laila Lumbac Bacon", "Lakadun", "Lanco Dimapatoy",
+    "Lomigis Sucod", "Lumbaca Ingud", "Macabangan Imbala", "Macadaag Talaguian", "Macalupang Lumbac Caramian",
+    "Macompara Apa Mimbalay", "Magayo Bagoaingud", "Mai Ditimbang Balindong", "Mai Sindaoloan Dansalan",
+    "Manalocon Talub", "Maranat Bontalis", "Matao Araza", "Mocamad Tangul", "Moriatao-Bai Labay", "Pantao",
+    "Putad Marandang Buisan", "Sambowang Atawa", "Sawir", "Talub Langi", "Tamboro Cormatan",
+    "Tomambiling Lumbaca Ingud", "Towanao Arangga", "Unda Dayawan",
+  ],
+  Mulondo: [
+    "Bagoaingud", "Bangon", "Buadi-Abala", "Buadi-Bayawa", "Buadi-Insuba", "Bubong", "Bubonga Guilopa", "Cabasaran",
+    "Cairatan", "Cormatan", "Dalama", "Dansalan", "Dimarao", "Guilopa", "Ilian", "Kitambugun", "Lama", "Lilod",
+    "Lilod Raybalai", "Lumbac", "Lumbaca Ingud", "Madaya", "Pindolonan", "Poblacion", "Salipongan", "Sugan",
+  ],
+  Pagayawan: [
+    "Ayong", "Bandara Ingud", "Bangon", "Biala-an", "Diampaca", "Guiarong", "Ilian", "Kalaludan", "Linindingan",
+    "Madang", "Mapantao", "Ngingir", "Padas", "Paigoay", "Pinalangca", "Poblacion", "Rangiran", "Rubokun",
+  ],
+  Piagapo: [
+    "Aposong", "Bagoaingud", "Bangco", "Bansayan", "Basak", "Bobo", "Bualan", "Bubong Ilian", "Bubong Tawa-an",
+    "Bubonga Mamaanun", "Gacap", "Ilian", "Ilian Poblacion", "Kalanganan", "Katumbacan", "Lininding", "Lumbaca Mamaan",
+    "Mamaanun", "Mentring", "Olango", "Palacat", "Palao", "Paling", "Pantaon", "Pantar", "Paridi", "Pindolonan",
+    "Radapan", "Radapan Poblacion", "Rantian", "Sapingit", "Talao", "Tambo", "Tapocan", "Taporug", "Tawaan", "Udalo",
+  ],
+  Picong: [
+    "Anas", "Bara-as", "Biasong", "Bulangos", "Durian", "Ilian", "Liangan", "Maganding", "Maladi", "Mapantao",
+    "Micalubo", "Mimbalawag", "Pindolonan", "Punong", "Ramitan", "Torogan", "Tual", "Tuca", "Ubanoban",
+  ],
+  "Poona Bayabao": [
+    "Ataragadong", "Bangon", "Bansayan", "Bualan", "Bubong-Dimunda", "Bugaran", "Cadayonan", "Calilangan Dicala",
+    "Calupaan", "Dilausan", "Dimayon", "Dongcoan", "Gadongan", "Liangan", "Lumbac", "Lumbaca Ingud", "Madanding",
+    "Pantao", "Poblacion", "Punud", "Ragayan", "Rogan Cairan", "Rogan Tandiong Dimayon", "Talaguian", "Taporog",
+  ],
+  Pualas: [
+    "Badak", "Bantayan", "Basagad", "Bolinsong", "Boring", "Bualan", "Danugan", "Dapao", "Diamla", "Gadongan", "Ingud",
+    "Linuk", "Lumbac", "Maligo", "Masao", "Notong", "Porug", "Romagondong", "Tambo", "Tamlang", "Tomarompong", "Tuka",
+    "Yaran",
+  ],
+  Saguiaran: [
+    "Alinun", "Bagoaingud", "Basak Maito", "Batangan", "Bubong", "Cadayon", "Cadingilan", "Comonal", "Dilausan",
+    "Dilimbayan", "Gadongan", "Limogao", "Linao", "Lumbac Toros", "Lumbayanague", "Maliwanag", "Mapantao", "Mipaga",
+    "Natangcopan", "Pagalamatan", "Pamacotan", "Panggao", "Pantao Raya", "Pantaon", "Patpangkat", "Pawak", "Pindolonan",
+    "Poblacion", "Salocad", "Sungcod",
+  ],
+  "Sultan Dumalondong": [
+    "Bacayawan", "Buta", "Dinganun Guilopa", "Lumbac", "Malalis", "Pagalongan", "Tagoranao",
+  ],
+  "Tagoloan Ii": [
+    "Bagoaingud", "Bantalan", "Bayog", "Cadayonan", "Dagonalan", "Dimalama", "Gayakay", "Inodaran", "Kalilangan",
+    "Kianibong", "Kingan", "Kitaon", "Maimbaguiang", "Malinao", "Malingon", "Mama-an Pagalongan", "Marawi", "Sigayan",
+    "Tagoloan Poblacion",
+  ],
+  Tamparan: [
+    "Balutmadiar", "Bangon", "Beruar", "Bocalan", "Cabasaran", "Dasomalong", "Dilausan", "Ginaopan", "Lalabuan",
+    "Lilod Tamparan", "Lilod Tubok", "Lindongan", "Linuk", "Linuk Oriental", "Lumbac", "Lumbaca Ingud", "Lumbaca Lilod",
+    "Lumbacaingud South", "Maidan Linuk", "Mala-abangon", "Maliwanag", "Mariatao Datu", "Minanga", "Miondas",
+    "New Lumbacaingud", "Occidental Linuk", "Pagalamatan Linuk", "Pagayawan", "Picarabawan", "Pimbago-Pagalongan",
+    "Pindolonan Mariatao Sarip", "Poblacion I", "Poblacion II", "Poblacion III", "Poblacion IV", "Raya Buadi Barao",
+    "Raya Niondas", "Raya Tamparan", "Salongabanding", "Saminunggay", "Talub", "Tatayawan North", "Tatayawan South",
+    "Tubok",
+  ],
+  Taraka: [
+    "Bandera Buisan", "Boriongan", "Borowa", "Buadi Amao", "Buadi Amunta", "Buadi Amunud", "Buadi Arorao",
+    "Buadi Atopa", "Buadi Dayomangga", "Buadi Dingun", "Buadi Ongcalo", "Bucalan", "Cadayonan Bagumbayan", "Caramat",
+    "Carandangan Calopaan", "Datu Ma-as", "Dilabayan", "Dimayon", "Gapao Balindong", "Ilian", "Lumasa", "Lumasa Proper",
+    "Lumbac Bagoaingud", "Lumbac Bubong Maindang", "Lumbac Pitakus", "Malungun", "Mangayao", "Maruhom", "Masolun",
+    "Moriatao Loksa Datu", "Pagalamatan", "Pindolonan", "Pitakus", "Ririk", "Salipongan", "Sambolawan",
+    "Samporna Salamatollah", "Sigayan Proper", "Somiorang Bandingun", "Sunding", "Sunggod", "Supangan",
+    "Tupa-an Buadiatupa",
+  ],
+  Tubaran: [
+    "Alog", "Bagiangun", "Beta", "Campo", "Datumanong", "Dinaigan", "Gadongan", "Gaput", "Guiarong", "Madaya",
+    "Malaganding", "Metadicop", "Mindamudag", "Pagalamatan", "Paigoay-Pimbataan", "Poblacion", "Polo", "Riantaran",
+    "Tangcal", "Tubaran Proper", "Wago",
+  ],
+  Tugaya: [
+    "Bagoaingud", "Buadi Alawang", "Buadi Dico", "Bubong", "Campong Talao", "Cayagan", "Dandanun", "Dilimbayan",
+    "Gurain", "Lumbac", "Maidan", "Mapantao", "Pagalamatan", "Pandiaranao", "Pindolonan I", "Pindolonan II",
+    "Poblacion", "Putad", "Raya", "Sugod I", "Sugod Mawatan", "Sumbaga Rogong", "Tangcal",
+  ],
+  Wao: [
+    "Amoyong", "Balatin", "Banga", "Bo-ot", "Buntongun", "Cebuano Group", "Christian Village", "Eastern Wao",
+    "Extension Poblacion", "Gata", "Kabatangan", "Kadingilan", "Katutungan", "Kilikili East", "Kilikili West",
+    "Malaigang", "Manila Group", "Milaya", "Mimbuaya", "Muslim Village", "Pagalongan", "Panang", "Park Area",
+    "Pilintangan", "Serran Village", "Western Wao",
+  ],
+}
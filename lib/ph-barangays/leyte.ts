@@ -0,0 +1,277 @@
+// Barangays of each town in Leyte, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Abuyog: [
+    "Alangilan", "Anibongon", "Bagacay", "Bahay", "Balinsasayao", "Balocawe", "Balocawehay", "Barayong", "Bayabas",
+    "Bito", "Buaya", "Buenavista", "Bulak", "Bunga", "Buntay", "Burubud-an", "Cadac-an", "Cagbolo", "Can-aporong",
+    "Can-uguib", "Canmarating", "Capilian", "Combis", "Dingle", "Guintagbucan", "Hampipila", "Katipunan", "Kikilo",
+    "Laray", "Lawa-an", "Libertad", "Loyonsawang", "Mag-atubang", "Mahagna", "Mahayahay", "Maitum", "Malaguicay",
+    "Matagnao", "Nalibunan", "Nebga", "New Taligue", "Odiongan", "Old Taligue", "Pagsang-an", "Paguite", "Parasanon",
+    "Picas Sur", "Pilar", "Pinamanagan", "Salvacion", "San Francisco", "San Isidro", "San Roque", "Santa Fe",
+    "Santa Lucia", "Santo Niño", "Tabigue", "Tadoc", "Tib-o", "Tinalian", "Tinocolan", "Tuy-a", "Victory",
+  ],
+  Alangalang: [
+    "Aslum", "Astorga", "Bato", "Binongto-an", "Binotong", "Blumentritt", "Bobonon", "Borseth", "Buenavista", "Bugho",
+    "Buri", "Cabadsan", "Calaasan", "Cambahanon", "Cambolao", "Canvertudes", "Capiz", "Cavite", "Cogon", "Dapdap",
+    "Divisoria", "Ekiran", "Hinapolan", "Holy Child I", "Holy Child II", "Hubang", "Hupit", "Langit", "Lingayon",
+    "Lourdes", "Lukay", "Magsaysay", "Milagrosa", "Mudboron", "P. Barrantes", "Pepita", "Peñalosa", "Salvacion",
+    "Salvacion Poblacion", "San Antonio", "San Antonio Pob.", "San Diego", "San Francisco East", "San Francisco West",
+    "San Isidro", "San Pedro", "San Roque", "San Vicente", "Santiago", "Santo Niño", "Santol", "Tabangohay", "Tombo",
+    "Veteranos",
+  ],
+  Albuera: [
+    "Antipolo", "Balugo", "Benolho", "Cambalading", "Damula-an", "Doña Maria", "Mahayag", "Mahayahay", "Poblacion",
+    "Salvacion", "San Pedro", "Seguinon", "Sherwood", "Tabgas", "Talisayan", "Tinag-an",
+  ],
+  Babatngon: [
+    "Bacong", "Bagong Silang", "Biasong", "Gov. E. Jaro", "Guintigui-an", "Lukay", "Magcasuang", "Malibago",
+    "Naga-asan", "Pagsulhugon", "Planza", "Poblacion District I", "Poblacion District II", "Poblacion District III",
+    "Poblacion District IV", "Rizal I", "Rizal II", "San Agustin", "San Isidro", "San Ricardo", "Sangputan", "Taguite",
+    "Uban", "Victory", "Villa Magsaysay",
+  ],
+  Barugo: [
+    "Abango", "Amahit", "Balire", "Balud", "Bukid", "Bulod", "Busay", "Cabarasan", "Cabolo-an", "Calingcaguing",
+    "Can-isak", "Canomantag", "Cuta", "Domogdog", "Duka", "Guindaohan", "Hiagsam", "Hilaba", "Hinugayan", "Ibag",
+    "Minuhang", "Minuswang", "Pikas", "Pitogo", "Poblacion Dist. I", "Poblacion Dist. II", "Poblacion Dist. III",
+    "Poblacion Dist. IV", "Poblacion Dist. V", "Poblacion Dist. VI", "Pongso", "Roosevelt", "San Isidro", "San Roque",
+    "Santa Rosa", "Santarin", "Tutug-an",
+  ],
+  Bato: [
+    "Alegria", "Alejos", "Amagos", "Anahawan", "Bago", "Bagong Bayan District", "Buli", "Cebuana", "Daan Lungsod",
+    "Dawahon", "Dolho", "Domagocdoc", "Guerrero District", "Himamaa", "Imelda", "Iniguihan District",
+    "Kalanggaman District", "Katipunan", "Liberty", "Mabini", "Marcelo", "Naga", "Osmeña", "Plaridel", "Ponong",
+    "Rivilla", "San Agustin", "Santo Niño", "Tabunok", "Tagaytay", "Tinago District", "Tugas",
+  ],
+  Baybay: [
+    "Altavista", "Ambacan", "Amguhan", "Ampihanon", "Balao", "Banahao", "Biasong", "Bidlinan", "Bitanhuan", "Bubon",
+    "Buenavista", "Bunga", "Butigan", "Candadam", "Caridad", "Ciabo", "Cogon", "Ga-as", "Gabas", "Gakat", "Guadalupe",
+    "Gubang", "Hibunawan", "Higuloan", "Hilapnitan", "Hipusngo", "Igang", "Imelda", "Jaena", "Kabalasan", "Kabatuan",
+    "Kabungaan", "Kagumay", "Kambonggan", "Kan-ipa", "Kansungka", "Kantagnos", "Kilim", "Lintaon", "Maganhan",
+    "Mahayahay", "Mailhi", "Maitum", "Makinhas", "Mapgap", "Marcos", "Maslug", "Matam-is", "Maybog", "Maypatag",
+    "Monte Verde", "Monterico", "Palhi", "Pangasungan", "Pansagan", "Patag", "Plaridel", "Poblacion Zone 1",
+    "Poblacion Zone 2", "Poblacion Zone 3", "Poblacion Zone 4", "Poblacion Zone 5", "Poblacion Zone 6",
+    "Poblacion Zone 7", "Poblacion Zone 8", "Poblacion Zone 9", "Poblacion Zone 10", "Poblacion Zone 11",
+    "Poblacion Zone 12", "Poblacion Zone 13", "Poblacion Zone 14", "Poblacion Zone 15", "Poblacion Zone 16",
+    "Poblacion Zone 17", "Poblacion Zone 18", "Poblacion Zone 19", "Poblacion Zone 20", "Poblacion Zone 21",
+    "Poblacion Zone 22", "Poblacion Zone 23", "Pomponan", "Punta", "Sabang", "San Agustin", "San Isidro", "San Juan",
+    "Santa Cruz", "Santo Rosario", "Sapa", "Villa Mag-aso", "Villa Solidaridad", "Zacarito",
+  ],
+  Burauen: [
+    "Abuyogon", "Anonang", "Arado", "Balao", "Balatson", "Balorinay", "Bobon", "Buenavista", "Buri", "Caanislagan",
+    "Cadahunan", "Cagangon", "Cali", "Calsadahay", "Candag-on", "Cansiboy", "Catagbacan", "Damulo-an", "Dina-ayan",
+    "Dumalag", "Esperanza", "Gamay", "Gitabla", "Hapunan", "Hibunawan", "Hugpa East", "Hugpa West", "Ilihan", "Kagbana",
+    "Kalao", "Kalipayan", "Kaparasanan", "Laguiwan", "Libas", "Limburan", "Logsongan", "Maabab", "Maghubas", "Mahagnao",
+    "Malabca", "Malaguinabot", "Malaihao", "Matin-ao", "Moguing", "Paghudlan", "Paitan", "Pangdan", "Patag", "Patong",
+    "Pawa", "Poblacion District I", "Poblacion District II", "Poblacion District III", "Poblacion District IV",
+    "Poblacion District IX", "Poblacion District V", "Poblacion District VI", "Poblacion District VII",
+    "Poblacion District VIII", "Roxas", "Sambel", "San Esteban", "San Fernando", "San Jose East", "San Jose West",
+    "San Pablo", "Tabuanon", "Tagadtaran", "Taghuyan", "Takin", "Tambis", "Tambuko", "Toloyao", "Villa Aurora",
+    "Villa Corazon", "Villa Patria", "Villa Rosas",
+  ],
+  Calubian: [
+    "Abanilla", "Agas", "Anislagan", "Bunacan", "Cabalhin", "Cabalquinto", "Cabradilla", "Caneja", "Cantonghao",
+    "Caroyocan", "Casiongan", "Cristina", "Dalumpines", "Don Luis", "Dulao", "Efe", "Enage", "Espinosa",
+    "Ferdinand E. Marcos", "Garganera", "Garrido", "Guadalupe", "Gutosan", "Igang", "Inalad", "Jubay", "Juson",
+    "Kawayan Bogtong", "Kawayanan", "Kokoy Romualdez", "Labtic", "Laray", "M. Veloso", "Mahait", "Malobago", "Matagok",
+    "Nipa", "Obispo", "Padoga", "Pagatpat", "Pangpang", "Patag", "Pates", "Paula", "Petrolio", "Poblacion", "Railes",
+    "Tabla", "Tagharigue", "Tuburan", "Villahermosa", "Villalon", "Villanueva",
+  ],
+  Capoocan: [
+    "Balucanad", "Balud", "Balugo", "Cabul-an", "Culasian", "Gayad", "Guinadiongan", "Lemon", "Libertad", "Manloy",
+    "Nauguisan", "Pinamopoan", "Poblacion Zone I", "Poblacion Zone II", "Potot", "San Joaquin", "Santo Niño",
+    "Talairan", "Talisay", "Tolibao", "Visares",
+  ],
+  Carigara: [
+    "Bagong Lipunan", "Balilit", "Barayong", "Barugohay Central", "Barugohay Norte", "Barugohay Sur", "Baybay",
+    "Binibihan", "Bislig", "Caghalo", "Camansi", "Canal", "Candigahub", "Canfabi", "Canlampay", "Cogon", "Cutay",
+    "East Visoria", "Guindapunan East", "Guindapunan West", "Hiluctogan", "Jugaban", "Libo", "Lower Hiraan",
+    "Lower Sogod", "Macalpi", "Manloy", "Nauguisan", "Paglaum", "Pangna", "Parag-um", "Parina", "Piloro", "Ponong",
+    "Rizal", "Sagkahan", "San Isidro", "San Juan", "San Mateo", "Santa Fe", "Sawang", "Tagak", "Tangnan", "Tigbao",
+    "Tinaguban", "Upper Hiraan", "Upper Sogod", "Uyawan", "West Visoria",
+  ],
+  Dagami: [
+    "Abaca", "Abre", "Balilit", "Balugo", "Banayon", "Bayabas", "Bolirao", "Buenavista", "Buntay", "Caanislagan",
+    "Cabariwan", "Cabuloran", "Cabunga-an", "Calipayan", "Calsadahay", "Caluctogan", "Calutan", "Camono-an",
+    "Candagara", "Canlingga", "Cansamada East", "Cansamada West", "Capulhan", "Digahungan", "Guinarona", "Hiabangan",
+    "Hilabago", "Hinabuyan", "Hinologan", "Hitomnog", "Katipunan", "Lapu-Lapu", "Lobe-Lobe", "Lobe-Lobe East",
+    "Los Martires", "Lusad Pob.", "Macaalang", "Maliwaliw", "Maragongdong", "Ormocay", "Palacio", "Panda", "Paraiso",
+    "Patoc", "Plaridel", "Poponton", "Rizal", "Salvacion", "Sampaguita", "Sampao East Pob.", "Sampao West Pob.",
+    "San Antonio Pob.", "San Benito", "San Jose Pob.", "San Roque Pob.", "Sawahon", "Sirab", "Sta. Mesa Pob.",
+    "Sto. Domingo", "Tagkip", "Talinhugon", "Tin-ao", "Tunga Pob.", "Tuya", "Victoria",
+  ],
+  Dulag: [
+    "Alegre", "Arado", "Barbo", "Batug", "Bolongtohan", "Bulod", "Buntay", "Cabacungan", "Cabarasan", "Cabato-an",
+    "Calipayan", "Calubian", "Cambula District", "Camitoc", "Camote", "Candao", "Catmonan", "Combis", "Dacay",
+    "Del Carmen", "Del Pilar", "Fatima", "General Roxas", "Highway", "Luan", "Magsaysay", "Maricum", "Market Site",
+    "Rawis", "Rizal", "Romualdez", "Sabang Daguitan", "Salvacion", "San Agustin", "San Antonio", "San Isidro",
+    "San Jose", "San Miguel", "San Rafael", "San Vicente", "Serrano", "Sungi", "Tabu", "Tigbao", "Victory",
+  ],
+  Hilongos: [
+    "Agutayan", "Atabay", "Baas", "Bagong Lipunan", "Bagumbayan", "Baliw", "Bantigue", "Bon-ot", "Bung-aw", "Cacao",
+    "Campina", "Catandog 1", "Catandog 2", "Central Barangay", "Concepcion", "Eastern Barangay", "Hampangan", "Himo-aw",
+    "Hitudpan", "Imelda Marcos", "Kang-iras", "Kangha-as", "Lamak", "Libertad", "Liberty", "Lunang", "Magnangoy",
+    "Manaul", "Marangog", "Matapay", "Naval", "Owak", "Pa-a", "Pontod", "Proteccion", "San Agustin", "San Antonio",
+    "San Isidro", "San Juan", "San Roque", "Santa Cruz", "Santa Margarita", "Santo Niño", "Tabunok", "Tagnate",
+    "Talisay", "Tambis", "Tejero", "Tuguipa", "Utanan", "Western Barangay",
+  ],
+  Hindang: [
+    "Anahaw", "Anolon", "Baldoza", "Bontoc", "Bulacan", "Canha-ayon", "Capudlosan", "Doos Del Norte", "Doos Del Sur",
+    "Himacugo", "Himokilan Island", "Katipunan", "Maasin", "Mabagon", "Mahilum", "Poblacion 1", "Poblacion 2",
+    "San Vicente", "Tabok", "Tagbibi",
+  ],
+  Inopacan: [
+    "Apid", "Cabulisan", "Caminto", "Can-angay", "Caulisihan", "Conalum", "De los Santos", "Esperanza", "Guadalupe",
+    "Guinsanga-an", "Hinabay", "Jubasan", "Linao", "Macagoco", "Maljo", "Marao", "Poblacion", "Tahud", "Taotaon",
+    "Tinago",
+  ],
+  Isabel: [
+    "Anislag", "Antipolo", "Apale", "Bantigue", "Benog", "Bilwang", "Can-andan", "Cangag", "Consolacion", "Honan",
+    "Libertad", "Mahayag", "Marvel", "Matlang", "Monte Alegre", "Puting Bato", "San Francisco", "San Roque",
+    "Santa Cruz", "Santo Niño", "Santo Rosario", "Tabunok", "Tolingon", "Tubod",
+  ],
+  Jaro: [
+    "Alahag", "Anibongan", "Atipolo", "Badiang", "Batug", "Bias Zabala", "Buenavista", "Bukid", "Burabod", "Buri",
+    "Canapuan", "Canhandugan", "Crossing Rubas", "Daro", "District I", "District II", "District III", "District IV",
+    "Hiagsam", "Hibucawan", "Hibunawon", "Kaglawaan", "Kalinawan", "La Paz", "Likod", "Macanip", "Macopa", "Mag-aso",
+    "Malobago", "Olotan", "Palanog", "Pange", "Parasan", "Pitogo", "Sagkahan", "San Agustin", "San Pedro", "San Roque",
+    "Santa Cruz", "Santo Niño", "Sari-sari", "Tinambacan", "Tuba", "Uguiao", "Villa Paz", "Villagonzoilo",
+  ],
+  Javier: [
+    "Abuyogay", "Andres Bonifacio", "Batug", "Binulho", "Calzada", "Cancayang", "Caranhug", "Caraye", "Casulongan",
+    "Comatin", "Guindapunan", "Inayupan", "Laray", "Magsaysay", "Malitbogay", "Manarug", "Manlilisid", "Naliwatan",
+    "Odiong", "Picas Norte", "Pinocawan", "Poblacion Zone 1", "Poblacion Zone 2", "Rizal", "San Sotero", "Santa Cruz",
+    "Talisayan", "Ulhay",
+  ],
+  Julita: [
+    "Alegria", "Anibong", "Aslum", "Balante", "Bongdo", "Bonifacio", "Bugho", "Calbasag", "Caridad", "Cuya-e", "Dita",
+    "Gitabla", "Hindang", "Inawangan", "Jurao", "Poblacion District I", "Poblacion District II",
+    "Poblacion District III", "Poblacion District IV", "San Andres", "San Pablo", "Sta. Cruz", "Sto. Niño", "Tagkip",
+    "Tolosahay", "Villa Hermosa",
+  ],
+  Kananga: [
+    "Aguiting", "Cacao", "Hiluctogan", "Kawayan", "Libertad", "Libongao", "Lim-ao", "Lonoy", "Mahawan", "Masarayao",
+    "Monte Alegre", "Monte Bello", "Naghalin", "Natubgan", "Poblacion", "Rizal", "San Ignacio", "San Isidro",
+    "Santo Domingo", "Santo Niño", "Tagaytay", "Tongonan", "Tugbong",
+  ],
+  "La Paz": [
+    "Bagacay East", "Bagacay West", "Bocawon", "Bongtod", "Buracan", "Caabangan", "Cacao", "Cagngaran", "Calabnian",
+    "Calaghusan", "Caltayan", "Canbañez", "Cogon", "Duyog", "Gimiranat East", "Gimiranat West", "Limba", "Lubi-lubi",
+    "Luneta", "Mag-aso", "Moroboro", "Pansud", "Pawa", "Piliway", "Poblacion District 1", "Poblacion District 2",
+    "Poblacion District 3", "Poblacion District 4", "Quiong", "Rizal", "San Victoray", "Santa Ana", "Santa Elena",
+    "Tabang", "Tarugan",
+  ],
+  Leyte: [
+    "Bachao", "Baco", "Bagaba-o", "Basud", "Belen", "Burabod", "Calaguise", "Consuegra", "Culasi", "Danus", "Elizabeth",
+    "Kawayan", "Libas", "Maanda", "Macupa", "Mataloto", "Palarao", "Palid I", "Palid II", "Parasan", "Poblacion",
+    "Salog", "Sambulawan", "Tag-abaca", "Tapol", "Tigbawan", "Tinocdugan", "Toctoc", "Ugbon", "Wague",
+  ],
+  Macarthur: [
+    "Batug", "Burabod", "Capudlosan", "Casuntingan", "Causwagan", "Danao", "Doña Josefa", "General Luna", "Kiling",
+    "Lanawan", "Liwayway", "Maya", "Oguisan", "Osmeña", "Palale 1", "Palale 2", "Poblacion District 1",
+    "Poblacion District 2", "Poblacion District 3", "Pongon", "Quezon", "Romualdez", "Salvacion", "San Antonio",
+    "San Isidro", "San Pedro", "San Vicente", "Santa Isabel", "Tinawan", "Tuyo", "Villa Imelda",
+  ],
+  Mahaplag: [
+    "Campin", "Cuatro De Agosto", "Hiluctogan", "Hilusig", "Himamara", "Hinaguimitan", "Liberacion", "Mabuhay",
+    "Mabunga", "Magsuganao", "Mahayag", "Mahayahay", "Maligaya", "Malinao", "Malipoon", "Palanogan", "Paril",
+    "Pinamonoan", "Poblacion", "Polahongon", "San Isidro", "San Juan", "Sta. Cruz", "Sto. Niño", "Tagaytay", "Uguis",
+    "Union", "Upper Mahaplag",
+  ],
+  "Matag-Ob": [
+    "Balagtas", "Bonoy", "Bulak", "Cambadbad", "Candelaria", "Cansoso", "Imelda", "Malazarte", "Mansahaon", "Mansalip",
+    "Masaba", "Naulayan", "Riverside", "San Dionisio", "San Guillermo", "San Marcelino", "San Sebastian", "San Vicente",
+    "Santa Rosa", "Santo Rosario", "Talisay",
+  ],
+  Matalom: [
+    "Agbanga", "Altavista", "Bagong Lipunan", "Cahagnaan", "Calumpang", "Caningag", "Caridad Norte", "Caridad Sur",
+    "Elevado", "Esperanza", "Hitoog", "Itum", "Lowan", "Monte Alegre", "President Garcia", "Punong", "San Isidro",
+    "San Juan", "San Pedro", "San Salvador", "San Vicente", "Santa Fe", "Santa Paz", "Santo Niño", "Tag-os",
+    "Taglibas Imelda", "Templanza", "Tigbao", "Waterloo", "Zaragoza",
+  ],
+  Mayorga: [
+    "A. Bonifacio", "Burgos", "Calipayan", "Camansi", "General Antonio Luna", "Liberty", "Mabini", "Ormocay",
+    "Poblacion Zone 1", "Poblacion Zone 2", "Poblacion Zone 3", "San Roque", "Santa Cruz", "Talisay", "Union", "Wilson",
+  ],
+  Merida: [
+    "Binabaye", "Cabaliwan", "Calunangan", "Calunasan", "Cambalong", "Can-unzo", "Canbantug", "Casilda", "Lamanoc",
+    "Libas", "Libjo", "Lundag", "Macario", "Mahalit", "Mahayag", "Masumbang", "Mat-e", "Poblacion", "Puerto Bello",
+    "San Isidro", "San Jose", "Tubod",
+  ],
+  Ormoc: [
+    "Airport", "Alegria", "Alta Vista", "Bagong", "Bagong Buhay", "Bantigue", "Barangay East", "Barangay North",
+    "Barangay South", "Barangay West", "Batuan", "Bayog", "Biliboy", "Borok", "Cabaon-an", "Cabintan", "Cabulihan",
+    "Cagbuhangin", "Camp Downes", "Can-adieng", "Can-untog", "Catmon", "Cogon Combado", "Concepcion", "Curva", "Danao",
+    "Danhug", "Dayhagan", "Dolores", "Domonar", "Don Felipe Larrazabal", "Don Potenciano Larrazabal", "Donghol",
+    "Doña Feliza Z. Mejia", "Esperanza", "Gaas", "Green Valley", "Guintigui-an", "Hibunawon", "Hugpa", "Ipil", "Juaton",
+    "Kadaohan", "Labrador", "Lao", "Leondoni", "Libertad", "Liberty", "Licuma", "Liloan", "Linao", "Luna", "Mabato",
+    "Mabini", "Macabug", "Magaswi", "Mahayag", "Mahayahay", "Manlilinao", "Margen", "Mas-in", "Matica-a", "Milagro",
+    "Monterico", "Nasunogan", "Naungan", "Nueva Sociedad", "Nueva Vista", "Patag", "Punta", "Quezon, Jr.",
+    "Rufina M. Tan", "Sabang Bao", "Salvacion", "San Antonio", "San Isidro", "San Jose", "San Juan", "San Pablo",
+    "San Vicente", "Santo Niño", "Sumangga", "Tambulilid", "Tongonan", "Valencia",
+  ],
+  Palo: [
+    "Anahaway", "Arado", "Baras", "Barayong", "Buri", "Cabarasan Daku", "Cabarasan Guti", "Campetik", "Candahug",
+    "Cangumbang", "Canhidoc", "Capirawan", "Castilla", "Cavite East", "Cavite West", "Cogon", "Gacao", "Guindapunan",
+    "Libertad", "Luntad", "Naga-naga", "Pawing", "Salvacion", "San Agustin", "San Antonio", "San Fernando",
+    "San Isidro", "San Joaquin", "San Jose", "San Miguel", "Santa Cruz", "Tacuranga", "Teraza",
+  ],
+  Palompon: [
+    "Baguinbin", "Belen", "Bitaog Pob.", "Buenavista", "Caduhaan", "Cambakbak", "Cambinoy", "Cangcosme", "Cangmuya",
+    "Canipaan", "Cantandoy", "Cantuhaon", "Catigahan", "Central 1", "Central 2", "Cruz", "Duljugan", "Guiwan 1",
+    "Guiwan 2", "Himarco", "Hinablayan Pob.", "Hinagbuan", "Lat-osan", "Liberty", "Lomonon", "Mabini", "Magsaysay",
+    "Masaba", "Mazawalo Pob.", "Parilla", "Pinagdait Pob.", "Pinaghi-usa Pob.", "Plaridel", "Rizal", "Sabang",
+    "San Guillermo", "San Isidro", "San Joaquin", "San Juan", "San Miguel", "San Pablo", "San Pedro", "San Roque",
+    "Santiago", "Taberna", "Tabunok", "Tambis", "Tinabilan", "Tinago", "Tinubdan",
+  ],
+  Pastrana: [
+    "Arabunog", "Aringit", "Bahay", "Cabaohan", "Calsadahay", "Cancaraja", "Caninoan", "Capilla", "Colawen",
+    "District 1", "District 2", "District 3", "District 4", "Dumarag", "Guindapunan", "Halaba", "Jones", "Lanawan",
+    "Lima", "Lourdes", "Macalpiay", "Malitbogay", "Manaybanay", "Maricum", "Patong", "Sapsap", "Socsocon", "Tingib",
+    "Yapad",
+  ],
+  "San Isidro": [
+    "Banat-e", "Basud", "Bawod", "Biasong", "Bunacan", "Busay", "Cabungaan", "Capiñahan", "Crossing", "Daja-daku",
+    "Daja-diot", "Hacienda Maria", "Linao", "Matungao", "Paril", "San Jose", "San Miguel", "Taglawigan", "Tinago",
+  ],
+  "San Miguel": [
+    "Bagacay", "Bahay", "Bairan", "Cabatianuhan", "Canap", "Capilihan", "Caraycaray", "Cayare", "Guinciaman", "Impo",
+    "Kinalumsan", "Libtong", "Lukay", "Malaguinabot", "Malpag", "Mawodpawod", "Patong", "Pinarigusan", "San Andres",
+    "Santa Cruz", "Santol",
+  ],
+  "Santa Fe": [
+    "Baculanad", "Badiangay", "Bulod", "Catoogan", "Cutay", "Gapas", "Katipunan", "Milagrosa", "Pilit", "Pitogo",
+    "San Isidro", "San Juan", "San Miguelay", "San Roque", "Tibak", "Victoria", "Zone 1", "Zone 2", "Zone 3",
+    "Zone 4 Pob.",
+  ],
+  Tabango: [
+    "Butason I", "Butason II", "Campokpok", "Catmon", "Gibacungan", "Gimarco", "Inangatan", "Manlawaan", "Omaganhan",
+    "Poblacion", "Santa Rosa", "Tabing", "Tugas",
+  ],
+  Tabontabon: [
+    "Amandangay", "Aslum", "Balingasag", "Belisong", "Cambucao", "Capahuan", "District I Pob.", "District II Pob.",
+    "District III Pob.", "District IV Pob.", "Guingauan", "Jabong", "Mercaduhay", "Mering", "Mohon", "San Pablo",
+  ],
+  Tanauan: [
+    "Ada", "Amanluran", "Arado", "Atipolo", "Balud", "Bangon", "Bantagan", "Baras", "Binolo", "Binongto-an", "Bislig",
+    "Buntay", "Cabalagnan", "Cabarasan Guti", "Cabonga-an", "Cabuynan", "Cahumayhumayan", "Calogcog", "Calsadahay",
+    "Camire", "Canbalisara", "Canramos", "Catigbian", "Catmon", "Cogon", "Guindag-an", "Guingawan", "Hilagpad",
+    "Kiling", "Lapay", "Licod", "Limbuhan Daku", "Limbuhan Guti", "Linao", "Magay", "Maghulod", "Malaguicay", "Maribi",
+    "Mohon", "Pago", "Pasil", "Pikas", "Sacme", "Salvador", "San Isidro", "San Miguel", "San Roque", "San Victor",
+    "Santa Cruz", "Santa Elena", "Santo Niño Pob.", "Solano", "Talolora", "Tugop",
+  ],
+  Tolosa: [
+    "Burak", "Canmogsay", "Cantariwis", "Capangihan", "Doña Brigida", "Imelda", "Malbog", "Olot", "Opong", "Poblacion",
+    "Quilao", "San Roque", "San Vicente", "Tanghas", "Telegrafo",
+  ],
+  Tunga: [
+    "Astorga", "Balire", "Banawang", "San Antonio", "San Pedro", "San Roque", "San Vicente", "Santo Niño",
+  ],
+  Villaba: [
+    "Abijao", "Balite", "Bangcal", "Bugabuga", "Cabunga-an", "Cabungahan", "Cagnocot", "Cahigan", "Calbugos",
+    "Camporog", "Canquiason", "Capinyahan", "Casili-on", "Catagbacan", "Fatima", "Hibulangan", "Hinabuyan", "Iligay",
+    "Jalas", "Jordan", "Libagong", "New Balanac", "Payao", "Poblacion Norte", "Poblacion Sur", "Sambulawan",
+    "San Francisco", "San Vicente", "Santa Cruz", "Silad", "Suba", "Sulpa", "Tabunok", "Tagbubunga", "Tinghub",
+  ],
+}
@@ -0,0 +1,68 @@
+// Barangays of each town in Maguindanao del Norte, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Barira: [
+    "Barira", "Bualan", "Gadung", "Korosoyan", "Lamin", "Liong", "Lipa", "Lipawan", "Marang", "Minabay", "Nabalawag",
+    "Panggao", "Rominimbang", "Togaig",
+  ],
+  Buldon: [
+    "Ampuan", "Aratuc", "Cabayuan", "Calaan", "Dinganen", "Edcor", "Karim", "Kulimpang", "Mataya", "Minabay", "Nuyo",
+    "Oring", "Pantawan", "Piers", "Rumidas",
+  ],
+  Cotabato: [
+    "Bagua", "Bagua I", "Bagua II", "Bagua III", "Kalanganan", "Kalanganan I", "Kalanganan II", "Poblacion",
+    "Poblacion I", "Poblacion II", "Poblacion III", "Poblacion IV", "Poblacion IX", "Poblacion V", "Poblacion VI",
+    "Poblacion VII", "Poblacion VIII", "Rosary Heights", "Rosary Heights I", "Rosary Heights II", "Rosary Heights III",
+    "Rosary Heights IV", "Rosary Heights IX", "Rosary Heights V", "Rosary Heights VI", "Rosary Heights VII",
+    "Rosary Heights VIII", "Rosary Heights X", "Rosary Heights XI", "Rosary Heights XII", "Rosary Heights XIII",
+    "Tamontaka", "Tamontaka I", "Tamontaka II", "Tamontaka III", "Tamontaka IV", "Tamontaka V",
+  ],
+  "Datu Blah T. Sinsuat": [
+    "Kinimi", "Laguitan", "Lapaken", "Matuber", "Meti", "Nalkan", "Penansaran", "Pura", "Resa", "Sedem", "Sinipak",
+    "Tambak", "Tubuan",
+  ],
+  "Datu Odin Sinsuat": [
+    "Ambolodto", "Awang", "Badak", "Bagoenged", "Baka", "Benolen", "Bitu", "Bongued", "Bugawas", "Capiton", "Dados",
+    "Dalican Poblacion", "Dinaig Proper", "Dulangan", "Kakar", "Kenebeka", "Kurintem", "Kusiong", "Labungan", "Linek",
+    "Makir", "Margues", "Mompong", "Nekitan", "Sapalan", "Semba", "Sibuto", "Sifaren", "Tambak", "Tamontaka", "Tanuel",
+    "Tapian", "Taviran", "Tenonggos",
+  ],
+  Kabuntalan: [
+    "Bagumbayan", "Buterin", "Dadtumog", "Gambar", "Ganta", "Katidtuan", "Langeban", "Liong", "Lower Taviran",
+    "Maitong", "Matilak", "Pagalungan", "Payan", "Pedtad", "Pened", "Poblacion", "Upper Taviran",
+  ],
+  Matanog: [
+    "Bayanga Norte", "Bayanga Sur", "Bugasan Norte", "Bugasan Sur", "Kidama", "Langco", "Langkong", "Sapad",
+  ],
+  "Northern Kabuntalan": [
+    "Balong", "Damatog", "Gayonga", "Guiawa", "Indatuan", "Kapimpilan", "Libungan", "Montay", "Paulino Labio",
+    "Sabaken", "Tumaguinting",
+  ],
+  Parang: [
+    "Bongo Island", "Campo Islam", "Cotongan", "Datu Macarimbang Biruar", "Gadungan", "Gadunganpedpandaran",
+    "Guiday T. Biruar", "Gumagadong Calawag", "Kabuan", "Landasan", "Limbayan", "Macasandag", "Magsaysay", "Making",
+    "Manion", "Moro Point", "Nituan", "Orandang", "Pinantao", "Poblacion", "Poblacion II", "Polloc", "Samberen",
+    "Tagudtongan", "Tuca-Maror",
+  ],
+  "Sultan Kudarat": [
+    "Alamada", "Banatin", "Banubo", "Bulalo", "Bulibod", "Calsada", "Crossing Simuay", "Dalumangcob", "Damaniog",
+    "Darapanan", "Gang", "Inawan", "Kabuntalan", "Kakar", "Kapimpilan", "Katamlangan", "Katidtuan", "Katuli", "Ladia",
+    "Limbo", "Maidapa", "Makaguiling", "Matengen", "Mulaug", "Nalinan", "Nara", "Nekitan", "Olas", "Panatan",
+    "Pigcalagan", "Pigkelegan", "Pinaring", "Pingping", "Raguisi", "Rebuken", "Salimbao", "Sambolawan", "Senditan",
+    "Ungap",
+  ],
+  "Sultan Mastura": [
+    "Balut", "Boliok", "Bungabong", "Dagurongan", "Kirkir", "Macabico", "Namuken", "Simuay/Seashore", "Solon", "Tambo",
+    "Tapayan", "Tariken", "Tuka",
+  ],
+  Talitay: [
+    "Bintan", "Gadungan", "Kiladap", "Kilalan", "Kuden", "Makadayon", "Manggay", "Pageda", "Talitay",
+  ],
+  Upi: [
+    "Bantek", "Bayabas", "Blensong", "Borongotan", "Bugabungan", "Bungcog", "Darugao", "Ganasi", "Kabakaba", "Kibleg",
+    "Kibucay", "Kiga", "Kinitan", "Mirab", "Nangi", "Nuro Poblacion", "Ranao Pilayan", "Rempes", "Renede", "Renti",
+    "Rifao", "Sefegefen", "Tinungkaan",
+  ],
+}
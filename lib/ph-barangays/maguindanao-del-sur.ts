@@ -0,0 +1,95 @@
+// Barangays of each town in Maguindanao del Sur, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Ampatuan: [
+    "Dicalongan", "Kakal", "Kamasi", "Kapinpilan", "Kauran", "Malatimon", "Matagabong", "Salman", "Saniag", "Tomicor",
+    "Tubak",
+  ],
+  Buluan: [
+    "Digal", "Lower Siling", "Maslabeng", "Poblacion", "Popol", "Talitay", "Upper Siling",
+  ],
+  "Datu Abdullah Sangki": [
+    "Banaba", "Dimampao", "Guinibon", "Kaya-kaya", "Maganoy", "Mao", "Maranding", "Sugadol", "Talisawa", "Tukanolocong",
+  ],
+  "Datu Anggal Midtimbang": [
+    "Adaon", "Brar", "Mapayag", "Midtimbang", "Nunangan", "Tugal", "Tulunan",
+  ],
+  "Datu Hoffer Ampatuan": [
+    "Kubentong", "Labu-labu I", "Labu-labu II", "Limpongo", "Macalag", "Sayap", "Taib", "Talibadok", "Tuayan",
+    "Tuayan I", "Tuntungan",
+  ],
+  "Datu Paglas": [
+    "Alip", "Bonawan", "Bulod", "Damalusay", "Damawato", "Datang", "Elbebe", "Kalumenga", "Katil", "Lipao", "Lomoyon",
+    "Madidis", "Makat", "Malala", "Mangadeg", "Manindolo", "Mao", "Napok", "Palao sa Buto", "Poblacion", "Puya",
+    "Salendab", "Sepaka",
+  ],
+  "Datu Piang": [
+    "Alonganan", "Ambadao", "Balanakan", "Balong", "Buayan", "Dado", "Damabalas", "Duaminanga", "Kalipapa", "Kanguan",
+    "Liong", "Magaslong", "Masigay", "Montay", "Poblacion", "Reina Regente",
+  ],
+  "Datu Salibo": [
+    "Alonganan", "Andavit", "Balanakan", "Buayan", "Butilen", "Dado", "Damabalas", "Duaminanga", "Kalipapa", "Liong",
+    "Magaslong", "Masigay", "Pagatin", "Pandi", "Penditen", "Sambulawan", "Tee",
+  ],
+  "Datu Saudi Ampatuan": [
+    "Dapiawan", "Elian", "Gawang", "Kabengi", "Kitango", "Kitapok", "Madia", "Salbu",
+  ],
+  "Datu Unsay": [
+    "Bulayan", "Iganagampong", "Macalag", "Maitumaig", "Malangog", "Meta", "Panangeti", "Tuntungan",
+  ],
+  "Gen. S.K. Pendatun": [
+    "Badak", "Bulod", "Kaladturan", "Kulasi", "Lao-lao", "Lasangan", "Lower Idtig", "Lumabao", "Makainis", "Midconding",
+    "Midpandacan", "Panosolen", "Pidtiguian", "Quipolot", "Ramcor", "Sadangen", "Sumakubay", "Tonggol",
+    "Upper Lasangan",
+  ],
+  Guindulungan: [
+    "Ahan", "Bagan", "Datalpandan", "Kalumamis", "Kateman", "Lambayao", "Macasampen", "Muslim", "Muti", "Sampao",
+    "Tambunan II",
+  ],
+  Mamasapano: [
+    "Bagumbong", "Dabenayan", "Daladap", "Dasikil", "Liab", "Libutan", "Lusay", "Mamasapano", "Manongkaling",
+    "Pidsandawan", "Pimbalakan", "Sapakan", "Tuka", "Tukanalipao",
+  ],
+  Mangudadatu: [
+    "Daladagan", "Kalian", "Luayan", "Paitan", "Panapan", "Tenok", "Tinambulan", "Tumbao",
+  ],
+  Pagagawan: [
+    "Balatungkayo", "Bulit", "Bulod", "Dungguan", "Limbalud", "Maridagao", "Nabundas", "Pagagawan", "Talapas",
+    "Talitay", "Tunggol",
+  ],
+  Pagalungan: [
+    "Bagoenged", "Buliok", "Dalgan", "Damalasak", "Galakit", "Inug-ug", "Kalbugan", "Kilangan", "Kudal", "Layog",
+    "Linandangan", "Poblacion",
+  ],
+  Paglat: [
+    "Campo", "Damakling", "Damalusay", "Kakal", "Paglat", "Salam", "Tual", "Upper Idtig",
+  ],
+  Pandag: [
+    "Kabuling", "Kayaga", "Kayupo", "Lepak", "Lower Dilag", "Malangit", "Pandag", "Upper Dilag",
+  ],
+  "Rajah Buayan": [
+    "Baital", "Bakat", "Dapantis", "Gaunan", "Malibpolok", "Mileb", "Panadtaban", "Pidsandawan", "Sampao", "Sapakan",
+    "Tabungao",
+  ],
+  "Shariff Aguak": [
+    "Bagong", "Bialong", "Kuloy", "Labu-labu", "Lapok", "Malingao", "Poblacion", "Poblacion I", "Poblacion II", "Satan",
+    "Tapikan", "Timbangan", "Tina",
+  ],
+  "Shariff Saydona Mustapha": [
+    "Bakat", "Dale-Bong", "Dasawao", "Datu Bakal", "Datu Kilay", "Duguengen", "Ganta", "Inaladan", "Libutan",
+    "Linantangan", "Nabundas", "Pagatin", "Pagatin (Pagatin I)", "Pamalian", "Pikeg", "Pusao",
+  ],
+  "South Upi": [
+    "Biarong", "Bongo", "Itaw", "Kigan", "Kuya", "Lamud", "Looy", "Pandan", "Pilar", "Romangaob", "San Jose",
+  ],
+  "Sultan Sa Barongis": [
+    "Angkayamat", "Barurao", "Bulod", "Darampua", "Gadungan", "Kulambog", "Langgapanan", "Masulot", "Paldong",
+    "Papakan", "Tugal", "Tukanakuden",
+  ],
+  Talayan: [
+    "Binangga North", "Binangga South", "Boboguiron", "Damablac", "Fugotan", "Fukol", "Katibpuan", "Kedati", "Lanting",
+    "Linamunan", "Marader", "Talayan", "Tamar", "Tambunan I", "Timbaluan",
+  ],
+}
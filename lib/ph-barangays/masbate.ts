@@ -0,0 +1,118 @@
+// Barangays of each town in Masbate, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Aroroy: [
+    "Ambolong", "Amoroy", "Amotag", "Bagauma", "Balawing", "Balete", "Bangon", "Cabangcalan", "Cabas-An", "Calanay",
+    "Capsay", "Concepcion", "Dayhagan", "Don Pablo Dela Rosa", "Gumahang", "Jaboyoan", "Lanang", "Luy-a", "Macabug",
+    "Malubi", "Managanaga", "Manamoc", "Mariposa", "Mataba", "Matalangtalang", "Matongog", "Nabongsoran", "Pangle",
+    "Panique", "Pinanaan", "Poblacion", "Puro", "San Agustin", "San Isidro", "Sawang", "Syndicate", "Talabaan", "Talib",
+    "Tigbao", "Tinago", "Tinigban",
+  ],
+  Baleno: [
+    "Baao", "Banase", "Batuila", "Cagara", "Cagpandan", "Cancahorao", "Canjunday", "Docol", "Eastern Capsay", "Gabi",
+    "Gangao", "Lagta", "Lahong Interior", "Lahong Proper", "Lipata", "Madangcalan", "Magdalena", "Manoboc",
+    "Obongon Diot", "Poblacion", "Polot", "Potoson", "Sog-Ong", "Tinapian",
+  ],
+  Balud: [
+    "Baybay", "Bongcanaway", "Calumpang", "Cantil", "Casamongan", "Danao", "Dao", "Guinbanwahan", "Ilaya", "Jangan",
+    "Jintotolo", "Mabuhay", "Mapili", "Mapitogo", "Pajo", "Palane", "Panguiranan", "Panubigan", "Poblacion",
+    "Pulanduta", "Quinayangan Diotay", "Quinayangan Tonga", "Salvacion", "Sampad", "San Andres", "San Antonio",
+    "Sapatos", "Talisay", "Tonga", "Ubo", "Victory", "Villa Alvarez",
+  ],
+  Batuan: [
+    "Burgos", "Cambañez", "Canares", "Costa Rica", "Danao", "Gibraltar", "Mabuhay", "Matabao", "Nasandig", "Panisihan",
+    "Poblacion", "Rizal", "Royroy", "Sawang",
+  ],
+  Cataingan: [
+    "Abaca", "Aguada", "Badiang", "Bagumbayan", "Cadulawan", "Cagbatang", "Chimenea", "Concepcion", "Curvada",
+    "Divisoria", "Domorog", "Estampar", "Gahit", "Libtong", "Liong", "Maanahao", "Madamba", "Malobago", "Matayum",
+    "Matubinao", "Mintac", "Nadawisan", "Osmeña", "Pawican", "Pitogo", "Poblacion", "Quezon", "San Isidro", "San Jose",
+    "San Pedro", "San Rafael", "Santa Teresita", "Santo Niño", "Tagboan", "Tuybo", "Villa Pogado",
+  ],
+  Cawayan: [
+    "Begia", "Cabayugan", "Cabungahan", "Calapayan", "Calumpang", "Chico Island", "Dalipe", "Divisoria", "Gilotongan",
+    "Guiom", "Iraya", "Itombato", "Lague-lague", "Libertad", "Looc", "Mactan", "Madbad", "Mahayahay", "Maihao",
+    "Malbug", "Naro", "Palobandera", "Pananawan", "Peña Island", "Pin-As", "Poblacion", "Pulot", "Punta Batsan",
+    "R.M. Magbalon", "Recodo", "San Jose", "San Vicente", "Taberna", "Talisay", "Tubog", "Tuburan", "Villahermosa",
+  ],
+  Claveria: [
+    "Albasan", "Boca Engaño", "Buyo", "Calpi", "Canomay", "Cawayan", "Imelda", "Mababang Baybay", "Mabiton", "Manapao",
+    "Nabasagan", "Nonoc", "Osmeña", "Pasig", "Peñafrancia", "Poblacion District I", "Poblacion District II", "Quezon",
+    "San Isidro", "San Ramon", "San Vicente", "Taguilid",
+  ],
+  Dimasalang: [
+    "Balantay", "Balocawe", "Banahao", "Buenaflor", "Buracan", "Cabanoyoan", "Cabrera", "Cadulan", "Calabad", "Canomay",
+    "Divisoria", "Gaid", "Gregorio Alino", "Magcaraguit", "Mambog", "Poblacion", "Rizal", "San Vicente", "Suba",
+    "T.R. Yangco",
+  ],
+  Esperanza: [
+    "Agoho", "Almero", "Baras", "Domorog", "Guadalupe", "Iligan", "Labangtaytay", "Labrador", "Libertad", "Magsaysay",
+    "Masbaranon", "Poblacion", "Potingbato", "Rizal", "San Roque", "Santiago", "Sorosimbajan", "Tawad", "Tunga",
+    "Villa",
+  ],
+  Mandaon: [
+    "Alas", "Ayat", "Bat-Ongan", "Bugtong", "Buri", "Cabitan", "Cagmasoso", "Canomoy", "Centro", "Dayao", "Guincaiptan",
+    "Laguinbanwa", "Lantangan", "Looc", "Mabatobato", "Maolingon", "Nailaban", "Nanipsan", "Pinamangcaan", "Poblacion",
+    "Polo Dacu", "San Juan", "San Pablo", "Santa Fe", "Tagpu", "Tumalaytay",
+  ],
+  Masbate: [
+    "Anas", "Asid", "B. Titong", "Bagumbayan", "Bantigue", "Bapor", "Batuhan", "Bayombon", "Biyong", "Bolo", "Cagay",
+    "Cawayan Exterior", "Cawayan Interior", "Centro", "Espinosa", "F. Magallanes", "Ibingay", "Igang", "Kalipay",
+    "Kinamaligan", "Malinta", "Mapiña", "Mayngaran", "Nursery", "Pating", "Pawa", "Sinalongan", "Tugbo", "Ubongan Dacu",
+    "Usab",
+  ],
+  Milagros: [
+    "Bacolod", "Bangad", "Bara", "Bonbon", "Calasuche", "Calumpang", "Capaculan", "Cayabon", "Guinluthangan",
+    "Jamorawon", "Magsalangi", "Matagbac", "Matanglad", "Matiporon", "Moises R. Espinosa", "Narangasan", "Pamangpangon",
+    "Paraiso", "Poblacion East", "Poblacion West", "San Antonio", "San Carlos", "Sawmill", "Tagbon", "Tawad", "Tigbao",
+    "Tinaclipan",
+  ],
+  Mobo: [
+    "Baang", "Bagacay", "Balatucan", "Barag", "Dacu", "Fabrica", "Guintorelan", "Holjogon", "Lalaguna", "Lomocloc",
+    "Luyong Catungan", "Mabuhay", "Mandali", "Mapuyo", "Marintoc", "Nasunduan", "Pinamalatican", "Pinamarbuhan",
+    "Poblacion Dist. I", "Poblacion Dist. II", "Polot", "Sambulawan", "Santa Maria", "Sawmill", "Tabuc", "Tugawe",
+    "Tugbo", "Umabay Exterior", "Umabay Interior",
+  ],
+  Monreal: [
+    "Cantorna", "Famosa", "Guinhadap", "Macarthur", "Maglambong", "Morocborocan", "Poblacion", "Real", "Rizal",
+    "Santo Niño", "Togoron",
+  ],
+  Palanas: [
+    "Antipolo", "Banco", "Biga-a", "Bontod", "Buenasuerte", "Intusan", "Jose A. Abenir Sr.", "Maanahao", "Mabini",
+    "Malatawan", "Malibas", "Maravilla", "Matugnao", "Miabas", "Nabangig", "Nipa", "Parina", "Piña", "Poblacion",
+    "Salvacion", "San Antonio", "San Carlos", "San Isidro", "Santa Cruz",
+  ],
+  "Pio V. Corpus": [
+    "Alegria", "Buenasuerte", "Bugang", "Bugtong", "Bunducan", "Cabangrayan", "Calongongan", "Casabangan",
+    "Guindawahan", "Labigan", "Lampuyang", "Mabuhay", "Palho", "Poblacion", "Salvacion", "Tanque", "Tubigan", "Tubog",
+  ],
+  Placer: [
+    "Aguada", "Ban-Ao", "Burabod", "Cabangcalan", "Calumpang", "Camayabsan", "Daanlungsod", "Dangpanan", "Daraga",
+    "Guin-Awayan", "Guinhan-Ayan", "Katipunan", "Libas", "Locso-An", "Luna", "Mahayag", "Mahayahay", "Manlut-Od",
+    "Matagantang", "Naboctot", "Nagarao", "Nainday", "Naocondiot", "Pasiagon", "Pili", "Poblacion", "Puro", "Quibrada",
+    "San Marcos", "Santa Cruz", "Taboc", "Tan-Awan", "Taverna", "Tubod", "Villa Inocencio",
+  ],
+  "San Fernando": [
+    "Altavista", "Bayanihan Pob.", "Baybaydagat Pob.", "Benitinan", "Buenasuerte", "Buenavista", "Buenos Aires", "Buyo",
+    "Cañelas", "Corbada", "Daplian", "Del Rosario", "Ipil", "Lahong", "Lumbia", "Magkaipit", "Magsasaka Pob.", "Minio",
+    "Pinamoghaan", "Progreso", "Resurreccion", "Salvacion", "Silangan Pob.", "Sowa", "Talisay", "Valparaiso",
+  ],
+  "San Jacinto": [
+    "Almiñe", "Bagacay", "Bagahanglad", "Bartolabac", "Burgos", "Calipat-An", "Danao", "District I", "District II",
+    "District III", "District IV", "Dorong-an Daplian", "Interior", "Jagna-an", "Luna", "Mabini", "Piña", "Roosevelt",
+    "San Isidro", "Santa Rosa", "Washington",
+  ],
+  "San Pascual": [
+    "Boca Chica", "Bolod", "Busing", "Cueva", "Dangcalan", "Halabangbaybay", "Iniwaran", "Ki-Buaya", "Ki-Romero",
+    "Laurente", "Mabini", "Mabuhay", "Malaking Ilog", "Mapanique", "Nazareno", "Pinamasingan", "Quintina", "San Jose",
+    "San Pedro", "San Rafael", "Santa Cruz", "Terraplin",
+  ],
+  Uson: [
+    "Arado", "Armenia", "Aurora", "Badling", "Bonifacio", "Buenasuerte", "Buenavista", "Campana", "Candelaria",
+    "Centro", "Crossing", "Dapdap", "Del Carmen", "Del Rosario", "Libertad", "Mabini", "Mabuhay", "Madao", "Magsaysay",
+    "Marcella", "Miaga", "Mongahay", "Morocborocan", "Paguihaman", "Panicijan", "Poblacion", "Quezon", "San Isidro",
+    "San Jose", "San Mateo", "San Ramon", "San Vicente", "Santo Cristo", "Sawang", "Simawa",
+  ],
+}
@@ -0,0 +1,105 @@
+// Barangays of each town in Misamis Occidental, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Aloran: [
+    "Balintonga", "Banisilon", "Burgos", "Calube", "Caputol", "Casusan", "Conat", "Culpan", "Dalisay", "Dullan",
+    "Ibabao", "Labo", "Lawa-an", "Lobogon", "Lumbayao", "Macubon", "Makawa", "Manamong", "Matipaz", "Maular", "Mitazan",
+    "Mohon", "Monterico", "Nabuna", "Ospital", "Palayan", "Pelong", "Roxas", "San Pedro", "Santa Ana", "Sinampongan",
+    "Taguanao", "Tawi-tawi", "Toril", "Tubod", "Tuburan", "Tugaya", "Zamora",
+  ],
+  Baliangao: [
+    "Del Pilar", "Landing", "Lumipac", "Lusot", "Mabini", "Magsaysay", "Misom", "Mitacas", "Naburos",
+    "Northern Poblacion", "Punta Miray", "Punta Sulong", "Sinian", "Southern Poblacion", "Tugas",
+  ],
+  Bonifacio: [
+    "Bag-ong Anonang", "Bagumbang", "Baybay", "Bolinsong", "Buenavista", "Buracan", "Calolot", "Demetrio Fernan",
+    "Digson", "Dimalco", "Dullan", "Kanaokanao", "Liloan", "Linconan", "Lodiong", "Lower Usugan", "Mapurog", "Migpange",
+    "Montol", "Pisa-an", "Poblacion", "Remedios", "Rufino Lumapas", "Sibuyon", "Tangab", "Tiaman", "Tusik",
+    "Upper Usogan",
+  ],
+  Calamba: [
+    "Bonifacio", "Bunawan", "Calaran", "Dapacan Alto", "Dapacan Bajo", "Don Bernardo Nery Pob.", "Langub", "Libertad",
+    "Magcamiguing", "Mamalad", "Mauswagon", "Northern Poblacion", "Salvador", "San Isidro", "Siloy", "Singalat",
+    "Solinog", "Southwestern Poblacion", "Sulipat",
+  ],
+  Clarin: [
+    "Bernad", "Bito-on", "Cabunga-an", "Canibungan Daku", "Canibungan Putol", "Canipacan", "Dalingap", "Dela Paz",
+    "Dolores", "Gata Daku", "Gata Diot", "Guba", "Kinangay Norte", "Kinangay Sur", "Lapasan", "Lupagan", "Malibangcao",
+    "Masabud", "Mialen", "Pan-ay", "Penacio", "Poblacion I", "Poblacion II", "Poblacion III", "Poblacion IV", "Sebasi",
+    "Segatic Daku", "Segatic Diot", "Tinacla-an",
+  ],
+  Concepcion: [
+    "Bagong Nayon", "Capule", "Guiban", "Laya-an", "Lingatongan", "Maligubaan", "Mantukoy", "Marugang", "New Casul",
+    "Poblacion", "Pogan", "Small Potongan", "Soso-on", "Upper Dapitan", "Upper Dioyo", "Upper Potongan",
+    "Upper Salimpono", "Virayan",
+  ],
+  "Don Victoriano Chiongbian": [
+    "Bagong Clarin", "Gandawan", "Lake Duminagat", "Lalud", "Lampasan", "Liboron", "Maramara", "Napangan",
+    "Nueva Vista", "Petianan", "Tuno",
+  ],
+  Jimenez: [
+    "Adorable", "Butuay", "Carmen", "Corrales", "Dicoloc", "Gata", "Guintomoyan", "Macabayao", "Malibacsan",
+    "Matugas Alto", "Matugas Bajo", "Mialem", "Nacional", "Naga", "Palilan", "Rizal", "San Isidro", "Santa Cruz",
+    "Seti", "Sibaroc", "Sinara Alto", "Sinara Bajo", "Tabo-o", "Taraka",
+  ],
+  "Lopez Jaena": [
+    "Alegria", "Bagong Silang", "Biasong", "Bonifacio", "Burgos", "Dalacon", "Dampalan", "Don Andres Soriano",
+    "Eastern Poblacion", "Estante", "Jasa-an", "Katipa", "Luzaran", "Mabas", "Macalibre Alto", "Macalibre Bajo",
+    "Mahayahay", "Manguehan", "Mansabay Alto", "Mansabay Bajo", "Molatuhan Alto", "Molatuhan Bajo", "Peniel", "Puntod",
+    "Rizal", "Sibugon", "Sibula", "Western Poblacion",
+  ],
+  Oroquieta: [
+    "Apil", "Binuangan", "Bolibol", "Buenavista", "Bunga", "Buntawan", "Burgos", "Canubay", "Ciriaco C. Pastrano",
+    "Clarin Settlement", "Dolipos Alto", "Dolipos Bajo", "Dulapo", "Dullan Norte", "Dullan Sur", "Lamac Lower",
+    "Lamac Upper", "Langcangan Lower", "Langcangan Proper", "Langcangan Upper", "Layawan", "Loboc Lower", "Loboc Upper",
+    "Malindang", "Mialen", "Mobod", "Paypayan", "Pines", "Poblacion I", "Poblacion II", "Rizal Lower", "Rizal Upper",
+    "San Vicente Alto", "San Vicente Bajo", "Sebucal", "Senote", "Taboc Norte", "Taboc Sur", "Talairon", "Talic",
+    "Tipan", "Toliyok", "Tuyabang Alto", "Tuyabang Bajo", "Tuyabang Proper", "Victoria", "Villaflor",
+  ],
+  Ozamiz: [
+    "50th District", "Aguada", "Bacolod", "Bagakay", "Balintawak", "Banadero", "Baybay San Roque", "Baybay Santa Cruz",
+    "Baybay Triunfo", "Bongbong", "Calabayan", "Capucao C.", "Capucao P.", "Carangan", "Carmen", "Catadman-Manabay",
+    "Cavinte", "Cogon", "Dalapang", "Diguan", "Dimaluna", "Doña Consuelo", "Embargo", "Gala", "Gango", "Gotokan Daku",
+    "Gotokan Diot", "Guimad", "Guingona", "Kinuman Norte", "Kinuman Sur", "Labinay", "Labo", "Lam-an", "Liposong",
+    "Litapan", "Malaubang", "Manaka", "Maningcol", "Mentering", "Molicay", "Pantaon", "Pulot", "San Antonio",
+    "Sangay Daku", "Sangay Diot", "Sinuza", "Stimson Abordo", "Tabid", "Tinago", "Trigos",
+  ],
+  Panaon: [
+    "Baga", "Bangko", "Camanucan", "Dela Paz", "Lutao", "Magsaysay", "Map-an", "Mohon", "Poblacion", "Punta",
+    "Salimpuno", "San Andres", "San Juan", "San Roque", "Sumasap", "Villalin",
+  ],
+  Plaridel: [
+    "Agunod", "Bato", "Buena Voluntad", "Calaca-an", "Cartagena Proper", "Catarman", "Cebulin", "Clarin", "Danao",
+    "Deboloc", "Divisoria", "Eastern Looc", "Ilisan", "Katipunan", "Kauswagan", "Lao Proper", "Lao Santa Cruz",
+    "Looc Proper", "Mamanga Daku", "Mamanga Gamay", "Mangidkid", "New Cartagena", "New Look", "Northern Poblacion",
+    "Panalsalan", "Puntod", "Quirino", "Santa Cruz", "Southern Looc", "Southern Poblacion", "Tipolo", "Unidos",
+    "Usocan",
+  ],
+  "Sapang Dalaga": [
+    "Agapito Yap, Sr.", "Bautista", "Bitibut", "Boundary", "Caluya", "Capundag", "Casul", "Dalumpinas", "Dasa", "Dioyo",
+    "Disoy", "El Paraiso", "Guinabot", "Libertad", "Locus", "Macabibo", "Manla", "Masubong", "Medallo", "Poblacion",
+    "Salimpuno", "San Agustin", "Sapang Ama", "Sinaad", "Sipac", "Sixto Velez, Sr.", "Upper Bautista", "Ventura",
+  ],
+  Sinacaban: [
+    "Cagay-anon", "Camanse", "Colupan Alto", "Colupan Bajo", "Dinas", "Estrella", "Katipunan", "Libertad Alto",
+    "Libertad Bajo", "Poblacion", "San Isidro Alto", "San Isidro Bajo", "San Lorenzo Ruiz", "San Vicente", "Señor",
+    "Sinonoc", "Tipan",
+  ],
+  Tangub: [
+    "Aquino", "Balatacan", "Baluk", "Banglay", "Barangay I - City Hall", "Barangay II - Marilou Annex",
+    "Barangay III- Market Kalubian", "Barangay IV - St. Michael", "Barangay V - Malubog", "Barangay VI - Lower Polao",
+    "Barangay VII - Upper Polao", "Bintana", "Bocator", "Bongabong", "Caniangan", "Capalaran", "Catagan", "Garang",
+    "Guinabot", "Guinalaban", "Huyohoy", "Isidro D. Tan", "Kauswagan", "Kimat", "Labuyo", "Lorenzo Tan", "Lumban",
+    "Maloro", "Manga", "Mantic", "Maquilao", "Matugnaw", "Migcanaway", "Minsubong", "Owayan", "Paiton", "Panalsalan",
+    "Pangabuan", "Prenza", "Salimpuno", "San Antonio", "San Apolinario", "San Vicente", "Santa Cruz", "Santa Maria",
+    "Santo Niño", "Sicot", "Silanga", "Silangit", "Simasay", "Sumirap", "Taguite", "Tituron", "Tugas", "Villaba",
+  ],
+  Tudela: [
+    "Balon", "Barra", "Basirang", "Bongabong", "Buenavista", "Cabol-anonan", "Cahayag", "Calambutan Bajo",
+    "Calambutan Settlement", "Camating", "Canibungan Proper", "Casilak San Agustin", "Centro Hulpa", "Centro Napu",
+    "Centro Upper", "Duanguican", "Gala", "Gumbil", "Locso-on", "Maikay", "Maribojoc", "Mitugas", "Nailon", "Namut",
+    "Napurog", "Pan-ay Diot", "San Nicolas", "Sebac", "Silongon", "Sinuza", "Taguima", "Tigdok", "Yahong",
+  ],
+}
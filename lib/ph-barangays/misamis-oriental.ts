@@ -0,0 +1,114 @@
+// Barangays of each town in Misamis Oriental, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Alubijid: [
+    "Baybay", "Benigwayan", "Calatcat", "Lagtang", "Lanao", "Loguilo", "Lourdes", "Lumbo", "Molocboloc", "Poblacion",
+    "Sampatulog", "Sungay", "Talaba", "Taparak", "Tugasnon", "Tula",
+  ],
+  Balingasag: [
+    "Balagnan", "Baliwagan", "Barangay 1", "Barangay 2", "Barangay 3", "Barangay 4", "Barangay 5", "Barangay 6",
+    "Binitinan", "Blanco", "Calawag", "Camuayan", "Cogon", "Dansuli", "Dumarait", "Hermano", "Kibanban", "Linabu",
+    "Linggangao", "Mambayaan", "Mandangoa", "Napaliran", "Quezon", "Rosario", "Samay", "San Francisco", "San Isidro",
+    "San Juan", "Talusan", "Waterfall",
+  ],
+  Balingoan: [
+    "Baukbauk Pob.", "Dahilig", "Kabangasan", "Kabulakan", "Kauswagan", "Lapinig", "Mantangale", "Mapua", "San Alonzo",
+  ],
+  Binuangan: [
+    "Dampias", "Kitamban", "Kitambis", "Mabini", "Mosangot", "Nabataan", "Poblacion", "Valdeconcha",
+  ],
+  Claveria: [
+    "Ani-e", "Aposkahoy", "Bulahan", "Cabacungan", "Gumaod", "Hinaplanan", "Kalawitan", "Lanise", "Luna", "Madaguing",
+    "Malagana", "Mat-i", "Minalwang", "Pambugas", "Panampawan", "Patrocenio", "Pelaez", "Plaridel", "Poblacion",
+    "Punong", "Rizal", "Santa Cruz", "Tamboboan", "Tipolohon",
+  ],
+  "El Salvador": [
+    "Amoros", "Bolisong", "Bolobolo", "Calongonan", "Cogon", "Himaya", "Hinigdaan", "Kalabaylabay", "Kibonbon",
+    "Molugan", "Poblacion", "Sambulawan", "Sinaloc", "Taytay", "Ulaliman",
+  ],
+  Gingoog: [
+    "Agay-ayan", "Alagatan", "Anakan", "Bagubad", "Bakidbakid", "Bal-ason", "Bantaawan", "Barangay 1", "Barangay 2",
+    "Barangay 3", "Barangay 4", "Barangay 5", "Barangay 6", "Barangay 7", "Barangay 8", "Barangay 9", "Barangay 10",
+    "Barangay 11", "Barangay 12", "Barangay 13", "Barangay 14", "Barangay 15", "Barangay 16", "Barangay 17",
+    "Barangay 18", "Barangay 18-A", "Barangay 19", "Barangay 20", "Barangay 21", "Barangay 22", "Barangay 22-A",
+    "Barangay 23", "Barangay 24", "Barangay 24-A", "Barangay 25", "Barangay 26", "Binakalan", "Capitulangan",
+    "Daan-Lungsod", "Dinawehan", "Eureka", "Hindangon", "Kalagonoy", "Kalipay", "Kamanikan", "Kianlagan", "Kibuging",
+    "Kipuntos", "Lawaan", "Lawit", "Libertad", "Libon", "Lunao", "Lunotan", "Malibud", "Malinao", "Maribucao",
+    "Mimbalagon", "Mimbunga", "Mimbuntong", "Minsapinit", "Murallon", "Odiongan", "Pangasihan", "Pigsaluhan", "Punong",
+    "Ricoro", "Samay", "San Jose", "San Juan", "San Luis", "San Miguel", "Sangalan", "Santiago", "Tagpako", "Talisay",
+    "Talon", "Tinabalan", "Tinulongan",
+  ],
+  Gitagum: [
+    "Burnay", "Carlos P. Garcia", "Cogon", "Gregorio Pelaez", "Kilangit", "Matangad", "Pangayawan", "Poblacion",
+    "Quezon", "Tala-o", "Ulab",
+  ],
+  Initao: [
+    "Aluna", "Andales", "Apas", "Calacapan", "Gimangpang", "Jampason", "Kamelon", "Kanitoan", "Oguis", "Pagahan",
+    "Poblacion", "Pontacon", "San Pedro", "Sinalac", "Tawantawan", "Tubigan",
+  ],
+  Jasaan: [
+    "Aplaya", "Bobontugan", "Corrales", "Danao", "I. S. Cruz", "Jampason", "Kimaya", "Lower Jasaan", "Luz Banzon",
+    "Natubo", "San Antonio", "San Isidro", "San Nicolas", "Solana", "Upper Jasaan",
+  ],
+  Kinoguitan: [
+    "Beray", "Bolisong", "Buko", "Calubo", "Campo", "Esperanza", "Kagumahan", "Kalitian", "Kitotok", "Panabol",
+    "Poblacion", "Salicapawan", "Salubsob", "Suarez", "Sumalag",
+  ],
+  Lagonglong: [
+    "Banglay", "Dampil", "Gaston", "Kabulawan", "Kauswagan", "Lumbo", "Manaol", "Poblacion", "Tabok", "Umagos",
+  ],
+  Laguindingan: [
+    "Aromahon", "Gasi", "Kibaghot", "Lapad", "Liberty", "Mauswagon", "Moog", "Poblacion", "Sambulawan", "Sinai",
+    "Tubajon",
+  ],
+  Libertad: [
+    "Dulong", "Gimaylan", "Kimalok", "Lubluban", "Poblacion", "Retablo", "Santo Niño", "Tangcub", "Taytayan",
+  ],
+  Lugait: [
+    "Aya-aya", "Betahon", "Biga", "Calangahan", "Kaluknayan", "Lower Talacogon", "Poblacion", "Upper Talacogon",
+  ],
+  Magsaysay: [
+    "Abunda", "Artadi", "Bonifacio Aquino", "Cabalawan", "Cabantian", "Cabubuhan", "Candiis", "Consuelo", "Damayuhan",
+    "Gumabon", "Katipunan", "Kauswagan", "Kibungsod", "Mahayahay", "Mindulao", "Pag-asa", "Poblacion", "San Isidro",
+    "San Vicente", "Santa Cruz", "Tama", "Tibon-tibon", "Tinaan", "Tulang", "Villa Felipa",
+  ],
+  Manticao: [
+    "Argayoso", "Balintad", "Cabalantian", "Camanga", "Digkilaan", "Mahayahay", "Pagawan", "Paniangan", "Patag",
+    "Poblacion", "Punta Silum", "Tuod", "Upper Malubog",
+  ],
+  Medina: [
+    "Bangbang", "Bulwa", "Cabug", "Dig-aguyan", "Duka", "Gasa", "Maanas", "Mananum Bag-o", "Mananum Daan",
+    "North Poblacion", "Pahindong", "Portulin", "San Isidro", "San Jose", "San Roque", "San Vicente", "South Poblacion",
+    "Tambagan", "Tup-on",
+  ],
+  Naawan: [
+    "Don Pedro", "Linangkayan", "Lubilan", "Mapulog", "Maputi", "Mat-i", "Patag", "Poblacion", "Tagbalogo", "Tuboran",
+  ],
+  Opol: [
+    "Awang", "Bagocboc", "Barra", "Bonbon", "Cauyonan", "Igpit", "Limonda", "Luyongbonbon", "Malanang", "Nangcaon",
+    "Patag", "Poblacion", "Taboc", "Tingalan",
+  ],
+  Salay: [
+    "Alipuaton", "Ampenican", "Bunal", "Casulog", "Dinagsaan", "Guinalaban", "Ili-ilihon", "Inobulan", "Looc",
+    "Matampa", "Membuli", "Poblacion", "Salagsag", "Salay River I", "Salay River II", "Saray", "Tinagaan", "Yungod",
+  ],
+  Sugbongcogon: [
+    "Alicomohan", "Ampianga", "Kaulayanan", "Kidampas", "Kiraging", "Mangga", "Mimbuahan", "Poblacion", "Santa Cruz",
+    "Silad",
+  ],
+  Tagoloan: [
+    "Baluarte", "Casinglot", "Gracia", "Mohon", "Natumolan", "Poblacion", "Rosario", "Santa Ana", "Santa Cruz",
+    "Sugbongcogon",
+  ],
+  Talisayan: [
+    "Bugdang", "Calamcam", "Casibole", "Macopa", "Magkarila", "Mahayag", "Mandahilag", "Mintabon", "Pangpangon",
+    "Poblacion", "Pook", "Punta Santiago", "Puting Balas", "San Jose", "Santa Ines", "Sibantang", "Sindangan",
+    "Tagbocboc",
+  ],
+  Villanueva: [
+    "Balacanas", "Dayawan", "Imelda", "Katipunan", "Kimaya", "Looc", "Poblacion 1", "Poblacion 2", "Poblacion 3",
+    "San Martin", "Tambobong",
+  ],
+}
@@ -0,0 +1,45 @@
+// Barangays of each town in Mountain Province, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Barlig: [
+    "Chupac", "Fiangtin", "Gawana", "Kaleo", "Latang", "Lias Kanluran", "Lias Silangan", "Lingoy", "Lunas", "Macalana",
+    "Ogo-og",
+  ],
+  Bauko: [
+    "Abatan", "Bagnen Oriente", "Bagnen Proper", "Balintaugan", "Banao", "Bila", "Guinzadan Central", "Guinzadan Norte",
+    "Guinzadan Sur", "Lagawa", "Leseb", "Mabaay", "Mayag", "Monamon Norte", "Monamon Sur", "Mount Data", "Otucan Norte",
+    "Otucan Sur", "Poblacion", "Sadsadan", "Sinto", "Tapapan",
+  ],
+  Besao: [
+    "Agawa", "Ambaguio", "Banguitan", "Besao East", "Besao West", "Catengan", "Gueday", "Kin-iway", "Lacmaan",
+    "Laylaya", "Padangan", "Payeo", "Suquib", "Tamboan",
+  ],
+  Bontoc: [
+    "Alab Oriente", "Alab Proper", "Balili", "Bayyo", "Bontoc Ili", "Caluttit", "Caneo", "Dalican", "Gonogon",
+    "Guinaang", "Mainit", "Maligcong", "Poblacion", "Samoki", "Talubin", "Tocucan",
+  ],
+  Natonin: [
+    "Alunogan", "Balangao", "Banao", "Banawal", "Butac", "Maducayan", "Poblacion", "Pudo", "Saliok", "Sta. Isabel",
+    "Tonglayan",
+  ],
+  Paracelis: [
+    "Anonat", "Bacarri", "Bananao", "Bantay", "Bunot", "Buringal", "Butigue", "Palitud", "Poblacion",
+  ],
+  Sabangan: [
+    "Bao-angan", "Bun-ayan", "Busa", "Camatagan", "Capinitan", "Data", "Gayang", "Lagan", "Losad", "Namatec", "Napua",
+    "Pingad", "Poblacion", "Supang", "Tambingan",
+  ],
+  Sadanga: [
+    "Anabel", "Bekigan", "Belwang", "Betwagan", "Demang", "Poblacion", "Sacasacan", "Saclit",
+  ],
+  Sagada: [
+    "Aguid", "Ambasing", "Angkeling", "Antadao", "Balugan", "Bangaan", "Dagdag", "Demang", "Fidelisan", "Kilong",
+    "Madongo", "Nacagang", "Pide", "Poblacion", "Suyo", "Taccong", "Tanulong", "Tetepan Norte", "Tetepan Sur",
+  ],
+  Tadian: [
+    "Balaoa", "Banaao", "Bantey", "Batayan", "Bunga", "Cadad-anan", "Cagubatan", "Dacudac", "Duagan", "Kayan East",
+    "Kayan West", "Lenga", "Lubon", "Mabalite", "Masla", "Pandayan", "Poblacion", "Sumadel", "Tue",
+  ],
+}
@@ -0,0 +1,149 @@
+// Barangays of each town in Negros Occidental, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Bago: [
+    "Abuanan", "Alianza", "Atipuluan", "Bacong-Montilla", "Bagroy", "Balingasag", "Binubuhan", "Busay", "Calumangan",
+    "Caridad", "Dulao", "Ilijan", "Jorge L. Araneta", "Lag-Asan", "Ma-ao Barrio", "Mailum", "Malingin", "Napoles",
+    "Pacol", "Poblacion", "Sagasa", "Sampinit", "Tabunan", "Taloc",
+  ],
+  Binalbagan: [
+    "Amontay", "Bagroy", "Bi-ao", "Canmoros", "Enclaro", "Marina", "Paglaum", "Payao", "Progreso", "San Jose",
+    "San Juan", "San Pedro", "San Teodoro", "San Vicente", "Santo Rosario", "Santol",
+  ],
+  Cadiz: [
+    "Andres Bonifacio", "Banquerohan", "Barangay 1 Pob.", "Barangay 2 Pob.", "Barangay 3 Pob.", "Barangay 4 Pob.",
+    "Barangay 5 Pob.", "Barangay 6 Pob.", "Burgos", "Cabahug", "Cadiz Viejo", "Caduha-an", "Celestino Villacin", "Daga",
+    "Jerusalem", "Luna", "Mabini", "Magsaysay", "Sicaba", "Tiglawigan", "Tinampa-an", "V. F. Gustilo",
+  ],
+  Calatrava: [
+    "Agpangi", "Ani-e", "Bagacay", "Bantayanon", "Buenavista", "Cabungahan", "Calampisawan", "Cambayobo", "Castellano",
+    "Cruz", "Dolis", "Hilub-Ang", "Hinab-Ongan", "Ilaya", "Laga-an", "Lalong", "Lemery", "Lipat-on", "Lo-ok",
+    "Ma-aslob", "Macasilao", "Mahilum", "Malanog", "Malatas", "Marcelo", "Menchaca", "Mina-utok", "Minapasuk",
+    "Paghumayan", "Pantao", "Patun-an", "Pinocutan", "Refugio", "San Benito", "San Isidro", "Suba", "Telim", "Tigbao",
+    "Tigbon", "Winaswasan",
+  ],
+  Candoni: [
+    "Agboy", "Banga", "Cabia-an", "Caningay", "Gatuslao", "Haba", "Payauan", "Poblacion East", "Poblacion West",
+  ],
+  Cauayan: [
+    "Abaca", "Baclao", "Basak", "Bulata", "Caliling", "Camalanda-an", "Camindangan", "Elihan", "Guiljungan", "Inayawan",
+    "Isio", "Linaon", "Lumbia", "Mambugsay", "Man-Uling", "Masaling", "Molobolo", "Poblacion", "Sura", "Talacdan",
+    "Tambad", "Tiling", "Tomina", "Tuyom", "Yao-yao",
+  ],
+  "Enrique B. Magalona": [
+    "Alacaygan", "Alicante", "Batea", "Canlusong", "Consing", "Cudangdang", "Damgo", "Gahit", "Latasan", "Madalag",
+    "Manta-angan", "Nanca", "Pasil", "Poblacion I", "Poblacion II", "Poblacion III", "San Isidro", "San Jose",
+    "Santo Niño", "Tabigue", "Tanza", "Tomongtong", "Tuburan",
+  ],
+  Escalante: [
+    "Alimango", "Balintawak", "Binaguiohan", "Buenavista", "Cervantes", "Dian-ay", "Hacienda Fe", "Japitan",
+    "Jonobjonob", "Langub", "Libertad", "Mabini", "Magsaysay", "Malasibog", "Old Poblacion", "Paitan", "Pinapugasan",
+    "Rizal", "Tamlang", "Udtongan", "Washington",
+  ],
+  Himamaylan: [
+    "Aguisan", "Barangay I", "Barangay II", "Barangay III", "Barangay IV", "Buenavista", "Cabadiangan", "Cabanbanan",
+    "Carabalan", "Caradio-an", "Libacao", "Mahalang", "Mambagaton", "Nabali-an", "San Antonio", "Sara-et", "Su-ay",
+    "Talaban", "To-oy",
+  ],
+  Hinigaran: [
+    "Anahaw", "Aranda", "Baga-as", "Barangay I", "Barangay II", "Barangay III", "Barangay IV", "Bato", "Calapi",
+    "Camalobalo", "Camba-og", "Cambugsa", "Candumarao", "Gargato", "Himaya", "Miranda", "Nanunga", "Narauis", "Palayog",
+    "Paticui", "Pilar", "Quiwi", "Tagda", "Tuguis",
+  ],
+  "Hinoba-an": [
+    "Alim", "Asia", "Bacuyangan", "Barangay I", "Barangay II", "Bulwangan", "Culipapa", "Damutan", "Daug", "Po-ok",
+    "San Rafael", "Sangke", "Talacagay",
+  ],
+  Ilog: [
+    "Andulauan", "Balicotoc", "Barangay I", "Barangay II", "Bocana", "Calubang", "Canlamay", "Consuelo", "Dancalan",
+    "Delicioso", "Galicia", "Manalad", "Pinggot", "Tabu", "Vista Alegre",
+  ],
+  Isabela: [
+    "Amin", "Banogbanog", "Barangay 1", "Barangay 2", "Barangay 3", "Barangay 4", "Barangay 5", "Barangay 6",
+    "Barangay 7", "Barangay 8", "Barangay 9", "Bulad", "Bungahin", "Cabcab", "Camangcamang", "Camp Clark",
+    "Cansalongon", "Guintubhan", "Libas", "Limalima", "Makilignit", "Mansablay", "Maytubig", "Panaquiao", "Riverside",
+    "Rumirang", "San Agustin", "Sebucawan", "Sikatuna", "Tinongan",
+  ],
+  Kabankalan: [
+    "Bantayan", "Barangay 1", "Barangay 2", "Barangay 3", "Barangay 4", "Barangay 5", "Barangay 6", "Barangay 7",
+    "Barangay 8", "Barangay 9", "Binicuil", "Camansi", "Camingawan", "Camugao", "Carol-an", "Daan Banua", "Hilamonan",
+    "Inapoy", "Linao", "Locotan", "Magballo", "Oringao", "Orong", "Pinaguinpinan", "Salong", "Tabugon", "Tagoc",
+    "Tagukon", "Talubangi", "Tampalon", "Tan-Awan", "Tapi",
+  ],
+  "La Carlota": [
+    "Ara-al", "Ayungon", "Balabag", "Barangay I", "Barangay II", "Barangay III", "Batuan", "Cubay", "Haguimit",
+    "La Granja", "Nagasi", "Roberto S. Benedicto", "San Miguel", "Yubo",
+  ],
+  "La Castellana": [
+    "Biaknabato", "Cabacungan", "Cabagnaan", "Camandag", "Lalagsan", "Manghanoy", "Mansalanao", "Masulog", "Nato",
+    "Puso", "Robles", "Sag-Ang", "Talaptap",
+  ],
+  Manapla: [
+    "Barangay I", "Barangay I-A", "Barangay I-B", "Barangay II", "Barangay II-A", "Chambery", "Punta Mesa",
+    "Punta Salong", "Purisima", "San Pablo", "Santa Teresa", "Tortosa",
+  ],
+  "Moises Padilla": [
+    "Barangay 1", "Barangay 2", "Barangay 3", "Barangay 4", "Barangay 5", "Barangay 6", "Barangay 7",
+    "Crossing Magallon", "Guinpana-an", "Inolingan", "Macagahay", "Magallon Cadre", "Montilla", "Odiong",
+    "Quintin Remo",
+  ],
+  Murcia: [
+    "Abo-abo", "Alegria", "Amayco", "Blumentritt", "Buenavista", "Caliban", "Canlandog", "Cansilayan", "Damsite",
+    "Iglau-an", "Lopez Jaena", "Minoyan", "Pandanon", "Salvacion", "San Miguel", "Santa Cruz", "Santa Rosa", "Talotog",
+    "Zone I", "Zone II", "Zone III", "Zone IV", "Zone V",
+  ],
+  Pontevedra: [
+    "Antipolo", "Barangay I", "Barangay II", "Barangay III", "Buenavista Gibong", "Buenavista Rizal", "Burgos",
+    "Cambarus", "Canroma", "Don Salvador Benedicto", "General Malvar", "Gomez", "M. H. Del Pilar", "Mabini", "Miranda",
+    "Pandan", "Recreo", "San Isidro", "San Juan", "Zamora",
+  ],
+  Pulupandan: [
+    "Barangay Zone 1", "Barangay Zone 1-A", "Barangay Zone 2", "Barangay Zone 3", "Barangay Zone 4",
+    "Barangay Zone 4-A", "Barangay Zone 5", "Barangay Zone 6", "Barangay Zone 7", "Canjusa", "Crossing Pulupandan",
+    "Culo", "Mabini", "Pag-ayon", "Palaka Norte", "Palaka Sur", "Patic", "Tapong", "Ubay", "Utod",
+  ],
+  Sagay: [
+    "Andres Bonifacio", "Bato", "Baviera", "Bulanon", "Campo Himoga-an", "Campo Santiago", "Colonia Divina", "Fabrica",
+    "General Luna", "Himoga-an Baybay", "Lopez Jaena", "Makiling", "Malubon", "Molocaboc", "Old Sagay", "Paraiso",
+    "Plaridel", "Poblacion I", "Poblacion II", "Puey", "Rafaela Barrera", "Rizal", "Taba-ao", "Tadlong", "Vito",
+  ],
+  "Salvador Benedicto": [
+    "Bago", "Bagong Silang", "Bunga", "Igmaya-an", "Kumaliskis", "Pandanon", "Pinowayan",
+  ],
+  "San Carlos": [
+    "Bagonbon", "Barangay I", "Barangay II", "Barangay III", "Barangay IV", "Barangay V", "Barangay VI", "Buluangan",
+    "Codcod", "Ermita", "Guadalupe", "Nataban", "Palampas", "Prosperidad", "Punao", "Quezon", "Rizal", "San Juan",
+  ],
+  "San Enrique": [
+    "Bagonawa", "Baliwagan", "Batuan", "Guintorilan", "Nayon", "Poblacion", "Sibucao", "Tabao Baybay", "Tabao Rizal",
+    "Tibsoc",
+  ],
+  Silay: [
+    "Bagtic", "Balaring", "Barangay I", "Barangay II", "Barangay III", "Barangay IV", "Barangay V", "Barangay VI Pob.",
+    "Eustaquio Lopez", "Guimbala-on", "Guinhalaran", "Kapitan Ramon", "Lantad", "Mambulac", "Patag", "Rizal",
+  ],
+  Sipalay: [
+    "Barangay 1", "Barangay 2", "Barangay 3", "Barangay 4", "Barangay 5", "Cabadiangan", "Camindangan", "Canturay",
+    "Cartagena", "Cayhagan", "Gil Montilla", "Mambaroto", "Manlucahoc", "Maricalum", "Nabulao", "Nauhang", "San Jose",
+  ],
+  Talisay: [
+    "Bubog", "Cabatangan", "Concepcion", "Dos Hermanas", "Efigenio Lizares", "Katilingban", "Matab-ang", "San Fernando",
+    "Zone 1", "Zone 2", "Zone 3", "Zone 4", "Zone 4-A", "Zone 5", "Zone 6", "Zone 7", "Zone 8", "Zone 9", "Zone 10",
+    "Zone 11", "Zone 12", "Zone 12-A", "Zone 14", "Zone 14-A", "Zone 14-B", "Zone 15", "Zone 16",
+  ],
+  Toboso: [
+    "Bandila", "Bug-ang", "General Luna", "Magticol", "Poblacion", "Salamanca", "San Isidro", "San Jose", "Tabun-ac",
+  ],
+  Valladolid: [
+    "Alijis", "Ayungon", "Bagumbayan", "Batuan", "Bayabas", "Central Tabao", "Doldol", "Guintorilan", "Lacaron",
+    "Mabini", "Pacol", "Palaka", "Paloma", "Poblacion", "Sagua Banua", "Tabao Proper",
+  ],
+  Victorias: [
+    "Barangay I", "Barangay II", "Barangay III", "Barangay IV", "Barangay IX", "Barangay V", "Barangay VI",
+    "Barangay VI-A", "Barangay VII", "Barangay VIII", "Barangay X", "Barangay XI", "Barangay XII", "Barangay XIII",
+    "Barangay XIV", "Barangay XIX", "Barangay XIX-A", "Barangay XV", "Barangay XV-A", "Barangay XVI", "Barangay XVI-A",
+    "Barangay XVII", "Barangay XVIII", "Barangay XVIII-A", "Barangay XX", "Barangay XXI",
+  ],
+}
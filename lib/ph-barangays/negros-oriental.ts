@@ -0,0 +1,127 @@
+// Barangays of each town in Negros Oriental, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Amlan: [
+    "Bio-os", "Jantianon", "Jugno", "Mag-abo", "Poblacion", "Silab", "Tambojangin", "Tandayag",
+  ],
+  Ayungon: [
+    "Amdus", "Anibong", "Atabay", "Awa-an", "Ban-ban", "Calagcalag", "Candana-ay", "Carol-an", "Gomentoc", "Inacban",
+    "Iniban", "Jandalamanon", "Kilaban", "Lamigan", "Maaslum", "Mabato", "Manogtong", "Nabhang", "Poblacion", "Tambo",
+    "Tampocon I", "Tampocon II", "Tibyawan", "Tiguib",
+  ],
+  Bacong: [
+    "Balayagmanok", "Banilad", "Buntis", "Buntod", "Calangag", "Combado", "Doldol", "Isugan", "Liptong", "Lutao",
+    "Magsuhot", "Malabago", "Mampas", "North Poblacion", "Sacsac", "San Miguel", "South Poblacion", "Sulodpan",
+    "Timbanga", "Timbao", "Tubod", "West Poblacion",
+  ],
+  Bais: [
+    "Barangay I", "Barangay II", "Basak", "Biñohon", "Cabanlutan", "Calasga-an", "Cambagahan", "Cambaguio", "Cambanjao",
+    "Cambuilao", "Canlargo", "Capiñahan", "Consolacion", "Dansulan", "Hangyad", "Katacgahan", "La Paz", "Lo-oc",
+    "Lonoy", "Mabunao", "Manlipac", "Mansangaban", "Okiot", "Olympia", "Panala-an", "Panam-angan", "Rosario",
+    "Sab-ahan", "San Isidro", "Tagpo", "Talungon", "Tamisu", "Tamogong", "Tangculogan", "Valencia",
+  ],
+  Basay: [
+    "Actin", "Bal-os", "Bongalonan", "Cabalayongan", "Cabatuanan", "Linantayan", "Maglinao", "Nagbo-alao", "Olandao",
+    "Poblacion",
+  ],
+  Bayawan: [
+    "Ali-is", "Banaybanay", "Banga", "Boyco", "Bugay", "Cansumalig", "Dawis", "Kalamtukan", "Kalumboyan", "Malabugas",
+    "Mandu-ao", "Maninihon", "Minaba", "Nangka", "Narra", "Pagatban", "Poblacion", "San Isidro", "San Jose",
+    "San Miguel", "San Roque", "Suba", "Tabuan", "Tayawan", "Tinago", "Ubos", "Villareal", "Villasol",
+  ],
+  Bindoy: [
+    "Atotes", "Batangan", "Bulod", "Cabcaban", "Cabugan", "Camudlas", "Canluto", "Danao", "Danawan", "Domolog",
+    "Malaga", "Manseje", "Matobato", "Nagcasunog", "Nalundan", "Pangalaycayan", "Peñahan", "Poblacion", "Salong",
+    "Tagaytay", "Tinaogan", "Tubod",
+  ],
+  Canlaon: [
+    "Bayog", "Binalbagan", "Bucalan", "Budlasan", "Linothangan", "Lumapao", "Mabigo", "Malaiba", "Masulog",
+    "Ninoy Aquino", "Panubigan", "Pula",
+  ],
+  Dauin: [
+    "Anhawan", "Apo Island", "Bagacay", "Baslay", "Batuhon Dacu", "Boloc-boloc", "Bulak", "Bunga", "Casile", "Libjo",
+    "Lipayo", "Maayongtubig", "Mag-aso", "Magsaysay", "Malongcay Dacu", "Masaplod Norte", "Masaplod Sur", "Panubtuban",
+    "Poblacion I", "Poblacion II", "Poblacion III", "Tugawe", "Tunga-tunga",
+  ],
+  Dumaguete: [
+    "Bagacay", "Bajumpandan", "Balugo", "Banilad", "Bantayan", "Batinguel", "Bunao", "Cadawinonan", "Calindagan",
+    "Camanjac", "Candau-ay", "Cantil-e", "Daro", "Junob", "Looc", "Mangnao-Canal", "Motong", "Piapi", "Poblacion No. 1",
+    "Poblacion No. 2", "Poblacion No. 3", "Poblacion No. 4", "Poblacion No. 5", "Poblacion No. 6", "Poblacion No. 7",
+    "Poblacion No. 8", "Pulantubig", "Tabuctubig", "Taclobo", "Talay",
+  ],
+  Guihulngan: [
+    "Bakid", "Balogo", "Banwaque", "Basak", "Binobohan", "Buenavista", "Bulado", "Calamba", "Calupa-an", "Hibaiyo",
+    "Hilaitan", "Hinakpan", "Humayhumay", "Imelda", "Kagawasan", "Linantuyan", "Luz", "Mabunga", "Magsaysay", "Malusay",
+    "Maniak", "Mckinley", "Nagsaha", "Padre Zamora", "Plagatasanon", "Planas", "Poblacion", "Sandayao", "Tacpao",
+    "Tinayunan Beach", "Tinayunan Hill", "Trinidad", "Villegas",
+  ],
+  Jimalalud: [
+    "Aglahug", "Agutayon", "Apanangon", "Bae", "Bala-as", "Bangcal", "Banog", "Buto", "Cabang", "Camandayon",
+    "Cangharay", "Canlahao", "Dayoyo", "Eli", "Lacaon", "Mahanlud", "Malabago", "Mambaid", "Mongpong",
+    "North Poblacion", "Owacan", "Pacuan", "Panglaya-an", "Polopantao", "Sampiniton", "South Poblacion", "Talamban",
+    "Tamao",
+  ],
+  "La Libertad": [
+    "Aniniaw", "Aya", "Bagtic", "Biga-a", "Busilak", "Cangabo", "Cantupa", "Elecia", "Eli", "Guihob", "Kansumandig",
+    "Mambulod", "Mandapaton", "Manghulyawon", "Manluminsag", "Mapalasan", "Maragondong", "Martilo", "Nasungan",
+    "Pacuan", "Pangca", "Pisong", "Pitogo", "Poblacion North", "Poblacion South", "San Jose", "Solongon", "Tala-on",
+    "Talayong",
+  ],
+  Mabinay: [
+    "Abis", "Arebasore", "Bagtic", "Banban", "Barras", "Bato", "Bugnay", "Bulibulihan", "Bulwang", "Campanun-an",
+    "Canggohob", "Cansal-ing", "Dagbasan", "Dahile", "Hagtu", "Himocdongon", "Inapoy", "Lamdas", "Lumbangan", "Luyang",
+    "Manlingay", "Mayaposi", "Napasu-an", "New Namangka", "Old Namangka", "Pandanon", "Paniabonan", "Pantao",
+    "Poblacion", "Samac", "Tadlong", "Tara",
+  ],
+  Manjuyod: [
+    "Alangilanan", "Bagtic", "Balaas", "Bantolinao", "Bolisong", "Butong", "Campuyo", "Candabong", "Concepcion",
+    "Dungo-an", "Kauswagan", "Lamogong", "Libjo", "Maaslum", "Mandalupang", "Panciao", "Poblacion", "Sac-sac",
+    "Salvacion", "San Isidro", "San Jose", "Santa Monica", "Suba", "Sundo-an", "Tanglad", "Tubod", "Tupas",
+  ],
+  Pamplona: [
+    "Abante", "Balayong", "Banawe", "Calicanan", "Datagon", "Fatima", "Inawasan", "Magsusunog", "Malalangsi",
+    "Mamburao", "Mangoto", "Poblacion", "San Isidro", "Santa Agueda", "Simborio", "Yupisan",
+  ],
+  "San Jose": [
+    "Basak", "Basiao", "Cambaloctot", "Cancawas", "Janayjanay", "Jilocon", "Naiba", "Poblacion", "San Roque",
+    "Santo Niño", "Señora Ascion", "Siapo", "Tampi", "Tapon Norte",
+  ],
+  "Santa Catalina": [
+    "Alangilan", "Amio", "Buenavista", "Caigangan", "Caranoche", "Cawitan", "Fatima", "Kabulacan", "Mabuhay",
+    "Manalongon", "Mansagomayon", "Milagrosa", "Nagbalaye", "Nagbinlod", "Obat", "Poblacion", "San Francisco",
+    "San Jose", "San Miguel", "San Pedro", "Santo Rosario", "Talalak",
+  ],
+  Siaton: [
+    "Albiga", "Apoloy", "Bonawon", "Bonbonon", "Cabangahan", "Canaway", "Casala-an", "Caticugan", "Datag", "Giliga-on",
+    "Inalad", "Malabuhan", "Maloh", "Mantiquil", "Mantuyop", "Napacao", "Poblacion I", "Poblacion II", "Poblacion III",
+    "Poblacion IV", "Salag", "San Jose", "Sandulot", "Si-it", "Sumaliring", "Tayak",
+  ],
+  Sibulan: [
+    "Agan-an", "Ajong", "Balugo", "Bolocboloc", "Calabnugan", "Cangmating", "Enrique Villanueva", "Looc", "Magatas",
+    "Maningcao", "Maslog", "Poblacion", "San Antonio", "Tubigon", "Tubtubon",
+  ],
+  Tanjay: [
+    "Azagra", "Bahi-an", "Luca", "Manipis", "Novallas", "Obogon", "Pal-ew", "Poblacion I", "Poblacion II",
+    "Poblacion III", "Poblacion IV", "Poblacion IX", "Poblacion V", "Poblacion VI", "Poblacion VII", "Poblacion VIII",
+    "Polo", "San Isidro", "San Jose", "San Miguel", "Santa Cruz Nuevo", "Santa Cruz Viejo", "Santo Niño", "Tugas",
+  ],
+  Tayasan: [
+    "Bacong", "Bago", "Banga", "Cabulotan", "Cambaye", "Dalaupon", "Guincalaban", "Ilaya-Tayasan", "Jilabangan",
+    "Lag-it", "Linao", "Lutay", "Maglihe", "Magtuhao", "Matauta", "Matuog", "Numnum", "Palaslan", "Pinalubngan",
+    "Pindahan", "Pinocawan", "Poblacion", "Santa Cruz", "Saying", "Suquib", "Tamao", "Tambulan", "Tanlad",
+  ],
+  Valencia: [
+    "Apolong", "Balabag East", "Balabag West", "Balayagmanok", "Balili", "Balugo", "Bong-ao", "Bongbong", "Caidiocan",
+    "Calayugan", "Cambucad", "Dobdob", "Jawa", "Liptong", "Lunga", "Malabo", "Malaunay", "Mampas", "North Poblacion",
+    "Palinpinon", "Puhagan", "Pulangbato", "Sagbang", "South Poblacion",
+  ],
+  Vallehermoso: [
+    "Bagawines", "Bairan", "Cabulihan", "Don Espiridion Villegas", "Guba", "Macapso", "Maglahos", "Malangsa",
+    "Molobolo", "Pinocawan", "Poblacion", "Puan", "Tabon", "Tagbino", "Ulay",
+  ],
+  Zamboanguita: [
+    "Basac", "Calango", "Lotuban", "Malongcay Diot", "Maluay", "Mayabon", "Nabago", "Najandig", "Nasig-id", "Poblacion",
+  ],
+}
@@ -0,0 +1,130 @@
+// Barangays of each town in Northern Samar, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Allen: [
+    "Alejandro Village", "Bonifacio", "Cabacungan", "Calarayan", "Frederic", "Guin-arawayan", "Imelda", "Jubasan",
+    "Kinabranan Zone I", "Kinabranan Zone II", "Kinaguitman", "Lagundi", "Lipata", "Lo-oc", "Londres", "Sabang Zone I",
+    "Sabang Zone II", "Santa Rita", "Tasvilla", "Victoria",
+  ],
+  Biri: [
+    "Kauswagan", "MacArthur", "Pio Del Pilar", "Poblacion", "Progresso", "San Antonio", "San Pedro", "Santo Niño",
+  ],
+  Bobon: [
+    "Acerida", "Arellano", "Balat-balud", "Calantiao", "Dancalan", "E. Duran", "Gen. Lucban", "Jose Abad Santos",
+    "Jose P. Laurel", "Magsaysay", "Quezon", "Salvacion", "San Isidro", "San Juan", "Santa Clara", "Santander",
+    "Somoroy", "Trojello",
+  ],
+  Capul: [
+    "Aguin", "Jubang", "Landusan", "Oson", "Poblacion Barangay 1", "Poblacion Barangay 2", "Poblacion Barangay 3",
+    "Poblacion Barangay 4", "Poblacion Barangay 5", "Sagaosawan", "San Luis", "Sawang",
+  ],
+  Catarman: [
+    "Acacia", "Aguinaldo", "Airport Village", "Bangkerohan", "Baybay", "Bocsol", "Cabayhan", "Cag-abaca", "Cal-igang",
+    "Calachuchi", "Cawayan", "Cervantes", "Cularima", "Daganas", "Dalakit", "Doña Pulqueria", "Galutan", "Gebalagnan",
+    "Gebulwangan", "General Malvar", "Guba", "Hinatad", "Imelda", "Ipil-ipil", "Jose Abad Santos", "Jose P. Rizal",
+    "Kasoy", "Lapu-lapu", "Liberty", "Libjo", "Mabini", "Mabolo", "Macagtas", "Mckinley", "Molave", "Narra",
+    "New Rizal", "Old Rizal", "Paticua", "Polangi", "Quezon", "Salvacion", "Sampaguita", "San Julian", "San Pascual",
+    "Santol", "Somoge", "Talisay", "Tinowaran", "Trangue", "UEP I", "UEP II", "UEP III", "Washington", "Yakal",
+  ],
+  Catubig: [
+    "Anongo", "Barangay 1", "Barangay 2", "Barangay 3", "Barangay 4", "Barangay 5", "Barangay 6", "Barangay 7",
+    "Barangay 8", "Bonifacio", "Boring", "Cagbugna", "Cagmanaba", "Cagogobngan", "Calingnan", "Canuctan",
+    "Claro M. Recto", "D. Mercader", "Guibwangan", "Hinagonoyan", "Hiparayan", "Hitapi-an", "Inoburan", "Irawahan",
+    "Lenoyahan", "Libon", "Magongon", "Magtuad", "Manering", "Nabulo", "Nagoocan", "Nahulid", "Opong", "Osang",
+    "Osmeña", "P. Rebadulla", "Roxas", "Sagudsuron", "San Antonio", "San Francisco", "San Jose", "San Vicente",
+    "Santa Fe", "Sulitan", "Tangbo", "Tungodnon", "Vienna Maria",
+  ],
+  Gamay: [
+    "Anito", "Bangon", "Bato", "Baybay District", "Bonifacio", "Burabod", "Cabarasan", "Cadac-an", "Cade-an",
+    "Cagamutan del Norte", "Cagamutan del Sur", "Dao", "G. M. Osias", "Gamay Central", "Gamay Occidental I",
+    "Gamay Oriental I", "Guibuangan", "Henogawe", "Libertad", "Lonoy", "Luneta", "Malidong", "Occidental II",
+    "Oriental II", "Rizal", "San Antonio",
+  ],
+  Laoang: [
+    "Abaton", "Aguadahan", "Aroganga", "Atipolo", "Bawang", "Baybay", "Binatiklan", "Bobolosan", "Bongliw", "Burabud",
+    "Cabadiangan", "Cabagngan", "Cabago-an", "Cabulaloan", "Cagaasan", "Cagdara-o", "Cahayagan", "Calintaan Pob.",
+    "Calomotan", "Candawid", "Cangcahipos", "Canyomanao", "Catigbian", "E. J. Dulay", "G. B. Tan", "Gibatangan",
+    "Guilaoangi", "Inamlan", "La Perla", "Langob", "Lawaan", "Little Venice", "Magsaysay", "Marubay", "Mualbual",
+    "Napotiocan", "Oleras", "Onay", "Palmera", "Pangdan", "Rawis", "Rombang", "San Antonio", "San Miguel Heights",
+    "Sangcol", "Sibunot", "Simora", "Suba", "Talisay", "Tan-awan", "Tarusan", "Tinoblan", "Tumaguingting", "Vigo",
+    "Yabyaban", "Yapas",
+  ],
+  Lapinig: [
+    "Alang-alang", "Bagacay", "Cahagwayan", "Can Maria", "Can Omanio", "Imelda", "Lapinig Del Norte", "Lapinig Del Sur",
+    "Lo-ok", "Mabini", "May-igot", "Palanas", "Pio Del Pilar", "Potong", "Potong Del Sur",
+  ],
+  "Las Navas": [
+    "Balugo", "Bugay", "Bugtosan", "Bukid", "Bulao", "Caputoan", "Catoto-ogan", "Cuenco", "Dapdap", "Del Pilar",
+    "Dolores", "Epaw", "Geguinta", "Geracdo", "Guyo", "H. Jolejole", "H. Jolejole District", "Hangi", "Imelda",
+    "L. Empon", "Lakandula", "Lourdes", "Lumala-og", "Mabini", "Macarthur", "Magsaysay", "Matelarag", "Osmeña", "Paco",
+    "Palanas", "Perez", "Poponton", "Quezon", "Quirino", "Quirino District", "Rebong", "Rizal", "Roxas", "Rufino",
+    "Sag-od", "San Andres", "San Antonio", "San Fernando", "San Francisco", "San Isidro", "San Jorge", "San Jose",
+    "San Miguel", "Santo Tomas", "Tagab-iran", "Tagan-ayan", "Taylor", "Victory",
+  ],
+  Lavezares: [
+    "Balicuatro", "Bani", "Barobaybay", "Caburihan", "Caragas", "Cataogan", "Chansvilla", "Datag", "Enriqueta", "Libas",
+    "Libertad", "Macarthur", "Magsaysay", "Maravilla", "Ocad", "Sabong-Tabok", "Salvacion", "San Agustin", "San Isidro",
+    "San Jose", "San Juan", "San Miguel", "To-og", "Urdaneta", "Villa", "Villahermosa",
+  ],
+  "Lope de Vega": [
+    "Bayho", "Bonifacio", "Cag-aguingay", "Cagamesarag", "Curry", "Gebonawan", "Gen. Luna", "Getigo", "Henaronagan",
+    "Lope De Vega", "Lower Caynaga", "Maghipid", "Magsaysay", "Osmeña", "Paguite", "Roxas", "Sampaguita",
+    "San Francisco", "San Jose", "San Miguel", "Somoroy", "Upper Caynaga",
+  ],
+  Mapanas: [
+    "Burgos", "Del Norte", "Del Sur", "E. Laodenio", "Jubasan", "Magsaysay", "Magtaon", "Manaybanay", "Naparasan",
+    "Quezon", "San Jose", "Santa Potenciana", "Siljagon",
+  ],
+  Mondragon: [
+    "Bagasbas", "Bugko", "Cablangan", "Cagmanaba", "Cahicsan", "Chitongco", "De Maria", "Doña Lucia", "Eco", "Flormina",
+    "Hinabangan", "Imelda", "La Trinidad", "Makiwalo", "Mirador", "Nenita", "Roxas", "San Agustin", "San Antonio",
+    "San Isidro", "San Jose", "San Juan", "Santa Catalina", "Talolora",
+  ],
+  Palapag: [
+    "Asum", "Bagacay", "Bangon", "Benigno S. Aquino, Jr.", "Binay", "Cabariwan", "Cabatuan", "Campedico", "Capacujan",
+    "Jangtud", "Laniwan", "Mabaras", "Magsaysay", "Manajao", "Mapno", "Maragano", "Matambag", "Monbon", "Nagbobtac",
+    "Napo", "Natawo", "Nipa", "Osmeña", "Pangpang", "Paysud", "Sangay", "Simora", "Sinalaran", "Sumoroy", "Talolora",
+    "Tambangan", "Tinampo",
+  ],
+  Pambujan: [
+    "Cababto-an", "Cabari-an", "Cagbigajo", "Camparanga", "Canjumadal", "Doña Anecita", "Ge-adgawan", "Geparayan",
+    "Ginulgan", "Igot", "Inanahawan", "Manahao", "Paninirongan", "Poblacion District 1", "Poblacion District 2",
+    "Poblacion District 3", "Poblacion District 4", "Poblacion District 5", "Poblacion District 6",
+    "Poblacion District 7", "Poblacion District 8", "San Ramon", "Senonogan", "Sixto T. Balanguit, Sr.", "Tula",
+    "Ynaguingayan",
+  ],
+  Rosario: [
+    "Aguada", "Bantolinao", "Buenavista", "Commonwealth", "Guindaulan", "Jamoog", "Kailingan", "Ligaya", "Poblacion",
+    "Salhag", "San Lorenzo",
+  ],
+  "San Antonio": [
+    "Burabod", "Dalupirit", "Manraya", "Pilar", "Rizal", "San Nicolas", "Vinisitahan", "Ward I", "Ward II", "Ward III",
+  ],
+  "San Isidro": [
+    "Alegria", "Balite", "Buenavista", "Caglanipao", "Happy Valley", "Mabuhay", "Palanit", "Poblacion Norte",
+    "Poblacion Sur", "Salvacion", "San Juan", "San Roque", "Seven Hills", "Veriato",
+  ],
+  "San Jose": [
+    "Aguadahan", "Bagong Sabang", "Balite", "Barangay East", "Barangay North", "Barangay South", "Barangay West",
+    "Bonglas", "Da-o", "Gengarog", "Geratag", "Layuhan", "Mandugang", "P. Tingzon", "San Lorenzo", "Tubigdanao",
+  ],
+  "San Roque": [
+    "Balnasan", "Balud", "Bantayan", "Coroconog", "Dale", "Ginagdanan", "Lao-angan", "Lawaan", "Malobago", "Pagsang-an",
+    "Zone 1", "Zone 2", "Zone 3", "Zone 4", "Zone 5", "Zone 6",
+  ],
+  "San Vicente": [
+    "Destacado Pob.", "Maragat", "Mongol Bongol Pob.", "Punta Pob.", "Sangputan", "Sila", "Tarnate",
+  ],
+  "Silvino Lobos": [
+    "Balud", "Cababayogan", "Cabunga-an", "Cagda-o", "Caghilot", "Camanggaran", "Camaya-an", "Deit De Suba",
+    "Deit De Turag", "Gebolwangan", "Gebonawan", "Gecbo-an", "Genagasan", "Geparayan De Turag", "Giguimitan", "Gusaran",
+    "Imelda", "Montalban", "Poblacion I", "Poblacion II", "San Antonio", "San Isidro", "Senonogan de Tubang", "Suba",
+    "Tobgon", "Victory",
+  ],
+  Victoria: [
+    "Acedillo", "Buenasuerte", "Buenos Aires", "Colab-og", "Erenas", "Libertad", "Luisita", "Lungib", "Maxvilla",
+    "Pasabuena", "San Lazaro", "San Miguel", "San Roman", "Zone I", "Zone II", "Zone III",
+  ],
+}
@@ -0,0 +1,190 @@
+// Barangays of each town in Nueva Ecija, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Aliaga: [
+    "Betes", "Bibiclat", "Bucot", "La Purisima", "Macabucod", "Magsaysay", "Pantoc", "Poblacion Centro",
+    "Poblacion East I", "Poblacion East II", "Poblacion West III", "Poblacion West IV", "San Carlos", "San Emiliano",
+    "San Eustacio", "San Felipe Bata", "San Felipe Matanda", "San Juan", "San Pablo Bata", "San Pablo Matanda",
+    "Santa Monica", "Santiago", "Santo Rosario", "Santo Tomas", "Sunson", "Umangan",
+  ],
+  Bongabon: [
+    "Antipolo", "Ariendo", "Bantug", "Calaanan", "Commercial", "Cruz", "Curva", "Digmala", "Kaingin", "Labi", "Larcon",
+    "Lusok", "Macabaclay", "Magtanggol", "Mantile", "Olivete", "Palo Maria", "Pesa", "Rizal", "Sampalucan", "San Roque",
+    "Santor", "Sinipit", "Sisilang na Ligaya", "Social", "Tugatug", "Tulay na Bato", "Vega",
+  ],
+  Cabanatuan: [
+    "Aduas Centro", "Aduas Norte", "Aduas Sur", "Bagong Buhay", "Bagong Sikat", "Bakero", "Bakod Bayan", "Balite",
+    "Bangad", "Bantug Bulalo", "Bantug Norte", "Barlis", "Barrera District", "Bernardo District", "Bitas",
+    "Bonifacio District", "Buliran", "Caalibangbangan", "Cabu", "Calawagan", "Campo Tinio", "Caridad", "Caudillo",
+    "Cinco-Cinco", "City Supermarket", "Communal", "Cruz Roja", "Daang Sarile", "Dalampang", "Dicarma", "Dimasalang",
+    "Dionisio S. Garcia", "Fatima", "General Luna", "Hermogenes C. Concepcion, Sr.", "Ibabao Bana", "Imelda District",
+    "Isla", "Kalikid Norte", "Kalikid Sur", "Kapitan Pepe", "Lagare", "Lourdes", "M. S. Garcia", "Mabini Extension",
+    "Mabini Homesite", "Macatbong", "Magsaysay District", "Magsaysay South", "Maria Theresa", "Matadero",
+    "Mayapyap Norte", "Mayapyap Sur", "Melojavilla", "Nabao", "Obrero", "Padre Burgos", "Padre Crisostomo", "Pagas",
+    "Palagay", "Pamaldan", "Pangatian", "Patalac", "Polilio", "Pula", "Quezon District", "Rizdelis", "Samon",
+    "San Isidro", "San Josef Norte", "San Josef Sur", "San Juan Pob.", "San Roque Norte", "San Roque Sur",
+    "Sanbermicristi", "Sangitan", "Sangitan East", "Santa Arcadia", "Santo Niño", "Sapang", "Sumacab Este",
+    "Sumacab Norte", "Sumacab South", "Talipapa", "Valdefuente", "Valle Cruz", "Vijandre District",
+    "Villa Ofelia-Caridad", "Zulueta District",
+  ],
+  Cabiao: [
+    "Bagong Buhay", "Bagong Sikat", "Bagong Silang", "Concepcion", "Entablado", "Maligaya", "Natividad North",
+    "Natividad South", "Palasinan", "Polilio", "San Antonio", "San Carlos", "San Fernando Norte", "San Fernando Sur",
+    "San Gregorio", "San Juan North", "San Juan South", "San Roque", "San Vicente", "Santa Ines", "Santa Isabel",
+    "Santa Rita", "Sinipit",
+  ],
+  Carranglan: [
+    "Bantug", "Bunga", "Burgos", "Capintalan", "D. L. Maglanoc Pob.", "F. C. Otic Pob.", "G. S. Rosario Pob.",
+    "General Luna", "Joson", "Minuli", "Piut", "Puncan", "Putlan", "R.A.Padilla", "Salazar", "San Agustin",
+    "T. L. Padilla Pob.",
+  ],
+  Cuyapo: [
+    "Baloy", "Bambanaba", "Bantug", "Bentigan", "Bibiclat", "Bonifacio", "Bued", "Bulala", "Burgos", "Cabatuan",
+    "Cabileo", "Cacapasan", "Calancuasan Norte", "Calancuasan Sur", "Colosboa", "Columbitin", "Curva", "District I",
+    "District II", "District IV", "District V", "District VI", "District VII", "District VIII", "Landig", "Latap",
+    "Loob", "Luna", "Malbeg-Patalan", "Malineng", "Matindeg", "Maycaban", "Nagcuralan", "Nagmisahan", "Paitan Norte",
+    "Paitan Sur", "Piglisan", "Pugo", "Rizal", "Sabit", "Salagusog", "San Antonio", "San Jose", "San Juan",
+    "Santa Clara", "Santa Cruz", "Simimbaan", "Tagtagumbao", "Tutuloy", "Ungab", "Villaflores",
+  ],
+  Gabaldon: [
+    "Bagong Sikat", "Bagting", "Bantug", "Bitulok", "Bugnan", "Calabasa", "Camachile", "Cuyapa", "Ligaya", "Macasandal",
+    "Malinao", "Pantoc", "Pinamalisan", "Sawmill", "South Poblacion", "Tagumpay",
+  ],
+  Gapan: [
+    "Balante", "Bayanihan", "Bulak", "Bungo", "Kapalangan", "Mabunga", "Maburak", "Mahipon", "Makabaclay", "Malimba",
+    "Mangino", "Marelo", "Pambuan", "Parcutela", "Puting Tubig", "San Lorenzo", "San Nicolas", "San Roque",
+    "San Vicente", "Santa Cruz", "Santo Cristo Norte", "Santo Cristo Sur", "Santo Niño",
+  ],
+  "General Mamerto Natividad": [
+    "Balangkare Norte", "Balangkare Sur", "Balaring", "Belen", "Bravo", "Burol", "Kabulihan", "Mag-asawang Sampaloc",
+    "Manarog", "Mataas na Kahoy", "Panacsac", "Picaleon", "Pinahan", "Platero", "Poblacion", "Pula", "Pulong Singkamas",
+    "Sapang Bato", "Talabutab Norte", "Talabutab Sur",
+  ],
+  "General Tinio": [
+    "Bago", "Concepcion", "Nazareth", "Padolina", "Palale", "Pias", "Poblacion Central", "Poblacion East",
+    "Poblacion West", "Pulong Matong", "Rio Chico", "Sampaguita", "San Pedro",
+  ],
+  Guimba: [
+    "Agcano", "Ayos Lomboy", "Bacayao", "Bagong Barrio", "Balbalino", "Balingog East", "Balingog West", "Banitan",
+    "Bantug", "Bulakid", "Bunol", "Caballero", "Cabaruan", "Caingin Tabing Ilog", "Calem", "Camiing", "Cardinal",
+    "Casongsong", "Catimon", "Cavite", "Cawayan Bugtong", "Consuelo", "Culong", "Escano", "Faigal", "Galvan", "Guiset",
+    "Lamorito", "Lennec", "Macamias", "Macapabellag", "Macatcatuit", "Manacsac", "Manggang Marikit", "Maturanoc",
+    "Maybubon", "Naglabrahan", "Nagpandayan", "Narvacan I", "Narvacan II", "Pacac", "Partida I", "Partida II",
+    "Pasong Inchic", "Saint John District", "San Agustin", "San Andres", "San Bernardino", "San Marcelino",
+    "San Miguel", "San Rafael", "San Roque", "Santa Ana", "Santa Cruz", "Santa Lucia", "Santa Veronica District",
+    "Santo Cristo District", "Saranay District", "Sinulatan", "Subol", "Tampac I", "Tampac II & III", "Triala", "Yuson",
+  ],
+  Jaen: [
+    "Calabasa", "Dampulan", "Don Mariano Marcos", "Hilera", "Imbunia", "Imelda Pob.", "Lambakin", "Langla", "Magsalisi",
+    "Malabon-Kaingin", "Marawa", "Niyugan", "Ocampo-Rivera District", "Pakol", "Pamacpacan", "Pinanggaan", "Putlod",
+    "San Jose", "San Josef", "San Pablo", "San Roque", "San Vicente", "Santa Rita", "Santo Tomas North",
+    "Santo Tomas South", "Sapang", "Ulanin-Pitak",
+  ],
+  Laur: [
+    "Barangay I", "Barangay II", "Barangay III", "Barangay IV", "Betania", "Canantong", "Nauzon", "Pangarulong",
+    "Pinagbayanan", "Sagana", "San Felipe", "San Fernando", "San Isidro", "San Josef", "San Juan", "San Vicente",
+    "Siclong",
+  ],
+  Licab: [
+    "Aquino", "Linao", "Poblacion Norte", "Poblacion Sur", "San Casimiro", "San Cristobal", "San Jose", "San Juan",
+    "Santa Maria", "Tabing Ilog", "Villarosa",
+  ],
+  Llanera: [
+    "A. Bonifacio", "Bagumbayan", "Bosque", "Caridad Norte", "Caridad Sur", "Casile", "Florida Blanca", "General Luna",
+    "General Ricarte", "Gomez", "Inanama", "Ligaya", "Mabini", "Murcon", "Plaridel", "San Felipe", "San Francisco",
+    "San Nicolas", "San Vicente", "Santa Barbara", "Victoria", "Villa Viniegas",
+  ],
+  Lupao: [
+    "Agupalo Este", "Agupalo Weste", "Alalay Chica", "Alalay Grande", "Bagong Flores", "Balbalungao", "Burgos",
+    "Cordero", "J. U. Tienzo", "Mapangpang", "Namulandayan", "Parista", "Poblacion East", "Poblacion North",
+    "Poblacion South", "Poblacion West", "Salvacion I", "Salvacion II", "San Antonio Este", "San Antonio Weste",
+    "San Isidro", "San Pedro", "San Roque", "Santo Domingo",
+  ],
+  Nampicuan: [
+    "Alemania", "Ambasador Alzate Village", "Cabaducan East", "Cabaducan West", "Cabawangan", "East Central Poblacion",
+    "Edy", "Estacion", "Maeling", "Mayantoc", "Medico", "Monic", "North Poblacion", "Northwest Poblacion", "Recuerdo",
+    "South Central Poblacion", "Southeast Poblacion", "Southwest Poblacion", "Tony", "West Central Poblacion",
+    "West Poblacion",
+  ],
+  Palayan: [
+    "Atate", "Aulo", "Bagong Buhay", "Bo. Militar", "Caballero", "Caimito", "Doña Josefa", "Ganaderia", "Imelda Valley",
+    "Langka", "Malate", "Maligaya", "Manacnac", "Mapait", "Marcos Village", "Popolon Pagas", "Santolan", "Sapang Buho",
+    "Singalat",
+  ],
+  Pantabangan: [
+    "Cadaclan", "Cambitala", "Conversion", "Fatima", "Ganduz", "Liberty", "Malbang", "Marikit", "Napon-Napon",
+    "Poblacion East", "Poblacion West", "Sampaloc", "San Juan", "Villarica",
+  ],
+  "Peñaranda": [
+    "Callos", "Las Piñas", "Poblacion I", "Poblacion II", "Poblacion III", "Poblacion IV", "San Josef", "San Mariano",
+    "Santo Tomas", "Sinasajan",
+  ],
+  Quezon: [
+    "Barangay I", "Barangay II", "Bertese", "Doña Lucia", "Dulong Bayan", "Ilog Baliwag", "Pulong Bahay",
+    "San Alejandro", "San Andres I", "San Andres II", "San Manuel", "San Miguel", "Santa Clara", "Santa Rita",
+    "Santo Cristo", "Santo Tomas Feria",
+  ],
+  Rizal: [
+    "Agbannawag", "Aglipay", "Bicos", "Cabucbucan", "Calaocan District", "Canaan East", "Canaan West", "Casilagan",
+    "Del Pilar", "Estrella", "General Luna", "Macapsing", "Maligaya", "Paco Roman", "Pag-asa", "Poblacion Central",
+    "Poblacion East", "Poblacion Norte", "Poblacion Sur", "Poblacion West", "Portal", "San Esteban", "San Gregorio",
+    "Santa Monica", "Villa Labrador", "Villa Paraiso",
+  ],
+  "San Antonio": [
+    "Buliran", "Cama Juan", "Julo", "Lawang Kupang", "Luyos", "Maugat", "Panabingan", "Papaya", "Poblacion",
+    "San Francisco", "San Jose", "San Mariano", "Santa Barbara", "Santa Cruz", "Santo Cristo", "Tikiw",
+  ],
+  "San Isidro": [
+    "Alua", "Calaba", "Malapit", "Mangga", "Poblacion", "Pulo", "San Roque", "Sto. Cristo", "Tabon",
+  ],
+  "San Jose": [
+    "A. Pascual", "Abar 2nd", "Abar Ist", "Bagong Sikat", "Caanawan", "Calaocan", "Camanacsacan", "Canuto Ramos Pob.",
+    "Crisanto Sanchez Pob.", "Culaylay", "Dizol", "Ferdinand E. Marcos Pob.", "Kaliwanagan", "Kita-Kita", "Malasin",
+    "Manicla", "Palestina", "Parang Mangga", "Pinili", "Porais", "Rafael Rueda, Sr. Pob.", "Raymundo Eugenio Pob.",
+    "San Agustin", "San Juan", "San Mauricio", "Santo Niño 1st", "Santo Niño 2nd", "Santo Niño 3rd", "Santo Tomas",
+    "Sibut", "Sinipit Bubon", "Tabulac", "Tayabo", "Tondod", "Tulat", "Villa Floresca", "Villa Joson", "Villa Marina",
+  ],
+  "San Leonardo": [
+    "Bonifacio District", "Burgos District", "Castellano", "Diversion", "Magpapalayoc", "Mallorca", "Mambangnan",
+    "Nieves", "Rizal District", "San Anton", "San Bartolome", "San Roque", "Tabuating", "Tagumpay", "Tambo Adorable",
+  ],
+  "Santa Rosa": [
+    "Aguinaldo", "Berang", "Burgos", "Cojuangco", "Del Pilar", "Gomez", "Inspector", "Isla", "La Fuente", "Liwayway",
+    "Lourdes", "Luna", "Mabini", "Malacañang", "Maliolio", "Mapalad", "Rajal Centro", "Rajal Norte", "Rajal Sur",
+    "Rizal", "San Gregorio", "San Isidro", "San Josep", "San Mariano", "San Pedro", "Santa Teresita", "Santo Rosario",
+    "Sapsap", "Soledad", "Tagpos", "Tramo", "Valenzuela", "Zamora",
+  ],
+  "Santo Domingo": [
+    "Baloc", "Buasao", "Burgos", "Cabugao", "Casulucan", "Comitang", "Concepcion", "Dolores", "General Luna", "Hulo",
+    "Mabini", "Malasin", "Malaya", "Malayantoc", "Mambarao", "Poblacion", "Pulong Buli", "Sagaba", "San Agustin",
+    "San Fabian", "San Francisco", "San Pascual", "Santa Rita", "Santo Rosario",
+  ],
+  "Science City of Muñoz": [
+    "Bagong Sikat", "Balante", "Bantug", "Bical", "Cabisuculan", "Calabalabaan", "Calisitan", "Catalanacan", "Curva",
+    "Franza", "Gabaldon", "Labney", "Licaong", "Linglingay", "Magtanggol", "Maligaya", "Mangandingay", "Mapangpang",
+    "Maragol", "Matingkis", "Naglabrahan", "Palusapis", "Pandalla", "Poblacion East", "Poblacion North",
+    "Poblacion South", "Poblacion West", "Rang-ayan", "Rizal", "San Andres", "San Antonio", "San Felipe",
+    "Sapang Cawayan", "Villa Cuizon", "Villa Isla", "Villa Nati", "Villa Santos",
+  ],
+  Talavera: [
+    "Andal Alino", "Bagong Sikat", "Bagong Silang", "Bakal I", "Bakal II", "Bakal III", "Baluga", "Bantug",
+    "Bantug Hacienda", "Bantug Hamog", "Bugtong na Buli", "Bulac", "Burnay", "Caaniplahan", "Cabubulaonan", "Calipahan",
+    "Campos", "Caputican", "Casulucan Este", "Collado", "Dimasalang Norte", "Dimasalang Sur", "Dinarayat",
+    "Esguerra District", "Gulod", "Homestead I", "Homestead II", "Kinalanguyan", "La Torre", "Lomboy", "Mabuhay",
+    "Maestrang Kikay", "Mamandil", "Marcos District", "Matingkis", "Minabuyoc", "Pag-asa", "Paludpod", "Pantoc Bulac",
+    "Pinagpanaan", "Poblacion Sur", "Pula", "Pulong San Miguel", "Purok Matias", "Sampaloc", "San Miguel na Munti",
+    "San Pascual", "San Ricardo", "Sibul", "Sicsican Matanda", "Tabacao", "Tagaytay", "Valle",
+  ],
+  Talugtug: [
+    "Alula", "Baybayabas", "Buted", "Cabiangan", "Calisitan", "Cinense", "Culiat", "Maasin", "Magsaysay", "Mayamot I",
+    "Mayamot II", "Nangabulan", "Osmeña", "Pangit", "Patola", "Quezon", "Quirino", "Roxas", "Saguing", "Sampaloc",
+    "Santa Catalina", "Santo Domingo", "Saringaya", "Saverona", "Tandoc", "Tibag", "Villa Boado", "Villa Rosario",
+  ],
+  Zaragoza: [
+    "Batitang", "Carmen", "Concepcion", "Del Pilar", "General Luna", "H. Romero", "Macarse", "Manaul", "Mayamot",
+    "Pantoc", "San Isidro", "San Rafael", "San Vicente", "Santa Cruz", "Santa Lucia Old", "Santa Lucia Young",
+    "Santo Rosario Old", "Santo Rosario Young", "Valeriana",
+  ],
+}
@@ -0,0 +1,51 @@
+// Barangays of each town in Occidental Mindoro, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  "Abra de Ilog": [
+    "Armado", "Balao", "Cabacao", "Lumangbayan", "Poblacion", "San Vicente", "Sta. Maria", "Tibag", "Udalo", "Wawa",
+  ],
+  Calintaan: [
+    "Concepcion", "Iriron", "Malpalon", "New Dagupan", "Poblacion", "Poypoy", "Tanyag",
+  ],
+  Looc: [
+    "Agkawayan", "Ambil", "Balikyas", "Bonbon", "Bulacan", "Burol", "Guitna", "Kanluran", "Talaotao",
+  ],
+  Lubang: [
+    "Araw At Bituin", "Bagong Sikat", "Banaag ng Pag-asa", "Binakas", "Cabra", "Likas Ng Silangan", "Maginhawa",
+    "Maligaya", "Maliig", "Ninikat Ng Pag-Asa", "Paraiso", "Sorville", "Tagbac", "Tangal", "Tilik", "Vigo",
+  ],
+  Magsaysay: [
+    "Alibog", "Caguray", "Calawag", "Gapasan", "Laste", "Lourdes", "Nicolas", "Paclolo", "Poblacion", "Purnaga",
+    "Santa Teresa", "Sibalat",
+  ],
+  Mamburao: [
+    "Balansay", "Fatima", "Payompon", "Poblacion 1", "Poblacion 2", "Poblacion 3", "Poblacion 4", "Poblacion 5",
+    "Poblacion 6", "Poblacion 7", "Poblacion 8", "San Luis", "Talabaan", "Tangkalan", "Tayamaan",
+  ],
+  Paluan: [
+    "Alipaoy", "Bagong Silang Pob.", "Handang Tumulong Pob.", "Harrison", "Lumangbayan", "Mananao", "Mapalad Pob.",
+    "Marikit", "Pag-Asa Ng Bayan Pob.", "San Jose Pob.", "Silahis Ng Pag-Asa Pob.", "Tubili",
+  ],
+  Rizal: [
+    "Adela", "Aguas", "Magsikap", "Malawaan", "Manoot", "Pitogo", "Rizal", "Rumbang", "Salvacion", "San Pedro",
+    "Santo Niño",
+  ],
+  Sablayan: [
+    "Batong Buhay", "Buenavista", "Burgos", "Claudio Salgado", "General Emilio Aguinaldo", "Ibud", "Ilvita", "Lagnas",
+    "Ligaya", "Malisbong", "Paetan", "Pag-Asa", "Poblacion", "San Agustin", "San Francisco", "San Nicolas",
+    "San Vicente", "Sta. Lucia", "Sto. Niño", "Tagumpay", "Tuban", "Victoria",
+  ],
+  "San Jose": [
+    "Ambulong", "Ansiray", "Bagong Sikat", "Bangkal", "Barangay 1", "Barangay 2", "Barangay 3", "Barangay 4",
+    "Barangay 5", "Barangay 6", "Barangay 7", "Barangay 8", "Batasan", "Bayotbot", "Bubog", "Buri", "Camburay",
+    "Caminawit", "Catayungan", "Central", "Iling Proper", "Inasakan", "Ipil", "La Curva", "Labangan Iling",
+    "Labangan Poblacion", "Mabini", "Magbay", "Mangarin", "Mapaya", "Monte Claro", "Murtha", "Naibuan", "Natandol",
+    "Pag-Asa", "Pawican", "San Agustin", "San Isidro", "San Roque",
+  ],
+  "Santa Cruz": [
+    "Alacaak", "Barahan", "Casague", "Dayap", "Kurtinganan", "Lumangbayan", "Mulawin", "Pinagturilan", "Poblacion I",
+    "Poblacion II", "San Vicente",
+  ],
+}
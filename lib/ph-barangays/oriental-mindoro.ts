@@ -0,0 +1,91 @@
+// Barangays of each town in Oriental Mindoro, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Baco: [
+    "Alag", "Bangkatan", "Baras", "Bayanan", "Burbuli", "Catwiran I", "Catwiran II", "Dulangan I", "Dulangan II",
+    "Lantuyang", "Lumang Bayan", "Malapad", "Mangangan I", "Mangangan II", "Mayabig", "Pambisan", "Poblacion",
+    "Pulang-Tubig", "Putican-Cabulo", "San Andres", "San Ignacio", "Santa Cruz", "Santa Rosa I", "Santa Rosa II",
+    "Tabon-tabon", "Tagumpay", "Water",
+  ],
+  Bansud: [
+    "Alcadesma", "Bato", "Conrazon", "Malo", "Manihala", "Pag-Asa", "Poblacion", "Proper Bansud", "Proper Tiguisan",
+    "Rosacara", "Salcedo", "Sumagui", "Villa Pag-Asa",
+  ],
+  Bongabong: [
+    "Anilao", "Aplaya", "Bagumbayan I", "Bagumbayan II", "Batangan", "Bukal", "Camantigue", "Carmundo", "Cawayan",
+    "Dayhagan", "Formon", "Hagan", "Hagupit", "Ipil", "Kaligtasan", "Labasan", "Labonan", "Libertad", "Lisap", "Luna",
+    "Malitbog", "Mapang", "Masaguisi", "Mina de Oro", "Morente", "Ogbot", "Orconuma", "Poblacion", "Polusahi", "Sagana",
+    "San Isidro", "San Jose", "San Juan", "Santa Cruz", "Sigange", "Tawas",
+  ],
+  Bulalacao: [
+    "Bagong Sikat", "Balatasan", "Benli", "Cabugao", "Cambunang", "Campaasan", "Maasin", "Maujao", "Milagrosa",
+    "Nasukob", "Poblacion", "San Francisco", "San Isidro", "San Juan", "San Roque",
+  ],
+  Calapan: [
+    "Balingayan", "Balite", "Baruyan", "Batino", "Bayanan I", "Bayanan II", "Biga", "Bondoc", "Bucayao", "Buhuan",
+    "Bulusan", "Calero", "Camansihan", "Camilmil", "Canubing I", "Canubing II", "Comunal", "Guinobatan", "Gulod",
+    "Gutad", "Ibaba East", "Ibaba West", "Ilaya", "Lalud", "Lazareto", "Libis", "Lumangbayan", "Mahal Na Pangalan",
+    "Maidlang", "Malad", "Malamig", "Managpi", "Masipit", "Nag-Iba I", "Nag-Iba II", "Navotas", "Pachoca", "Palhi",
+    "Panggalaan", "Parang", "Patas", "Personas", "Puting Tubig", "Salong", "San Antonio", "San Vicente Central",
+    "San Vicente East", "San Vicente North", "San Vicente South", "San Vicente West", "Sapul", "Silonay", "Sta. Cruz",
+    "Sta. Isabel", "Sta. Maria Village", "Sta. Rita", "Sto. Niño", "Suqui", "Tawagan", "Tawiran", "Tibag", "Wawa",
+  ],
+  Gloria: [
+    "Agos", "Agsalin", "Alma Villa", "Andres Bonifacio", "Balete", "Banus", "Banutan", "Bulaklakan", "Buong Lupa",
+    "Gaudencio Antonino", "Guimbonan", "Kawit", "Lucio Laurel", "Macario Adriatico", "Malamig", "Malayong", "Maligaya",
+    "Malubay", "Manguyang", "Maragooc", "Mirayan", "Narra", "Papandungin", "San Antonio", "Santa Maria",
+    "Santa Theresa", "Tambong",
+  ],
+  Mansalay: [
+    "B. Del Mundo", "Balugo", "Bonbon", "Budburan", "Cabalwa", "Don Pedro", "Maliwanag", "Manaul", "Panaytayan",
+    "Poblacion", "Roma", "Santa Brigida", "Santa Maria", "Santa Teresita", "Villa Celestial", "Wasig", "Waygan",
+  ],
+  Naujan: [
+    "Adrialuna", "Andres Ilagan", "Antipolo", "Apitong", "Arangin", "Aurora", "Bacungan", "Bagong Buhay", "Balite",
+    "Bancuro", "Banuton", "Barcenaga", "Bayani", "Buhangin", "Caburo", "Concepcion", "Dao", "Del Pilar", "Estrella",
+    "Evangelista", "Gamao", "General Esco", "Herrera", "Inarawan", "Kalinisan", "Laguna", "Mabini", "Magtibay",
+    "Mahabang Parang", "Malaya", "Malinao", "Malvar", "Masagana", "Masaguing", "Melgar A", "Melgar B", "Metolza",
+    "Montelago", "Montemayor", "Motoderazo", "Mulawin", "Nag-Iba I", "Nag-Iba II", "Pagkakaisa", "Paitan", "Paniquian",
+    "Pinagsabangan I", "Pinagsabangan II", "Piñahan", "Poblacion I", "Poblacion II", "Poblacion III", "Sampaguita",
+    "San Agustin I", "San Agustin II", "San Andres", "San Antonio", "San Carlos", "San Isidro", "San Jose", "San Luis",
+    "San Nicolas", "San Pedro", "Santa Cruz", "Santa Isabel", "Santa Maria", "Santiago", "Santo Niño", "Tagumpay",
+    "Tigkan",
+  ],
+  Pinamalayan: [
+    "Anoling", "Bacungan", "Bangbang", "Banilad", "Buli", "Cacawan", "Calingag", "Delrazon", "Guinhawa", "Inclanay",
+    "Lumambayan", "Malaya", "Maliangcog", "Maningcol", "Marayos", "Marfrancisco", "Nabuslot", "Pagalagala", "Palayan",
+    "Pambisan Malaki", "Pambisan Munti", "Panggulayan", "Papandayan", "Pili", "Quinabigan", "Ranzo", "Rosario",
+    "Sabang", "Sta. Isabel", "Sta. Maria", "Sta. Rita", "Sto. Niño", "Wawa", "Zone I", "Zone II", "Zone III", "Zone IV",
+  ],
+  Pola: [
+    "Bacawan", "Bacungan", "Batuhan", "Bayanan", "Biga", "Buhay Na Tubig", "Calima", "Calubasanhon", "Campamento",
+    "Casiligan", "Malibago", "Maluanluan", "Matulatula", "Misong", "Pahilahan", "Panikihan", "Pula", "Puting Cacao",
+    "Tagbakin", "Tagumpay", "Tiguihan", "Zone I", "Zone II",
+  ],
+  "Puerto Galera": [
+    "Aninuan", "Baclayan", "Balatero", "Dulangan", "Palangan", "Poblacion", "Sabang", "San Antonio", "San Isidro",
+    "Santo Niño", "Sinandigan", "Tabinay", "Villaflor",
+  ],
+  Roxas: [
+    "Bagumbayan", "Cantil", "Dangay", "Happy Valley", "Libertad", "Libtong", "Little Tanauan", "Mabuhay", "Maraska",
+    "Odiong", "Paclasan", "San Aquilino", "San Isidro", "San Jose", "San Mariano", "San Miguel", "San Rafael",
+    "San Vicente", "Uyao", "Victoria",
+  ],
+  "San Teodoro": [
+    "Bigaan", "Caagutayan", "Calangatan", "Calsapa", "Ilag", "Lumangbayan", "Poblacion", "Tacligan",
+  ],
+  Socorro: [
+    "Bagsok", "Batong Dalig", "Bayuin", "Bugtong Na Tuog", "Calocmoy", "Calubayan", "Catiningan", "Fortuna",
+    "Happy Valley", "Leuteboro I", "Leuteboro II", "Ma. Concepcion", "Mabuhay I", "Mabuhay II", "Malugay", "Matungao",
+    "Monteverde", "Pasi I", "Pasi II", "Santo Domingo", "Subaan", "Villareal", "Zone I", "Zone II", "Zone III",
+    "Zone IV",
+  ],
+  Victoria: [
+    "Alcate", "Antonino", "Babangonan", "Bagong Buhay", "Bagong Silang", "Bambanin", "Bethel", "Canaan", "Concepcion",
+    "Duongan", "Jose Leido Jr.", "Loyal", "Mabini", "Macatoc", "Malabo", "Merit", "Ordovilla", "Pakyas", "Poblacion I",
+    "Poblacion II", "Poblacion III", "Poblacion IV", "Sampaguita", "San Antonio", "San Cristobal", "San Gabriel",
+    "San Gelacio", "San Isidro", "San Juan", "San Narciso", "Urdaneta", "Villa Cerveza",
+  ],
+}
@@ -0,0 +1,106 @@
+// Barangays of each town in Palawan, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Aborlan: [
+    "Apoaporawan", "Apoc-apoc", "Apurawan", "Barake", "Cabigaan", "Culandanum", "Gogognan", "Iraan", "Isaub",
+    "Jose Rizal", "Mabini", "Magbabadil", "Plaridel", "Poblacion", "Ramon Magsaysay", "Sagpangan", "San Juan",
+    "Tagpait", "Tigman",
+  ],
+  Agutaya: [
+    "Abagat", "Algeciras", "Bangcal", "Cambian", "Concepcion", "Diit", "Maracanao", "Matarawis", "Villafria",
+    "Villasol",
+  ],
+  Araceli: [
+    "Balogo", "Dagman", "Dalayawon", "Lumacad", "Madoldolon", "Mauringuen", "Osmeña", "Poblacion", "San Jose De Oro",
+    "Sto. Niño", "Taloto", "Tinintinan", "Tudela",
+  ],
+  Balabac: [
+    "Agutayan", "Bancalaan", "Bugsuk", "Catagupan", "Indalawan", "Malaking Ilog", "Mangsee", "Melville", "Pandanan",
+    "Pasig", "Poblacion I", "Poblacion II", "Poblacion III", "Poblacion IV", "Poblacion V", "Poblacion VI", "Rabor",
+    "Ramos", "Salang", "Sebaring",
+  ],
+  Bataraza: [
+    "Bono-bono", "Bulalacao", "Buliluyan", "Culandanum", "Igang-igang", "Inogbong", "Iwahig", "Malihud", "Malitub",
+    "Marangas", "Ocayan", "Puring", "Rio Tuba", "Sandoval", "Sapa", "Sarong", "Sumbiling", "Tabud", "Tagnato",
+    "Tagolango", "Taratak", "Tarusan",
+  ],
+  "Brooke's Point": [
+    "Amas", "Aribungos", "Barong-barong", "Calasaguen", "Imulnod", "Ipilan", "Maasin", "Mainit", "Malis", "Mambalot",
+    "Oring-oring", "Pangobilian", "Poblacion I", "Poblacion II", "Salogon", "Samareñana", "Saraza", "Tubtub",
+  ],
+  Busuanga: [
+    "Bogtong", "Buluang", "Cheey", "Concepcion", "Maglalambay", "New Busuanga", "Old Busuanga", "Panlaitan", "Quezon",
+    "Sagrada", "Salvacion", "San Isidro", "San Rafael", "Santo Niño",
+  ],
+  Cagayancillo: [
+    "Bantayan", "Calsada", "Convento", "Lipot North", "Lipot South", "Magsaysay", "Mampio", "Nusa", "Santa Cruz",
+    "Tacas", "Talaga", "Wahig",
+  ],
+  Coron: [
+    "Banuang Daan", "Barangay I", "Barangay II", "Barangay III", "Barangay IV", "Barangay V", "Barangay VI", "Bintuan",
+    "Borac", "Buenavista", "Bulalacao", "Cabugao", "Decabobo", "Decalachao", "Guadalupe", "Lajala", "Malawig",
+    "Marcilla", "San Jose", "San Nicolas", "Tagumpay", "Tara", "Turda",
+  ],
+  Culion: [
+    "Balala", "Baldat", "Binudac", "Burabod", "Carabao", "Culango", "Galoc", "Halsey", "Jardin", "Libis", "Luac",
+    "Malaking Patag", "Osmeña", "Tiza",
+  ],
+  Cuyo: [
+    "Balading", "Bangcal", "Cabigsing", "Caburian", "Caponayan", "Catadman", "Funda", "Lagaoriao", "Lubid", "Lungsod",
+    "Manamoc", "Maringian", "Pawa", "San Carlos", "Suba", "Tenga-tenga", "Tocadan",
+  ],
+  "Dr. Jose P. Rizal": [
+    "Bunog", "Campong Ulay", "Candawaga", "Canipaan", "Culasian", "Iraan", "Latud", "Panalingaan", "Punta Baja",
+    "Ransang", "Taburi",
+  ],
+  Dumaran: [
+    "Bacao", "Bohol", "Calasag", "Capayas", "Catep", "Culasian", "Danleg", "Dumaran", "Ilian", "Itangil", "Magsaysay",
+    "San Juan", "Santa Maria", "Santa Teresita", "Santo Tomas", "Tanatanaon",
+  ],
+  "El Nido": [
+    "Aberawan", "Bagong Bayan", "Barotuan", "Bebeladan", "Bucana", "Buena Suerte Pob.", "Corong-corong Pob.", "Mabini",
+    "Maligaya Pob.", "Manlag", "Masagana Pob.", "New Ibajay", "Pasadeña", "San Fernando", "Sibaltan", "Teneguiban",
+    "Villa Libertad", "Villa Paz",
+  ],
+  Kalayaan: [
+    "Pag-Asa",
+  ],
+  Linapacan: [
+    "Barangonan", "Cabunlawan", "Calibangbangan", "Decabaitot", "Maroyogroyog", "Nangalao", "New Culaylayan", "Pical",
+    "San Miguel", "San Nicolas",
+  ],
+  Magsaysay: [
+    "Alcoba", "Balaguen", "Canipo", "Cocoro", "Danawan", "Emilod", "Igabas", "Lacaren", "Los Angeles", "Lucbuan",
+    "Rizal",
+  ],
+  Narra: [
+    "Antipuluan", "Aramaywan", "Bagong Sikat", "Batang-batang", "Bato-bato", "Burirao", "Caguisan", "Calategas",
+    "Dumagueña", "Elvita", "Estrella Village", "Ipilan", "Malatgao", "Malinao", "Narra", "Panacan", "Panacan 2",
+    "Princess Urduja", "Sandoval", "Tacras", "Taritien", "Teresa", "Tinagong Dagat",
+  ],
+  Quezon: [
+    "Alfonso XIII", "Aramaywan", "Berong", "Calatagbak", "Calumpang", "Isugod", "Maasin", "Malatgao", "Panitian",
+    "Pinaglabanan", "Quinlogan", "Sowangan", "Tabon", "Tagusao",
+  ],
+  Roxas: [
+    "Abaroan", "Antonino", "Bagong Bayan", "Barangay 1", "Barangay II", "Barangay III", "Barangay IV",
+    "Barangay V Pob.", "Barangay VI Pob.", "Caramay", "Dumarao", "Iraan", "Jolo", "Magara", "Malcampo", "Mendoza",
+    "Narra", "New Barbacan", "New Cuyo", "Nicanor Zabala", "Rizal", "Salvacion", "San Isidro", "San Jose", "San Miguel",
+    "San Nicolas", "Sandoval", "Tagumpay", "Taradungan", "Tinitian", "Tumarbong",
+  ],
+  "San Vicente": [
+    "Alimanguan", "Binga", "Caruray", "Kemdeng", "New Agutaya", "New Canipo", "Poblacion", "Port Barton", "San Isidro",
+    "Santo Niño",
+  ],
+  "Sofronio Española": [
+    "Abo-abo", "Iraray", "Isumbo", "Labog", "Panitian", "Pulot Center", "Pulot Interior", "Pulot Shore", "Punang",
+  ],
+  Taytay: [
+    "Abongan", "Alacalian", "Banbanan", "Bantulan", "Baras", "Batas", "Bato", "Beton", "Busy Bees", "Calawag", "Casian",
+    "Cataban", "Debangan", "Depla", "Libertad", "Liminangcong", "Maytegued", "Minapla", "New Guinlo", "Old Guinlo",
+    "Paglaum", "Paly", "Pamantolon", "Pancol", "Poblacion", "Pularaquen", "San Jose", "Sandoval", "Silanga", "Talog",
+    "Tumbod",
+  ],
+}
@@ -0,0 +1,121 @@
+// Barangays of each town in Pampanga, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Apalit: [
+    "Balucuc", "Calantipe", "Cansinala", "Capalangan", "Colgante", "Paligui", "Sampaloc", "San Juan", "San Vicente",
+    "Sucad", "Sulipan", "Tabuyuc",
+  ],
+  Arayat: [
+    "Arenas", "Baliti", "Batasan", "Buensuceso", "Candating", "Cupang", "Gatiawin", "Guemasan", "Kaledian", "La Paz",
+    "Lacmit", "Lacquios", "Mangga-Cacutud", "Mapalad", "Matamo", "Panlinlang", "Paralaya", "Plazang Luma", "Poblacion",
+    "San Agustin Norte", "San Agustin Sur", "San Antonio", "San Jose Mesulo", "San Juan Bano", "San Mateo",
+    "San Nicolas", "San Roque Bitas", "Santo Niño Tabuan", "Suclayin", "Telapayong",
+  ],
+  Bacolor: [
+    "Balas", "Cabalantian", "Cabambangan", "Cabetican", "Calibutbut", "Concepcion", "Dolores", "Duat", "Macabacle",
+    "Magliman", "Maliwalu", "Mesalipit", "Parulog", "Potrero", "San Antonio", "San Isidro", "San Vicente",
+    "Santa Barbara", "Santa Ines", "Talba", "Tinajero",
+  ],
+  Candaba: [
+    "Bahay Pare", "Bambang", "Barangca", "Barit", "Buas", "Cuayang Bugtong", "Dalayap", "Dulong Ilog", "Gulap",
+    "Lanang", "Lourdes", "Magumbali", "Mandasig", "Mandili", "Mangga", "Mapaniqui", "Paligui", "Pangclara", "Pansinao",
+    "Paralaya", "Pasig", "Pescadores", "Pulong Gubat", "Pulong Palazan", "Salapungan", "San Agustin", "Santo Rosario",
+    "Tagulod", "Talang", "Tenejero", "Vizal San Pablo", "Vizal Santo Cristo", "Vizal Santo Niño",
+  ],
+  Floridablanca: [
+    "Anon", "Apalit", "Basa Air Base", "Benedicto", "Bodega", "Cabangcalan", "Calantas", "Carmencita", "Consuelo",
+    "Dampe", "Del Carmen", "Fortuna", "Gutad", "Mabical", "Maligaya", "Mawacat", "Nabuclod", "Pabanlag", "Paguiruan",
+    "Palmayo", "Pandaguirig", "Poblacion", "San Antonio", "San Isidro", "San Jose", "San Nicolas", "San Pedro",
+    "San Ramon", "San Roque", "Solib", "Sta. Monica", "Sto. Rosario", "Valdez",
+  ],
+  Guagua: [
+    "Ascomo", "Bancal", "Jose Abad Santos", "Lambac", "Magsaysay", "Maquiapo", "Natividad", "Plaza Burgos",
+    "Pulungmasle", "Rizal", "San Agustin", "San Antonio", "San Isidro", "San Jose", "San Juan", "San Juan Bautista",
+    "San Juan Nepomuceno", "San Matias", "San Miguel", "San Nicolas 1st", "San Nicolas 2nd", "San Pablo", "San Pedro",
+    "San Rafael", "San Roque", "San Vicente", "Santa Filomena", "Santa Ines", "Santa Ursula", "Santo Cristo",
+    "Santo Niño",
+  ],
+  Lubao: [
+    "Balantacan", "Bancal Pugad", "Bancal Sinubli", "Baruya", "Calangain", "Concepcion", "De La Paz", "Del Carmen",
+    "Don Ignacio Dimson", "Lourdes", "Prado Siongco", "Remedios", "San Agustin", "San Antonio", "San Francisco",
+    "San Isidro", "San Jose Apunan", "San Jose Gumi", "San Juan", "San Matias", "San Miguel", "San Nicolas 1st",
+    "San Nicolas 2nd", "San Pablo 1st", "San Pablo 2nd", "San Pedro Palcarangan", "San Pedro Saug", "San Roque Arbol",
+    "San Roque Dau", "San Vicente", "Santa Barbara", "Santa Catalina", "Santa Cruz", "Santa Lucia", "Santa Maria",
+    "Santa Monica", "Santa Rita", "Santa Teresa 1st", "Santa Teresa 2nd", "Santiago", "Santo Cristo", "Santo Domingo",
+    "Santo Niño", "Santo Tomas",
+  ],
+  Mabalacat: [
+    "Atlu-Bola", "Bical", "Bundagul", "Cacutud", "Calumpang", "Camachiles", "Dapdap", "Dau", "Dolores", "Duquit",
+    "Lakandula", "Mabiga", "Macapagal Village", "Mamatitang", "Mangalit", "Marcos Village", "Mawaque", "Paralayunan",
+    "Poblacion", "San Francisco", "San Joaquin", "Santa Ines", "Santa Maria", "Santo Rosario", "Sapang Balen",
+    "Sapang Biabas", "Tabun",
+  ],
+  Macabebe: [
+    "Batasan", "Caduang Tete", "Candelaria", "Castuli", "Consuelo", "Dalayap", "Mataguiti", "San Esteban",
+    "San Francisco", "San Gabriel", "San Isidro", "San Jose", "San Juan", "San Rafael", "San Roque", "San Vicente",
+    "Saplad David", "Sta. Cruz", "Sta. Lutgarda", "Sta. Maria", "Sta. Rita", "Sto. Niño", "Sto. Rosario", "Tacasan",
+    "Telacsan",
+  ],
+  Magalang: [
+    "Ayala", "Bucanan", "Camias", "Dolores", "Escaler", "La Paz", "Navaling", "San Agustin", "San Antonio",
+    "San Franciso", "San Ildefonso", "San Isidro", "San Jose", "San Miguel", "San Nicolas 1st", "San Nicolas 2nd",
+    "San Pablo", "San Pedro I", "San Pedro II", "San Roque", "San Vicente", "Santa Cruz", "Santa Lucia", "Santa Maria",
+    "Santo Niño", "Santo Rosario", "Turu",
+  ],
+  Masantol: [
+    "Alauli", "Bagang", "Balibago", "Bebe Anac", "Bebe Matua", "Bulacus", "Cambasi", "Malauli", "Nigui", "Palimpe",
+    "Puti", "Sagrada", "San Agustin", "San Isidro Anac", "San Isidro Matua", "San Nicolas", "San Pedro",
+    "Sapang Kawayan", "Sta. Cruz", "Sta. Lucia Anac", "Sta. Lucia Matua", "Sta. Lucia Paguiba", "Sta. Lucia Wakas",
+    "Sta. Monica", "Sto. Niño", "Sua",
+  ],
+  Mexico: [
+    "Acli", "Anao", "Balas", "Buenavista", "Camuning", "Cawayan", "Concepcion", "Culubasa", "Divisoria", "Dolores",
+    "Eden", "Gandus", "Lagundi", "Laput", "Laug", "Masamat", "Masangsang", "Nueva Victoria", "Pandacaqui", "Pangatlan",
+    "Panipuan", "Parian", "Sabanilla", "San Antonio", "San Carlos", "San Jose Malino", "San Jose Matulid", "San Juan",
+    "San Lorenzo", "San Miguel", "San Nicolas", "San Pablo", "San Patricio", "San Rafael", "San Roque", "San Vicente",
+    "Santa Cruz", "Santa Maria", "Santo Domingo", "Santo Rosario", "Sapang Maisac", "Suclaban", "Tangle",
+  ],
+  Minalin: [
+    "Bulac", "Dawe", "Lourdes", "Maniango", "San Francisco 1st", "San Francisco 2nd", "San Isidro", "San Nicolas",
+    "San Pedro", "Saplad", "Sta. Catalina", "Sta. Maria", "Sta. Rita", "Sto. Domingo", "Sto. Rosario",
+  ],
+  Porac: [
+    "Babo Pangulo", "Babo Sacan", "Balubad", "Calzadang Bayu", "Camias", "Cangatba", "Diaz", "Dolores", "Inararo",
+    "Jalung", "Mancatian", "Manibaug Libutad", "Manibaug Paralaya", "Manibaug Pasig", "Manuali", "Mitla Proper",
+    "Palat", "Pias", "Pio", "Planas", "Poblacion", "Pulung Santol", "Salu", "San Jose Mitla", "Sapang Uwak",
+    "Sepung Bulaon", "Sinura", "Sta. Cruz", "Villa Maria",
+  ],
+  "San Fernando": [
+    "Alasas", "Baliti", "Bulaon", "Calulut", "Del Carmen", "Del Pilar", "Del Rosario", "Dela Paz Norte", "Dela Paz Sur",
+    "Dolores", "Juliana", "Lara", "Lourdes", "Magliman", "Maimpis", "Malino", "Malpitic", "Pandaras", "Panipuan",
+    "Pulung Bulu", "Quebiauan", "Saguin", "San Agustin", "San Felipe", "San Isidro", "San Jose", "San Juan",
+    "San Nicolas", "San Pedro", "Santa Lucia", "Santa Teresita", "Santo Niño", "Santo Rosario", "Sindalan",
+    "Telabastagan",
+  ],
+  "San Luis": [
+    "San Agustin", "San Carlos", "San Isidro", "San Jose", "San Juan", "San Nicolas", "San Roque", "San Sebastian",
+    "Santa Catalina", "Santa Cruz Pambilog", "Santa Cruz Poblacion", "Santa Lucia", "Santa Monica", "Santa Rita",
+    "Santo Niño", "Santo Rosario", "Santo Tomas",
+  ],
+  "San Simon": [
+    "Concepcion", "De La Paz", "San Agustin", "San Isidro", "San Jose", "San Juan", "San Miguel", "San Nicolas",
+    "San Pablo Libutad", "San Pablo Proper", "San Pedro", "Santa Cruz", "Santa Monica", "Santo Niño",
+  ],
+  "Santa Ana": [
+    "San Agustin", "San Bartolome", "San Isidro", "San Joaquin", "San Jose", "San Juan", "San Nicolas", "San Pablo",
+    "San Pedro", "San Roque", "Santa Lucia", "Santa Maria", "Santiago", "Santo Rosario",
+  ],
+  "Santa Rita": [
+    "Becuran", "Dila-dila", "San Agustin", "San Basilio", "San Isidro", "San Jose", "San Juan", "San Matias",
+    "San Vicente", "Santa Monica",
+  ],
+  Sasmuan: [
+    "Batang 1st", "Batang 2nd", "Mabuanbuan", "Malusac", "San Antonio", "San Nicolas 1st", "San Nicolas 2nd",
+    "San Pedro", "Santa Monica", "Santo Tomas", "Sebitanan", "Sta. Lucia",
+  ],
+  "Sto. Tomas": [
+    "Moras De La Paz", "Poblacion", "San Bartolome", "San Matias", "San Vicente", "Santo Rosario", "Sapa",
+  ],
+}
@@ -0,0 +1,279 @@
+// Barangays of each town in Pangasinan, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Agno: [
+    "Allabon", "Aloleng", "Bangan-Oda", "Baruan", "Boboy", "Cayungnan", "Dangley", "Gayusan", "Macaboboni", "Magsaysay",
+    "Namatucan", "Patar", "Poblacion East", "Poblacion West", "San Juan", "Tupa", "Viga",
+  ],
+  Aguilar: [
+    "Bayaoas", "Baybay", "Bocacliw", "Bocboc East", "Bocboc West", "Buer", "Calsib", "Laoag", "Manlocboc", "Niñoy",
+    "Panacol", "Poblacion", "Pogomboa", "Pogonsili", "San Jose", "Tampac",
+  ],
+  Alaminos: [
+    "Alos", "Amandiego", "Amangbangan", "Balangobong", "Balayang", "Baleyadaan", "Bisocol", "Bolaney", "Bued",
+    "Cabatuan", "Cayucay", "Dulacac", "Inerangan", "Landoc", "Linmansangan", "Lucap", "Maawi", "Macatiw", "Magsaysay",
+    "Mona", "Palamis", "Pandan", "Pangapisan", "Poblacion", "Pocalpocal", "Pogo", "Polo", "Quibuar", "Sabangan",
+    "San Antonio", "San Jose", "San Roque", "San Vicente", "Santa Maria", "Tanaytay", "Tangcarang", "Tawintawin",
+    "Telbang", "Victoria",
+  ],
+  Alcala: [
+    "Anulid", "Atainan", "Bersamin", "Canarvacanan", "Caranglaan", "Curareng", "Gualsic", "Kisikis", "Laoac", "Macayo",
+    "Pindangan Centro", "Pindangan East", "Pindangan West", "Poblacion East", "Poblacion West", "San Juan",
+    "San Nicolas", "San Pedro Apartado", "San Pedro Ili", "San Vicente", "Vacante",
+  ],
+  Anda: [
+    "Awag", "Awile", "Batiarao", "Cabungan", "Carot", "Dolaoan", "Imbo", "Macaleeng", "Macandocandong", "Mal-ong",
+    "Namagbagan", "Poblacion", "Roxas", "Sablig", "San Jose", "Siapar", "Tondol", "Toritori",
+  ],
+  Asingan: [
+    "Ariston Este", "Ariston Weste", "Bantog", "Baro", "Bobonan", "Cabalitian", "Calepaan", "Carosucan Norte",
+    "Carosucan Sur", "Coldit", "Domanpot", "Dupac", "Macalong", "Palaris", "Poblacion East", "Poblacion West",
+    "San Vicente Este", "San Vicente Weste", "Sanchez", "Sobol", "Toboy",
+  ],
+  Balungao: [
+    "Angayan Norte", "Angayan Sur", "Capulaan", "Esmeralda", "Kita-kita", "Mabini", "Mauban", "Poblacion", "Pugaro",
+    "Rajal", "San Andres", "San Aurelio 1st", "San Aurelio 2nd", "San Aurelio 3rd", "San Joaquin", "San Julian",
+    "San Leon", "San Marcelino", "San Miguel", "San Raymundo",
+  ],
+  Bani: [
+    "Ambabaay", "Aporao", "Arwas", "Ballag", "Banog Norte", "Banog Sur", "Calabeng", "Centro Toma", "Colayo",
+    "Dacap Norte", "Dacap Sur", "Garrita", "Luac", "Macabit", "Masidem", "Poblacion", "Quinaoayanan", "Ranao",
+    "Ranom Iloco", "San Jose", "San Miguel", "San Simon", "San Vicente", "Tiep", "Tipor", "Tugui Grande", "Tugui Norte",
+  ],
+  Basista: [
+    "Anambongan", "Bayoyong", "Cabeldatan", "Dumpay", "Malimpec East", "Mapolopolo", "Nalneran", "Navatat", "Obong",
+    "Osmena Sr.", "Palma", "Patacbo", "Poblacion",
+  ],
+  Bautista: [
+    "Artacho", "Baluyot", "Cabuaan", "Cacandongan", "Diaz", "Ketegan", "Nandacan", "Nibaliw Norte", "Nibaliw Sur",
+    "Palisoc", "Poblacion East", "Poblacion West", "Pogo", "Poponto", "Primicias", "Sinabaan", "Vacante", "Villanueva",
+  ],
+  Bayambang: [
+    "Alinggan", "Amancosiling Norte", "Amancosiling Sur", "Amanperez", "Ambayat I", "Ambayat II", "Apalen", "Asin",
+    "Ataynan", "Bacnono", "Balaybuaya", "Banaban", "Bani", "Batangcaoa", "Beleng", "Bical Norte", "Bical Sur",
+    "Bongato East", "Bongato West", "Buayaen", "Buenlag 1st", "Buenlag 2nd", "Cadre Site", "Carungay", "Caturay",
+    "Darawey", "Duera", "Dusoc", "Hermoza", "Idong", "Inanlorenza", "Inirangan", "Iton", "Langiran", "Ligue",
+    "M. H. del Pilar", "Macayocayo", "Magsaysay", "Maigpa", "Malimpec", "Malioer", "Managos", "Manambong Norte",
+    "Manambong Parte", "Manambong Sur", "Mangayao", "Nalsian Norte", "Nalsian Sur", "Pangdel", "Pantol", "Paragos",
+    "Poblacion Sur", "Pugo", "Reynado", "San Gabriel 1st", "San Gabriel 2nd", "San Vicente", "Sancagulis", "Sanlibo",
+    "Sapang", "Tamaro", "Tambac", "Tampog", "Tanolong", "Tatarac", "Telbang", "Tococ East", "Tococ West", "Warding",
+    "Wawa", "Zone I", "Zone II", "Zone III", "Zone IV", "Zone V", "Zone VI", "Zone VII",
+  ],
+  Binalonan: [
+    "Balangobong", "Bued", "Bugayong", "Camangaan", "Canarvacanan", "Capas", "Cili", "Dumayat", "Linmansangan",
+    "Mangcasuy", "Moreno", "Pasileng Norte", "Pasileng Sur", "Poblacion", "San Felipe Central", "San Felipe Sur",
+    "San Pablo", "Santiago", "Sta. Catalina", "Sta. Maria Norte", "Sto. Niño", "Sumabnit", "Tabuyoc", "Vacante",
+  ],
+  Binmaley: [
+    "Amancoro", "Balagan", "Balogo", "Basing", "Baybay Lopez", "Baybay Polong", "Biec", "Buenlag", "Calit",
+    "Caloocan Dupo", "Caloocan Norte", "Caloocan Sur", "Camaley", "Canaoalan", "Dulag", "Gayaman", "Linoc", "Lomboy",
+    "Malindong", "Manat", "Nagpalangan", "Naguilayan", "Pallas", "Papagueyan", "Parayao", "Poblacion", "Pototan",
+    "Sabangan", "Salapingao", "San Isidro Norte", "San Isidro Sur", "Santa Rosa", "Tombor",
+  ],
+  Bolinao: [
+    "Arnedo", "Balingasay", "Binabalian", "Cabuyao", "Catuday", "Catungi", "Concordia", "Culang", "Dewey", "Estanza",
+    "Germinal", "Goyoden", "Ilogmalino", "Lambes", "Liwa-liwa", "Lucero", "Luciente 1.0", "Luciente 2.0", "Luna",
+    "Patar", "Pilar", "Salud", "Samang Norte", "Samang Sur", "Sampaloc", "San Roque", "Tara", "Tupa", "Victory",
+    "Zaragoza",
+  ],
+  Bugallon: [
+    "Angarian", "Asinan", "Bacabac", "Banaga", "Bolaoen", "Buenlag", "Cabayaoasan", "Cayanga", "Gueset", "Hacienda",
+    "Laguit Centro", "Laguit Padilla", "Magtaking", "Pangascasan", "Pantal", "Poblacion", "Polong", "Portic", "Salasa",
+    "Salomague Norte", "Salomague Sur", "Samat", "San Francisco", "Umanday",
+  ],
+  Burgos: [
+    "Anapao", "Cacayasen", "Concordia", "Don Matias", "Ilio-ilio", "Papallasen", "Poblacion", "Pogoruac", "San Miguel",
+    "San Pascual", "San Vicente", "Sapa Grande", "Sapa Pequeña", "Tambacan",
+  ],
+  Calasiao: [
+    "Ambonao", "Ambuetel", "Banaoang", "Bued", "Buenlag", "Cabilocaan", "Dinalaoan", "Doyong", "Gabon", "Lasip",
+    "Longos", "Lumbang", "Macabito", "Malabago", "Mancup", "Nagsaing", "Nalsian", "Poblacion East", "Poblacion West",
+    "Quesban", "San Miguel", "San Vicente", "Songkoy", "Talibaew",
+  ],
+  Dagupan: [
+    "Bacayao Norte", "Bacayao Sur", "Barangay I", "Barangay II", "Barangay IV", "Bolosan", "Bonuan Binloc",
+    "Bonuan Boquig", "Bonuan Gueset", "Calmay", "Carael", "Caranglaan", "Herrero", "Lasip Chico", "Lasip Grande",
+    "Lomboy", "Lucao", "Malued", "Mamalingling", "Mangin", "Mayombo", "Pantal", "Poblacion Oeste", "Pogo Chico",
+    "Pogo Grande", "Pugaro Suit", "Salapingao", "Salisay", "Tambac", "Tapuac", "Tebeng",
+  ],
+  Dasol: [
+    "Alilao", "Amalbalan", "Bobonot", "Eguia", "Gais-Guipe", "Hermosa", "Macalang", "Magsaysay", "Malacapas",
+    "Malimpin", "Osmeña", "Petal", "Poblacion", "San Vicente", "Tambac", "Tambobong", "Uli", "Viga",
+  ],
+  Infanta: [
+    "Babuyan", "Bamban", "Batang", "Bayambang", "Cato", "Doliman", "Fatima", "Maya", "Nangalisan", "Nayom", "Pita",
+    "Poblacion", "Potol",
+  ],
+  Labrador: [
+    "Bolo", "Bongalon", "Dulig", "Laois", "Magsaysay", "Poblacion", "San Gonzalo", "San Jose", "Tobuan", "Uyong",
+  ],
+  Laoac: [
+    "Anis", "Balligi", "Banuar", "Botigue", "Caaringayan", "Cabilaoan West", "Cabulalaan", "Calaoagan", "Calmay",
+    "Casampagaan", "Casanestebanan", "Casantiagoan", "Domingo Alarcio", "Inmanduyan", "Lebueg", "Maraboc", "Nanbagatan",
+    "Panaga", "Poblacion", "Talogtog", "Turko", "Yatyat",
+  ],
+  Lingayen: [
+    "Aliwekwek", "Baay", "Balangobong", "Balococ", "Bantayan", "Basing", "Capandanan", "Domalandan Center",
+    "Domalandan East", "Domalandan West", "Dorongan", "Dulag", "Estanza", "Lasip", "Libsong East", "Libsong West",
+    "Malawa", "Malimpuec", "Maniboc", "Matalava", "Naguelguel", "Namolan", "Pangapisan North", "Pangapisan Sur",
+    "Poblacion", "Quibaol", "Rosario", "Sabangan", "Talogtog", "Tonton", "Tumbar", "Wawa",
+  ],
+  Mabini: [
+    "Bacnit", "Barlo", "Caabiangaan", "Cabanaetan", "Cabinuangan", "Calzada", "Caranglaan", "De Guzman", "Luna",
+    "Magalong", "Nibaliw", "Patar", "Poblacion", "San Pedro", "Tagudin", "Villacorta",
+  ],
+  Malasiqui: [
+    "Abonagan", "Agdao", "Alacan", "Aliaga", "Amacalan", "Anolid", "Apaya", "Asin Este", "Asin Weste", "Bacundao Este",
+    "Bacundao Weste", "Bakitiw", "Balite", "Banawang", "Barang", "Bawer", "Binalay", "Bobon", "Bolaoit", "Bongar",
+    "Butao", "Cabatling", "Cabueldatan", "Calbueg", "Canan Norte", "Canan Sur", "Cawayan Bogtong", "Don Pedro",
+    "Gatang", "Goliman", "Gomez", "Guilig", "Ican", "Ingalagala", "Lareg-lareg", "Lasip", "Lepa", "Loqueb Este",
+    "Loqueb Norte", "Loqueb Sur", "Lunec", "Mabulitec", "Malimpec", "Manggan-Dampay", "Nalsian Norte", "Nalsian Sur",
+    "Nancapian", "Nansangaan", "Olea", "Pacuan", "Palapar Norte", "Palapar Sur", "Palong", "Pamaranum", "Pasima",
+    "Payar", "Poblacion", "Polong Norte", "Polong Sur", "Potiocan", "San Julian", "Tabo-Sili", "Talospatang", "Taloy",
+    "Taloyan", "Tambac", "Tobor", "Tolonguat", "Tomling", "Umando", "Viado", "Waig", "Warey",
+  ],
+  Manaoag: [
+    "Babasit", "Baguinay", "Baritao", "Bisal", "Bucao", "Cabanbanan", "Calaocan", "Inamotan", "Lelemaan", "Licsi",
+    "Lipit Norte", "Lipit Sur", "Matolong", "Mermer", "Nalsian", "Oraan East", "Oraan West", "Pantal", "Pao", "Parian",
+    "Poblacion", "Pugaro", "San Ramon", "Santa Ines", "Sapang", "Tebuel",
+  ],
+  Mangaldan: [
+    "Alitaya", "Amansabina", "Anolid", "Banaoang", "Bantayan", "Bari", "Bateng", "Buenlag", "David", "Embarcadero",
+    "Gueguesangen", "Guesang", "Guiguilonen", "Guilig", "Inlambo", "Lanas", "Landas", "Maasin", "Macayug", "Malabago",
+    "Navaluan", "Nibaliw", "Osiem", "Palua", "Poblacion", "Pogo", "Salaan", "Salay", "Talogtog", "Tebag",
+  ],
+  Mangatarem: [
+    "Andangin", "Arellano Street", "Bantay", "Bantocaling", "Baracbac", "Bogtong Bolo", "Bogtong Bunao",
+    "Bogtong Centro", "Bogtong Niog", "Bogtong Silag", "Buaya", "Buenlag", "Bueno", "Bunagan", "Bunlalacao",
+    "Burgos Street", "Cabaluyan 1st", "Cabaluyan 2nd", "Cabarabuan", "Cabaruan", "Cabayaoasan", "Cabayugan",
+    "Cacaoiten", "Calomboyan Norte", "Calomboyan Sur", "Calvo", "Casilagan", "Catarataraan", "Caturay Norte",
+    "Caturay Sur", "Caviernesan", "Dorongan Ketaket", "Dorongan Linmansangan", "Dorongan Punta", "Dorongan Sawat",
+    "Dorongan Valerio", "General Luna", "Historia", "Lawak Langka", "Linmansangan", "Lopez", "Mabini", "Macarang",
+    "Malabobo", "Malibong", "Malunec", "Maravilla", "Maravilla-Arellano Ext.", "Muelang", "Naguilayan East",
+    "Naguilayan West", "Nancasalan", "Niog-Cabison-Bulaney", "Olegario-Caoile", "Olo Cacamposan", "Olo Cafabrosan",
+    "Olo Cagarlitan", "Osmeña", "Pacalat", "Pampano", "Parian", "Paul", "Peania Pedania", "Pogon-Aniat", "Pogon-Lomboy",
+    "Ponglo-Baleg", "Ponglo-Muelag", "Quetegan", "Quezon", "Salavante", "Sapang", "Sonson Ongkit", "Suaco", "Tagac",
+    "Takipan", "Talogtog", "Tococ Barikir", "Torre 1st", "Torre 2nd", "Torres Bugallon", "Umangan", "Zamora",
+  ],
+  Mapandan: [
+    "Amanoaoac", "Apaya", "Aserda", "Baloling", "Coral", "Golden", "Jimenez", "Lambayan", "Luyan", "Nilombot", "Pias",
+    "Poblacion", "Primicias", "Santa Maria", "Torres",
+  ],
+  Natividad: [
+    "Barangobong", "Batchelor East", "Batchelor West", "Burgos", "Cacandungan", "Calapugan", "Canarem", "Luna",
+    "Poblacion East", "Poblacion West", "Rizal", "Salud", "San Eugenio", "San Macario Norte", "San Macario Sur",
+    "San Maximo", "San Miguel", "Silag",
+  ],
+  Pozorrubio: [
+    "Alipangpang", "Amagbagan", "Balacag", "Banding", "Bantugan", "Batakil", "Bobonan", "Buneg", "Cablong",
+    "Casanfernandoan", "Castaño", "Dilan", "Don Benito", "Haway", "Imbalbalatong", "Inoman", "Laoac", "Maambal",
+    "Malasin", "Malokiat", "Manaol", "Nama", "Nantangalan", "Palacpalac", "Palguyod", "Poblacion I", "Poblacion II",
+    "Poblacion III", "Poblacion IV", "Rosario", "Sugcong", "Talogtog", "Tulnac", "Villegas",
+  ],
+  Rosales: [
+    "Acop", "Bakit-Bakit", "Balingcanaway", "Cabalaoangan Norte", "Cabalaoangan Sur", "Calanutan", "Camangaan",
+    "Capitan Tomas", "Carmay East", "Carmay West", "Carmen East", "Carmen West", "Casanicolasan", "Coliling",
+    "Don Antonio Village", "Guiling", "Palakipak", "Pangaoan", "Rabago", "Rizal", "Salvacion", "San Angel",
+    "San Antonio", "San Bartolome", "San Isidro", "San Luis", "San Pedro East", "San Pedro West", "San Vicente",
+    "Station District", "Tomana East", "Tomana West", "Zone I", "Zone II", "Zone III", "Zone IV", "Zone V",
+  ],
+  "San Carlos": [
+    "Abanon", "Agdao", "Anando", "Ano", "Antipangol", "Aponit", "Bacnar", "Balaya", "Balayong", "Baldog", "Balite Sur",
+    "Balococ", "Bani", "Bega", "Bocboc", "Bogaoan", "Bolingit", "Bolosan", "Bonifacio", "Buenglat",
+    "Bugallon-Posadas Street", "Burgos Padlan", "Cacaritan", "Caingal", "Calobaoan", "Calomboyan", "Caoayan-Kiling",
+    "Capataan", "Cobol", "Coliling", "Cruz", "Doyong", "Gamata", "Guelew", "Ilang", "Inerangan", "Isla", "Libas",
+    "Lilimasan", "Longos", "Lucban", "M. Soriano", "Mabalbalino", "Mabini", "Magtaking", "Malacañang", "Maliwara",
+    "Mamarlao", "Manzon", "Matagdem", "Mestizo Norte", "Naguilayan", "Nilentap", "Padilla-Gomez", "Pagal",
+    "Paitan-Panoypoy", "Palaming", "Palaris", "Palospos", "Pangalangan", "Pangoloan", "Pangpang", "Parayao", "Payapa",
+    "Payar", "Perez Boulevard", "PNR Station Site", "Polo", "Quezon Boulevard", "Quintong", "Rizal", "Roxas Boulevard",
+    "Salinap", "San Juan", "San Pedro-Taloy", "Sapinit", "Supo", "Talang", "Tamayo", "Tandang Sora", "Tandoc", "Tarece",
+    "Tarectec", "Tayambani", "Tebag", "Turac",
+  ],
+  "San Fabian": [
+    "Alacan", "Ambalangan-Dalin", "Angio", "Anonang", "Aramal", "Bigbiga", "Binday", "Bolaoen", "Bolasi", "Cabaruan",
+    "Cayanga", "Colisao", "Gumot", "Inmalog", "Inmalog Norte", "Lekep-Butao", "Lipit-Tomeeng", "Longos",
+    "Longos Proper", "Longos-Amangonan-Parac-Parac Fabrica", "Mabilao", "Nibaliw Central", "Nibaliw East",
+    "Nibaliw Magliba", "Nibaliw Narvarte", "Nibaliw Vidal", "Palapad", "Poblacion", "Rabon", "Sagud-Bahley", "Sobol",
+    "Tempra-Guilig", "Tiblong", "Tocok",
+  ],
+  "San Jacinto": [
+    "Awai", "Bagong Pag-asa", "Bolo", "Capaoay", "Casibong", "Guibel", "Imelda", "Labney", "Lobong", "Macayug",
+    "Magsaysay", "San Guillermo", "San Jose", "San Juan", "San Roque", "San Vicente", "Santa Cruz", "Santa Maria",
+    "Santo Tomas",
+  ],
+  "San Manuel": [
+    "Cabacaraan", "Cabaritan", "Flores", "Guiset Norte", "Guiset Sur", "Lapalo", "Nagsaag", "Narra",
+    "San Antonio-Arzadon", "San Bonifacio", "San Juan", "San Roque", "San Vicente", "Sto. Domingo",
+  ],
+  "San Nicolas": [
+    "Bensican", "Cabitnongan", "Cabuloan", "Cacabugaoan", "Calanutian", "Calaocan", "Camangaan", "Camindoroan",
+    "Casaratan", "Dalumpinas", "Fianza", "Lungao", "Malico", "Malilion", "Nagkaysa", "Nining", "Poblacion East",
+    "Poblacion West", "Salingcob", "Salpad", "San Felipe East", "San Felipe West", "San Isidro", "San Jose",
+    "San Rafael Centro", "San Rafael East", "San Rafael West", "San Roque", "Santa Maria East", "Santa Maria West",
+    "Santo Tomas", "Siblot", "Sobol",
+  ],
+  "San Quintin": [
+    "Alac", "Baligayan", "Bantog", "Bolintaguen", "Cabalaoangan", "Cabangaran", "Calomboyan", "Carayacan",
+    "Casantamarian", "Gonzalo", "Labuan", "Lagasit", "Lumayao", "Mabini", "Mantacdang", "Nangapugan",
+    "Poblacion Zone I", "Poblacion Zone II", "Poblacion Zone III", "San Pedro", "Ungib",
+  ],
+  "Santa Barbara": [
+    "Alibago", "Balingueo", "Banaoang", "Banzal", "Botao", "Cablong", "Carusocan", "Dalongue", "Erfe", "Gueguesangen",
+    "Leet", "Malanay", "Maningding", "Maronong", "Maticmatic", "Minien East", "Minien West", "Nilombot", "Patayac",
+    "Payas", "Poblacion Norte", "Poblacion Sur", "Primicias", "Sapang", "Sonquil", "Tebag East", "Tebag West", "Tuliao",
+    "Ventinilla",
+  ],
+  "Santa Maria": [
+    "Bal-loy", "Bantog", "Caboluan", "Cal-litang", "Capandanan", "Cauplasan", "Dalayap", "Libsong", "Namagbagan",
+    "Paitan", "Pataquid", "Pilar", "Poblacion East", "Poblacion West", "Pugot", "Samon", "San Alejandro", "San Mariano",
+    "San Pablo", "San Patricio", "San Vicente", "Santa Cruz", "Sta. Rosa",
+  ],
+  "Santo Tomas": [
+    "La Luna", "Poblacion East", "Poblacion West", "Salvacion", "San Agustin", "San Antonio", "San Jose", "San Marcos",
+    "Santo Domingo", "Santo Niño",
+  ],
+  Sison: [
+    "Agat", "Alibeng", "Amagbagan", "Artacho", "Asan Norte", "Asan Sur", "Bantay Insik", "Bila", "Binmeckeg",
+    "Bulaoen East", "Bulaoen West", "Cabaritan", "Calunetan", "Camangaan", "Cauringan", "Dungon", "Esperanza",
+    "Inmalog", "Killo", "Labayug", "Paldit", "Pindangan", "Pinmilapil", "Poblacion Central", "Poblacion Norte",
+    "Poblacion Sur", "Sagunto", "Tara-tara",
+  ],
+  Sual: [
+    "Baquioen", "Baybay Norte", "Baybay Sur", "Bolaoen", "Cabalitian", "Calumbuyan", "Camagsingalan", "Caoayan",
+    "Capantolan", "Macaycayawan", "Paitan East", "Paitan West", "Pangascasan", "Poblacion", "Santo Domingo",
+    "Seselangen", "Sioasio East", "Sioasio West", "Victoria",
+  ],
+  Tayug: [
+    "Agno", "Amistad", "Barangay A", "Barangay B", "Barangay C", "Barangay D", "Barangobong", "C. Lichauco", "Carriedo",
+    "Evangelista", "Guzon", "Lawak", "Legaspi", "Libertad", "Magallanes", "Panganiban", "Saleng", "Santo Domingo",
+    "Toketec", "Trenchera", "Zamora",
+  ],
+  Umingan: [
+    "Abot Molina", "Alo-o", "Amaronan", "Annam", "Bantug", "Baracbac", "Barat", "Buenavista", "Cabalitian",
+    "Cabangaran", "Cabaruan", "Cabatuan", "Cadiz", "Calitlitan", "Capas", "Carayungan Sur", "Carosalesan", "Casilan",
+    "Caurdanetaan", "Concepcion", "Decreto", "Del Rosario", "Diaz", "Diket", "Don Justo Abalos", "Don Montano",
+    "Esperanza", "Evangelista", "Flores", "Fulgosino", "Gonzales", "La Paz", "Labuan", "Lauren", "Lubong", "Luna Este",
+    "Luna Weste", "Mantacdang", "Maseil-seil", "Nampalcan", "Nancalabasaan", "Pangangaan", "Papallasen", "Pemienta",
+    "Poblacion East", "Poblacion West", "Prado", "Resurreccion", "Ricos", "San Andres", "San Juan", "San Leon",
+    "San Pablo", "San Vicente", "Santa Maria", "Santa Rosa", "Sinabaan", "Tanggal Sawang",
+  ],
+  Urbiztondo: [
+    "Angatel", "Balangay", "Batancaoa", "Baug", "Bayaoas", "Bituag", "Camambugan", "Dalanguiring", "Duplac", "Galarin",
+    "Gueteb", "Malaca", "Malayo", "Malibong", "Pasibi East", "Pasibi West", "Pisuac", "Poblacion", "Real", "Salavante",
+    "Sawat",
+  ],
+  Urdaneta: [
+    "Anonas", "Bactad East", "Bayaoas", "Bolaoen", "Cabaruan", "Cabuloan", "Camanang", "Camantiles", "Casantaan",
+    "Catablan", "Cayambanan", "Consolacion", "Dilan Paurido", "Dr. Pedro T. Orata", "Labit Proper", "Labit West",
+    "Mabanogbog", "Macalong", "Nancalobasaan", "Nancamaliran East", "Nancamaliran West", "Nancayasan", "Oltama",
+    "Palina East", "Palina West", "Pinmaludpod", "Poblacion", "San Jose", "San Vicente", "Santa Lucia", "Santo Domingo",
+    "Sugcong", "Tipuso", "Tulong",
+  ],
+  Villasis: [
+    "Amamperez", "Bacag", "Barangobong", "Barraca", "Capulaan", "Caramutan", "La Paz", "Labit", "Lipay", "Lomboy",
+    "Piaz", "Puelay", "San Blas", "San Nicolas", "Tombod", "Unzad", "Zone I", "Zone II", "Zone III", "Zone IV",
+    "Zone V",
+  ],
+}
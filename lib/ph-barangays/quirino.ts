@@ -0,0 +1,36 @@
+// Barangays of each town in Quirino, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Aglipay: [
+    "Alicia", "Cabugao", "Dagupan", "Diodol", "Dumabel", "Dungo", "Guinalbin", "Ligaya", "Nagabgaban", "Palacian",
+    "Pinaripad Norte", "Pinaripad Sur", "Progreso", "Ramos", "Rang-ayan", "San Antonio", "San Benigno", "San Francisco",
+    "San Leonardo", "San Manuel", "San Ramon", "Victoria", "Villa Pagaduan", "Villa Santiago", "Villa Ventura",
+  ],
+  Cabarroguis: [
+    "Banuar", "Burgos", "Calaocan", "Del Pilar", "Dibibi", "Dingasan", "Eden", "Gomez", "Gundaway", "Mangandingay",
+    "San Marcos", "Santo Domingo", "Tucod", "Villa Peña", "Villamor", "Villarose", "Zamora",
+  ],
+  Diffun: [
+    "Aklan Village", "Andres Bonifacio", "Aurora East", "Aurora West", "Baguio Village", "Balagbag", "Bannawag",
+    "Cajel", "Campamento", "Diego Silang", "Don Faustino Pagaduan", "Don Mariano Perez, Sr.", "Doña Imelda", "Dumanisi",
+    "Gabriela Silang", "Gregorio Pimentel", "Gulac", "Guribang", "Ifugao Village", "Isidro Paredes", "Liwayway",
+    "Luttuad", "Magsaysay", "Makate", "Maria Clara", "Rafael Palma", "Ricarte Norte", "Ricarte Sur", "Rizal",
+    "San Antonio", "San Isidro", "San Pascual", "Villa Pascua",
+  ],
+  Maddela: [
+    "Abbag", "Balligui", "Buenavista", "Cabaruan", "Cabua-an", "Cofcaville", "Diduyon", "Dipintin", "Divisoria Norte",
+    "Divisoria Sur", "Dumabato Norte", "Dumabato Sur", "Jose Ancheta", "Lusod", "Manglad", "Pedlisan",
+    "Poblacion Norte", "Poblacion Sur", "San Bernabe", "San Dionisio I", "San Martin", "San Pedro", "San Salvador",
+    "Santa Maria", "Santo Niño", "Santo Tomas", "Villa Agullana", "Villa Gracia", "Villa Hermosa Norte",
+    "Villa Hermosa Sur", "Villa Jose V Ylanan", "Ysmael",
+  ],
+  Nagtipunan: [
+    "Anak", "Asaklat", "Dipantan", "Dissimungal", "Guino", "La Conwap", "Landingan", "Mataddi", "Matmad", "Old Gumiad",
+    "Ponggo", "San Dionisio II", "San Pugo", "San Ramos", "Sangbay", "Wasid",
+  ],
+  Saguday: [
+    "Cardenas", "Dibul", "Gamis", "La Paz", "Magsaysay", "Rizal", "Salvacion", "Santo Tomas", "Tres Reyes",
+  ],
+}
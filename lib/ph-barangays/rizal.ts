@@ -0,0 +1,62 @@
+// Barangays of each town in Rizal, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Angono: [
+    "Bagumbayan", "Kalayaan", "Mahabang Parang", "Poblacion Ibaba", "Poblacion Itaas", "San Isidro", "San Pedro",
+    "San Roque", "San Vicente", "Santo Niño",
+  ],
+  Antipolo: [
+    "Bagong Nayon", "Beverly Hills", "Calawis", "Cupang", "Dalig", "Dela Paz", "Inarawan", "Mambugan", "Mayamot",
+    "Muntingdilaw", "San Isidro", "San Jose", "San Juan", "San Luis", "San Roque", "Santa Cruz",
+  ],
+  Baras: [
+    "Concepcion", "Evangelista", "Mabini", "Pinugay", "Rizal", "San Jose", "San Juan", "San Miguel", "San Salvador",
+    "Santiago",
+  ],
+  Binangonan: [
+    "Bangad", "Batingan", "Bilibiran", "Binitagan", "Bombong", "Buhangin", "Calumpang", "Ginoong Sanay", "Gulod",
+    "Habagatan", "Ithan", "Janosa", "Kalawaan", "Kalinawan", "Kasile", "Kaytome", "Kinaboogan", "Kinagatan", "Layunan",
+    "Libid", "Libis", "Limbon-limbon", "Lunsad", "Macamot", "Mahabang Parang", "Malakaban", "Mambog", "Pag-Asa",
+    "Palangoy", "Pantok", "Pila Pila", "Pinagdilawan", "Pipindan", "Rayap", "San Carlos", "Sapang", "Tabon", "Tagpos",
+    "Tatala", "Tayuman",
+  ],
+  Cainta: [
+    "San Andres", "San Isidro", "San Juan", "San Roque", "Santa Rosa", "Santo Domingo", "Santo Niño",
+  ],
+  Cardona: [
+    "Balibago", "Boor", "Calahan", "Dalig", "Del Remedio", "Iglesia", "Lambac", "Looc", "Malanggam-Calubacan",
+    "Nagsulo", "Navotas", "Patunhay", "Real", "Sampad", "San Roque", "Subay", "Ticulio", "Tuna",
+  ],
+  "Jala-Jala": [
+    "Bagumbong", "Bayugo", "Lubo", "Paalaman", "Pagkalinawan", "Palaypalay", "Punta", "Second District", "Sipsipin",
+    "Special District", "Third District",
+  ],
+  Morong: [
+    "Bombongan", "Can-Cal-Lan", "Lagundi", "Maybancal", "San Guillermo", "San Jose", "San Juan", "San Pedro",
+  ],
+  Pililla: [
+    "Bagumbayan", "Halayhayin", "Hulo", "Imatong", "Malaya", "Niogan", "Quisao", "Takungan", "Wawa",
+  ],
+  Rodriguez: [
+    "Balite", "Burgos", "Geronimo", "Macabud", "Manggahan", "Mascap", "Puray", "Rosario", "San Isidro", "San Jose",
+    "San Rafael",
+  ],
+  "San Mateo": [
+    "Ampid I", "Ampid II", "Banaba", "Dulong Bayan 1", "Dulong Bayan 2", "Guinayang", "Guitnang Bayan I",
+    "Guitnang Bayan II", "Gulod Malaya", "Malanday", "Maly", "Pintong Bocawe", "Santa Ana", "Santo Niño", "Silangan",
+  ],
+  Tanay: [
+    "Cayabu", "Cuyambay", "Daraitan", "Katipunan-Bayan", "Kaybuto", "Laiban", "Madilay-dilay", "Mag-Ampon", "Mamuyao",
+    "Pinagkamaligan", "Plaza Aldea", "Sampaloc", "San Andres", "San Isidro", "Santa Inez", "Santo Niño", "Tabing Ilog",
+    "Tandang Kutyo", "Tinucan", "Wawa",
+  ],
+  Taytay: [
+    "Dolores", "Muzon", "San Isidro", "San Juan", "Santa Ana",
+  ],
+  Teresa: [
+    "Bagumbayan", "Calumpang Santo Cristo", "Dalig", "Dulumbayan", "May-Iba", "Poblacion", "Prinza", "San Gabriel",
+    "San Roque",
+  ],
+}
@@ -0,0 +1,71 @@
+// Barangays of each town in Romblon, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Alcantara: [
+    "Bagsik", "Bonlao", "Calagonsao", "Camili", "Comod-om", "Gui-ob", "Lawan", "Madalag", "Poblacion", "San Isidro",
+    "San Roque", "Tugdan",
+  ],
+  Banton: [
+    "Balogo", "Banice", "Hambi-an", "Lagang", "Libtong", "Mainit", "Nabalay", "Nasunogan", "Poblacion", "Sibay",
+    "Tan-Ag", "Toctoc", "Togbongan", "Togong", "Tumalum", "Tungonan", "Yabawon",
+  ],
+  Cajidiocan: [
+    "Alibagon", "Cambajao", "Cambalo", "Cambijang", "Cantagda", "Danao", "Gutivan", "Lico", "Lumbang Este",
+    "Lumbang Weste", "Marigondon", "Poblacion", "Sugod", "Taguilos",
+  ],
+  Calatrava: [
+    "Balogo", "Linao", "Pagsangahan", "Pangulo", "Poblacion", "San Roque", "Talisay",
+  ],
+  Concepcion: [
+    "Bachawan", "Calabasahan", "Dalajican", "Masadya", "Masudsud", "Poblacion", "Sampong", "San Pedro", "San Vicente",
+  ],
+  Corcuera: [
+    "Alegria", "Ambulong", "Colongcolong", "Gobon", "Guintiguiban", "Ilijan", "Labnig", "Mabini", "Mahaba", "Mangansag",
+    "Poblacion", "San Agustin", "San Roque", "San Vicente", "Tacasan",
+  ],
+  Ferrol: [
+    "Agnonoc", "Bunsoran", "Claro M. Recto", "Hinaguman", "Poblacion", "Tubigon",
+  ],
+  Looc: [
+    "Agojo", "Balatucan", "Buenavista", "Camandag", "Guinhayaan", "Limon Norte", "Limon Sur", "Manhac", "Pili",
+    "Poblacion", "Punta", "Tuguis",
+  ],
+  Magdiwang: [
+    "Agsao", "Agutay", "Ambulong", "Dulangan", "Ipil", "Jao-asan", "Poblacion", "Silum", "Tampayan",
+  ],
+  Odiongan: [
+    "Amatong", "Anahao", "Bangon", "Batiano", "Budiong", "Canduyong", "Dapawan", "Gabawan", "Libertad", "Ligaya",
+    "Liwanag", "Liwayway", "Malilico", "Mayha", "Panique", "Pato-o", "Poctoy", "Progreso Este", "Progreso Weste",
+    "Rizal", "Tabing Dagat", "Tabobo-an", "Tuburan", "Tulay", "Tumingad",
+  ],
+  Romblon: [
+    "Agbaluto", "Agbudia", "Agnaga", "Agnay", "Agnipa", "Agpanabat", "Agtongo", "Alad", "Bagacay", "Barangay I",
+    "Barangay II", "Barangay III", "Barangay IV", "Cajimos", "Calabogo", "Capaclan", "Cobrador", "Ginablan",
+    "Guimpingan", "Ilauran", "Lamao", "Li-o", "Logbon", "Lonos", "Lunas", "Macalas", "Mapula", "Palje", "Sablayan",
+    "Sawang", "Tambac",
+  ],
+  "San Agustin": [
+    "Bachawan", "Binonga-an", "Buli", "Cabolutan", "Cagbo-aya", "Camantaya", "Carmen", "Cawayan", "Doña Juana",
+    "Dubduban", "Hinugusan", "Lusong", "Mahabang Baybay", "Poblacion", "Sugod",
+  ],
+  "San Andres": [
+    "Agpudlos", "Calunacon", "Doña Trinidad", "Juncarlo", "Linawan", "Mabini", "Marigondon Norte", "Marigondon Sur",
+    "Matutuna", "Pag-Alad", "Poblacion", "Tan-Agan", "Victoria",
+  ],
+  "San Fernando": [
+    "Agtiwa", "Azarga", "Campalingo", "Canjalon", "España", "Mabini", "Mabulo", "Otod", "Panangcalan", "Pili",
+    "Poblacion", "Taclobo",
+  ],
+  "San Jose": [
+    "Busay", "Combot", "Lanas", "Pinamihagan", "Poblacion",
+  ],
+  "Santa Fe": [
+    "Agmanic", "Canyayo", "Danao Norte", "Danao Sur", "Guinbirayan", "Guintigbasan", "Magsaysay", "Mat-i", "Pandan",
+    "Poblacion", "Tabugon",
+  ],
+  "Santa Maria": [
+    "Bonga", "Concepcion Norte", "Concepcion Sur", "Paroyhog", "San Isidro", "Santo Niño",
+  ],
+}
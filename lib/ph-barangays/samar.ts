@@ -0,0 +1,176 @@
+// Barangays of each town in Samar, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Almagro: [
+    "Bacjao", "Biasong I", "Biasong II", "Costa Rica", "Costa Rica II", "Guin-ansan", "Imelda", "Kerikite", "Lunang I",
+    "Lunang II", "Mabuhay", "Magsaysay", "Malobago", "Marasbaras", "Panjobjoban I", "Panjobjoban II", "Poblacion",
+    "Roño", "San Isidro", "San Jose", "Talahid", "Tonga-tonga", "Veloso",
+  ],
+  Basey: [
+    "Amandayehan", "Anglit", "Bacubac", "Balante", "Baloog", "Basiao", "Baybay", "Binongtu-an", "Buenavista", "Bulao",
+    "Burgos", "Buscada", "Cambayan", "Can-abay", "Cancaiyas", "Canmanila", "Catadman", "Cogon", "Del Pilar", "Dolongan",
+    "Guintigui-an", "Guirang", "Iba", "Inuntan", "Lawa-an", "Loog", "Loyo", "Mabini", "Magallanes", "Manlilinab",
+    "May-it", "Mercado", "Mongabong", "New San Agustin", "Nouvelas Occidental", "Old San Agustin", "Palaypay",
+    "Panugmonon", "Pelit", "Roxas", "Salvacion", "San Antonio", "San Fernando", "Sawa", "Serum", "Sugca", "Sugponon",
+    "Sulod", "Tinaogan", "Tingib", "Villa Aurora",
+  ],
+  Calbayog: [
+    "Acedillo", "Aguit-itan", "Alibaba", "Amampacang", "Anislag", "Awang East", "Awang West", "Ba-ay", "Bagacay",
+    "Bagong Lipunan", "Baja", "Balud", "Bante", "Bantian", "Basud", "Bayo", "Begaho", "Binaliw", "Bontay", "Buenavista",
+    "Bugtong", "Cabacungan", "Cabatuan", "Cabicahan", "Cabugawan", "Cacaransan", "Cag-anahaw", "Cag-anibong",
+    "Cag-olango", "Cagbanayacao", "Cagbayang", "Cagbilwang", "Cagboborac", "Caglanipao Sur", "Cagmanipis Norte",
+    "Cagmanipis Sur", "Cagnipa", "Cagsalaosao", "Cahumpan", "Calocnayan", "Cangomaod", "Canhumadac", "Capacuhan",
+    "Capoocan", "Carayman", "Carmen", "Catabunan", "Caybago", "Central", "Cogon", "Dagum", "Danao I", "Danao II",
+    "Dawo", "De Victoria", "Dinabongan", "Dinagan", "Dinawacan", "Esperanza", "Gabay", "Gadgaran", "Gasdo", "Geragaan",
+    "Guin-on", "Guinbaoyan Norte", "Guinbaoyan Sur", "Hamorawon", "Helino", "Hibabngan", "Hibatang", "Higasaan",
+    "Himalandrog", "Hugon Rosales", "Jacinto", "Jimautan", "Jose A. Roño", "Kalilihan", "Kilikili", "La Paz",
+    "Langoyon", "Lapaan", "Libertad", "Limarayon", "Longsob", "Lonoy", "Looc", "Mabini I", "Mabini II", "Macatingog",
+    "Mag-ubay", "Malaga", "Malajog", "Malayog", "Malopalo", "Mancol", "Manguino-o", "Mantaong", "Manuel Barral, Sr.",
+    "Marcatubig", "Matobato", "Mawacat", "Maybog", "Maysalong", "Migara", "Nabang", "Nag-uma", "Naga", "Navarro",
+    "Nijaga", "Oboob", "Obrero", "Olera", "Oquendo", "Osmeña", "Pagbalican", "Palanas", "Palanogan", "Panlayahan",
+    "Panonongon", "Panoypoy", "Patong", "Payahan", "Peña", "Pilar", "Pinamorotan", "Quezon", "Rawis", "Rizal I",
+    "Rizal II", "Roxas I", "Roxas II", "Saljag", "Salvacion", "San Antonio", "San Isidro", "San Joaquin", "San Jose",
+    "San Policarpo", "San Rufino", "Saputan", "Sigo", "Sinantan", "Sinidman Occidental", "Sinidman Oriental", "Tabawan",
+    "Talahiban", "Tanval", "Tapae", "Tarabucan", "Tigbe", "Tinambacan Norte", "Tinambacan Sur", "Tinaplacan",
+    "Tomaliguez", "Trinidad", "Victory", "Villahermosa",
+  ],
+  Calbiga: [
+    "Antol", "Bacyaran", "Barangay 1", "Barangay 2", "Barangay 3", "Barangay 4", "Barangay 5", "Barangay 6",
+    "Barangay 7", "Barobaybay", "Beri", "Binanggaran", "Borong", "Bulao", "Buluan", "Caamlongan", "Calayaan",
+    "Calingonan", "Canbagtic", "Canticum", "Daligan", "Guinbanga", "Hindang", "Hubasan", "Literon", "Lubang",
+    "Macaalan", "Mahangcao", "Malabal", "Minata", "Otoc", "Panayuran", "Pasigay", "Patong", "Polangi", "Rawis",
+    "San Ignacio", "San Mauricio", "Sinalangtan", "Timbangan", "Tinago",
+  ],
+  Catbalogan: [
+    "Albalate", "Bagongon", "Bangon", "Basiao", "Buluan", "Bunuanan", "Cabugawan", "Cagudalo", "Cagusipan", "Cagutian",
+    "Cagutsan", "Canhawan Gote", "Canlapwas", "Cawayan", "Cinco", "Darahuway Daco", "Darahuway Gote", "Estaka",
+    "Guindaponan", "Guinsorongan", "Ibol", "Iguid", "Lagundi", "Libas", "Lobo", "Manguehay", "Maulong", "Mercedes",
+    "Mombon", "Muñoz", "New Mahayag", "Old Mahayag", "Palanyogon", "Pangdan", "Payao", "Poblacion 1", "Poblacion 2",
+    "Poblacion 3", "Poblacion 4", "Poblacion 5", "Poblacion 6", "Poblacion 7", "Poblacion 8", "Poblacion 9",
+    "Poblacion 10", "Poblacion 11", "Poblacion 12", "Poblacion 13", "Pupua", "Rama", "San Andres", "San Pablo",
+    "San Roque", "San Vicente", "Silanga", "Socorro", "Totoringon",
+  ],
+  Daram: [
+    "Arawane", "Astorga", "Bachao", "Baclayan", "Bagacay", "Bayog", "Betaug", "Birawan", "Bono-anon", "Buenavista",
+    "Burgos", "Cabac", "Cabil-isan", "Cabiton-an", "Cabugao", "Cagboboto", "Calawan-an", "Cambuhay", "Campelipa",
+    "Candugue", "Canloloy", "Cansaganay", "Casab-ahan", "Guindapunan", "Guintampilan", "Iquiran", "Jacopon", "Losa",
+    "Lucob-lucob", "Mabini", "Macalpe", "Mandoyucan", "Marupangdan", "Mayabay", "Mongolbongol", "Nipa", "Parasan",
+    "Poblacion 1", "Poblacion 2", "Poblacion 3", "Pondang", "Poso", "Real", "Rizal", "San Antonio", "San Jose",
+    "San Miguel", "San Roque", "San Vicente", "Saugan", "So-ong", "Sua", "Sugod", "Talisay", "Tugas", "Ubo",
+    "Valles-Bello", "Yangta",
+  ],
+  Gandara: [
+    "Adela Heights", "Arong", "Balocawe", "Bangahon", "Beslig", "Buao", "Bunyagan", "Burabod I", "Burabod II",
+    "Calirocan", "Canhumawid", "Caparangasan", "Caranas", "Carmona", "Casab-ahan", "Casandig", "Catorse De Agosto",
+    "Caugbusan", "Concepcion", "Diaz", "Dumalo-ong", "Elcano", "Gerali", "Gereganan", "Giaboc", "Hampton", "Hetebac",
+    "Himamaloto", "Hinayagan", "Hinugacan", "Hiparayan", "Jasminez", "Lungib", "Mabuhay", "Macugo", "Malayog", "Marcos",
+    "Minda", "Nacube", "Nalihugan", "Napalisan", "Natimonan", "Ngoso", "Palambrag", "Palanas", "Pizarro", "Piñaplata",
+    "Pologon", "Purog", "Rawis", "Rizal", "Samoyao", "San Agustin", "San Antonio", "San Enrique", "San Francisco",
+    "San Isidro", "San Jose", "San Miguel", "San Pelayo", "San Ramon", "Santa Elena", "Santo Niño", "Senibaran",
+    "Sidmon", "Tagnao", "Tambongan", "Tawiran", "Tigbawon",
+  ],
+  Hinabangan: [
+    "Bagacay", "Binobucalan", "Bucalan", "Cabalagnan", "Cabang", "Canano", "Concord", "Consolabao", "Dalosdoson",
+    "Fatima", "Lim-ao", "Malihao", "Mugdo", "Osmeña", "Poblacion 1", "Poblacion 2", "Rawis", "San Jose", "San Rafael",
+    "Tabay", "Yabon",
+  ],
+  Jiabong: [
+    "Barangay No. 1", "Barangay No. 2", "Barangay No. 3", "Barangay No. 4", "Barangay No. 5", "Barangay No. 6",
+    "Barangay No. 7", "Barangay No. 8", "Bawang", "Bugho", "Camarobo-an", "Candayao", "Cantongtong", "Casapa",
+    "Catalina", "Cristina", "Dogongan", "Garcia", "Hinaga", "Jia-an", "Jidanao", "Lulugayan", "Macabetas", "Malino",
+    "Malobago", "Mercedes", "Nagbac", "Parina", "Salvacion", "San Andres", "San Fernando", "San Miguel", "Tagbayaon",
+    "Victory",
+  ],
+  Marabut: [
+    "Amambucale", "Amantillo", "Binukyahan", "Caluwayan", "Canyoyo", "Catato Pob.", "Ferreras", "Legaspi", "Lipata",
+    "Logero", "Mabuhay", "Malobago", "Odoc", "Osmeña", "Panan-awan", "Pinalanga", "Pinamitinan", "Roño", "San Roque",
+    "Santa Rita", "Santo Niño Pob.", "Tagalag", "Tinabanan", "Veloso",
+  ],
+  Matuguinao: [
+    "Angyap", "Bag-otan", "Barruz", "Camonoan", "Carolina", "Deit", "Del Rosario", "Inubod", "Libertad", "Ligaya",
+    "Mabuligon Pob.", "Maduroto Pob.", "Mahanud", "Mahayag", "Nagpapacao", "Rizal", "Salvacion", "San Isidro",
+    "San Roque", "Santa Cruz",
+  ],
+  Motiong: [
+    "Angyap", "Barayong", "Bayog", "Beri", "Bonga", "Calantawan", "Calapi", "Caluyahan", "Canatuan", "Candomacol",
+    "Canvais", "Capaysagan", "Caranas", "Caulayanan", "Hinica-an", "Inalad", "Linonoban", "Malobago", "Malonoy",
+    "Mararangsi", "Maypange", "New Minarog", "Oyandic", "Pamamasan", "Poblacion I", "Poblacion I-A", "Pusongan",
+    "San Andres", "Santo Niño", "Sarao",
+  ],
+  Pagsanghan: [
+    "Bangon", "Buenos Aires", "Calanyugan", "Caloloma", "Cambaye", "Canlapwas", "Libertad", "Pañge", "San Luis",
+    "Santo Niño", "Viejo", "Villahermosa Occidental", "Villahermosa Oriental",
+  ],
+  Paranas: [
+    "Anagasi", "Apolonia", "Bagsa", "Balbagan", "Bato", "Buray", "Cantaguic", "Cantao-an", "Cantato", "Casandig I",
+    "Casandig II", "Cawayan", "Concepcion", "Jose Roño", "Lawaan I", "Lawaan II", "Lipata", "Lokilokon", "Mangcal",
+    "Maylobe", "Minarog", "Nawi", "Pabanog", "Paco", "Pagsa-ogan", "Pagsanjan", "Patag", "Pequit", "Poblacion 1",
+    "Poblacion 2", "Poblacion 3", "Poblacion 4", "Poblacion 5", "Poblacion 6", "Salay", "San Isidro", "Santo Niño",
+    "Sulopan", "Tabucan", "Tapul", "Tenani", "Tigbawon", "Tula", "Tutubigan",
+  ],
+  Pinabacdao: [
+    "Bangon", "Barangay I", "Barangay II", "Botoc", "Bugho", "Calampong", "Canlobo", "Catigawan", "Dolores", "Lale",
+    "Lawaan", "Laygayon", "Layo", "Loctob", "Madalunot", "Magdawat", "Mambog", "Manaing", "Nabong", "Obayan", "Pahug",
+    "Parasanon", "Pelaon", "San Isidro",
+  ],
+  "San Jorge": [
+    "Anquiana", "Aurora", "Bay-ang", "Blanca Aurora", "Buenavista I", "Buenavista II", "Bulao", "Bungliw", "Cabugao",
+    "Cag-olo-olo", "Calundan", "Cantaguic", "Canyaki", "Cogtoto-og", "Erenas", "Gayondato", "Guadalupe", "Guindapunan",
+    "Hernandez", "Himay", "Janipon", "La Paz", "Libertad", "Lincoro", "Mabuhay", "Mancol", "Matalud", "Mobo-ob",
+    "Mombon", "Puhagan", "Quezon", "Ranera", "Rawis", "Rosalim", "San Isidro", "San Jorge I", "San Jorge II",
+    "San Juan", "Sapinit", "Sinit-an", "Tomogbong",
+  ],
+  "San Jose de Buan": [
+    "Aguingayan", "Babaclayon", "Barangay 1", "Barangay 2", "Barangay 3", "Barangay 4", "Can-aponte", "Cataydongan",
+    "Gusa", "Hagbay", "Hibaca-an", "Hiduroma", "Hilumot", "San Nicolas",
+  ],
+  "San Sebastian": [
+    "Balogo", "Bontod", "Cabaywa", "Camanhagay", "Campiyak", "Canduyucan", "Dolores", "Hita-asan I", "Hita-asan II",
+    "Inobongan", "Poblacion Barangay 1", "Poblacion Barangay 2", "Poblacion Barangay 3", "Poblacion Barangay 4",
+  ],
+  "Santa Margarita": [
+    "Agrupacion", "Arapison", "Avelino", "Bahay", "Balud", "Bana-ao", "Burabod", "Cagsumji", "Campeig", "Camperito",
+    "Can-ipulan", "Canmoros", "Cautod", "Cinco", "Curry", "Gajo", "Hindang", "Ilo", "Imelda", "Inoraguiao", "Jolacao",
+    "Lambao", "Mabuhay", "Mahayag", "Matayonas", "Monbon", "Nabulo", "Napuro", "Napuro II", "Palale", "Panabatan",
+    "Panaruan", "Roxas", "Salvacion", "Solsogon", "Sundara",
+  ],
+  "Santa Rita": [
+    "Alegria", "Anibongan", "Aslum", "Bagolibas", "Binanalan", "Bokinggan Pob.", "Bougainvilla Pob.", "Cabacungan",
+    "Cabunga-an", "Camayse", "Cansadong", "Caticugan", "Dampigan", "Guinbalot-an", "Gumamela Pob.", "Hinangudtan",
+    "Igang-igang", "La Paz", "Lupig", "Magsaysay", "Maligaya", "New Manunca", "Old Manunca", "Pagsulhogon",
+    "Rosal Pob.", "Salvacion", "San Eduardo", "San Isidro", "San Juan", "San Pascual", "San Pedro", "San Roque",
+    "Santa Elena", "Santan Pob.", "Tagacay", "Tominamos", "Tulay", "Union",
+  ],
+  "Santo Niño": [
+    "Balatguti", "Baras", "Basud", "Buenavista", "Cabunga-an", "Corocawayan", "Ilijan", "Ilo", "Lobelobe",
+    "Pinanangnan", "Sevilla", "Takut", "Villahermosa",
+  ],
+  "Tagapul-An": [
+    "Baguiw", "Balocawe", "Guinbarucan", "Labangbaybay", "Luna", "Mataluto", "Nipa", "Pantalan", "Pulangbato",
+    "San Jose", "San Vicente", "Suarez", "Sugod", "Trinidad",
+  ],
+  Talalora: [
+    "Bo. Independencia", "Malaguining", "Mallorga", "Navatas Daku", "Navatas Guti", "Placer", "Poblacion Barangay 1",
+    "Poblacion Barangay 2", "San Juan", "Tatabunan", "Victory",
+  ],
+  Tarangnan: [
+    "Alcazar", "Awang", "Bahay", "Balonga-as", "Balugo", "Bangon Gote", "Baras", "Binalayan", "Bisitahan", "Bonga",
+    "Cabunga-an", "Cagtutulo", "Cambatutay Nuevo", "Cambatutay Viejo", "Canunghan", "Catan-agan", "Dapdap", "Gallego",
+    "Imelda Pob.", "Lahong", "Libucan Dacu", "Libucan Gote", "Lucerdoni", "Majacob", "Mancares", "Marabut", "Oeste - A",
+    "Oeste - B", "Pajo", "Palencia", "Poblacion A", "Poblacion B", "Poblacion C", "Poblacion D", "Poblacion E",
+    "San Vicente", "Santa Cruz", "Sugod", "Talinga", "Tigdaranao", "Tizon",
+  ],
+  Villareal: [
+    "Banquil", "Bino-ongan", "Burabod", "Cambaguio", "Canmucat", "Central", "Conant", "Guintarcan", "Himyangan", "Igot",
+    "Inarumbacan", "Inasudlan", "Lam-awan", "Lamingao", "Lawa-an", "Macopa", "Mahayag", "Malonoy", "Mercado", "Miramar",
+    "Nagcaduha", "Pacao", "Pacoyoy", "Pangpang", "Patag", "Plaridel", "Polangi", "San Andres", "San Fernando",
+    "San Rafael", "San Roque", "Santa Rosa", "Santo Niño", "Soledad", "Tayud", "Tomabe", "Ulayan", "Villarosa Pob.",
+  ],
+  Zumarraga: [
+    "Alegria", "Arteche", "Bioso", "Boblaran", "Botaera", "Buntay", "Camayse", "Canwarak", "Ibarra", "Lumalantang",
+    "Macalunod", "Maga-an", "Maputi", "Marapilit", "Monbon", "Mualbual", "Pangdan", "Poblacion 1", "Poblacion 2",
+    "Poro", "San Isidro", "Sugod", "Talib", "Tinaugan", "Tubigan",
+  ],
+}
@@ -0,0 +1,38 @@
+// Barangays of each town in Sarangani, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Alabel: [
+    "Alegria", "Bagacay", "Baluntay", "Datal Anggas", "Domolok", "Kawas", "Ladol", "Maribulan", "New Canaan", "Pag-asa",
+    "Paraiso", "Poblacion", "Spring", "Tokawal",
+  ],
+  Glan: [
+    "Baliton", "Batotuling", "Batulaki", "Big Margus", "Burias", "Cablalan", "Calabanit", "Calpidong", "Congan",
+    "Cross", "Datalbukay", "E. Alegado", "Glan Padidu", "Gumasa", "Ilaya", "Kaltuad", "Kapatan", "Lago", "Laguimit",
+    "Mudan", "New Aklan", "Pangyan", "Poblacion", "Rio Del Pilar", "San Jose", "San Vicente", "Small Margus",
+    "Sufatubo", "Taluya", "Tango", "Tapon",
+  ],
+  Kiamba: [
+    "Badtasan", "Datu Dani", "Gasi", "Kapate", "Katubao", "Kayupo", "Kling", "Lagundi", "Lebe", "Lomuyon", "Luma",
+    "Maligang", "Nalus", "Poblacion", "Salakit", "Suli", "Tablao", "Tamadang", "Tambilil",
+  ],
+  Maasim: [
+    "Amsipit", "Bales", "Colon", "Daliao", "Kabatiol", "Kablacan", "Kamanga", "Kanalo", "Lumasal", "Lumatil", "Malbang",
+    "Nomoh", "Pananag", "Poblacion", "Seven Hills", "Tinoto",
+  ],
+  Maitum: [
+    "Bati-an", "Kalaneg", "Kalaong", "Kiambing", "Kiayap", "Mabay", "Maguling", "Malalag", "Mindupok", "New La Union",
+    "Old Poblacion", "Pangi", "Pinol", "Sison", "Ticulab", "Tuanadatu", "Upo", "Wali", "Zion",
+  ],
+  Malapatan: [
+    "Daan Suyan", "Kihan", "Kinam", "Libi", "Lun Masla", "Lun Padidu", "Patag", "Poblacion", "Sapu Masla",
+    "Sapu Padidu", "Tuyan", "Upper Suyan",
+  ],
+  Malungon: [
+    "Alkikan", "Ampon", "Atlae", "B'Laan", "Banahaw", "Banate", "Datal Batong", "Datal Bila", "Datal Tampal",
+    "J.P. Laurel", "Kawayan", "Kibala", "Kiblat", "Kinabalan", "Lower Mainit", "Lutay", "Malabod", "Malalag Cogon",
+    "Malandag", "Malungon Gamay", "Nagpan", "Panamin", "Poblacion", "San Juan", "San Miguel", "San Roque", "Talus",
+    "Tamban", "Upper Biangan", "Upper Lumabat", "Upper Mainit",
+  ],
+}
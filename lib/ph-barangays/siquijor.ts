@@ -0,0 +1,36 @@
+// Barangays of each town in Siquijor, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  "Enrique Villanueva": [
+    "Balolong", "Bino-ongan", "Bitaug", "Bolot", "Camogao", "Cangmangki", "Libo", "Lomangcapan", "Lotloton", "Manan-ao",
+    "Olave", "Parian", "Poblacion", "Tulapos",
+  ],
+  Larena: [
+    "Bagacay", "Balolang", "Basac", "Bintangan", "Bontod", "Cabulihan", "Calunasan", "Candigum", "Cang-allas",
+    "Cang-apa", "Cangbagsa", "Cangmalalag", "Canlambo", "Canlasog", "Catamboan", "Helen", "Nonoc", "North Poblacion",
+    "Ponong", "Sabang", "Sandugan", "South Poblacion", "Taculing",
+  ],
+  Lazi: [
+    "Campalanas", "Cangclaran", "Cangomantong", "Capalasanan", "Catamboan", "Gabayan", "Kimba", "Kinamandagan",
+    "Lower Cabangcalan", "Nagerong", "Po-o", "Simacolong", "Tagmanocan", "Talayong", "Tigbawan", "Tignao",
+    "Upper Cabangcalan", "Ytaya",
+  ],
+  Maria: [
+    "Bogo", "Bonga", "Cabal-asan", "Calunasan", "Candaping A", "Candaping B", "Cantaroc A", "Cantaroc B", "Cantugbas",
+    "Lico-an", "Lilo-an", "Logucan", "Looc", "Minalulan", "Nabutay", "Olang", "Pisong A", "Pisong B", "Poblacion Norte",
+    "Poblacion Sur", "Saguing", "Sawang",
+  ],
+  "San Juan": [
+    "Canasagan", "Candura", "Cangmunag", "Cansayang", "Catulayan", "Lala-o", "Maite", "Napo", "Paliton", "Poblacion",
+    "Solangon", "Tag-ibo", "Tambisan", "Timbaon", "Tubod",
+  ],
+  Siquijor: [
+    "Banban", "Bolos", "Caipilan", "Caitican", "Calalinan", "Canal", "Candanay Norte", "Candanay Sur", "Cang-adieng",
+    "Cang-agong", "Cang-alwang", "Cang-asa", "Cang-atuyom", "Cang-inte", "Cang-isad", "Canghunoghunog", "Cangmatnog",
+    "Cangmohao", "Cantabon", "Caticugan", "Dumanhog", "Ibabao", "Lambojon", "Luyang", "Luzong", "Olo", "Pangi",
+    "Panlautan", "Pasihagon", "Pili", "Poblacion", "Polangyuta", "Ponong", "Sabang", "San Antonio", "Songculan",
+    "Tacdog", "Tacloban", "Tambisan", "Tebjong", "Tinago", "Tongo",
+  ],
+}
@@ -0,0 +1,55 @@
+// Barangays of each town in South Cotabato, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Banga: [
+    "Benitez", "Cabudian", "Cabuling", "Cinco", "Derilon", "El Nonok", "Improgo Village", "Kusan", "Lam-Apos", "Lamba",
+    "Lambingi", "Lampari", "Liwanay", "Malaya", "Punong Grande", "Rang-ay", "Reyes", "Rizal", "Rizal Poblacion",
+    "San Jose", "San Vicente", "Yangco Poblacion",
+  ],
+  Koronadal: [
+    "Assumption", "Avanceña", "Cacub", "Caloocan", "Carpenter Hill", "Concepcion", "Esperanza",
+    "General Paulino Santos", "Mabini", "Magsaysay", "Mambucal", "Morales", "Namnama", "New Pangasinan", "Paraiso",
+    "Rotonda", "San Isidro", "San Jose", "San Roque", "Santa Cruz", "Santo Niño", "Sarabia", "Zone I", "Zone II",
+    "Zone III", "Zone IV", "Zulueta",
+  ],
+  "Lake Sebu": [
+    "Bacdulong", "Denlag", "Halilan", "Hanoon", "Klubi", "Lake Lahit", "Lamcade", "Lamdalag", "Lamfugon", "Lamlahak",
+    "Lower Maculan", "Luhib", "Ned", "Poblacion", "Siluton", "Takunel", "Talisay", "Tasiman", "Upper Maculan",
+  ],
+  Norala: [
+    "Benigno Aquino, Jr.", "Dumaguil", "Esperanza", "Kibid", "Lapuz", "Liberty", "Lopez Jaena", "Matapol", "Poblacion",
+    "Puti", "San Jose", "San Miguel", "Simsiman", "Tinago",
+  ],
+  Polomolok: [
+    "Bentung", "Cannery Site", "Crossing Palkan", "Glamang", "Kinilis", "Klinan 6", "Koronadal Proper", "Lam-Caliaf",
+    "Landan", "Lapu", "Lumakil", "Magsaysay", "Maligo", "Pagalungan", "Palkan", "Poblacion", "Polo", "Rubber",
+    "Silway 7", "Silway 8", "Sulit", "Sumbakil", "Upper Klinan",
+  ],
+  "Santo Niño": [
+    "Ambalgan", "Guinsang-an", "Katipunan", "Manuel Roxas", "Panay", "Poblacion", "Sajaneba", "San Isidro",
+    "San Vicente", "Teresita",
+  ],
+  Surallah: [
+    "Buenavista", "Canahay", "Centrala", "Colongulo", "Dajay", "Duengas", "Lambontong", "Lamian", "Lamsugod",
+    "Libertad", "Little Baguio", "Moloy", "Naci", "Talahik", "Tubiala", "Upper Sepaka", "Veterans",
+  ],
+  "T'Boli": [
+    "Aflek", "Afus", "Basag", "Datal Bob", "Desawo", "Dlanag", "Edwards", "Kematu", "Laconon", "Lambangan", "Lambuling",
+    "Lamhako", "Lamsalome", "Lemsnolon", "Maan", "Malugong", "Mongocayo", "New Dumangas", "Poblacion", "Salacafe",
+    "Sinolon", "T'bolok", "Talcon", "Talufo", "Tudok",
+  ],
+  Tampakan: [
+    "Albagan", "Buto", "Danlag", "Kipalbig", "Lambayong", "Lampitak", "Liberty", "Maltana", "Palo", "Poblacion",
+    "Pula-bato", "San Isidro", "Santa Cruz", "Tablu",
+  ],
+  Tantangan: [
+    "Bukay Pait", "Cabuling", "Dumadalig", "Libas", "Magon", "Maibo", "Mangilala", "New Cuyapo", "New Iloilo",
+    "New Lambunao", "Poblacion", "San Felipe", "Tinongcop",
+  ],
+  Tupi: [
+    "Acmonan", "Bololmala", "Bunao", "Cebuano", "Crossing Rubber", "Juan-Loreto Tamayo", "Kablon", "Kalkam", "Linan",
+    "Lunen", "Miasong", "Palian", "Poblacion", "Polonuling", "Simbo", "Tubeng",
+  ],
+}
@@ -0,0 +1,107 @@
+// Barangays of each town in Southern Leyte, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Anahawan: [
+    "Amagusan", "Calintaan", "Canlabian", "Capacuhan", "Cogon", "Kagingkingan", "Lewing", "Lo-ok", "Mahalo", "Mainit",
+    "Manigawong", "Poblacion", "San Vicente", "Tagup-on",
+  ],
+  Bontoc: [
+    "Anahao", "Banahao", "Baugo", "Beniton", "Buenavista", "Bunga", "Casao", "Catmon", "Catoogan", "Cawayanan", "Dao",
+    "Divisoria", "Esperanza", "Guinsangaan", "Hibagwan", "Hilaan", "Himakilo", "Hitawos", "Lanao", "Lawgawan",
+    "Mahayahay", "Malbago", "Mauylab", "Olisihan", "Paku", "Pamahawan", "Pamigsian", "Pangi", "Poblacion", "Pong-on",
+    "Sampongon", "San Ramon", "San Vicente", "Santa Cruz", "Santo Niño", "Taa", "Talisay", "Taytagan", "Tuburan",
+    "Union",
+  ],
+  Hinunangan: [
+    "Ambacon", "Badiangon", "Bangcas A", "Bangcas B", "Biasong", "Bugho", "Calag-itan", "Calayugan", "Calinao",
+    "Canipaan", "Catublian", "Ilaya", "Ingan", "Labrador", "Libas", "Lumbog", "Manalog", "Manlico", "Matin-ao", "Nava",
+    "Nueva Esperanza", "Otama", "Palongpong", "Panalaron", "Patong", "Poblacion", "Pondol", "Salog", "Salvacion",
+    "San Pablo Island", "San Pedro Island", "Santo Niño I", "Santo Niño II", "Tahusan", "Talisay", "Tawog", "Toptop",
+    "Tuburan", "Union", "Upper Bantawon",
+  ],
+  Hinundayan: [
+    "Amaga", "Ambao", "An-an", "Baculod", "Biasong", "Bugho", "Cabulisan", "Cat-iwing", "District I", "District II",
+    "District III", "Hubasan", "Lungsodaan", "Navalita", "Plaridel", "Sabang", "Sagbok",
+  ],
+  Libagon: [
+    "Biasong", "Bogasong", "Cawayan", "Gakat", "Jubas", "Magkasag", "Mayuga", "Nahaong", "Nahulid", "Otikon", "Pangi",
+    "Punta", "Talisay", "Tigbao",
+  ],
+  Liloan: [
+    "Amaga", "Anilao", "Bahay", "Cagbungalon", "Calian", "Caligangan", "Candayuman", "Catig", "Estela", "Fatima",
+    "Gud-an", "Guintoylan", "Himayangan", "Ilag", "Magaupas", "Malangsa", "Molopolo", "Pandan", "Poblacion",
+    "Pres. Quezon", "President Roxas", "San Isidro", "San Roque", "Tabugon",
+  ],
+  Limasawa: [
+    "Cabulihan", "Lugsongan", "Magallanes", "San Agustin", "San Bernardo", "Triana",
+  ],
+  Maasin: [
+    "Abgao", "Acasia", "Asuncion", "Bactul I", "Bactul II", "Badiang", "Bagtican", "Basak", "Bato I", "Bato II",
+    "Batuan", "Baugo", "Bilibol", "Bogo", "Cabadiangan", "Cabulihan", "Cagnituan", "Cambooc", "Cansirong", "Canturing",
+    "Canyuom", "Combado", "Dongon", "Gawisan", "Guadalupe", "Hanginan", "Hantag", "Hinapu Daku", "Hinapu Gamay",
+    "Ibarra", "Isagani", "Laboon", "Lanao", "Lib-og", "Libertad", "Libhu", "Lonoy", "Lunas", "Mahayahay",
+    "Malapoc Norte", "Malapoc Sur", "Mambajao", "Manhilo", "Mantahan", "Maria Clara", "Matin-ao", "Nasaug", "Nati",
+    "Nonok Norte", "Nonok Sur", "Panan-awan", "Pansaan", "Pasay", "Pinascohan", "Rizal", "San Agustin", "San Isidro",
+    "San Jose", "San Rafael", "Santa Cruz", "Santa Rosa", "Santo Niño", "Santo Rosario", "Soro-soro", "Tagnipa",
+    "Tam-is", "Tawid", "Tigbawan", "Tomoy-tomoy", "Tunga-tunga",
+  ],
+  Macrohon: [
+    "Aguinaldo", "Amparo", "Asuncion", "Bagong Silang", "Buscayan", "Cambaro", "Canlusay", "Danao", "Flordeliz",
+    "Guadalupe", "Ichon", "Ilihan", "Laray", "Lower Villa Jacinta", "Mabini", "Mohon", "Molopolo", "Rizal", "Salvador",
+    "San Isidro", "San Joaquin", "San Roque", "San Vicente", "San Vicente Poblacion", "Santa Cruz", "Santo Niño",
+    "Santo Rosario", "Sindangan", "Upper Ichon", "Upper Villa Jacinta",
+  ],
+  Malitbog: [
+    "Abgao", "Asuncion", "Aurora", "Benit", "Caaga", "Cabul-anonan", "Cadaruhan", "Cadaruhan Sur", "Candatag",
+    "Cantamuac", "Caraatan", "Concepcion", "Fatima", "Guinabonan", "Iba", "Juangon", "Kauswagan", "Lambonao",
+    "Mahayahay", "Maningning", "Maujo", "New Katipunan", "Pancil", "Pasil", "Sabang", "San Antonio", "San Isidro",
+    "San Jose", "San Roque", "San Vicente", "Sangahon", "Santa Cruz", "Santo Niño", "Taliwa", "Tigbawan I",
+    "Tigbawan II", "Timba",
+  ],
+  "Padre Burgos": [
+    "Buenavista", "Bunga", "Cantutang", "Dinahugan", "Laca", "Lungsodaan", "Poblacion", "San Juan", "Santa Sofia",
+    "Santo Rosario", "Tangkaan",
+  ],
+  Pintuyan: [
+    "Badiang", "Balongbalong", "Buenavista", "Bulawan", "Canlawis", "Catbawan", "Caubang", "Cogon", "Dan-an", "Lobo",
+    "Mainit", "Manglit", "Nueva Estrella Norte", "Nueva Estrella Sur", "Poblacion Ibabao", "Poblacion Ubos",
+    "Pociano D. Equipilag", "Ponod", "San Roque", "Santa Cruz", "Son-ok I", "Son-ok II", "Tautag",
+  ],
+  "Saint Bernard": [
+    "Atuyan", "Ayahag", "Bantawon", "Bolodbolod", "Cabagawan", "Carnaga", "Catmon", "Guinsaugon", "Himatagon",
+    "Himbangan", "Himos-onan", "Hinabian", "Hindag-an", "Kauswagan", "Libas", "Lipanto", "Magatas", "Magbagacay",
+    "Mahayag", "Mahayahay", "Malibago", "Malinao", "Nueva Esperanza", "Panian", "San Isidro", "Santa Cruz", "Sug-angon",
+    "Tabontabon", "Tambis I", "Tambis II",
+  ],
+  "San Francisco": [
+    "Anislagon", "Bongawisan", "Bongbong", "Cahayag", "Causi", "Central", "Dakit", "Gabi", "Habay", "Malico", "Marayag",
+    "Napantao", "Pasanon", "Pinamudlan", "Punta", "Santa Cruz", "Santa Paz Norte", "Santa Paz Sur", "Sudmon", "Tinaan",
+    "Tuno", "Ubos",
+  ],
+  "San Juan": [
+    "Agay-ay", "Basak", "Bobon A", "Bobon B", "Dayanog", "Garrido", "Minoyho", "Osao", "Pong-oy", "San Jose",
+    "San Roque", "San Vicente", "Santa Cruz", "Santa Filomena", "Santo Niño", "Somoje", "Sua", "Timba",
+  ],
+  "San Ricardo": [
+    "Benit", "Bitoon", "Cabutan", "Camang", "Esperanza", "Esperanza Dos", "Inolinan", "Kinachawa", "Looc", "Pinut-an",
+    "Poblacion", "San Antonio", "San Ramon", "Saub", "Timba",
+  ],
+  Silago: [
+    "Balagawan", "Catmon", "Hingatungan", "Imelda", "Katipunan", "Laguma", "Mercedes", "Pob. District I",
+    "Pob. District II", "Puntana", "Salvacion", "Sap-ang", "Sudmon", "Tuba-on", "Tubod",
+  ],
+  Sogod: [
+    "Benit", "Buac Daku", "Buac Gamay", "Cabadbaran", "Concepcion", "Consolacion", "Dagsa", "Hibod-hibod", "Hindangan",
+    "Hipantag", "Javier", "Kahupian", "Kanangkaan", "Kauswagan", "La Purisima Concepcion", "Libas", "Lum-an", "Mabicay",
+    "Mac", "Magatas", "Mahayahay", "Malinao", "Maria Plana", "Milagroso", "Olisihan", "Pancho Villa", "Pandan", "Rizal",
+    "Salvacion", "San Francisco Mabuhay", "San Isidro", "San Jose", "San Juan", "San Miguel", "San Pedro", "San Roque",
+    "San Vicente", "Santa Maria", "Suba", "Tampoong", "Zone I", "Zone II", "Zone III", "Zone IV", "Zone V",
+  ],
+  "Tomas Oppus": [
+    "Anahawan", "Banday", "Biasong", "Bogo", "Cabascan", "Camansi", "Cambite", "Canlupao", "Carnaga", "Cawayan",
+    "Higosoan", "Hinagtikan", "Hinapo", "Hugpa", "Iniguihan Pob.", "Looc", "Luan", "Maanyag", "Mag-ata", "Mapgap",
+    "Maslog", "Punong", "Rizal", "San Agustin", "San Antonio", "San Isidro", "San Miguel", "San Roque", "Tinago",
+  ],
+}
@@ -0,0 +1,60 @@
+// Barangays of each town in Sultan Kudarat, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Bagumbayan: [
+    "Bai Sarifinang", "Biwang", "Busok", "Chua", "Daguma", "Daluga", "Kabulanan", "Kanulay", "Kapaya", "Kinayao",
+    "Masiag", "Monteverde", "Poblacion", "Santo Niño", "Sison", "South Sepaka", "Sumilil", "Titulok", "Tuka",
+  ],
+  Columbio: [
+    "Bantangan", "Datablao", "Eday", "Elbebe", "Lasak", "Libertad", "Lomoyon", "Makat", "Maligaya", "Mayo", "Natividad",
+    "Poblacion", "Polomolok", "Sinapulan", "Sucob", "Telafas",
+  ],
+  Esperanza: [
+    "Ala", "Daladap", "Dukay", "Guiamalia", "Ilian", "Kangkong", "Laguinding", "Magsaysay", "Margues", "New Panay",
+    "Numo", "Paitan", "Pamantingan", "Poblacion", "Sagasa", "Salabaca", "Saliao", "Salumping", "Villamor",
+  ],
+  Isulan: [
+    "Bambad", "Bual", "D'Lotilla", "Dansuli", "Impao", "Kalawag I", "Kalawag II", "Kalawag III", "Kenram", "Kolambog",
+    "Kudanding", "Lagandang", "Laguilayan", "Mapantig", "New Pangasinan", "Sampao", "Tayugo",
+  ],
+  Kalamansig: [
+    "Bantogon", "Cadiz", "Datu Ito Andong", "Datu Wasay", "Dumangas Nuevo", "Hinalaan", "Limulan", "Nalilidan", "Obial",
+    "Pag-asa", "Paril", "Poblacion", "Sabanal", "Sangay", "Santa Maria",
+  ],
+  Lambayong: [
+    "Caridad", "Didtaras", "Gansing", "Kabulakan", "Kapingkong", "Katitisan", "Lagao", "Lilit", "Madanding", "Maligaya",
+    "Mamali", "Matiompong", "Midtapok", "New Cebu", "Palumbi", "Pidtiguian", "Pimbalayan", "Pinguiaman", "Poblacion",
+    "Sadsalan", "Seneben", "Sigayan", "Tambak", "Tinumigues", "Tumiao", "Udtong",
+  ],
+  Lebak: [
+    "Aurelio F. Freires", "Barurao", "Barurao II", "Basak", "Bolebok", "Bululawan", "Capilan", "Christiannuevo",
+    "Datu Karon", "Kalamongog", "Keytodac", "Kinodalan", "New Calinog", "Nuling", "Pansud", "Pasandalan", "Poblacion",
+    "Poblacion III", "Poloy-poloy", "Purikay", "Ragandang", "Salaman", "Salangsang", "Taguisa", "Tibpuan", "Tran",
+    "Villamonte",
+  ],
+  Lutayan: [
+    "Antong", "Bayasong", "Blingkong", "Lutayan Proper", "Maindang", "Mamali", "Manili", "Palavilla", "Sampao",
+    "Sisiman", "Tamnag",
+  ],
+  Palimbang: [
+    "Akol", "Badiangon", "Baliango", "Balwan", "Bambanen", "Baranayan", "Barongis", "Batang-baglas", "Butril", "Colobe",
+    "Datu Maguiales", "Domolol", "Kabuling", "Kalibuhan", "Kanipaan", "Kidayan", "Kiponget", "Kisek", "Kraan",
+    "Kulong-kulong", "Langali", "Libua", "Ligao", "Lopoken", "Lumitan", "Maganao", "Maguid", "Malatuneng", "Malisbong",
+    "Medol", "Milbuk", "Mina", "Molon", "Namat Masla", "Napnapon", "Poblacion", "San Roque", "Tibuhol", "Wal", "Wasag",
+  ],
+  "President Quirino": [
+    "Bagumbayan", "Bannawag", "Bayawa", "C. Mangilala", "Estrella", "Kalanawe I", "Kalanawe II", "Katico", "Malingon",
+    "Mangalen", "Pedtubo", "Poblacion", "Romualdez", "San Jose", "San Pedro", "Sinakulay", "Suben", "Tinaungan", "Tual",
+  ],
+  "Sen. Ninoy Aquino": [
+    "Banali", "Basag", "Buenaflores", "Bugso", "Buklod", "Gapok", "Kadi", "Kapatagan", "Kiadsam", "Kuden", "Kulaman",
+    "Lagubang", "Langgal", "Limuhay", "Malegdeg", "Midtungok", "Nati", "Sewod", "Tacupis", "Tinalon",
+  ],
+  Tacurong: [
+    "Baras", "Buenaflor", "Calean", "Carmen", "D'Ledesma", "Enrique J.C. Montilla", "Kalandagan", "Lancheta",
+    "New Isabela", "New Lagao", "New Passi", "Poblacion", "Rajah Nuda", "San Antonio", "San Emmanuel", "San Pablo",
+    "San Rafael", "Tina", "Upper Katungal", "Virginia Griño",
+  ],
+}
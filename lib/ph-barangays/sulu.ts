@@ -0,0 +1,100 @@
+// Barangays of each town in Sulu, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  "Hadji Panglima Tahil": [
+    "Bangas", "Bubuan", "Kabuukan", "Pag-asinan", "Teomabal",
+  ],
+  Indanan: [
+    "Adjid", "Bangalan", "Bato-bato", "Buanza", "Bud-Taran", "Bunut", "Jati-Tunggal", "Kabbon Maas", "Kagay",
+    "Kajatian", "Kan Islam", "Kandang Tukay", "Karawan", "Katian", "Kuppong", "Lambayong", "Langpas", "Licup",
+    "Malimbaya", "Manggis", "Manilop", "Paligue", "Panabuan", "Panglima Misuari", "Pasil", "Poblacion", "Sapah Malaum",
+    "Sawaki", "Sionogan", "Tagbak", "Timbangan", "Tubig Dakulah", "Tubig Parang", "Tumantangis",
+  ],
+  Jolo: [
+    "Alat", "Asturias", "Bus-bus", "Chinese Pier", "San Raymundo", "Takut-takut", "Tulay", "Walled City",
+  ],
+  "Kalingalan Caluang": [
+    "Kambing", "Kanlagay", "Karungdong", "Masjid Bayle", "Masjid Punjungan", "Pang", "Pangdan Pangdan", "Pitogo",
+    "Tunggol",
+  ],
+  Lugus: [
+    "Alu Bus-Bus", "Alu-Duyong", "Bas Lugus", "Gapas Rugasan", "Gapas Tubig Tuwak", "Huwit-huwit Bas Nonok",
+    "Huwit-huwit Proper", "Kutah Parang", "Laha", "Larap", "Lugus Proper", "Mangkallay", "Mantan", "Pait",
+    "Parian Kayawan", "Sibul", "Tingkangan",
+  ],
+  Luuk: [
+    "Bual", "Guimbaun", "Kan-Bulak", "Kan-Mindus", "Lambago", "Lianutan", "Lingah", "Mananti", "Niog-niog",
+    "Tandu-Bato", "Tubig-Puti", "Tulayan Island",
+  ],
+  Maimbung: [
+    "Anak Jati", "Bato Ugis", "Bualo Lahi", "Bualo Lipid", "Bulabog", "Duhol Kabbon", "Gulangan", "Ipil", "Kandang",
+    "Kapok-Punggol", "Kulasi", "Labah", "Lagasan Asibih", "Lantong", "Lapa", "Laud Kulasi", "Laum Maimbung",
+    "Lower Tambaking", "Lunggang", "Matatal", "Patao", "Poblacion", "Ratag Limbon", "Tabu-Bato", "Tandu Patong",
+    "Tubig-Samin", "Upper Tambaking",
+  ],
+  "Old Panamao": [
+    "Asin", "Bakud", "Bangday", "Baunoh", "Bitanag", "Bud Seit", "Bulangsi", "Datag", "Kamalig", "Kan Asaali",
+    "Kan Ukol", "Kan-Dayok", "Kan-Sipat", "Kawasan", "Kulay-kulay", "Lakit", "Lower Patibulan", "Lunggang", "Parang",
+    "Pugad Manaul", "Puhagan", "Seit Higad", "Seit Lake", "Su-uh", "Tabu Manuk", "Tandu-tandu", "Tayungan", "Tinah",
+    "Tubig Gantang", "Tubig Jati", "Upper Patibulan",
+  ],
+  Omar: [
+    "Andalan", "Angilan", "Capual Island", "Huwit-huwit", "Lahing-Lahing", "Niangkaan", "Sucuban", "Tangkuan",
+  ],
+  Pandami: [
+    "Baligtang", "Bud Sibaud", "Hambilan", "Kabbon", "Lahi", "Lapak", "Laud Sibaud", "Malanta", "Mamanok",
+    "North Manubul", "Parian Dakula", "Sibaud Proper", "Siganggang", "South Manubul", "Suba-suba", "Tenga Manubul",
+  ],
+  "Panglima Estino": [
+    "Gagguil", "Gata-gata", "Jinggan", "Kamih-Pungud", "Lihbug Kabaw", "Likbah", "Lubuk-lubuk", "Marsada", "Paiksa",
+    "Pandakan", "Punay", "Tiptipon",
+  ],
+  Pangutaran: [
+    "Alu Bunah", "Bangkilay", "Kawitan", "Kehi Niog", "Lantong Babag", "Lumah Dapdap", "Pandan Niog", "Panducan",
+    "Panitikan", "Patutol", "Se-ipang", "Simbahan", "Suang Bunah", "Tonggasang", "Tubig Nonok", "Tubig Sallang",
+  ],
+  Parang: [
+    "Alu Layag-Layag", "Alu Pangkoh", "Bagsak", "Bawisan", "Biid", "Bukid", "Buli Bawang", "Buton", "Buton Mahablo",
+    "Danapa", "Duyan Kabao", "Gimba Lagasan", "Kaha", "Kahoy Sinah", "Kanaway", "Kutah Sairap", "Lagasan Higad",
+    "Lanao Dakula", "Laum Buwahan", "Laum Suwah", "Liang", "Linuho", "Lipunos", "Lower Sampunay", "Lumbaan Mahaba",
+    "Lungan Gitong", "Lupa Abu", "Nonokan", "Paugan", "Payuhan", "Piyahan", "Poblacion", "Saldang", "Sampunay",
+    "Silangkan", "Taingting", "Tikong", "Tukay", "Tumangas", "Wanni Piyanjihan",
+  ],
+  Pata: [
+    "Andalan", "Daungdong", "Kamawi", "Kanjarang", "Kayawan", "Kiput", "Likud", "Luuk-tulay", "Niog-niog", "Patian",
+    "Pisak-pisak", "Saimbangon", "Sangkap", "Timuddas",
+  ],
+  Patikul: [
+    "Anuling", "Bakong", "Bangkal", "Bonbon", "Buhanginan", "Bungkaung", "Danag", "Gandasuli", "Igasan", "Kabbon Takas",
+    "Kadday Mampallam", "Kan Ague", "Kaunayan", "Langhub", "Latih", "Liang", "Maligay", "Mauboh", "Pangdanon",
+    "Panglayahan", "Pansul", "Patikul Higad", "Sandah", "Taglibi", "Tandu-Bagua", "Tanum", "Taung", "Timpok", "Tugas",
+    "Umangay",
+  ],
+  Siasi: [
+    "Bakud", "Buan", "Bulansing Tara", "Bulihkullul", "Campo Islam", "Duggo", "Duhol Tara", "East Kungtad",
+    "East Sisangat", "Ipil", "Jambangan", "Kabubu", "Kong-Kong Laminusa", "Kud-kud", "Kungtad West", "Latung",
+    "Luuk Laminusa", "Luuk Tara", "Manta", "Minapan", "Nipa-nipa", "North Laud", "North Manta", "North Musu Laud",
+    "North Silumpak", "Pislong", "Poblacion", "Punungan", "Puukan Laminusa", "Ratag", "Sablay", "Sarukot", "Siburi",
+    "Singko", "Siolakan", "Siowing", "Sipanding", "Sisangat", "Siundoh", "South Musu Laud", "South Silumpak",
+    "Southwestern Bulikullul", "Subah Buaya", "Tampakan Laminusa", "Tengah Laminusa", "Tong Laminusa", "Tong-tong",
+    "Tonglabah", "Tubig Kutah", "Tulling",
+  ],
+  Talipao: [
+    "Andalan", "Bagsak", "Bandang", "Bilaan", "Bud Bunga", "Buntod", "Buroh", "Dalih", "Gata", "Kabatuhan Bilaan",
+    "Kabatuhan Tiis", "Kabungkol", "Kagay", "Kahawa", "Kandaga", "Kanlibot", "Kiutaan", "Kuhaw", "Kulamboh", "Kuttong",
+    "Lagtoh", "Lambanah", "Liban", "Liu-Bud Pantao", "Lower Binuang", "Lower Kamuntayan", "Lower Laus",
+    "Lower Sinumaan", "Lower Talipao", "Lumbayao", "Lumping Pigih Daho", "Lungkiaban", "Mabahay", "Mahala", "Mampallam",
+    "Marsada", "Mauboh", "Mungit-mungit", "Niog-Sangahan", "Pantao", "Samak", "Talipao Proper", "Tampakan", "Tiis",
+    "Tinggah", "Tubod", "Tuyang", "Upper Binuang", "Upper Kamuntayan", "Upper Laus", "Upper Sinumaan", "Upper Talipao",
+  ],
+  Tapul: [
+    "Alu-Kabingaan", "Banting", "Hawan", "Kalang", "Kamaunggi", "Kanaway", "Kanmangon", "Kaumpang", "Pagatpat",
+    "Pangdan", "Puok", "Sayli", "Sumambat", "Tangkapaan", "Tulakan",
+  ],
+  Tongkil: [
+    "Bakkaan", "Bangalaw", "Danao", "Dungon", "Kahikukuk", "Luuk", "North Paarol", "Sigumbal", "South Paarol",
+    "Tabialan", "Tainga-Bakkao", "Tambun-bun", "Tattalan", "Tinutungan",
+  ],
+}
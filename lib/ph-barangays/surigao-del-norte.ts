@@ -0,0 +1,96 @@
+// Barangays of each town in Surigao del Norte, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Alegria: [
+    "Alipao", "Anahaw", "Budlingin", "Camp Eduard", "Ferlda", "Gamuton", "Julio Ouano", "Ombong", "Poblacion",
+    "Pongtud", "San Juan", "San Pedro",
+  ],
+  Bacuag: [
+    "Cabugao", "Cambuayon", "Campo", "Dugsangon", "Pautao", "Payapag", "Poblacion", "Pungtod", "Santo Rosario",
+  ],
+  Burgos: [
+    "Baybay", "Bitaug", "Matin-ao", "Poblacion 1", "Poblacion 2", "San Mateo",
+  ],
+  Claver: [
+    "Bagakay", "Cabugo", "Cagdianao", "Daywan", "Hayanggabon", "Ladgaron", "Lapinigan", "Magallanes", "Panatao", "Sapa",
+    "Taganito", "Tayaga", "Urbiztondo", "Wangke",
+  ],
+  Dapa: [
+    "Bagakay", "Barangay 1", "Barangay 2", "Barangay 3", "Barangay 4", "Barangay 5", "Barangay 6", "Barangay 7",
+    "Barangay 8", "Barangay 9", "Barangay 10", "Barangay 11", "Barangay 12", "Barangay 13", "Buenavista", "Cabawa",
+    "Cambas-ac", "Consolacion", "Corregidor", "Dagohoy", "Don Paulino", "Jubang", "Montserrat", "Osmeña", "San Carlos",
+    "San Miguel", "Santa Fe", "Santa Felomina", "Union",
+  ],
+  "Del Carmen": [
+    "Antipolo", "Bagakay", "Bitoon", "Cabugao", "Cancohoy", "Caub", "Del Carmen", "Domoyog", "Esperanza", "Halian",
+    "Jamoyaon", "Katipunan", "Lobogon", "Mabuhay", "Mahayahay", "Quezon", "San Fernando", "San Jose", "Sayak",
+    "Tuboran",
+  ],
+  "General Luna": [
+    "Anajawan", "Cabitoonan", "Catangnan", "Consuelo", "Corazon", "Daku", "La Januza", "Libertad", "Magsaysay",
+    "Malinao", "Poblacion I", "Poblacion II", "Poblacion III", "Poblacion IV", "Poblacion V", "Santa Cruz", "Santa Fe",
+    "Suyangan", "Tawin-tawin",
+  ],
+  Gigaquit: [
+    "Alambique", "Anibongan", "Cam-boayon", "Camam-onan", "Ipil", "Lahi", "Mahanub", "Poniente", "San Antonio",
+    "San Isidro", "Sico-sico", "Villaflor", "Villafranca",
+  ],
+  Mainit: [
+    "Binga", "Bobona-on", "Cantugas", "Dayano", "Mabini", "Magpayang", "Magsaysay", "Mansayao", "Marayag", "Matin-ao",
+    "Paco", "Quezon", "Roxas", "San Francisco", "San Isidro", "San Jose", "Siana", "Silop", "Tagbuyawan", "Tapi-an",
+    "Tolingon",
+  ],
+  Malimono: [
+    "Bunyasan", "Cagtinae", "Can-aga", "Cansayong", "Cantapoy", "Cayawan", "Doro", "Hanagdong", "Karihatag", "Masgad",
+    "Pili", "San Isidro", "Tinago", "Villariza",
+  ],
+  Pilar: [
+    "Asinan", "Caridad", "Centro", "Consolacion", "Datu", "Dayaohay", "Jaboy", "Katipunan", "Maasin", "Mabini",
+    "Mabuhay", "Pilaring", "Punta", "Salvacion", "San Roque",
+  ],
+  Placer: [
+    "Amoslog", "Anislagan", "Bad-as", "Boyongan", "Bugas-bugas", "Central", "Ellaperal", "Ipil", "Lakandula", "Mabini",
+    "Macalaya", "Magsaysay", "Magupange", "Pananay-an", "Panhutongan", "San Isidro", "Sani-sani", "Santa Cruz", "Suyoc",
+    "Tagbongabong",
+  ],
+  "San Benito": [
+    "Bongdo", "Maribojoc", "Nuevo Campo", "San Juan", "Santa Cruz", "Talisay",
+  ],
+  "San Francisco": [
+    "Amontay", "Balite", "Banbanon", "Diaz", "Honrado", "Jubgan", "Linongganan", "Macopa", "Magtangale", "Oslao",
+    "Poblacion",
+  ],
+  "San Isidro": [
+    "Buhing Calipay", "Del Carmen", "Del Pilar", "Macapagal", "Pacifico", "Pelaez", "Roxas", "San Miguel", "Santa Paz",
+    "Santo Niño", "Tambacan", "Tigasao",
+  ],
+  "Santa Monica": [
+    "Abad Santos", "Alegria", "Bailan", "Garcia", "Libertad", "Mabini", "Mabuhay", "Magsaysay", "Rizal", "T. Arlan",
+    "Tangbo",
+  ],
+  Sison: [
+    "Biyabid", "Gacepan", "Ima", "Lower Patag", "Mabuhay", "Mayag", "Poblacion", "San Isidro", "San Pablo", "Tagbayani",
+    "Tinogpahan", "Upper Patag",
+  ],
+  Socorro: [
+    "Albino Taruc", "Del Pilar", "Helene", "Honrado", "Navarro", "Nueva Estrella", "Pamosaingan", "Rizal", "Salog",
+    "San Roque", "Santa Cruz", "Sering", "Songkoy", "Sudlon",
+  ],
+  Surigao: [
+    "Alang-alang", "Alegria", "Anomar", "Aurora", "Balibayon", "Baybay", "Bilabid", "Bitaugan", "Bonifacio",
+    "Buenavista", "Cabongbongan", "Cagniog", "Cagutsan", "Canlanipa", "Cantiasay", "Capalayan", "Catadman", "Danao",
+    "Danawan", "Day-asan", "Ipil", "Libuac", "Lipata", "Lisondra", "Luna", "Mabini", "Mabua", "Manyagao", "Mapawa",
+    "Mat-i", "Nabago", "Nonoc", "Orok", "Poctoy", "Punta Bilar", "Quezon", "Rizal", "Sabang", "San Isidro", "San Jose",
+    "San Juan", "San Pedro", "San Roque", "Serna", "Sidlakan", "Silop", "Sugbay", "Sukailang", "Taft", "Talisay",
+    "Togbongon", "Trinidad", "Washington", "Zaragoza",
+  ],
+  "Tagana-An": [
+    "Aurora", "Azucena", "Banban", "Cawilan", "Fabio", "Himamaug", "Laurel", "Lower Libas", "Opong", "Patino",
+    "Sampaguita", "Talavera", "Union", "Upper Libas",
+  ],
+  Tubod: [
+    "Capayahan", "Cawilan", "Del Rosario", "Marga", "Motorpool", "Poblacion", "San Isidro", "San Pablo", "Timamana",
+  ],
+}
@@ -0,0 +1,87 @@
+// Barangays of each town in Surigao del Sur, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Barobo: [
+    "Amaga", "Bahi", "Cabacungan", "Cambagang", "Causwagan", "Dapdap", "Dughan", "Gamut", "Guinhalinan", "Javier",
+    "Kinayan", "Mamis", "Poblacion", "Rizal", "San Jose", "San Roque", "San Vicente", "Sua", "Sudlon", "Tambis",
+    "Unidad", "Wakat",
+  ],
+  Bayabas: [
+    "Amag", "Balete", "Cabugo", "Cagbaoto", "La Paz", "Magobawok", "Panaosawon",
+  ],
+  Bislig: [
+    "Bucto", "Burboanan", "Caguyao", "Coleto", "Comawas", "Kahayag", "Labisma", "Lawigan", "Maharlika", "Mangagoy",
+    "Mone", "Pamanlinan", "Pamaypayan", "Poblacion", "San Antonio", "San Fernando", "San Isidro", "San Jose",
+    "San Roque", "San Vicente", "Santa Cruz", "Sibaroy", "Tabon", "Tumanan",
+  ],
+  Cagwait: [
+    "Aras-Asan", "Bacolod", "Bitaugan East", "Bitaugan West", "La Purisima", "Lactudan", "Mat-e", "Poblacion",
+    "Tawagan", "Tubo-tubo", "Unidad",
+  ],
+  Cantilan: [
+    "Bugsukan", "Buntalid", "Cabangahan", "Cabas-an", "Calagdaan", "Consuelo", "General Island", "Lininti-an", "Lobo",
+    "Magasang", "Magosilom", "Pag-Antayan", "Palasao", "Parang", "San Pedro", "Tapi", "Tigabong",
+  ],
+  Carmen: [
+    "Antao", "Cancavan", "Carmen", "Esperanza", "Hinapoyan", "Puyat", "San Vicente", "Santa Cruz",
+  ],
+  Carrascal: [
+    "Adlay", "Babuyan", "Bacolod", "Baybay", "Bon-ot", "Caglayag", "Dahican", "Doyos", "Embarcadero", "Gamuton",
+    "Panikian", "Pantukan", "Saca", "Tag-Anito",
+  ],
+  Cortes: [
+    "Balibadon", "Burgos", "Capandan", "Mabahin", "Madrelino", "Manlico", "Matho", "Poblacion", "Tag-Anongan", "Tigao",
+    "Tuboran", "Uba",
+  ],
+  Hinatuan: [
+    "Baculin", "Benigno Aquino", "Bigaan", "Cambatong", "Campa", "Dugmanon", "Harip", "La Casa", "Loyola", "Maligaya",
+    "Pagtigni-an", "Pocto", "Port Lamon", "Roxas", "San Juan", "Sasa", "Tagasaka", "Tagbobonga", "Talisay", "Tarusan",
+    "Tidman", "Tiwi", "Zone II", "Zone III Maharlika",
+  ],
+  Lanuza: [
+    "Agsam", "Bocawe", "Bunga", "Gamuton", "Habag", "Mampi", "Nurcia", "Pakwan", "Sibahay", "Zone I", "Zone II",
+    "Zone III", "Zone IV",
+  ],
+  Lianga: [
+    "Anibongan", "Ban-as", "Banahao", "Baucawe", "Diatagon", "Ganayon", "Liatimco", "Manyayay", "Payasan", "Poblacion",
+    "Saint Christine", "San Isidro", "San Pedro",
+  ],
+  Lingig: [
+    "Anibongan", "Barcelona", "Bogak", "Bongan", "Handamayan", "Mahayahay", "Mandus", "Mansa-ilao", "Pagtila-an",
+    "Palo Alto", "Poblacion", "Rajah Cabungso-an", "Sabang", "Salvacion", "San Roque", "Tagpoporan", "Union",
+    "Valencia",
+  ],
+  Madrid: [
+    "Bagsac", "Bayogo", "Linibonan", "Magsaysay", "Manga", "Panayogon", "Patong Patong", "Quirino", "San Antonio",
+    "San Juan", "San Roque", "San Vicente", "Songkit", "Union",
+  ],
+  Marihatag: [
+    "Alegria", "Amontay", "Antipolo", "Arorogan", "Bayan", "Mahaba", "Mararag", "Poblacion", "San Antonio",
+    "San Isidro", "San Pedro", "Santa Cruz",
+  ],
+  "San Agustin": [
+    "Bretania", "Buatong", "Buhisan", "Gata", "Hornasan", "Janipaan", "Kauswagan", "Oteiza", "Poblacion", "Pong-on",
+    "Pongtod", "Salvacion", "Santo Niño",
+  ],
+  "San Miguel": [
+    "Bagyang", "Baras", "Bitaugan", "Bolhoon", "Calatngan", "Carromata", "Castillo", "Libas Gua", "Libas Sud",
+    "Magroyong", "Mahayag", "Patong", "Poblacion", "Sagbayan", "San Roque", "Siagao", "Tina", "Umalag",
+  ],
+  Tagbina: [
+    "Batunan", "Carpenito", "Doña Carmen", "Hinagdanan", "Kahayagan", "Lago", "Maglambing", "Maglatab", "Magsaysay",
+    "Malixi", "Manambia", "Osmeña", "Poblacion", "Quezon", "San Vicente", "Santa Cruz", "Santa Fe", "Santa Juana",
+    "Santa Maria", "Sayon", "Soriano", "Tagongon", "Trinidad", "Ugoban", "Villaverde",
+  ],
+  Tago: [
+    "Alba", "Anahao Bag-o", "Anahao Daan", "Badong", "Bajao", "Bangsud", "Cabangahan", "Cagdapao", "Camagong",
+    "Caras-an", "Cayale", "Dayo-an", "Gamut", "Jubang", "Kinabigtasan", "Layog", "Lindoy", "Mercedes", "Purisima",
+    "Sumo-sumo", "Umbay", "Unaban", "Unidos", "Victoria",
+  ],
+  Tandag: [
+    "Awasian", "Bagong Lungsod", "Bioto", "Bongtod Pob.", "Buenavista", "Dagocdoc", "Mabua", "Mabuhay", "Maitum",
+    "Maticdum", "Pandanon", "Pangi", "Quezon", "Rosario", "Salvacion", "San Agustin Norte", "San Agustin Sur",
+    "San Antonio", "San Isidro", "San Jose", "Telaje",
+  ],
+}
@@ -0,0 +1,111 @@
+// Barangays of each town in Tarlac, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Anao: [
+    "Baguindoc", "Bantog", "Campos", "Carmen", "Casili", "Don Ramon", "Hernando", "Poblacion", "Rizal",
+    "San Francisco East", "San Francisco West", "San Jose North", "San Jose South", "San Juan", "San Roque",
+    "Santo Domingo", "Sinense", "Suaverdez",
+  ],
+  Bamban: [
+    "Anupul", "Banaba", "Bangcu", "Culubasa", "Dela Cruz", "La Paz", "Lourdes", "Malonzo", "San Nicolas", "San Pedro",
+    "San Rafael", "San Roque", "San Vicente", "Santo Niño", "Virgen de los Remedios",
+  ],
+  Camiling: [
+    "Anoling 1st", "Anoling 2nd", "Anoling 3rd", "Bacabac", "Bacsay", "Bancay 1st", "Bilad", "Birbira", "Bobon 1st",
+    "Bobon 2nd", "Bobon Caarosipan", "Cabanabaan", "Cacamilingan Norte", "Cacamilingan Sur", "Caniag", "Carael",
+    "Cayaoan", "Cayasan", "Florida", "Lasong", "Libueg", "Malacampa", "Manaquem", "Manupeg", "Marawi", "Matubog",
+    "Nagrambacan", "Nagserialan", "Palimbo Caarosipan", "Palimbo Proper", "Pao 1st", "Pao 2nd", "Pao 3rd", "Papaac",
+    "Pindangan 1st", "Pindangan 2nd", "Poblacion A", "Poblacion B", "Poblacion C", "Poblacion D", "Poblacion E",
+    "Poblacion F", "Poblacion G", "Poblacion H", "Poblacion I", "Poblacion J", "San Isidro", "Sawat", "Sinilian 1st",
+    "Sinilian 2nd", "Sinilian 3rd", "Sinilian Cacalibosoan", "Sinulatan 1st", "Sinulatan 2nd", "Sta. Maria",
+    "Surgui 1st", "Surgui 2nd", "Surgui 3rd", "Tambugan", "Telbang", "Tuec",
+  ],
+  Capas: [
+    "Aranguren", "Bueno", "Cristo Rey", "Cubcub", "Cutcut 1st", "Cutcut 2nd", "Dolores", "Estrada", "Lawy", "Manga",
+    "Manlapig", "Maruglu", "O'Donnell", "Santa Juliana", "Santa Lucia", "Santa Rita", "Santo Domingo 1st",
+    "Santo Domingo 2nd", "Santo Rosario", "Talaga",
+  ],
+  Concepcion: [
+    "Alfonso", "Balutu", "Cafe", "Calius Gueco", "Caluluan", "Castillo", "Corazon de Jesus", "Culatingan", "Dungan",
+    "Dutung-A-Matas", "Green Village", "Lilibangan", "Mabilog", "Magao", "Malupa", "Minane", "Panalicsian", "Pando",
+    "Parang", "Parulung", "Pitabunan", "San Agustin", "San Antonio", "San Bartolome", "San Francisco", "San Isidro",
+    "San Jose", "San Juan", "San Martin", "San Nicolas", "San Nicolas Balas", "San Vicente", "Santa Cruz",
+    "Santa Maria", "Santa Monica", "Santa Rita", "Santa Rosa", "Santiago", "Santo Cristo", "Santo Niño",
+    "Santo Rosario", "Talimunduc Marimla", "Talimunduc San Miguel", "Telabanca", "Tinang",
+  ],
+  Gerona: [
+    "Abagon", "Amacalan", "Apsayan", "Ayson", "Bawa", "Buenlag", "Bularit", "Calayaan", "Carbonel", "Cardona",
+    "Caturay", "Danzo", "Dicolor", "Don Basilio", "Luna", "Mabini", "Magaspac", "Malayep", "Matapitap", "Matayuncab",
+    "New Salem", "Oloybuaya", "Padapada", "Parsolingan", "Pinasling", "Plastado", "Poblacion 1", "Poblacion 2",
+    "Poblacion 3", "Quezon", "Rizal", "Salapungan", "San Agustin", "San Antonio", "San Bartolome", "San Jose",
+    "Santa Lucia", "Santiago", "Sembrano", "Singat", "Sulipa", "Tagumbao", "Tangcaran", "Villa Paz",
+  ],
+  "La Paz": [
+    "Balanoy", "Bantog-Caricutan", "Caramutan", "Caut", "Comillas", "Dumarais", "Guevara", "Kapanikian", "La Purisima",
+    "Lara", "Laungcupang", "Lomboy", "Macalong", "Matayumtayum", "Mayang", "Motrico", "Paludpud", "Rizal", "San Isidro",
+    "San Roque", "Sierra",
+  ],
+  Mayantoc: [
+    "Ambalingit", "Baybayaoas", "Bigbiga", "Binbinaca", "Calabtangan", "Caocaoayan", "Carabaoan", "Cubcub",
+    "Gayonggayong", "Gossood", "Labney", "Mamonit", "Maniniog", "Mapandan", "Nambalan", "Pedro L. Quines", "Pitombayog",
+    "Poblacion Norte", "Poblacion Sur", "Rotrottooc", "San Bartolome", "San Jose", "Taldiapan", "Tangcarang",
+  ],
+  Moncada: [
+    "Ablang-Sapang", "Aringin", "Atencio", "Banaoang East", "Banaoang West", "Baquero Norte", "Baquero Sur", "Burgos",
+    "Calamay", "Calapan", "Camangaan East", "Camangaan West", "Camposanto 1 - Norte", "Camposanto 1 - Sur",
+    "Camposanto 2", "Capaoayan", "Lapsing", "Mabini", "Maluac", "Poblacion 1", "Poblacion 2", "Poblacion 3",
+    "Poblacion 4", "Rizal", "San Juan", "San Julian", "San Leon", "San Pedro", "San Roque", "Santa Lucia East",
+    "Santa Lucia West", "Santa Maria", "Santa Monica", "Tolega Norte", "Tolega Sur", "Tubectubang", "Villa",
+  ],
+  Paniqui: [
+    "Abogado", "Acocolao", "Aduas", "Apulid", "Balaoang", "Barang", "Brillante", "Burgos", "Cabayaoasan", "Canan",
+    "Carino", "Cayanga", "Colibangbang", "Coral", "Dapdap", "Estacion", "Mabilang", "Manaois", "Matalapitap",
+    "Nagmisaan", "Nancamarinan", "Nipaco", "Patalan", "Poblacion Norte", "Poblacion Sur", "Rang-ayan", "Salumague",
+    "Samput", "San Carlos", "San Isidro", "San Juan de Milla", "Santa Ines", "Sinigpit", "Tablang", "Ventenilla",
+  ],
+  Pura: [
+    "Balite", "Buenavista", "Cadanglaan", "Estipona", "Linao", "Maasin", "Matindeg", "Maungib", "Naya", "Nilasin 1st",
+    "Nilasin 2nd", "Poblacion 1", "Poblacion 2", "Poblacion 3", "Poroc", "Singat",
+  ],
+  Ramos: [
+    "Coral-Iloco", "Guiteb", "Pance", "Poblacion Center", "Poblacion North", "Poblacion South", "San Juan",
+    "San Raymundo", "Toledo",
+  ],
+  "San Clemente": [
+    "Balloc", "Bamban", "Casipo", "Catagudingan", "Daldalayap", "Doclong 1", "Doclong 2", "Maasin", "Nagsabaran",
+    "Pit-ao", "Poblacion Norte", "Poblacion Sur",
+  ],
+  "San Jose": [
+    "Burgos", "David", "Iba", "Labney", "Lawacamulag", "Lubigan", "Maamot", "Mababanaba", "Moriones", "Pao",
+    "San Juan de Valdez", "Sula", "Villa Aglipay",
+  ],
+  "San Manuel": [
+    "Colubot", "Lanat", "Legaspi", "Mangandingay", "Matarannoc", "Pacpaco", "Poblacion", "Salcedo", "San Agustin",
+    "San Felipe", "San Jacinto", "San Miguel", "San Narciso", "San Vicente", "Santa Maria",
+  ],
+  "Santa Ignacia": [
+    "Baldios", "Botbotones", "Caanamongan", "Cabaruan", "Cabugbugan", "Caduldulaoan", "Calipayan", "Macaguing",
+    "Nambalan", "Padapada", "Pilpila", "Pinpinas", "Poblacion East", "Poblacion West", "Pugo-Cecilio", "San Francisco",
+    "San Sotero", "San Vicente", "Santa Ines Centro", "Santa Ines East", "Santa Ines West", "Taguiporo", "Timmaguab",
+    "Vargas",
+  ],
+  Tarlac: [
+    "Aguso", "Alvindia Segundo", "Amucao", "Armenia", "Asturias", "Atioc", "Balanti", "Balete", "Balibago I",
+    "Balibago II", "Balingcanaway", "Banaba", "Bantog", "Baras-baras", "Batang-batang", "Binauganan", "Bora",
+    "Buenavista", "Buhilit", "Burot", "Calingcuan", "Capehan", "Carangian", "Care", "Central", "Culipat", "Cut-cut I",
+    "Cut-cut II", "Dalayap", "Dela Paz", "Dolores", "Laoang", "Ligtasan", "Lourdes", "Mabini", "Maligaya", "Maliwalo",
+    "Mapalacsiao", "Mapalad", "Matadero", "Matatalaib", "Paraiso", "Poblacion", "Salapungan", "San Carlos",
+    "San Francisco", "San Isidro", "San Jose", "San Jose de Urquico", "San Juan de Mata", "San Luis", "San Manuel",
+    "San Miguel", "San Nicolas", "San Pablo", "San Pascual", "San Rafael", "San Roque", "San Sebastian", "San Vicente",
+    "Santa Cruz", "Santa Maria", "Santo Cristo", "Santo Domingo", "Santo Niño", "Sapang Maragul", "Sapang Tagalog",
+    "Sepung Calzada", "Sinait", "Suizo", "Tariji", "Tibag", "Tibagan", "Trinidad", "Ungot", "Villa Bacolor",
+  ],
+  Victoria: [
+    "Baculong", "Balayang", "Balbaloto", "Bangar", "Bantog", "Batangbatang", "Bulo", "Cabuluan", "Calibungan",
+    "Canarem", "Cruz", "Lalapac", "Maluid", "Mangolago", "Masalasa", "Palacpalac", "San Agustin", "San Andres",
+    "San Fernando", "San Francisco", "San Gavino", "San Jacinto", "San Nicolas", "San Vicente", "Santa Barbara",
+    "Santa Lucia",
+  ],
+}
@@ -0,0 +1,59 @@
+// Barangays of each town in Tawi-Tawi, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Bongao: [
+    "Bongao Poblacion", "Ipil", "Kamagong", "Karungdong", "Lagasan", "Lakit Lakit", "Lamion", "Lapid Lapid",
+    "Lato Lato", "Luuk Pandan", "Luuk Tulay", "Malassa", "Mandulan", "Masantong", "Montay Montay", "Nalil", "Pababag",
+    "Pag-asa", "Pagasinan", "Pagatpat", "Pahut", "Pakias", "Paniongan", "Pasiagan", "Sanga-sanga", "Silubog",
+    "Simandagit", "Sumangat", "Tarawakan", "Tongsinah", "Tubig Basag", "Tubig Tanah", "Tubig-Boh", "Tubig-Mampallam",
+    "Ungus-ungus",
+  ],
+  Languyan: [
+    "Adnin", "Bakaw-bakaw", "Bakong", "Bas-bas Proper", "BasLikud", "Basnunuk", "Darussalam", "Jakarta", "Kalupag",
+    "Kiniktal", "Languyan Proper", "Marang-marang", "Maraning", "Parang Pantay", "Sikullis", "Simalak", "Tubig Dakula",
+    "Tuhog-tuhog", "Tumahubong", "Tumbagaan",
+  ],
+  Mapun: [
+    "Boki", "Duhul Batu", "Erok-erok", "Guppah", "Kompang", "Liyubud", "Lubbak Parang", "Lupa Pula", "Mahalo", "Pawan",
+    "Sapa", "Sikub", "Tabulian", "Tanduan", "Umus Mataha",
+  ],
+  "Panglima Sugala": [
+    "Balimbing Proper", "Batu-batu", "Bauno Garing", "Belatan Halu", "Buan", "Dungon", "Karaha", "Kulape", "Liyaburan",
+    "Luuk Buntal", "Magsaggaw", "Malacca", "Parangan", "Sumangday", "Tabunan", "Tundon", "Tungbangkaw",
+  ],
+  "Sapa-Sapa": [
+    "Baldatal Islam", "Butun", "Dalo-dalo", "Kohec", "Lakit-lakit", "Latuan", "Look Natuh", "Lookan Banaran",
+    "Lookan Latuan", "Malanta", "Mantabuan Tabunan", "Nunuk Likud Sikubong", "Palate Gadjaminah", "Pamasan",
+    "Sapa-sapa", "Sapaat", "Sukah-sukah", "Tabunan Likud Sikubong", "Tangngah", "Tapian Bohe North",
+    "Tapian Bohe South", "Tonggusong Banaran", "Tup-tup Banaran",
+  ],
+  Sibutu: [
+    "Ambulong Sapal", "Datu Amilhamja Jaafar", "Hadji Imam Bidin", "Hadji Mohtar Sulayman", "Hadji Taha",
+    "Imam Hadji Mohammad", "Ligayan", "Nunukan", "Sheik Makdum", "Sibutu", "Talisay", "Tandu Banak", "Taungoh",
+    "Tongehat", "Tongsibalo", "Ungus-ungus",
+  ],
+  Simunul: [
+    "Bagid*", "Bakong", "Doh-Tong", "Luuk Datan", "Manuk Mangkaw", "Maruwa", "Mongkay", "Pagasinan", "Panglima Mastul",
+    "Sukah-Bulan", "Tampakan", "Timundon", "Tonggosong", "Tubig Indangan", "Ubol",
+  ],
+  Sitangkai: [
+    "Datu Baguinda Putih", "Imam Sapie", "North Larap", "Panglima Alari", "Sipangkot", "Sitangkai Poblacion",
+    "South Larap", "Tongmageng", "Tongusong",
+  ],
+  "South Ubian": [
+    "Babagan", "Bengkol", "Bintawlan", "Bohe", "Bubuan", "Bunay Bunay Center", "Bunay Bunay Lookan", "Bunay Bunay Tong",
+    "East Talisay", "Lahad Dampong", "Laitan", "Lambi-lambian", "Laud", "Likud Dampong", "Likud Tabawan", "Nunuk",
+    "Nusa", "Nusa-nusa", "Pampang", "Putat", "Sollogan", "Talisay", "Tampakan Dampong", "Tangngah", "Tinda-tindahan",
+    "Tong Tampakan", "Tubig Dayang", "Tubig Dayang Center", "Tubig Dayang Riverside", "Tukkai", "Unas-unas",
+  ],
+  Tandubas: [
+    "Baliungan", "Ballak", "Butun", "Himbah", "Kakoong", "Kalang-kalang", "Kepeng", "Lahay-lahay", "Naungan", "Salamat",
+    "Sallangan", "Sapa", "Sibakloon", "Silantup", "Tandubato", "Tangngah", "Tapian", "Tapian Sukah", "Taruk",
+    "Tongbangkaw",
+  ],
+  "Turtle Islands": [
+    "Likud Bakkao", "Taganak Poblacion",
+  ],
+}
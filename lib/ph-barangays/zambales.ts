@@ -0,0 +1,64 @@
+// Barangays of each town in Zambales, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Botolan: [
+    "Bancal", "Bangan", "Batonlapoc", "Belbel", "Beneg", "Binoclutan", "Burgos", "Cabatuan", "Capayawan", "Carael",
+    "Danacbunga", "Maguisguis", "Malomboy", "Mambog", "Moraza", "Nacolcol", "Owaog-Nebloc", "Paco", "Palis", "Panan",
+    "Parel", "Paudpod", "Poonbato", "Porac", "San Isidro", "San Juan", "San Miguel", "Santiago", "Tampo", "Taugtog",
+    "Villar",
+  ],
+  Cabangan: [
+    "Anonang", "Apo-apo", "Arew", "Banuanbayo", "Cadmang-Reserva", "Camiling (Camiing)", "Casabaan", "Del Carmen",
+    "Dolores", "Felmida-Diaz", "Laoag", "Lomboy", "Longos", "Mabanglit", "New San Juan", "San Antonio", "San Isidro",
+    "San Juan", "San Rafael", "Santa Rita", "Santo Niño", "Tondo",
+  ],
+  Candelaria: [
+    "Babancal", "Binabalian", "Catol", "Dampay", "Lauis", "Libertador", "Malabon", "Malimanga", "Pamibian", "Panayonan",
+    "Pinagrealan", "Poblacion", "Sinabacan", "Taposo", "Uacon", "Yamot",
+  ],
+  Castillejos: [
+    "Balaybay", "Buenavista", "Del Pilar", "Looc", "Magsaysay", "Nagbayan", "Nagbunga", "San Agustin", "San Jose",
+    "San Juan", "San Nicolas", "San Pablo", "San Roque", "Santa Maria",
+  ],
+  Iba: [
+    "Amungan", "Bangantalinga", "Dirita-Baloguen", "Lipay-Dingin-Panibuatan", "Palanginan", "San Agustin",
+    "Santa Barbara", "Santo Rosario", "Zone 1 Pob.", "Zone 2 Pob.", "Zone 3 Pob.", "Zone 4 Pob.", "Zone 5 Pob.",
+    "Zone 6 Pob.",
+  ],
+  Masinloc: [
+    "Baloganon", "Bamban", "Bani", "Collat", "Inhobol", "North Poblacion", "San Lorenzo", "San Salvador", "Santa Rita",
+    "Santo Rosario", "South Poblacion", "Taltal", "Tapuac",
+  ],
+  Palauig: [
+    "Alwa", "Bato", "Bulawen", "Cauyan", "East Poblacion", "Garreta", "Libaba", "Liozon", "Lipay", "Locloc", "Macarang",
+    "Magalawa", "Pangolingan", "Salaza", "San Juan", "Sto. Niño", "Sto. Tomas", "Tition", "West Poblacion",
+  ],
+  "San Antonio": [
+    "Angeles", "Antipolo", "Burgos", "East Dirita", "Luna", "Pundaquit", "Rizal", "San Esteban", "San Gregorio",
+    "San Juan", "San Miguel", "San Nicolas", "Santiago", "West Dirita",
+  ],
+  "San Felipe": [
+    "Amagna", "Apostol", "Balincaguing", "Farañal", "Feria", "Maloma", "Manglicmot", "Rosete", "San Rafael", "Sindol",
+    "Sto. Niño",
+  ],
+  "San Marcelino": [
+    "Aglao", "Buhawen", "Burgos", "Central", "Consuelo Norte", "Consuelo Sur", "La Paz", "Laoag", "Linasin",
+    "Linusungan", "Lucero", "Nagbunga", "Rabanes", "Rizal", "San Guillermo", "San Isidro", "San Rafael", "Santa Fe",
+  ],
+  "San Narciso": [
+    "Alusiis", "Beddeng", "Candelaria", "Dallipawen", "Grullo", "La Paz", "Libertad", "Namatacan", "Natividad", "Omaya",
+    "Paite", "Patrocinio", "San Jose", "San Juan", "San Pascual", "San Rafael", "Simminublan",
+  ],
+  "Santa Cruz": [
+    "Babuyan", "Bangcol", "Bayto", "Biay", "Bolitoc", "Bulawon", "Canaynayan", "Gama", "Guinabon", "Guisguis", "Lipay",
+    "Lomboy", "Lucapon North", "Lucapon South", "Malabago", "Naulo", "Pagatpat", "Pamonoran", "Poblacion North",
+    "Poblacion South", "Sabang", "San Fernando", "Tabalong", "Tubotubo North", "Tubotubo South",
+  ],
+  Subic: [
+    "Aningway Sacatihan", "Asinan Poblacion", "Asinan Proper", "Baraca-Camachile", "Batiawan", "Calapacuan",
+    "Calapandayan", "Cawag", "Ilwas", "Mangan-Vaca", "Matain", "Naugsol", "Pamatawan", "San Isidro", "Santo Tomas",
+    "Wawandue",
+  ],
+}
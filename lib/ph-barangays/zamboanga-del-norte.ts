@@ -0,0 +1,147 @@
+// Barangays of each town in Zamboanga del Norte, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Baliguian: [
+    "Alegria", "Diangas", "Diculom", "Guimotan", "Kauswagan", "Kilalaban", "Linay", "Lumay", "Malinao", "Mamad",
+    "Mamawan", "Milidan", "Nonoyan", "Poblacion", "San Jose", "Tamao", "Tan-awan",
+  ],
+  Dapitan: [
+    "Aliguay", "Antipolo", "Aseniero", "Ba-ao", "Bagting", "Banbanan", "Banonong", "Barcelona", "Baylimango", "Burgos",
+    "Canlucani", "Carang", "Cawa-cawa", "Dampalan", "Daro", "Dawo", "Diwa-an", "Guimputlan", "Hilltop", "Ilaya",
+    "Kauswagan", "Larayan", "Linabo", "Liyang", "Maria Cristina", "Maria Uray", "Masidlakon", "Matagobtob Pob.", "Napo",
+    "Opao", "Oro", "Owaon", "Oyan", "Polo", "Potol", "Potungan", "San Francisco", "San Nicolas", "San Pedro",
+    "San Vicente", "Santa Cruz", "Santo Niño", "Selinog", "Sicayab-Bucana", "Sigayan", "Sinonoc", "Sulangon", "Tag-ulo",
+    "Taguilon", "Tamion",
+  ],
+  Dipolog: [
+    "Barra", "Biasong", "Central", "Cogon", "Dicayas", "Diwan", "Estaca", "Galas", "Gulayon", "Lugdungan", "Minaog",
+    "Miputak", "Olingan", "Punta", "San Jose", "Sangkol", "Santa Filomena", "Santa Isabel", "Sicayab", "Sinaman",
+    "Turno",
+  ],
+  Godod: [
+    "Baluno", "Banuangan", "Bunawan", "Dilucot", "Dipopor", "Guisapong", "Limbonga", "Lomogom", "Mauswagon", "Miampic",
+    "Poblacion", "Raba", "Rambon", "San Pedro", "Sarawagan", "Sianan", "Sioran",
+  ],
+  Gutalac: [
+    "Bacong", "Bagong Silang", "Banganon", "Bayanihan", "Buenavista", "Canupong", "Cocob", "Datagan", "Imelda",
+    "Immaculada Concepcion", "La Libertad", "Loay", "Lower Lux", "Lux", "Malian", "Mamawan", "Map", "Matunoy",
+    "New Dapitan", "Panganuran", "Pitawe", "Pitogo", "Poblacion", "Salvador", "San Isidro", "San Juan", "San Roque",
+    "San Vicente", "Santo Niño", "Sas", "Sibalic", "Tipan", "Upper Gutalac",
+  ],
+  "Jose Dalman": [
+    "Balatakan", "Bitoon", "Dinasan", "Ilihan", "Labakid", "Lipay", "Litalip", "Lopero", "Lumanping", "Madalag",
+    "Manawan", "Marupay", "Poblacion", "Sigamok", "Siparok", "Tabon", "Tamarok", "Tamil",
+  ],
+  Kalawit: [
+    "Batayan", "Botong", "Concepcion", "Daniel Maing", "Fatima", "Gatas", "Kalawit", "Marcelo", "New Calamba",
+    "Palalian", "Paraiso", "Pianon", "San Jose", "Tugop*",
+  ],
+  Katipunan: [
+    "Balok", "Barangay Dos", "Barangay Uno", "Basagan", "Biniray", "Bulawan", "Carupay", "Daanglungsod", "Dabiak",
+    "Dr. Jose Rizal", "Fimagas", "Loyuran", "Malasay", "Malugas", "Matam", "Mias", "Miatan", "Nanginan", "New Tambo",
+    "Patik", "San Antonio", "San Vicente", "Sanao", "Santo Niño", "Seres", "Seroan", "Singatong", "Sinuyak", "Sitog",
+    "Tuburan",
+  ],
+  "La Libertad": [
+    "El Paraiso", "La Union", "La Victoria", "Mauswagon", "Mercedes", "New Argao", "New Bataan", "New Carcar",
+    "Poblacion", "San Jose", "Santa Catalina", "Santa Cruz", "Singaran",
+  ],
+  Labason: [
+    "Antonino", "Balas", "Bobongan", "Dansalan", "Gabu", "Gil Sanchez", "Imelda", "Immaculada", "Kipit", "La Union",
+    "Lapatan", "Lawagan", "Lawigan", "Lopoc", "Malintuboan", "New Salvacion", "Osukan", "Patawag", "San Isidro", "Ubay",
+  ],
+  "Leon T. Postigo": [
+    "Bacungan", "Bogabongan", "Delusom", "Mangop", "Manil", "Mawal", "Midatag", "Morob", "Nasibac", "Rizon",
+    "Santa Maria", "Sipacong", "Talinga", "Tinaplan", "Tiniguiban", "Tinuyop", "Tiogan", "Titik",
+  ],
+  Liloy: [
+    "Banigan", "Baybay", "Cabangcalan", "Canaan", "Candelaria", "Causwagan", "Communal", "Compra", "Dela Paz",
+    "El Paraiso", "Fatima", "Ganase", "Goaw", "Goin", "Kayok", "La Libertad", "Lamao", "Mabuhay", "Maigang", "Malila",
+    "Mauswagon", "New Bethlehem", "Overview", "Panabang", "Patawag", "Punta", "San Francisco", "San Isidro",
+    "San Miguel", "San Roque", "Santa Cruz", "Santo Niño", "Silucap", "Tapican", "Timan", "Villa Calixto Sudiacal",
+    "Villa M. Tejero",
+  ],
+  Manukan: [
+    "Dipane", "Disakan", "Don Jose Aguirre", "East Poblacion", "Gupot", "Libuton", "Linay", "Lingatongan", "Lupasang",
+    "Mate", "Meses", "Palaranan", "Pangandao", "Patagan", "Poblacion", "Punta Blanca", "Saluyong", "San Antonio",
+    "Serongan", "Suisayan", "Upper Disakan", "Villaramos",
+  ],
+  Mutia: [
+    "Alvenda", "Buenasuerte", "Diland", "Diolen", "Head Tipan", "New Casul", "New Siquijor", "Newland", "Paso Rio",
+    "Poblacion", "San Miguel", "Santo Tomas", "Tinglan", "Totongon", "Tubac", "Unidos",
+  ],
+  "Piñan": [
+    "Adante", "Bacuyong", "Bagong Silang", "Calican", "Del Pilar", "Desin", "Dilawa", "Dionum", "Lapu-lapu",
+    "Lower Gumay", "Luzvilla", "Poblacion North", "Poblacion South", "Santa Fe", "Segabe", "Sikitan", "Silano",
+    "Teresita", "Tinaytayan", "Ubay", "Upper Gumay", "Villarico",
+  ],
+  Polanco: [
+    "Anastacio", "Bandera", "Bethlehem", "Dangi", "Dansullan", "De Venta Perla", "Guinles", "Isis", "Labrador",
+    "Lapayanbaja", "Letapan", "Linabo", "Lingasad", "Macleodes", "Magangon", "Maligaya", "Milad", "New Lebangon",
+    "New Sicayab", "Obay", "Pian", "Poblacion North", "Poblacion South", "San Antonio", "San Miguel", "San Pedro",
+    "Santo Niño", "Sianib", "Silawe", "Villahermosa",
+  ],
+  "Pres. Manuel A. Roxas": [
+    "Balubo", "Banbanan", "Canibongan", "Capase", "Cape", "Denoman", "Dohinob", "Galokso", "Gubat", "Irasan", "Labakid",
+    "Langatian", "Lipakan", "Marupay", "Moliton", "Nabilid", "Panampalay", "Pangologon", "Piao", "Piñalan", "Piñamar",
+    "Pongolan", "Salisig", "Sebod", "Sibatog", "Situbo", "Tanayan", "Tantingon", "Upper Irasan", "Upper Minang",
+    "Villahermoso",
+  ],
+  Rizal: [
+    "Balubohan", "Birayan", "Damasing", "East Poblacion", "La Esperanza", "Mabuhay", "Mabunao", "Mitimos", "Nangca",
+    "Nangcaan", "Napilan", "Nasipang", "New Dapitan", "Nilabo", "North Mapang", "Rizalina", "San Roque", "Sebaca",
+    "Sipaon", "South Mapang", "Tolon", "West Poblacion",
+  ],
+  Salug: [
+    "Bacong", "Balakan", "Binoni", "Calucap", "Canawan", "Caracol", "Danao", "Dinoan", "Dipolod", "Fatima", "Ipilan",
+    "Lanawan", "Liguac", "Lipakan", "Mucas", "Pacuhan", "Poblacion", "Poblacion East", "Pukay", "Ramon Magsaysay",
+    "Santo Niño", "Tambalang", "Tapalan",
+  ],
+  "Sergio Osmeña Sr.": [
+    "Antonino", "Bagong Baguio", "Bagumbayan", "Biayon", "Buenavista", "Dampalan", "Danao", "Don Eleno", "Kauswagan",
+    "Labiray", "Liwanag", "Mabuhay", "Macalibre", "Mahayahay", "Marapong", "Nazareth", "Nebo", "New Rizal",
+    "New Tangub", "Nuevavista", "Pedagan", "Penacio", "Poblacion Alto", "Poblacion Bajo", "Princesa Freshia",
+    "Princesa Lamaya", "San Antonio", "San Francisco", "San Isidro", "San Jose", "San Juan", "Sinaad", "Sinai",
+    "Situbo", "Tinago", "Tinindugan", "Tuburan", "Venus", "Wilben",
+  ],
+  Siayan: [
+    "Balok", "Balunokan", "Datagan", "Denoyan", "Diongan", "Domogok", "Dumpilas", "Gonayen", "Guibo", "Gunyan",
+    "Litolet", "Macasing", "Mangilay", "Moyo", "Muñoz", "Pange", "Paranglumba", "Polayo", "Sayaw", "Seriac",
+    "Siayan Proper", "Suguilon",
+  ],
+  Sibuco: [
+    "Anongan", "Basak", "Bongalao", "Cabbunan", "Cawit-cawit", "Culaguan", "Cusipan", "Dinulan", "Jatian", "Kamarangan",
+    "Lakiki", "Lambagoan", "Limpapa", "Lingayon", "Lintangan", "Litawan", "Lunday", "Malayal", "Mantivo", "Nala",
+    "Panganuran", "Pangian", "Paniran", "Pasilnahut", "Poblacion", "Puliran", "Santo Niño", "Tangarak",
+  ],
+  Sibutad: [
+    "Bagacay", "Calilic", "Calube", "Delapa", "Kanim", "Libay", "Magsaysay", "Marapong", "Minlasag", "Oyan",
+    "Panganuran", "Poblacion", "Sawang", "Sibuloc", "Sinipay", "Sipaloc",
+  ],
+  Sindangan: [
+    "Bago", "Balok", "Bantayan", "Bato", "Benigno Aquino Jr.", "Binuangan", "Bitoon", "Bucana", "Calatunan", "Caluan",
+    "Calubian", "Dagohoy", "Dapaon", "Datagan", "Datu Tangkilan", "Dicoyong", "Disud", "Don Ricardo Macias",
+    "Doña Josefa", "Dumalogdog", "Fatima", "Gampis", "Goleo", "Imelda", "Inuman", "Joaquin Macias", "La Concepcion",
+    "La Roche San Miguel", "Labakid", "Lagag", "Lapero", "Lawis", "Magsaysay", "Mandih", "Maras", "Mawal", "Misok",
+    "Motibot", "Nato", "Nipaan", "Pangalalan", "Piao", "Poblacion", "Santo Niño", "Santo Rosario", "Siare", "Talinga",
+    "Tigbao", "Tinaplan", "Titik", "Upper Inuman", "Upper Nipaan",
+  ],
+  Siocon: [
+    "Andres Micubo Jr.", "Balagunan", "Bucana", "Bulacan", "Candiz", "Datu Sailila", "Dionisio Riconalla",
+    "Jose P. Brillantes, Sr.", "Latabon", "Makiang", "Malambuhangin", "Malipot", "Manaol", "Mateo Francisco", "Matiag",
+    "New Lituban", "Pangian", "Pisawak", "Poblacion", "S. Cabral", "Santa Maria", "Siay", "Suhaile Arabi", "Tabayo",
+    "Tagaytay", "Tibangao",
+  ],
+  Sirawai: [
+    "Balatakan", "Balonkan", "Balubuan", "Bitugan", "Bongon", "Catuyan", "Culasian", "Danganon", "Doña Cecilia",
+    "Guban", "Lagundi", "Libucon", "Lubok", "Macuyon", "Minanga", "Motong", "Napulan", "Panabutan", "Piacan",
+    "Pisa Itom", "Pisa Puti", "Piña", "Pugos", "Pula Bato", "Pulang Lupa", "Saint Mary", "San Nicolas", "San Roque",
+    "San Vicente", "Sipakit", "Sipawa", "Sirawai Proper", "Talabiga", "Tapanayan",
+  ],
+  Tampilisan: [
+    "Balacbaan", "Banbanan", "Barili", "Cabong", "Camul", "Farmington", "Galingon", "Lawaan", "Lumbayao", "Malila-t",
+    "Molos", "New Dapitan", "Poblacion", "Sandayong", "Santo Niño", "Situbo", "Tilubog", "Tininggaan", "Tubod", "Znac",
+  ],
+}
@@ -0,0 +1,146 @@
+// Barangays of each town in Zamboanga del Sur, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Aurora: [
+    "Acad", "Alang-alang", "Alegria", "Anonang", "Bagong Mandaue", "Bagong Maslog", "Bagong Oslob", "Bagong Pitogo",
+    "Baki", "Balas", "Balide", "Balintawak", "Bayabas", "Bemposa", "Cabilinan", "Campo Uno", "Ceboneg", "Commonwealth",
+    "Gubaan", "Inasagan", "Inroad", "Kahayagan East", "Kahayagan West", "Kauswagan", "La Paz", "La Victoria",
+    "Lantungan", "Libertad", "Lintugop", "Lubid", "Maguikay", "Mahayahay", "Monte Alegre", "Montela", "Napo",
+    "Panaghiusa", "Poblacion", "Resthouse", "Romarate", "San Jose", "San Juan", "Sapa Loboc", "Tagulalo", "Waterfall",
+  ],
+  Bayog: [
+    "Baking", "Balukbahan", "Balumbunan", "Bantal", "Bobuan", "Camp Blessing", "Canoayan", "Conacon", "Dagum", "Damit",
+    "Datagan", "Depase", "Depore", "Deporehan", "Dimalinao", "Dipili", "Kahayagan", "Kanipaan", "Lamare", "Liba",
+    "Matin-ao", "Matun-og", "Poblacion", "Pulang Bato", "Salawagan", "San Isidro", "Sigacad", "Supon",
+  ],
+  Dimataling: [
+    "Bacayawan", "Baha", "Balanagan", "Baluno", "Binuay", "Buburay", "Grap", "Josefina", "Kagawasan", "Lalab",
+    "Libertad", "Magahis", "Mahayag", "Mercedes", "Poblacion", "Saloagan", "San Roque", "Sugbay Uno", "Sumbato",
+    "Sumpot", "Tinggabulong", "Tiniguangan", "Tipangi", "Upper Ludiong",
+  ],
+  Dinas: [
+    "Bacawan", "Benuatan", "Beray", "Don Jose", "Dongos", "East Migpulao", "Guinicolalay", "Ignacio Garrata", "Kinacap",
+    "Legarda 1", "Legarda 2", "Legarda 3", "Lower Dimaya", "Lucoban", "Ludiong", "Nangka", "Nian", "Old Mirapao",
+    "Pisa-an", "Poblacion", "Proper Dimaya", "Sagacad", "Sambulawan", "San Isidro", "Songayan", "Sumpotan", "Tarakan",
+    "Upper Dimaya", "Upper Sibul", "West Migpulao",
+  ],
+  Dumalinao: [
+    "Anonang", "Bag-ong Misamis", "Bag-ong Silao", "Baga", "Baloboan", "Banta-ao", "Bibilik", "Calingayan", "Camalig",
+    "Camanga", "Cuatro-cuatro", "Locuban", "Malasik", "Mama", "Matab-ang", "Mecolong", "Metokong", "Motosawa",
+    "Pag-asa", "Paglaum", "Pantad", "Piniglibano", "Rebokon", "San Agustin", "Sibucao", "Sumadat", "Tikwas", "Tina",
+    "Tubo-Pait", "Upper Dumalinao",
+  ],
+  Dumingag: [
+    "Bag-ong Valencia", "Bagong Kauswagan", "Bagong Silang", "Bucayan", "Calumanggi", "Canibongan", "Caridad",
+    "Danlugan", "Dapiwak", "Datu Totocan", "Dilud", "Ditulan", "Dulian", "Dulop", "Guintananan", "Guitran", "Gumpingan",
+    "La Fortuna", "Labangon", "Libertad", "Licabang", "Lipawan", "Lower Landing", "Lower Timonan", "Macasing",
+    "Mahayahay", "Malagalad", "Manlabay", "Maralag", "Marangan", "New Basak", "Saad", "Salvador", "San Juan",
+    "San Pablo", "San Pedro", "San Vicente", "Senote", "Sinonok", "Sunop", "Tagun", "Tamurayan", "Upper Landing",
+    "Upper Timonan",
+  ],
+  Guipos: [
+    "Bagong Oroquieta", "Baguitan", "Balongating", "Canunan", "Dacsol", "Dagohoy", "Dalapang", "Datagan", "Guling",
+    "Katipunan", "Lintum", "Litan", "Magting", "Poblacion", "Regla", "Sikatuna", "Singclot",
+  ],
+  Josefina: [
+    "Bogo Calabat", "Dawa", "Ebarle", "Gumahan", "Leonardo", "Litapan", "Lower Bagong Tudela", "Mansanas", "Moradji",
+    "Nemeño", "Nopulan", "Sebukang", "Tagaytay Hill", "Upper Bagong Tudela",
+  ],
+  Kumalarang: [
+    "Bogayo", "Bolisong", "Boyugan East", "Boyugan West", "Bualan", "Diplo", "Gawil", "Gusom", "Kitaan Dagat",
+    "Lantawan", "Limamawan", "Mahayahay", "Pangi", "Picanan", "Poblacion", "Salagmanok", "Secade", "Suminalum",
+  ],
+  Labangan: [
+    "Bagalupa", "Balimbingan", "Binayan", "Bokong", "Bulanit", "Cogonan", "Combo", "Dalapang", "Dimasangca", "Dipaya",
+    "Langapod", "Lantian", "Lower Campo Islam", "Lower Pulacan", "Lower Sang-an", "New Labangan", "Noboran",
+    "Old Labangan", "San Isidro", "Santa Cruz", "Tapodoc", "Tawagan Norte", "Upper Campo Islam", "Upper Pulacan",
+    "Upper Sang-an",
+  ],
+  Lakewood: [
+    "Bagong Kahayag", "Baking", "Biswangan", "Bululawan", "Dagum", "Gasa", "Gatub", "Lukuan", "Matalang", "Poblacion",
+    "Sapang Pinoles", "Sebuguey", "Tiwales", "Tubod",
+  ],
+  Lapuyan: [
+    "Bulawan", "Carpoc", "Danganan", "Dansal", "Dumara", "Linokmadalum", "Luanan", "Lubusan", "Mahalingeb", "Mandeg",
+    "Maralag", "Maruing", "Molum", "Pampang", "Pantad", "Pingalay", "Poblacion", "Salambuyan", "San Jose", "Sayog",
+    "Tabon", "Talabob", "Tiguha", "Tininghalang", "Tipasan", "Tugaya",
+  ],
+  Mahayag: [
+    "Bag-ong Balamban", "Bag-ong Dalaguete", "Boniao", "Delusom", "Diwan", "Guripan", "Kaangayan", "Kabuhi", "Lourmah",
+    "Lower Salug Daku", "Lower Santo Niño", "Malubo", "Manguiles", "Marabanan", "Panagaan", "Paraiso", "Pedagan",
+    "Poblacion", "Pugwan", "San Isidro", "San Jose", "San Vicente", "Santa Cruz", "Sicpao", "Tuboran", "Tulan",
+    "Tumapic", "Upper Salug Daku", "Upper Santo Niño",
+  ],
+  Margosatubig: [
+    "Balintawak", "Bularong", "Digon", "Guinimanan", "Igat Island", "Josefina", "Kalian", "Kolot", "Limamawan",
+    "Limbatong", "Lumbog", "Magahis", "Poblacion", "Sagua", "Talanusa", "Tiguian", "Tulapok",
+  ],
+  Midsalip: [
+    "Bacahan", "Balonai", "Bibilop", "Buloron", "Cabaloran", "Canipay Norte", "Canipay Sur", "Cumaron", "Dakayakan",
+    "Duelic", "Dumalinao", "Ecuan", "Golictop", "Guinabot", "Guitalos", "Guma", "Kahayagan", "Licuro-an", "Lumpunid",
+    "Matalang", "New Katipunan", "New Unidos", "Palili", "Pawan", "Pili", "Pisompongan", "Piwan", "Poblacion A",
+    "Poblacion B", "Sigapod", "Timbaboy", "Tulbong", "Tuluan",
+  ],
+  Molave: [
+    "Alicia", "Ariosa", "Bagong Argao", "Bagong Gutlang", "Blancia", "Bogo Capalaran", "Culo", "Dalaon", "Dipolo",
+    "Dontulan", "Gonosan", "Lower Dimalinao", "Lower Dimorok", "Mabuhay", "Madasigon", "Makuguihon", "Maloloy-on",
+    "Miligan", "Parasan", "Rizal", "Santo Rosario", "Silangit", "Simata", "Sudlon", "Upper Dimorok",
+  ],
+  Pagadian: [
+    "Alegria", "Balangasan", "Balintawak", "Baloyboan", "Banale", "Bogo", "Bomba", "Buenavista", "Bulatok", "Bulawan",
+    "Dampalan", "Danlugan", "Dao", "Datagan", "Deborok", "Ditoray", "Dumagoc", "Gatas", "Gubac", "Gubang", "Kagawasan",
+    "Kahayagan", "Kalasan", "Kawit", "La Suerte", "Lala", "Lapidian", "Lenienza", "Lizon Valley", "Lourdes",
+    "Lower Sibatang", "Lumad", "Lumbia", "Macasing", "Manga", "Muricay", "Napolan", "Palpalan", "Pedulonan",
+    "Poloyagan", "San Francisco", "San Jose", "San Pedro", "Santa Lucia", "Santa Maria", "Santiago", "Santo Niño",
+    "Tawagan Sur", "Tiguma", "Tuburan", "Tulangan", "Tulawas", "Upper Sibatang", "White Beach",
+  ],
+  Pitogo: [
+    "Balabawan", "Balong-balong", "Colojo", "Liasan", "Liguac", "Limbayan", "Lower Paniki-an", "Matin-ao", "Panubigan",
+    "Poblacion", "Punta Flecha", "San Isidro", "Sugbay Dos", "Tongao", "Upper Paniki-an",
+  ],
+  "Ramon Magsaysay": [
+    "Bagong Opon", "Bambong Daku", "Bambong Diut", "Bobongan", "Campo IV", "Campo V", "Caniangan", "Dipalusan",
+    "Eastern Bobongan", "Esperanza", "Gapasan", "Katipunan", "Kauswagan", "Lower Sambulawan", "Mabini", "Magsaysay",
+    "Malating", "Paradise", "Pasingkalan", "Poblacion", "San Fernando", "Santo Rosario", "Sapa Anding", "Sinaguing",
+    "Switch", "Upper Laperian", "Wakat",
+  ],
+  "San Miguel": [
+    "Betinan", "Bulawan", "Calube", "Concepcion", "Dao-an", "Dumalian", "Fatima", "Langilan", "Lantawan", "Laperian",
+    "Libuganan", "Limonan", "Mati", "Ocapan", "Poblacion", "San Isidro", "Sayog", "Tapian",
+  ],
+  "San Pablo": [
+    "Bag-ong Misamis", "Bubual", "Buton", "Culasian", "Daplayan", "Kalilangan", "Kapamanok", "Kondum", "Lumbayao",
+    "Mabuhay", "Marcos Village", "Miasin", "Molansong", "Pantad", "Pao", "Payag", "Poblacion", "Pongapong", "Sacbulan",
+    "Sagasan", "San Juan", "Senior", "Songgoy", "Tandubuay", "Taniapan", "Ticala Island", "Tubo-pait", "Villakapa",
+  ],
+  Sominot: [
+    "Bag-ong Baroy", "Bag-ong Oroquieta", "Barubuhan", "Bulanay", "Datagan", "Eastern Poblacion", "Lantawan",
+    "Libertad", "Lumangoy", "New Carmen", "Picturan", "Poblacion", "Rizal", "San Miguel", "Santo Niño", "Sawa",
+    "Tungawan", "Upper Sicpao",
+  ],
+  Tabina: [
+    "Abong-abong", "Baganian", "Baya-baya", "Capisan", "Concepcion", "Culabay", "Doña Josefina", "Lumbia", "Mabuhay",
+    "Malim", "Manikaan", "New Oroquieta", "Poblacion", "San Francisco", "Tultolan",
+  ],
+  Tambulig: [
+    "Alang-alang", "Angeles", "Bag-ong Kauswagan", "Bag-ong Tabogon", "Balugo", "Cabgan", "Calolot", "Dimalinao",
+    "Fabian", "Gabunon", "Happy Valley", "Kapalaran", "Libato", "Limamawan", "Lower Liasan", "Lower Lodiong",
+    "Lower Tiparak", "Lower Usogan", "Maya-maya", "New Village", "Pelocoban", "Riverside", "Sagrada Familia",
+    "San Jose", "San Vicente", "Sumalig", "Tuluan", "Tungawan", "Upper Liason", "Upper Lodiong", "Upper Tiparak",
+  ],
+  Tigbao: [
+    "Begong", "Busol", "Caluma", "Diana Countryside", "Guinlin", "Lacarayan", "Lacupayan", "Libayoy", "Limas",
+    "Longmot", "Maragang", "Mate", "Nangan-nangan", "New Tuburan", "Nilo", "Tigbao", "Timolan", "Upper Nilo",
+  ],
+  Tukuran: [
+    "Alindahaw", "Baclay", "Balimbingan", "Buenasuerte", "Camanga", "Curvada", "Laperian", "Libertad", "Lower Bayao",
+    "Luy-a", "Manilan", "Manlayag", "Militar", "Navalan", "Panduma Senior", "Sambulawan", "San Antonio", "San Carlos",
+    "Santo Niño", "Santo Rosario", "Sugod", "Tabuan", "Tagulo", "Tinotungan", "Upper Bayao",
+  ],
+  "Vincenzo A. Sagun": [
+    "Ambulon", "Bui-os", "Cogon", "Danan", "Kabatan", "Kapatagan", "Limason", "Linoguayan", "Lumbal", "Lunib",
+    "Maculay", "Maraya", "Sagucan", "Waling-waling",
+  ],
+}
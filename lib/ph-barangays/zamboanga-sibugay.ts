@@ -0,0 +1,88 @@
+// Barangays of each town in Zamboanga Sibugay, generated from the PSGC (PSA, 2nd quarter 2025)
+
+import type { TownBarangays } from "."
+
+export const BARANGAYS: TownBarangays = {
+  Alicia: [
+    "Alegria", "Bagong Buhay", "Bella", "Calades", "Concepcion", "Dawa-dawa", "Gulayon", "Ilisan", "Kapatagan",
+    "Kauswagan", "Kawayan", "La Paz", "Lambuyogan", "Lapirawan", "Litayon", "Lutiman", "Milagrosa", "Naga-naga",
+    "Pandan-pandan", "Payongan", "Poblacion", "Santa Maria", "Santo Niño", "Talaptap", "Tampalan", "Tandiong Muslim",
+    "Timbang-timbang",
+  ],
+  Buug: [
+    "Agutayan", "Bagong Borbon", "Basalem", "Bawang", "Bliss", "Bulaan", "Compostela", "Danlugan", "Datu Panas",
+    "Del Monte", "Guintuloan", "Guitom", "Guminta", "Labrador", "Lantawan", "Mabuhay", "Maganay", "Manlin", "Muyo",
+    "Pamintayan", "Pling", "Poblacion", "Pulog", "San Jose", "Talairan", "Talamimi", "Villacastor",
+  ],
+  Diplahan: [
+    "Balangao", "Butong", "Ditay", "Gaulan", "Goling", "Guinoman", "Kauswagan", "Lindang", "Lobing", "Luop", "Manangon",
+    "Mejo", "Natan", "Paradise", "Pilar", "Poblacion", "Sampoli A", "Sampoli B", "Santa Cruz", "Songcuya",
+    "Tinongtongan", "Tuno",
+  ],
+  Imelda: [
+    "Balugo", "Balungisan", "Baluyan", "Cana-an", "Dumpoc", "Gandiangan", "Guintolan", "Israel", "La Victoria",
+    "Little Baguio", "Lower Baluran", "Lumbog", "Lumpanac", "Mali Little Baguio", "Poblacion", "Pulawan", "San Jose",
+    "Santa Barbara", "Upper Baluran",
+  ],
+  Ipil: [
+    "Bacalan", "Bangkerohan", "Bulu-an", "Caparan", "Domandan", "Don Andres", "Doña Josefa", "Guituan", "Ipil Heights",
+    "Labi", "Logan", "Lower Ipil Heights", "Lower Taway", "Lumbia", "Maasin", "Magdaup", "Makilas", "Pangi",
+    "Poblacion", "Sanito", "Suclema", "Taway", "Tenan", "Tiayon", "Timalang", "Tomitom", "Upper Pangi",
+    "Veteran's Village",
+  ],
+  Kabasalan: [
+    "Banker", "Bolo Batallion", "Buayan", "Cainglet", "Calapan", "Calubihan", "Concepcion", "Diampak", "Dipala",
+    "Gacbusan", "Goodyear", "Lacnapan", "Little Baguio", "Lumbayao", "Nazareth", "Palinta", "Peñaranda", "Poblacion",
+    "Riverside", "Sanghanan", "Santa Cruz", "Sayao", "Shiolan", "Simbol", "Sininan", "Tamin", "Tampilisan",
+    "Tigbangagan", "Timuay Danda",
+  ],
+  Mabuhay: [
+    "Abunda", "Bagong Silang", "Bangkaw-bangkaw", "Caliran", "Catipan", "Kauswagan", "Ligaya", "Looc-Barlak", "Malinao",
+    "Pamansaan", "Pinalim", "Poblacion", "Punawan", "Santo Niño", "Sawa", "Sioton", "Taguisian", "Tandu-Comot",
+  ],
+  Malangas: [
+    "Bacao", "Basak-bawang", "Bontong", "Camanga", "Candiis", "Catituan", "Dansulao", "Del Pilar", "Guilawa", "Kigay",
+    "La Dicha", "Lipacan", "Logpond", "Mabini", "Malungon", "Mulom", "Overland", "Palalian", "Payag", "Poblacion",
+    "Rebocon", "San Vicente", "Sinusayan", "Tackling", "Tigabon",
+  ],
+  Naga: [
+    "Aguinaldo", "Baga", "Baluno", "Bangkaw-bangkaw", "Cabong", "Crossing Sta. Clara", "Gubawang", "Guintoloan",
+    "Kaliantana", "La Paz", "Lower Sulitan", "Mamagon", "Marsolo", "Poblacion", "San Isidro", "Sandayong",
+    "Santa Clara", "Sulo", "Tambanan", "Taytay Manubo", "Tilubog", "Tipan", "Upper Sulitan",
+  ],
+  Olutanga: [
+    "Bateria", "Calais", "Esperanza", "Fama", "Galas", "Gandaan", "Kahayagan", "Looc Sapi", "Matim", "Noque",
+    "Pulo Laum", "Pulo Mabao", "San Isidro", "San Jose", "Santa Maria", "Solar", "Tambanan", "Villacorte",
+    "Villagonzalo",
+  ],
+  Payao: [
+    "Balian", "Balogo", "Balungisan", "Binangonan", "Bulacan", "Bulawan", "Calape", "Dalama", "Fatima", "Guiwan",
+    "Katipunan", "Kima", "Kulasian", "Kulisap", "La Fortuna", "Labatan", "Mayabo", "Minundas", "Mountain View", "Nanan",
+    "Poblacion", "San Isidro", "San Roque", "San Vicente", "Silal", "Sumilong", "Talaptap", "Upper Sumilong",
+  ],
+  "Roseller Lim": [
+    "Ali Alsree", "Balansag", "Calula", "Casacon", "Don Perfecto", "Gango", "Katipunan", "Kulambugan", "Mabini",
+    "Magsaysay", "Malubal", "New Antique", "New Sagay", "Palmera", "Pres. Roxas", "Remedios", "San Antonio",
+    "San Fernandino", "San Jose", "Santo Rosario", "Siawang", "Silingan", "Surabay", "Taruc", "Tilasan", "Tupilac",
+  ],
+  Siay: [
+    "Bagong Silang", "Balagon", "Balingasan", "Balucanan", "Bataan", "Batu", "Buyogan", "Camanga", "Coloran", "Kimos",
+    "Labasan", "Lagting", "Laih", "Logpond", "Magsaysay", "Mahayahay", "Maligaya", "Maniha", "Minsulao", "Mirangan",
+    "Monching", "Paruk", "Poblacion", "Princesa Sumama", "Salinding", "San Isidro", "Sibuguey", "Siloh", "Villagracia",
+  ],
+  Talusan: [
+    "Aurora", "Baganipay", "Bolingan", "Bualan", "Cawilan", "Florida", "Kasigpitan", "Laparay", "Mahayahay", "Moalboal",
+    "Poblacion", "Sagay", "Samonte", "Tuburan",
+  ],
+  Titay: [
+    "Achasol", "Azusano", "Bangco", "Camanga", "Culasian", "Dalangin", "Dalangin Muslim", "Dalisay", "Gomotoc",
+    "Imelda", "Kipit", "Kitabog", "La Libertad", "Longilog", "Mabini", "Malagandis", "Mate", "Moalboal", "Namnama",
+    "New Canaan", "Palomoc", "Poblacion", "Poblacion Muslim", "Pulidan", "San Antonio", "San Isidro", "Santa Fe",
+    "Supit", "Tugop", "Tugop Muslim",
+  ],
+  Tungawan: [
+    "Baluran", "Batungan", "Cayamcam", "Datu Tumanggong", "Gaycon", "Langon", "Libertad", "Linguisan", "Little Margos",
+    "Loboc", "Looc-labuan", "Lower Tungawan", "Malungon", "Masao", "San Isidro", "San Pedro", "San Vicente",
+    "Santo Niño", "Sisay", "Taglibas", "Tigbanuang", "Tigbucay", "Tigpalay", "Timbabauan", "Upper Tungawan",
+  ],
+}
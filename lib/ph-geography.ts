@@ -0,0 +1,151 @@
+/**
+ * Philippine regions, provinces and the cities that sit outside any province
+ * (highly urbanized and independent component cities), after the 2024
+ * creation of the Negros Island Region. The cities and municipalities within
+ * each province are in `PROVINCE_LOCALITIES`.
+ */
+
+export interface Region {
+  name: string
+  /** Other spellings in use, e.g. the roman-numeral designation. */
+  aliases: string[]
+  provinces: string[]
+}
+
+export interface IndependentCity {
+  name: string
+  aliases: string[]
+  kind: "city" | "municipality"
+  region: string
+  /** The province it lies in geographically, if any; it still doesn't vote for that province's officials. */
+  province: string | null
+}
+
+export const REGIONS: Region[] = [
+  { name: "National Capital Region", aliases: ["NCR", "Metro Manila"], provinces: [] },
+  {
+    name: "Cordillera Administrative Region",
+    aliases: ["CAR", "Cordillera"],
+    provinces: ["Abra", "Apayao", "Benguet", "Ifugao", "Kalinga", "Mountain Province"],
+  },
+  { name: "Ilocos Region", aliases: ["Region I", "Region 1", "Ilocos"], provinces: ["Ilocos Norte", "Ilocos Sur", "La Union", "Pangasinan"] },
+  {
+    name: "Cagayan Valley",
+    aliases: ["Region II", "Region 2"],
+    provinces: ["Batanes", "Cagayan", "Isabela", "Nueva Vizcaya", "Quirino"],
+  },
+  {
+    name: "Central Luzon",
+    aliases: ["Region III", "Region 3"],
+    provinces: ["Aurora", "Bataan", "Bulacan", "Nueva Ecija", "Pampanga", "Tarlac", "Zambales"],
+  },
+  { name: "CALABARZON", aliases: ["Region IV-A", "Region 4A"], provinces: ["Batangas", "Cavite", "Laguna", "Quezon", "Rizal"] },
+  {
+    name: "MIMAROPA",
+    aliases: ["Region IV-B", "Region 4B"],
+    provinces: ["Marinduque", "Occidental Mindoro", "Oriental Mindoro", "Palawan", "Romblon"],
+  },
+  {
+    name: "Bicol Region",
+    aliases: ["Region V", "Region 5", "Bicol"],
+    provinces: ["Albay", "Camarines Norte", "Camarines Sur", "Catanduanes", "Masbate", "Sorsogon"],
+  },
+  { name: "Western Visayas", aliases: ["Region VI", "Region 6"], provinces: ["Aklan", "Antique", "Capiz", "Guimaras", "Iloilo"] },
+  { name: "Negros Island Region", aliases: ["NIR"], provinces: ["Negros Occidental", "Negros Oriental", "Siquijor"] },
+  { name: "Central Visayas", aliases: ["Region VII", "Region 7"], provinces: ["Bohol", "Cebu"] },
+  {
+    name: "Eastern Visayas",
+    aliases: ["Region VIII", "Region 8"],
+    provinces: ["Biliran", "Eastern Samar", "Leyte", "Northern Samar", "Samar", "Southern Leyte"],
+  },
+  {
+    name: "Zamboanga Peninsula",
+    aliases: ["Region IX", "Region 9"],
+    provinces: ["Zamboanga del Norte", "Zamboanga del Sur", "Zamboanga Sibugay"],
+  },
+  {
+    name: "Northern Mindanao",
+    aliases: ["Region X", "Region 10"],
+    provinces: ["Bukidnon", "Camiguin", "Lanao del Norte", "Misamis Occidental", "Misamis Oriental"],
+  },
+  {
+    name: "Davao Region",
+    aliases: ["Region XI", "Region 11"],
+    provinces: ["Davao de Oro", "Davao del Norte", "Davao del Sur", "Davao Occidental", "Davao Oriental"],
+  },
+  {
+    name: "SOCCSKSARGEN",
+    aliases: ["Region XII", "Region 12"],
+    provinces: ["Cotabato", "Sarangani", "South Cotabato", "Sultan Kudarat"],
+  },
+  {
+    name: "Caraga",
+    aliases: ["Region XIII", "Region 13"],
+    provinces: ["Agusan del Norte", "Agusan del Sur", "Dinagat Islands", "Surigao del Norte", "Surigao del Sur"],
+  },
+  {
+    name: "Bangsamoro Autonomous Region in Muslim Mindanao",
+    aliases: ["BARMM", "Bangsamoro"],
+    provinces: ["Basilan", "Lanao del Sur", "Maguindanao del Norte", "Maguindanao del Sur", "Sulu", "Tawi-Tawi"],
+  },
+]
+
+/** Former or informal province names still typed by candidates. */
+export const PROVINCE_ALIASES: Record<string, string> = {
+  "Mt. Province": "Mountain Province",
+  "Compostela Valley": "Davao de Oro",
+  "Western Samar": "Samar",
+  "North Cotabato": "Cotabato",
+}
+
+export const INDEPENDENT_CITIES: IndependentCity[] = [
+  { name: "Caloocan", aliases: ["Caloocan City"], kind: "city", region: "National Capital Region", province: null },
+  { name: "Las Piñas", aliases: ["Las Pinas City"], kind: "city", region: "National Capital Region", province: null },
+  { name: "Makati", aliases: ["Makati City"], kind: "city", region: "National Capital Region", province: null },
+  { name: "Malabon", aliases: ["Malabon City"], kind: "city", region: "National Capital Region", province: null },
+  { name: "Mandaluyong", aliases: ["Mandaluyong City"], kind: "city", region: "National Capital Region", province: null },
+  { name: "Manila", aliases: ["City of Manila"], kind: "city", region: "National Capital Region", province: null },
+  { name: "Marikina", aliases: ["Marikina City"], kind: "city", region: "National Capital Region", province: null },
+  { name: "Muntinlupa", aliases: ["Muntinlupa City"], kind: "city", region: "National Capital Region", province: null },
+  { name: "Navotas", aliases: ["Navotas City"], kind: "city", region: "National Capital Region", province: null },
+  { name: "Parañaque", aliases: ["Paranaque City"], kind: "city", region: "National Capital Region", province: null },
+  { name: "Pasay", aliases: ["Pasay City"], kind: "city", region: "National Capital Region", province: null },
+  { name: "Pasig", aliases: ["Pasig City"], kind: "city", region: "National Capital Region", province: null },
+  // A municipality, but like the cities it belongs to no province
+  { name: "Pateros", aliases: [], kind: "municipality", region: "National Capital Region", province: null },
+  { name: "Quezon City", aliases: ["QC"], kind: "city", region: "National Capital Region", province: null },
+  { name: "San Juan", aliases: ["San Juan City"], kind: "city", region: "National Capital Region", province: null },
+  { name: "Taguig", aliases: ["Taguig City"], kind: "city", region: "National Capital Region", province: null },
+  { name: "Valenzuela", aliases: ["Valenzuela City"], kind: "city", region: "National Capital Region", province: null },
+  { name: "Baguio", aliases: ["Baguio City"], kind: "city", region: "Cordillera Administrative Region", province: "Benguet" },
+  { name: "Dagupan", aliases: ["Dagupan City"], kind: "city", region: "Ilocos Region", province: "Pangasinan" },
+  { name: "Santiago", aliases: ["Santiago City"], kind: "city", region: "Cagayan Valley", province: "Isabela" },
+  { name: "Angeles", aliases: ["Angeles City"], kind: "city", region: "Central Luzon", province: "Pampanga" },
+  { name: "Olongapo", aliases: ["Olongapo City"], kind: "city", region: "Central Luzon", province: "Zambales" },
+  { name: "Lucena", aliases: ["Lucena City"], kind: "city", region: "CALABARZON", province: "Quezon" },
+  { name: "Puerto Princesa", aliases: ["Puerto Princesa City"], kind: "city", region: "MIMAROPA", province: "Palawan" },
+  { name: "Naga", aliases: ["Naga City"], kind: "city", region: "Bicol Region", province: "Camarines Sur" },
+  { name: "Iloilo City", aliases: [], kind: "city", region: "Western Visayas", province: "Iloilo" },
+  { name: "Bacolod", aliases: ["Bacolod City"], kind: "city", region: "Negros Island Region", province: "Negros Occidental" },
+  { name: "Cebu City", aliases: [], kind: "city", region: "Central Visayas", province: "Cebu" },
+  { name: "Lapu-Lapu", aliases: ["Lapu-Lapu City", "Opon"], kind: "city", region: "Central Visayas", province: "Cebu" },
+  { name: "Mandaue", aliases: ["Mandaue City"], kind: "city", region: "Central Visayas", province: "Cebu" },
+  { name: "Tacloban", aliases: ["Tacloban City"], kind: "city", region: "Eastern Visayas", province: "Leyte" },
+  { name: "Ormoc", aliases: ["Ormoc City"], kind: "city", region: "Eastern Visayas", province: "Leyte" },
+  { name: "Zamboanga City", aliases: [], kind: "city", region: "Zamboanga Peninsula", province: "Zamboanga del Sur" },
+  { name: "Cagayan de Oro", aliases: ["Cagayan de Oro City", "CDO"], kind: "city", region: "Northern Mindanao", province: "Misamis Oriental" },
+  { name: "Iligan", aliases: ["Iligan City"], kind: "city", region: "Northern Mindanao", province: "Lanao del Norte" },
+  { name: "Davao City", aliases: [], kind: "city", region: "Davao Region", province: "Davao del Sur" },
+  { name: "General Santos", aliases: ["General Santos City", "GenSan"], kind: "city", region: "SOCCSKSARGEN", province: "South Cotabato" },
+  { name: "Butuan", aliases: ["Butuan City"], kind: "city", region: "Caraga", province: "Agusan del Norte" },
+  { name: "Cotabato City", aliases: [], kind: "city", region: "Bangsamoro Autonomous Region in Muslim Mindanao", province: "Maguindanao del Norte" },
+  // The Bangsamoro Special Geographic Area: towns formed in 2024 from barangays that left Cotabato province
+  { name: "Kadayangan", aliases: [], kind: "municipality", region: "Bangsamoro Autonomous Region in Muslim Mindanao", province: null },
+  { name: "Kapalawan", aliases: [], kind: "municipality", region: "Bangsamoro Autonomous Region in Muslim Mindanao", province: null },
+  { name: "Ligawasan", aliases: [], kind: "municipality", region: "Bangsamoro Autonomous Region in Muslim Mindanao", province: null },
+  { name: "Malidegao", aliases: [], kind: "municipality", region: "Bangsamoro Autonomous Region in Muslim Mindanao", province: null },
+  { name: "Nabalawag", aliases: [], kind: "municipality", region: "Bangsamoro Autonomous Region in Muslim Mindanao", province: null },
+  { name: "Old Kaabakan", aliases: [], kind: "municipality", region: "Bangsamoro Autonomous Region in Muslim Mindanao", province: null },
+  { name: "Pahamuddin", aliases: [], kind: "municipality", region: "Bangsamoro Autonomous Region in Muslim Mindanao", province: null },
+  { name: "Tugunan", aliases: [], kind: "municipality", region: "Bangsamoro Autonomous Region in Muslim Mindanao", province: null },
+]
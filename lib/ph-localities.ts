@@ -0,0 +1,607 @@
+/**
+ * Cities and municipalities of each province, generated from the Philippine
+ * Standard Geographic Code (PSA, 2nd quarter 2025). City names drop the
+ * "City of" / "City" affix. Cities outside any province are in
+ * `INDEPENDENT_CITIES`; barangays are in `lib/ph-barangays`, loaded per province.
+ */
+
+export interface ProvinceLocalities {
+  cities: string[]
+  municipalities: string[]
+}
+
+export const PROVINCE_LOCALITIES: Record<string, ProvinceLocalities> = {
+  Abra: {
+    cities: [],
+    municipalities: [
+      "Bangued", "Boliney", "Bucay", "Bucloc", "Daguioman", "Danglas", "Dolores", "La Paz", "Lacub", "Lagangilang",
+      "Lagayan", "Langiden", "Licuan-Baay", "Luba", "Malibcong", "Manabo", "Peñarrubia", "Pidigan", "Pilar",
+      "Sallapadan", "San Isidro", "San Juan", "San Quintin", "Tayum", "Tineg", "Tubo", "Villaviciosa",
+    ],
+  },
+  "Agusan del Norte": {
+    cities: ["Cabadbaran"],
+    municipalities: [
+      "Buenavista", "Carmen", "Jabonga", "Kitcharao", "Las Nieves", "Magallanes", "Nasipit", "Remedios T. Romualdez",
+      "Santiago", "Tubay",
+    ],
+  },
+  "Agusan del Sur": {
+    cities: ["Bayugan"],
+    municipalities: [
+      "Bunawan", "Esperanza", "La Paz", "Loreto", "Prosperidad", "Rosario", "San Francisco", "San Luis",
+      "Santa Josefa", "Sibagat", "Talacogon", "Trento", "Veruela",
+    ],
+  },
+  Aklan: {
+    cities: [],
+    municipalities: [
+      "Altavas", "Balete", "Banga", "Batan", "Buruanga", "Ibajay", "Kalibo", "Lezo", "Libacao", "Madalag", "Makato",
+      "Malay", "Malinao", "Nabas", "New Washington", "Numancia", "Tangalan",
+    ],
+  },
+  Albay: {
+    cities: ["Legazpi", "Ligao", "Tabaco"],
+    municipalities: [
+      "Bacacay", "Camalig", "Daraga", "Guinobatan", "Jovellar", "Libon", "Malilipot", "Malinao", "Manito", "Oas",
+      "Pio Duran", "Polangui", "Rapu-Rapu", "Santo Domingo", "Tiwi",
+    ],
+  },
+  Antique: {
+    cities: [],
+    municipalities: [
+      "Anini-Y", "Barbaza", "Belison", "Bugasong", "Caluya", "Culasi", "Hamtic", "Laua-An", "Libertad", "Pandan",
+      "Patnongon", "San Jose", "San Remigio", "Sebaste", "Sibalom", "Tibiao", "Tobias Fornier", "Valderrama",
+    ],
+  },
+  Apayao: {
+    cities: [],
+    municipalities: ["Calanasan", "Conner", "Flora", "Kabugao", "Luna", "Pudtol", "Santa Marcela"],
+  },
+  Aurora: {
+    cities: [],
+    municipalities: [
+      "Baler", "Casiguran", "Dilasag", "Dinalungan", "Dingalan", "Dipaculao", "Maria Aurora", "San Luis",
+    ],
+  },
+  Basilan: {
+    cities: ["Isabela", "Lamitan"],
+    municipalities: [
+      "Akbar", "Al-Barka", "Hadji Mohammad Ajul", "Hadji Muhtamad", "Lantawan", "Maluso", "Sumisip", "Tabuan-Lasa",
+      "Tipo-Tipo", "Tuburan", "Ungkaya Pukan",
+    ],
+  },
+  Bataan: {
+    cities: ["Balanga"],
+    municipalities: [
+      "Abucay", "Bagac", "Dinalupihan", "Hermosa", "Limay", "Mariveles", "Morong", "Orani", "Orion", "Pilar", "Samal",
+    ],
+  },
+  Batanes: {
+    cities: [],
+    municipalities: ["Basco", "Itbayat", "Ivana", "Mahatao", "Sabtang", "Uyugan"],
+  },
+  Batangas: {
+    cities: ["Batangas", "Calaca", "Lipa", "Sto. Tomas", "Tanauan"],
+    municipalities: [
+      "Agoncillo", "Alitagtag", "Balayan", "Balete", "Bauan", "Calatagan", "Cuenca", "Ibaan", "Laurel", "Lemery",
+      "Lian", "Lobo", "Mabini", "Malvar", "Mataasnakahoy", "Nasugbu", "Padre Garcia", "Rosario", "San Jose",
+      "San Juan", "San Luis", "San Nicolas", "San Pascual", "Santa Teresita", "Taal", "Talisay", "Taysan", "Tingloy",
+      "Tuy",
+    ],
+  },
+  Benguet: {
+    cities: [],
+    municipalities: [
+      "Atok", "Bakun", "Bokod", "Buguias", "Itogon", "Kabayan", "Kapangan", "Kibungan", "La Trinidad", "Mankayan",
+      "Sablan", "Tuba", "Tublay",
+    ],
+  },
+  Biliran: {
+    cities: [],
+    municipalities: ["Almeria", "Biliran", "Cabucgayan", "Caibiran", "Culaba", "Kawayan", "Maripipi", "Naval"],
+  },
+  Bohol: {
+    cities: ["Tagbilaran"],
+    municipalities: [
+      "Alburquerque", "Alicia", "Anda", "Antequera", "Baclayon", "Balilihan", "Batuan", "Bien Unido", "Bilar",
+      "Buenavista", "Calape", "Candijay", "Carmen", "Catigbian", "Clarin", "Corella", "Cortes", "Dagohoy", "Danao",
+      "Dauis", "Dimiao", "Duero", "Garcia Hernandez", "Getafe", "Guindulman", "Inabanga", "Jagna", "Lila", "Loay",
+      "Loboc", "Loon", "Mabini", "Maribojoc", "Panglao", "Pilar", "President Carlos P. Garcia", "Sagbayan",
+      "San Isidro", "San Miguel", "Sevilla", "Sierra Bullones", "Sikatuna", "Talibon", "Trinidad", "Tubigon", "Ubay",
+      "Valencia",
+    ],
+  },
+  Bukidnon: {
+    cities: ["Malaybalay", "Valencia"],
+    municipalities: [
+      "Baungon", "Cabanglasan", "Damulog", "Dangcagan", "Don Carlos", "Impasug-ong", "Kadingilan", "Kalilangan",
+      "Kibawe", "Kitaotao", "Lantapan", "Libona", "Malitbog", "Manolo Fortich", "Maramag", "Pangantucan", "Quezon",
+      "San Fernando", "Sumilao", "Talakag",
+    ],
+  },
+  Bulacan: {
+    cities: ["Baliwag", "Malolos", "Meycauayan", "San Jose del Monte"],
+    municipalities: [
+      "Angat", "Balagtas", "Bocaue", "Bulacan", "Bustos", "Calumpit", "Doña Remedios Trinidad", "Guiguinto",
+      "Hagonoy", "Marilao", "Norzagaray", "Obando", "Pandi", "Paombong", "Plaridel", "Pulilan", "San Ildefonso",
+      "San Miguel", "San Rafael", "Santa Maria",
+    ],
+  },
+  Cagayan: {
+    cities: ["Tuguegarao"],
+    municipalities: [
+      "Abulug", "Alcala", "Allacapan", "Amulung", "Aparri", "Baggao", "Ballesteros", "Buguey", "Calayan",
+      "Camalaniugan", "Claveria", "Enrile", "Gattaran", "Gonzaga", "Iguig", "Lal-Lo", "Lasam", "Pamplona",
+      "Peñablanca", "Piat", "Rizal", "Sanchez-Mira", "Santa Ana", "Santa Praxedes", "Santa Teresita", "Santo Niño",
+      "Solana", "Tuao",
+    ],
+  },
+  "Camarines Norte": {
+    cities: [],
+    municipalities: [
+      "Basud", "Capalonga", "Daet", "Jose Panganiban", "Labo", "Mercedes", "Paracale", "San Lorenzo Ruiz",
+      "San Vicente", "Santa Elena", "Talisay", "Vinzons",
+    ],
+  },
+  "Camarines Sur": {
+    cities: ["Iriga", "Naga"],
+    municipalities: [
+      "Baao", "Balatan", "Bato", "Bombon", "Buhi", "Bula", "Cabusao", "Calabanga", "Camaligan", "Canaman", "Caramoan",
+      "Del Gallego", "Gainza", "Garchitorena", "Goa", "Lagonoy", "Libmanan", "Lupi", "Magarao", "Milaor", "Minalabac",
+      "Nabua", "Ocampo", "Pamplona", "Pasacao", "Pili", "Presentacion", "Ragay", "Sagñay", "San Fernando", "San Jose",
+      "Sipocot", "Siruma", "Tigaon", "Tinambac",
+    ],
+  },
+  Camiguin: {
+    cities: [],
+    municipalities: ["Catarman", "Guinsiliban", "Mahinog", "Mambajao", "Sagay"],
+  },
+  Capiz: {
+    cities: ["Roxas"],
+    municipalities: [
+      "Cuartero", "Dao", "Dumalag", "Dumarao", "Ivisan", "Jamindan", "Ma-Ayon", "Mambusao", "Panay", "Panitan",
+      "Pilar", "Pontevedra", "President Roxas", "Sapi-An", "Sigma", "Tapaz",
+    ],
+  },
+  Catanduanes: {
+    cities: [],
+    municipalities: [
+      "Bagamanoc", "Baras", "Bato", "Caramoran", "Gigmoto", "Pandan", "Panganiban", "San Andres", "San Miguel",
+      "Viga", "Virac",
+    ],
+  },
+  Cavite: {
+    cities: [
+      "Bacoor", "Carmona", "Cavite", "Dasmariñas", "General Trias", "Imus", "Tagaytay", "Trece Martires",
+    ],
+    municipalities: [
+      "Alfonso", "Amadeo", "Gen. Mariano Alvarez", "General Emilio Aguinaldo", "Indang", "Kawit", "Magallanes",
+      "Maragondon", "Mendez", "Naic", "Noveleta", "Rosario", "Silang", "Tanza", "Ternate",
+    ],
+  },
+  Cebu: {
+    cities: ["Bogo", "Carcar", "Danao", "Naga", "Talisay", "Toledo"],
+    municipalities: [
+      "Alcantara", "Alcoy", "Alegria", "Aloguinsan", "Argao", "Asturias", "Badian", "Balamban", "Bantayan", "Barili",
+      "Boljoon", "Borbon", "Carmen", "Catmon", "Compostela", "Consolacion", "Cordova", "Daanbantayan", "Dalaguete",
+      "Dumanjug", "Ginatilan", "Liloan", "Madridejos", "Malabuyoc", "Medellin", "Minglanilla", "Moalboal", "Oslob",
+      "Pilar", "Pinamungajan", "Poro", "Ronda", "Samboan", "San Fernando", "San Francisco", "San Remigio", "Santa Fe",
+      "Santander", "Sibonga", "Sogod", "Tabogon", "Tabuelan", "Tuburan", "Tudela",
+    ],
+  },
+  Cotabato: {
+    cities: ["Kidapawan"],
+    municipalities: [
+      "Alamada", "Aleosan", "Antipas", "Arakan", "Banisilan", "Carmen", "Kabacan", "Libungan", "M'Lang", "Magpet",
+      "Makilala", "Matalam", "Midsayap", "Pigkawayan", "Pikit", "President Roxas", "Tulunan",
+    ],
+  },
+  "Davao Occidental": {
+    cities: [],
+    municipalities: ["Don Marcelino", "Jose Abad Santos", "Malita", "Santa Maria", "Sarangani"],
+  },
+  "Davao Oriental": {
+    cities: ["Mati"],
+    municipalities: [
+      "Baganga", "Banaybanay", "Boston", "Caraga", "Cateel", "Governor Generoso", "Lupon", "Manay", "San Isidro",
+      "Tarragona",
+    ],
+  },
+  "Davao de Oro": {
+    cities: [],
+    municipalities: [
+      "Compostela", "Laak", "Mabini", "Maco", "Maragusan", "Mawab", "Monkayo", "Montevista", "Nabunturan",
+      "New Bataan", "Pantukan",
+    ],
+  },
+  "Davao del Norte": {
+    cities: ["Panabo", "Tagum"],
+    municipalities: [
+      "Asuncion", "Braulio E. Dujali", "Carmen", "Island Garden City of Samal", "Kapalong", "New Corella",
+      "San Isidro", "Santo Tomas", "Talaingod",
+    ],
+  },
+  "Davao del Sur": {
+    cities: ["Digos"],
+    municipalities: [
+      "Bansalan", "Hagonoy", "Kiblawan", "Magsaysay", "Malalag", "Matanao", "Padada", "Santa Cruz", "Sulop",
+    ],
+  },
+  "Dinagat Islands": {
+    cities: [],
+    municipalities: ["Basilisa", "Cagdianao", "Dinagat", "Libjo", "Loreto", "San Jose", "Tubajon"],
+  },
+  "Eastern Samar": {
+    cities: ["Borongan"],
+    municipalities: [
+      "Arteche", "Balangiga", "Balangkayan", "Can-Avid", "Dolores", "General Macarthur", "Giporlos", "Guiuan",
+      "Hernani", "Jipapad", "Lawaan", "Llorente", "Maslog", "Maydolong", "Mercedes", "Oras", "Quinapondan", "Salcedo",
+      "San Julian", "San Policarpo", "Sulat", "Taft",
+    ],
+  },
+  Guimaras: {
+    cities: [],
+    municipalities: ["Buenavista", "Jordan", "Nueva Valencia", "San Lorenzo", "Sibunag"],
+  },
+  Ifugao: {
+    cities: [],
+    municipalities: [
+      "Aguinaldo", "Alfonso Lista", "Asipulo", "Banaue", "Hingyon", "Hungduan", "Kiangan", "Lagawe", "Lamut",
+      "Mayoyao", "Tinoc",
+    ],
+  },
+  "Ilocos Norte": {
+    cities: ["Batac", "Laoag"],
+    municipalities: [
+      "Adams", "Bacarra", "Badoc", "Bangui", "Banna", "Burgos", "Carasi", "Currimao", "Dingras", "Dumalneg", "Marcos",
+      "Nueva Era", "Pagudpud", "Paoay", "Pasuquin", "Piddig", "Pinili", "San Nicolas", "Sarrat", "Solsona", "Vintar",
+    ],
+  },
+  "Ilocos Sur": {
+    cities: ["Candon", "Vigan"],
+    municipalities: [
+      "Alilem", "Banayoyo", "Bantay", "Burgos", "Cabugao", "Caoayan", "Cervantes", "Galimuyod", "Gregorio del Pilar",
+      "Lidlidda", "Magsingal", "Nagbukel", "Narvacan", "Quirino", "Salcedo", "San Emilio", "San Esteban",
+      "San Ildefonso", "San Juan", "San Vicente", "Santa", "Santa Catalina", "Santa Cruz", "Santa Lucia",
+      "Santa Maria", "Santiago", "Santo Domingo", "Sigay", "Sinait", "Sugpon", "Suyo", "Tagudin",
+    ],
+  },
+  Iloilo: {
+    cities: ["Passi"],
+    municipalities: [
+      "Ajuy", "Alimodian", "Anilao", "Badiangan", "Balasan", "Banate", "Barotac Nuevo", "Barotac Viejo", "Batad",
+      "Bingawan", "Cabatuan", "Calinog", "Carles", "Concepcion", "Dingle", "Dueñas", "Dumangas", "Estancia",
+      "Guimbal", "Igbaras", "Janiuay", "Lambunao", "Leganes", "Lemery", "Leon", "Maasin", "Miagao", "Mina",
+      "New Lucena", "Oton", "Pavia", "Pototan", "San Dionisio", "San Enrique", "San Joaquin", "San Miguel",
+      "San Rafael", "Santa Barbara", "Sara", "Tigbauan", "Tubungan", "Zarraga",
+    ],
+  },
+  Isabela: {
+    cities: ["Cauayan", "Ilagan", "Santiago"],
+    municipalities: [
+      "Alicia", "Angadanan", "Aurora", "Benito Soliven", "Burgos", "Cabagan", "Cabatuan", "Cordon", "Delfin Albano",
+      "Dinapigue", "Divilacan", "Echague", "Gamu", "Jones", "Luna", "Maconacon", "Mallig", "Naguilian", "Palanan",
+      "Quezon", "Quirino", "Ramon", "Reina Mercedes", "Roxas", "San Agustin", "San Guillermo", "San Isidro",
+      "San Manuel", "San Mariano", "San Mateo", "San Pablo", "Santa Maria", "Santo Tomas", "Tumauini",
+    ],
+  },
+  Kalinga: {
+    cities: ["Tabuk"],
+    municipalities: ["Balbalan", "Lubuagan", "Pasil", "Pinukpuk", "Rizal", "Tanudan", "Tinglayan"],
+  },
+  "La Union": {
+    cities: ["San Fernando"],
+    municipalities: [
+      "Agoo", "Aringay", "Bacnotan", "Bagulin", "Balaoan", "Bangar", "Bauang", "Burgos", "Caba", "Luna", "Naguilian",
+      "Pugo", "Rosario", "San Gabriel", "San Juan", "Santo Tomas", "Santol", "Sudipen", "Tubao",
+    ],
+  },
+  Laguna: {
+    cities: ["Biñan", "Cabuyao", "Calamba", "San Pablo", "San Pedro", "Santa Rosa"],
+    municipalities: [
+      "Alaminos", "Bay", "Calauan", "Cavinti", "Famy", "Kalayaan", "Liliw", "Los Baños", "Luisiana", "Lumban",
+      "Mabitac", "Magdalena", "Majayjay", "Nagcarlan", "Paete", "Pagsanjan", "Pakil", "Pangil", "Pila", "Rizal",
+      "Santa Cruz", "Santa Maria", "Siniloan", "Victoria",
+    ],
+  },
+  "Lanao del Norte": {
+    cities: [],
+    municipalities: [
+      "Bacolod", "Baloi", "Baroy", "Kapatagan", "Kauswagan", "Kolambugan", "Lala", "Linamon", "Magsaysay", "Maigo",
+      "Matungao", "Munai", "Nunungan", "Pantao Ragat", "Pantar", "Poona Piagapo", "Salvador", "Sapad",
+      "Sultan Naga Dimaporo", "Tagoloan", "Tangcal", "Tubod",
+    ],
+  },
+  "Lanao del Sur": {
+    cities: ["Marawi"],
+    municipalities: [
+      "Amai Manabilang", "Bacolod-Kalawi", "Balabagan", "Balindong", "Bayang", "Binidayan", "Buadiposo-Buntong",
+      "Bubong", "Butig", "Calanogas", "Ditsaan-Ramain", "Ganassi", "Kapai", "Kapatagan", "Lumba-Bayabao",
+      "Lumbaca-Unayan", "Lumbatan", "Lumbayanague", "Madalum", "Madamba", "Maguing", "Malabang", "Marantao",
+      "Marogong", "Masiu", "Mulondo", "Pagayawan", "Piagapo", "Picong", "Poona Bayabao", "Pualas", "Saguiaran",
+      "Sultan Dumalondong", "Tagoloan Ii", "Tamparan", "Taraka", "Tubaran", "Tugaya", "Wao",
+    ],
+  },
+  Leyte: {
+    cities: ["Baybay", "Ormoc"],
+    municipalities: [
+      "Abuyog", "Alangalang", "Albuera", "Babatngon", "Barugo", "Bato", "Burauen", "Calubian", "Capoocan", "Carigara",
+      "Dagami", "Dulag", "Hilongos", "Hindang", "Inopacan", "Isabel", "Jaro", "Javier", "Julita", "Kananga", "La Paz",
+      "Leyte", "Macarthur", "Mahaplag", "Matag-Ob", "Matalom", "Mayorga", "Merida", "Palo", "Palompon", "Pastrana",
+      "San Isidro", "San Miguel", "Santa Fe", "Tabango", "Tabontabon", "Tanauan", "Tolosa", "Tunga", "Villaba",
+    ],
+  },
+  "Maguindanao del Norte": {
+    cities: ["Cotabato"],
+    municipalities: [
+      "Barira", "Buldon", "Datu Blah T. Sinsuat", "Datu Odin Sinsuat", "Kabuntalan", "Matanog", "Northern Kabuntalan",
+      "Parang", "Sultan Kudarat", "Sultan Mastura", "Talitay", "Upi",
+    ],
+  },
+  "Maguindanao del Sur": {
+    cities: [],
+    municipalities: [
+      "Ampatuan", "Buluan", "Datu Abdullah Sangki", "Datu Anggal Midtimbang", "Datu Hoffer Ampatuan", "Datu Paglas",
+      "Datu Piang", "Datu Salibo", "Datu Saudi Ampatuan", "Datu Unsay", "Gen. S.K. Pendatun", "Guindulungan",
+      "Mamasapano", "Mangudadatu", "Pagagawan", "Pagalungan", "Paglat", "Pandag", "Rajah Buayan", "Shariff Aguak",
+      "Shariff Saydona Mustapha", "South Upi", "Sultan Sa Barongis", "Talayan",
+    ],
+  },
+  Marinduque: {
+    cities: [],
+    municipalities: ["Boac", "Buenavista", "Gasan", "Mogpog", "Santa Cruz", "Torrijos"],
+  },
+  Masbate: {
+    cities: ["Masbate"],
+    municipalities: [
+      "Aroroy", "Baleno", "Balud", "Batuan", "Cataingan", "Cawayan", "Claveria", "Dimasalang", "Esperanza", "Mandaon",
+      "Milagros", "Mobo", "Monreal", "Palanas", "Pio V. Corpus", "Placer", "San Fernando", "San Jacinto",
+      "San Pascual", "Uson",
+    ],
+  },
+  "Misamis Occidental": {
+    cities: ["Oroquieta", "Ozamiz", "Tangub"],
+    municipalities: [
+      "Aloran", "Baliangao", "Bonifacio", "Calamba", "Clarin", "Concepcion", "Don Victoriano Chiongbian", "Jimenez",
+      "Lopez Jaena", "Panaon", "Plaridel", "Sapang Dalaga", "Sinacaban", "Tudela",
+    ],
+  },
+  "Misamis Oriental": {
+    cities: ["El Salvador", "Gingoog"],
+    municipalities: [
+      "Alubijid", "Balingasag", "Balingoan", "Binuangan", "Claveria", "Gitagum", "Initao", "Jasaan", "Kinoguitan",
+      "Lagonglong", "Laguindingan", "Libertad", "Lugait", "Magsaysay", "Manticao", "Medina", "Naawan", "Opol",
+      "Salay", "Sugbongcogon", "Tagoloan", "Talisayan", "Villanueva",
+    ],
+  },
+  "Mountain Province": {
+    cities: [],
+    municipalities: [
+      "Barlig", "Bauko", "Besao", "Bontoc", "Natonin", "Paracelis", "Sabangan", "Sadanga", "Sagada", "Tadian",
+    ],
+  },
+  "Negros Occidental": {
+    cities: [
+      "Bago", "Cadiz", "Escalante", "Himamaylan", "Kabankalan", "La Carlota", "Sagay", "San Carlos", "Silay",
+      "Sipalay", "Talisay", "Victorias",
+    ],
+    municipalities: [
+      "Binalbagan", "Calatrava", "Candoni", "Cauayan", "Enrique B. Magalona", "Hinigaran", "Hinoba-an", "Ilog",
+      "Isabela", "La Castellana", "Manapla", "Moises Padilla", "Murcia", "Pontevedra", "Pulupandan",
+      "Salvador Benedicto", "San Enrique", "Toboso", "Valladolid",
+    ],
+  },
+  "Negros Oriental": {
+    cities: ["Bais", "Bayawan", "Canlaon", "Dumaguete", "Guihulngan", "Tanjay"],
+    municipalities: [
+      "Amlan", "Ayungon", "Bacong", "Basay", "Bindoy", "Dauin", "Jimalalud", "La Libertad", "Mabinay", "Manjuyod",
+      "Pamplona", "San Jose", "Santa Catalina", "Siaton", "Sibulan", "Tayasan", "Valencia", "Vallehermoso",
+      "Zamboanguita",
+    ],
+  },
+  "Northern Samar": {
+    cities: [],
+    municipalities: [
+      "Allen", "Biri", "Bobon", "Capul", "Catarman", "Catubig", "Gamay", "Laoang", "Lapinig", "Las Navas",
+      "Lavezares", "Lope de Vega", "Mapanas", "Mondragon", "Palapag", "Pambujan", "Rosario", "San Antonio",
+      "San Isidro", "San Jose", "San Roque", "San Vicente", "Silvino Lobos", "Victoria",
+    ],
+  },
+  "Nueva Ecija": {
+    cities: ["Cabanatuan", "Gapan", "Palayan", "San Jose"],
+    municipalities: [
+      "Aliaga", "Bongabon", "Cabiao", "Carranglan", "Cuyapo", "Gabaldon", "General Mamerto Natividad",
+      "General Tinio", "Guimba", "Jaen", "Laur", "Licab", "Llanera", "Lupao", "Nampicuan", "Pantabangan", "Peñaranda",
+      "Quezon", "Rizal", "San Antonio", "San Isidro", "San Leonardo", "Santa Rosa", "Santo Domingo",
+      "Science City of Muñoz", "Talavera", "Talugtug", "Zaragoza",
+    ],
+  },
+  "Nueva Vizcaya": {
+    cities: [],
+    municipalities: [
+      "Alfonso Castaneda", "Ambaguio", "Aritao", "Bagabag", "Bambang", "Bayombong", "Diadi", "Dupax del Norte",
+      "Dupax del Sur", "Kasibu", "Kayapa", "Quezon", "Santa Fe", "Solano", "Villaverde",
+    ],
+  },
+  "Occidental Mindoro": {
+    cities: [],
+    municipalities: [
+      "Abra de Ilog", "Calintaan", "Looc", "Lubang", "Magsaysay", "Mamburao", "Paluan", "Rizal", "Sablayan",
+      "San Jose", "Santa Cruz",
+    ],
+  },
+  "Oriental Mindoro": {
+    cities: ["Calapan"],
+    municipalities: [
+      "Baco", "Bansud", "Bongabong", "Bulalacao", "Gloria", "Mansalay", "Naujan", "Pinamalayan", "Pola",
+      "Puerto Galera", "Roxas", "San Teodoro", "Socorro", "Victoria",
+    ],
+  },
+  Palawan: {
+    cities: [],
+    municipalities: [
+      "Aborlan", "Agutaya", "Araceli", "Balabac", "Bataraza", "Brooke's Point", "Busuanga", "Cagayancillo", "Coron",
+      "Culion", "Cuyo", "Dr. Jose P. Rizal", "Dumaran", "El Nido", "Kalayaan", "Linapacan", "Magsaysay", "Narra",
+      "Quezon", "Roxas", "San Vicente", "Sofronio Española", "Taytay",
+    ],
+  },
+  Pampanga: {
+    cities: ["Mabalacat", "San Fernando"],
+    municipalities: [
+      "Apalit", "Arayat", "Bacolor", "Candaba", "Floridablanca", "Guagua", "Lubao", "Macabebe", "Magalang",
+      "Masantol", "Mexico", "Minalin", "Porac", "San Luis", "San Simon", "Santa Ana", "Santa Rita", "Sasmuan",
+      "Sto. Tomas",
+    ],
+  },
+  Pangasinan: {
+    cities: ["Alaminos", "Dagupan", "San Carlos", "Urdaneta"],
+    municipalities: [
+      "Agno", "Aguilar", "Alcala", "Anda", "Asingan", "Balungao", "Bani", "Basista", "Bautista", "Bayambang",
+      "Binalonan", "Binmaley", "Bolinao", "Bugallon", "Burgos", "Calasiao", "Dasol", "Infanta", "Labrador", "Laoac",
+      "Lingayen", "Mabini", "Malasiqui", "Manaoag", "Mangaldan", "Mangatarem", "Mapandan", "Natividad", "Pozorrubio",
+      "Rosales", "San Fabian", "San Jacinto", "San Manuel", "San Nicolas", "San Quintin", "Santa Barbara",
+      "Santa Maria", "Santo Tomas", "Sison", "Sual", "Tayug", "Umingan", "Urbiztondo", "Villasis",
+    ],
+  },
+  Quezon: {
+    cities: ["Tayabas"],
+    municipalities: [
+      "Agdangan", "Alabat", "Atimonan", "Buenavista", "Burdeos", "Calauag", "Candelaria", "Catanauan", "Dolores",
+      "General Luna", "General Nakar", "Guinayangan", "Gumaca", "Infanta", "Jomalig", "Lopez", "Lucban", "Macalelon",
+      "Mauban", "Mulanay", "Padre Burgos", "Pagbilao", "Panukulan", "Patnanungan", "Perez", "Pitogo", "Plaridel",
+      "Polillo", "Quezon", "Real", "Sampaloc", "San Andres", "San Antonio", "San Francisco", "San Narciso", "Sariaya",
+      "Tagkawayan", "Tiaong", "Unisan",
+    ],
+  },
+  Quirino: {
+    cities: [],
+    municipalities: ["Aglipay", "Cabarroguis", "Diffun", "Maddela", "Nagtipunan", "Saguday"],
+  },
+  Rizal: {
+    cities: ["Antipolo"],
+    municipalities: [
+      "Angono", "Baras", "Binangonan", "Cainta", "Cardona", "Jala-Jala", "Morong", "Pililla", "Rodriguez",
+      "San Mateo", "Tanay", "Taytay", "Teresa",
+    ],
+  },
+  Romblon: {
+    cities: [],
+    municipalities: [
+      "Alcantara", "Banton", "Cajidiocan", "Calatrava", "Concepcion", "Corcuera", "Ferrol", "Looc", "Magdiwang",
+      "Odiongan", "Romblon", "San Agustin", "San Andres", "San Fernando", "San Jose", "Santa Fe", "Santa Maria",
+    ],
+  },
+  Samar: {
+    cities: ["Calbayog", "Catbalogan"],
+    municipalities: [
+      "Almagro", "Basey", "Calbiga", "Daram", "Gandara", "Hinabangan", "Jiabong", "Marabut", "Matuguinao", "Motiong",
+      "Pagsanghan", "Paranas", "Pinabacdao", "San Jorge", "San Jose de Buan", "San Sebastian", "Santa Margarita",
+      "Santa Rita", "Santo Niño", "Tagapul-An", "Talalora", "Tarangnan", "Villareal", "Zumarraga",
+    ],
+  },
+  Sarangani: {
+    cities: [],
+    municipalities: ["Alabel", "Glan", "Kiamba", "Maasim", "Maitum", "Malapatan", "Malungon"],
+  },
+  Siquijor: {
+    cities: [],
+    municipalities: ["Enrique Villanueva", "Larena", "Lazi", "Maria", "San Juan", "Siquijor"],
+  },
+  Sorsogon: {
+    cities: ["Sorsogon"],
+    municipalities: [
+      "Barcelona", "Bulan", "Bulusan", "Casiguran", "Castilla", "Donsol", "Gubat", "Irosin", "Juban", "Magallanes",
+      "Matnog", "Pilar", "Prieto Diaz", "Santa Magdalena",
+    ],
+  },
+  "South Cotabato": {
+    cities: ["Koronadal"],
+    municipalities: [
+      "Banga", "Lake Sebu", "Norala", "Polomolok", "Santo Niño", "Surallah", "T'Boli", "Tampakan", "Tantangan",
+      "Tupi",
+    ],
+  },
+  "Southern Leyte": {
+    cities: ["Maasin"],
+    municipalities: [
+      "Anahawan", "Bontoc", "Hinunangan", "Hinundayan", "Libagon", "Liloan", "Limasawa", "Macrohon", "Malitbog",
+      "Padre Burgos", "Pintuyan", "Saint Bernard", "San Francisco", "San Juan", "San Ricardo", "Silago", "Sogod",
+      "Tomas Oppus",
+    ],
+  },
+  "Sultan Kudarat": {
+    cities: ["Tacurong"],
+    municipalities: [
+      "Bagumbayan", "Columbio", "Esperanza", "Isulan", "Kalamansig", "Lambayong", "Lebak", "Lutayan", "Palimbang",
+      "President Quirino", "Sen. Ninoy Aquino",
+    ],
+  },
+  Sulu: {
+    cities: [],
+    municipalities: [
+      "Hadji Panglima Tahil", "Indanan", "Jolo", "Kalingalan Caluang", "Lugus", "Luuk", "Maimbung", "Old Panamao",
+      "Omar", "Pandami", "Panglima Estino", "Pangutaran", "Parang", "Pata", "Patikul", "Siasi", "Talipao", "Tapul",
+      "Tongkil",
+    ],
+  },
+  "Surigao del Norte": {
+    cities: ["Surigao"],
+    municipalities: [
+      "Alegria", "Bacuag", "Burgos", "Claver", "Dapa", "Del Carmen", "General Luna", "Gigaquit", "Mainit", "Malimono",
+      "Pilar", "Placer", "San Benito", "San Francisco", "San Isidro", "Santa Monica", "Sison", "Socorro", "Tagana-An",
+      "Tubod",
+    ],
+  },
+  "Surigao del Sur": {
+    cities: ["Bislig", "Tandag"],
+    municipalities: [
+      "Barobo", "Bayabas", "Cagwait", "Cantilan", "Carmen", "Carrascal", "Cortes", "Hinatuan", "Lanuza", "Lianga",
+      "Lingig", "Madrid", "Marihatag", "San Agustin", "San Miguel", "Tagbina", "Tago",
+    ],
+  },
+  Tarlac: {
+    cities: ["Tarlac"],
+    municipalities: [
+      "Anao", "Bamban", "Camiling", "Capas", "Concepcion", "Gerona", "La Paz", "Mayantoc", "Moncada", "Paniqui",
+      "Pura", "Ramos", "San Clemente", "San Jose", "San Manuel", "Santa Ignacia", "Victoria",
+    ],
+  },
+  "Tawi-Tawi": {
+    cities: [],
+    municipalities: [
+      "Bongao", "Languyan", "Mapun", "Panglima Sugala", "Sapa-Sapa", "Sibutu", "Simunul", "Sitangkai", "South Ubian",
+      "Tandubas", "Turtle Islands",
+    ],
+  },
+  Zambales: {
+    cities: [],
+    municipalities: [
+      "Botolan", "Cabangan", "Candelaria", "Castillejos", "Iba", "Masinloc", "Palauig", "San Antonio", "San Felipe",
+      "San Marcelino", "San Narciso", "Santa Cruz", "Subic",
+    ],
+  },
+  "Zamboanga Sibugay": {
+    cities: [],
+    municipalities: [
+      "Alicia", "Buug", "Diplahan", "Imelda", "Ipil", "Kabasalan", "Mabuhay", "Malangas", "Naga", "Olutanga", "Payao",
+      "Roseller Lim", "Siay", "Talusan", "Titay", "Tungawan",
+    ],
+  },
+  "Zamboanga del Norte": {
+    cities: ["Dapitan", "Dipolog"],
+    municipalities: [
+      "Baliguian", "Godod", "Gutalac", "Jose Dalman", "Kalawit", "Katipunan", "La Libertad", "Labason",
+      "Leon T. Postigo", "Liloy", "Manukan", "Mutia", "Piñan", "Polanco", "Pres. Manuel A. Roxas", "Rizal", "Salug",
+      "Sergio Osmeña Sr.", "Siayan", "Sibuco", "Sibutad", "Sindangan", "Siocon", "Sirawai", "Tampilisan",
+    ],
+  },
+  "Zamboanga del Sur": {
+    cities: ["Pagadian"],
+    municipalities: [
+      "Aurora", "Bayog", "Dimataling", "Dinas", "Dumalinao", "Dumingag", "Guipos", "Josefina", "Kumalarang",
+      "Labangan", "Lakewood", "Lapuyan", "Mahayag", "Margosatubig", "Midsalip", "Molave", "Pitogo", "Ramon Magsaysay",
+      "San Miguel", "San Pablo", "Sominot", "Tabina", "Tambulig", "Tigbao", "Tukuran", "Vincenzo A. Sagun",
+    ],
+  },
+}
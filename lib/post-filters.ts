@@ -0,0 +1,133 @@
+import type { Post, PostListParams, PostStatus } from "@/lib/api/types"
+
+export type StatusFilter = "all" | PostStatus
+export type PartyListManagedFilter = "any" | "managed" | "unmanaged"
+export type PostSort = NonNullable<PostListParams["sort"]>
+
+export interface PostFilters {
+  status: StatusFilter
+  /** Free text matched against name, bio, platform and submitter email. */
+  q: string
+  level: string
+  position: string
+  party: string
+  partyListManaged: PartyListManagedFilter
+  /** Inclusive `YYYY-MM-DD` bounds on `created_at`. */
+  from: string
+  to: string
+  sort: PostSort
+}
+
+export const DEFAULT_FILTERS: PostFilters = {
+  status: "pending",
+  q: "",
+  level: "",
+  position: "",
+  party: "",
+  partyListManaged: "any",
+  from: "",
+  to: "",
+  sort: "newest",
+}
+
+export const SORT_LABELS: Record<PostSort, string> = {
+  newest: "Newest first",
+  oldest: "Oldest first",
+  oldest_pending: "Oldest pending first",
+  name: "Name (A–Z)",
+  risk: "Highest risk first",
+}
+
+export const STATUS_LABELS: Record<PostStatus, string> = {
+  pending: "Pending",
+  approved: "Approved",
+  rejected: "Rejected",
+  needs_revision: "Needs revision",
+}
+
+const STATUS_VALUES: StatusFilter[] = ["all", "pending", "needs_revision", "approved", "rejected"]
+const MANAGED_VALUES: PartyListManagedFilter[] = ["any", "managed", "unmanaged"]
+const SORT_VALUES = Object.keys(SORT_LABELS) as PostSort[]
+
+// URL parameter names; `partyListManaged` is shortened to keep shared links readable
+const PARAM_NAMES: Record<keyof PostFilters, string> = {
+  status: "status",
+  q: "q",
+  level: "level",
+  position: "position",
+  party: "party",
+  partyListManaged: "pl",
+  from: "from",
+  to: "to",
+  sort: "sort",
+}
+
+function pick<T extends string>(value: string | null, allowed: T[], fallback: T): T {
+  return value && (allowed as string[]).includes(value) ? (value as T) : fallback
+}
+
+function pickDate(value: string | null) {
+  return value && /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : ""
+}
+
+export function parseFilters(params: URLSearchParams): PostFilters {
+  const get = (key: keyof PostFilters) => params.get(PARAM_NAMES[key])
+  return {
+    status: pick(get("status"), STATUS_VALUES, DEFAULT_FILTERS.status),
+    q: get("q") ?? "",
+    level: get("level") ?? "",
+    position: get("position") ?? "",
+    party: get("party") ?? "",
+    partyListManaged: pick(get("partyListManaged"), MANAGED_VALUES, DEFAULT_FILTERS.partyListManaged),
+    from: pickDate(get("from")),
+    to: pickDate(get("to")),
+    sort: pick(get("sort"), SORT_VALUES, DEFAULT_FILTERS.sort),
+  }
+}
+
+/** Only non-default values are written, so the default view has a clean URL. */
+export function serializeFilters(filters: PostFilters) {
+  const params = new URLSearchParams()
+  for (const key of Object.keys(PARAM_NAMES) as Array<keyof PostFilters>) {
+    const value = filters[key].trim()
+    if (value !== DEFAULT_FILTERS[key]) {
+      params.set(PARAM_NAMES[key], value)
+    }
+  }
+  return params
+}
+
+/** True when anything beyond the status tab narrows the list. */
+export function hasActiveFacets(filters: PostFilters) {
+  return (Object.keys(DEFAULT_FILTERS) as Array<keyof PostFilters>).some(
+    (key) => key !== "status" && key !== "sort" && filters[key] !== DEFAULT_FILTERS[key],
+  )
+}
+
+/** Maps the dashboard filters onto the `GET /admin/posts` query; status is handled by the caller. */
+export function toPostListParams(filters: PostFilters): PostListParams {
+  return {
+    q: filters.q.trim() || undefined,
+    level: filters.level || undefined,
+    position: filters.position || undefined,
+    party: filters.party || undefined,
+    party_list_managed: filters.partyListManaged === "any" ? undefined : filters.partyListManaged,
+    from: filters.from || undefined,
+    to: filters.to || undefined,
+    sort: filters.sort,
+  }
+}
+
+/**
+ * Whether a post pushed by the live events stream could belong in the current
+ * list. Only status and the exact-match facets are checked; search text and
+ * dates are left to the backend on the next fetch.
+ */
+export function mayMatchFilters(post: Post, filters: PostFilters) {
+  return (
+    (filters.status === "all" || post.status === filters.status) &&
+    (!filters.level || post.level === filters.level) &&
+    (!filters.position || post.position === filters.position) &&
+    (!filters.party || post.party === filters.party)
+  )
+}
@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest"
+import { getSafeRedirect } from "@/lib/redirect"
+
+const ORIGIN = "https://admin.example.com"
+
+describe("getSafeRedirect", () => {
+  const cases: Array<[string | null, string]> = [
+    [null, "/"],
+    ["", "/"],
+    ["/posts/12?tab=history#notes", "/posts/12?tab=history#notes"],
+    ["/audit", "/audit"],
+    [`${ORIGIN}/registry`, "/registry"],
+    ["/\\evil.com", "/"],
+    ["//evil.com", "/"],
+    ["https://evil.com", "/"],
+    ["https://admin.example.com.evil.com/", "/"],
+    ["javascript:alert(1)", "/"],
+  ]
+
+  it.each(cases)("sends %j to %j", (next, target) => {
+    expect(getSafeRedirect(next, ORIGIN)).toBe(target)
+  })
+})
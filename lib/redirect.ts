@@ -0,0 +1,14 @@
+/**
+ * Where to send the admin after signing in: `next` when it stays on
+ * `origin`, "/" otherwise. Parsing it as a URL catches paths browsers turn
+ * into another host, like "/\evil.com" becoming "//evil.com".
+ */
+export function getSafeRedirect(next: string | null, origin: string) {
+  if (!next) return "/"
+  try {
+    const url = new URL(next, origin)
+    return url.origin === origin ? `${url.pathname}${url.search}${url.hash}` : "/"
+  } catch {
+    return "/"
+  }
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest"
+import { parseCsv, parseRegistryFile } from "@/lib/registry-import"
+
+describe("parseCsv", () => {
+  const cases: Array<[string, string, string[][]]> = [
+    ["plain rows", "a,b\n1,2", [["a", "b"], ["1", "2"]]],
+    ["CRLF line endings", "a,b\r\n1,2\r\n", [["a", "b"], ["1", "2"]]],
+    ["a leading byte order mark", "\uFEFFa,b\n1,2", [["a", "b"], ["1", "2"]]],
+    ["commas inside quotes", 'name\n"Dela Cruz, Juan"', [["name"], ["Dela Cruz, Juan"]]],
+    ["doubled quotes", 'name\n"Juan ""JDC"" Dela Cruz"', [["name"], ['Juan "JDC" Dela Cruz']]],
+    ["newlines inside quotes", 'name,note\n"A","line one\r\nline two"', [["name", "note"], ["A", "line one\r\nline two"]]],
+    ["empty fields", "a,b,c\n,,", [["a", "b", "c"], ["", "", ""]]],
+    ["no trailing record after the last newline", "a\n1\n", [["a"], ["1"]]],
+  ]
+
+  it.each(cases)("handles %s", (_, text, records) => {
+    expect(parseCsv(text)).toEqual(records)
+  })
+})
+
+describe("parseRegistryFile", () => {
+  it("maps official header spellings and reports rows with errors", () => {
+    const text = "\uFEFFParty-List Name,Abbreviation,Sector\r\nAkbayan,AKBAYAN,\r\n,X,Labor\r\n\"Bayan Muna, Inc.\",BM,Labor\r\nakbayan,,\r\n"
+    const result = parseRegistryFile("party_lists", "export.csv", text)
+    expect(result.fileErrors).toEqual([])
+    expect(result.rows).toEqual([
+      { line: 2, values: { name: "Akbayan", acronym: "AKBAYAN", sector: null }, errors: [] },
+      { line: 3, values: { name: "", acronym: "X", sector: "Labor" }, errors: ["Name is required"] },
+      { line: 4, values: { name: "Bayan Muna, Inc.", acronym: "BM", sector: "Labor" }, errors: [] },
+      { line: 5, values: { name: "akbayan", acronym: null, sector: null }, errors: ["Duplicate of line 2"] },
+    ])
+  })
+
+  it("lets candidates share a name across different races", () => {
+    const text = "Candidate Name,Office,Level\nJuan Dela Cruz,Mayor,Municipal\nJuan Dela Cruz,Governor,Provincial\nJuan Dela Cruz,mayor,Municipal"
+    const result = parseRegistryFile("candidates", "candidates.csv", text)
+    expect(result.rows.map((row) => row.errors)).toEqual([[], [], ["Duplicate of line 2"]])
+  })
+
+  it("reports a missing required column", () => {
+    expect(parseRegistryFile("candidates", "candidates.csv", "name,level\nJuan,National").fileErrors).toEqual([
+      'Missing a "Position" column',
+    ])
+  })
+
+  it("reads JSON arrays and keyed objects", () => {
+    const rows = [{ "Party List": "Akbayan", acronym: null }]
+    const asArray = parseRegistryFile("party_lists", "export.json", JSON.stringify(rows))
+    const asObject = parseRegistryFile("party_lists", "export.txt", JSON.stringify({ party_lists: rows }))
+    const withBom = parseRegistryFile("party_lists", "export.json", "\uFEFF" + JSON.stringify(rows))
+    const expected = [{ line: 1, values: { name: "Akbayan", acronym: null, sector: null }, errors: [] }]
+    expect(asArray.rows).toEqual(expected)
+    expect(asObject.rows).toEqual(expected)
+    expect(withBom.rows).toEqual(expected)
+  })
+
+  it("reports JSON items that aren't rows instead of dropping them", () => {
+    const text = JSON.stringify([null, 42, "Akbayan", ["Akbayan"], { party: "Akbayan" }, { name: "" }, { name: "Akbayan" }])
+    expect(parseRegistryFile("party_lists", "export.json", text).rows.map(({ line, errors }) => [line, errors])).toEqual([
+      [1, ["Expected an object with the row's columns, got null"]],
+      [2, ["Expected an object with the row's columns, got a number"]],
+      [3, ["Expected an object with the row's columns, got a string"]],
+      [4, ["Expected an object with the row's columns, got an array"]],
+      [5, ['No recognized columns; expected "name", "acronym", "sector"']],
+      [6, ["Name is required"]],
+      [7, []],
+    ])
+  })
+
+  it("rejects JSON that isn't rows", () => {
+    expect(parseRegistryFile("party_lists", "export.json", "{").fileErrors).toEqual(["The file is not valid JSON"])
+    expect(parseRegistryFile("party_lists", "export.json", '{"candidates": []}').fileErrors).toEqual([
+      'Expected an array of rows or an object with a "party_lists" array',
+    ])
+  })
+})
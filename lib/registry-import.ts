@@ -0,0 +1,225 @@
+import type { RegistryKind, RegistryRows } from "@/lib/api"
+
+interface ColumnSpec<Row> {
+  field: keyof Row & string
+  label: string
+  required: boolean
+  /** Header spellings seen in official exports, normalized by `toHeaderKey`. */
+  headers: string[]
+}
+
+export const REGISTRY_COLUMNS: { [K in RegistryKind]: Array<ColumnSpec<RegistryRows[K]>> } = {
+  party_lists: [
+    { field: "name", label: "Name", required: true, headers: ["name", "party_list", "partylist", "party_list_name", "partylist_name", "organization"] },
+    { field: "acronym", label: "Acronym", required: false, headers: ["acronym", "abbreviation", "short_name"] },
+    { field: "sector", label: "Sector", required: false, headers: ["sector", "sectors", "sector_represented"] },
+  ],
+  candidates: [
+    { field: "name", label: "Name", required: true, headers: ["name", "full_name", "candidate", "candidate_name", "ballot_name"] },
+    { field: "position", label: "Position", required: true, headers: ["position", "office", "contest", "elective_position"] },
+    { field: "level", label: "Level", required: true, headers: ["level", "position_level"] },
+    { field: "party", label: "Party", required: false, headers: ["party", "party_list", "partylist", "political_party", "affiliation"] },
+    { field: "locality", label: "Locality", required: false, headers: ["locality", "area", "district", "city", "municipality", "province", "region"] },
+  ],
+}
+
+// Builds a row from its trimmed cells; typed per kind so the compiler checks every field
+type RowBuilder<K extends RegistryKind> = (cell: (field: keyof RegistryRows[K] & string) => string) => RegistryRows[K]
+
+const ROW_BUILDERS: { [K in RegistryKind]: RowBuilder<K> } = {
+  party_lists: (cell) => ({
+    name: cell("name"),
+    acronym: cell("acronym") || null,
+    sector: cell("sector") || null,
+  }),
+  candidates: (cell) => ({
+    name: cell("name"),
+    position: cell("position"),
+    level: cell("level"),
+    party: cell("party") || null,
+    locality: cell("locality") || null,
+  }),
+}
+
+export const REGISTRY_KIND_LABELS: Record<RegistryKind, string> = {
+  party_lists: "Party lists",
+  candidates: "Candidates",
+}
+
+export interface RegistryPreviewRow<K extends RegistryKind> {
+  /** Line in the CSV (the header is line 1) or 1-based index in the JSON array. */
+  line: number
+  values: RegistryRows[K]
+  errors: string[]
+}
+
+export interface RegistryParseResult<K extends RegistryKind> {
+  rows: Array<RegistryPreviewRow<K>>
+  /** Problems with the file as a whole, e.g. a missing required column. */
+  fileErrors: string[]
+}
+
+function toHeaderKey(header: string) {
+  return header.trim().toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "")
+}
+
+function toMatchKey(value: string) {
+  return value.trim().toLowerCase().replace(/[^a-z0-9]+/g, " ").trim()
+}
+
+/** RFC 4180: quoted fields may hold commas, newlines and doubled quotes. */
+export function parseCsv(text: string) {
+  const records: string[][] = []
+  let record: string[] = []
+  let field = ""
+  let inQuotes = false
+  const input = text.replace(/^\uFEFF/, "")
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ",") {
+      record.push(field)
+      field = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++
+      record.push(field)
+      records.push(record)
+      record = []
+      field = ""
+    } else {
+      field += char
+    }
+  }
+  if (field !== "" || record.length > 0) {
+    record.push(field)
+    records.push(record)
+  }
+  return records
+}
+
+interface RawRow {
+  line: number
+  values: Record<string, string>
+  /** Set when the row can't be read at all, e.g. a JSON item that isn't an object. */
+  error?: string
+}
+
+function validateRows<K extends RegistryKind>(kind: K, raw: RawRow[]) {
+  const columns: Array<ColumnSpec<RegistryRows[K]>> = REGISTRY_COLUMNS[kind]
+  const build: RowBuilder<K> = ROW_BUILDERS[kind]
+  // Candidates may share a name across different races, party lists may not
+  const identity = (values: Record<string, string>) =>
+    kind === "candidates"
+      ? [values.name, values.position, values.locality].map((value) => toMatchKey(value ?? "")).join("|")
+      : toMatchKey(values.name ?? "")
+  const firstLine: Record<string, number> = {}
+
+  return raw.map(({ line, values, error }): RegistryPreviewRow<K> => {
+    const row = build((field) => (values[field] ?? "").trim())
+    if (error) {
+      return { line, values: row, errors: [error] }
+    }
+    const errors = columns
+      .filter((column) => column.required && (values[column.field] ?? "").trim() === "")
+      .map((column) => `${column.label} is required`)
+    const key = identity(values)
+    if (errors.length === 0) {
+      if (firstLine[key] !== undefined) {
+        errors.push(`Duplicate of line ${firstLine[key]}`)
+      } else {
+        firstLine[key] = line
+      }
+    }
+    return { line, values: row, errors }
+  })
+}
+
+function parseCsvRows<K extends RegistryKind>(kind: K, text: string): RegistryParseResult<K> {
+  const [header, ...records] = parseCsv(text)
+  if (!header) {
+    return { rows: [], fileErrors: ["The file is empty"] }
+  }
+  const columns = REGISTRY_COLUMNS[kind]
+  const headerKeys = header.map(toHeaderKey)
+  const indexes: Record<string, number> = {}
+  const fileErrors: string[] = []
+  columns.forEach((column) => {
+    const index = headerKeys.findIndex((key) => column.headers.includes(key))
+    if (index >= 0) {
+      indexes[column.field] = index
+    } else if (column.required) {
+      fileErrors.push(`Missing a "${column.label}" column`)
+    }
+  })
+  if (fileErrors.length > 0) {
+    return { rows: [], fileErrors }
+  }
+
+  const raw = records.map((record, idx) => {
+    const values: Record<string, string> = {}
+    Object.keys(indexes).forEach((field) => {
+      values[field] = record[indexes[field]] ?? ""
+    })
+    return { line: idx + 2, values }
+  })
+  // Spreadsheets pad exports with empty lines
+  const filled = raw.filter(({ values }) => Object.keys(values).some((field) => values[field].trim() !== ""))
+  return { rows: validateRows(kind, filled), fileErrors: [] }
+}
+
+function parseJsonRows<K extends RegistryKind>(kind: K, text: string): RegistryParseResult<K> {
+  let data: unknown
+  try {
+    // Spreadsheet tools save a byte order mark that JSON.parse rejects
+    data = JSON.parse(text.replace(/^\uFEFF/, ""))
+  } catch {
+    return { rows: [], fileErrors: ["The file is not valid JSON"] }
+  }
+  // Either a bare array or `{ "party_lists": [...], "candidates": [...] }`
+  const items = Array.isArray(data) ? data : (data as Record<string, unknown> | null)?.[kind]
+  if (!Array.isArray(items)) {
+    return { rows: [], fileErrors: [`Expected an array of rows or an object with a "${kind}" array`] }
+  }
+
+  const columns = REGISTRY_COLUMNS[kind]
+  // Every item is reported, so a stray null or a misnamed key can't vanish from the count
+  const raw = items.map((item: unknown, idx): RawRow => {
+    const line = idx + 1
+    const values: Record<string, string> = {}
+    if (!item || typeof item !== "object" || Array.isArray(item)) {
+      const type = item === null ? "null" : Array.isArray(item) ? "an array" : `a ${typeof item}`
+      return { line, values, error: `Expected an object with the row's columns, got ${type}` }
+    }
+    const byHeader: Record<string, unknown> = {}
+    Object.keys(item).forEach((key) => {
+      byHeader[toHeaderKey(key)] = (item as Record<string, unknown>)[key]
+    })
+    if (!columns.some((column) => column.headers.some((header) => header in byHeader))) {
+      const expected = columns.map((column) => `"${column.field}"`).join(", ")
+      return { line, values, error: `No recognized columns; expected ${expected}` }
+    }
+    columns.forEach((column) => {
+      const key = column.headers.find((header) => byHeader[header] !== undefined && byHeader[header] !== null)
+      values[column.field] = key === undefined ? "" : String(byHeader[key])
+    })
+    return { line, values }
+  })
+  return { rows: validateRows(kind, raw), fileErrors: [] }
+}
+
+/** Reads an official export; JSON when the file name or content says so, CSV otherwise. */
+export function parseRegistryFile<K extends RegistryKind>(kind: K, fileName: string, text: string) {
+  const isJson = /\.json$/i.test(fileName) || /^\s*[[{]/.test(text)
+  return isJson ? parseJsonRows(kind, text) : parseCsvRows(kind, text)
+}
@@ -0,0 +1,46 @@
+import type { RejectPostRequest, RejectionReason } from "@/lib/api/types"
+
+/** What a moderator has entered in a reject area but not submitted yet. */
+export interface RejectDraft {
+  note: string
+  reasonCodes: string[]
+}
+
+export const EMPTY_REJECT_DRAFT: RejectDraft = { note: "", reasonCodes: [] }
+
+export const DEFAULT_REJECTION_NOTE = "Post rejected by admin"
+
+/**
+ * The picked reasons' messages followed by the free text become `admin_notes`,
+ * so the candidate reads one explanation while the codes go along for reporting.
+ */
+export function buildRejectRequest(draft: RejectDraft, reasons: RejectionReason[]): RejectPostRequest {
+  const picked = draft.reasonCodes
+    .map((code) => reasons.find((reason) => reason.code === code))
+    .filter((reason): reason is RejectionReason => reason !== undefined)
+  const parts = picked.map((reason) => `• ${reason.message}`)
+  if (draft.note.trim()) {
+    parts.push(draft.note.trim())
+  }
+  return {
+    admin_notes: parts.join("\n") || DEFAULT_REJECTION_NOTE,
+    reason_codes: picked.map((reason) => reason.code),
+  }
+}
+
+/** Categories in first-seen order, each with its reasons sorted by label. */
+export function groupReasonsByCategory(reasons: RejectionReason[]) {
+  const groups: Record<string, RejectionReason[]> = {}
+  const order: string[] = []
+  reasons.forEach((reason) => {
+    if (!groups[reason.category]) {
+      groups[reason.category] = []
+      order.push(reason.category)
+    }
+    groups[reason.category].push(reason)
+  })
+  return order.map((category) => ({
+    category,
+    reasons: groups[category].sort((a, b) => a.label.localeCompare(b.label)),
+  }))
+}
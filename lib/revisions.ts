@@ -0,0 +1,41 @@
+import type { Post, PostFieldComment } from "@/lib/api/types"
+
+/** Field comments keyed by field path (`bio`, `education.0`, ...). */
+export type FieldComments = Record<string, string>
+
+export function toFieldComments(comments: PostFieldComment[] | null | undefined): FieldComments {
+  const result: FieldComments = {}
+  comments?.forEach(({ field, comment }) => {
+    result[field] = comment
+  })
+  return result
+}
+
+/** Drops fields whose comment was opened but left empty. */
+export function toCommentList(comments: FieldComments): PostFieldComment[] {
+  return Object.keys(comments)
+    .filter((field) => comments[field].trim())
+    .map((field) => ({ field, comment: comments[field].trim() }))
+}
+
+/** Human-readable name of a commented field, e.g. "Education: College – UP Diliman". */
+export function describeField(post: Pick<Post, "education">, field: string) {
+  const [section, rawIndex] = field.split(".")
+  const index = Number(rawIndex)
+  switch (section) {
+    case "bio":
+      return "Bio"
+    case "platform":
+      return "Platform & Advocacy"
+    case "education": {
+      const edu = post.education?.[index]
+      return edu ? `Education: ${edu.level} – ${edu.school}` : `Education #${index + 1}`
+    }
+    case "achievements":
+      return `Achievement #${index + 1}`
+    case "images":
+      return `Campaign image #${index + 1}`
+    default:
+      return field
+  }
+}
@@ -0,0 +1,112 @@
+import type { ScreeningDetector, ScreeningRuleInput, ScreeningSeverity } from "@/lib/api/types"
+
+export interface ScreeningRule {
+  /** The configured rule's `code`. */
+  id: string
+  /** Shown on highlights and in the per-post summary. */
+  label: string
+  severity: ScreeningSeverity
+  /** Needs the `g` flag; every match is highlighted. */
+  pattern: RegExp
+}
+
+export const DETECTOR_LABELS: Record<ScreeningDetector, string> = {
+  phrases: "Word list",
+  vote_buying_amount: "Money offered per vote",
+  email: "Email addresses",
+  link: "External links",
+  phone: "Phone numbers",
+  all_caps: "All-caps text",
+}
+
+const DETECTOR_PATTERNS: Record<Exclude<ScreeningDetector, "phrases">, RegExp> = {
+  // "₱500 per vote", "P1,000 kada boto"
+  vote_buying_amount: /(?:₱|\bp(?:hp)?\s?)?\d[\d,]*\s*(?:per|kada|bawat|isang)\s+(?:vote|boto)\b/gi,
+  email: /\b[\w.+-]+@[\w-]+(?:\.[\w-]+)+\b/g,
+  // Trailing punctuation is left out: "visit juan.com/vote."
+  link: /\b(?:https?:\/\/|www\.)[^\s<>()]*[^\s<>().,!?]|\b[a-z0-9-]+\.(?:com|net|org|ph|info|xyz|ly|io|me|co)\b(?:\/[^\s<>()]*[^\s<>().,!?])?/gi,
+  // PH mobile (0917 123 4567, +63 917-123-4567) and landline ((02) 8123 4567)
+  phone: /(?:\+63[\s-]?|\b0)9\d{2}[\s-]?\d{3}[\s-]?\d{4}\b|\(0\d{1,2}\)\s?\d{3,4}[\s-]?\d{4}\b/g,
+  // Four or more shouted words in a row; lone acronyms like "DPWH" are fine
+  all_caps: /\b(?:[A-Z]{2,}[!?.,]*\s+){3,}[A-Z]{2,}[!?.,]*/g,
+}
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+/**
+ * Whole-word, case-insensitive match of any phrase, so "leche" would not flag
+ * "lechon"; spaces inside a phrase match any whitespace. Null for an empty list.
+ */
+export function phrasePattern(list: string[]) {
+  const alternatives = list
+    .map((phrase) => phrase.trim())
+    .filter(Boolean)
+    .map((phrase) => escapeRegExp(phrase).replace(/\s+/g, "\\s+"))
+  return alternatives.length > 0 ? new RegExp(`\\b(?:${alternatives.join("|")})\\b`, "gi") : null
+}
+
+/**
+ * Used until the configured rules load, or when they can't be. Words that are
+ * also everyday Filipino ("leche" in "leche flan", "gaga") are left out; add
+ * them on the screening page only if the false positives are worth it.
+ */
+export const DEFAULT_SCREENING_RULES: ScreeningRuleInput[] = [
+  {
+    code: "slur",
+    label: "Slur",
+    severity: "high",
+    detector: "phrases",
+    phrases: ["retard", "retarded", "abnoy", "mongoloid", "intsik beho"],
+    is_active: true,
+  },
+  {
+    code: "vote_buying",
+    label: "Vote-buying phrase",
+    severity: "high",
+    detector: "phrases",
+    phrases: [
+      "kapalit ng boto", "kapalit ng inyong boto", "kapalit ng iyong boto", "bayad sa boto", "bili ng boto",
+      "bibilhin ang boto", "pera para sa boto", "cash for votes", "money for votes", "pay for your vote",
+      "paid per vote", "vote for cash",
+    ],
+    is_active: true,
+  },
+  {
+    code: "vote_buying_amount",
+    label: "Vote-buying phrase",
+    severity: "high",
+    detector: "vote_buying_amount",
+    phrases: [],
+    is_active: true,
+  },
+  {
+    code: "profanity",
+    label: "Prohibited word",
+    severity: "medium",
+    detector: "phrases",
+    phrases: [
+      "putang ina", "putangina", "tangina", "tang ina", "gago", "tarantado", "ulol", "punyeta", "pakyu",
+      "fuck", "fucking", "shit", "bullshit", "asshole", "bitch",
+    ],
+    is_active: true,
+  },
+  { code: "email", label: "Email address", severity: "medium", detector: "email", phrases: [], is_active: true },
+  { code: "link", label: "External link", severity: "medium", detector: "link", phrases: [], is_active: true },
+  { code: "phone", label: "Phone number", severity: "medium", detector: "phone", phrases: [], is_active: true },
+  { code: "all_caps", label: "All-caps text", severity: "low", detector: "all_caps", phrases: [], is_active: true },
+]
+
+/** Active rules ready for `screenText`, in the configured order. */
+export function compileScreeningRules(configs: ScreeningRuleInput[]): ScreeningRule[] {
+  const rules: ScreeningRule[] = []
+  configs.forEach((config) => {
+    if (!config.is_active) return
+    const pattern = config.detector === "phrases" ? phrasePattern(config.phrases) : DETECTOR_PATTERNS[config.detector]
+    if (pattern) {
+      rules.push({ id: config.code, label: config.label, severity: config.severity, pattern })
+    }
+  })
+  return rules
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest"
+import type { Post } from "@/lib/api"
+import { screenPost, screenText, summarizeMatches } from "@/lib/screening"
+import { DEFAULT_SCREENING_RULES, compileScreeningRules, phrasePattern } from "@/lib/screening-rules"
+
+const rules = compileScreeningRules(DEFAULT_SCREENING_RULES)
+
+function matchedText(text: string) {
+  return screenText(text, "bio", rules).map((match) => [match.rule.id, text.slice(match.start, match.end)])
+}
+
+function makePost(bio: string, platform: string | null = null, captions: string[] = []): Post {
+  return {
+    id: 1,
+    user_id: "u1",
+    name: "Juan Dela Cruz",
+    level: "National",
+    position: "Senator",
+    bio,
+    platform,
+    education: null,
+    achievements: null,
+    images: captions.map((caption, idx) => ({ url: `https://example.com/${idx}.jpg`, caption })),
+    status: "pending",
+    admin_notes: null,
+    user: { id: "u1", name: "Juan Dela Cruz", email: "juan@example.com" },
+    created_at: "2025-01-01T00:00:00Z",
+    updated_at: "2025-01-01T00:00:00Z",
+  }
+}
+
+describe("screenText with the default rules", () => {
+  const cases: Array<[string, string[][]]> = [
+    ["Masarap ang leche flan ni Lola", []],
+    ["Gagawin ko ang lahat para sa bayan", []],
+    ["Walang lechon, walang gaga", []],
+    ["Ulol kayo", [["profanity", "Ulol"]]],
+    ["₱500 per vote sa lahat", [["vote_buying_amount", "₱500 per vote"]]],
+    ["P1,000 kada boto", [["vote_buying_amount", "P1,000 kada boto"]]],
+    ["Bibigyan kayo ng pera kapalit ng  boto", [["vote_buying", "kapalit ng  boto"]]],
+    ["Email juan@example.com o tumawag sa 0917 123 4567", [["email", "juan@example.com"], ["phone", "0917 123 4567"]]],
+    ["Visit juan.com/vote.", [["link", "juan.com/vote"]]],
+    ["IBOTO SI JUAN SA MAYO!", [["all_caps", "IBOTO SI JUAN SA MAYO!"]]],
+    ["Galing sa DPWH at DILG", []],
+  ]
+
+  it.each(cases)("screens %j", (text, expected) => {
+    expect(matchedText(text)).toEqual(expected)
+  })
+
+  it("keeps the earlier, then longer, of two overlapping matches", () => {
+    const overlapping = compileScreeningRules([
+      { code: "short", label: "Short", severity: "low", detector: "phrases", phrases: ["bili"], is_active: true },
+      { code: "long", label: "Long", severity: "high", detector: "phrases", phrases: ["bili ng boto"], is_active: true },
+    ])
+    expect(screenText("bili ng boto", "bio", overlapping).map((match) => match.rule.id)).toEqual(["long"])
+  })
+})
+
+describe("phrasePattern and compileScreeningRules", () => {
+  it("matches whole words only and any whitespace inside a phrase", () => {
+    const pattern = phrasePattern(["leche", " tang ina "])
+    expect("leche flan".match(pattern!)).toEqual(["leche"])
+    expect("lechera".match(pattern!)).toBeNull()
+    expect("TANG\nINA".match(pattern!)).toEqual(["TANG\nINA"])
+    expect(phrasePattern(["", "  "])).toBeNull()
+  })
+
+  it("skips inactive rules and empty word lists", () => {
+    const compiled = compileScreeningRules([
+      { code: "off", label: "Off", severity: "high", detector: "email", phrases: [], is_active: false },
+      { code: "empty", label: "Empty", severity: "high", detector: "phrases", phrases: [], is_active: true },
+      { code: "email", label: "Email", severity: "medium", detector: "email", phrases: [], is_active: true },
+    ])
+    expect(compiled.map((rule) => rule.id)).toEqual(["email"])
+  })
+})
+
+describe("screenPost", () => {
+  it("scores every field and labels the risk by its severity weights", () => {
+    const result = screenPost(makePost("Tumawag sa 0917 123 4567", "₱500 per vote", ["ALL CAPS PHOTO CAPTION HERE"]), rules)
+    expect(result.matches.map((match) => match.field)).toEqual(["bio", "platform", "images.0"])
+    expect(result.score).toBe(14)
+    expect(result.level).toBe("high")
+    expect(screenPost(makePost("Serbisyong tapat"), rules)).toMatchObject({ score: 0, level: "none" })
+    expect(screenPost(makePost("Email juan@example.com"), rules).level).toBe("medium")
+  })
+
+  it("summarizes matches per label, most severe first", () => {
+    const result = screenPost(makePost("juan@example.com, pedro@example.com, ₱500 per vote"), rules)
+    expect(summarizeMatches(result.matches)).toEqual([
+      { label: "Vote-buying phrase", severity: "high", count: 1 },
+      { label: "Email address", severity: "medium", count: 2 },
+    ])
+  })
+})
@@ -0,0 +1,113 @@
+import type { Post, ScreeningSeverity } from "@/lib/api"
+import type { ScreeningRule } from "@/lib/screening-rules"
+
+export type RiskLevel = "none" | "low" | "medium" | "high"
+
+export interface ScreeningMatch {
+  rule: ScreeningRule
+  /** `bio`, `platform` or `images.N` for a caption, like revision comment fields. */
+  field: string
+  start: number
+  end: number
+}
+
+export interface ScreeningResult {
+  score: number
+  level: RiskLevel
+  matches: ScreeningMatch[]
+}
+
+const SEVERITY_WEIGHTS: Record<ScreeningSeverity, number> = { low: 1, medium: 3, high: 10 }
+
+export const RISK_LABELS: Record<RiskLevel, string> = {
+  none: "No flags",
+  low: "Low risk",
+  medium: "Medium risk",
+  high: "High risk",
+}
+
+export const RISK_STYLES: Record<RiskLevel, string> = {
+  none: "bg-gray-100 text-gray-700",
+  low: "bg-sky-100 text-sky-800",
+  medium: "bg-amber-100 text-amber-800",
+  high: "bg-red-100 text-red-800",
+}
+
+export const SEVERITY_HIGHLIGHTS: Record<ScreeningSeverity, string> = {
+  low: "bg-sky-100 text-sky-900",
+  medium: "bg-amber-100 text-amber-900",
+  high: "bg-red-200 text-red-900",
+}
+
+/** Matches of every rule in `text`; where two overlap, the earlier (then longer) one wins. */
+export function screenText(text: string, field: string, rules: ScreeningRule[]): ScreeningMatch[] {
+  const found: ScreeningMatch[] = []
+  rules.forEach((rule) => {
+    const pattern = new RegExp(rule.pattern.source, rule.pattern.flags)
+    let match: RegExpExecArray | null
+    while ((match = pattern.exec(text)) !== null) {
+      if (match[0] === "") {
+        pattern.lastIndex++
+        continue
+      }
+      found.push({ rule, field, start: match.index, end: match.index + match[0].length })
+    }
+  })
+
+  found.sort((a, b) => a.start - b.start || b.end - a.end)
+  const matches: ScreeningMatch[] = []
+  found.forEach((match) => {
+    const last = matches[matches.length - 1]
+    if (!last || match.start >= last.end) {
+      matches.push(match)
+    }
+  })
+  return matches
+}
+
+function toRiskLevel(score: number): RiskLevel {
+  if (score >= SEVERITY_WEIGHTS.high) return "high"
+  if (score >= SEVERITY_WEIGHTS.medium) return "medium"
+  return score > 0 ? "low" : "none"
+}
+
+// Posts are replaced rather than mutated on refresh and compiled rule sets are
+// shared, so results can be keyed by object
+const resultsByRules = new WeakMap<ScreeningRule[], WeakMap<Post, ScreeningResult>>()
+
+/** Runs the screening rules over a post's bio, platform and image captions. */
+export function screenPost(post: Post, rules: ScreeningRule[]): ScreeningResult {
+  let results = resultsByRules.get(rules)
+  if (!results) {
+    results = new WeakMap()
+    resultsByRules.set(rules, results)
+  }
+  const cached = results.get(post)
+  if (cached) return cached
+
+  const matches = screenText(post.bio ?? "", "bio", rules).concat(screenText(post.platform ?? "", "platform", rules))
+  const images = post.images ?? []
+  images.forEach((img, idx) => {
+    matches.push(...screenText(img.caption ?? "", `images.${idx}`, rules))
+  })
+  const score = matches.reduce((sum, match) => sum + SEVERITY_WEIGHTS[match.rule.severity], 0)
+  const result = { score, level: toRiskLevel(score), matches }
+  results.set(post, result)
+  return result
+}
+
+/** One entry per rule label with how often it matched, most severe first. */
+export function summarizeMatches(matches: ScreeningMatch[]) {
+  const counts = new Map<string, { label: string; severity: ScreeningSeverity; count: number }>()
+  matches.forEach(({ rule }) => {
+    const entry = counts.get(rule.label)
+    if (entry) {
+      entry.count++
+    } else {
+      counts.set(rule.label, { label: rule.label, severity: rule.severity, count: 1 })
+    }
+  })
+  return Array.from(counts.values()).sort(
+    (a, b) => SEVERITY_WEIGHTS[b.severity] - SEVERITY_WEIGHTS[a.severity] || b.count - a.count
+  )
+}
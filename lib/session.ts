@@ -0,0 +1,128 @@
+import { NextResponse } from "next/server"
+import type { AdminUser, BackendLoginResponse } from "@/lib/api/types"
+
+export const SESSION_COOKIE = "admin_session"
+/** Holds the backend challenge between the password step and the TOTP step. */
+export const TWO_FACTOR_CHALLENGE_COOKIE = "admin_2fa_challenge"
+/** Holds the not-yet-confirmed TOTP secret during enrollment. */
+export const TWO_FACTOR_SETUP_COOKIE = "admin_2fa_setup"
+export const DEFAULT_SESSION_TTL_SECONDS = 8 * 60 * 60
+
+/** Backend base URL used by server-side code (route handlers, middleware). */
+export const BACKEND_API_URL = process.env.API_URL || process.env.NEXT_PUBLIC_API_URL || "http://localhost:8000/api"
+
+export interface AdminSession {
+  token: string
+  user: AdminUser
+  /** Unix timestamp in milliseconds. */
+  expiresAt: number
+}
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+let keyPromise: Promise<CryptoKey> | null = null
+
+function getSecret() {
+  const secret = process.env.ADMIN_SESSION_SECRET
+  if (secret) return secret
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("ADMIN_SESSION_SECRET must be set in production")
+  }
+  return "votehubph-admin-development-secret"
+}
+
+function getKey() {
+  if (!keyPromise) {
+    keyPromise = crypto.subtle
+      .digest("SHA-256", encoder.encode(getSecret()))
+      .then((hash) => crypto.subtle.importKey("raw", hash, { name: "AES-GCM" }, false, ["encrypt", "decrypt"]))
+  }
+  return keyPromise
+}
+
+function toBase64Url(bytes: Uint8Array) {
+  let binary = ""
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i])
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+}
+
+function fromBase64Url(value: string) {
+  const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/"))
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return bytes
+}
+
+/**
+ * Encrypts a value into an opaque cookie string. AES-GCM keeps its contents
+ * (e.g. the backend token) unreadable and makes any tampering fail on unseal.
+ */
+export async function seal(value: unknown) {
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    await getKey(),
+    encoder.encode(JSON.stringify(value)),
+  )
+  return `${toBase64Url(iv)}.${toBase64Url(new Uint8Array(ciphertext))}`
+}
+
+/** Reverses `seal`; returns null for missing, forged or expired values. */
+export async function unseal<T extends { expiresAt: number }>(value: string | undefined): Promise<T | null> {
+  if (!value) return null
+  const [iv, ciphertext] = value.split(".")
+  if (!iv || !ciphertext) return null
+
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: fromBase64Url(iv) },
+      await getKey(),
+      fromBase64Url(ciphertext),
+    )
+    const data = JSON.parse(decoder.decode(plaintext)) as T
+    return data.expiresAt > Date.now() ? data : null
+  } catch {
+    return null
+  }
+}
+
+export function sealSession(session: AdminSession) {
+  return seal(session)
+}
+
+/** Returns the session stored in the cookie, or null if it is missing, forged or expired. */
+export async function unsealSession(value: string | undefined) {
+  const session = await unseal<AdminSession>(value)
+  return session?.token && session.user ? session : null
+}
+
+export function sessionCookieOptions(expiresAt: number, path = "/") {
+  return {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax" as const,
+    path,
+    expires: new Date(expiresAt),
+  }
+}
+
+/** Turns a successful backend login into the JSON response that sets the session cookie. */
+export async function createSessionResponse(data: BackendLoginResponse) {
+  // Admins without roles from the backend get no privileges rather than all of them
+  const user: AdminUser = {
+    ...data.user,
+    roles: Array.isArray(data.user.roles) ? data.user.roles : [],
+    two_factor_enabled: Boolean(data.user.two_factor_enabled),
+  }
+  const ttlSeconds = data.expires_in ?? DEFAULT_SESSION_TTL_SECONDS
+  const expiresAt = Date.now() + ttlSeconds * 1000
+
+  const response = NextResponse.json({ user, expires_at: new Date(expiresAt).toISOString() })
+  response.cookies.set(
+    SESSION_COOKIE,
+    await sealSession({ token: data.token, user, expiresAt }),
+    sessionCookieOptions(expiresAt),
+  )
+  return response
+}
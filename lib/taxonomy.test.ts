@@ -0,0 +1,207 @@
+import { describe, expect, it } from "vitest"
+import type { Post, PostLocality } from "@/lib/api"
+import { INDEPENDENT_CITIES } from "@/lib/ph-geography"
+import { INDEPENDENT_BARANGAYS, PROVINCE_BARANGAYS } from "@/lib/ph-barangays"
+import { PROVINCE_LOCALITIES } from "@/lib/ph-localities"
+import {
+  findBarangayTown,
+  formatLocality,
+  groupLevelValues,
+  groupPositionValues,
+  isPositionAtLevel,
+  resolveLevel,
+  resolvePositionLevels,
+  validatePostTaxonomy,
+} from "@/lib/taxonomy"
+
+function makePost(level: string, position: string, locality: PostLocality | null = null): Post {
+  return {
+    id: 1,
+    user_id: "u1",
+    name: "Juan Dela Cruz",
+    level,
+    position,
+    locality,
+    bio: "",
+    platform: null,
+    education: null,
+    achievements: null,
+    images: null,
+    status: "pending",
+    admin_notes: null,
+    user: { id: "u1", name: "Juan Dela Cruz", email: "juan@example.com" },
+    created_at: "2025-01-01T00:00:00Z",
+    updated_at: "2025-01-01T00:00:00Z",
+  }
+}
+
+describe("resolveLevel and resolvePositionLevels", () => {
+  it("matches labels and aliases regardless of case and punctuation", () => {
+    expect(resolveLevel("nationwide")?.id).toBe("national")
+    expect(resolveLevel("Party List")?.id).toBe("party_list")
+    expect(resolveLevel("Galactic")).toBeNull()
+    expect(resolvePositionLevels("Konsehal").map((level) => level.id)).toEqual(["city", "municipal"])
+    expect(resolvePositionLevels("Mayor").map((level) => level.id)).toEqual(["city", "municipal"])
+  })
+
+  it("only rejects a position when both it and the level are recognized", () => {
+    expect(isPositionAtLevel("Senator", "Provincial")).toBe(false)
+    expect(isPositionAtLevel("Senator", "National")).toBe(true)
+    expect(isPositionAtLevel("Chief Whip", "Provincial")).toBe(true)
+    expect(isPositionAtLevel("Senator", "")).toBe(true)
+  })
+})
+
+describe("validatePostTaxonomy", () => {
+  const cases: Array<[string, Post, string[]]> = [
+    ["a valid national post", makePost("National", "Senator"), []],
+    [
+      "a position the level doesn't elect",
+      makePost("National", "Mayor"),
+      ["Mayor is not a national post; it is elected at city or municipal level."],
+    ],
+    ["a misspelled level", makePost("Natonal", "Senator"), ['Unrecognized level "Natonal". Did you mean National?']],
+    [
+      "a municipality named like an independent city in another province",
+      makePost("Municipal", "Mayor", { region: "Ilocos Region", province: "Ilocos Sur", city_municipality: "Santiago" }),
+      [],
+    ],
+    [
+      "a municipality named like an NCR city",
+      makePost("Municipal", "Mayor", { province: "Batangas", city_municipality: "San Juan" }),
+      [],
+    ],
+    [
+      "a component city named like an independent city in another province",
+      makePost("City", "Mayor", { province: "Cebu", city_municipality: "City of Naga" }),
+      [],
+    ],
+    [
+      "the independent city in its own province",
+      makePost("City", "Mayor", { province: "Camarines Sur", city_municipality: "Naga City" }),
+      [],
+    ],
+    ["an independent city with no province", makePost("City", "Mayor", { city_municipality: "Santiago" }), []],
+    ["Pateros as a municipality", makePost("Municipal", "Mayor", { city_municipality: "Pateros" }), []],
+    [
+      "a city running as a municipality",
+      makePost("Municipal", "Mayor", { province: "Cebu", city_municipality: "Talisay" }),
+      ["Talisay is a city, not a municipality."],
+    ],
+    [
+      "a municipality running as a city",
+      makePost("City", "Mayor", { province: "Batangas", city_municipality: "San Juan" }),
+      ["San Juan is a municipality, not a city."],
+    ],
+    [
+      "a town missing from the province",
+      makePost("Municipal", "Mayor", { province: "Batangas", city_municipality: "Santiago" }),
+      ['No city or municipality "Santiago" in Batangas.'],
+    ],
+    [
+      "a misspelled town",
+      makePost("Municipal", "Mayor", { province: "Batangas", city_municipality: "Nasugbo" }),
+      ['No city or municipality "Nasugbo" in Batangas. Did you mean Nasugbu?'],
+    ],
+    [
+      "a province in another region",
+      makePost("Provincial", "Governor", { region: "Central Visayas", province: "Batangas" }),
+      ["Batangas is in CALABARZON, not Central Visayas."],
+    ],
+    [
+      "a component city with no province",
+      makePost("City", "Mayor", { city_municipality: "Talisay" }),
+      ["No province given; only highly urbanized and independent cities stand on their own."],
+    ],
+    [
+      "a provincial post without a province",
+      makePost("Provincial", "Governor", { region: "CALABARZON" }),
+      ["No province given for a provincial post."],
+    ],
+  ]
+
+  it.each(cases)("handles %s", (_, post, warnings) => {
+    expect(validatePostTaxonomy(post)).toEqual(warnings)
+  })
+})
+
+describe("barangays", () => {
+  it("finds the chunk listing the town's barangays", () => {
+    expect(findBarangayTown({ province: "Batangas", city_municipality: "City of Tanauan" })).toEqual({
+      province: "Batangas",
+      name: "Tanauan",
+    })
+    expect(findBarangayTown({ city_municipality: "Quezon City" })).toEqual({ province: null, name: "Quezon City" })
+    expect(findBarangayTown({ province: "Batangas", city_municipality: "Nasugbo" })).toBeNull()
+    expect(findBarangayTown(null)).toBeNull()
+  })
+
+  const tanauan = { province: "Batangas", city_municipality: "Tanauan" }
+  const barangays = ["Barangay 1 (Pob.)", "San Jose", "Sambat"]
+  const cases: Array<[string, string, string[]]> = [
+    ["a listed barangay", "San Jose", []],
+    ["a prefixed barangay", "Brgy. 1", []],
+    ["a misspelled barangay", "San Joze", ['No barangay "San Joze" in Tanauan. Did you mean San Jose?']],
+    ["a barangay from another town", "Poblacion", ['No barangay "Poblacion" in Tanauan.']],
+  ]
+
+  it.each(cases)("checks %s against the town's list", (_, barangay, warnings) => {
+    expect(validatePostTaxonomy(makePost("Barangay", "Punong Barangay", { ...tanauan, barangay }), barangays)).toEqual(
+      warnings
+    )
+  })
+
+  it("skips the check until the town's list is loaded", () => {
+    const post = makePost("Barangay", "Punong Barangay", { ...tanauan, barangay: "Poblacion" })
+    expect(validatePostTaxonomy(post)).toEqual([])
+  })
+
+  it("lists barangays for every bundled city and municipality", async () => {
+    const missing: string[] = []
+    for (const province of Object.keys(PROVINCE_LOCALITIES)) {
+      const { BARANGAYS } = await PROVINCE_BARANGAYS[province]()
+      const { cities, municipalities } = PROVINCE_LOCALITIES[province]
+      cities.concat(municipalities).forEach((town) => {
+        if (!BARANGAYS[town]?.length) missing.push(`${town}, ${province}`)
+      })
+    }
+    const { BARANGAYS } = await INDEPENDENT_BARANGAYS()
+    INDEPENDENT_CITIES.forEach((city) => {
+      if (!BARANGAYS[city.name]?.length) missing.push(city.name)
+    })
+    expect(missing).toEqual([])
+  })
+})
+
+describe("facet grouping", () => {
+  it("groups level values under the level they spell, unknown ones last", () => {
+    expect(groupLevelValues(["Provincial", "Nationwide", "National", "Galactic"])).toEqual([
+      { label: "National", values: ["Nationwide", "National"] },
+      { label: "Provincial", values: ["Provincial"] },
+      { label: "Other", values: ["Galactic"] },
+    ])
+  })
+
+  it("keeps the stored position values and drops ones the picked level doesn't elect", () => {
+    const positions = ["Senator", "City Mayor", "Konsehal", "Chief Whip"]
+    expect(groupPositionValues(positions, "")).toEqual([
+      { label: "National", values: ["Senator"] },
+      { label: "City", values: ["City Mayor", "Konsehal"] },
+      { label: "Other", values: ["Chief Whip"] },
+    ])
+    expect(groupPositionValues(positions, "Municipal")).toEqual([
+      { label: "Municipal", values: ["Konsehal"] },
+      { label: "Other", values: ["Chief Whip"] },
+    ])
+  })
+})
+
+describe("formatLocality", () => {
+  it("lists the most specific parts first and falls back to the region", () => {
+    expect(formatLocality({ barangay: "San Isidro", city_municipality: "Tanauan", province: "Batangas" })).toBe(
+      "San Isidro, Tanauan, Batangas"
+    )
+    expect(formatLocality({ region: "CALABARZON" })).toBe("CALABARZON")
+    expect(formatLocality(null)).toBe("")
+  })
+})
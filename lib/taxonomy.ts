@@ -0,0 +1,404 @@
+import type { Post, PostLocality } from "@/lib/api"
+import { editDistance } from "@/lib/duplicates"
+import { INDEPENDENT_CITIES, PROVINCE_ALIASES, REGIONS } from "@/lib/ph-geography"
+import { PROVINCE_LOCALITIES } from "@/lib/ph-localities"
+
+export type LevelId = "national" | "party_list" | "provincial" | "city" | "municipal" | "barangay"
+
+interface PositionSpec {
+  label: string
+  aliases: string[]
+}
+
+interface Locality {
+  name: string
+  kind: "city" | "municipality"
+  region: string
+  /** Outside any province's jurisdiction: highly urbanized and independent cities, Pateros and the like. */
+  independent: boolean
+}
+
+interface LevelSpec {
+  id: LevelId
+  label: string
+  aliases: string[]
+  positions: PositionSpec[]
+  /** Locality parts a post at this level must name. */
+  requires: Array<keyof PostLocality>
+}
+
+const DISTRICT_REPRESENTATIVE: PositionSpec = {
+  label: "District Representative",
+  aliases: ["Representative", "House Representative", "Congressman", "Congresswoman"],
+}
+
+/** Elective posts by level, per the Local Government Code and the Party-List System Act. */
+export const LEVELS: LevelSpec[] = [
+  {
+    id: "national",
+    label: "National",
+    aliases: ["Nationwide"],
+    positions: [
+      { label: "President", aliases: ["Pangulo"] },
+      { label: "Vice President", aliases: ["VP", "Pangalawang Pangulo"] },
+      { label: "Senator", aliases: ["Senador"] },
+    ],
+    requires: [],
+  },
+  {
+    id: "party_list",
+    label: "Party-list",
+    aliases: ["Partylist", "Sectoral"],
+    positions: [{ label: "Party-list Representative", aliases: ["Party-list Nominee", "Nominee"] }],
+    requires: [],
+  },
+  {
+    id: "provincial",
+    label: "Provincial",
+    aliases: ["Province"],
+    positions: [
+      { label: "Governor", aliases: ["Gobernador"] },
+      { label: "Vice Governor", aliases: ["Bise Gobernador"] },
+      { label: "Provincial Board Member", aliases: ["Board Member", "Sangguniang Panlalawigan Member", "SP Member"] },
+      DISTRICT_REPRESENTATIVE,
+    ],
+    requires: ["province"],
+  },
+  {
+    id: "city",
+    label: "City",
+    aliases: [],
+    positions: [
+      { label: "Mayor", aliases: ["City Mayor", "Alkalde"] },
+      { label: "Vice Mayor", aliases: ["City Vice Mayor", "Bise Alkalde"] },
+      { label: "City Councilor", aliases: ["Councilor", "Konsehal", "Sangguniang Panlungsod Member"] },
+      DISTRICT_REPRESENTATIVE,
+    ],
+    requires: ["city_municipality"],
+  },
+  {
+    id: "municipal",
+    label: "Municipal",
+    aliases: ["Municipality", "Town"],
+    positions: [
+      { label: "Mayor", aliases: ["Municipal Mayor", "Alkalde"] },
+      { label: "Vice Mayor", aliases: ["Municipal Vice Mayor", "Bise Alkalde"] },
+      { label: "Municipal Councilor", aliases: ["Councilor", "Konsehal", "Sangguniang Bayan Member", "SB Member"] },
+    ],
+    requires: ["province", "city_municipality"],
+  },
+  {
+    id: "barangay",
+    label: "Barangay",
+    aliases: ["Brgy"],
+    positions: [
+      { label: "Punong Barangay", aliases: ["Barangay Captain", "Barangay Chairman", "Barangay Chairperson", "Kapitan"] },
+      { label: "Barangay Kagawad", aliases: ["Kagawad", "Barangay Councilor", "Sangguniang Barangay Member"] },
+      { label: "SK Chairperson", aliases: ["SK Chairman", "Sangguniang Kabataan Chairperson"] },
+      { label: "SK Kagawad", aliases: ["SK Councilor", "Sangguniang Kabataan Kagawad"] },
+    ],
+    requires: ["city_municipality", "barangay"],
+  },
+]
+
+const LOCALITY_LABELS: Record<keyof PostLocality, string> = {
+  region: "region",
+  province: "province",
+  city_municipality: "city or municipality",
+  barangay: "barangay",
+}
+
+// "Las Piñas City" and "las pinas city" compare equal
+function toKey(value: string) {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, "")
+}
+
+// "City of Alaminos", "Alaminos City" and "Alaminos" compare equal
+function toPlaceKey(value: string) {
+  return toKey(value).replace(/^cityof/, "").replace(/city$/, "")
+}
+
+// "Brgy. 1", "Barangay 1 (Pob.)" and "1" compare equal
+function toBarangayKey(value: string) {
+  return toKey(value.replace(/\([^)]*\)/g, "")).replace(/^(barangay|brgy|bgy)/, "").replace(/pob$/, "")
+}
+
+function lookup<T>(entries: Array<[string, T]>, keyOf: (name: string) => string = toKey) {
+  const byKey: Record<string, T> = Object.create(null)
+  entries.forEach(([name, value]) => {
+    byKey[keyOf(name)] = value
+  })
+  return byKey
+}
+
+const LEVEL_BY_KEY = lookup(LEVELS.reduce<Array<[string, LevelSpec]>>(
+  (entries, level) => entries.concat([level.label, ...level.aliases].map((name): [string, LevelSpec] => [name, level])),
+  []
+))
+
+const REGION_BY_KEY = lookup(REGIONS.reduce<Array<[string, string]>>(
+  (entries, region) => entries.concat([region.name, ...region.aliases].map((name): [string, string] => [name, region.name])),
+  []
+))
+
+const PROVINCE_REGION: Record<string, string> = {}
+REGIONS.forEach((region) => region.provinces.forEach((province) => (PROVINCE_REGION[province] = region.name)))
+
+const PROVINCE_BY_KEY = lookup(
+  Object.keys(PROVINCE_REGION)
+    .map((province): [string, string] => [province, province])
+    .concat(Object.keys(PROVINCE_ALIASES).map((alias): [string, string] => [alias, PROVINCE_ALIASES[alias]]))
+)
+
+const INDEPENDENT_BY_KEY = lookup(INDEPENDENT_CITIES.reduce<Array<[string, Locality & { province: string | null }]>>(
+  (entries, city) => {
+    const locality = { name: city.name, kind: city.kind, region: city.region, province: city.province, independent: true }
+    return entries.concat([city.name, ...city.aliases].map((name): [string, typeof locality] => [name, locality]))
+  },
+  []
+), toPlaceKey)
+
+const LOCALITY_BY_PROVINCE: Record<string, Record<string, Locality>> = Object.create(null)
+Object.keys(PROVINCE_LOCALITIES).forEach((province) => {
+  const { cities, municipalities } = PROVINCE_LOCALITIES[province]
+  const place = (kind: Locality["kind"]) => (name: string): [string, Locality] =>
+    [name, { name, kind, region: PROVINCE_REGION[province], independent: false }]
+  LOCALITY_BY_PROVINCE[province] = lookup(cities.map(place("city")).concat(municipalities.map(place("municipality"))), toPlaceKey)
+})
+
+function localityNames(province: string) {
+  return PROVINCE_LOCALITIES[province].cities.concat(PROVINCE_LOCALITIES[province].municipalities)
+}
+
+const ALL_LOCALITY_NAMES = Object.keys(PROVINCE_LOCALITIES)
+  .reduce<string[]>((names, province) => names.concat(localityNames(province)), [])
+  .concat(INDEPENDENT_CITIES.map((city) => city.name))
+
+/**
+ * The city or municipality `value` names. A bare "Santiago" is only the
+ * independent city in Isabela when nothing places it elsewhere; with a
+ * province given, that province's own towns are searched.
+ */
+function findLocality(value: string, province: string | null, region: string | null): Locality | null {
+  const key = toPlaceKey(value)
+  const independent = INDEPENDENT_BY_KEY[key]
+  if (province) {
+    if (independent && independent.province === province) return independent
+    return LOCALITY_BY_PROVINCE[province]?.[key] ?? null
+  }
+  // Unless the region points at a same-named town elsewhere
+  if (independent && (!region || independent.region === region || !isKnownLocality(value, region))) return independent
+  return null
+}
+
+// Whether a town with no province given exists anywhere in the region, or the country
+function isKnownLocality(value: string, region: string | null) {
+  const key = toPlaceKey(value)
+  return Object.keys(LOCALITY_BY_PROVINCE).some(
+    (province) => (!region || PROVINCE_REGION[province] === region) && LOCALITY_BY_PROVINCE[province][key] !== undefined
+  )
+}
+
+export function resolveLevel(value: string | null | undefined) {
+  return value ? LEVEL_BY_KEY[toKey(value)] ?? null : null
+}
+
+/** Every level that elects `value`; "Mayor" is both a city and a municipal post. */
+export function resolvePositionLevels(value: string | null | undefined) {
+  if (!value) return []
+  const key = toKey(value)
+  return LEVELS.filter((level) =>
+    level.positions.some((position) => [position.label, ...position.aliases].some((name) => toKey(name) === key))
+  )
+}
+
+/** Position labels of the level, or of every level when none is recognized. */
+function positionLabels(level: string) {
+  const spec = resolveLevel(level)
+  const labels = (spec ? [spec] : LEVELS).reduce<string[]>(
+    (all, { positions }) => all.concat(positions.map((position) => position.label)),
+    []
+  )
+  return labels.filter((label, idx) => labels.indexOf(label) === idx)
+}
+
+export interface FacetGroup {
+  /** A level label, or "Other" for values the taxonomy doesn't recognize. */
+  label: string
+  values: string[]
+}
+
+function groupByLevel(values: string[], levelsOf: (value: string) => LevelSpec[], only: LevelSpec | null) {
+  const groups: FacetGroup[] = LEVELS.map((level) => ({ label: level.label, values: [] }))
+  const other: string[] = []
+  values.forEach((value) => {
+    const levels = levelsOf(value)
+    if (levels.length === 0) {
+      other.push(value)
+    } else if (!only) {
+      groups[LEVELS.indexOf(levels[0])].values.push(value)
+    } else if (levels.includes(only)) {
+      groups[LEVELS.indexOf(only)].values.push(value)
+    }
+  })
+  return groups.concat({ label: "Other", values: other }).filter((group) => group.values.length > 0)
+}
+
+/**
+ * Level values from the backend facets, grouped under the taxonomy level each
+ * spells, so the filter still sends the stored value ("Nationwide" and
+ * "National" both sit under National).
+ */
+export function groupLevelValues(values: string[]) {
+  return groupByLevel(values, (value) => {
+    const level = resolveLevel(value)
+    return level ? [level] : []
+  }, null)
+}
+
+/**
+ * Position values from the backend facets, grouped by the level that elects
+ * them. With a recognized level picked, positions that level doesn't elect are
+ * dropped; unrecognized ones are always kept.
+ */
+export function groupPositionValues(values: string[], level: string) {
+  return groupByLevel(values, resolvePositionLevels, resolveLevel(level))
+}
+
+/** False only when both are recognized and the level doesn't elect the position. */
+export function isPositionAtLevel(position: string, level: string) {
+  const spec = resolveLevel(level)
+  const levels = resolvePositionLevels(position)
+  return !spec || levels.length === 0 || levels.includes(spec)
+}
+
+// Closest known name when `value` looks like a typo of it
+function suggest(value: string, names: string[]) {
+  const key = toKey(value)
+  let bestName = ""
+  let bestScore = 0.75
+  for (const name of names) {
+    const candidate = toKey(name)
+    const score = 1 - editDistance(key, candidate) / Math.max(key.length, candidate.length, 1)
+    if (score >= bestScore) {
+      bestName = name
+      bestScore = score
+    }
+  }
+  return bestName ? ` Did you mean ${bestName}?` : ""
+}
+
+function describeLevels(levels: LevelSpec[]) {
+  const labels = levels.map((level) => level.label.toLowerCase())
+  return labels.length > 1 ? `${labels.slice(0, -1).join(", ")} or ${labels[labels.length - 1]}` : labels[0]
+}
+
+// The recognized region, province and town of a locality, each null when missing or unknown
+function resolvePlaces(locality: PostLocality) {
+  const value = (part: keyof PostLocality) => locality[part]?.trim() || ""
+  const region = value("region") ? REGION_BY_KEY[toKey(value("region"))] ?? null : null
+  const province = value("province") ? PROVINCE_BY_KEY[toKey(value("province"))] ?? null : null
+  const town = value("city_municipality") ? findLocality(value("city_municipality"), province, region) : null
+  return { region, province, town }
+}
+
+/** Where the barangays of the town a locality names are listed. */
+export interface BarangayTown {
+  /** The province whose chunk lists the town; null for places outside any province. */
+  province: string | null
+  name: string
+}
+
+/** The recognized town `locality` names, to look up its barangays in `lib/ph-barangays`. */
+export function findBarangayTown(locality: PostLocality | null | undefined): BarangayTown | null {
+  const { province, town } = locality ? resolvePlaces(locality) : { province: null, town: null }
+  if (!town) return null
+  return { province: town.independent ? null : province, name: town.name }
+}
+
+function validateLocality(level: LevelSpec, locality: PostLocality, barangays: string[] | null) {
+  const warnings: string[] = []
+  const value = (part: keyof PostLocality) => locality[part]?.trim() || ""
+  const { region, province, town } = resolvePlaces(locality)
+
+  if (value("region") && !region) {
+    warnings.push(`Unknown region "${value("region")}".${suggest(value("region"), REGIONS.map((r) => r.name))}`)
+  }
+
+  if (value("province") && !province) {
+    warnings.push(`Unknown province "${value("province")}".${suggest(value("province"), Object.keys(PROVINCE_REGION))}`)
+  }
+  if (province && region && PROVINCE_REGION[province] !== region) {
+    warnings.push(`${province} is in ${PROVINCE_REGION[province]}, not ${region}.`)
+  }
+
+  const place = value("city_municipality")
+  if (town) {
+    // A town found in the province is in the province's region, which is checked above
+    if (town.independent && region && town.region !== region) {
+      warnings.push(`${town.name} is in ${town.region}, not ${region}.`)
+    }
+    if (level.id === "municipal" && town.kind === "city") {
+      warnings.push(`${town.name} is a city, not a municipality.`)
+    } else if (level.id === "city" && town.kind === "municipality") {
+      warnings.push(`${town.name} is a municipality, not a city.`)
+    }
+  } else if (place && province) {
+    warnings.push(`No city or municipality "${place}" in ${province}.${suggest(place, localityNames(province))}`)
+  } else if (place && !value("province") && !isKnownLocality(place, region)) {
+    warnings.push(`Unknown city or municipality "${place}".${suggest(place, ALL_LOCALITY_NAMES)}`)
+  }
+
+  const barangay = value("barangay")
+  if (town && barangay && barangays && !barangays.some((name) => toBarangayKey(name) === toBarangayKey(barangay))) {
+    warnings.push(`No barangay "${barangay}" in ${town.name}.${suggest(barangay, barangays)}`)
+  }
+
+  level.requires.forEach((part) => {
+    // Independent cities belong to no province, so they are named on their own
+    if (part === "province" && town?.independent) return
+    if (!value(part)) {
+      warnings.push(`No ${LOCALITY_LABELS[part]} given for a ${level.label.toLowerCase()} post.`)
+    }
+  })
+  if (level.id === "city" && place && !town?.independent && !value("province")) {
+    warnings.push(`No province given; only highly urbanized and independent cities stand on their own.`)
+  }
+  return warnings
+}
+
+/**
+ * Impossible or unrecognized level, position and locality combinations, e.g.
+ * a mayor running at national level or a misspelled province. Locality is
+ * only checked when the backend sent one, and its barangay only against
+ * `barangays`, the loaded list for the town it names (see `findBarangayTown`).
+ */
+export function validatePostTaxonomy(post: Post, barangays: string[] | null = null) {
+  const warnings: string[] = []
+  const level = resolveLevel(post.level)
+  const positionLevels = resolvePositionLevels(post.position)
+
+  if (!level) {
+    warnings.push(`Unrecognized level "${post.level}".${suggest(post.level, LEVELS.map((l) => l.label))}`)
+  }
+  if (positionLevels.length === 0) {
+    warnings.push(`Unrecognized position "${post.position}".${suggest(post.position, positionLabels(""))}`)
+  } else if (level && !positionLevels.includes(level)) {
+    warnings.push(`${post.position} is not a ${level.label.toLowerCase()} post; it is elected at ${describeLevels(positionLevels)} level.`)
+  }
+  if (level && post.locality) {
+    warnings.push(...validateLocality(level, post.locality, barangays))
+  }
+  return warnings
+}
+
+/** e.g. "San Isidro, Tanauan, Batangas", most specific first. */
+export function formatLocality(locality: PostLocality | null | undefined) {
+  if (!locality) return ""
+  const parts = [locality.barangay, locality.city_municipality, locality.province].filter((part) => part?.trim())
+  return (parts.length > 0 ? parts : [locality.region]).filter(Boolean).join(", ")
+}
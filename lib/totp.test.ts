@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest"
+import { base32Decode, base32Encode, buildOtpAuthUrl, generateSecret, generateTotp, verifyTotp } from "@/lib/totp"
+
+// The RFC 6238 appendix B SHA-1 seed, "12345678901234567890", in base32
+const RFC_SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ"
+
+describe("base32", () => {
+  const cases: Array<[string, string]> = [
+    ["", ""],
+    ["f", "MY"],
+    ["fo", "MZXQ"],
+    ["foo", "MZXW6"],
+    ["foobar", "MZXW6YTBOI"],
+  ]
+
+  it.each(cases)("encodes %j as %j and back", (text, encoded) => {
+    const bytes = new TextEncoder().encode(text)
+    expect(base32Encode(bytes)).toBe(encoded)
+    expect(base32Decode(encoded)).toEqual(bytes)
+  })
+
+  it("ignores case, spaces, dashes and padding but rejects other characters", () => {
+    expect(base32Decode("mzxw 6ytb-oi======")).toEqual(new TextEncoder().encode("foobar"))
+    expect(() => base32Decode("MZXW1")).toThrow('Invalid base32 character "1"')
+  })
+
+  it("generates secrets of the requested length", () => {
+    expect(base32Decode(generateSecret()).length).toBe(20)
+    expect(generateSecret(10)).toMatch(/^[A-Z2-7]{16}$/)
+  })
+})
+
+describe("generateTotp", () => {
+  // RFC 6238 appendix B, truncated to six digits
+  const cases: Array<[number, string]> = [
+    [59, "287082"],
+    [1111111109, "081804"],
+    [1111111111, "050471"],
+    [1234567890, "005924"],
+    [2000000000, "279037"],
+    [20000000000, "353130"],
+  ]
+
+  it.each(cases)("matches the RFC test vector at %i seconds", async (seconds, code) => {
+    expect(await generateTotp(RFC_SECRET, seconds * 1000)).toBe(code)
+  })
+})
+
+describe("verifyTotp", () => {
+  const timestamp = 1111111109 * 1000
+
+  it("accepts the current step and one step either side", async () => {
+    expect(await verifyTotp(RFC_SECRET, "081804", { timestamp })).toBe(true)
+    expect(await verifyTotp(RFC_SECRET, "081 804", { timestamp: timestamp + 30000 })).toBe(true)
+    expect(await verifyTotp(RFC_SECRET, "081804", { timestamp: timestamp + 60000 })).toBe(false)
+    expect(await verifyTotp(RFC_SECRET, "081804", { timestamp: timestamp + 60000, window: 2 })).toBe(true)
+  })
+
+  it("rejects codes that aren't six digits", async () => {
+    expect(await verifyTotp(RFC_SECRET, "81804", { timestamp })).toBe(false)
+    expect(await verifyTotp(RFC_SECRET, "08180a", { timestamp })).toBe(false)
+  })
+})
+
+describe("buildOtpAuthUrl", () => {
+  it("labels the account with the issuer and lists the parameters", () => {
+    expect(buildOtpAuthUrl({ secret: "MZXW6", accountName: "ana@example.com", issuer: "Admin" })).toBe(
+      "otpauth://totp/Admin%3Aana%40example.com?secret=MZXW6&issuer=Admin&algorithm=SHA1&digits=6&period=30"
+    )
+  })
+})
@@ -0,0 +1,57 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import type { PostLocality } from "@/lib/api"
+import { INDEPENDENT_BARANGAYS, PROVINCE_BARANGAYS, type TownBarangays } from "@/lib/ph-barangays"
+import { findBarangayTown } from "@/lib/taxonomy"
+
+// Chunk key of the places outside any province; no province is named ""
+const INDEPENDENT = ""
+
+// Shared by every card on the page so each province is downloaded once
+const chunks = new Map<string, Promise<TownBarangays>>()
+// Lets cards mounted after a province loads check barangays straight away
+const loaded = new Map<string, TownBarangays>()
+
+function loadChunk(chunk: string) {
+  let pending = chunks.get(chunk)
+  if (!pending) {
+    const load = chunk === INDEPENDENT ? INDEPENDENT_BARANGAYS : PROVINCE_BARANGAYS[chunk]
+    pending = (load ? load().then((module) => module.BARANGAYS) : Promise.resolve({}))
+      .catch((error) => {
+        console.error("Failed to load barangays:", error)
+        chunks.delete(chunk)
+        return {}
+      })
+      .then((barangays) => {
+        loaded.set(chunk, barangays)
+        return barangays
+      })
+    chunks.set(chunk, pending)
+  }
+  return pending
+}
+
+/** Barangays of the town `locality` names; null while they load or when the town isn't recognized. */
+export function useBarangays(locality: PostLocality | null | undefined) {
+  const town = findBarangayTown(locality)
+  const chunk = town ? town.province ?? INDEPENDENT : null
+  const [result, setResult] = useState<{ chunk: string; barangays: TownBarangays } | null>(null)
+
+  useEffect(() => {
+    if (chunk === null) return
+    let isMounted = true
+    loadChunk(chunk).then((barangays) => {
+      if (isMounted) {
+        setResult({ chunk, barangays })
+      }
+    })
+    return () => {
+      isMounted = false
+    }
+  }, [chunk])
+
+  if (!town || chunk === null) return null
+  const barangays = loaded.get(chunk) ?? (result?.chunk === chunk ? result.barangays : null)
+  return barangays?.[town.name] ?? null
+}
@@ -0,0 +1,118 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { listAllPosts, type Post, type PostListParams } from "@/lib/api"
+import { findDuplicates, type DuplicateMatch } from "@/lib/duplicates"
+
+// Approved candidates are the ones worth impersonating; pending ones catch
+// double submissions. Rejected posts are never matched, so they aren't fetched.
+const POOL_STATUSES = ["approved", "pending"] as const
+const LOCALITY_PARTS = ["region", "province", "city_municipality", "barangay"] as const
+
+function normalize(value: string | null | undefined) {
+  return (value ?? "").trim().toLowerCase()
+}
+
+/** The seat a post runs for: position and level within its locality. */
+function seatParams(post: Post): PostListParams {
+  const params: PostListParams = { level: post.level.trim(), position: post.position.trim() }
+  LOCALITY_PARTS.forEach((part) => {
+    const value = post.locality?.[part]?.trim()
+    if (value) params[part] = value
+  })
+  return params
+}
+
+function poolKey(post: Post) {
+  return [post.level, post.position, ...LOCALITY_PARTS.map((part) => post.locality?.[part])].map(normalize).join("|")
+}
+
+// Shared across pages so a seat is fetched once until something in it changes
+const pools = new Map<string, Promise<Post[]>>()
+const listeners = new Set<() => void>()
+
+function fetchPool(post: Post) {
+  const key = poolKey(post)
+  let pool = pools.get(key)
+  if (!pool) {
+    const params = seatParams(post)
+    pool = Promise.all(POOL_STATUSES.map((status) => listAllPosts({ ...params, status })))
+      .then((pages) => pages.flat())
+      .catch((error) => {
+        console.error("Failed to fetch duplicate candidates:", error)
+        pools.delete(key)
+        return []
+      })
+    pools.set(key, pool)
+  }
+  return pool
+}
+
+/**
+ * Forget the cached candidates of `post`'s seat, or of every seat, e.g. when
+ * a live update says a post was created or decided. Mounted hooks recompute.
+ */
+export function invalidateDuplicatePools(post?: Post) {
+  if (post) {
+    pools.delete(poolKey(post))
+  } else {
+    pools.clear()
+  }
+  listeners.forEach((listener) => listener())
+}
+
+/**
+ * Suspected duplicates of each pending post, keyed by post id. Every approved
+ * and pending post for the same seat is fetched once and cached; posts
+ * already on screen replace their cached copies so status changes show up
+ * without refetching.
+ */
+export function useDuplicates(posts: Post[]) {
+  const [matches, setMatches] = useState<Record<number, DuplicateMatch[]>>({})
+  const [version, setVersion] = useState(0)
+
+  useEffect(() => {
+    const listener = () => setVersion((current) => current + 1)
+    listeners.add(listener)
+    return () => {
+      listeners.delete(listener)
+    }
+  }, [])
+
+  useEffect(() => {
+    let isMounted = true
+    const pending = posts.filter((post) => post.status === "pending")
+    const loaded = new Map(posts.map((post) => [post.id, post]))
+
+    Promise.all(
+      pending.map((post) => {
+        const key = poolKey(post)
+        return fetchPool(post).then((fetched) => {
+          const seat = fetched.map((other) => loaded.get(other.id) ?? other)
+          const seen = new Set(seat.map((other) => other.id))
+          posts.forEach((other) => {
+            if (!seen.has(other.id) && poolKey(other) === key) {
+              seat.push(other)
+            }
+          })
+          return [post.id, findDuplicates(post, seat)] as const
+        })
+      })
+    ).then((results) => {
+      if (!isMounted) return
+      const next: Record<number, DuplicateMatch[]> = {}
+      results.forEach(([postId, found]) => {
+        if (found.length > 0) {
+          next[postId] = found
+        }
+      })
+      setMatches(next)
+    })
+
+    return () => {
+      isMounted = false
+    }
+  }, [posts, version])
+
+  return matches
+}
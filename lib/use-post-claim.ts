@@ -0,0 +1,61 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { claimPost, releasePostClaim, type PostClaim } from "@/lib/api"
+import { getClaimConflict } from "@/lib/claims"
+
+// Well inside the backend's claim lifetime, so a claim never lapses while the post is open
+const RENEW_INTERVAL_MS = 60000
+
+/**
+ * Claims `postId` for the signed-in admin while it is open, renewing it on a
+ * timer and releasing it on close. Pass null to hold nothing. Returns the
+ * other admin's claim when someone else got there first; that is retried on
+ * the same timer so the post is picked up once they let go.
+ */
+export function usePostClaim(postId: number | null) {
+  // Tagged with the post it was for, so moving to another post clears it
+  const [blocked, setBlocked] = useState<{ postId: number; claim: PostClaim | null } | null>(null)
+
+  useEffect(() => {
+    if (postId === null) {
+      return
+    }
+
+    let isActive = true
+    let isHeld = false
+    const claim = () => {
+      claimPost(postId)
+        .then(() => {
+          if (!isActive) {
+            // Closed while the claim was in flight
+            releasePostClaim(postId).catch((error) => console.error("Failed to release post claim:", error))
+            return
+          }
+          isHeld = true
+          setBlocked({ postId, claim: null })
+        })
+        .catch((error) => {
+          isHeld = false
+          const conflict = getClaimConflict(error)
+          if (!conflict) {
+            console.error("Failed to claim post:", error)
+          }
+          if (isActive) setBlocked({ postId, claim: conflict })
+        })
+    }
+
+    claim()
+    const intervalId = setInterval(claim, RENEW_INTERVAL_MS)
+
+    return () => {
+      isActive = false
+      clearInterval(intervalId)
+      if (isHeld) {
+        releasePostClaim(postId).catch((error) => console.error("Failed to release post claim:", error))
+      }
+    }
+  }, [postId])
+
+  return blocked && blocked.postId === postId ? blocked.claim : null
+}
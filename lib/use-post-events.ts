@@ -0,0 +1,126 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { openPostEventStream, type Post, type PostEvent, type PostEventType } from "@/lib/api"
+
+/** `polling` while the stream is down and the list is refreshed on a timer instead. */
+export type LiveConnection = "connecting" | "live" | "polling"
+
+const EVENT_TYPES: PostEventType[] = ["post.created", "post.updated", "post.decided"]
+const POLL_INTERVAL_MS = 60000
+const MIN_RECONNECT_DELAY_MS = 2000
+const MAX_RECONNECT_DELAY_MS = 60000
+
+interface UsePostEventsOptions {
+  enabled: boolean
+  onEvent: (event: PostEvent) => void
+  /**
+   * Reload the list. Called on a timer (while the tab is visible) when the
+   * stream is down, and once when it reconnects to catch up on missed events.
+   */
+  onResync: () => void
+}
+
+/** Subscribes to pushed post changes, falling back to polling whenever the stream drops. */
+export function usePostEvents({ enabled, onEvent, onResync }: UsePostEventsOptions) {
+  const [connection, setConnection] = useState<LiveConnection>("connecting")
+  // Callbacks change with the filters; reading them through refs keeps the stream open
+  const onEventRef = useRef(onEvent)
+  const onResyncRef = useRef(onResync)
+
+  useEffect(() => {
+    onEventRef.current = onEvent
+    onResyncRef.current = onResync
+  })
+
+  useEffect(() => {
+    if (!enabled) {
+      return
+    }
+
+    let source: EventSource | null = null
+    let pollTimer: ReturnType<typeof setInterval> | null = null
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null
+    let reconnectDelay = MIN_RECONNECT_DELAY_MS
+    let isLive = false
+    let hasDropped = false
+
+    const startPolling = () => {
+      setConnection("polling")
+      if (pollTimer) return
+      pollTimer = setInterval(() => {
+        if (document.visibilityState === "visible") {
+          onResyncRef.current()
+        }
+      }, POLL_INTERVAL_MS)
+    }
+
+    const stopPolling = () => {
+      if (pollTimer) {
+        clearInterval(pollTimer)
+        pollTimer = null
+      }
+    }
+
+    const handleMessage = (type: PostEventType) => (message: MessageEvent<string>) => {
+      try {
+        const { post } = JSON.parse(message.data) as { post: Post }
+        onEventRef.current({ type, post })
+      } catch (error) {
+        console.error(`Ignoring malformed ${type} event:`, error)
+      }
+    }
+
+    const connect = () => {
+      reconnectTimer = null
+      source = openPostEventStream()
+      source.onopen = () => {
+        isLive = true
+        reconnectDelay = MIN_RECONNECT_DELAY_MS
+        stopPolling()
+        setConnection("live")
+        if (hasDropped) {
+          hasDropped = false
+          onResyncRef.current()
+        }
+      }
+      source.onerror = () => {
+        isLive = false
+        hasDropped = true
+        startPolling()
+        // EventSource retries by itself unless the server refused the stream outright
+        if (source && source.readyState === EventSource.CLOSED && !reconnectTimer) {
+          source.close()
+          reconnectTimer = setTimeout(connect, reconnectDelay)
+          reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY_MS)
+        }
+      }
+      EVENT_TYPES.forEach((type) => source?.addEventListener(type, handleMessage(type)))
+    }
+
+    // Catch up straight away when returning to a tab that has been polling
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "visible" && !isLive) {
+        onResyncRef.current()
+      }
+    }
+
+    if (typeof EventSource === "undefined") {
+      startPolling()
+    } else {
+      connect()
+    }
+    document.addEventListener("visibilitychange", handleVisibilityChange)
+
+    return () => {
+      source?.close()
+      stopPolling()
+      if (reconnectTimer) {
+        clearTimeout(reconnectTimer)
+      }
+      document.removeEventListener("visibilitychange", handleVisibilityChange)
+    }
+  }, [enabled])
+
+  return connection
+}
@@ -0,0 +1,38 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { listRejectionReasons, type RejectionReason } from "@/lib/api"
+
+// Shared across every reject area on the page so the library is fetched once
+let cached: Promise<RejectionReason[]> | null = null
+
+/** Forget the cached library, e.g. after editing it on the reasons page. */
+export function invalidateRejectionReasons() {
+  cached = null
+}
+
+/** Active canned rejection reasons; empty until loaded or if the request fails. */
+export function useRejectionReasons() {
+  const [reasons, setReasons] = useState<RejectionReason[]>([])
+
+  useEffect(() => {
+    let isMounted = true
+    if (!cached) {
+      cached = listRejectionReasons().catch((error) => {
+        console.error("Failed to load rejection reasons:", error)
+        cached = null
+        return []
+      })
+    }
+    cached.then((all) => {
+      if (isMounted) {
+        setReasons(all.filter((reason) => reason.is_active))
+      }
+    })
+    return () => {
+      isMounted = false
+    }
+  }, [])
+
+  return reasons
+}
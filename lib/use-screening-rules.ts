@@ -0,0 +1,47 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { listScreeningRules } from "@/lib/api"
+import { DEFAULT_SCREENING_RULES, compileScreeningRules, type ScreeningRule } from "@/lib/screening-rules"
+
+const NO_RULES: ScreeningRule[] = []
+const FALLBACK_RULES = compileScreeningRules(DEFAULT_SCREENING_RULES)
+
+// Shared by every card on the page so the rules are fetched and compiled once
+let cached: Promise<ScreeningRule[]> | null = null
+// Lets cards mounted after the first load (e.g. while scrolling) render highlights straight away
+let loaded: ScreeningRule[] | null = null
+
+/** Forget the cached rules, e.g. after editing them on the screening page. */
+export function invalidateScreeningRules() {
+  cached = null
+  loaded = null
+}
+
+/** Active pre-screening rules; the built-in defaults if the configured ones can't be loaded. */
+export function useScreeningRules() {
+  const [rules, setRules] = useState<ScreeningRule[]>(() => loaded ?? NO_RULES)
+
+  useEffect(() => {
+    let isMounted = true
+    if (!cached) {
+      cached = listScreeningRules()
+        .then(compileScreeningRules)
+        .catch((error) => {
+          console.error("Failed to load screening rules:", error)
+          return FALLBACK_RULES
+        })
+        .then((compiled) => (loaded = compiled))
+    }
+    cached.then((compiled) => {
+      if (isMounted) {
+        setRules(compiled)
+      }
+    })
+    return () => {
+      isMounted = false
+    }
+  }, [])
+
+  return rules
+}
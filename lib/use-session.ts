@@ -0,0 +1,33 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { getSession, redirectToLogin, type SessionResponse } from "@/lib/api"
+import { hasPermission, type Permission } from "@/lib/permissions"
+
+/**
+ * Loads the signed-in admin and bounces back to login once the session
+ * expires. Middleware has already verified the cookie before the page renders.
+ */
+export function useSession() {
+  const [session, setSession] = useState<SessionResponse | null>(null)
+
+  useEffect(() => {
+    getSession()
+      .then(setSession)
+      .catch((error) => {
+        // 401s are redirected to login by the API client
+        console.error("Failed to load session:", error)
+      })
+  }, [])
+
+  useEffect(() => {
+    if (!session) return
+    const remaining = new Date(session.expires_at).getTime() - Date.now()
+    const timeoutId = setTimeout(() => redirectToLogin("expired"), Math.max(remaining, 0))
+    return () => clearTimeout(timeoutId)
+  }, [session])
+
+  const can = useCallback((permission: Permission) => hasPermission(session?.user, permission), [session])
+
+  return { session, can }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server"
+import { SESSION_COOKIE, unsealSession } from "@/lib/session"
+
+const TWO_FACTOR_SETUP_PATH = "/security"
+
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl
+  const cookie = request.cookies.get(SESSION_COOKIE)?.value
+  const session = await unsealSession(cookie)
+
+  if (pathname === "/login") {
+    // Already signed in: skip the login form
+    return session ? NextResponse.redirect(new URL("/", request.url)) : NextResponse.next()
+  }
+
+  if (session && !session.user.two_factor_enabled) {
+    // A second factor is mandatory: nothing but enrollment until it is set up
+    if (pathname === TWO_FACTOR_SETUP_PATH) {
+      return NextResponse.next()
+    }
+    if (pathname.startsWith("/api/")) {
+      return NextResponse.json({ message: "Set up two-factor authentication to continue." }, { status: 403 })
+    }
+    return NextResponse.redirect(new URL(TWO_FACTOR_SETUP_PATH, request.url))
+  }
+
+  if (session) {
+    return NextResponse.next()
+  }
+
+  if (pathname.startsWith("/api/")) {
+    return NextResponse.json({ message: "Your session has expired. Please sign in again." }, { status: 401 })
+  }
+
+  const loginUrl = new URL("/login", request.url)
+  loginUrl.searchParams.set("next", `${pathname}${search}`)
+  if (cookie) {
+    // A cookie that no longer unseals means the session expired
+    loginUrl.searchParams.set("reason", "expired")
+  }
+  const response = NextResponse.redirect(loginUrl)
+  if (cookie) {
+    response.cookies.delete(SESSION_COOKIE)
+  }
+  return response
+}
+
+export const config = {
+  // Auth routes check the session themselves; static assets are public
+  matcher: ["/((?!api/auth|_next/static|_next/image|favicon.ico).*)"],
+}